@@ -26,9 +26,11 @@ import BreedingPage from "./pages/Breeding";
 import EquipmentPage from "./pages/Equipment";
 import RoutesPage from "./pages/Routes";
 import PriceRulesPage from "./pages/PriceRules";
+import ReconciliationPage from "./pages/Reconciliation";
 import AuditLogsPage from "./pages/AuditLogs";
 import NotificationsPage from "./pages/Notifications";
 import MilkProcurementPage from "./pages/MilkProcurement";
+import ProcessingPage from "./pages/Processing";
 import NotFound from "./pages/NotFound";
 // Customer App Pages
 import CustomerAuth from "./pages/customer/CustomerAuth";
@@ -57,6 +59,7 @@ const App = () => (
             <Route path="/cattle" element={<CattlePage />} />
             <Route path="/production" element={<ProductionPage />} />
             <Route path="/milk-procurement" element={<MilkProcurementPage />} />
+            <Route path="/processing" element={<ProcessingPage />} />
             <Route path="/products" element={<ProductsPage />} />
             <Route path="/customers" element={<CustomersPage />} />
             <Route path="/deliveries" element={<DeliveriesPage />} />
@@ -73,6 +76,7 @@ const App = () => (
             <Route path="/equipment" element={<EquipmentPage />} />
             <Route path="/routes" element={<RoutesPage />} />
             <Route path="/price-rules" element={<PriceRulesPage />} />
+            <Route path="/reconciliation" element={<ReconciliationPage />} />
             <Route path="/audit-logs" element={<AuditLogsPage />} />
             <Route path="/notifications" element={<NotificationsPage />} />
           </Route>
@@ -24,6 +24,7 @@ import { useToast } from "@/hooks/use-toast";
 import { format, startOfMonth, endOfMonth, addDays } from "date-fns";
 import { FileText, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import { isPrepaidCustomer } from "@/lib/prepaid-wallet";
 
 interface Customer {
   id: string;
@@ -42,7 +43,7 @@ interface DeliverySummary {
 // Type for delivery query with customer and items
 interface DeliveryWithCustomer {
   customer_id: string;
-  customers: { name: string } | null;
+  customers: { name: string; billing_cycle: string | null } | null;
   delivery_items: Array<{ total_amount: number }> | null;
 }
 
@@ -129,6 +130,9 @@ export function BulkInvoiceGenerator({
     const typedDeliveries = (deliveries || []) as DeliveryWithCustomer[];
     
     typedDeliveries.forEach((delivery) => {
+      // Prepaid customers pay per delivery from their wallet
+      if (isPrepaidCustomer(delivery.customers)) return;
+
       const customerId = delivery.customer_id;
       const customerName = delivery.customers?.name || "Unknown";
       const deliveryTotal = (delivery.delivery_items || []).reduce(
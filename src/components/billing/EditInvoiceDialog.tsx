@@ -21,6 +21,14 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useInvoiceGstContext } from "@/hooks/useInvoiceGstContext";
+import {
+  calculateGstLine,
+  sumGstLines,
+  buildInvoiceTaxFields,
+  formatStateCode,
+  type GstLine,
+} from "@/lib/gst";
 import { format } from "date-fns";
 import { 
   Loader2, 
@@ -39,6 +47,8 @@ interface Product {
   base_price: number;
   unit: string;
   tax_percentage: number;
+  hsn_code: string | null;
+  tax_class: string;
 }
 
 interface LineItem {
@@ -49,6 +59,8 @@ interface LineItem {
   unit: string;
   rate: number;
   tax_percentage: number;
+  hsn_code: string | null;
+  tax_class: string;
   amount: number;
   is_addon: boolean;
   delivery_count?: number;
@@ -90,6 +102,19 @@ export function EditInvoiceDialog({
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const gstContext = useInvoiceGstContext(invoice?.customer_id);
+
+  const toGstLine = (item: LineItem): GstLine =>
+    calculateGstLine({
+      product_id: item.product_id,
+      description: item.product_name,
+      hsn_code: item.hsn_code,
+      tax_class: item.tax_class,
+      gst_rate: item.tax_percentage,
+      unit: item.unit,
+      quantity: item.quantity,
+      rate: item.rate,
+    }, gstContext.interState);
 
   // Load invoice data when dialog opens
   useEffect(() => {
@@ -180,6 +205,8 @@ export function EditInvoiceDialog({
             unit: product.unit,
             rate: data.unit_price || product.base_price,
             tax_percentage: product.tax_percentage || 0,
+            hsn_code: product.hsn_code,
+            tax_class: product.tax_class,
             amount: data.quantity * (data.unit_price || product.base_price),
             is_addon: data.is_addon,
             delivery_count: data.delivery_count,
@@ -207,6 +234,8 @@ export function EditInvoiceDialog({
               unit: unit || product?.unit || "unit",
               rate: unitPrice,
               tax_percentage: product?.tax_percentage || 0,
+              hsn_code: product?.hsn_code || null,
+              tax_class: product?.tax_class || "taxable",
               amount: quantity * unitPrice,
               is_addon: isAddon,
             });
@@ -242,6 +271,8 @@ export function EditInvoiceDialog({
       unit: "-",
       rate: 0,
       tax_percentage: 0,
+      hsn_code: null,
+      tax_class: "taxable",
       amount: 0,
       is_addon: true,
     };
@@ -265,12 +296,12 @@ export function EditInvoiceDialog({
           updated.rate = product.base_price;
           updated.unit = product.unit;
           updated.tax_percentage = product.tax_percentage || 0;
+          updated.hsn_code = product.hsn_code;
+          updated.tax_class = product.tax_class;
         }
       }
       
-      const baseAmount = updated.quantity * updated.rate;
-      const taxAmount = (baseAmount * updated.tax_percentage) / 100;
-      updated.amount = baseAmount + taxAmount;
+      updated.amount = toGstLine(updated).total;
       
       return updated;
     }));
@@ -283,12 +314,14 @@ export function EditInvoiceDialog({
   // Compute subtotal as pre-tax base amounts only
   const subscriptionTotal = subscriptionItems.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
   const addonTotal = addonItems.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-  const subtotal = subscriptionTotal + addonTotal;
-  
-  const totalTax = lineItems.reduce((sum, item) => {
-    const baseAmount = item.quantity * item.rate;
-    return sum + (baseAmount * item.tax_percentage) / 100;
-  }, 0);
+
+  // Per-line GST split (CGST + SGST, or IGST for inter-state supply)
+  const gstLines: GstLine[] = lineItems
+    .filter(item => item.product_id && item.quantity > 0)
+    .map(toGstLine);
+  const gstTotals = sumGstLines(gstLines);
+  const subtotal = gstTotals.taxable_value;
+  const totalTax = gstTotals.total_tax;
   
   // grandTotal = subtotal + tax - discount (arithmetically consistent)
   const grandTotal = subtotal + totalTax - discountAmount;
@@ -323,8 +356,7 @@ export function EditInvoiceDialog({
     const { error } = await supabase
       .from("invoices")
       .update({
-        total_amount: subtotal,
-        tax_amount: totalTax,
+        ...buildInvoiceTaxFields(gstLines, gstContext.supplier, gstContext.customerGstin, gstContext.placeOfSupply),
         discount_amount: discountAmount,
         final_amount: grandTotal,
         notes: allDetails || null,
@@ -532,10 +564,28 @@ export function EditInvoiceDialog({
                     <span>Subtotal:</span>
                     <span>₹{subtotal.toLocaleString("en-IN")}</span>
                   </div>
-                  {totalTax > 0 && (
+                  {gstTotals.cgst_amount > 0 && (
                     <div className="flex justify-between text-sm text-muted-foreground">
-                      <span>Tax (included):</span>
-                      <span>₹{totalTax.toFixed(2)}</span>
+                      <span>CGST:</span>
+                      <span>₹{gstTotals.cgst_amount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {gstTotals.sgst_amount > 0 && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>SGST:</span>
+                      <span>₹{gstTotals.sgst_amount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {gstTotals.igst_amount > 0 && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>IGST:</span>
+                      <span>₹{gstTotals.igst_amount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {gstContext.placeOfSupply && (
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Place of supply:</span>
+                      <span>{formatStateCode(gstContext.placeOfSupply)}</span>
                     </div>
                   )}
                   {discountAmount > 0 && (
@@ -592,7 +642,15 @@ export function EditInvoiceDialog({
           <div key={item.id} className={`grid grid-cols-12 gap-2 items-center rounded-lg p-1 ${isAddon ? 'bg-warning/5' : ''}`}>
             <div className="col-span-4">
               {item.product_id ? (
-                <span className="text-sm font-medium">{item.product_name}</span>
+                <div>
+                  <span className="text-sm font-medium">{item.product_name}</span>
+                  {(item.hsn_code || item.tax_percentage > 0) && (
+                    <span className="text-xs text-muted-foreground block">
+                      {item.hsn_code && `HSN ${item.hsn_code}`}
+                      {item.tax_class === "taxable" && item.tax_percentage > 0 && ` · ${item.tax_percentage}% GST`}
+                    </span>
+                  )}
+                </div>
               ) : (
                 <Select
                   value={item.product_id}
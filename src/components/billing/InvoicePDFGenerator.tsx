@@ -13,6 +13,11 @@ import {
 } from "@/components/ui/dialog";
 import { numberToIndianWords } from "@/lib/numberToWords";
 import { logger } from "@/lib/logger";
+import { formatStateCode, invoiceTitle, summarizeByHsn, type GstLine } from "@/lib/gst";
+import { getInvoiceBalance } from "@/lib/invoice-helpers";
+import { buildInvoiceUpiLink } from "@/lib/upi";
+import { encodeQr, drawQrToPdf } from "@/lib/qr-code";
+import { formatBottleLabel, type OutstandingBottle } from "@/lib/bottle-deposits";
 
 interface DairySettings {
   dairy_name: string;
@@ -23,6 +28,8 @@ interface DairySettings {
   invoice_prefix: string;
   logo_url: string | null;
   upi_handle: string | null;
+  gstin?: string | null;
+  state_code?: string | null;
 }
 
 interface Customer {
@@ -69,6 +76,13 @@ interface Invoice {
   created_at: string;
   notes?: string | null;
   upi_handle?: string | null;
+  supplier_gstin?: string | null;
+  customer_gstin?: string | null;
+  place_of_supply?: string | null;
+  cgst_amount?: number | null;
+  sgst_amount?: number | null;
+  igst_amount?: number | null;
+  tax_breakup?: unknown;
   customer?: {
     id: string;
     name: string;
@@ -167,6 +181,20 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
         .eq("status", "delivered")
         .limit(10000);
 
+      // Bottles still with the customer, for the outstanding-bottles section
+      const { data: bottleBalances } = await supabase
+        .from("customer_bottles")
+        .select("quantity_pending, deposit_held, last_issued_date, bottle:bottle_id (size, bottle_type)")
+        .eq("customer_id", invoice.customer_id)
+        .gt("quantity_pending", 0);
+
+      const outstandingBottles: OutstandingBottle[] = (bottleBalances || []).map((b) => ({
+        bottle_label: formatBottleLabel(b.bottle as { size: string; bottle_type: string } | null),
+        quantity_pending: b.quantity_pending || 0,
+        deposit_held: Number(b.deposit_held || 0),
+        last_issued_date: b.last_issued_date,
+      }));
+
       // Flatten delivery items
       const items: DeliveryItem[] = [];
       const typedDeliveries = (deliveries || []) as DeliveryQueryResult[];
@@ -248,6 +276,20 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       const contactLine = `Phone: ${settings.phone || "+91 78977 16792"} | Email: contact@awadhdairy.com`;
       doc.text(contactLine, companyX, yPos + 35);
 
+      // Lines saved at invoicing time; older invoices have no breakup and use the legacy layout
+      const gstLines = Array.isArray(invoice.tax_breakup) ? (invoice.tax_breakup as GstLine[]) : [];
+      const supplierGstin = invoice.supplier_gstin || settings.gstin;
+      if (supplierGstin) {
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(...darkText);
+        doc.text(`GSTIN: ${supplierGstin}`, companyX, yPos + 41);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(...grayText);
+        if (settings.state_code) {
+          doc.text(`State: ${formatStateCode(settings.state_code)}`, companyX + 52, yPos + 41);
+        }
+      }
+
       // INVOICE badge - Right side
       const badgeWidth = 55;
       const badgeX = pageWidth - margin - badgeWidth;
@@ -258,7 +300,7 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       doc.setTextColor(255, 255, 255);
       doc.setFontSize(14);
       doc.setFont("helvetica", "bold");
-      doc.text("TAX INVOICE", badgeX + badgeWidth / 2, yPos + 16, { align: "center" });
+      doc.text(gstLines.length > 0 ? invoiceTitle(gstLines) : "TAX INVOICE", badgeX + badgeWidth / 2, yPos + 16, { align: "center" });
       
       doc.setFontSize(11);
       doc.text(invoice.invoice_number, badgeX + badgeWidth / 2, yPos + 25, { align: "center" });
@@ -315,6 +357,12 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       }
       if (customer.phone) {
         doc.text(`Ph: ${customer.phone}`, margin + 8, customerInfoY);
+        customerInfoY += 4;
+      }
+      if (invoice.customer_gstin) {
+        doc.setTextColor(...darkText);
+        doc.text(`GSTIN: ${invoice.customer_gstin}`, margin + 8, customerInfoY);
+        doc.setTextColor(...grayText);
       }
 
       // Invoice Details Box
@@ -350,6 +398,9 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       addDetailRow("Invoice Date:", format(new Date(invoice.created_at), "dd MMMM yyyy"));
       addDetailRow("Billing Period:", `${format(new Date(invoice.billing_period_start), "dd MMM")} - ${format(new Date(invoice.billing_period_end), "dd MMM yyyy")}`);
       addDetailRow("Due Date:", invoice.due_date ? format(new Date(invoice.due_date), "dd MMM yyyy") : "On Receipt");
+      if (invoice.place_of_supply) {
+        addDetailRow("Place of Supply:", formatStateCode(invoice.place_of_supply));
+      }
 
       // Payment Status Badge
       detailY += 2;
@@ -394,8 +445,26 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       }
 
       let tableData: string[][] = [];
+      const money = (amount: number) =>
+        amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      const interState = gstLines.some((l) => l.igst_amount > 0);
+      const lastTableY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
 
-      if (items.length > 0) {
+      if (gstLines.length > 0) {
+        tableData = gstLines.map((line, index) => [
+          String(index + 1),
+          line.description,
+          line.hsn_code || "-",
+          `${Number(line.quantity).toFixed(2)} ${line.unit}`,
+          money(line.rate),
+          money(line.taxable_value),
+          `${line.gst_rate}%`,
+          ...(interState
+            ? [money(line.igst_amount)]
+            : [money(line.cgst_amount), money(line.sgst_amount)]),
+          money(line.total),
+        ]);
+      } else if (items.length > 0) {
         // Group items by product and rate
         const groupedItems = items.reduce((acc: Record<string, GroupedItem>, item) => {
           const key = `${item.product_name}_${item.unit_price}`;
@@ -440,7 +509,83 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
         });
       }
 
-      if (tableData.length > 0) {
+      if (gstLines.length > 0) {
+        autoTable(doc, {
+          startY: yPos,
+          head: [[
+            "#", "Description", "HSN", "Qty", "Rate", "Taxable", "GST",
+            ...(interState ? ["IGST"] : ["CGST", "SGST"]),
+            `Amount (${currencySymbol})`,
+          ]],
+          body: tableData,
+          margin: { left: margin, right: margin },
+          headStyles: {
+            fillColor: primaryColor,
+            textColor: [255, 255, 255],
+            fontStyle: "bold",
+            fontSize: 8,
+            cellPadding: 3,
+            halign: "center",
+            valign: "middle",
+          },
+          bodyStyles: {
+            textColor: darkText,
+            fontSize: 8,
+            cellPadding: 3,
+            valign: "middle",
+            halign: "right",
+          },
+          alternateRowStyles: {
+            fillColor: [250, 250, 250],
+          },
+          columnStyles: {
+            0: { cellWidth: 8, halign: "center" },
+            1: { cellWidth: "auto", halign: "left" },
+            2: { halign: "center" },
+            3: { halign: "center" },
+            6: { halign: "center" },
+            [interState ? 8 : 9]: { fontStyle: "bold" },
+          },
+          styles: {
+            lineColor: borderColor,
+            lineWidth: 0.3,
+            overflow: "linebreak",
+          },
+          tableLineColor: borderColor,
+          tableLineWidth: 0.3,
+        });
+
+        yPos = lastTableY() + 6;
+
+        // HSN-wise summary required on tax invoices
+        autoTable(doc, {
+          startY: yPos,
+          head: [[
+            "HSN", "Taxable Value", "Rate",
+            ...(interState ? ["IGST"] : ["CGST", "SGST"]),
+            "Total Tax",
+          ]],
+          body: summarizeByHsn(gstLines).map((row) => [
+            row.hsn_code,
+            money(row.taxable_value),
+            `${row.gst_rate}%`,
+            ...(interState ? [money(row.igst_amount)] : [money(row.cgst_amount), money(row.sgst_amount)]),
+            money(row.cgst_amount + row.sgst_amount + row.igst_amount),
+          ]),
+          margin: { left: margin, right: margin + 100 },
+          headStyles: { fillColor: lightBg, textColor: darkText, fontStyle: "bold", fontSize: 7, cellPadding: 2 },
+          bodyStyles: { textColor: darkText, fontSize: 7, cellPadding: 2, halign: "right" },
+          columnStyles: { 0: { halign: "left" }, 2: { halign: "center" } },
+          styles: { lineColor: borderColor, lineWidth: 0.2 },
+        });
+
+        doc.setTextColor(...grayText);
+        doc.setFontSize(7);
+        doc.setFont("helvetica", "normal");
+        doc.text("Tax payable on reverse charge: No", margin, lastTableY() + 5);
+
+        yPos = lastTableY() + 12;
+      } else if (tableData.length > 0) {
         autoTable(doc, {
           startY: yPos,
           head: [["#", "Product Description", "Quantity", "Unit Rate", "Amount"]],
@@ -492,7 +637,14 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       // === SUMMARY SECTION ===
       const summaryWidth = 95;
       const summaryX = pageWidth - margin - summaryWidth;
-      const summaryHeight = Number(invoice.discount_amount) > 0 ? 65 : 58;
+      const taxRows: [string, number][] = gstLines.length > 0
+        ? [
+            ["CGST", Number(invoice.cgst_amount || 0)],
+            ["SGST", Number(invoice.sgst_amount || 0)],
+            ["IGST", Number(invoice.igst_amount || 0)],
+          ].filter(([, amount]) => Number(amount) > 0) as [string, number][]
+        : [["Tax", Number(invoice.tax_amount || 0)]];
+      const summaryHeight = 50 + Math.max(taxRows.length, 1) * 8 + (Number(invoice.discount_amount) > 0 ? 7 : 0);
       
       doc.setFillColor(...lightBg);
       doc.setDrawColor(...borderColor);
@@ -512,19 +664,21 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
       // Subtotal
       doc.setTextColor(...grayText);
       doc.setFont("helvetica", "normal");
-      doc.text("Subtotal:", sumLabelX, sumY);
+      doc.text(gstLines.length > 0 ? "Taxable Value:" : "Subtotal:", sumLabelX, sumY);
       doc.setTextColor(...darkText);
       doc.setFont("helvetica", "bold");
       doc.text(formatCurrency(Number(invoice.total_amount)), sumValueX, sumY, { align: "right" });
 
-      // Tax
-      sumY += 8;
-      doc.setTextColor(...grayText);
-      doc.setFont("helvetica", "normal");
-      doc.text("Tax:", sumLabelX, sumY);
-      doc.setTextColor(...darkText);
-      doc.setFont("helvetica", "bold");
-      doc.text(formatCurrency(Number(invoice.tax_amount || 0)), sumValueX, sumY, { align: "right" });
+      // Tax (CGST/SGST or IGST for GST invoices)
+      taxRows.forEach(([label, amount]) => {
+        sumY += 8;
+        doc.setTextColor(...grayText);
+        doc.setFont("helvetica", "normal");
+        doc.text(`${label}:`, sumLabelX, sumY);
+        doc.setTextColor(...darkText);
+        doc.setFont("helvetica", "bold");
+        doc.text(formatCurrency(amount), sumValueX, sumY, { align: "right" });
+      });
 
       // Discount (if any)
       if (Number(invoice.discount_amount) > 0) {
@@ -617,41 +771,91 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
         yPos += 28;
       }
 
+      // === OUTSTANDING BOTTLES ===
+      if (outstandingBottles.length > 0) {
+        if (yPos > pageHeight - 50) {
+          doc.addPage();
+          yPos = margin;
+        }
+
+        doc.setTextColor(...accentColor);
+        doc.setFontSize(9);
+        doc.setFont("helvetica", "bold");
+        doc.text("BOTTLES WITH CUSTOMER", margin, yPos + 4);
+
+        autoTable(doc, {
+          startY: yPos + 7,
+          head: [["Bottle", "Pending", "Last Issued", "Deposit Held"]],
+          body: outstandingBottles.map((b) => [
+            b.bottle_label,
+            String(b.quantity_pending),
+            b.last_issued_date ? format(new Date(b.last_issued_date), "dd MMM yyyy") : "-",
+            money(b.deposit_held),
+          ]),
+          margin: { left: margin, right: margin + 60 },
+          headStyles: { fillColor: lightBg, textColor: darkText, fontStyle: "bold", fontSize: 8, cellPadding: 2 },
+          bodyStyles: { textColor: darkText, fontSize: 8, cellPadding: 2 },
+          columnStyles: { 1: { halign: "center" }, 3: { halign: "right" } },
+          styles: { lineColor: borderColor, lineWidth: 0.2 },
+        });
+
+        doc.setTextColor(...grayText);
+        doc.setFontSize(7);
+        doc.setFont("helvetica", "normal");
+        doc.text("Deposits are refunded when bottles are returned.", margin, lastTableY() + 5);
+
+        yPos = lastTableY() + 12;
+      }
+
       // === UPI PAYMENT SECTION ===
       // Use invoice-specific UPI if available, otherwise fall back to current dairy settings
       const upiHandle = invoice.upi_handle || settings.upi_handle;
-      
-      if (upiHandle && yPos < pageHeight - 95) {
+      const upiLink = buildInvoiceUpiLink(invoice, settings);
+      const upiQr = upiLink ? encodeQr(upiLink) : null;
+      const balanceDue = getInvoiceBalance(invoice);
+
+      if (upiHandle && upiLink && balanceDue > 0) {
+        const boxHeight = 42;
+        const qrSize = 36;
+        if (yPos > pageHeight - boxHeight - 60) {
+          doc.addPage();
+          yPos = margin;
+        }
+
         doc.setFillColor(240, 240, 255); // Light purple/blue background
         doc.setDrawColor(88, 86, 214);   // UPI purple
         doc.setLineWidth(0.5);
-        doc.roundedRect(margin, yPos, pageWidth - margin * 2, 28, 3, 3, "FD");
+        doc.roundedRect(margin, yPos, pageWidth - margin * 2, boxHeight, 3, 3, "FD");
         
         // UPI icon/label
         doc.setTextColor(88, 86, 214);
         doc.setFontSize(10);
         doc.setFont("helvetica", "bold");
-        doc.text("PAY VIA UPI", margin + 10, yPos + 10);
+        doc.text("SCAN OR TAP TO PAY VIA UPI", margin + 10, yPos + 10);
         
         // UPI Handle - clickable
         doc.setTextColor(30, 30, 30);
         doc.setFontSize(13);
         doc.setFont("helvetica", "bold");
         doc.text(upiHandle, margin + 10, yPos + 20);
+
+        doc.setFontSize(10);
+        doc.text(`Amount: ${formatCurrency(balanceDue)}`, margin + 10, yPos + 28);
         
         // Tap to pay hint
         doc.setTextColor(88, 86, 214);
         doc.setFontSize(8);
         doc.setFont("helvetica", "italic");
-        doc.text("Tap to open payment app", pageWidth - margin - 10, yPos + 20, { align: "right" });
-        
-        // Create UPI deep link for payment apps
-        const upiDeepLink = `upi://pay?pa=${encodeURIComponent(upiHandle)}&pn=${encodeURIComponent(settings.dairy_name)}&am=${invoice.final_amount}&cu=INR&tn=Invoice%20${encodeURIComponent(invoice.invoice_number)}`;
+        doc.text(`Note: Invoice ${invoice.invoice_number} | Tap to open payment app`, margin + 10, yPos + 36);
+
+        if (upiQr) {
+          drawQrToPdf(doc, upiQr, pageWidth - margin - qrSize - 3, yPos + (boxHeight - qrSize) / 2, qrSize);
+        }
         
         // Make the entire box clickable
-        doc.link(margin, yPos, pageWidth - margin * 2, 28, { url: upiDeepLink });
+        doc.link(margin, yPos, pageWidth - margin * 2, boxHeight, { url: upiLink });
         
-        yPos += 36;
+        yPos += boxHeight + 8;
       }
 
       // === TERMS AND BANK DETAILS ===
@@ -676,6 +880,14 @@ export function InvoicePDFGenerator({ invoice, onGenerated }: InvoicePDFGenerato
         doc.text("• Please quote invoice number for all payments.", margin, yPos);
         yPos += 4;
         doc.text("• Subject to Lucknow jurisdiction.", margin, yPos);
+
+        if (supplierGstin) {
+          doc.setTextColor(...darkText);
+          doc.setFont("helvetica", "bold");
+          doc.text(`For ${settings.dairy_name}`, pageWidth - margin, yPos - 8, { align: "right" });
+          doc.setFont("helvetica", "normal");
+          doc.text("Authorised Signatory", pageWidth - margin, yPos + 4, { align: "right" });
+        }
       }
 
       // === FOOTER ===
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { useTelegramNotify } from "@/hooks/useTelegramNotify";
+import { usePaymentPosting, type PayableInvoice } from "@/hooks/usePaymentPosting";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, Smartphone, X } from "lucide-react";
+
+interface PendingPayment {
+  id: string;
+  amount: number;
+  reference_number: string | null;
+  payment_date: string;
+  created_at: string | null;
+  customer_id: string;
+  customer: { name: string } | null;
+  invoice: PayableInvoice | null;
+}
+
+interface PendingUpiPaymentsProps {
+  onVerified?: () => void;
+}
+
+/**
+ * UTRs submitted by customers from the portal, awaiting a match against
+ * the bank/UPI statement. Verifying applies the payment to the invoice and
+ * ledger exactly like a manually recorded payment.
+ */
+export function PendingUpiPayments({ onVerified }: PendingUpiPaymentsProps) {
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
+  const [processing, setProcessing] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { notifyPaymentReceived } = useTelegramNotify();
+  const { verifyPendingPayment } = usePaymentPosting();
+
+  const fetchPending = useCallback(async () => {
+    const { data } = await supabase
+      .from("payments")
+      .select(`
+        id, amount, reference_number, payment_date, created_at, customer_id,
+        customer:customer_id (name),
+        invoice:invoice_id (id, invoice_number, final_amount, paid_amount, payment_status, due_date)
+      `)
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+
+    setPayments((data as PendingPayment[]) || []);
+  }, []);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  const handleVerify = async (payment: PendingPayment) => {
+    setProcessing(payment.id);
+    const amount = Number(payment.amount);
+
+    try {
+      const error = await verifyPendingPayment(payment);
+      if (error) throw new Error(error);
+
+      notifyPaymentReceived({
+        amount,
+        customer_name: payment.customer?.name || "Customer",
+        payment_mode: "upi",
+        reference: payment.invoice?.invoice_number || payment.reference_number || undefined,
+      });
+
+      toast({
+        title: "Payment verified",
+        description: `₹${amount.toLocaleString("en-IN")} applied for ${payment.customer?.name || "customer"}`,
+      });
+      onVerified?.();
+      fetchPending();
+    } catch (error: unknown) {
+      toast({
+        title: "Error verifying payment",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleReject = async (payment: PendingPayment) => {
+    setProcessing(payment.id);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from("payments")
+      .update({
+        status: "rejected",
+        verified_by: user?.id || null,
+        verified_at: new Date().toISOString(),
+      })
+      .eq("id", payment.id);
+
+    setProcessing(null);
+
+    if (error) {
+      toast({
+        title: "Error rejecting payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Payment rejected",
+        description: `UTR ${payment.reference_number} was not matched`,
+      });
+      fetchPending();
+    }
+  };
+
+  if (payments.length === 0) return null;
+
+  return (
+    <Card className="border-primary/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Smartphone className="h-4 w-4" />
+          UPI Payments Awaiting Verification ({payments.length})
+        </CardTitle>
+        <CardDescription>
+          Check each UTR against the bank statement before verifying
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {payments.map((payment) => (
+          <div
+            key={payment.id}
+            className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between rounded-lg border p-3"
+          >
+            <div className="text-sm">
+              <p className="font-medium">
+                {payment.customer?.name || "Customer"}
+                {payment.invoice && (
+                  <span className="ml-2 font-mono text-muted-foreground">{payment.invoice.invoice_number}</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                UTR <span className="font-mono">{payment.reference_number}</span>
+                {payment.created_at && ` · submitted ${format(new Date(payment.created_at), "dd MMM, hh:mm a")}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">₹{Number(payment.amount).toLocaleString("en-IN")}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                onClick={() => handleReject(payment)}
+                disabled={processing === payment.id}
+              >
+                <X className="h-3 w-3" /> Reject
+              </Button>
+              <Button
+                size="sm"
+                className="gap-1"
+                onClick={() => handleVerify(payment)}
+                disabled={processing === payment.id}
+              >
+                {processing === payment.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Check className="h-3 w-3" />
+                )}
+                Verify
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState, useRef } from "react";
+import * as XLSX from "xlsx";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { logger } from "@/lib/logger";
+import {
+  parseStatementRows,
+  suggestMatch,
+  SUGGESTION_THRESHOLD,
+  type MatchContext,
+} from "@/lib/statement-reconciliation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+
+interface StatementImportCardProps {
+  onImported: () => void;
+}
+
+async function fetchMatchContext(): Promise<MatchContext> {
+  const [customersRes, invoicesRes, pendingRes] = await Promise.all([
+    supabase.from("customers").select("id, name, phone").eq("is_active", true),
+    supabase
+      .from("invoices")
+      .select("id, invoice_number, customer_id, final_amount, paid_amount, payment_status, due_date")
+      .neq("payment_status", "paid")
+      .limit(5000),
+    supabase
+      .from("payments")
+      .select("id, customer_id, invoice_id, reference_number, amount")
+      .eq("status", "pending"),
+  ]);
+
+  return {
+    customers: customersRes.data || [],
+    openInvoices: invoicesRes.data || [],
+    pendingPayments: pendingRes.data || [],
+  };
+}
+
+/**
+ * Upload a bank or UPI settlement statement (CSV/XLSX), skip lines already
+ * imported and store each new credit with its best customer/invoice match
+ */
+export function StatementImportCard({ onImported }: StatementImportCardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<"bank" | "upi">("bank");
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null });
+      const parsed = parseStatementRows(rows);
+
+      if (parsed.error) {
+        toast({ title: "Could not read statement", description: parsed.error, variant: "destructive" });
+        return;
+      }
+      if (parsed.lines.length === 0) {
+        toast({ title: "No credits found", description: "The statement has no incoming payments" });
+        return;
+      }
+
+      const dates = parsed.lines.map((l) => l.transaction_date).sort();
+      const { data: existing } = await supabase
+        .from("bank_statement_lines")
+        .select("fingerprint")
+        .gte("transaction_date", dates[0])
+        .lte("transaction_date", dates[dates.length - 1]);
+      const known = new Set((existing || []).map((e) => e.fingerprint));
+      const newLines = parsed.lines.filter((l, i, all) =>
+        !known.has(l.fingerprint) && all.findIndex((o) => o.fingerprint === l.fingerprint) === i
+      );
+
+      if (newLines.length === 0) {
+        toast({ title: "Already imported", description: "Every credit in this statement is already on file" });
+        return;
+      }
+
+      const context = await fetchMatchContext();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: importRow, error: importError } = await supabase
+        .from("bank_statement_imports")
+        .insert({
+          file_name: file.name,
+          source,
+          statement_from: dates[0],
+          statement_to: dates[dates.length - 1],
+          total_lines: newLines.length,
+          total_credit: newLines.reduce((sum, l) => sum + l.amount, 0),
+          imported_by: user?.id || null,
+        })
+        .select("id")
+        .single();
+      if (importError) throw new Error(importError.message);
+
+      let suggested = 0;
+      const records = newLines.map((line) => {
+        const match = suggestMatch(line, context);
+        const isSuggested = !!match && match.score >= SUGGESTION_THRESHOLD;
+        if (isSuggested) suggested++;
+        return {
+          import_id: importRow.id,
+          transaction_date: line.transaction_date,
+          description: line.description,
+          reference: line.reference,
+          amount: line.amount,
+          fingerprint: line.fingerprint,
+          status: isSuggested ? "suggested" : "unmatched",
+          customer_id: isSuggested ? match.customer_id : null,
+          invoice_id: isSuggested ? match.invoice_id : null,
+          payment_id: isSuggested ? match.pending_payment_id : null,
+          match_score: isSuggested ? match.score : null,
+          match_reasons: isSuggested ? match.reasons : null,
+        };
+      });
+
+      const { error: linesError } = await supabase.from("bank_statement_lines").insert(records);
+      if (linesError) throw new Error(linesError.message);
+
+      toast({
+        title: "Statement imported",
+        description: `${newLines.length} credits: ${suggested} matched for review, ${newLines.length - suggested} parked` +
+          (parsed.lines.length > newLines.length ? `, ${parsed.lines.length - newLines.length} already imported` : ""),
+      });
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      onImported();
+    } catch (error: unknown) {
+      logger.error("StatementImport", "Error importing statement", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileSpreadsheet className="h-4 w-4" />
+          Import Statement
+        </CardTitle>
+        <CardDescription>
+          Upload a bank or UPI settlement statement (CSV or Excel). Credits are matched to customers automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="statement_file">Statement file</Label>
+            <Input
+              id="statement_file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="space-y-2 sm:w-40">
+            <Label>Source</Label>
+            <Select value={source} onValueChange={(v) => setSource(v as "bank" | "upi")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bank">Bank account</SelectItem>
+                <SelectItem value="upi">UPI settlement</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleImport} disabled={!file || importing} className="gap-2">
+            {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            Import
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { encodeQr, qrToSvgPath } from "@/lib/qr-code";
+import { cn } from "@/lib/utils";
+
+interface UpiQrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+export function UpiQrCode({ value, size = 180, className }: UpiQrCodeProps) {
+  const qr = useMemo(() => encodeQr(value), [value]);
+
+  if (!qr) return null;
+
+  // Two-module quiet zone keeps phone scanners happy on dark themes
+  return (
+    <svg
+      viewBox={`-2 -2 ${qr.size + 4} ${qr.size + 4}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="UPI payment QR code"
+      className={cn("rounded-md bg-white", className)}
+    >
+      <rect x={-2} y={-2} width={qr.size + 4} height={qr.size + 4} fill="#fff" />
+      <path d={qrToSvgPath(qr)} fill="#000" />
+    </svg>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Loader2 } from "lucide-react";
+import type { AiTechnician, TechnicianFormData } from "@/hooks/useSemenInventory";
+
+interface AiTechnicianDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  technician: AiTechnician | null;
+  saving: boolean;
+  onSave: (formData: TechnicianFormData) => void;
+}
+
+function toFormData(technician: AiTechnician | null): TechnicianFormData {
+  return {
+    name: technician?.name || "",
+    phone: technician?.phone || "",
+    organisation: technician?.organisation || "",
+    notes: technician?.notes || "",
+  };
+}
+
+export function AiTechnicianDialog({ open, onOpenChange, technician, saving, onSave }: AiTechnicianDialogProps) {
+  const [formData, setFormData] = useState<TechnicianFormData>(toFormData(technician));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(technician));
+  }, [open, technician]);
+
+  const set = (patch: Partial<TechnicianFormData>) => setFormData({ ...formData, ...patch });
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>{technician ? "Edit Technician" : "Add Technician"}</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>AI technicians who inseminate the herd</ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label>Name *</Label>
+            <Input value={formData.name} onChange={(e) => set({ name: e.target.value })} />
+          </div>
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input value={formData.phone} onChange={(e) => set({ phone: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Organisation</Label>
+              <Input value={formData.organisation} onChange={(e) => set({ organisation: e.target.value })} placeholder="e.g., Dairy union" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!formData.name.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Technician
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -11,7 +11,9 @@ import {
   Stethoscope,
   Droplets,
   Calendar,
-  ChevronRight
+  ChevronRight,
+  ShieldCheck,
+  TrendingDown
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { BreedingAlert } from "@/hooks/useBreedingAlerts";
@@ -34,6 +36,8 @@ const categoryIcons = {
   health_check: Stethoscope,
   insemination: Droplets,
   dry_off: AlertTriangle,
+  health_protocol: ShieldCheck,
+  body_condition: TrendingDown,
 };
 
 const categoryLabels = {
@@ -43,6 +47,8 @@ const categoryLabels = {
   health_check: "Health Check",
   insemination: "AI Follow-up",
   dry_off: "Dry-Off",
+  health_protocol: "Health Protocol",
+  body_condition: "Body Condition",
 };
 
 const typeStyles = {
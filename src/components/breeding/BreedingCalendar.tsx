@@ -143,12 +143,12 @@ export function BreedingCalendar({ cattle, breedingRecords, healthRecords }: Bre
         }
       }
 
-      if (record.record_type === "artificial_insemination") {
+      if (record.record_type === "artificial_insemination" || record.record_type === "natural_service") {
         events.push({
           id: `ai-${record.id}`,
           date: record.record_date,
           type: "insemination",
-          title: "Artificial Insemination",
+          title: record.record_type === "natural_service" ? "Natural Service" : "Artificial Insemination",
           cattleId: record.cattle_id,
           cattleTag,
           details: record.notes || undefined,
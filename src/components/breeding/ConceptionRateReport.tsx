@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import { useSemenInventory } from "@/hooks/useSemenInventory";
+import type { BreedingRecord } from "@/hooks/useBreedingData";
+import {
+  groupConceptionRates,
+  MAX_SERVICE_GROUP,
+  resolveServices,
+  serviceNumberLabel,
+  type ConceptionRate,
+} from "@/lib/conception-rate";
+import { cn } from "@/lib/utils";
+
+interface ConceptionRateReportProps {
+  records: BreedingRecord[];
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${Math.round(rate * 100)}%`);
+
+function RateTable({ title, description, rows }: { title: string; description: string; rows: ConceptionRate[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No inseminations recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">Services</TableHead>
+                <TableHead className="text-right">Conceived</TableHead>
+                <TableHead className="text-right">Pending</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.services}</TableCell>
+                  <TableCell className="text-right">{row.conceived}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{row.pending}</TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right font-semibold",
+                      row.rate !== null && (row.rate >= 0.5 ? "text-success" : row.rate < 0.35 ? "text-destructive" : "text-warning")
+                    )}
+                  >
+                    {formatRate(row.rate)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Conception rate per bull, per technician and per service number, from
+ * inseminations and the pregnancy checks that followed them
+ */
+export function ConceptionRateReport({ records }: ConceptionRateReportProps) {
+  const { bulls } = useHerdGenetics();
+  const { technicians } = useSemenInventory();
+
+  const report = useMemo(() => {
+    const results = resolveServices(records);
+    const bullNames = new Map(bulls.map((b) => [b.id, b.name]));
+    const technicianNames = new Map(technicians.map((t) => [t.id, t.name]));
+
+    return {
+      overall: groupConceptionRates(results, () => ({ key: "all", label: "All" }))[0],
+      byBull: groupConceptionRates(results, ({ record }) => ({
+        key: record.semen_bull_id || record.insemination_bull || "unknown",
+        label: (record.semen_bull_id && bullNames.get(record.semen_bull_id)) || record.insemination_bull || "Not recorded",
+      })),
+      byTechnician: groupConceptionRates(results, ({ record }) => ({
+        key: record.technician_id || record.insemination_technician || "unknown",
+        label:
+          (record.technician_id && technicianNames.get(record.technician_id)) || record.insemination_technician || "Not recorded",
+      })),
+      byService: groupConceptionRates(results, ({ service_number }) => ({
+        key: Math.min(service_number, MAX_SERVICE_GROUP).toString(),
+        label: serviceNumberLabel(service_number),
+      })).sort((a, b) => a.key.localeCompare(b.key)),
+    };
+  }, [records, bulls, technicians]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{formatRate(report.overall?.rate ?? null)}</div><p className="text-sm text-muted-foreground">Overall conception rate</p></CardContent></Card>
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{report.overall?.services ?? 0}</div><p className="text-sm text-muted-foreground">Inseminations</p></CardContent></Card>
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{report.overall?.pending ?? 0}</div><p className="text-sm text-muted-foreground">Awaiting pregnancy check</p></CardContent></Card>
+      </div>
+      <div className="grid gap-4 lg:grid-cols-3">
+        <RateTable title="By Bull" description="Semen fertility" rows={report.byBull} />
+        <RateTable title="By Technician" description="Insemination skill and timing" rows={report.byTechnician} />
+        <RateTable title="By Service" description="Services since the cow last calved" rows={report.byService} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Heart } from "lucide-react";
+import { useBreedingAlerts } from "@/hooks/useBreedingAlerts";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import type { BreedingData } from "@/hooks/useBreedingData";
+import { formatInbreeding, INBREEDING_THRESHOLD, rankMatings } from "@/lib/inbreeding";
+import { cn } from "@/lib/utils";
+
+type MatingAdvisorPanelProps = Pick<BreedingData, "cattle" | "records" | "healthRecords">;
+
+/** Bulls shown per cow, least related first */
+const OPTIONS_SHOWN = 5;
+
+/**
+ * For each cow coming into heat, the available bulls ranked by the
+ * inbreeding their calf would carry
+ */
+export function MatingAdvisorPanel({ cattle, records, healthRecords }: MatingAdvisorPanelProps) {
+  const { bulls, pedigree, calculator, isLoading } = useHerdGenetics();
+  const alertCattle = useMemo(
+    () => cattle.map((c) => ({ ...c, status: "active" })),
+    [cattle]
+  );
+  const { alerts } = useBreedingAlerts(records, healthRecords, alertCattle);
+
+  const recommendations = useMemo(() => {
+    if (!pedigree || !calculator) return [];
+    const available = bulls.filter((b) => b.is_active);
+    const seen = new Set<string>();
+    return alerts
+      .filter((a) => a.category === "heat_cycle")
+      .filter((a) => {
+        if (seen.has(a.cattleId)) return false;
+        seen.add(a.cattleId);
+        return true;
+      })
+      .map((alert) => ({ alert, options: rankMatings(calculator, pedigree, alert.cattleId, available) }));
+  }, [alerts, bulls, pedigree, calculator]);
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Heart className="h-5 w-5 text-breeding-heat" /> Mating Advisor
+        </CardTitle>
+        <CardDescription>
+          Cows coming into heat, with bulls ranked by expected calf inbreeding. Matings above{" "}
+          {formatInbreeding(INBREEDING_THRESHOLD)} are flagged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {recommendations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No cows expected in heat in the next few days.</p>
+        ) : bulls.every((b) => !b.is_active) ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Register bulls in the sire registry to get recommendations.</p>
+        ) : (
+          recommendations.map(({ alert, options }) => {
+            const flagged = options.filter((o) => o.exceedsThreshold).length;
+            return (
+              <div key={alert.cattleId} className="rounded-lg border p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{alert.cattleTag}</span>
+                    {alert.cattleName && <span className="text-muted-foreground"> ({alert.cattleName})</span>}
+                    <p className="text-xs text-muted-foreground">{alert.title}</p>
+                  </div>
+                  {flagged > 0 && (
+                    <Badge variant="outline" className="border-destructive/30 bg-destructive/10 text-destructive">
+                      <AlertTriangle className="mr-1 h-3 w-3" /> {flagged} bull{flagged > 1 ? "s" : ""} too closely related
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {options.slice(0, OPTIONS_SHOWN).map((option, index) => (
+                    <div
+                      key={option.bull.id}
+                      title={option.commonAncestors.length > 0 ? `Common ancestors: ${option.commonAncestors.map((a) => a.label).join(", ")}` : undefined}
+                      className={cn(
+                        "rounded-md border px-2 py-1 text-sm",
+                        option.exceedsThreshold
+                          ? "border-destructive/30 bg-destructive/5 text-destructive"
+                          : index === 0
+                          ? "border-success/30 bg-success/5"
+                          : ""
+                      )}
+                    >
+                      <span className="font-medium">{option.bull.name}</span>
+                      <span className="text-xs text-muted-foreground"> · F {formatInbreeding(option.coefficient)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { SemenBull, SemenBullFormData } from "@/hooks/useHerdGenetics";
+import type { PedigreeAnimal } from "@/lib/inbreeding";
+
+interface SemenBullDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bull: SemenBull | null;
+  bulls: SemenBull[];
+  animals: PedigreeAnimal[];
+  saving: boolean;
+  onSave: (formData: SemenBullFormData) => void;
+}
+
+function toFormData(bull: SemenBull | null): SemenBullFormData {
+  return {
+    name: bull?.name || "",
+    registration_number: bull?.registration_number || "",
+    breed: bull?.breed || "",
+    source: bull?.source || "ai",
+    cattle_id: bull?.cattle_id || "",
+    sire_bull_id: bull?.sire_bull_id || "",
+    maternal_grandsire_bull_id: bull?.maternal_grandsire_bull_id || "",
+    notes: bull?.notes || "",
+  };
+}
+
+/**
+ * Register or edit a sire with the pedigree its catalogue gives
+ */
+export function SemenBullDialog({ open, onOpenChange, bull, bulls, animals, saving, onSave }: SemenBullDialogProps) {
+  const [formData, setFormData] = useState<SemenBullFormData>(toFormData(bull));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(bull));
+  }, [open, bull]);
+
+  const set = (patch: Partial<SemenBullFormData>) => setFormData({ ...formData, ...patch });
+  const otherBulls = bulls.filter((b) => b.id !== bull?.id);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>{bull ? "Edit Bull" : "Register Bull"}</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Sire and maternal grandsire let inbreeding be traced through AI matings.
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Name / Code *</Label>
+              <Input value={formData.name} onChange={(e) => set({ name: e.target.value })} placeholder="e.g., HF-2041 Sultan" />
+            </div>
+            <div className="space-y-2">
+              <Label>Registration No.</Label>
+              <Input value={formData.registration_number} onChange={(e) => set({ registration_number: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Breed</Label>
+              <Input value={formData.breed} onChange={(e) => set({ breed: e.target.value })} placeholder="e.g., Holstein Friesian" />
+            </div>
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select value={formData.source} onValueChange={(v) => set({ source: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ai">AI semen</SelectItem>
+                  <SelectItem value="natural">Natural service</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formData.source === "natural" && (
+            <div className="space-y-2">
+              <Label>Herd Animal</Label>
+              <Select value={formData.cattle_id || "none"} onValueChange={(v) => set({ cattle_id: v === "none" ? "" : v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not in the herd</SelectItem>
+                  {animals.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.tag_number} {a.name ? `(${a.name})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">A herd bull uses its own recorded parents.</p>
+            </div>
+          )}
+
+          {!(formData.source === "natural" && formData.cattle_id) && (
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>Sire</Label>
+                <Select value={formData.sire_bull_id || "none"} onValueChange={(v) => set({ sire_bull_id: v === "none" ? "" : v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unknown</SelectItem>
+                    {otherBulls.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Maternal Grandsire</Label>
+                <Select
+                  value={formData.maternal_grandsire_bull_id || "none"}
+                  onValueChange={(v) => set({ maternal_grandsire_bull_id: v === "none" ? "" : v })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unknown</SelectItem>
+                    {otherBulls.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!formData.name.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Bull
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
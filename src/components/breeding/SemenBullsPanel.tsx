@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pencil, Plus } from "lucide-react";
+import { useHerdGenetics, useSemenBulls, type SemenBull } from "@/hooks/useHerdGenetics";
+import { SemenBullDialog } from "@/components/breeding/SemenBullDialog";
+import { formatInbreeding } from "@/lib/inbreeding";
+
+/**
+ * The sire registry: AI bulls and natural-service bulls with their pedigree
+ */
+export function SemenBullsPanel() {
+  const { bulls, animals, pedigree, calculator, isLoading } = useHerdGenetics();
+  const { saveBull, toggleBull, isSaving } = useSemenBulls();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SemenBull | null>(null);
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  const bullName = (id: string | null) => bulls.find((b) => b.id === id)?.name;
+  const herdTag = (id: string | null) => animals.find((a) => a.id === id)?.tag_number;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">Sire Registry</CardTitle>
+            <CardDescription>Bulls named on inseminations are registered automatically</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => { setEditing(null); setDialogOpen(true); }}>
+            <Plus className="mr-1 h-4 w-4" /> Register Bull
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {bulls.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No bulls registered yet.</p>
+        ) : (
+          bulls.map((bull) => {
+            const node = pedigree?.bullNodes.get(bull.id);
+            const own = calculator && node ? calculator.coefficient(node) : 0;
+            const lineage = bull.cattle_id
+              ? [`Herd animal ${herdTag(bull.cattle_id) || ""}`.trim()]
+              : [
+                  bullName(bull.sire_bull_id) && `Sire ${bullName(bull.sire_bull_id)}`,
+                  bullName(bull.maternal_grandsire_bull_id) && `MGS ${bullName(bull.maternal_grandsire_bull_id)}`,
+                ].filter(Boolean);
+            return (
+              <div key={bull.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{bull.name}</span>
+                    <Badge variant="secondary">{bull.source === "natural" ? "Natural" : "AI"}</Badge>
+                    {bull.breed && <Badge variant="outline">{bull.breed}</Badge>}
+                    {own > 0 && <Badge variant="outline">F {formatInbreeding(own)}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[bull.registration_number, ...lineage].filter(Boolean).join(" · ") || "Pedigree not recorded"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={bull.is_active}
+                    onCheckedChange={(checked) => toggleBull({ id: bull.id, is_active: checked })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => { setEditing(bull); setDialogOpen(true); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <SemenBullDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        bull={editing}
+        bulls={bulls}
+        animals={animals}
+        saving={isSaving}
+        onSave={(formData) => saveBull({ id: editing?.id, formData }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pencil, Plus } from "lucide-react";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import { LOW_STRAW_STOCK, useSemenInventory, type AiTechnician, type SemenStraw } from "@/hooks/useSemenInventory";
+import { SemenStrawDialog } from "@/components/breeding/SemenStrawDialog";
+import { AiTechnicianDialog } from "@/components/breeding/AiTechnicianDialog";
+import { cn } from "@/lib/utils";
+
+/**
+ * Semen straws in stock by batch, and the AI technicians on record
+ */
+export function SemenInventoryPanel() {
+  const { bulls } = useHerdGenetics();
+  const {
+    straws,
+    technicians,
+    isLoading,
+    saveStraw,
+    saveTechnician,
+    toggleTechnician,
+    isSavingStraw,
+    isSavingTechnician,
+  } = useSemenInventory();
+  const [strawDialogOpen, setStrawDialogOpen] = useState(false);
+  const [editingStraw, setEditingStraw] = useState<SemenStraw | null>(null);
+  const [technicianDialogOpen, setTechnicianDialogOpen] = useState(false);
+  const [editingTechnician, setEditingTechnician] = useState<AiTechnician | null>(null);
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  const onHand = straws.reduce((sum, s) => sum + s.straws_on_hand, 0);
+  const stockValue = straws.reduce((sum, s) => sum + s.straws_on_hand * Number(s.cost_per_straw), 0);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader className="pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-lg">Semen Straws</CardTitle>
+              <CardDescription>
+                {onHand} straws on hand · ₹{stockValue.toLocaleString("en-IN", { maximumFractionDigits: 0 })} in stock
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => { setEditingStraw(null); setStrawDialogOpen(true); }} disabled={bulls.length === 0}>
+              <Plus className="mr-1 h-4 w-4" /> Receive Batch
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {straws.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {bulls.length === 0 ? "Register a bull before receiving semen." : "No semen batches in stock."}
+            </p>
+          ) : (
+            straws.map((straw) => (
+              <div key={straw.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{straw.bull?.name || "Unknown bull"}</span>
+                    {straw.bull?.breed && <Badge variant="outline">{straw.bull.breed}</Badge>}
+                    <span className="text-xs text-muted-foreground">Batch {straw.batch_number}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      `Received ${format(parseISO(straw.received_date), "dd MMM yyyy")}`,
+                      straw.supplier,
+                      `₹${Number(straw.cost_per_straw).toFixed(2)} per straw`,
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      straw.straws_on_hand === 0
+                        ? "border-destructive/30 bg-destructive/10 text-destructive"
+                        : straw.straws_on_hand <= LOW_STRAW_STOCK
+                        ? "border-warning/30 bg-warning/10 text-warning"
+                        : ""
+                    )}
+                  >
+                    {straw.straws_on_hand} / {straw.straws_received} left
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={() => { setEditingStraw(straw); setStrawDialogOpen(true); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-lg">Technicians</CardTitle>
+            <Button size="sm" variant="outline" onClick={() => { setEditingTechnician(null); setTechnicianDialogOpen(true); }}>
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {technicians.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No technicians yet.</p>
+          ) : (
+            technicians.map((technician) => (
+              <div key={technician.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{technician.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[technician.organisation, technician.phone].filter(Boolean).join(" · ") || "-"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={technician.is_active}
+                    onCheckedChange={(checked) => toggleTechnician({ id: technician.id, is_active: checked })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => { setEditingTechnician(technician); setTechnicianDialogOpen(true); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <SemenStrawDialog
+        open={strawDialogOpen}
+        onOpenChange={setStrawDialogOpen}
+        straw={editingStraw}
+        bulls={bulls}
+        saving={isSavingStraw}
+        onSave={(formData) => saveStraw({ id: editingStraw?.id, formData }, { onSuccess: () => setStrawDialogOpen(false) })}
+      />
+      <AiTechnicianDialog
+        open={technicianDialogOpen}
+        onOpenChange={setTechnicianDialogOpen}
+        technician={editingTechnician}
+        saving={isSavingTechnician}
+        onSave={(formData) =>
+          saveTechnician({ id: editingTechnician?.id, formData }, { onSuccess: () => setTechnicianDialogOpen(false) })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { SemenBull } from "@/hooks/useHerdGenetics";
+import type { SemenStraw, SemenStrawFormData } from "@/hooks/useSemenInventory";
+
+interface SemenStrawDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  straw: SemenStraw | null;
+  bulls: SemenBull[];
+  saving: boolean;
+  onSave: (formData: SemenStrawFormData) => void;
+}
+
+function toFormData(straw: SemenStraw | null): SemenStrawFormData {
+  return {
+    semen_bull_id: straw?.semen_bull_id || "",
+    batch_number: straw?.batch_number || "",
+    supplier: straw?.supplier || "",
+    received_date: straw?.received_date || format(new Date(), "yyyy-MM-dd"),
+    straws_received: straw?.straws_received.toString() || "",
+    straws_on_hand: straw?.straws_on_hand.toString() || "",
+    cost_per_straw: straw?.cost_per_straw.toString() || "",
+    notes: straw?.notes || "",
+  };
+}
+
+/**
+ * Receive a batch of semen straws into stock, or correct one
+ */
+export function SemenStrawDialog({ open, onOpenChange, straw, bulls, saving, onSave }: SemenStrawDialogProps) {
+  const [formData, setFormData] = useState<SemenStrawFormData>(toFormData(straw));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(straw));
+  }, [open, straw]);
+
+  const set = (patch: Partial<SemenStrawFormData>) => setFormData({ ...formData, ...patch });
+
+  const canSave =
+    formData.semen_bull_id &&
+    formData.batch_number.trim() &&
+    parseInt(formData.straws_received) >= 0 &&
+    (!straw || parseInt(formData.straws_on_hand) >= 0);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>{straw ? "Edit Semen Batch" : "Receive Semen Batch"}</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            A straw is taken from stock each time an insemination is saved against the batch.
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Bull *</Label>
+              <Select value={formData.semen_bull_id} onValueChange={(v) => set({ semen_bull_id: v })}>
+                <SelectTrigger><SelectValue placeholder="Select bull" /></SelectTrigger>
+                <SelectContent>
+                  {bulls.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name} {b.breed && `- ${b.breed}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Batch No. *</Label>
+              <Input value={formData.batch_number} onChange={(e) => set({ batch_number: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Input value={formData.supplier} onChange={(e) => set({ supplier: e.target.value })} placeholder="e.g., State semen station" />
+            </div>
+            <div className="space-y-2">
+              <Label>Received On</Label>
+              <Input type="date" value={formData.received_date} onChange={(e) => set({ received_date: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-3">
+            <div className="space-y-2">
+              <Label>Straws *</Label>
+              <Input type="number" min="0" value={formData.straws_received} onChange={(e) => set({ straws_received: e.target.value })} />
+            </div>
+            {straw && (
+              <div className="space-y-2">
+                <Label>On Hand</Label>
+                <Input type="number" min="0" value={formData.straws_on_hand} onChange={(e) => set({ straws_on_hand: e.target.value })} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Cost / Straw (₹)</Label>
+              <Input type="number" min="0" step="0.01" value={formData.cost_per_straw} onChange={(e) => set({ cost_per_straw: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Batch
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { RearingEventFormData } from "@/hooks/useCalfRearing";
+import { REARING_EVENT_LABELS, type RearingEventType } from "@/lib/calf-rearing";
+
+interface CalfEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calf: { id: string; tag_number: string; name: string | null } | null;
+  eventType: RearingEventType;
+  saving: boolean;
+  onSave: (formData: RearingEventFormData) => void;
+}
+
+function toFormData(cattleId: string, eventType: RearingEventType): RearingEventFormData {
+  return {
+    cattle_id: cattleId,
+    event_type: eventType,
+    event_date: format(new Date(), "yyyy-MM-dd"),
+    weight_kg: "",
+    colostrum_litres: "",
+    hours_after_birth: "",
+    notes: "",
+  };
+}
+
+/**
+ * Record colostrum feeding, a weigh-in or weaning for a calf
+ */
+export function CalfEventDialog({ open, onOpenChange, calf, eventType, saving, onSave }: CalfEventDialogProps) {
+  const [formData, setFormData] = useState<RearingEventFormData>(toFormData(calf?.id || "", eventType));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(calf?.id || "", eventType));
+  }, [open, calf, eventType]);
+
+  const set = (patch: Partial<RearingEventFormData>) => setFormData({ ...formData, ...patch });
+  const type = formData.event_type;
+
+  const canSave =
+    formData.cattle_id &&
+    formData.event_date &&
+    (type !== "weigh_in" || parseFloat(formData.weight_kg) > 0) &&
+    (type !== "colostrum" || parseFloat(formData.colostrum_litres) > 0);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Calf Record</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            {calf ? `${calf.tag_number}${calf.name ? ` (${calf.name})` : ""}` : ""}
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Record</Label>
+              <Select value={type} onValueChange={(v) => set({ event_type: v as RearingEventType })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REARING_EVENT_LABELS) as RearingEventType[]).map((t) => (
+                    <SelectItem key={t} value={t}>{REARING_EVENT_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.event_date} onChange={(e) => set({ event_date: e.target.value })} />
+            </div>
+          </div>
+
+          {type === "colostrum" ? (
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>Colostrum (L) *</Label>
+                <Input type="number" min="0" step="0.1" value={formData.colostrum_litres} onChange={(e) => set({ colostrum_litres: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Hours after birth</Label>
+                <Input type="number" min="0" step="0.5" value={formData.hours_after_birth} onChange={(e) => set({ hours_after_birth: e.target.value })} />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Weight (kg){type === "weigh_in" && " *"}</Label>
+              <Input type="number" min="0" step="0.1" value={formData.weight_kg} onChange={(e) => set({ weight_kg: e.target.value })} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { DataTable } from "@/components/common/DataTable";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus } from "lucide-react";
+import { useCalfRearing } from "@/hooks/useCalfRearing";
+import { CalfEventDialog } from "@/components/calves/CalfEventDialog";
+import {
+  ISSUE_LABELS,
+  TARGET_DAILY_GAIN,
+  type CalfSummary,
+  type RearingEventType,
+  type RearingIssue,
+} from "@/lib/calf-rearing";
+import { cn } from "@/lib/utils";
+
+type CalfRow = CalfSummary & { id: string; tag_number: string; name: string | null; dam_tag: string | null };
+
+/** The record most likely wanted next for a calf */
+const NEXT_EVENT: Partial<Record<RearingIssue, RearingEventType>> = {
+  no_colostrum: "colostrum",
+  weaning_due: "weaning",
+  weigh_in_due: "weigh_in",
+};
+
+function formatAge(days: number) {
+  if (days < 60) return `${days} days`;
+  return `${Math.floor(days / 30.44)} months`;
+}
+
+/**
+ * Calves under a year old with colostrum, growth and weaning follow-up
+ */
+export function CalfRearingPanel() {
+  const { calves, isLoading, addEvent, isSaving } = useCalfRearing();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selected, setSelected] = useState<CalfRow | null>(null);
+  const [eventType, setEventType] = useState<RearingEventType>("weigh_in");
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  const rows: CalfRow[] = calves.map((c) => ({ ...c, id: c.calf.id, tag_number: c.calf.tag_number, name: c.calf.name }));
+  const unweaned = rows.filter((c) => !c.weaned_on);
+  const gains = rows.filter((c) => c.daily_gain !== null).map((c) => c.daily_gain!);
+  const averageGain = gains.length > 0 ? gains.reduce((a, b) => a + b, 0) / gains.length : null;
+
+  const openDialog = (row: CalfRow) => {
+    const next = row.issues.map((i) => NEXT_EVENT[i]).find(Boolean);
+    setSelected(row);
+    setEventType(next || "weigh_in");
+    setDialogOpen(true);
+  };
+
+  const columns = [
+    {
+      key: "tag_number",
+      header: "Calf",
+      render: (row: CalfRow) => (
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-primary">
+            {row.calf.tag_number} {row.calf.name && `(${row.calf.name})`}
+          </span>
+          {row.calf.gender && <Badge variant="outline" className="capitalize">{row.calf.gender}</Badge>}
+        </div>
+      ),
+    },
+    { key: "dam_tag", header: "Dam", render: (row: CalfRow) => row.dam_tag || "-" },
+    {
+      key: "age_days",
+      header: "Age",
+      render: (row: CalfRow) => (
+        <div className="flex flex-col">
+          <span>{formatAge(row.age_days)}</span>
+          <span className="text-xs text-muted-foreground">{format(parseISO(row.calf.date_of_birth), "dd MMM yyyy")}</span>
+        </div>
+      ),
+    },
+    {
+      key: "latest_weight",
+      header: "Weight",
+      render: (row: CalfRow) => (
+        <div className="flex flex-col">
+          <span>{row.latest_weight !== null ? `${row.latest_weight} kg` : "-"}</span>
+          {row.calf.birth_weight && <span className="text-xs text-muted-foreground">Born {row.calf.birth_weight} kg</span>}
+        </div>
+      ),
+    },
+    {
+      key: "daily_gain",
+      header: "Daily Gain",
+      render: (row: CalfRow) =>
+        row.daily_gain === null ? (
+          "-"
+        ) : (
+          <span className={cn(row.daily_gain < TARGET_DAILY_GAIN ? "text-destructive" : "text-success")}>
+            {(row.daily_gain * 1000).toFixed(0)} g/day
+          </span>
+        ),
+    },
+    {
+      key: "weaned_on",
+      header: "Weaned",
+      render: (row: CalfRow) => (row.weaned_on ? format(parseISO(row.weaned_on), "dd MMM yyyy") : "-"),
+    },
+    {
+      key: "issues",
+      header: "Follow-up",
+      render: (row: CalfRow) =>
+        row.issues.length === 0 ? (
+          <span className="text-xs text-muted-foreground">On track</span>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {row.issues.map((issue) => (
+              <Badge key={issue} variant="outline" className="border-warning/30 bg-warning/10 text-warning">
+                {ISSUE_LABELS[issue]}
+              </Badge>
+            ))}
+          </div>
+        ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (row: CalfRow) => (
+        <Button variant="outline" size="sm" onClick={() => openDialog(row)}>
+          <Plus className="mr-1 h-4 w-4" /> Record
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{rows.length}</div><p className="text-sm text-muted-foreground">Calves under a year</p></CardContent></Card>
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{unweaned.length}</div><p className="text-sm text-muted-foreground">Not yet weaned</p></CardContent></Card>
+        <Card className="border-warning/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-warning">{rows.filter((c) => c.issues.length > 0).length}</div><p className="text-sm text-muted-foreground">Need follow-up</p></CardContent></Card>
+        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{averageGain !== null ? `${(averageGain * 1000).toFixed(0)} g` : "-"}</div><p className="text-sm text-muted-foreground">Average daily gain</p></CardContent></Card>
+      </div>
+
+      <DataTable data={rows} columns={columns} searchPlaceholder="Search calves..." emptyMessage="No calves under a year old" />
+
+      <CalfEventDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        calf={selected?.calf || null}
+        eventType={eventType}
+        saving={isSaving}
+        onSave={(formData) => addEvent(formData, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </div>
+  );
+}
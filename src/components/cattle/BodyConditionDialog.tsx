@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { BodyConditionFormData } from "@/hooks/useBodyCondition";
+import { BCS_BAND_LABELS, BCS_SCORES, formatBcs, getBcsBand } from "@/lib/body-condition";
+
+interface BodyConditionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cattle: { id: string; tag_number: string; name: string | null } | null;
+  saving: boolean;
+  onSave: (formData: BodyConditionFormData) => void;
+}
+
+function toFormData(cattleId: string): BodyConditionFormData {
+  return {
+    cattle_id: cattleId,
+    record_date: format(new Date(), "yyyy-MM-dd"),
+    weight_kg: "",
+    body_condition_score: "",
+    notes: "",
+  };
+}
+
+/**
+ * Record a weigh-in, a body condition score or both
+ */
+export function BodyConditionDialog({ open, onOpenChange, cattle, saving, onSave }: BodyConditionDialogProps) {
+  const [formData, setFormData] = useState<BodyConditionFormData>(toFormData(cattle?.id || ""));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(cattle?.id || ""));
+  }, [open, cattle]);
+
+  const set = (patch: Partial<BodyConditionFormData>) => setFormData({ ...formData, ...patch });
+  const canSave =
+    formData.cattle_id &&
+    formData.record_date &&
+    (parseFloat(formData.weight_kg) > 0 || formData.body_condition_score !== "");
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Weight & Condition</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            {cattle ? `${cattle.tag_number}${cattle.name ? ` (${cattle.name})` : ""}` : ""}
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input type="date" value={formData.record_date} onChange={(e) => set({ record_date: e.target.value })} />
+          </div>
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Weight (kg)</Label>
+              <Input type="number" min="0" step="0.5" value={formData.weight_kg} onChange={(e) => set({ weight_kg: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Body Condition</Label>
+              <Select value={formData.body_condition_score} onValueChange={(v) => set({ body_condition_score: v })}>
+                <SelectTrigger><SelectValue placeholder="1 - 5" /></SelectTrigger>
+                <SelectContent>
+                  {BCS_SCORES.map((score) => (
+                    <SelectItem key={score} value={score.toString()}>
+                      {formatBcs(score)} <span className="text-muted-foreground">· {BCS_BAND_LABELS[getBcsBand(score)]}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { format, differenceInYears, differenceInMonths } from "date-fns";
+import { format, differenceInDays, differenceInYears, differenceInMonths } from "date-fns";
 import { externalSupabase } from "@/lib/external-supabase";
 import {
   ResponsiveDialog,
@@ -14,6 +14,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Beef, Heart, Baby, Droplets, Calendar, Stethoscope, Syringe, AlertTriangle, CheckCircle2, TrendingUp, TrendingDown } from "lucide-react";
 import type { Cattle } from "@/hooks/useCattleData";
+import { useLactationAnalytics } from "@/hooks/useLactationAnalytics";
+import { LactationCurveChart } from "@/components/cattle/LactationCurveChart";
+import { GrowthChart } from "@/components/cattle/GrowthChart";
+import { useBodyCondition } from "@/hooks/useBodyCondition";
+import { BCS_BAND_LABELS, BELOW_TARGET_RATIO, buildGrowthChart, formatBcs, getBcsBand, heiferTargetWeight, isHeifer } from "@/lib/body-condition";
 
 interface CattleDetailDialogProps {
   open: boolean;
@@ -54,6 +59,15 @@ interface MilkRecord {
   snf_percentage: number | null;
 }
 
+/** Calves registered at calving, or the single gender/weight entry of older records */
+function describeCalves(details: Record<string, unknown>): string {
+  const calves = Array.isArray(details.calves) ? (details.calves as Record<string, unknown>[]) : [details];
+  return calves
+    .map((c) => [c.tag_number, c.gender, c.weight ? `${c.weight} kg` : null].filter(Boolean).join(" "))
+    .filter(Boolean)
+    .join(", ");
+}
+
 function calculateAge(dob: string | null): string {
   if (!dob) return "Unknown";
   const birthDate = new Date(dob);
@@ -89,6 +103,8 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
   const [loadingHealth, setLoadingHealth] = useState(false);
   const [loadingBreeding, setLoadingBreeding] = useState(false);
   const [loadingMilk, setLoadingMilk] = useState(false);
+  const { data: lactation, isLoading: loadingLactation } = useLactationAnalytics(open);
+  const { data: condition, isLoading: loadingCondition } = useBodyCondition(open && cattle ? cattle.id : null);
 
   useEffect(() => {
     if (!open || !cattle) {
@@ -168,6 +184,24 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
   const totalMilk30d = milkRecords.reduce((s, r) => s + r.quantity_liters, 0);
   const avgDaily = milkDates.length > 0 ? totalMilk30d / milkDates.length : 0;
 
+  const lactationAnalysis = lactation?.analyses.find((a) => a.cattle_id === cattle.id) ?? null;
+  const herdCurve = lactationAnalysis ? lactation?.herdCurves[lactationAnalysis.parity] ?? null : null;
+
+  const heifer = isHeifer({ ...extra, date_of_birth: cattle.date_of_birth, gender: cattle.gender });
+  const conditionRecords = condition?.records || [];
+  const growthPoints = cattle.date_of_birth
+    ? buildGrowthChart(
+        { date_of_birth: cattle.date_of_birth, breed: cattle.breed },
+        condition?.weights || [],
+        conditionRecords
+          .filter((r) => r.body_condition_score !== null)
+          .map((r) => ({ date: r.record_date, score: Number(r.body_condition_score) })),
+        heifer
+      )
+    : [];
+  const ageDays = cattle.date_of_birth ? differenceInDays(new Date(), new Date(cattle.date_of_birth)) : null;
+  const targetWeight = heifer && ageDays !== null ? heiferTargetWeight(cattle.breed, ageDays) : null;
+
   return (
     <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
       <ResponsiveDialogContent className="max-w-2xl">
@@ -187,6 +221,8 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
             <TabsTrigger value="health" className="flex-1 text-xs sm:text-sm">Health</TabsTrigger>
             <TabsTrigger value="breeding" className="flex-1 text-xs sm:text-sm">Breeding</TabsTrigger>
             <TabsTrigger value="milk" className="flex-1 text-xs sm:text-sm">Milk</TabsTrigger>
+            <TabsTrigger value="growth" className="flex-1 text-xs sm:text-sm">Growth</TabsTrigger>
+            <TabsTrigger value="lactation" className="flex-1 text-xs sm:text-sm">Lactation</TabsTrigger>
           </TabsList>
 
           {/* ===== OVERVIEW TAB ===== */}
@@ -199,6 +235,10 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
               <InfoRow label="Age" value={calculateAge(cattle.date_of_birth)} />
               <InfoRow label="DOB" value={cattle.date_of_birth ? format(new Date(cattle.date_of_birth), "dd MMM yyyy") : "—"} />
               <InfoRow label="Weight" value={cattle.weight ? `${cattle.weight} kg` : "—"} />
+              <InfoRow
+                label="Body Condition"
+                value={cattle.body_condition_score ? `${formatBcs(Number(cattle.body_condition_score))} · ${BCS_BAND_LABELS[getBcsBand(Number(cattle.body_condition_score))]}` : "—"}
+              />
               <InfoRow label="Lactation #" value={extra.lactation_number?.toString() || "0"} />
             </div>
 
@@ -293,7 +333,7 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
                     </div>
                     {r.notes && <p className="text-xs text-muted-foreground">{r.notes}</p>}
                     {r.calf_details && Object.keys(r.calf_details).length > 0 && (
-                      <p className="text-xs text-muted-foreground">Calf: {JSON.stringify(r.calf_details)}</p>
+                      <p className="text-xs text-muted-foreground">Calf: {describeCalves(r.calf_details)}</p>
                     )}
                   </div>
                 ))}
@@ -350,6 +390,114 @@ export function CattleDetailDialog({ open, onOpenChange, cattle, allCattle }: Ca
               </div>
             )}
           </TabsContent>
+
+          {/* ===== GROWTH TAB ===== */}
+          <TabsContent value="growth" className="max-h-[55vh] overflow-y-auto pr-1">
+            {loadingCondition ? (
+              <Skeleton className="h-[280px] w-full" />
+            ) : growthPoints.every((p) => p.weight === null && p.bcs === null) ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No weigh-ins or condition scores recorded{!cattle.date_of_birth && " and no date of birth to chart against"}.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {targetWeight !== null && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="bg-muted rounded-lg p-2 text-center">
+                      <p className="text-lg font-bold">{cattle.weight ? `${cattle.weight} kg` : "—"}</p>
+                      <p className="text-[10px] text-muted-foreground">Latest weight</p>
+                    </div>
+                    <div className="bg-muted rounded-lg p-2 text-center">
+                      <p className={`text-lg font-bold ${cattle.weight && cattle.weight < targetWeight * BELOW_TARGET_RATIO ? "text-destructive" : ""}`}>
+                        {targetWeight} kg
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">{cattle.breed} target for her age</p>
+                    </div>
+                  </div>
+                )}
+                <GrowthChart points={growthPoints} showTarget={heifer} />
+                <div className="space-y-1">
+                  {conditionRecords.slice(0, 10).map((r) => (
+                    <div key={r.id} className="flex items-center justify-between border-b py-1 text-sm last:border-0">
+                      <span className="text-muted-foreground">{format(new Date(r.record_date), "dd MMM yyyy")}</span>
+                      <span className="flex gap-3">
+                        {r.weight_kg !== null && <span>{r.weight_kg} kg</span>}
+                        {r.body_condition_score !== null && <span>BCS {formatBcs(Number(r.body_condition_score))}</span>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          {/* ===== LACTATION TAB ===== */}
+          <TabsContent value="lactation" className="max-h-[55vh] overflow-y-auto pr-1">
+            {loadingLactation ? (
+              <Skeleton className="h-[280px] w-full" />
+            ) : !lactationAnalysis ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No lactation in progress. Record a calving date to start tracking the curve.
+              </p>
+            ) : !lactationAnalysis.curve ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Not enough milk records since calving to fit a lactation curve.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <div className="bg-muted rounded-lg p-2 text-center">
+                    <p className="text-lg font-bold">{lactationAnalysis.current_dim}</p>
+                    <p className="text-[10px] text-muted-foreground">Days in Milk</p>
+                  </div>
+                  <div className="bg-muted rounded-lg p-2 text-center">
+                    <p className="text-lg font-bold">{lactationAnalysis.peak_yield?.toFixed(1)}</p>
+                    <p className="text-[10px] text-muted-foreground">Peak L/day (day {lactationAnalysis.peak_day})</p>
+                  </div>
+                  <div className="bg-muted rounded-lg p-2 text-center">
+                    <p className="text-lg font-bold">{lactationAnalysis.projected_305?.toLocaleString()}</p>
+                    <p className="text-[10px] text-muted-foreground">305-day L (projected)</p>
+                  </div>
+                  <div className="bg-muted rounded-lg p-2 text-center">
+                    <p className={`text-lg font-bold ${lactationAnalysis.underperforming ? "text-destructive" : ""}`}>
+                      {lactationAnalysis.vs_herd_percentage !== null
+                        ? `${lactationAnalysis.vs_herd_percentage > 0 ? "+" : ""}${lactationAnalysis.vs_herd_percentage}%`
+                        : "—"}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">vs Parity {lactationAnalysis.parity} Herd</p>
+                  </div>
+                </div>
+
+                <LactationCurveChart analysis={lactationAnalysis} herdCurve={herdCurve} />
+
+                {lactationAnalysis.bcs?.current_score != null && (
+                  <p className="text-xs text-muted-foreground">
+                    Body condition {formatBcs(lactationAnalysis.bcs.current_score)}
+                    {lactationAnalysis.bcs.change !== null &&
+                      ` (${lactationAnalysis.bcs.change > 0 ? "+" : ""}${formatBcs(lactationAnalysis.bcs.change)} since calving)`}
+                  </p>
+                )}
+                {lactationAnalysis.bcs?.rapid_loss && (
+                  <div className="flex items-center gap-2 rounded-lg border border-warning/30 bg-warning/5 p-2 text-xs">
+                    <AlertTriangle className="h-4 w-4 text-warning shrink-0" />
+                    Losing condition fast in early lactation. Check energy intake and watch for ketosis.
+                  </div>
+                )}
+
+                {lactationAnalysis.underperforming && (
+                  <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-2 text-xs">
+                    <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+                    Tracking well below the herd curve for her parity. Check for health or feeding problems, or consider culling.
+                  </div>
+                )}
+                {lactationAnalysis.scaled_from_herd && (
+                  <p className="text-xs text-muted-foreground">
+                    Too few or irregular records for her own curve; the projection scales the herd curve to her yields.
+                  </p>
+                )}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </ResponsiveDialogContent>
     </ResponsiveDialog>
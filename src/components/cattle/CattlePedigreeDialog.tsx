@@ -14,6 +14,8 @@ import { StatusBadge } from "@/components/common/StatusBadge";
 import { GitBranch, User, Users, Baby, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import { animalNode, formatInbreeding, INBREEDING_THRESHOLD } from "@/lib/inbreeding";
 
 interface CattleBasic {
   id: string;
@@ -26,6 +28,7 @@ interface CattleBasic {
   date_of_birth: string | null;
   sire_id: string | null;
   dam_id: string | null;
+  sire_bull_id: string | null;
 }
 
 interface PedigreeNode extends CattleBasic {
@@ -50,6 +53,7 @@ export function CattlePedigreeDialog({
   const [loading, setLoading] = useState(true);
   const [pedigree, setPedigree] = useState<PedigreeNode | null>(null);
   const [showOffspring, setShowOffspring] = useState(false);
+  const { pedigree: herdPedigree, calculator, bulls } = useHerdGenetics(open);
 
   useEffect(() => {
     if (open && cattleId) {
@@ -63,7 +67,7 @@ export function CattlePedigreeDialog({
       // Fetch all cattle to build relationships
       const { data: allCattle, error } = await supabase
         .from("cattle")
-        .select("id, tag_number, name, breed, cattle_type, status, lactation_status, date_of_birth, sire_id, dam_id");
+        .select("id, tag_number, name, breed, cattle_type, status, lactation_status, date_of_birth, sire_id, dam_id, sire_bull_id");
 
       if (error) throw error;
 
@@ -110,6 +114,12 @@ export function CattlePedigreeDialog({
     }
   };
 
+  const parents = herdPedigree?.parents.get(animalNode(cattleId));
+  const inbreeding = calculator && parents?.sire && parents.dam ? calculator.mating(parents.sire, parents.dam) : null;
+  const aiSire = pedigree && !pedigree.sire_id && pedigree.sire_bull_id
+    ? bulls.find((b) => b.id === pedigree.sire_bull_id)
+    : undefined;
+
   const formatAge = (dob: string | null) => {
     if (!dob) return null;
     const birth = new Date(dob);
@@ -256,7 +266,22 @@ export function CattlePedigreeDialog({
                   <User className="h-3 w-3" />
                   <span>Sire (Father)</span>
                 </div>
-                <CattleCard cattle={pedigree.sire} role="Sire" />
+                {aiSire ? (
+                  <Card className="p-3 border-info/30 bg-info/5">
+                    <CardContent className="p-0">
+                      <p className="text-xs text-muted-foreground mb-0.5">AI Sire</p>
+                      <p className="font-semibold text-primary truncate text-sm">{aiSire.name}</p>
+                      <div className="flex gap-1 mt-2">
+                        {aiSire.breed && <Badge variant="outline" className="text-[10px] px-1 py-0">{aiSire.breed}</Badge>}
+                        {aiSire.registration_number && (
+                          <span className="text-[10px] text-muted-foreground">{aiSire.registration_number}</span>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <CattleCard cattle={pedigree.sire} role="Sire" />
+                )}
               </div>
               <div>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
@@ -304,7 +329,24 @@ export function CattlePedigreeDialog({
                     <div className="flex gap-2 mt-3">
                       <StatusBadge status={pedigree.status} />
                       <StatusBadge status={pedigree.lactation_status} />
+                      {inbreeding && (
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            inbreeding.coefficient > INBREEDING_THRESHOLD
+                              ? "border-destructive/30 bg-destructive/10 text-destructive"
+                              : "text-muted-foreground"
+                          )}
+                        >
+                          Inbreeding {formatInbreeding(inbreeding.coefficient)}
+                        </Badge>
+                      )}
                     </div>
+                    {inbreeding && inbreeding.commonAncestors.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Common ancestors: {inbreeding.commonAncestors.map((a) => a.label).join(", ")}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -0,0 +1,99 @@
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { BCS_MAX, BCS_MIN, type GrowthChartPoint } from "@/lib/body-condition";
+
+interface GrowthChartProps {
+  points: GrowthChartPoint[];
+  showTarget: boolean;
+}
+
+const formatAge = (days: number) => (days < 730 ? `${Math.round(days / 30.44)}m` : `${(days / 365.25).toFixed(1)}y`);
+
+/**
+ * Body weight by age, with the breed target for heifers and body
+ * condition on a second axis
+ */
+export function GrowthChart({ points, showTarget }: GrowthChartProps) {
+  const hasBcs = points.some((p) => p.bcs !== null);
+
+  return (
+    <div className="h-[220px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={points} margin={{ top: 10, right: hasBcs ? -10 : 10, left: -15, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+          <XAxis
+            dataKey="age_days"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: 'hsl(150 10% 45%)', fontSize: 11 }}
+            tickFormatter={formatAge}
+          />
+          <YAxis
+            yAxisId="weight"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: 'hsl(150 10% 45%)', fontSize: 11 }}
+            tickFormatter={(value) => `${value}kg`}
+          />
+          {hasBcs && (
+            <YAxis
+              yAxisId="bcs"
+              orientation="right"
+              domain={[BCS_MIN, BCS_MAX]}
+              ticks={[1, 2, 3, 4, 5]}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(150 10% 45%)', fontSize: 11 }}
+            />
+          )}
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(0 0% 100%)',
+              border: '1px solid hsl(150 15% 85%)',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px hsl(150 25% 15% / 0.1)',
+            }}
+            labelStyle={{ color: 'hsl(150 25% 15%)', fontWeight: 600 }}
+            labelFormatter={(days) => `Age ${formatAge(Number(days))}`}
+            formatter={(value: number, name: string) => (name === "Body condition" ? value : `${value} kg`)}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <Line
+            yAxisId="weight"
+            type="monotone"
+            dataKey="weight"
+            stroke="hsl(155 55% 32%)"
+            strokeWidth={2}
+            connectNulls
+            name="Weight"
+          />
+          {showTarget && (
+            <Line
+              yAxisId="weight"
+              type="monotone"
+              dataKey="target"
+              stroke="hsl(150 10% 45%)"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+              name="Breed target"
+            />
+          )}
+          {hasBcs && (
+            <Line
+              yAxisId="bcs"
+              type="stepAfter"
+              dataKey="bcs"
+              stroke="hsl(38 92% 50%)"
+              strokeWidth={2}
+              connectNulls
+              name="Body condition"
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
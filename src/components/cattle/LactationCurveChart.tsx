@@ -0,0 +1,84 @@
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { STANDARD_LACTATION_DAYS, predictYield, type LactationAnalysis, type WoodCurve } from "@/lib/lactation-curve";
+
+interface LactationCurveChartProps {
+  analysis: LactationAnalysis;
+  herdCurve: WoodCurve | null;
+}
+
+const CURVE_STEP_DAYS = 5;
+
+/**
+ * Recorded daily yields against the cow's fitted curve and the herd curve
+ * for her parity, over a standard 305-day lactation
+ */
+export function LactationCurveChart({ analysis, herdCurve }: LactationCurveChartProps) {
+  const recorded = new Map(analysis.points.map((p) => [p.dim, p.yield]));
+  const dims = new Set<number>(analysis.points.map((p) => p.dim));
+  for (let dim = 1; dim <= STANDARD_LACTATION_DAYS; dim += CURVE_STEP_DAYS) dims.add(dim);
+
+  const chartData = [...dims]
+    .sort((a, b) => a - b)
+    .map((dim) => ({
+      dim,
+      actual: recorded.has(dim) ? Math.round(recorded.get(dim)! * 10) / 10 : null,
+      fitted: analysis.curve ? Math.round(predictYield(analysis.curve, dim) * 10) / 10 : null,
+      herd: herdCurve ? Math.round(predictYield(herdCurve, dim) * 10) / 10 : null,
+    }));
+
+  return (
+    <div className="h-[220px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+          <XAxis
+            dataKey="dim"
+            type="number"
+            domain={[0, STANDARD_LACTATION_DAYS]}
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: 'hsl(150 10% 45%)', fontSize: 11 }}
+          />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: 'hsl(150 10% 45%)', fontSize: 11 }}
+            tickFormatter={(value) => `${value}L`}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(0 0% 100%)',
+              border: '1px solid hsl(150 15% 85%)',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px hsl(150 25% 15% / 0.1)',
+            }}
+            labelStyle={{ color: 'hsl(150 25% 15%)', fontWeight: 600 }}
+            labelFormatter={(dim) => `Day ${dim}`}
+            formatter={(value: number) => `${value} L`}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <Scatter dataKey="actual" fill="hsl(205 92% 52%)" name="Recorded" />
+          <Line
+            type="monotone"
+            dataKey="fitted"
+            stroke="hsl(155 55% 32%)"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+            name="This animal"
+          />
+          <Line
+            type="monotone"
+            dataKey="herd"
+            stroke="hsl(150 10% 45%)"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+            connectNulls
+            name="Herd (same parity)"
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
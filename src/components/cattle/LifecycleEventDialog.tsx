@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { LifecycleEventFormData } from "@/hooks/useHerdValuation";
+import {
+  CARCASS_DISPOSAL_LABELS,
+  DISPOSAL_CAUSES,
+  LIFECYCLE_EVENT_LABELS,
+  type LifecycleEventType,
+} from "@/lib/herd-valuation";
+
+interface LifecycleEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cattle: { id: string; tag_number: string; name: string | null; status: string | null } | null;
+  saving: boolean;
+  onSave: (formData: LifecycleEventFormData) => void;
+}
+
+function toFormData(cattleId: string, eventType: LifecycleEventType): LifecycleEventFormData {
+  return {
+    cattle_id: cattleId,
+    event_type: eventType,
+    event_date: format(new Date(), "yyyy-MM-dd"),
+    counterparty: "",
+    amount: "",
+    cause: "",
+    insurance_policy: "",
+    insurance_claim_amount: "",
+    carcass_disposal: "",
+    disposal_cost: "",
+    notes: "",
+  };
+}
+
+/**
+ * Record an animal being bought, sold, culled or dying. Money is posted to
+ * income and expenses when the event is saved.
+ */
+export function LifecycleEventDialog({ open, onOpenChange, cattle, saving, onSave }: LifecycleEventDialogProps) {
+  const inHerd = cattle?.status !== "sold" && cattle?.status !== "deceased";
+  const eventTypes: LifecycleEventType[] = inHerd ? ["sale", "cull", "death", "purchase"] : ["purchase"];
+  const [formData, setFormData] = useState<LifecycleEventFormData>(toFormData(cattle?.id || "", eventTypes[0]));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(cattle?.id || "", inHerd ? "sale" : "purchase"));
+  }, [open, cattle, inHerd]);
+
+  const set = (patch: Partial<LifecycleEventFormData>) => setFormData({ ...formData, ...patch });
+  const type = formData.event_type;
+  const removal = type === "death" || type === "cull";
+  const needsAmount = type === "sale" || type === "purchase";
+  const canSave =
+    formData.cattle_id &&
+    formData.event_date &&
+    (!needsAmount || parseFloat(formData.amount) >= 0) &&
+    (!removal || formData.cause);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Purchase, Sale or Loss</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            {cattle ? `${cattle.tag_number}${cattle.name ? ` (${cattle.name})` : ""}` : ""}
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Event</Label>
+              <Select value={type} onValueChange={(v) => set({ event_type: v as LifecycleEventType })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {eventTypes.map((t) => (
+                    <SelectItem key={t} value={t}>{LIFECYCLE_EVENT_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.event_date} onChange={(e) => set({ event_date: e.target.value })} />
+            </div>
+          </div>
+
+          {type !== "death" && (
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>{type === "purchase" ? "Seller" : "Buyer"}</Label>
+                <Input value={formData.counterparty} onChange={(e) => set({ counterparty: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>{type === "purchase" ? "Purchase price (₹)" : "Sale price (₹)"}{needsAmount && " *"}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={formData.amount}
+                  onChange={(e) => set({ amount: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          {removal && (
+            <div className="space-y-2">
+              <Label>Cause *</Label>
+              <Select value={formData.cause} onValueChange={(v) => set({ cause: v })}>
+                <SelectTrigger><SelectValue placeholder="Select cause" /></SelectTrigger>
+                <SelectContent>
+                  {DISPOSAL_CAUSES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === "death" && (
+            <>
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Insurance policy</Label>
+                  <Input value={formData.insurance_policy} onChange={(e) => set({ insurance_policy: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Claim amount (₹)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={formData.insurance_claim_amount}
+                    onChange={(e) => set({ insurance_claim_amount: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Carcass disposal</Label>
+                  <Select value={formData.carcass_disposal} onValueChange={(v) => set({ carcass_disposal: v })}>
+                    <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CARCASS_DISPOSAL_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Disposal cost (₹)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={formData.disposal_cost}
+                    onChange={(e) => set({ disposal_cost: e.target.value })}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,87 @@
+import { format } from 'date-fns';
+import { CheckCircle2, Clock, CalendarClock, History, X, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  CHANGE_STATUS_LABELS,
+  describeSubscriptionChange,
+  isOpenChange,
+  type SubscriptionChangeStatus,
+} from '@/lib/subscription-changes';
+import type { SubscriptionChangeWithProduct } from '@/hooks/useSubscriptionChanges';
+
+interface SubscriptionChangeHistoryProps {
+  changes: SubscriptionChangeWithProduct[];
+  onCancel: (changeId: string) => void;
+  cancellingId?: string | null;
+}
+
+const statusStyles: Record<SubscriptionChangeStatus, { icon: typeof Clock; className: string }> = {
+  pending: { icon: Clock, className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  approved: { icon: CalendarClock, className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  applied: { icon: CheckCircle2, className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  rejected: { icon: XCircle, className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  cancelled: { icon: X, className: 'bg-muted text-muted-foreground' },
+};
+
+/**
+ * Every change to the customer's subscription — their own requests and
+ * edits made by the dairy — with when it takes effect
+ */
+export function SubscriptionChangeHistory({ changes, onCancel, cancellingId }: SubscriptionChangeHistoryProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {changes.map(change => {
+          const status = (change.status in statusStyles ? change.status : 'pending') as SubscriptionChangeStatus;
+          const { icon: StatusIcon, className } = statusStyles[status];
+          const isOpen = isOpenChange(status);
+
+          return (
+            <div key={change.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {describeSubscriptionChange(change, change.product?.name || 'Product', change.product?.unit)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {change.source === 'staff' ? 'By dairy' : 'Requested'} {format(new Date(change.created_at), 'dd MMM, hh:mm a')}
+                  {' · '}
+                  {status === 'applied' ? 'from' : 'starts'} {format(new Date(change.effective_date), 'EEE, dd MMM')}
+                </p>
+                {change.review_note && (
+                  <p className="text-xs text-muted-foreground mt-1">Note: {change.review_note}</p>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-1 shrink-0">
+                <Badge variant="outline" className={`gap-1 border-0 ${className}`}>
+                  <StatusIcon className="h-3 w-3" />
+                  {CHANGE_STATUS_LABELS[status]}
+                </Badge>
+                {isOpen && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onCancel(change.id)}
+                    disabled={cancellingId === change.id}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
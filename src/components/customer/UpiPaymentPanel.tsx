@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle2, Clock, Loader2, Smartphone, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { UpiQrCode } from '@/components/billing/UpiQrCode';
+import { useToast } from '@/hooks/use-toast';
+import { externalSupabase as supabase } from '@/lib/external-supabase';
+import { getInvoiceBalance, type InvoiceBase } from '@/lib/invoice-helpers';
+import { buildInvoiceUpiLink, isValidUtr, normalizeUtr } from '@/lib/upi';
+
+interface UpiPaymentPanelProps {
+  customerId: string;
+  invoice: InvoiceBase & { id: string; invoice_number: string; upi_handle?: string | null };
+  settings: { dairy_name: string; upi_handle: string | null };
+}
+
+interface SubmittedPayment {
+  id: string;
+  amount: number;
+  reference_number: string | null;
+  status: string;
+  created_at: string | null;
+}
+
+const submissionStatus: Record<string, { label: string; icon: typeof Clock; className: string }> = {
+  pending: { label: 'Verifying', icon: Clock, className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  verified: { label: 'Received', icon: CheckCircle2, className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  rejected: { label: 'Not found', icon: XCircle, className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+};
+
+/**
+ * UPI QR / intent link for an invoice's balance, plus the form a customer
+ * uses to report the UTR after paying so the accountant can match it
+ */
+export function UpiPaymentPanel({ customerId, invoice, settings }: UpiPaymentPanelProps) {
+  const { toast } = useToast();
+  const balance = Math.max(0, getInvoiceBalance(invoice));
+  const upiLink = buildInvoiceUpiLink(invoice, settings);
+  const [utr, setUtr] = useState('');
+  const [amount, setAmount] = useState(balance > 0 ? balance.toFixed(2) : '');
+  const [submitting, setSubmitting] = useState(false);
+  const [submissions, setSubmissions] = useState<SubmittedPayment[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('payments')
+      .select('id, amount, reference_number, status, created_at')
+      .eq('invoice_id', invoice.id)
+      .eq('payment_mode', 'upi')
+      .not('reference_number', 'is', null)
+      .order('created_at', { ascending: false })
+      .then(({ data }) => setSubmissions(data || []));
+  }, [invoice.id]);
+
+  const pendingTotal = submissions
+    .filter((s) => s.status === 'pending')
+    .reduce((sum, s) => sum + Number(s.amount), 0);
+
+  const handleSubmit = async () => {
+    const reference = normalizeUtr(utr);
+    const paidAmount = parseFloat(amount);
+
+    if (!isValidUtr(reference)) {
+      toast({
+        title: 'Invalid UTR',
+        description: 'Enter the 12-digit UPI reference number shown in your payment app',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!paidAmount || paidAmount <= 0) {
+      toast({ title: 'Enter the amount you paid', variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        customer_id: customerId,
+        invoice_id: invoice.id,
+        amount: paidAmount,
+        payment_mode: 'upi',
+        payment_date: format(new Date(), 'yyyy-MM-dd'),
+        reference_number: reference,
+        status: 'pending',
+        notes: `Submitted from customer portal for ${invoice.invoice_number}`,
+      })
+      .select('id, amount, reference_number, status, created_at')
+      .single();
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: 'Could not submit payment',
+        description: error.code === '23505' ? 'This UTR has already been submitted' : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmissions((prev) => [data, ...prev]);
+    setUtr('');
+    toast({
+      title: 'Payment submitted',
+      description: 'We will update your bill once the payment is verified',
+    });
+  };
+
+  if (!upiLink && submissions.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {upiLink && balance > 0 && (
+        <div className="flex flex-col items-center gap-3 p-4 border rounded-lg">
+          <UpiQrCode value={upiLink} />
+          <p className="text-sm text-muted-foreground text-center">
+            Scan with any UPI app to pay Rs. {balance.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+          </p>
+          <Button asChild variant="outline" className="w-full gap-2">
+            <a href={upiLink}>
+              <Smartphone className="h-4 w-4" />
+              Pay with UPI app
+            </a>
+          </Button>
+        </div>
+      )}
+
+      {balance > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Already paid? Share the UPI reference</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="utr">UTR / Reference No.</Label>
+              <Input
+                id="utr"
+                value={utr}
+                onChange={(e) => setUtr(e.target.value)}
+                placeholder="12-digit number"
+                inputMode="numeric"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="upi_amount">Amount</Label>
+              <Input
+                id="upi_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button className="w-full" onClick={handleSubmit} disabled={submitting || !utr}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Payment Reference
+          </Button>
+          {pendingTotal > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Rs. {pendingTotal.toLocaleString('en-IN', { minimumFractionDigits: 2 })} awaiting verification
+            </p>
+          )}
+        </div>
+      )}
+
+      {submissions.length > 0 && (
+        <div className="space-y-2">
+          {submissions.map((s) => {
+            const config = submissionStatus[s.status] || submissionStatus.pending;
+            const Icon = config.icon;
+            return (
+              <div key={s.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-mono">{s.reference_number}</p>
+                  {s.created_at && (
+                    <p className="text-xs text-muted-foreground">{format(new Date(s.created_at), 'dd MMM, hh:mm a')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Rs. {Number(s.amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span>
+                  <Badge className={config.className}>
+                    <Icon className="h-3 w-3 mr-1" />
+                    {config.label}
+                  </Badge>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { format } from 'date-fns';
+import { AlertCircle, PauseCircle, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { useWalletStatement } from '@/hooks/useWalletStatement';
+import { estimateDaysRemaining, getWalletBalance, getWalletStatus } from '@/lib/prepaid-wallet';
+
+interface WalletStatementProps {
+  customerId: string;
+}
+
+const formatAmount = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Prepaid wallet balance with a day-by-day statement of deliveries charged
+ * and top-ups received
+ */
+export function WalletStatement({ customerId }: WalletStatementProps) {
+  const { wallet, statement, loading } = useWalletStatement(customerId);
+
+  if (loading || !wallet) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  const balance = getWalletBalance(wallet);
+  const status = getWalletStatus(wallet);
+  const daysLeft = estimateDaysRemaining(balance, statement);
+
+  return (
+    <div className="space-y-4">
+      <Card className={status === 'ok' ? 'border-green-500' : status === 'low' ? 'border-amber-500' : 'border-destructive'}>
+        <CardHeader className="pb-2">
+          <CardDescription className="flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            Wallet Balance
+          </CardDescription>
+          <CardTitle className={`text-3xl ${balance > 0 ? 'text-green-600' : 'text-destructive'}`}>
+            {balance < 0 && '-'}{formatAmount(Math.abs(balance))}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {daysLeft !== null && (
+            <p className="text-muted-foreground">About {daysLeft} day{daysLeft !== 1 ? 's' : ''} of deliveries left</p>
+          )}
+          {status === 'low' && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-amber-600 shrink-0" />
+              <span className="text-amber-800 dark:text-amber-300">
+                Balance is below {formatAmount(Number(wallet.wallet_low_balance_threshold))}. Please top up soon.
+              </span>
+            </div>
+          )}
+          {status === 'paused' && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-center gap-2">
+              <PauseCircle className="h-4 w-4 text-destructive shrink-0" />
+              <span className="text-red-800 dark:text-red-300">
+                Deliveries paused since {format(new Date(wallet.wallet_paused_at!), 'dd MMM')}. They restart after your next top-up.
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Daily Statement</CardTitle>
+          <CardDescription>Last 30 days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statement.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No wallet activity yet</p>
+          ) : (
+            <Accordion type="multiple" className="w-full">
+              {statement.map(day => (
+                <AccordionItem key={day.date} value={day.date}>
+                  <AccordionTrigger className="py-3 hover:no-underline">
+                    <div className="flex flex-1 items-center justify-between pr-2 text-left">
+                      <div>
+                        <p className="font-medium text-sm">{format(new Date(day.date), 'EEE, dd MMM')}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {day.charges > 0 && <span className="text-destructive">-{formatAmount(day.charges)}</span>}
+                          {day.charges > 0 && day.topUps > 0 && ' · '}
+                          {day.topUps > 0 && <span className="text-green-600">+{formatAmount(day.topUps)}</span>}
+                        </p>
+                      </div>
+                      <span className={`text-sm font-semibold ${day.closing < 0 ? 'text-destructive' : ''}`}>
+                        {day.closing < 0 && '-'}{formatAmount(Math.abs(day.closing))}
+                      </span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-2">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Opening balance</span>
+                      <span>{day.opening < 0 && '-'}{formatAmount(Math.abs(day.opening))}</span>
+                    </div>
+                    {day.entries.map(entry => (
+                      <div key={entry.id} className="flex justify-between text-sm">
+                        <span className="truncate pr-2">{entry.description}</span>
+                        {Number(entry.credit_amount) > 0 ? (
+                          <Badge variant="outline" className="border-0 bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                            +{formatAmount(Number(entry.credit_amount))}
+                          </Badge>
+                        ) : (
+                          <span className="text-destructive shrink-0">-{formatAmount(Number(entry.debit_amount || 0))}</span>
+                        )}
+                      </div>
+                    ))}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
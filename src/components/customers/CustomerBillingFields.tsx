@@ -0,0 +1,79 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PREPAID_BILLING_CYCLE } from "@/lib/prepaid-wallet";
+
+interface CustomerBillingFieldsProps {
+  billingCycle: string;
+  lowBalanceThreshold: string;
+  graceAmount: string;
+  onChange: (value: { billing_cycle: string; wallet_low_balance_threshold: string; wallet_grace_amount: string }) => void;
+}
+
+/**
+ * Billing cycle, plus the wallet limits when the customer is prepaid
+ */
+export function CustomerBillingFields({
+  billingCycle,
+  lowBalanceThreshold,
+  graceAmount,
+  onChange,
+}: CustomerBillingFieldsProps) {
+  const current = {
+    billing_cycle: billingCycle,
+    wallet_low_balance_threshold: lowBalanceThreshold,
+    wallet_grace_amount: graceAmount,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="billing_cycle">Billing Cycle</Label>
+        <Select value={billingCycle} onValueChange={(v) => onChange({ ...current, billing_cycle: v })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+            <SelectItem value={PREPAID_BILLING_CYCLE}>Prepaid wallet</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {billingCycle === PREPAID_BILLING_CYCLE && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wallet_low_balance_threshold">Low balance alert (₹)</Label>
+              <Input
+                id="wallet_low_balance_threshold"
+                type="number"
+                min="0"
+                step="1"
+                value={lowBalanceThreshold}
+                onChange={(e) => onChange({ ...current, wallet_low_balance_threshold: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wallet_grace_amount">Grace amount (₹)</Label>
+              <Input
+                id="wallet_grace_amount"
+                type="number"
+                min="0"
+                step="1"
+                value={graceAmount}
+                onChange={(e) => onChange({ ...current, wallet_grace_amount: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each delivery is charged to the wallet. Deliveries pause once the balance falls below minus the grace amount
+            and restart after a top-up. Prepaid customers are left out of invoice runs.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -93,6 +93,8 @@ interface Payment {
   payment_mode: string;
   reference_number: string | null;
   notes: string | null;
+  /** Customer UTR submissions stay pending until matched; only verified ones are money received */
+  status: string;
   created_at: string;
 }
 
@@ -354,7 +356,8 @@ export function CustomerDetailDialog({ customer, open, onOpenChange }: CustomerD
   const totalMissed = deliveries.filter(d => d.status === "missed").length;
   const totalPending = deliveries.filter(d => d.status === "pending").length;
   
-  const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const verifiedPayments = payments.filter(p => p.status === "verified");
+  const totalPaid = verifiedPayments.reduce((sum, p) => sum + p.amount, 0);
   const totalInvoiced = invoices.reduce((sum, i) => sum + i.final_amount, 0);
   const paidInvoices = invoices.filter(i => i.payment_status === "paid").length;
   // Use computed effective status for pending/overdue counts
@@ -377,6 +380,7 @@ export function CustomerDetailDialog({ customer, open, onOpenChange }: CustomerD
     partial: "outline",
     paid: "default",
     overdue: "destructive",
+    rejected: "destructive",
   };
 
   return (
@@ -547,7 +551,7 @@ export function CustomerDetailDialog({ customer, open, onOpenChange }: CustomerD
                   <p className="font-bold text-xl text-blue-700 dark:text-blue-400">
                     ₹{totalPaid.toLocaleString()}
                   </p>
-                  <p className="text-xs text-muted-foreground">{payments.length} payments</p>
+                  <p className="text-xs text-muted-foreground">{verifiedPayments.length} payments</p>
                 </CardContent>
               </Card>
               <Card className="bg-purple-50 dark:bg-purple-950/20">
@@ -752,7 +756,16 @@ export function CustomerDetailDialog({ customer, open, onOpenChange }: CustomerD
                                 )}
                               </div>
                               <div className="text-right">
-                                <p className="font-bold text-green-600">+₹{payment.amount.toLocaleString()}</p>
+                                {payment.status === "verified" ? (
+                                  <p className="font-bold text-green-600">+₹{payment.amount.toLocaleString()}</p>
+                                ) : (
+                                  <>
+                                    <p className="font-bold text-muted-foreground">₹{payment.amount.toLocaleString()}</p>
+                                    <Badge variant={statusVariants[payment.status] || "secondary"} className="capitalize">
+                                      {payment.status}
+                                    </Badge>
+                                  </>
+                                )}
                               </div>
                             </div>
                           ))
@@ -0,0 +1,65 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GST_STATES, isValidGstin, stateCodeFromGstin } from "@/lib/gst";
+
+interface CustomerGstFieldsProps {
+  gstin: string;
+  stateCode: string;
+  onChange: (value: { gstin: string; state_code: string }) => void;
+}
+
+/**
+ * GSTIN and place-of-supply state for B2B customers (hotels, sweet shops)
+ * who need a tax invoice to claim input credit
+ */
+export function CustomerGstFields({ gstin, stateCode, onChange }: CustomerGstFieldsProps) {
+  const invalid = gstin.length > 0 && !isValidGstin(gstin);
+
+  const handleGstinChange = (raw: string) => {
+    const value = raw.toUpperCase().replace(/\s/g, "").slice(0, 15);
+    // The state is part of the GSTIN, so fill it in once the number is complete
+    onChange({ gstin: value, state_code: stateCodeFromGstin(value) || stateCode });
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="gstin">GSTIN</Label>
+        <Input
+          id="gstin"
+          value={gstin}
+          onChange={(e) => handleGstinChange(e.target.value)}
+          placeholder="e.g., 09ABCDE1234F1Z5"
+          className={invalid ? "border-destructive" : undefined}
+        />
+        {invalid && <p className="text-xs text-destructive">Enter a valid 15-character GSTIN</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="state_code">State (Place of Supply)</Label>
+        <Select
+          value={stateCode || "__default__"}
+          onValueChange={(v) => onChange({ gstin, state_code: v === "__default__" ? "" : v })}
+        >
+          <SelectTrigger id="state_code">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__default__">Same as dairy</SelectItem>
+            {Object.entries(GST_STATES).map(([code, name]) => (
+              <SelectItem key={code} value={code}>
+                {code} - {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
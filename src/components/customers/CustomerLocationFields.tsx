@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { isValidLatitude, isValidLongitude, parseCoordinates } from "@/lib/route-planner";
+import { Crosshair, Loader2 } from "lucide-react";
+
+interface CustomerLocationFieldsProps {
+  latitude: string;
+  longitude: string;
+  onChange: (value: { latitude: string; longitude: string }) => void;
+}
+
+/**
+ * Map coordinates of the delivery point, used to sequence route stops.
+ * Accepts "lat, lng" pasted from a maps app, or the device's current
+ * position when standing at the customer's door.
+ */
+export function CustomerLocationFields({ latitude, longitude, onChange }: CustomerLocationFieldsProps) {
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  const latInvalid = latitude !== "" && !isValidLatitude(Number(latitude));
+  const lngInvalid = longitude !== "" && !isValidLongitude(Number(longitude));
+
+  const handleChange = (field: "latitude" | "longitude", value: string) => {
+    const pasted = parseCoordinates(value);
+    if (pasted) {
+      onChange({ latitude: String(pasted.lat), longitude: String(pasted.lng) });
+    } else {
+      onChange({ latitude, longitude, [field]: value.trim() });
+    }
+  };
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Location is not available on this device");
+      return;
+    }
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onChange({
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        });
+        setLocating(false);
+      },
+      (error) => {
+        setLocationError(error.message || "Could not get location");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="latitude">Map Location</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={handleUseCurrentLocation}
+          disabled={locating}
+        >
+          {locating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Crosshair className="h-3 w-3" />}
+          Use current location
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          id="latitude"
+          value={latitude}
+          onChange={(e) => handleChange("latitude", e.target.value)}
+          placeholder="Latitude, e.g. 26.846700"
+          inputMode="decimal"
+          className={latInvalid ? "border-destructive" : undefined}
+        />
+        <Input
+          id="longitude"
+          value={longitude}
+          onChange={(e) => handleChange("longitude", e.target.value)}
+          placeholder="Longitude, e.g. 80.946200"
+          inputMode="decimal"
+          className={lngInvalid ? "border-destructive" : undefined}
+        />
+      </div>
+      {locationError ? (
+        <p className="text-xs text-destructive">{locationError}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">Paste "lat, lng" from a maps app into either box</p>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,13 @@ import {
 } from "@/components/ui/collapsible";
 import { Plus, Minus, Milk, Loader2, ChevronDown, Calendar } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  describeSchedule,
+  type DeliveryDays,
+  type FrequencyType,
+  type ScheduleFormValue,
+} from "@/lib/delivery-schedule";
+import { format } from "date-fns";
 
 interface Product {
   id: string;
@@ -29,32 +36,17 @@ interface Product {
   base_price: number;
 }
 
-interface DeliveryDays {
-  monday: boolean;
-  tuesday: boolean;
-  wednesday: boolean;
-  thursday: boolean;
-  friday: boolean;
-  saturday: boolean;
-  sunday: boolean;
-}
-
-type FrequencyType = "daily" | "alternate" | "weekly" | "custom";
-
-export interface SubscriptionProduct {
+export interface SubscriptionProduct extends ScheduleFormValue {
   product_id: string;
   product_name: string;
   quantity: number;
   custom_price: number | null;
   unit: string;
-  frequency: FrequencyType;
-  delivery_days: DeliveryDays;
 }
 
-export interface CustomerSubscriptionData {
+// Schedule fields at the top level are the customer's default (used for new products)
+export interface CustomerSubscriptionData extends ScheduleFormValue {
   products: SubscriptionProduct[];
-  frequency: FrequencyType; // Global default (used for new products)
-  delivery_days: DeliveryDays; // Global default
   auto_deliver: boolean;
 }
 
@@ -84,19 +76,7 @@ const weekDays = [
 ] as const;
 
 const getDeliveryDaysForFrequency = (frequency: FrequencyType): DeliveryDays => {
-  if (frequency === "daily") {
-    return { ...defaultDeliveryDays };
-  } else if (frequency === "alternate") {
-    return {
-      monday: true,
-      tuesday: false,
-      wednesday: true,
-      thursday: false,
-      friday: true,
-      saturday: false,
-      sunday: true,
-    };
-  } else if (frequency === "weekly") {
+  if (frequency === "weekly") {
     return {
       monday: false,
       tuesday: false,
@@ -110,6 +90,124 @@ const getDeliveryDaysForFrequency = (frequency: FrequencyType): DeliveryDays =>
   return { ...defaultDeliveryDays };
 };
 
+// Rough deliveries per month, used for the monthly value estimate
+const getDeliveriesPerMonth = (schedule: ScheduleFormValue): number => {
+  switch (schedule.frequency) {
+    case "alternate":
+      return 15;
+    case "every_n_days":
+      return 30 / Math.max(1, schedule.interval_days);
+    case "monthly":
+      return schedule.month_days.length;
+    default:
+      return (Object.values(schedule.delivery_days).filter(Boolean).length / 7) * 30;
+  }
+};
+
+const frequencyOptions: { value: FrequencyType; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "alternate", label: "Alternate Days" },
+  { value: "weekly", label: "Weekly" },
+  { value: "custom", label: "Custom Days" },
+  { value: "every_n_days", label: "Every N Days" },
+  { value: "monthly", label: "Monthly Dates" },
+];
+
+interface ScheduleDetailsProps {
+  schedule: ScheduleFormValue;
+  onChange: (patch: Partial<ScheduleFormValue>) => void;
+}
+
+/**
+ * Pattern-specific inputs: weekdays, anchor date, interval or month dates
+ */
+function ScheduleDetails({ schedule, onChange }: ScheduleDetailsProps) {
+  const usesAnchor = schedule.frequency === "alternate" || schedule.frequency === "every_n_days";
+
+  if (schedule.frequency === "monthly") {
+    return (
+      <div className="grid grid-cols-7 sm:grid-cols-11 gap-1">
+        {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => {
+          const selected = schedule.month_days.includes(day);
+          return (
+            <Badge
+              key={day}
+              variant={selected ? "default" : "outline"}
+              className={cn(
+                "cursor-pointer text-xs justify-center transition-colors",
+                selected ? "bg-primary hover:bg-primary/80" : "hover:bg-muted"
+              )}
+              onClick={() =>
+                onChange({
+                  month_days: selected
+                    ? schedule.month_days.filter((d) => d !== day)
+                    : [...schedule.month_days, day],
+                })
+              }
+            >
+              {day}
+            </Badge>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (usesAnchor) {
+    return (
+      <div className="flex flex-wrap items-center gap-3">
+        {schedule.frequency === "every_n_days" && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Every</Label>
+            <Input
+              type="number"
+              min="1"
+              value={schedule.interval_days}
+              onChange={(e) => onChange({ interval_days: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="h-7 w-14 text-center"
+            />
+            <Label className="text-xs">days</Label>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Starting</Label>
+          <Input
+            type="date"
+            value={schedule.anchor_date}
+            onChange={(e) => onChange({ anchor_date: e.target.value })}
+            className="h-7 w-36 text-xs"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {weekDays.map((day) => (
+        <Badge
+          key={day.key}
+          variant={schedule.delivery_days[day.key] ? "default" : "outline"}
+          className={cn(
+            "cursor-pointer text-xs transition-colors",
+            schedule.delivery_days[day.key]
+              ? "bg-primary hover:bg-primary/80"
+              : "hover:bg-muted"
+          )}
+          onClick={() =>
+            onChange({
+              frequency: "custom",
+              delivery_days: { ...schedule.delivery_days, [day.key]: !schedule.delivery_days[day.key] },
+            })
+          }
+        >
+          {day.label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
 export function CustomerSubscriptionSelector({
   value,
   onChange,
@@ -163,6 +261,9 @@ export function CustomerSubscriptionSelector({
             unit: product.unit,
             frequency: value.frequency,
             delivery_days: { ...value.delivery_days },
+            interval_days: value.interval_days,
+            anchor_date: value.anchor_date,
+            month_days: [...value.month_days],
           },
         ],
       });
@@ -194,57 +295,25 @@ export function CustomerSubscriptionSelector({
     });
   };
 
-  const updateProductFrequency = (productId: string, frequency: FrequencyType) => {
+  const updateProductSchedule = (productId: string, patch: Partial<ScheduleFormValue>) => {
     onChange({
       ...value,
-      products: value.products.map((p) => {
-        if (p.product_id === productId) {
-          return {
-            ...p,
-            frequency,
-            delivery_days: getDeliveryDaysForFrequency(frequency),
-          };
-        }
-        return p;
-      }),
+      products: value.products.map((p) => (p.product_id === productId ? { ...p, ...patch } : p)),
     });
   };
 
-  const toggleProductDeliveryDay = (productId: string, day: keyof DeliveryDays) => {
-    onChange({
-      ...value,
-      products: value.products.map((p) => {
-        if (p.product_id === productId) {
-          return {
-            ...p,
-            frequency: "custom" as FrequencyType,
-            delivery_days: {
-              ...p.delivery_days,
-              [day]: !p.delivery_days[day],
-            },
-          };
-        }
-        return p;
-      }),
+  const updateProductFrequency = (productId: string, frequency: FrequencyType) => {
+    updateProductSchedule(productId, {
+      frequency,
+      delivery_days: getDeliveryDaysForFrequency(frequency),
     });
   };
 
   const handleGlobalFrequencyChange = (frequency: FrequencyType) => {
-    const newDeliveryDays = getDeliveryDaysForFrequency(frequency);
     onChange({
       ...value,
       frequency,
-      delivery_days: newDeliveryDays,
-    });
-  };
-
-  const toggleGlobalDeliveryDay = (day: keyof DeliveryDays) => {
-    onChange({
-      ...value,
-      delivery_days: {
-        ...value.delivery_days,
-        [day]: !value.delivery_days[day],
-      },
+      delivery_days: getDeliveryDaysForFrequency(frequency),
     });
   };
 
@@ -281,18 +350,9 @@ export function CustomerSubscriptionSelector({
   const totalMonthlyValue = value.products.reduce((sum, p) => {
     const product = products.find((pr) => pr.id === p.product_id);
     const price = p.custom_price ?? product?.base_price ?? 0;
-    const deliveryDaysCount = Object.values(p.delivery_days).filter(Boolean).length;
-    const daysPerMonth = (deliveryDaysCount / 7) * 30;
-    return sum + price * p.quantity * daysPerMonth;
+    return sum + price * p.quantity * getDeliveriesPerMonth(p);
   }, 0);
 
-  const frequencyLabels: Record<FrequencyType, string> = {
-    daily: "Daily",
-    alternate: "Alternate",
-    weekly: "Weekly",
-    custom: "Custom",
-  };
-
   return (
     <div className="space-y-4">
       {/* Global Default Settings */}
@@ -311,30 +371,16 @@ export function CustomerSubscriptionSelector({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="daily">Daily</SelectItem>
-                <SelectItem value="alternate">Alternate Days</SelectItem>
-                <SelectItem value="weekly">Weekly</SelectItem>
-                <SelectItem value="custom">Custom Days</SelectItem>
+                {frequencyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
-          <div className="flex flex-wrap gap-1">
-            {weekDays.map((day) => (
-              <Badge
-                key={day.key}
-                variant={value.delivery_days[day.key] ? "default" : "outline"}
-                className={cn(
-                  "cursor-pointer text-xs transition-colors",
-                  value.delivery_days[day.key]
-                    ? "bg-primary hover:bg-primary/80"
-                    : "hover:bg-muted"
-                )}
-                onClick={() => toggleGlobalDeliveryDay(day.key)}
-              >
-                {day.label}
-              </Badge>
-            ))}
-          </div>
+          <ScheduleDetails
+            schedule={value}
+            onChange={(patch) => onChange({ ...value, ...patch })}
+          />
           <div className="flex items-center justify-between pt-2 border-t">
             <div>
               <p className="text-sm font-medium">Auto-mark as Delivered</p>
@@ -439,7 +485,7 @@ export function CustomerSubscriptionSelector({
                               onClick={() => toggleProductExpanded(product.id)}
                             >
                               <Calendar className="h-3 w-3 mr-1" />
-                              <span className="text-xs">{frequencyLabels[selectedProduct.frequency]}</span>
+                              <span className="text-xs">{describeSchedule(selectedProduct)}</span>
                               <ChevronDown className={cn("h-3 w-3 ml-1 transition-transform", isExpanded && "rotate-180")} />
                             </Button>
                           </div>
@@ -462,30 +508,16 @@ export function CustomerSubscriptionSelector({
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="daily">Daily</SelectItem>
-                                <SelectItem value="alternate">Alternate Days</SelectItem>
-                                <SelectItem value="weekly">Weekly</SelectItem>
-                                <SelectItem value="custom">Custom Days</SelectItem>
+                                {frequencyOptions.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
-                          <div className="flex flex-wrap gap-1">
-                            {weekDays.map((day) => (
-                              <Badge
-                                key={day.key}
-                                variant={selectedProduct.delivery_days[day.key] ? "default" : "outline"}
-                                className={cn(
-                                  "cursor-pointer text-xs transition-colors",
-                                  selectedProduct.delivery_days[day.key]
-                                    ? "bg-primary hover:bg-primary/80"
-                                    : "hover:bg-muted"
-                                )}
-                                onClick={() => toggleProductDeliveryDay(product.id, day.key)}
-                              >
-                                {day.label}
-                              </Badge>
-                            ))}
-                          </div>
+                          <ScheduleDetails
+                            schedule={selectedProduct}
+                            onChange={(patch) => updateProductSchedule(product.id, patch)}
+                          />
                         </div>
                       )}
                     </div>
@@ -517,7 +549,7 @@ export function CustomerSubscriptionSelector({
                     <div key={p.product_id} className="flex items-center gap-2">
                       <span>{p.product_name}</span>
                       <Badge variant="outline" className="text-[10px] h-4 px-1">
-                        {frequencyLabels[p.frequency]}
+                        {describeSchedule(p)}
                       </Badge>
                     </div>
                   ))}
@@ -541,5 +573,8 @@ export const defaultSubscriptionData: CustomerSubscriptionData = {
   products: [],
   frequency: "daily",
   delivery_days: defaultDeliveryDays,
+  interval_days: 2,
+  anchor_date: format(new Date(), "yyyy-MM-dd"),
+  month_days: [1],
   auto_deliver: true,
 };
@@ -30,6 +30,8 @@ interface Product {
   category: string;
   unit: string;
   base_price: number;
+  /** Finished-goods stock, null when the product is not stock-tracked */
+  stock_quantity: number | null;
 }
 
 interface OrderItem {
@@ -74,7 +76,7 @@ export function QuickAddOnOrderDialog({
     setLoading(true);
     const { data, error } = await supabase
       .from("products")
-      .select("id, name, category, unit, base_price")
+      .select("id, name, category, unit, base_price, stock_quantity")
       .eq("is_active", true)
       .order("category")
       .order("name");
@@ -137,6 +139,15 @@ export function QuickAddOnOrderDialog({
       return;
     }
 
+    // Stock-tracked products can't be ordered beyond what processing has made
+    for (const item of orderItems) {
+      const stock = products.find((p) => p.id === item.product_id)?.stock_quantity ?? null;
+      if (stock !== null && item.quantity > stock) {
+        toast.error(`Only ${Math.max(stock, 0)} ${item.unit} of ${item.product_name} in stock`);
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       const formattedDate = format(deliveryDate, "yyyy-MM-dd");
@@ -287,6 +298,9 @@ export function QuickAddOnOrderDialog({
                       const selectedItem = orderItems.find(
                         (p) => p.product_id === product.id
                       );
+                      const shortOfStock =
+                        product.stock_quantity !== null &&
+                        (selectedItem?.quantity || 0) > Math.max(product.stock_quantity, 0);
 
                       return (
                         <Card
@@ -309,6 +323,11 @@ export function QuickAddOnOrderDialog({
                                   <p className="font-medium text-sm">{product.name}</p>
                                   <p className="text-xs text-muted-foreground">
                                     ₹{product.base_price}/{product.unit}
+                                    {product.stock_quantity !== null && (
+                                      <span className={cn("ml-2", shortOfStock && "text-destructive")}>
+                                        · {product.stock_quantity} in stock
+                                      </span>
+                                    )}
                                   </p>
                                 </div>
                               </div>
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { describeSubscriptionChange } from "@/lib/subscription-changes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Check, X, Loader2, Repeat } from "lucide-react";
+
+interface PendingChange {
+  id: string;
+  change_type: string;
+  old_quantity: number | null;
+  new_quantity: number | null;
+  effective_date: string;
+  created_at: string;
+  customer: { name: string } | null;
+  product: { name: string; unit: string } | null;
+}
+
+/**
+ * Subscription changes customers asked for from the portal, shown when the
+ * dairy requires staff approval (Settings → Subscription changes)
+ */
+export function SubscriptionChangeApprovals() {
+  const [changes, setChanges] = useState<PendingChange[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPendingChanges = useCallback(async () => {
+    const { data } = await supabase
+      .from("subscription_change_requests")
+      .select(`
+        id, change_type, old_quantity, new_quantity, effective_date, created_at,
+        customer:customer_id (name),
+        product:product_id (name, unit)
+      `)
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+
+    setChanges((data as PendingChange[]) || []);
+  }, []);
+
+  useEffect(() => {
+    fetchPendingChanges();
+  }, [fetchPendingChanges]);
+
+  const handleReview = async (change: PendingChange, approve: boolean) => {
+    setProcessingId(change.id);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Approving after the requested date has passed moves it to the next
+    // date the cutoff still allows, so it never applies retroactively
+    let effectiveDate = change.effective_date;
+    if (approve) {
+      const { data: earliest } = await supabase.rpc("subscription_change_effective_date", {});
+      if (earliest && earliest > effectiveDate) effectiveDate = earliest;
+    }
+
+    const { error } = await supabase
+      .from("subscription_change_requests")
+      .update({
+        status: approve ? "approved" : "rejected",
+        effective_date: effectiveDate,
+        review_note: notes[change.id]?.trim() || null,
+        reviewed_by: user?.id || null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", change.id)
+      .eq("status", "pending");
+
+    setProcessingId(null);
+
+    if (error) {
+      toast({
+        title: approve ? "Error approving change" : "Error rejecting change",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "Change approved" : "Change rejected",
+      description: approve
+        ? `Applies from ${format(new Date(effectiveDate), "dd MMM")}`
+        : `${change.customer?.name || "Customer"} will see this in their history`,
+    });
+    fetchPendingChanges();
+  };
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-warning/50 bg-warning/5">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="h-5 w-5 text-warning" />
+          Pending Subscription Changes
+          <Badge variant="secondary" className="ml-2">
+            {changes.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {changes.map((change) => (
+            <div
+              key={change.id}
+              className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-3 rounded-lg bg-background border"
+            >
+              <div className="flex-1">
+                <div className="font-medium">{change.customer?.name || "Customer"}</div>
+                <div className="text-sm">
+                  {describeSubscriptionChange(change, change.product?.name || "Product", change.product?.unit)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Requested {format(new Date(change.created_at), "dd MMM, hh:mm a")} · from{" "}
+                  {format(new Date(change.effective_date), "EEE, dd MMM")}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={notes[change.id] || ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [change.id]: e.target.value }))}
+                  placeholder="Note (optional)"
+                  className="h-9 sm:w-44"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                  disabled={processingId === change.id}
+                  onClick={() => handleReview(change, false)}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={processingId === change.id}
+                  onClick={() => handleReview(change, true)}
+                >
+                  {processingId === change.id ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4 mr-1" />
+                  )}
+                  Approve
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
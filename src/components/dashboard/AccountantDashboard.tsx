@@ -67,6 +67,7 @@ export function AccountantDashboard() {
       supabase
         .from("payments")
         .select("amount")
+        .eq("status", "verified")
         .gte("payment_date", monthStart)
         .lte("payment_date", monthEnd),
       supabase
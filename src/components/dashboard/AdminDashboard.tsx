@@ -15,6 +15,8 @@ import { MonthComparisonChart } from "./MonthComparisonChart";
 import { CustomerGrowthChart } from "./CustomerGrowthChart";
 import { ProcurementProductionChart } from "./ProcurementProductionChart";
 import { useBreedingAlerts } from "@/hooks/useBreedingAlerts";
+import { useHealthProtocolTasks } from "@/hooks/useHealthProtocols";
+import { useLactationAnalytics } from "@/hooks/useLactationAnalytics";
 import { BreedingAlertsPanel } from "@/components/breeding/BreedingAlertsPanel";
 import { DashboardSkeleton } from "@/components/common/LoadingSkeleton";
 import { motion } from "framer-motion";
@@ -29,11 +31,15 @@ import {
 export function AdminDashboard() {
   const navigate = useNavigate();
   const { data, isLoading } = useDashboardData();
+  const { data: healthSchedule } = useHealthProtocolTasks();
+  const { data: lactation } = useLactationAnalytics();
 
   const { alerts, criticalCount, warningCount, upcomingCount } = useBreedingAlerts(
     data?.breedingRecords || [],
     data?.healthRecords || [],
-    data?.cattle || []
+    data?.cattle || [],
+    healthSchedule?.tasks || [],
+    lactation?.analyses
   );
 
   if (isLoading || !data) {
@@ -59,6 +59,7 @@ export function AuditorDashboard() {
       supabase
         .from("payments")
         .select("id, amount")
+        .eq("status", "verified")
         .gte("payment_date", currentMonthStart)
         .lte("payment_date", currentMonthEnd),
       supabase
@@ -74,6 +75,7 @@ export function AuditorDashboard() {
       supabase
         .from("payments")
         .select("id, amount")
+        .eq("status", "verified")
         .gte("payment_date", lastMonthStart)
         .lte("payment_date", lastMonthEnd),
     ]);
@@ -14,10 +14,13 @@ import {
   Droplets,
   Sun,
   Moon,
+  Activity,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { InsightsSkeleton } from "@/components/common/LoadingSkeleton";
 import { getCattleTag, getCattleName } from "@/lib/supabase-helpers";
+import { useLactationAnalytics } from "@/hooks/useLactationAnalytics";
+import { splitMilk } from "@/lib/milk-withdrawal";
 
 interface CattlePerformance {
   cattle_id: string;
@@ -33,6 +36,9 @@ interface CattlePerformance {
 
 interface ProductionSummary {
   total_liters: number;
+  /** Milk withheld during treatment withdrawal and discarded */
+  discarded_liters: number;
+  saleable_liters: number;
   average_daily: number;
   morning_percentage: number;
   active_cattle: number;
@@ -50,6 +56,7 @@ async function fetchProductionInsights() {
       quantity_liters,
       production_date,
       session,
+      is_withheld,
       cattle:cattle_id (tag_number, name)
     `)
     .gte("production_date", startDate);
@@ -152,8 +159,11 @@ async function fetchProductionInsights() {
   });
 
   const total = morningTotal + eveningTotal;
+  const { saleable, discarded } = splitMilk(production);
   const summary: ProductionSummary = {
     total_liters: Math.round(total * 100) / 100,
+    saleable_liters: Math.round(saleable * 100) / 100,
+    discarded_liters: Math.round(discarded * 100) / 100,
     average_daily: Math.round((total / dailyTotals.size) * 100) / 100,
     morning_percentage: total > 0 ? Math.round((morningTotal / total) * 100) : 50,
     active_cattle: activeCattle.size,
@@ -188,12 +198,17 @@ export function ProductionInsights() {
     gcTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
   });
+  const { data: lactation } = useLactationAnalytics();
 
   if (isLoading || !data) {
     return <InsightsSkeleton />;
   }
 
   const { topPerformers, underperformers, summary, anomalyCount } = data;
+  const belowCurve = (lactation?.analyses || [])
+    .filter((a) => a.underperforming)
+    .sort((a, b) => (a.vs_herd_percentage ?? 0) - (b.vs_herd_percentage ?? 0))
+    .slice(0, 3);
 
   return (
     <Card>
@@ -237,6 +252,12 @@ export function ProductionInsights() {
             <div className="p-3 rounded-lg bg-muted/50">
               <div className="text-2xl font-bold">{summary.total_liters.toLocaleString()}L</div>
               <div className="text-xs text-muted-foreground">Total Production</div>
+              {summary.discarded_liters > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {summary.saleable_liters.toLocaleString()}L saleable ·{" "}
+                  <span className="text-destructive">{summary.discarded_liters.toLocaleString()}L discarded</span>
+                </div>
+              )}
             </div>
             <div className="p-3 rounded-lg bg-muted/50">
               <div className="text-2xl font-bold">{summary.average_daily.toLocaleString()}L</div>
@@ -357,6 +378,44 @@ export function ProductionInsights() {
           </motion.div>
         )}
 
+        {/* Below parity-matched lactation curve */}
+        {belowCurve.length > 0 && (
+          <motion.div 
+            className="space-y-2"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.55 }}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Activity className="h-4 w-4 text-warning" />
+              Below Lactation Curve
+            </div>
+            <div className="space-y-1">
+              {belowCurve.map((cow) => (
+                <div
+                  key={cow.cattle_id}
+                  className="flex items-center justify-between p-2 rounded-lg bg-warning/5 border border-warning/20"
+                >
+                  <div>
+                    <span className="font-medium text-sm">{cow.tag_number}</span>
+                    <span className="text-xs text-muted-foreground ml-1">
+                      L{cow.parity} · day {cow.current_dim}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {cow.projected_305?.toLocaleString()}L / 305d
+                    </span>
+                    <Badge variant="outline" className="text-xs text-warning border-warning/30">
+                      {cow.vs_herd_percentage}%
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Active Cattle */}
         {summary && (
           <motion.div 
@@ -65,6 +65,7 @@ async function fetchRecentActivities(): Promise<ActivityItem[]> {
   const { data: payments } = await supabase
     .from("payments")
     .select("id, created_at, amount, customer:customer_id(name)")
+    .eq("status", "verified")
     .order("created_at", { ascending: false })
     .limit(5);
 
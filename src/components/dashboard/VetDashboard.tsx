@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { getCattleTag } from "@/lib/supabase-helpers";
 import { StatCard } from "./StatCard";
+import { MastitisRiskPanel } from "@/components/health/MastitisRiskPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -177,6 +178,9 @@ export function VetDashboard() {
         />
       </div>
 
+      {/* Cows likely to be developing mastitis */}
+      <MastitisRiskPanel highRiskOnly />
+
       {/* Upcoming Health Tasks */}
       <Card>
         <CardHeader>
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { isNetworkError, loadSnapshot, queueDeliveryStatus } from "@/lib/offline-delivery-queue";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -16,7 +17,8 @@ import {
   Loader2, 
   Truck, 
   AlertTriangle,
-  Package
+  Package,
+  CloudOff
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 
@@ -49,9 +51,25 @@ export function BulkDeliveryActions({
     success: number;
     failed: number;
     skipped: number;
+    queued: number;
   } | null>(null);
   const { toast } = useToast();
 
+  /**
+   * Without network, fall back to the preloaded route: its vacation flags
+   * stand in for the live check and the update is queued for sync
+   */
+  const queueOffline = (delivery: PendingDelivery): "queued" | "skipped" | "failed" => {
+    const snapshot = loadSnapshot();
+    const cached = snapshot?.date === delivery.delivery_date
+      ? snapshot.deliveries.find((d) => d.id === delivery.id)
+      : undefined;
+    if (!cached) return "failed";
+    if (cached.on_vacation) return "skipped";
+    queueDeliveryStatus(delivery.id, "delivered", cached.status);
+    return "queued";
+  };
+
   const handleMarkAllDelivered = async () => {
     if (pendingDeliveries.length === 0) {
       toast({
@@ -69,13 +87,21 @@ export function BulkDeliveryActions({
     let success = 0;
     let failed = 0;
     let skipped = 0;
+    let queued = 0;
+
+    const countOffline = (delivery: PendingDelivery) => {
+      const outcome = queueOffline(delivery);
+      if (outcome === "queued") queued++;
+      else if (outcome === "skipped") skipped++;
+      else failed++;
+    };
 
     for (let i = 0; i < pendingDeliveries.length; i++) {
       const delivery = pendingDeliveries[i];
 
       try {
         // Check if customer is on vacation using direct query (works on any database)
-        const { data: vacationCheck } = await supabase
+        const { data: vacationCheck, error: vacationError } = await supabase
           .from("customer_vacations")
           .select("id")
           .eq("customer_id", delivery.customer_id)
@@ -85,7 +111,9 @@ export function BulkDeliveryActions({
           .limit(1)
           .maybeSingle();
 
-        if (vacationCheck) {
+        if (vacationError && isNetworkError(vacationError)) {
+          countOffline(delivery);
+        } else if (vacationCheck) {
           // Skip customers on vacation
           skipped++;
         } else {
@@ -98,7 +126,9 @@ export function BulkDeliveryActions({
             })
             .eq("id", delivery.id);
 
-          if (error) {
+          if (error && isNetworkError(error)) {
+            countOffline(delivery);
+          } else if (error) {
             console.error("Error updating delivery:", error);
             failed++;
           } else {
@@ -106,22 +136,27 @@ export function BulkDeliveryActions({
           }
         }
       } catch (err) {
-        console.error("Error processing delivery:", err);
-        failed++;
+        if (isNetworkError(err)) {
+          countOffline(delivery);
+        } else {
+          console.error("Error processing delivery:", err);
+          failed++;
+        }
       }
 
       setProgress(Math.round(((i + 1) / pendingDeliveries.length) * 100));
     }
 
     setProcessing(false);
-    setResults({ success, failed, skipped });
+    setResults({ success, failed, skipped, queued });
 
     toast({
       title: "Bulk update complete",
-      description: `${success} delivered, ${skipped} skipped (vacation), ${failed} failed`,
+      description: `${success} delivered, ${skipped} skipped (vacation), ${failed} failed` +
+        (queued > 0 ? `, ${queued} saved offline` : ""),
     });
 
-    if (success > 0) {
+    if (success > 0 || queued > 0) {
       onComplete();
     }
   };
@@ -195,6 +230,15 @@ export function BulkDeliveryActions({
                   </span>
                   <span className="font-medium">{results.skipped}</span>
                 </div>
+                {results.queued > 0 && (
+                  <div className="flex justify-between">
+                    <span className="flex items-center gap-2">
+                      <CloudOff className="h-4 w-4 text-muted-foreground" />
+                      Saved offline (will sync)
+                    </span>
+                    <span className="font-medium">{results.queued}</span>
+                  </div>
+                )}
                 {results.failed > 0 && (
                   <div className="flex justify-between text-destructive">
                     <span>Failed</span>
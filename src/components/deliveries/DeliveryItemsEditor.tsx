@@ -28,6 +28,8 @@ interface Product {
   name: string;
   base_price: number;
   unit: string;
+  /** Finished-goods stock, null when the product is not stock-tracked */
+  stock_quantity: number | null;
 }
 
 interface DeliveryItem {
@@ -68,6 +70,8 @@ export function DeliveryItemsEditor({
   const [products, setProducts] = useState<Product[]>([]);
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [items, setItems] = useState<DeliveryItem[]>([]);
+  // Stock already taken by this delivery's saved items, which goes back on save
+  const [savedQuantities, setSavedQuantities] = useState<Record<string, number>>({});
   const [selectedProductId, setSelectedProductId] = useState<string>("");
   const { toast } = useToast();
 
@@ -83,7 +87,7 @@ export function DeliveryItemsEditor({
       const [productsRes, subsRes, itemsRes] = await Promise.all([
         supabase
           .from("products")
-          .select("id, name, base_price, unit")
+          .select("id, name, base_price, unit, stock_quantity")
           .eq("is_active", true)
           .order("name"),
         supabase
@@ -93,7 +97,7 @@ export function DeliveryItemsEditor({
           .eq("is_active", true),
         supabase
           .from("delivery_items")
-          .select("id, product_id, quantity, unit_price, total_amount, products(name)")
+          .select("id, product_id, quantity, unit_price, total_amount, stock_taken, products(name)")
           .eq("delivery_id", deliveryId),
       ]);
 
@@ -124,6 +128,12 @@ export function DeliveryItemsEditor({
           is_addon: !subscriptionProductIds.has(item.product_id),
         }));
         setItems(formattedItems);
+        setSavedQuantities(
+          itemsRes.data.reduce<Record<string, number>>((acc, item) => {
+            acc[item.product_id] = (acc[item.product_id] || 0) + Number(item.stock_taken);
+            return acc;
+          }, {})
+        );
       } else {
         // Initialize with subscription items if no items exist
         const initialItems = subsRes.data?.map((s: any) => ({
@@ -135,6 +145,7 @@ export function DeliveryItemsEditor({
           is_addon: false,
         })) || [];
         setItems(initialItems);
+        setSavedQuantities({});
       }
     } catch (error) {
       console.error("Error fetching data:", error);
@@ -212,6 +223,19 @@ export function DeliveryItemsEditor({
   };
 
   const handleSave = async () => {
+    for (const item of items) {
+      const stock = products.find((p) => p.id === item.product_id)?.stock_quantity ?? null;
+      const available = stock === null ? null : stock + (savedQuantities[item.product_id] || 0);
+      if (available !== null && item.quantity > available) {
+        toast({
+          title: "Not enough stock",
+          description: `Only ${Math.max(available, 0)} of ${item.product_name} available`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       // Delete existing items
@@ -366,6 +390,7 @@ export function DeliveryItemsEditor({
                   {availableProducts.map((product) => (
                     <SelectItem key={product.id} value={product.id}>
                       {product.name} - ₹{product.base_price}/{product.unit}
+                      {product.stock_quantity !== null && ` (${product.stock_quantity} in stock)`}
                     </SelectItem>
                   ))}
                 </SelectContent>
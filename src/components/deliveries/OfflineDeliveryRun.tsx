@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+import { useOfflineDeliveries } from "@/hooks/useOfflineDeliveries";
+import { orderByRoute, type OfflineDeliveryStatus, type QueuedDeliveryAction } from "@/lib/offline-delivery-queue";
+import { MobileDeliveryCard } from "@/components/mobile/MobileDeliveryCard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { AlertTriangle, CloudDownload, CloudOff, Loader2, RefreshCw, Wifi } from "lucide-react";
+
+interface OfflineDeliveryRunProps {
+  date: string;
+}
+
+function describeAction(action: QueuedDeliveryAction): string {
+  switch (action.kind) {
+    case "status":
+      return `Mark ${action.status}`;
+    case "item_quantity":
+      return `Set quantity to ${action.quantity}`;
+    default:
+      return `Return ${action.quantity} bottles`;
+  }
+}
+
+export function OfflineDeliveryRun({ date }: OfflineDeliveryRunProps) {
+  const {
+    snapshot,
+    queue,
+    isOnline,
+    syncing,
+    pendingCount,
+    conflictCount,
+    preload,
+    sync,
+    setStatus,
+    setItemQuantity,
+    recordBottleReturn,
+    keepLocal,
+    discardLocal,
+  } = useOfflineDeliveries();
+  const [loadFailed, setLoadFailed] = useState(false);
+  const { toast } = useToast();
+
+  const isCurrent = snapshot?.date === date;
+
+  const handleDownload = async () => {
+    const ok = await preload(date);
+    setLoadFailed(!ok);
+    toast(
+      ok
+        ? { title: "Route downloaded", description: "Deliveries are available offline" }
+        : { title: "Download failed", description: "Check your connection and try again", variant: "destructive" }
+    );
+  };
+
+  const handleSync = async () => {
+    const result = await sync();
+    if (result.offline) {
+      toast({ title: "Still offline", description: "Changes stay saved on this device", variant: "destructive" });
+    } else if (result.conflicts > 0) {
+      toast({
+        title: "Some changes need review",
+        description: `${result.synced} synced, ${result.conflicts} conflicts`,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Synced", description: `${result.synced} changes uploaded` });
+    }
+  };
+
+  // Refresh the route whenever we open a date that isn't cached and have signal
+  useEffect(() => {
+    if (!isCurrent && isOnline) {
+      setLoadFailed(false);
+      preload(date).then((ok) => setLoadFailed(!ok));
+    }
+  }, [date, isCurrent, isOnline, preload]);
+
+  const syncStates = useMemo(() => {
+    const states = new Map<string, "pending" | "conflict">();
+    for (const action of queue) {
+      if (action.state === "conflict") states.set(action.delivery_id, "conflict");
+      else if (!states.has(action.delivery_id)) states.set(action.delivery_id, "pending");
+    }
+    return states;
+  }, [queue]);
+
+  const deliveries = useMemo(
+    () => (snapshot && isCurrent ? orderByRoute(snapshot.deliveries, snapshot.route_stops) : []),
+    [snapshot, isCurrent]
+  );
+
+  const conflicts = queue.filter((a) => a.state === "conflict");
+  const done = deliveries.filter((d) => d.status !== "pending").length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              {isOnline ? (
+                <Wifi className="h-4 w-4 text-success" />
+              ) : (
+                <CloudOff className="h-4 w-4 text-warning" />
+              )}
+              <span className="font-medium">{isOnline ? "Online" : "Offline"}</span>
+              {snapshot && isCurrent && (
+                <span className="text-muted-foreground">
+                  · loaded {format(new Date(snapshot.loaded_at), "hh:mm a")}
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleDownload} disabled={!isOnline || syncing}>
+                <CloudDownload className="h-4 w-4" />
+              </Button>
+              <Button size="sm" onClick={handleSync} disabled={!isOnline || syncing || pendingCount === 0}>
+                {syncing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                Sync{pendingCount > 0 ? ` (${pendingCount})` : ""}
+              </Button>
+            </div>
+          </div>
+          {deliveries.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{done} of {deliveries.length} stops done</span>
+                <span>{Math.round((done / deliveries.length) * 100)}%</span>
+              </div>
+              <Progress value={(done / deliveries.length) * 100} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {conflictCount > 0 && (
+        <Card className="border-destructive/50">
+          <CardContent className="pt-4 space-y-3">
+            <p className="text-sm font-medium flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {conflictCount} change{conflictCount > 1 ? "s" : ""} could not be synced
+            </p>
+            {conflicts.map((action) => {
+              const delivery = snapshot?.deliveries.find((d) => d.id === action.delivery_id);
+              return (
+                <div key={action.id} className="rounded-lg border p-3 space-y-2 text-sm">
+                  <div>
+                    <p className="font-medium">{delivery?.customer_name || "Delivery"}: {describeAction(action)}</p>
+                    <p className="text-xs text-muted-foreground">{action.conflict_reason}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={() => keepLocal(action.id)}>
+                      Keep mine
+                    </Button>
+                    <Button size="sm" variant="outline" className="flex-1" onClick={() => discardLocal(action.id)}>
+                      Use server
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {!isCurrent ? (
+        <Card className="border-dashed">
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {loadFailed ? (
+              <>Could not download the route. Tap download to retry.</>
+            ) : isOnline ? (
+              <Loader2 className="h-6 w-6 mx-auto animate-spin" />
+            ) : (
+              <>Route for {format(new Date(date), "dd MMM yyyy")} was not downloaded before going offline</>
+            )}
+          </CardContent>
+        </Card>
+      ) : deliveries.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            No deliveries for {format(new Date(date), "dd MMM yyyy")}
+          </CardContent>
+        </Card>
+      ) : (
+        deliveries.map((delivery) => {
+          const bottles = snapshot!.bottles.filter((b) => b.customer_id === delivery.customer_id);
+          return (
+            <MobileDeliveryCard
+              key={delivery.id}
+              customerName={delivery.customer_name}
+              address={delivery.address || ""}
+              area={delivery.area || undefined}
+              phone={delivery.phone || undefined}
+              status={delivery.status}
+              items={snapshot!.items.filter((i) => i.delivery_id === delivery.id)}
+              bottles={bottles}
+              bottlesPending={bottles.reduce((sum, b) => sum + b.quantity_pending, 0)}
+              onVacation={delivery.on_vacation}
+              syncState={syncStates.get(delivery.id)}
+              onStatusChange={(status) => setStatus(delivery.id, status as OfflineDeliveryStatus)}
+              onQuantityChange={setItemQuantity}
+              onBottleReturn={(bottleId, qty) => recordBottleReturn(delivery.id, delivery.customer_id, bottleId, qty)}
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { getDueSubscriptions, type DeliveryScheduleRule } from "@/lib/delivery-schedule";
+import { exportToPDF } from "@/lib/export";
+import { logger } from "@/lib/logger";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Printer } from "lucide-react";
+
+export interface DeliverySheetStop {
+  customer_id: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  eta: string;
+}
+
+interface RouteDeliverySheetButtonProps {
+  routeName: string;
+  /** Stops already in route order */
+  stops: DeliverySheetStop[];
+}
+
+const sheetColumns = [
+  { key: "stop", header: "#" },
+  { key: "eta", header: "ETA" },
+  { key: "name", header: "Customer" },
+  { key: "address", header: "Address" },
+  { key: "phone", header: "Phone" },
+  { key: "items", header: "Items" },
+  { key: "bottles", header: "Bottles Back" },
+  { key: "sign", header: "Remarks" },
+];
+
+/**
+ * Printable delivery sheet for a route and date, in stop order, listing
+ * what each customer is due that day per their delivery schedule
+ */
+export function RouteDeliverySheetButton({ routeName, stops }: RouteDeliverySheetButtonProps) {
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const handlePrint = async () => {
+    if (stops.length === 0) return;
+    setGenerating(true);
+
+    try {
+      const customerIds = stops.map((s) => s.customer_id);
+      const [customersRes, subsRes, schedulesRes, vacationsRes] = await Promise.all([
+        supabase.from("customers").select("id, subscription_type").in("id", customerIds),
+        supabase
+          .from("customer_products")
+          .select("id, customer_id, quantity, product:product_id (name, unit)")
+          .in("customer_id", customerIds)
+          .eq("is_active", true),
+        supabase.from("delivery_schedules").select("*").in("customer_id", customerIds).eq("is_active", true),
+        supabase
+          .from("customer_vacations")
+          .select("customer_id")
+          .in("customer_id", customerIds)
+          .eq("is_active", true)
+          .lte("start_date", date)
+          .gte("end_date", date),
+      ]);
+
+      const firstError = customersRes.error || subsRes.error || schedulesRes.error || vacationsRes.error;
+      if (firstError) throw new Error(firstError.message);
+
+      const customerMap = new Map((customersRes.data || []).map((c) => [c.id, c]));
+      const schedules: DeliveryScheduleRule[] = schedulesRes.data || [];
+      const onVacation = new Set((vacationsRes.data || []).map((v) => v.customer_id));
+      const subscriptions = subsRes.data || [];
+
+      const rows = stops.map((stop, index) => {
+        const customer = customerMap.get(stop.customer_id);
+        let items = "-";
+        if (onVacation.has(stop.customer_id)) {
+          items = "ON VACATION";
+        } else if (customer) {
+          const { due } = getDueSubscriptions(subscriptions, schedules, customer, date);
+          if (due.length > 0) {
+            items = due
+              .map((sub) => `${sub.product?.name || "Item"} ${sub.quantity}${sub.product?.unit ? ` ${sub.product.unit}` : ""}`)
+              .join(", ");
+          }
+        }
+        return {
+          stop: index + 1,
+          eta: stop.eta,
+          name: stop.name,
+          address: stop.address || "",
+          phone: stop.phone || "",
+          items,
+          bottles: "",
+          sign: "",
+        };
+      });
+
+      exportToPDF(rows, sheetColumns, `delivery_sheet_${routeName.replace(/\s+/g, "_")}`, `Delivery Sheet: ${routeName}`, {
+        orientation: "landscape",
+        subtitle: `${format(new Date(date), "EEEE, dd MMM yyyy")} · ${stops.length} stops`,
+      });
+    } catch (error: unknown) {
+      logger.error("DeliverySheet", "Error generating delivery sheet", error);
+      toast({
+        title: "Could not create sheet",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className="h-9 w-[150px]"
+        aria-label="Sheet date"
+      />
+      <Button variant="outline" size="sm" className="gap-2" onClick={handlePrint} disabled={generating || stops.length === 0}>
+        {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+        Delivery Sheet
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState, useEffect, useMemo } from "react";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import {
+  computeStopEtas,
+  isValidLatitude,
+  isValidLongitude,
+  optimiseStopOrder,
+  parseCoordinates,
+  routeDistanceKm,
+  toGeoPoint,
+  type GeoPoint,
+} from "@/lib/route-planner";
+import { useToast } from "@/hooks/use-toast";
+import { RouteDeliverySheetButton } from "@/components/deliveries/RouteDeliverySheetButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, GripVertical, Loader2, MapPinOff, RotateCcw, Save, Sparkles } from "lucide-react";
+
+export interface SequencerRoute {
+  id: string;
+  name: string;
+  start_time: string;
+  service_minutes: number;
+  average_speed_kmph: number;
+  start_latitude: number | null;
+  start_longitude: number | null;
+}
+
+export interface SequencerStop {
+  id: string;
+  customer_id: string;
+  stop_order: number;
+}
+
+export interface SequencerCustomer {
+  id: string;
+  name: string;
+  address: string | null;
+  area: string | null;
+  phone: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface RouteStopSequencerProps {
+  route: SequencerRoute;
+  stops: SequencerStop[];
+  customers: SequencerCustomer[];
+  onSaved: () => void;
+  onRemoveStop: (stopId: string) => void;
+}
+
+interface TimingForm {
+  startTime: string;
+  serviceMinutes: string;
+  speedKmph: string;
+  depot: string;
+}
+
+function timingFromRoute(route: SequencerRoute): TimingForm {
+  return {
+    startTime: route.start_time.slice(0, 5),
+    serviceMinutes: String(route.service_minutes),
+    speedKmph: String(route.average_speed_kmph),
+    depot:
+      route.start_latitude !== null && route.start_longitude !== null
+        ? `${route.start_latitude}, ${route.start_longitude}`
+        : "",
+  };
+}
+
+/**
+ * Stop list for one route: drag (or nudge) stops into order, or let the
+ * sequencer compute one from customer coordinates. ETAs follow the order
+ * live and are written back with it on save.
+ */
+export function RouteStopSequencer({ route, stops, customers, onSaved, onRemoveStop }: RouteStopSequencerProps) {
+  const savedOrder = [...stops].sort((a, b) => a.stop_order - b.stop_order).map((s) => s.id);
+  // The parent filters stops on every render, so track the saved order by value
+  const savedKey = savedOrder.join();
+  const [order, setOrder] = useState<string[]>(savedOrder);
+  const [timing, setTiming] = useState<TimingForm>(() => timingFromRoute(route));
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setOrder(savedKey ? savedKey.split(",") : []);
+  }, [savedKey]);
+
+  useEffect(() => {
+    setTiming(timingFromRoute(route));
+  }, [route]);
+
+  const customerMap = useMemo(() => new Map(customers.map((c) => [c.id, c])), [customers]);
+  const stopMap = useMemo(() => new Map(stops.map((s) => [s.id, s])), [stops]);
+
+  const depot: GeoPoint | null = parseCoordinates(timing.depot);
+  const depotInvalid = timing.depot.trim() !== "" && !depot;
+
+  const orderedStops = order
+    .map((id) => stopMap.get(id))
+    .filter((s): s is SequencerStop => !!s)
+    .map((stop) => {
+      const customer = customerMap.get(stop.customer_id);
+      return {
+        ...stop,
+        customer,
+        latitude: customer?.latitude ?? null,
+        longitude: customer?.longitude ?? null,
+      };
+    });
+
+  const etas = computeStopEtas(orderedStops, {
+    startTime: timing.startTime || "05:30",
+    serviceMinutes: Math.max(0, parseInt(timing.serviceMinutes) || 0),
+    speedKmph: parseFloat(timing.speedKmph) || 15,
+    start: depot,
+  });
+  const distanceKm = routeDistanceKm(orderedStops, depot);
+  const savedDistanceKm = routeDistanceKm(
+    [...orderedStops].sort((a, b) => a.stop_order - b.stop_order),
+    depot
+  );
+  const locatedCount = orderedStops.filter((s) => toGeoPoint(s)).length;
+
+  const timingChanged = JSON.stringify(timing) !== JSON.stringify(timingFromRoute(route));
+  const orderChanged = order.join() !== savedKey;
+  const dirty = orderChanged || timingChanged;
+
+  const moveStop = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    setOrder((prev) => {
+      const next = prev.filter((id) => id !== fromId);
+      next.splice(prev.indexOf(toId), 0, fromId);
+      return next;
+    });
+  };
+
+  const nudgeStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    setOrder((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleOptimise = () => {
+    const optimised = optimiseStopOrder(orderedStops, depot);
+    setOrder(optimised.map((s) => s.id));
+    const after = routeDistanceKm(optimised, depot);
+    toast({
+      title: "Route optimised",
+      description: `About ${after.toFixed(1)} km (was ${distanceKm.toFixed(1)} km). Save to keep this order.`,
+    });
+  };
+
+  const handleSave = async () => {
+    const serviceMinutes = parseInt(timing.serviceMinutes);
+    const speed = parseFloat(timing.speedKmph);
+    if (!timing.startTime || isNaN(serviceMinutes) || serviceMinutes < 0 || serviceMinutes > 60 || !(speed > 0)) {
+      toast({ title: "Error", description: "Check the start time, stop time and speed", variant: "destructive" });
+      return;
+    }
+    if (depotInvalid || (depot && (!isValidLatitude(depot.lat) || !isValidLongitude(depot.lng)))) {
+      toast({ title: "Error", description: "Start point must be \"latitude, longitude\"", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const results = await Promise.all([
+      supabase
+        .from("routes")
+        .update({
+          start_time: timing.startTime,
+          service_minutes: serviceMinutes,
+          average_speed_kmph: speed,
+          start_latitude: depot?.lat ?? null,
+          start_longitude: depot?.lng ?? null,
+        })
+        .eq("id", route.id),
+      ...orderedStops.map((stop, index) =>
+        supabase
+          .from("route_stops")
+          .update({ stop_order: index + 1, estimated_arrival_time: etas[index] })
+          .eq("id", stop.id)
+      ),
+    ]);
+    setSaving(false);
+
+    const failed = results.find((r) => r.error);
+    if (failed?.error) {
+      toast({ title: "Error", description: failed.error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Success", description: "Stop order and ETAs saved" });
+    }
+    onSaved();
+  };
+
+  const handleReset = () => {
+    setOrder(savedOrder);
+    setTiming(timingFromRoute(route));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="route-start-time" className="text-xs">Start time</Label>
+          <Input
+            id="route-start-time"
+            type="time"
+            className="h-9"
+            value={timing.startTime}
+            onChange={(e) => setTiming({ ...timing, startTime: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="route-service" className="text-xs">Min per stop</Label>
+          <Input
+            id="route-service"
+            type="number"
+            min={0}
+            max={60}
+            className="h-9"
+            value={timing.serviceMinutes}
+            onChange={(e) => setTiming({ ...timing, serviceMinutes: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="route-speed" className="text-xs">Speed (km/h)</Label>
+          <Input
+            id="route-speed"
+            type="number"
+            min={1}
+            className="h-9"
+            value={timing.speedKmph}
+            onChange={(e) => setTiming({ ...timing, speedKmph: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="route-depot" className="text-xs">Start point</Label>
+          <Input
+            id="route-depot"
+            className={cn("h-9", depotInvalid && "border-destructive")}
+            value={timing.depot}
+            onChange={(e) => setTiming({ ...timing, depot: e.target.value })}
+            placeholder="lat, lng"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>~{distanceKm.toFixed(1)} km</span>
+          {orderChanged && savedDistanceKm > 0 && (
+            <Badge variant="outline" className="text-xs">
+              saved order {savedDistanceKm.toFixed(1)} km
+            </Badge>
+          )}
+          {locatedCount < orderedStops.length && (
+            <span className="flex items-center gap-1 text-xs text-warning">
+              <MapPinOff className="h-3 w-3" />
+              {orderedStops.length - locatedCount} without location
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleOptimise} disabled={locatedCount < 2}>
+            <Sparkles className="h-4 w-4" /> Optimise
+          </Button>
+          {dirty && (
+            <Button variant="ghost" size="sm" className="gap-2" onClick={handleReset} disabled={saving}>
+              <RotateCcw className="h-4 w-4" /> Reset
+            </Button>
+          )}
+          <Button size="sm" className="gap-2" onClick={handleSave} disabled={!dirty || saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {orderedStops.map((stop, index) => (
+          <div
+            key={stop.id}
+            draggable
+            onDragStart={(e) => {
+              setDragId(stop.id);
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (dragOverId !== stop.id) setDragOverId(stop.id);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragId) moveStop(dragId, stop.id);
+              setDragId(null);
+              setDragOverId(null);
+            }}
+            onDragEnd={() => {
+              setDragId(null);
+              setDragOverId(null);
+            }}
+            className={cn(
+              "flex items-center gap-3 rounded-lg border p-3 bg-background transition-colors",
+              dragId === stop.id && "opacity-50",
+              dragOverId === stop.id && dragId !== stop.id && "border-primary bg-primary/5"
+            )}
+          >
+            <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+            <div className="flex flex-col items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                disabled={index === 0}
+                onClick={() => nudgeStop(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <span className="text-xs font-medium text-muted-foreground">{index + 1}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                disabled={index === orderedStops.length - 1}
+                onClick={() => nudgeStop(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">{stop.customer?.name || "Unknown"}</p>
+              <p className="text-sm text-muted-foreground truncate">
+                {stop.customer?.address || stop.customer?.area || "-"}
+              </p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                ETA {etas[index]}
+                {!toGeoPoint(stop) && <MapPinOff className="h-3 w-3 text-warning" aria-label="No location" />}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" className="text-destructive" onClick={() => onRemoveStop(stop.id)}>
+              Remove
+            </Button>
+          </div>
+        ))}
+        {orderedStops.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No stops added yet</p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <RouteDeliverySheetButton
+          routeName={route.name}
+          stops={orderedStops.map((stop, index) => ({
+            customer_id: stop.customer_id,
+            name: stop.customer?.name || "Unknown",
+            address: stop.customer?.address || stop.customer?.area || null,
+            phone: stop.customer?.phone || null,
+            eta: etas[index],
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { DataTable } from "@/components/common/DataTable";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useFeedCostReport } from "@/hooks/useFeedRations";
+import { ANIMAL_GROUP_LABELS, type FeedCostRow } from "@/lib/feed-ration";
+
+type CostRow = FeedCostRow & { id: string };
+
+const money = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+/**
+ * Feed cost per litre of milk by animal and by group, from feed_consumption
+ * priced at each feed's current cost_per_unit
+ */
+export function FeedCostReport() {
+  const [days, setDays] = useState("30");
+  const { data, isLoading } = useFeedCostReport(Number(days));
+
+  const columns = [
+    {
+      key: "label",
+      header: "Animal",
+      render: (row: CostRow) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.label}</span>
+          {row.group && <span className="text-xs text-muted-foreground">{ANIMAL_GROUP_LABELS[row.group]}</span>}
+        </div>
+      ),
+    },
+    { key: "feed_cost", header: "Feed Cost", render: (row: CostRow) => money(row.feed_cost) },
+    { key: "milk_litres", header: "Milk", render: (row: CostRow) => `${row.milk_litres} L` },
+    {
+      key: "cost_per_litre",
+      header: "Cost / Litre",
+      render: (row: CostRow) => (row.cost_per_litre !== null ? money(row.cost_per_litre) : "-"),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !data ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            {[data.herd, ...data.groups].map((row) => (
+              <Card key={row.key} className={row.key === "herd" ? "border-primary/30" : undefined}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{row.label}</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {row.cost_per_litre !== null ? money(row.cost_per_litre) : "-"}
+                    <span className="text-sm font-normal text-muted-foreground"> /L</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {money(row.feed_cost)} feed · {row.milk_litres} L milk
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">By Animal</CardTitle>
+              <CardDescription>
+                Feed logged without an animal counts towards the whole-herd figure only. Dry stock has feed cost but no
+                milk.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DataTable
+                data={data.animals.map<CostRow>((r) => ({ ...r, id: r.key }))}
+                columns={columns}
+                searchPlaceholder="Search animals..."
+                emptyMessage="No feed or milk recorded in this period"
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { ANIMAL_GROUPS, ANIMAL_GROUP_LABELS, getFeedRole, type AnimalGroup } from "@/lib/feed-ration";
+import type { FeedRation, RationFeed, RationFormData } from "@/hooks/useFeedRations";
+
+interface RationEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ration: FeedRation | null;
+  feeds: RationFeed[];
+  saving: boolean;
+  onSave: (formData: RationFormData) => void;
+}
+
+const emptyItem = { feed_id: "", proportion: "1", fixed_quantity: "" };
+
+function toFormData(ration: FeedRation | null): RationFormData {
+  if (!ration) {
+    return { name: "", animal_group: "lactating", notes: "", items: [{ ...emptyItem }] };
+  }
+  return {
+    name: ration.name,
+    animal_group: ration.animal_group as AnimalGroup,
+    notes: ration.notes || "",
+    items: ration.items.map((i) => ({
+      feed_id: i.feed_id,
+      proportion: i.proportion.toString(),
+      fixed_quantity: i.fixed_quantity?.toString() || "",
+    })),
+  };
+}
+
+/**
+ * Create or edit a ration recipe: the feeds a group eats and their relative
+ * proportions, with optional fixed per-head amounts
+ */
+export function RationEditorDialog({ open, onOpenChange, ration, feeds, saving, onSave }: RationEditorDialogProps) {
+  const [formData, setFormData] = useState<RationFormData>(toFormData(ration));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(ration));
+  }, [open, ration]);
+
+  const updateItem = (index: number, patch: Partial<RationFormData["items"][number]>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    });
+  };
+
+  const canSave = formData.name.trim() && formData.items.some((i) => i.feed_id);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>{ration ? "Edit Ration" : "New Ration"}</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Roughage and concentrate proportions are shares within their kind; the planner decides the split from each
+            animal's needs. Fixed amounts are fed as-is per head.
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} placeholder="e.g., Summer lactating" />
+            </div>
+            <div className="space-y-2">
+              <Label>Group</Label>
+              <Select
+                value={formData.animal_group}
+                onValueChange={(v) => setFormData({ ...formData, animal_group: v as AnimalGroup })}
+                disabled={!!ration}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ANIMAL_GROUPS.map((g) => <SelectItem key={g} value={g}>{ANIMAL_GROUP_LABELS[g]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 text-xs text-muted-foreground">
+              <span>Feed</span>
+              <span>Proportion</span>
+              <span>Fixed kg</span>
+              <span />
+            </div>
+            {formData.items.map((item, index) => {
+              const feed = feeds.find((f) => f.id === item.feed_id);
+              return (
+                <div key={index} className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 items-center">
+                  <Select value={item.feed_id} onValueChange={(v) => updateItem(index, { feed_id: v })}>
+                    <SelectTrigger><SelectValue placeholder="Select feed" /></SelectTrigger>
+                    <SelectContent>
+                      {feeds.map((f) => (
+                        <SelectItem key={f.id} value={f.id}>
+                          {f.name} <span className="text-muted-foreground capitalize">({getFeedRole(f.category)})</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={item.proportion}
+                    onChange={(e) => updateItem(index, { proportion: e.target.value })}
+                    disabled={!!item.fixed_quantity}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.fixed_quantity}
+                    onChange={(e) => updateItem(index, { fixed_quantity: e.target.value })}
+                    placeholder={feed && getFeedRole(feed.category) === "supplement" ? "0.05" : ""}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData({ ...formData, items: [...formData.items, { ...emptyItem }] })}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add Feed
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Ration
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
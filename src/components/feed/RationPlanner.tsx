@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { DataTable } from "@/components/common/DataTable";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ClipboardList, Loader2, Pencil, Plus } from "lucide-react";
+import { useFeedRations, type FeedRation } from "@/hooks/useFeedRations";
+import { RationEditorDialog } from "@/components/feed/RationEditorDialog";
+import { ANIMAL_GROUPS, ANIMAL_GROUP_LABELS, type AnimalRationPlan } from "@/lib/feed-ration";
+import { BCS_BAND_LABELS, formatBcs, getBcsBand } from "@/lib/body-condition";
+import { cn } from "@/lib/utils";
+
+type PlanRow = AnimalRationPlan & { id: string };
+
+/** Supplied below this share of the requirement is shown as a shortfall */
+const SHORTFALL_RATIO = 0.95;
+
+/**
+ * Ration recipes per group and the per-animal quantities they work out to,
+ * with a button to post the day's feeding to feed_consumption
+ */
+export function RationPlanner() {
+  const { rations, feeds, plans, isLoading, saveRation, activateRation, recordConsumption, isSaving, isRecording } =
+    useFeedRations();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<FeedRation | null>(null);
+  const [feedDate, setFeedDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  const feedName = new Map(feeds.map((f) => [f.id, f.name]));
+  const rows: PlanRow[] = plans.map((p) => ({ ...p, id: p.cattle_id }));
+
+  const columns = [
+    {
+      key: "label",
+      header: "Animal",
+      render: (row: PlanRow) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.label}</span>
+          <span className="text-xs text-muted-foreground">{ANIMAL_GROUP_LABELS[row.group]}</span>
+        </div>
+      ),
+    },
+    {
+      key: "planned_weight",
+      header: "Weight",
+      render: (row: PlanRow) => (
+        <div className="flex flex-col">
+          <span className={cn(!row.weight && "text-muted-foreground")}>
+            {row.planned_weight} kg{!row.weight && " (est.)"}
+          </span>
+          {row.body_condition_score !== null && (
+            <span
+              className={cn("text-xs", getBcsBand(row.body_condition_score) === "ideal" ? "text-muted-foreground" : "text-warning")}
+              title={BCS_BAND_LABELS[getBcsBand(row.body_condition_score)]}
+            >
+              BCS {formatBcs(row.body_condition_score)}
+            </span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "daily_yield",
+      header: "Yield",
+      render: (row: PlanRow) => (row.daily_yield > 0 ? `${row.daily_yield.toFixed(1)} L/day` : "-"),
+    },
+    {
+      key: "plan",
+      header: "Daily Ration",
+      render: (row: PlanRow) =>
+        row.plan ? (
+          <div className="flex flex-wrap gap-1">
+            {row.plan.lines
+              .filter((l) => l.as_fed_kg > 0)
+              .map((l) => (
+                <Badge key={l.feed_id} variant="outline" className="font-normal">
+                  {feedName.get(l.feed_id)} {l.as_fed_kg} kg
+                </Badge>
+              ))}
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">No active ration for group</span>
+        ),
+    },
+    {
+      key: "balance",
+      header: "Nutrients",
+      render: (row: PlanRow) => {
+        if (!row.plan) return "-";
+        const { required, supplied } = row.plan;
+        const short = [
+          supplied.tdn < required.tdn * SHORTFALL_RATIO && "TDN",
+          supplied.cp < required.cp * SHORTFALL_RATIO && "CP",
+          supplied.ca < required.ca * SHORTFALL_RATIO && "Ca",
+          supplied.p < required.p * SHORTFALL_RATIO && "P",
+        ].filter(Boolean);
+        return (
+          <div className="flex flex-col text-xs">
+            <span>DM {supplied.dm.toFixed(1)} kg · CP {(supplied.cp * 1000).toFixed(0)}/{(required.cp * 1000).toFixed(0)} g</span>
+            {short.length > 0 ? (
+              <span className="text-destructive">Short on {short.join(", ")}</span>
+            ) : (
+              <span className="text-success">Requirements met</span>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {ANIMAL_GROUPS.map((group) => {
+          const active = rations.find((r) => r.is_active && r.animal_group === group);
+          const groupPlans = plans.filter((p) => p.group === group);
+          const totalKg = groupPlans.reduce(
+            (sum, p) => sum + (p.plan?.lines.reduce((s, l) => s + l.as_fed_kg, 0) || 0),
+            0
+          );
+          return (
+            <Card key={group}>
+              <CardHeader className="pb-2">
+                <CardDescription>{ANIMAL_GROUP_LABELS[group]} · {groupPlans.length} animals</CardDescription>
+                <CardTitle className="text-base">{active ? active.name : "No ration"}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {active ? `${totalKg.toFixed(1)} kg as fed per day` : "Create a ration to plan this group"}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-lg">Rations</CardTitle>
+            <Button size="sm" onClick={() => { setEditing(null); setDialogOpen(true); }}>
+              <Plus className="mr-1 h-4 w-4" /> New Ration
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No rations yet.</p>
+          ) : (
+            rations.map((ration) => (
+              <div key={ration.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{ration.name}</span>
+                    <Badge variant="secondary">{ANIMAL_GROUP_LABELS[ration.animal_group as keyof typeof ANIMAL_GROUP_LABELS]}</Badge>
+                    {ration.is_active && <Badge className="bg-success/10 text-success border-success/20" variant="outline">Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {ration.items
+                      .map((i) => `${feedName.get(i.feed_id) || "Feed"} ${i.fixed_quantity !== null ? `${i.fixed_quantity} kg` : `×${i.proportion}`}`)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  {!ration.is_active && (
+                    <Button variant="outline" size="sm" onClick={() => activateRation(ration)}>Activate</Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => { setEditing(ration); setDialogOpen(true); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-lg">Per-Animal Plan</CardTitle>
+              <CardDescription>From body weight and the last 7 days' yield</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={feedDate} onChange={(e) => setFeedDate(e.target.value)} className="w-40" />
+              <Button
+                size="sm"
+                onClick={() => recordConsumption(feedDate)}
+                disabled={isRecording || !plans.some((p) => p.plan)}
+              >
+                {isRecording ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-1 h-4 w-4" />}
+                Record Feeding
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable data={rows} columns={columns} searchPlaceholder="Search animals..." emptyMessage="No active cattle" />
+          <p className="mt-2 text-xs text-muted-foreground">
+            Recording again for the same date replaces that day's planned entries and corrects stock.
+          </p>
+        </CardContent>
+      </Card>
+
+      <RationEditorDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        ration={editing}
+        feeds={feeds}
+        saving={isSaving}
+        onSave={(formData) => saveRation({ id: editing?.id, formData }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </div>
+  );
+}
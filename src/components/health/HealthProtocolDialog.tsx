@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { MONTH_LABELS, PROTOCOL_SCHEDULES, SCHEDULE_LABELS, type HealthProtocol, type ProtocolSchedule } from "@/lib/health-protocols";
+import type { ProtocolFormData } from "@/hooks/useHealthProtocols";
+
+interface HealthProtocolDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  protocol: HealthProtocol | null;
+  saving: boolean;
+  onSave: (formData: ProtocolFormData) => void;
+}
+
+const text = (value: number | null) => (value === null ? "" : value.toString());
+
+function toFormData(protocol: HealthProtocol | null): ProtocolFormData {
+  return {
+    name: protocol?.name || "",
+    record_type: protocol?.record_type || "vaccination",
+    schedule_type: (protocol?.schedule_type as ProtocolSchedule) || "interval",
+    offset_days: text(protocol?.offset_days ?? null),
+    interval_days: text(protocol?.interval_days ?? null),
+    season_month: text(protocol?.season_month ?? null),
+    season_day: text(protocol?.season_day ?? null),
+    min_age_days: text(protocol?.min_age_days ?? null),
+    max_age_days: text(protocol?.max_age_days ?? null),
+    cattle_type: protocol?.cattle_type || "all",
+    lead_days: text(protocol?.lead_days ?? 7),
+    match_keyword: protocol?.match_keyword || "",
+    notes: protocol?.notes || "",
+  };
+}
+
+/**
+ * Create or edit a herd-health protocol and its schedule
+ */
+export function HealthProtocolDialog({ open, onOpenChange, protocol, saving, onSave }: HealthProtocolDialogProps) {
+  const [formData, setFormData] = useState<ProtocolFormData>(toFormData(protocol));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(protocol));
+  }, [open, protocol]);
+
+  const set = (patch: Partial<ProtocolFormData>) => setFormData({ ...formData, ...patch });
+  const schedule = formData.schedule_type;
+
+  const canSave =
+    formData.name.trim() &&
+    (schedule !== "interval" || parseInt(formData.interval_days) > 0) &&
+    (schedule !== "seasonal" || (formData.season_month && parseInt(formData.season_day) > 0)) &&
+    ((schedule !== "age" && schedule !== "calving") || formData.offset_days !== "");
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>{protocol ? "Edit Protocol" : "New Protocol"}</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Animals fall due from their birth date, calvings and previous health records.
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input value={formData.name} onChange={(e) => set({ name: e.target.value })} placeholder="e.g., FMD Vaccination" />
+            </div>
+            <div className="space-y-2">
+              <Label>Record Type</Label>
+              <Select value={formData.record_type} onValueChange={(v) => set({ record_type: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vaccination">Vaccination</SelectItem>
+                  <SelectItem value="deworming">Deworming</SelectItem>
+                  <SelectItem value="checkup">Checkup</SelectItem>
+                  <SelectItem value="treatment">Treatment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Schedule</Label>
+              <Select value={schedule} onValueChange={(v) => set({ schedule_type: v as ProtocolSchedule })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PROTOCOL_SCHEDULES.map((s) => <SelectItem key={s} value={s}>{SCHEDULE_LABELS[s]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={formData.cattle_type} onValueChange={(v) => set({ cattle_type: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All animals</SelectItem>
+                  <SelectItem value="cow">Cows</SelectItem>
+                  <SelectItem value="buffalo">Buffaloes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            {schedule === "interval" && (
+              <div className="space-y-2">
+                <Label>Every (days) *</Label>
+                <Input type="number" min="1" value={formData.interval_days} onChange={(e) => set({ interval_days: e.target.value })} placeholder="180" />
+              </div>
+            )}
+            {(schedule === "age" || schedule === "calving") && (
+              <div className="space-y-2">
+                <Label>{schedule === "age" ? "At age (days) *" : "Days after calving *"}</Label>
+                <Input type="number" min="0" value={formData.offset_days} onChange={(e) => set({ offset_days: e.target.value })} />
+              </div>
+            )}
+            {schedule === "seasonal" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Month *</Label>
+                  <Select value={formData.season_month} onValueChange={(v) => set({ season_month: v })}>
+                    <SelectTrigger><SelectValue placeholder="Month" /></SelectTrigger>
+                    <SelectContent>
+                      {MONTH_LABELS.map((m, i) => <SelectItem key={m} value={(i + 1).toString()}>{m}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Day *</Label>
+                  <Input type="number" min="1" max="31" value={formData.season_day} onChange={(e) => set({ season_day: e.target.value })} />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Remind (days before)</Label>
+              <Input type="number" min="0" value={formData.lead_days} onChange={(e) => set({ lead_days: e.target.value })} />
+            </div>
+          </div>
+
+          {schedule !== "calving" && (
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>Min age (days)</Label>
+                <Input type="number" min="0" value={formData.min_age_days} onChange={(e) => set({ min_age_days: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Max age (days)</Label>
+                <Input type="number" min="0" value={formData.max_age_days} onChange={(e) => set({ max_age_days: e.target.value })} placeholder="No limit" />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Match earlier records by title</Label>
+            <Input value={formData.match_keyword} onChange={(e) => set({ match_keyword: e.target.value })} placeholder="e.g., FMD|foot and mouth" />
+            <p className="text-xs text-muted-foreground">
+              Health records whose title contains one of these words (separated by |) count as done.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Protocol
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pencil, Plus } from "lucide-react";
+import { useHealthProtocols } from "@/hooks/useHealthProtocols";
+import { HealthProtocolDialog } from "@/components/health/HealthProtocolDialog";
+import { MONTH_LABELS, SCHEDULE_LABELS, type HealthProtocol, type ProtocolSchedule } from "@/lib/health-protocols";
+
+function describeSchedule(p: HealthProtocol) {
+  const parts: string[] = [];
+  switch (p.schedule_type as ProtocolSchedule) {
+    case "interval":
+      parts.push(`Every ${p.interval_days} days`);
+      break;
+    case "seasonal":
+      parts.push(`Yearly by ${p.season_day} ${MONTH_LABELS[(p.season_month || 1) - 1]}`);
+      break;
+    case "age":
+      parts.push(`Once at ${p.offset_days} days old`);
+      break;
+    case "calving":
+      parts.push(`${p.offset_days} days after calving`);
+      break;
+  }
+  if (p.min_age_days !== null && p.max_age_days !== null) parts.push(`ages ${p.min_age_days}–${p.max_age_days} days`);
+  else if (p.min_age_days !== null) parts.push(`from ${p.min_age_days} days old`);
+  else if (p.max_age_days !== null) parts.push(`up to ${p.max_age_days} days old`);
+  if (p.cattle_type) parts.push(`${p.cattle_type} only`);
+  return parts.join(" · ");
+}
+
+/**
+ * The herd-health protocols in use, with create, edit and on/off
+ */
+export function HealthProtocolsPanel() {
+  const { protocols, isLoading, saveProtocol, toggleProtocol, isSaving } = useHealthProtocols();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<HealthProtocol | null>(null);
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg">Protocols</CardTitle>
+          <Button size="sm" onClick={() => { setEditing(null); setDialogOpen(true); }}>
+            <Plus className="mr-1 h-4 w-4" /> New Protocol
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {protocols.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No protocols yet.</p>
+        ) : (
+          protocols.map((protocol) => (
+            <div key={protocol.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{protocol.name}</span>
+                  <Badge variant="secondary" className="capitalize">{protocol.record_type}</Badge>
+                  <Badge variant="outline">{SCHEDULE_LABELS[protocol.schedule_type as ProtocolSchedule]}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{describeSchedule(protocol)}</p>
+                {protocol.notes && <p className="text-xs text-muted-foreground">{protocol.notes}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={protocol.is_active}
+                  onCheckedChange={(checked) => toggleProtocol({ id: protocol.id, is_active: checked })}
+                />
+                <Button variant="ghost" size="sm" onClick={() => { setEditing(protocol); setDialogOpen(true); }}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <HealthProtocolDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        protocol={editing}
+        saving={isSaving}
+        onSave={(formData) => saveProtocol({ id: editing?.id, formData }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
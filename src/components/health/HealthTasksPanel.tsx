@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { DataTable } from "@/components/common/DataTable";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle2 } from "lucide-react";
+import { useHealthProtocolTasks } from "@/hooks/useHealthProtocols";
+import { summarizeCompliance, type HealthProtocol, type HealthTask, type ScheduleAnimal } from "@/lib/health-protocols";
+import { cn } from "@/lib/utils";
+
+type TaskRow = HealthTask & { id: string };
+
+interface HealthTasksPanelProps {
+  onComplete: (task: HealthTask, protocol: HealthProtocol, animal: ScheduleAnimal) => void;
+}
+
+const statusStyles: Record<HealthTask["status"], string> = {
+  overdue: "bg-destructive/10 text-destructive border-destructive/20",
+  due: "bg-warning/10 text-warning border-warning/20",
+  upcoming: "bg-info/10 text-info border-info/20",
+};
+
+function describeDue(task: HealthTask) {
+  if (task.days_until === 0) return "Due today";
+  if (task.days_until > 0) return `In ${task.days_until} days`;
+  return task.last_done ? `${-task.days_until} days overdue` : "Never recorded";
+}
+
+/**
+ * Protocol tasks falling due across the herd, with per-animal overdue
+ * compliance and a button to record each one
+ */
+export function HealthTasksPanel({ onComplete }: HealthTasksPanelProps) {
+  const { data, isLoading } = useHealthProtocolTasks();
+  const [statusFilter, setStatusFilter] = useState("open");
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const { tasks, protocols, animals } = data;
+  const compliance = summarizeCompliance(tasks);
+  const overdueAnimals = compliance.filter((c) => c.overdue.length > 0);
+  const protocolById = new Map(protocols.map((p) => [p.id, p]));
+  const animalById = new Map(animals.map((a) => [a.cattle_id, a]));
+
+  const rows: TaskRow[] = tasks
+    .filter((t) => (statusFilter === "open" ? t.status !== "upcoming" : statusFilter === "all" || t.status === statusFilter))
+    .map((t) => ({ ...t, id: t.key }));
+
+  const columns = [
+    {
+      key: "tag_number",
+      header: "Cattle",
+      render: (row: TaskRow) => (
+        <span className="font-medium text-primary">
+          {row.tag_number} {row.name && `(${row.name})`}
+        </span>
+      ),
+    },
+    { key: "protocol_name", header: "Protocol", render: (row: TaskRow) => row.protocol_name },
+    {
+      key: "due_date",
+      header: "Due",
+      render: (row: TaskRow) => (
+        <div className="flex flex-col">
+          <span>{format(parseISO(row.due_date), "dd MMM yyyy")}</span>
+          <span className={cn("text-xs", row.status === "overdue" ? "text-destructive" : "text-muted-foreground")}>
+            {describeDue(row)}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "last_done",
+      header: "Last Done",
+      render: (row: TaskRow) => (row.last_done ? format(parseISO(row.last_done), "dd MMM yyyy") : "-"),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (row: TaskRow) => (
+        <Badge variant="outline" className={cn("capitalize", statusStyles[row.status])}>{row.status}</Badge>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (row: TaskRow) => {
+        const protocol = protocolById.get(row.protocol_id);
+        const animal = animalById.get(row.cattle_id);
+        if (!protocol || !animal) return null;
+        return (
+          <Button variant="outline" size="sm" onClick={() => onComplete(row, protocol, animal)}>
+            <CheckCircle2 className="mr-1 h-4 w-4" /> Complete
+          </Button>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card className="border-destructive/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-destructive">{tasks.filter((t) => t.status === "overdue").length}</div><p className="text-sm text-muted-foreground">Overdue across {overdueAnimals.length} animals</p></CardContent></Card>
+        <Card className="border-warning/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-warning">{tasks.filter((t) => t.status === "due").length}</div><p className="text-sm text-muted-foreground">Due Now</p></CardContent></Card>
+        <Card className="border-info/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-info">{tasks.filter((t) => t.status === "upcoming").length}</div><p className="text-sm text-muted-foreground">Coming Up (30 days)</p></CardContent></Card>
+      </div>
+
+      {overdueAnimals.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Overdue by Animal</CardTitle>
+            <CardDescription>Animals behind on their protocol schedule</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {overdueAnimals.map((c) => (
+              <div key={c.cattle_id} className="rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm">
+                <span className="font-medium">{c.tag_number}</span>
+                {c.name && <span className="text-muted-foreground"> ({c.name})</span>}
+                <span className="text-destructive"> · {c.overdue.map((t) => t.protocol_name).join(", ")}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs value={statusFilter} onValueChange={setStatusFilter}>
+        <TabsList><TabsTrigger value="open">Overdue & Due</TabsTrigger><TabsTrigger value="overdue">Overdue</TabsTrigger><TabsTrigger value="upcoming">Upcoming</TabsTrigger><TabsTrigger value="all">All</TabsTrigger></TabsList>
+      </Tabs>
+
+      <DataTable data={rows} columns={columns} searchPlaceholder="Search by cattle, protocol..." emptyMessage="No protocol tasks due" />
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronDown, ChevronUp, FlaskConical, Plus } from "lucide-react";
+import { useMastitisRisk, useSaveQualityTest } from "@/hooks/useMilkQuality";
+import { MilkQualityTestDialog } from "@/components/health/MilkQualityTestDialog";
+import { QuarterHistory } from "@/components/health/QuarterHistory";
+import { formatScc, type RiskLevel } from "@/lib/mastitis-risk";
+import { cn } from "@/lib/utils";
+
+interface MastitisRiskPanelProps {
+  /** Only list cows at high risk */
+  highRiskOnly?: boolean;
+}
+
+const levelStyles: Record<RiskLevel, string> = {
+  high: "bg-destructive/10 text-destructive border-destructive/20",
+  moderate: "bg-warning/10 text-warning border-warning/20",
+  low: "bg-success/10 text-success border-success/20",
+};
+
+/**
+ * Lactating cows ranked by mastitis risk, with what drives each score and
+ * the quarter-level test history
+ */
+export function MastitisRiskPanel({ highRiskOnly = false }: MastitisRiskPanelProps) {
+  const { data: cows = [], isLoading } = useMastitisRisk();
+  const saveTest = useSaveQualityTest();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [testCattleId, setTestCattleId] = useState<string | undefined>();
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+
+  const listed = highRiskOnly ? cows.filter((c) => c.risk.level === "high") : cows;
+  const openTest = (cattleId?: string) => {
+    setTestCattleId(cattleId);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            {highRiskOnly ? "High Mastitis Risk" : "Mastitis Risk"}
+          </CardTitle>
+          <CardDescription>From cell counts, quarter tests, yield drops and past treatments</CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => openTest()}>
+          <Plus className="mr-1 h-4 w-4" /> Test
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {listed.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {highRiskOnly ? "No cows at high risk" : "No lactating cows"}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {listed.map((cow) => (
+              <div key={cow.cattle_id} className="rounded-lg border">
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-primary">
+                        {cow.tag_number} {cow.name && `(${cow.name})`}
+                      </span>
+                      <Badge variant="outline" className={cn("capitalize", levelStyles[cow.risk.level])}>
+                        {cow.risk.score} · {cow.risk.level}
+                      </Badge>
+                      {cow.risk.suspect_quarters.length > 0 && (
+                        <Badge variant="outline">{cow.risk.suspect_quarters.join(", ")}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {cow.risk.factors.length > 0
+                        ? cow.risk.factors.map((f) => f.label).join(" · ")
+                        : cow.risk.latest_scc !== null
+                          ? `SCC ${formatScc(cow.risk.latest_scc)}`
+                          : "No warning signs"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openTest(cow.cattle_id)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpanded(expanded === cow.cattle_id ? null : cow.cattle_id)}
+                    >
+                      History
+                      {expanded === cow.cattle_id ? <ChevronUp className="ml-1 h-4 w-4" /> : <ChevronDown className="ml-1 h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+                {expanded === cow.cattle_id && (
+                  <div className="border-t px-3 pb-3">
+                    <QuarterHistory tests={cow.tests} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <MilkQualityTestDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        cattle={cows.map((c) => ({ id: c.cattle_id, tag_number: c.tag_number, name: c.name }))}
+        cattleId={testCattleId}
+        saving={saveTest.isPending}
+        onSave={(formData) => saveTest.mutate(formData, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
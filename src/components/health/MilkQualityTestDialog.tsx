@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { QualityTestFormData, QuarterFormData } from "@/hooks/useMilkQuality";
+import { CMT_LABELS, CMT_SCORES, QUARTERS, QUARTER_LABELS, type Quarter } from "@/lib/mastitis-risk";
+
+interface MilkQualityTestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cattle: { id: string; tag_number: string; name: string | null }[];
+  cattleId?: string;
+  saving: boolean;
+  onSave: (formData: QualityTestFormData) => void;
+}
+
+const emptyQuarter: QuarterFormData = { cmt_score: "", conductivity: "", clots: false };
+
+function toFormData(cattleId: string): QualityTestFormData {
+  return {
+    cattle_id: cattleId,
+    test_date: format(new Date(), "yyyy-MM-dd"),
+    session: "morning",
+    somatic_cell_count: "",
+    notes: "",
+    quarters: { LF: { ...emptyQuarter }, RF: { ...emptyQuarter }, LR: { ...emptyQuarter }, RR: { ...emptyQuarter } },
+  };
+}
+
+/**
+ * Record a cow's somatic cell count and the CMT, conductivity and clot
+ * check of each quarter
+ */
+export function MilkQualityTestDialog({ open, onOpenChange, cattle, cattleId, saving, onSave }: MilkQualityTestDialogProps) {
+  const [formData, setFormData] = useState<QualityTestFormData>(toFormData(cattleId || ""));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(cattleId || ""));
+  }, [open, cattleId]);
+
+  const set = (patch: Partial<QualityTestFormData>) => setFormData({ ...formData, ...patch });
+  const setQuarter = (quarter: Quarter, patch: Partial<QuarterFormData>) =>
+    set({ quarters: { ...formData.quarters, [quarter]: { ...formData.quarters[quarter], ...patch } } });
+
+  const hasResult =
+    formData.somatic_cell_count !== "" ||
+    QUARTERS.some((q) => formData.quarters[q].cmt_score || formData.quarters[q].conductivity || formData.quarters[q].clots);
+  const canSave = formData.cattle_id && formData.test_date && hasResult;
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Milk Quality Test</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>Somatic cell count and a quarter-by-quarter check</ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="space-y-2">
+            <Label>Cow *</Label>
+            <Select value={formData.cattle_id} onValueChange={(v) => set({ cattle_id: v })}>
+              <SelectTrigger><SelectValue placeholder="Select cow" /></SelectTrigger>
+              <SelectContent>
+                {cattle.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.tag_number} {c.name && `(${c.name})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-4 grid-cols-3">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.test_date} onChange={(e) => set({ test_date: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Session</Label>
+              <Select value={formData.session} onValueChange={(v) => set({ session: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="morning">Morning</SelectItem>
+                  <SelectItem value="evening">Evening</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>SCC (cells/mL)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="1000"
+                value={formData.somatic_cell_count}
+                onChange={(e) => set({ somatic_cell_count: e.target.value })}
+                placeholder="e.g., 150000"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Quarter</span>
+              <span>CMT</span>
+              <span>Conductivity (mS/cm)</span>
+              <span>Clots</span>
+            </div>
+            {QUARTERS.map((quarter) => (
+              <div key={quarter} className="grid grid-cols-[1fr_1fr_1fr_auto] items-center gap-2">
+                <span className="text-sm">{QUARTER_LABELS[quarter]}</span>
+                <Select
+                  value={formData.quarters[quarter].cmt_score || "none"}
+                  onValueChange={(v) => setQuarter(quarter, { cmt_score: v === "none" ? "" : v })}
+                >
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not tested</SelectItem>
+                    {CMT_SCORES.map((score) => (
+                      <SelectItem key={score} value={score}>{score} · {CMT_LABELS[score]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  className="h-9"
+                  value={formData.quarters[quarter].conductivity}
+                  onChange={(e) => setQuarter(quarter, { conductivity: e.target.value })}
+                />
+                <Checkbox
+                  className="mx-auto"
+                  checked={formData.quarters[quarter].clots}
+                  onCheckedChange={(checked) => setQuarter(quarter, { clots: checked === true })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { format, parseISO } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { QUARTERS, findSuspectQuarters, formatScc, SCC_SUBCLINICAL, type QualityTest } from "@/lib/mastitis-risk";
+import { cn } from "@/lib/utils";
+
+interface QuarterHistoryProps {
+  tests: QualityTest[];
+}
+
+/**
+ * One row per test with the cell count and each quarter's CMT,
+ * conductivity and clots; suspect quarters are highlighted
+ */
+export function QuarterHistory({ tests }: QuarterHistoryProps) {
+  if (tests.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No quality tests recorded.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead className="text-right">SCC</TableHead>
+          {QUARTERS.map((q) => (
+            <TableHead key={q} className="text-center">{q}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tests.map((test) => {
+          const suspect = findSuspectQuarters(test.quarters);
+          return (
+            <TableRow key={test.id}>
+              <TableCell className="whitespace-nowrap">{format(parseISO(test.test_date), "dd MMM yyyy")}</TableCell>
+              <TableCell
+                className={cn(
+                  "text-right",
+                  test.somatic_cell_count !== null && test.somatic_cell_count >= SCC_SUBCLINICAL && "font-semibold text-destructive"
+                )}
+              >
+                {test.somatic_cell_count !== null ? formatScc(test.somatic_cell_count) : "-"}
+              </TableCell>
+              {QUARTERS.map((q) => {
+                const result = test.quarters.find((r) => r.quarter === q);
+                return (
+                  <TableCell
+                    key={q}
+                    className={cn("text-center text-xs", suspect.includes(q) && "bg-destructive/10 font-semibold text-destructive")}
+                  >
+                    {result ? (
+                      <div className="flex flex-col">
+                        <span>{result.cmt_score ?? "-"}</span>
+                        {result.conductivity !== null && <span className="text-muted-foreground">{result.conductivity} mS</span>}
+                        {result.clots && <span>Clots</span>}
+                      </div>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -27,6 +27,8 @@ import {
   DollarSign,
   Activity,
   Bell,
+  Landmark,
+  Factory,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -48,6 +50,7 @@ const allNavItems: NavItem[] = [
   { title: "Cattle", href: "/cattle", icon: Beef, section: "cattle" },
   { title: "Milk Production", href: "/production", icon: Droplets, section: "production" },
   { title: "Milk Procurement", href: "/milk-procurement", icon: Milk, section: "production" },
+  { title: "Dairy Processing", href: "/processing", icon: Factory, section: "production" },
   { title: "Products", href: "/products", icon: Milk, section: "main" },
   { title: "Customers", href: "/customers", icon: Users, section: "customers" },
   { title: "Deliveries", href: "/deliveries", icon: Truck, section: "deliveries" },
@@ -60,6 +63,7 @@ const allNavItems: NavItem[] = [
   { title: "Equipment", href: "/equipment", icon: Wrench, section: "inventory" },
   { title: "Expenses", href: "/expenses", icon: Wallet, section: "expenses" },
   { title: "Price Rules", href: "/price-rules", icon: DollarSign, section: "billing" },
+  { title: "Reconciliation", href: "/reconciliation", icon: Landmark, section: "billing" },
   { title: "Reports", href: "/reports", icon: BarChart3, section: "reports" },
   { title: "Employees", href: "/employees", icon: UsersRound, section: "employees" },
   { title: "User Management", href: "/users", icon: UsersRound, section: "users" },
@@ -7,10 +7,12 @@ import {
   Weight, 
   ChevronRight,
   Stethoscope,
-  Baby
+  Baby,
+  Scale
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
+import { formatBcs } from "@/lib/body-condition";
 
 interface MobileCattleCardProps {
   tagNumber: string;
@@ -20,10 +22,12 @@ interface MobileCattleCardProps {
   lactationStatus?: string;
   lastProduction?: number;
   weight?: number;
+  bodyConditionScore?: number;
   expectedCalving?: string;
   onViewDetails?: () => void;
   onAddProduction?: () => void;
   onAddHealth?: () => void;
+  onAddWeight?: () => void;
 }
 
 const statusColors: Record<string, string> = {
@@ -48,10 +52,12 @@ export function MobileCattleCard({
   lactationStatus,
   lastProduction,
   weight,
+  bodyConditionScore,
   expectedCalving,
   onViewDetails,
   onAddProduction,
   onAddHealth,
+  onAddWeight,
 }: MobileCattleCardProps) {
   return (
     <Card className="overflow-hidden">
@@ -85,10 +91,14 @@ export function MobileCattleCard({
               <span>{lastProduction}L</span>
             </div>
           )}
-          {weight && (
+          {(weight || bodyConditionScore) && (
             <div className="flex items-center gap-2 text-sm">
               <Weight className="h-4 w-4 text-success" />
-              <span>{weight}kg</span>
+              <span>
+                {weight ? `${weight}kg` : ""}
+                {weight && bodyConditionScore ? " · " : ""}
+                {bodyConditionScore ? `BCS ${formatBcs(bodyConditionScore)}` : ""}
+              </span>
             </div>
           )}
           {expectedCalving && (
@@ -123,6 +133,17 @@ export function MobileCattleCard({
               Health
             </Button>
           )}
+          {onAddWeight && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={onAddWeight}
+            >
+              <Scale className="h-4 w-4 mr-2" />
+              Weigh
+            </Button>
+          )}
           {onViewDetails && (
             <Button
               variant="ghost"
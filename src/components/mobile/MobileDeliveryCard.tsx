@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { 
   CheckCircle, 
   XCircle, 
@@ -10,14 +11,28 @@ import {
   Phone, 
   ChevronDown, 
   ChevronUp,
-  Package
+  Package,
+  Minus,
+  Plus,
+  CloudOff,
+  AlertTriangle,
+  Undo2,
+  Palmtree
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface DeliveryItem {
+  id?: string;
   product_name: string;
   quantity: number;
   unit_price: number;
+  unit?: string | null;
+}
+
+interface BottleBalance {
+  bottle_id: string;
+  bottle_label: string;
+  quantity_pending: number;
 }
 
 interface MobileDeliveryCardProps {
@@ -28,10 +43,17 @@ interface MobileDeliveryCardProps {
   status: string;
   items?: DeliveryItem[];
   bottlesPending?: number;
+  bottles?: BottleBalance[];
+  onVacation?: boolean;
+  syncState?: "pending" | "conflict";
   onStatusChange?: (status: string) => void;
+  onQuantityChange?: (itemId: string, quantity: number) => void;
+  onBottleReturn?: (bottleId: string, quantity: number) => void;
   onCall?: () => void;
 }
 
+const QUANTITY_STEP = 0.5;
+
 const statusConfig: Record<string, { color: string; icon: any; label: string }> = {
   pending: { color: "bg-warning", icon: Clock, label: "Pending" },
   delivered: { color: "bg-success", icon: CheckCircle, label: "Delivered" },
@@ -47,10 +69,16 @@ export function MobileDeliveryCard({
   status,
   items = [],
   bottlesPending = 0,
+  bottles = [],
+  onVacation = false,
+  syncState,
   onStatusChange,
+  onQuantityChange,
+  onBottleReturn,
   onCall,
 }: MobileDeliveryCardProps) {
   const [expanded, setExpanded] = useState(false);
+  const [returnCounts, setReturnCounts] = useState<Record<string, string>>({});
   const statusInfo = statusConfig[status] || statusConfig.pending;
   const StatusIcon = statusInfo.icon;
 
@@ -66,6 +94,12 @@ export function MobileDeliveryCard({
                 <MapPin className="h-3.5 w-3.5 shrink-0" />
                 <span className="truncate">{address || area || "No address"}</span>
               </div>
+              {onVacation && (
+                <div className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
+                  <Palmtree className="h-3.5 w-3.5" />
+                  <span>On vacation</span>
+                </div>
+              )}
               {bottlesPending > 0 && (
                 <div className="flex items-center gap-1 text-sm text-orange-600 mt-1">
                   <Package className="h-3.5 w-3.5" />
@@ -73,10 +107,24 @@ export function MobileDeliveryCard({
                 </div>
               )}
             </div>
-            <Badge className={cn(statusInfo.color, "text-white shrink-0")}>
-              <StatusIcon className="h-3 w-3 mr-1" />
-              {statusInfo.label}
-            </Badge>
+            <div className="flex flex-col items-end gap-1 shrink-0">
+              <Badge className={cn(statusInfo.color, "text-white")}>
+                <StatusIcon className="h-3 w-3 mr-1" />
+                {statusInfo.label}
+              </Badge>
+              {syncState === "pending" && (
+                <Badge variant="outline" className="text-xs text-muted-foreground">
+                  <CloudOff className="h-3 w-3 mr-1" />
+                  Not synced
+                </Badge>
+              )}
+              {syncState === "conflict" && (
+                <Badge variant="outline" className="text-xs text-destructive border-destructive">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Conflict
+                </Badge>
+              )}
+            </div>
           </div>
 
           {/* Quick Actions */}
@@ -122,15 +170,81 @@ export function MobileDeliveryCard({
                 <p className="text-sm font-medium mb-2">Items to Deliver</p>
                 <div className="space-y-2">
                   {items.map((item, idx) => (
-                    <div key={idx} className="flex justify-between text-sm">
-                      <span>{item.product_name}</span>
-                      <span className="font-medium">{item.quantity} × ₹{item.unit_price}</span>
+                    <div key={item.id || idx} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">{item.product_name}</span>
+                      {onQuantityChange && item.id ? (
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                            disabled={item.quantity <= 0}
+                            onClick={() => onQuantityChange(item.id!, Math.max(0, item.quantity - QUANTITY_STEP))}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="w-12 text-center font-medium">
+                            {item.quantity}{item.unit ? ` ${item.unit}` : ""}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onQuantityChange(item.id!, item.quantity + QUANTITY_STEP)}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="font-medium">{item.quantity} × ₹{item.unit_price}</span>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
 
+            {/* Bottle Returns */}
+            {onBottleReturn && bottles.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Bottle Returns</p>
+                <div className="space-y-2">
+                  {bottles.map((bottle) => {
+                    const count = returnCounts[bottle.bottle_id] || "";
+                    const qty = parseInt(count) || 0;
+                    return (
+                      <div key={bottle.bottle_id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 truncate">
+                          {bottle.bottle_label}
+                          <span className="text-muted-foreground"> · {bottle.quantity_pending} pending</span>
+                        </span>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={1}
+                          max={bottle.quantity_pending}
+                          value={count}
+                          onChange={(e) => setReturnCounts({ ...returnCounts, [bottle.bottle_id]: e.target.value })}
+                          className="h-8 w-16"
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={qty <= 0 || qty > bottle.quantity_pending}
+                          onClick={() => {
+                            onBottleReturn(bottle.bottle_id, qty);
+                            setReturnCounts({ ...returnCounts, [bottle.bottle_id]: "" });
+                          }}
+                        >
+                          Return
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Status Update Buttons */}
             {onStatusChange && status === "pending" && (
               <div className="flex gap-2">
@@ -162,6 +276,17 @@ export function MobileDeliveryCard({
                 </Button>
               </div>
             )}
+            {onStatusChange && status !== "pending" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-full"
+                onClick={() => onStatusChange("pending")}
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
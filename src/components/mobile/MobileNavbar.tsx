@@ -2,6 +2,7 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useCapacitor } from "@/hooks/useCapacitor";
+import { useOfflineDeliveries } from "@/hooks/useOfflineDeliveries";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -32,6 +33,11 @@ import {
   Wrench,
   Sun,
   Moon,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle,
+  Landmark,
+  Factory,
 } from "lucide-react";
 import {
   Sheet,
@@ -73,6 +79,7 @@ const allMenuItems: NavItem[] = [
   { title: "Cattle", href: "/cattle", icon: Beef, section: "cattle" },
   { title: "Milk Production", href: "/production", icon: Droplets, section: "production" },
   { title: "Milk Procurement", href: "/milk-procurement", icon: Milk, section: "production" },
+  { title: "Dairy Processing", href: "/processing", icon: Factory, section: "production" },
   { title: "Products", href: "/products", icon: Milk, section: "main" },
   { title: "Customers", href: "/customers", icon: Users, section: "customers" },
   { title: "Deliveries", href: "/deliveries", icon: Truck, section: "deliveries" },
@@ -85,6 +92,7 @@ const allMenuItems: NavItem[] = [
   { title: "Equipment", href: "/equipment", icon: Wrench, section: "inventory" },
   { title: "Expenses", href: "/expenses", icon: Wallet, section: "expenses" },
   { title: "Price Rules", href: "/price-rules", icon: DollarSign, section: "billing" },
+  { title: "Reconciliation", href: "/reconciliation", icon: Landmark, section: "billing" },
   { title: "Reports", href: "/reports", icon: BarChart3, section: "reports" },
   { title: "Employees", href: "/employees", icon: UsersRound, section: "employees" },
   { title: "User Management", href: "/users", icon: UsersRound, section: "users" },
@@ -121,6 +129,8 @@ export function MobileNavbar() {
   const { hapticSelection, hapticImpact, isNative } = useCapacitor();
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
+  const { pendingCount, conflictCount, isOnline, syncing } = useOfflineDeliveries();
+  const showSyncBar = !isOnline || pendingCount > 0 || conflictCount > 0;
 
   // Get sections this role can access
   const allowedSections = role ? roleSections[role] || [] : [];
@@ -191,6 +201,32 @@ export function MobileNavbar() {
         "bg-background/95 backdrop-blur-lg supports-[backdrop-filter]:bg-background/80",
         "md:hidden mobile-bottom-nav"
       )}>
+        {/* Pending-sync indicator for the offline delivery queue */}
+        {showSyncBar && (
+          <button
+            onClick={() => handleMenuItemClick("/deliveries")}
+            className={cn(
+              "w-full flex items-center justify-center gap-2 py-1 text-[11px] font-medium border-b",
+              conflictCount > 0
+                ? "bg-destructive/10 text-destructive"
+                : "bg-warning/10 text-warning"
+            )}
+          >
+            {conflictCount > 0 ? (
+              <AlertTriangle className="h-3.5 w-3.5" />
+            ) : isOnline ? (
+              <RefreshCw className={cn("h-3.5 w-3.5", syncing && "animate-spin")} />
+            ) : (
+              <CloudOff className="h-3.5 w-3.5" />
+            )}
+            <span>
+              {!isOnline && "Offline"}
+              {!isOnline && pendingCount > 0 && " · "}
+              {pendingCount > 0 && `${pendingCount} change${pendingCount > 1 ? "s" : ""} waiting to sync`}
+              {conflictCount > 0 && `${pendingCount > 0 || !isOnline ? " · " : ""}${conflictCount} conflict${conflictCount > 1 ? "s" : ""}`}
+            </span>
+          </button>
+        )}
         <div className="flex items-center justify-around py-1.5">
           {navItems.slice(0, 4).map((item) => {
             const isActive = location.pathname === item.href;
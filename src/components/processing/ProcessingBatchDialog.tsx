@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type {
+  BatchInputFormData,
+  DairySupply,
+  ProcessedProduct,
+  ProcessingBatchFormData,
+} from "@/hooks/useProcessingBatches";
+import {
+  expectedYieldPercentage,
+  nextBatchNumber,
+  rollupBatchCost,
+  suggestExpiry,
+  yieldPercentage,
+} from "@/lib/dairy-processing";
+import { cn } from "@/lib/utils";
+
+interface ProcessingBatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: ProcessedProduct[];
+  supplies: DairySupply[];
+  milkRate: number;
+  /** Batch numbers already used, to suggest the next one */
+  batchNumbers: string[];
+  saving: boolean;
+  onSave: (formData: ProcessingBatchFormData) => void;
+}
+
+const emptyInput: BatchInputFormData = { feed_id: "", quantity: "" };
+
+function toFormData(milkRate: number): ProcessingBatchFormData {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return {
+    batch_number: "",
+    product_id: "",
+    batch_date: today,
+    milk_liters: "",
+    milk_rate: milkRate > 0 ? String(milkRate) : "",
+    output_quantity: "",
+    manufactured_on: today,
+    expires_on: "",
+    other_cost: "",
+    inputs: [],
+    notes: "",
+  };
+}
+
+/**
+ * Record milk and supplies made into a finished product, with the batch's
+ * yield and cost worked out as it is filled in
+ */
+export function ProcessingBatchDialog({
+  open,
+  onOpenChange,
+  products,
+  supplies,
+  milkRate,
+  batchNumbers,
+  saving,
+  onSave,
+}: ProcessingBatchDialogProps) {
+  const [formData, setFormData] = useState<ProcessingBatchFormData>(toFormData(milkRate));
+
+  useEffect(() => {
+    if (open) setFormData(toFormData(milkRate));
+  }, [open, milkRate]);
+
+  const set = (patch: Partial<ProcessingBatchFormData>) => setFormData({ ...formData, ...patch });
+  const setInput = (index: number, patch: Partial<BatchInputFormData>) =>
+    set({ inputs: formData.inputs.map((i, j) => (j === index ? { ...i, ...patch } : i)) });
+
+  const product = products.find((p) => p.id === formData.product_id);
+
+  // Batch number and expiry follow the product and dates until typed over
+  const handleProductChange = (productId: string) => {
+    const next = products.find((p) => p.id === productId);
+    if (!next) return;
+    set({
+      product_id: productId,
+      batch_number: nextBatchNumber(next.category, formData.batch_date, batchNumbers),
+      expires_on: suggestExpiry(next.category, formData.manufactured_on) || "",
+    });
+  };
+  const handleBatchDateChange = (batchDate: string) =>
+    set({
+      batch_date: batchDate,
+      manufactured_on: batchDate,
+      batch_number: product && batchDate ? nextBatchNumber(product.category, batchDate, batchNumbers) : formData.batch_number,
+      expires_on: product ? suggestExpiry(product.category, batchDate) || formData.expires_on : formData.expires_on,
+    });
+
+  const milkLiters = parseFloat(formData.milk_liters) || 0;
+  const output = parseFloat(formData.output_quantity) || 0;
+  const actualYield = yieldPercentage(output, milkLiters);
+  const expectedYield = expectedYieldPercentage(product?.milk_equivalent_liters ?? null);
+  const inputs = formData.inputs.map((i) => ({
+    supply: supplies.find((s) => s.id === i.feed_id),
+    quantity: parseFloat(i.quantity) || 0,
+  }));
+  const cost = rollupBatchCost(
+    milkLiters,
+    parseFloat(formData.milk_rate) || 0,
+    inputs.map((i) => ({ quantity: i.quantity, unit_cost: i.supply?.cost_per_unit || 0 })),
+    parseFloat(formData.other_cost) || 0,
+    output
+  );
+  const canSave =
+    formData.product_id &&
+    formData.batch_number.trim() &&
+    formData.batch_date &&
+    formData.manufactured_on &&
+    milkLiters > 0 &&
+    output > 0 &&
+    (!formData.expires_on || formData.expires_on >= formData.manufactured_on);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>New Processing Batch</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Supplies are taken from inventory and the output is added to finished stock
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Product *</Label>
+              <Select value={formData.product_id} onValueChange={handleProductChange}>
+                <SelectTrigger><SelectValue placeholder="Select product" /></SelectTrigger>
+                <SelectContent>
+                  {products.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.batch_date} onChange={(e) => handleBatchDateChange(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Batch Number *</Label>
+            <Input value={formData.batch_number} onChange={(e) => set({ batch_number: e.target.value })} />
+          </div>
+
+          <div className="grid gap-4 grid-cols-3">
+            <div className="space-y-2">
+              <Label>Milk (L) *</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.milk_liters}
+                onChange={(e) => set({ milk_liters: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Milk Rate (₹/L)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.milk_rate}
+                onChange={(e) => set({ milk_rate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Output ({product?.unit || "qty"}) *</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.output_quantity}
+                onChange={(e) => set({ output_quantity: e.target.value })}
+              />
+            </div>
+          </div>
+          {actualYield !== null && (
+            <p className="text-xs text-muted-foreground">
+              Yield{" "}
+              <span
+                className={cn(
+                  "font-medium",
+                  expectedYield !== null && actualYield < expectedYield * 0.9 ? "text-warning" : "text-foreground"
+                )}
+              >
+                {actualYield}%
+              </span>
+              {expectedYield !== null && ` against ${expectedYield}% expected from the product's milk equivalent`}
+            </p>
+          )}
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Manufactured</Label>
+              <Input type="date" value={formData.manufactured_on} onChange={(e) => set({ manufactured_on: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Input type="date" value={formData.expires_on} onChange={(e) => set({ expires_on: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Supplies Used</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => set({ inputs: [...formData.inputs, emptyInput] })}
+                disabled={supplies.length === 0}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add
+              </Button>
+            </div>
+            {supplies.length === 0 && (
+              <p className="text-sm text-muted-foreground">Add culture, rennet or salt under Dairy Supply in inventory</p>
+            )}
+            {formData.inputs.map((input, i) => {
+              const supply = inputs[i].supply;
+              return (
+                <div key={i} className="space-y-1">
+                  <div className="grid grid-cols-[1fr_6rem_auto] gap-2">
+                    <Select value={input.feed_id} onValueChange={(v) => setInput(i, { feed_id: v })}>
+                      <SelectTrigger><SelectValue placeholder="Supply" /></SelectTrigger>
+                      <SelectContent>
+                        {supplies.map((s) => (
+                          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={supply?.unit || "Qty"}
+                      value={input.quantity}
+                      onChange={(e) => setInput(i, { quantity: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => set({ inputs: formData.inputs.filter((_, j) => j !== i) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {supply && (
+                    <p
+                      className={cn(
+                        "text-xs",
+                        inputs[i].quantity > supply.current_stock ? "text-destructive" : "text-muted-foreground"
+                      )}
+                    >
+                      {supply.current_stock} {supply.unit} in stock · ₹{supply.cost_per_unit}/{supply.unit}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Other Cost (₹)</Label>
+            <Input
+              type="number"
+              min="0"
+              step="10"
+              placeholder="Fuel, labour, packaging"
+              value={formData.other_cost}
+              onChange={(e) => set({ other_cost: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/40 p-3 text-sm">
+            <span className="text-muted-foreground">Milk</span>
+            <span className="text-right">₹{cost.milk_cost.toLocaleString()}</span>
+            <span className="text-muted-foreground">Supplies</span>
+            <span className="text-right">₹{cost.inputs_cost.toLocaleString()}</span>
+            <span className="font-medium">Total cost</span>
+            <span className="text-right font-medium">₹{cost.total_cost.toLocaleString()}</span>
+            <span className="font-medium">Cost per {product?.unit || "unit"}</span>
+            <span className="text-right font-bold text-primary">₹{cost.cost_per_unit.toLocaleString()}</span>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { PayoutFormData } from "@/hooks/useVendorBills";
+
+interface BulkPayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  billCount: number;
+  total: number;
+  saving: boolean;
+  onSave: (formData: PayoutFormData) => void;
+}
+
+function toFormData(): PayoutFormData {
+  return { payment_date: format(new Date(), "yyyy-MM-dd"), payment_mode: "bank_transfer", reference_number: "" };
+}
+
+/** Pay several locked bills at once, one vendor payment per bill */
+export function BulkPayoutDialog({ open, onOpenChange, billCount, total, saving, onSave }: BulkPayoutDialogProps) {
+  const [formData, setFormData] = useState<PayoutFormData>(toFormData());
+
+  useEffect(() => {
+    if (open) setFormData(toFormData());
+  }, [open]);
+
+  const set = (patch: Partial<PayoutFormData>) => setFormData({ ...formData, ...patch });
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Pay Bills</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            {billCount} bill{billCount === 1 ? "" : "s"} · ₹{total.toLocaleString()}
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Payment date</Label>
+              <Input type="date" value={formData.payment_date} onChange={(e) => set({ payment_date: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={formData.payment_mode} onValueChange={(v) => set({ payment_mode: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  <SelectItem value="upi">UPI</SelectItem>
+                  <SelectItem value="cheque">Cheque</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Reference</Label>
+            <Input
+              placeholder="Batch or transaction reference"
+              value={formData.reference_number}
+              onChange={(e) => set({ reference_number: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!formData.payment_date || billCount === 0 || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Record Payout
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { BillCandidate, CloseBillFormData, DeductionFormData } from "@/hooks/useVendorBills";
+import { DEDUCTION_LABELS, DEDUCTION_TYPES, formatBillPeriod, type DeductionType } from "@/lib/vendor-billing";
+import { describeRecovery, planAdvanceRecoveries } from "@/lib/vendor-advances";
+
+interface CloseVendorBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidate: BillCandidate | null;
+  saving: boolean;
+  onSave: (formData: CloseBillFormData) => void;
+}
+
+const emptyDeduction: DeductionFormData = { deduction_type: "feed_advance", description: "", amount: "" };
+
+/**
+ * Close a vendor's cycle into a bill. Deductions are taken off the milk
+ * amount and the cycle's procurement is locked once saved.
+ */
+export function CloseVendorBillDialog({ open, onOpenChange, candidate, saving, onSave }: CloseVendorBillDialogProps) {
+  const [formData, setFormData] = useState<CloseBillFormData>({ deductions: [], notes: "" });
+
+  useEffect(() => {
+    if (open) setFormData({ deductions: [], notes: "" });
+  }, [open, candidate]);
+
+  const setDeduction = (index: number, patch: Partial<DeductionFormData>) =>
+    setFormData({
+      ...formData,
+      deductions: formData.deductions.map((d, i) => (i === index ? { ...d, ...patch } : d)),
+    });
+
+  const gross = candidate?.totals.gross || 0;
+  const deducted = formData.deductions.reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const recoveries = candidate ? planAdvanceRecoveries(candidate.advances, gross, gross - deducted) : [];
+  const recovered = recoveries.reduce((sum, r) => sum + r.amount, 0);
+  const net = gross - deducted - recovered;
+  const canSave = !!candidate && gross - deducted >= 0;
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-lg">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Close Bill</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            {candidate ? `${candidate.vendor_name} · ${formatBillPeriod(candidate.period)}` : ""}
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        {candidate && (
+          <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+            <div className="grid grid-cols-3 gap-2 rounded-lg border bg-muted/40 p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Litres</p>
+                <p className="font-semibold">{candidate.totals.liters.toFixed(1)} L</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Fat / SNF</p>
+                <p className="font-semibold">
+                  {candidate.totals.avg_fat ?? "-"} / {candidate.totals.avg_snf ?? "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Milk amount</p>
+                <p className="font-semibold">₹{gross.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Deductions</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, deductions: [...formData.deductions, emptyDeduction] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" /> Add
+                </Button>
+              </div>
+              {formData.deductions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No other deductions this cycle</p>
+              )}
+              {formData.deductions.map((d, i) => (
+                <div key={i} className="grid grid-cols-[9rem_1fr_6rem_auto] gap-2">
+                  <Select
+                    value={d.deduction_type}
+                    onValueChange={(v) => setDeduction(i, { deduction_type: v as DeductionType })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {DEDUCTION_TYPES.map((t) => (
+                        <SelectItem key={t} value={t}>{DEDUCTION_LABELS[t]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Description"
+                    value={d.description}
+                    onChange={(e) => setDeduction(i, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="10"
+                    placeholder="₹"
+                    value={d.amount}
+                    onChange={(e) => setDeduction(i, { amount: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setFormData({ ...formData, deductions: formData.deductions.filter((_, j) => j !== i) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {recoveries.length > 0 && (
+              <div className="space-y-1 rounded-lg border border-dashed p-3 text-sm">
+                <p className="font-medium">Advance recoveries</p>
+                {recoveries.map((r) => {
+                  const advance = candidate!.advances.find((a) => a.id === r.advance_id)!;
+                  return (
+                    <div key={r.advance_id} className="flex justify-between text-muted-foreground">
+                      <span>
+                        {describeRecovery(advance.recovery_mode, advance.recovery_value)} · ₹
+                        {advance.outstanding.toLocaleString()} outstanding
+                      </span>
+                      <span>₹{r.amount.toLocaleString()}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <span className="text-sm text-muted-foreground">Net payable</span>
+              <span className={net < 0 ? "font-bold text-destructive" : "font-bold text-primary"}>
+                ₹{net.toLocaleString()}
+              </span>
+            </div>
+            {gross - deducted < 0 && <p className="text-sm text-destructive">Deductions cannot exceed the milk amount</p>}
+
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} rows={2} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Close Bill
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlaskConical } from "lucide-react";
+import { QUALITY_STATUS_LABELS, type QualityResult } from "@/lib/collection-testing";
+import { cn } from "@/lib/utils";
+
+export interface MilkTestFormData {
+  clr: string;
+  temperature_c: string;
+  mbrt_hours: string;
+  alcohol_test: string;
+}
+
+interface MilkTestFieldsProps {
+  value: MilkTestFormData;
+  onChange: (patch: Partial<MilkTestFormData>) => void;
+  water: number | null;
+  result: QualityResult;
+  /** Set when the downgrade cut is applied to the computed rate */
+  downgradeRatePct: number | null;
+}
+
+const statusStyles = {
+  accepted: "bg-success/10 text-success border-success/20",
+  downgraded: "bg-warning/10 text-warning border-warning/20",
+  rejected: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+/** Platform tests taken at the collection centre and the acceptance verdict */
+export function MilkTestFields({ value, onChange, water, result, downgradeRatePct }: MilkTestFieldsProps) {
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <FlaskConical className="h-4 w-4 text-primary" />
+          Platform Tests
+        </p>
+        <Badge variant="outline" className={statusStyles[result.status]}>
+          {QUALITY_STATUS_LABELS[result.status]}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="proc-clr" className="text-xs">CLR</Label>
+          <Input
+            id="proc-clr"
+            type="number"
+            step="0.5"
+            value={value.clr}
+            onChange={(e) => onChange({ clr: e.target.value })}
+            placeholder="e.g. 28"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="proc-temp" className="text-xs">Temp (°C)</Label>
+          <Input
+            id="proc-temp"
+            type="number"
+            step="0.5"
+            value={value.temperature_c}
+            onChange={(e) => onChange({ temperature_c: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="proc-mbrt" className="text-xs">MBRT (h)</Label>
+          <Input
+            id="proc-mbrt"
+            type="number"
+            step="0.5"
+            value={value.mbrt_hours}
+            onChange={(e) => onChange({ mbrt_hours: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Alcohol test</Label>
+          <Select
+            value={value.alcohol_test || "none"}
+            onValueChange={(v) => onChange({ alcohol_test: v === "none" ? "" : v })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not done</SelectItem>
+              <SelectItem value="pass">Pass</SelectItem>
+              <SelectItem value="fail">Fail (clots)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {water !== null && (
+        <p className="text-xs text-muted-foreground">
+          Estimated added water: <span className={cn("font-medium", water > 0 && "text-warning")}>{water}%</span>
+        </p>
+      )}
+
+      {result.reasons.length > 0 && (
+        <ul className={cn("text-xs space-y-0.5", result.status === "rejected" ? "text-destructive" : "text-warning")}>
+          {result.reasons.map((reason) => (
+            <li key={reason}>• {reason}</li>
+          ))}
+        </ul>
+      )}
+      {result.status === "rejected" && (
+        <p className="text-xs text-muted-foreground">Rejected milk is recorded but not paid for</p>
+      )}
+      {result.status === "downgraded" && (
+        <p className="text-xs text-muted-foreground">
+          {downgradeRatePct !== null
+            ? `Rate cut by ${downgradeRatePct}% for downgraded milk`
+            : "Enter the reduced rate for downgraded milk"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -37,6 +37,7 @@ import {
   Target,
   Wallet,
 } from "lucide-react";
+import { VendorQualityScorecard } from "@/components/procurement/VendorQualityScorecard";
 
 interface ProcurementRecord {
   id: string;
@@ -47,6 +48,8 @@ interface ProcurementRecord {
   quantity_liters: number;
   fat_percentage: number | null;
   snf_percentage: number | null;
+  water_percentage: number | null;
+  quality_status: string;
   rate_per_liter: number | null;
   total_amount: number | null;
 }
@@ -156,8 +159,14 @@ export function ProcurementAnalytics() {
 
     const totalPaid = (payResult.data || []).reduce((sum, p) => sum + Number(p.amount), 0);
 
+    // Rejected milk was never taken in, so only the scorecard sees it
     setProcurements(procResult.data || []);
-    processAnalyticsData(procResult.data || [], start, end, totalPaid);
+    processAnalyticsData(
+      (procResult.data || []).filter((p) => p.quality_status !== "rejected"),
+      start,
+      end,
+      totalPaid
+    );
     setLoading(false);
   };
 
@@ -375,6 +384,7 @@ export function ProcurementAnalytics() {
           <TabsTrigger value="vendors">Vendor Comparison</TabsTrigger>
           <TabsTrigger value="quality">Quality Metrics</TabsTrigger>
           <TabsTrigger value="sessions">Session Analysis</TabsTrigger>
+          <TabsTrigger value="scorecard">Vendor Scorecard</TabsTrigger>
         </TabsList>
 
         {/* Volume Trends */}
@@ -765,6 +775,11 @@ export function ProcurementAnalytics() {
             </Card>
           </div>
         </TabsContent>
+
+        {/* Vendor Scorecard */}
+        <TabsContent value="scorecard" className="space-y-4">
+          <VendorQualityScorecard records={procurements} />
+        </TabsContent>
       </Tabs>
     </div>
   );
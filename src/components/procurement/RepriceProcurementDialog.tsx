@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { calculateProcurementRate, type PriceBreakdown } from "@/lib/pricing-engine";
+import { DEFAULT_MILK_QUALITY_THRESHOLDS, applyQualityToRate, type QualityStatus } from "@/lib/collection-testing";
+import { useMilkQualityThresholds } from "@/hooks/useCollectionTesting";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+  ResponsiveDialogDescription,
+} from "@/components/ui/responsive-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from "@tanstack/react-query";
+import { invalidateProcurementRelated } from "@/lib/query-invalidation";
+import { format, startOfMonth } from "date-fns";
+import { Loader2, RefreshCw, Search } from "lucide-react";
+
+interface RepriceProcurementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRepriced?: () => void;
+}
+
+interface RepriceCandidate {
+  id: string;
+  quantity_liters: number;
+  oldRate: number | null;
+  /** Rule-based rate after any quality downgrade cut */
+  newRate: number;
+  breakdown: PriceBreakdown;
+}
+
+interface RepricePreview {
+  candidates: RepriceCandidate[];
+  skipped: number;
+  oldTotal: number;
+  newTotal: number;
+}
+
+export function RepriceProcurementDialog({ open, onOpenChange, onRepriced }: RepriceProcurementDialogProps) {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [includePaid, setIncludePaid] = useState(false);
+  const [preview, setPreview] = useState<RepricePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: qualityThresholds = DEFAULT_MILK_QUALITY_THRESHOLDS } = useMilkQualityThresholds();
+
+  const handlePreview = async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      toast({ title: "Validation Error", description: "Select a valid date range", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    let query = supabase
+      .from("milk_procurement")
+      .select("id, quantity_liters, fat_percentage, snf_percentage, rate_per_liter, base_rate, payment_status, quality_status, vendor:vendor_id (base_rate)")
+      // Entries on a closed vendor bill are locked; rejected milk is never paid for
+      .is("bill_id", null)
+      .neq("quality_status", "rejected")
+      .gte("procurement_date", startDate)
+      .lte("procurement_date", endDate);
+
+    if (!includePaid) {
+      query = query.neq("payment_status", "paid");
+    }
+
+    const [entriesRes, rulesRes] = await Promise.all([
+      query,
+      supabase.from("price_rules").select("*").eq("is_active", true),
+    ]);
+
+    if (entriesRes.error || rulesRes.error) {
+      toast({
+        title: "Error loading entries",
+        description: (entriesRes.error || rulesRes.error)?.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    const rules = rulesRes.data || [];
+    const candidates: RepriceCandidate[] = [];
+    let skipped = 0;
+    let oldTotal = 0;
+    let newTotal = 0;
+
+    for (const entry of entriesRes.data || []) {
+      // Prefer the base rate the entry was priced from; fall back to the vendor's current base rate
+      const vendor = entry.vendor as { base_rate: number | null } | null;
+      const baseRate = Number(entry.base_rate ?? vendor?.base_rate) || 0;
+      if (baseRate <= 0) {
+        skipped++;
+        continue;
+      }
+
+      const breakdown = calculateProcurementRate(
+        baseRate,
+        entry.fat_percentage !== null ? Number(entry.fat_percentage) : null,
+        entry.snf_percentage !== null ? Number(entry.snf_percentage) : null,
+        rules
+      );
+      const newRate = applyQualityToRate(breakdown.finalRate, entry.quality_status as QualityStatus, qualityThresholds);
+      const quantity = Number(entry.quantity_liters);
+      const oldRate = entry.rate_per_liter !== null ? Number(entry.rate_per_liter) : null;
+
+      if (oldRate === newRate && entry.base_rate !== null) continue;
+
+      oldTotal += quantity * (oldRate || 0);
+      newTotal += quantity * newRate;
+      candidates.push({ id: entry.id, quantity_liters: quantity, oldRate, newRate, breakdown });
+    }
+
+    setPreview({ candidates, skipped, oldTotal, newTotal });
+    setLoading(false);
+  };
+
+  const handleApply = async () => {
+    if (!preview || preview.candidates.length === 0) return;
+    setApplying(true);
+
+    let failed = 0;
+    for (const c of preview.candidates) {
+      // DB trigger `update_vendor_balance_on_procurement` keeps vendor balances in sync
+      const { error } = await supabase
+        .from("milk_procurement")
+        .update({
+          base_rate: c.breakdown.baseRate,
+          rate_per_liter: c.newRate,
+          total_amount: c.quantity_liters * c.newRate,
+          applied_price_rules: c.breakdown.adjustments,
+        })
+        .eq("id", c.id);
+      if (error) failed++;
+    }
+
+    const updated = preview.candidates.length - failed;
+    if (failed > 0) {
+      toast({
+        title: "Re-pricing incomplete",
+        description: `${updated} entries updated, ${failed} failed`,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Entries re-priced", description: `${updated} procurement entries updated` });
+    }
+
+    invalidateProcurementRelated(queryClient);
+    setPreview(null);
+    setApplying(false);
+    onRepriced?.();
+    onOpenChange(false);
+  };
+
+  const delta = preview ? preview.newTotal - preview.oldTotal : 0;
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="sm:max-w-[450px]">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Re-price Procurement
+          </ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Recalculate procurement rates in a date range using the current price rules
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reprice-start">From</Label>
+              <Input
+                id="reprice-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => { setStartDate(e.target.value); setPreview(null); }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reprice-end">To</Label>
+              <Input
+                id="reprice-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => { setEndDate(e.target.value); setPreview(null); }}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Include paid entries</p>
+              <p className="text-xs text-muted-foreground">Changes vendor balances for settled records</p>
+            </div>
+            <Switch checked={includePaid} onCheckedChange={(v) => { setIncludePaid(v); setPreview(null); }} />
+          </div>
+
+          {preview && (
+            <div className="p-3 bg-muted rounded-lg space-y-1.5 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Entries to update</span>
+                <span className="font-semibold">{preview.candidates.length}</span>
+              </div>
+              {preview.skipped > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Skipped (no base rate)</span>
+                  <span>{preview.skipped}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Current total</span>
+                <span>₹{preview.oldTotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">New total</span>
+                <span>₹{preview.newTotal.toFixed(2)}</span>
+              </div>
+              <div className="border-t border-border pt-1.5 flex justify-between font-semibold">
+                <span>Difference</span>
+                <span className={delta > 0 ? "text-destructive" : delta < 0 ? "text-success" : ""}>
+                  {delta >= 0 ? "+" : "-"}₹{Math.abs(delta).toFixed(2)}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={handlePreview} disabled={loading || applying}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+            Preview
+          </Button>
+          <Button onClick={handleApply} disabled={!preview || preview.candidates.length === 0 || applying}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { VendorAdvanceFormData } from "@/hooks/useVendorAdvances";
+import {
+  ADVANCE_TYPES,
+  ADVANCE_TYPE_LABELS,
+  RECOVERY_MODES,
+  RECOVERY_MODE_LABELS,
+  type AdvanceType,
+  type RecoveryMode,
+} from "@/lib/vendor-advances";
+
+interface VendorAdvanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendors: { id: string; name: string }[];
+  saving: boolean;
+  onSave: (formData: VendorAdvanceFormData) => void;
+}
+
+function toFormData(): VendorAdvanceFormData {
+  return {
+    vendor_id: "",
+    advance_type: "cash_advance",
+    amount: "",
+    issued_date: format(new Date(), "yyyy-MM-dd"),
+    recovery_mode: "fixed",
+    recovery_value: "",
+    description: "",
+    notes: "",
+  };
+}
+
+/**
+ * Give a vendor a cash advance, feed on credit or a loan, with the
+ * instalment to recover from each of their bills
+ */
+export function VendorAdvanceDialog({ open, onOpenChange, vendors, saving, onSave }: VendorAdvanceDialogProps) {
+  const [formData, setFormData] = useState<VendorAdvanceFormData>(toFormData());
+
+  useEffect(() => {
+    if (open) setFormData(toFormData());
+  }, [open]);
+
+  const set = (patch: Partial<VendorAdvanceFormData>) => setFormData({ ...formData, ...patch });
+  const amount = parseFloat(formData.amount);
+  const recovery = parseFloat(formData.recovery_value);
+  const percentage = formData.recovery_mode === "percentage";
+  const canSave =
+    formData.vendor_id &&
+    formData.issued_date &&
+    amount > 0 &&
+    recovery > 0 &&
+    (!percentage || recovery <= 100);
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>New Advance</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>
+            Recovered in instalments from the vendor's bills and payments
+          </ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="space-y-2">
+            <Label>Vendor *</Label>
+            <Select value={formData.vendor_id} onValueChange={(v) => set({ vendor_id: v })}>
+              <SelectTrigger><SelectValue placeholder="Select vendor" /></SelectTrigger>
+              <SelectContent>
+                {vendors.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={formData.advance_type} onValueChange={(v) => set({ advance_type: v as AdvanceType })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ADVANCE_TYPES.map((t) => (
+                    <SelectItem key={t} value={t}>{ADVANCE_TYPE_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.issued_date} onChange={(e) => set({ issued_date: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Amount (₹) *</Label>
+              <Input
+                type="number"
+                min="0"
+                step="100"
+                value={formData.amount}
+                onChange={(e) => set({ amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                placeholder={formData.advance_type === "feed_advance" ? "e.g. 2 bags cattle feed" : ""}
+                value={formData.description}
+                onChange={(e) => set({ description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Recovery</Label>
+              <Select value={formData.recovery_mode} onValueChange={(v) => set({ recovery_mode: v as RecoveryMode })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {RECOVERY_MODES.map((m) => (
+                    <SelectItem key={m} value={m}>{RECOVERY_MODE_LABELS[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{percentage ? "Instalment (%) *" : "Instalment (₹) *"}</Label>
+              <Input
+                type="number"
+                min="0"
+                max={percentage ? "100" : undefined}
+                step={percentage ? "1" : "50"}
+                value={formData.recovery_value}
+                onChange={(e) => set({ recovery_value: e.target.value })}
+              />
+            </div>
+          </div>
+          {!percentage && amount > 0 && recovery > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Cleared in about {Math.ceil(amount / recovery)} bill{Math.ceil(amount / recovery) === 1 ? "" : "s"}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
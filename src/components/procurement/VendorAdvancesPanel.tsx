@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/common/ConfirmDialog";
+import { VendorAdvanceDialog } from "@/components/procurement/VendorAdvanceDialog";
+import { useDeleteVendorAdvance, useIssueVendorAdvance, useVendorAdvances, type VendorAdvance } from "@/hooks/useVendorAdvances";
+import {
+  ADVANCE_TYPE_LABELS,
+  OVERDUE_ADVANCE_DAYS,
+  describeRecovery,
+  isAdvanceOverdue,
+  type AdvanceType,
+} from "@/lib/vendor-advances";
+import { AlertTriangle, HandCoins, Plus, Trash2 } from "lucide-react";
+
+interface VendorAdvancesPanelProps {
+  vendors: { id: string; name: string }[];
+  /** Called after an advance is issued or deleted, since both move vendor balances */
+  onAdvancesChanged?: () => void;
+}
+
+/**
+ * Advances and loans given to vendors, what is still outstanding per
+ * vendor, and how each is being recovered
+ */
+export function VendorAdvancesPanel({ vendors, onAdvancesChanged }: VendorAdvancesPanelProps) {
+  const { data, isLoading } = useVendorAdvances();
+  const issueAdvance = useIssueVendorAdvance();
+  const deleteAdvance = useDeleteVendorAdvance();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<VendorAdvance | null>(null);
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const { advances, byVendor } = data;
+  const outstanding = byVendor.reduce((sum, v) => sum + v.outstanding, 0);
+  const active = advances.filter((a) => a.outstanding > 0);
+  const overdue = active.filter((a) => isAdvanceOverdue(a.issued_date, a.outstanding));
+  const owing = byVendor.filter((v) => v.outstanding > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Advance
+        </Button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Outstanding</p>
+            <p className="text-2xl font-bold text-primary">₹{outstanding.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{owing.length} vendors</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Active Advances</p>
+            <p className="text-2xl font-bold">{active.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Recovered</p>
+            <p className="text-2xl font-bold text-success">
+              ₹{byVendor.reduce((sum, v) => sum + v.recovered, 0).toLocaleString()}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Overdue</p>
+            <p className="text-2xl font-bold text-warning">{overdue.length}</p>
+            <p className="text-xs text-muted-foreground">Open over {OVERDUE_ADVANCE_DAYS} days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5 text-primary" />
+            Outstanding Advances
+          </CardTitle>
+          <CardDescription>By vendor, largest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {owing.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No advances outstanding</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead className="text-right">Advances</TableHead>
+                  <TableHead className="text-right">Issued</TableHead>
+                  <TableHead className="text-right">Recovered</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead>Oldest</TableHead>
+                  <TableHead>Last Recovery</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {owing.map((v) => (
+                  <TableRow key={v.vendor_id}>
+                    <TableCell className="font-medium">{v.vendor_name}</TableCell>
+                    <TableCell className="text-right">{v.advances}</TableCell>
+                    <TableCell className="text-right">₹{v.issued.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₹{v.recovered.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">₹{v.outstanding.toLocaleString()}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {v.oldest_issued ? format(parseISO(v.oldest_issued), "dd MMM yyyy") : "-"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {v.last_recovered ? format(parseISO(v.last_recovered), "dd MMM yyyy") : "None yet"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Advance Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {advances.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No advances recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Recovery</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {advances.map((a) => (
+                  <TableRow key={a.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(a.issued_date), "dd MMM yyyy")}</TableCell>
+                    <TableCell className="font-medium">{a.vendor_name}</TableCell>
+                    <TableCell>
+                      {ADVANCE_TYPE_LABELS[a.advance_type as AdvanceType] || a.advance_type}
+                      {a.description && <span className="block text-xs text-muted-foreground">{a.description}</span>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeRecovery(a.recovery_mode, a.recovery_value)}
+                      {a.recoveries > 0 && <span className="block text-xs">{a.recoveries} instalments</span>}
+                    </TableCell>
+                    <TableCell className="text-right">₹{a.amount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {a.outstanding > 0 ? `₹${a.outstanding.toLocaleString()}` : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {a.status === "settled" ? (
+                        <Badge variant="outline" className="bg-success/10 text-success border-success/20">Settled</Badge>
+                      ) : isAdvanceOverdue(a.issued_date, a.outstanding) ? (
+                        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Overdue
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Recovering</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {a.recoveries === 0 && (
+                        <Button variant="ghost" size="icon" onClick={() => setDeleting(a)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <VendorAdvanceDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        vendors={vendors}
+        saving={issueAdvance.isPending}
+        onSave={(formData) =>
+          issueAdvance.mutate(formData, {
+            onSuccess: () => {
+              setDialogOpen(false);
+              onAdvancesChanged?.();
+            },
+          })
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(o) => !o && setDeleting(null)}
+        title="Delete Advance?"
+        description={`The ₹${deleting?.amount.toLocaleString()} advance to ${deleting?.vendor_name}${
+          deleting?.advance_type === "feed_advance" ? "" : " and its expense entry"
+        } will be removed.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() =>
+          deleting &&
+          deleteAdvance.mutate(deleting.id, {
+            onSuccess: () => {
+              setDeleting(null);
+              onAdvancesChanged?.();
+            },
+          })
+        }
+      />
+    </div>
+  );
+}
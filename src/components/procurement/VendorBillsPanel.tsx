@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ConfirmDialog } from "@/components/common/ConfirmDialog";
+import { CloseVendorBillDialog } from "@/components/procurement/CloseVendorBillDialog";
+import { BulkPayoutDialog } from "@/components/procurement/BulkPayoutDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchVendorBillStatement,
+  useCloseVendorBill,
+  usePayVendorBills,
+  useReopenVendorBill,
+  useVendorBills,
+  type BillCandidate,
+  type VendorBill,
+} from "@/hooks/useVendorBills";
+import { formatBillPeriod } from "@/lib/vendor-billing";
+import {
+  buildVendorBillPdf,
+  STATEMENT_LANGUAGE_LABELS,
+  type StatementLanguage,
+} from "@/lib/vendor-bill-pdf";
+import { CheckCircle2, FileText, Lock, MoreHorizontal, Receipt, Share2, Undo2, Wallet } from "lucide-react";
+
+interface VendorBillsPanelProps {
+  /** Called after bills are closed, paid or reopened so the page can refresh */
+  onBillsChanged?: () => void;
+}
+
+/**
+ * Cycles waiting to be billed, closed bills with their printable
+ * statements, and bulk payout of locked bills
+ */
+export function VendorBillsPanel({ onBillsChanged }: VendorBillsPanelProps) {
+  const { data, isLoading } = useVendorBills();
+  const closeBill = useCloseVendorBill();
+  const payBills = usePayVendorBills();
+  const reopenBill = useReopenVendorBill();
+  const { toast } = useToast();
+
+  const [closing, setClosing] = useState<BillCandidate | null>(null);
+  const [reopening, setReopening] = useState<VendorBill | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [payoutOpen, setPayoutOpen] = useState(false);
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const ready = data.candidates.filter((c) => c.closable);
+  const open = data.candidates.filter((c) => !c.closable);
+  const unpaid = data.bills.filter((b) => b.status === "locked");
+  const selectedBills = unpaid.filter((b) => selected.has(b.id));
+  const selectedTotal = selectedBills.reduce((sum, b) => sum + Number(b.net_payable), 0);
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const handleStatement = async (bill: VendorBill, language: StatementLanguage, share: boolean) => {
+    try {
+      const statement = await fetchVendorBillStatement(bill.id);
+      const doc = buildVendorBillPdf(statement, language);
+      const fileName = `${bill.bill_number}-${language}.pdf`;
+      const file = new File([doc.output("blob")], fileName, { type: "application/pdf" });
+
+      if (share && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: `${bill.bill_number} - ${bill.vendor_name}` });
+        return;
+      }
+      doc.save(fileName);
+    } catch (error) {
+      // Dismissing the share sheet is not an error
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      toast({
+        title: "Error creating statement",
+        description: error instanceof Error ? error.message : "Could not create the PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Ready to Close</p>
+            <p className="text-2xl font-bold">{ready.length}</p>
+            <p className="text-xs text-muted-foreground">
+              ₹{ready.reduce((sum, c) => sum + c.totals.gross, 0).toLocaleString()}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Running Cycles</p>
+            <p className="text-2xl font-bold">{open.length}</p>
+            <p className="text-xs text-muted-foreground">
+              ₹{open.reduce((sum, c) => sum + c.totals.gross, 0).toLocaleString()} so far
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Unpaid Bills</p>
+            <p className="text-2xl font-bold text-warning">{unpaid.length}</p>
+            <p className="text-xs text-muted-foreground">
+              ₹{unpaid.reduce((sum, b) => sum + Number(b.net_payable), 0).toLocaleString()}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Paid Bills</p>
+            <p className="text-2xl font-bold text-success">{data.bills.length - unpaid.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-primary" />
+            Ready to Close
+          </CardTitle>
+          <CardDescription>Cycles that have ended with unbilled procurement</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {ready.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No completed cycles waiting to be billed</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Litres</TableHead>
+                  <TableHead className="text-right">Fat / SNF</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ready.map((c) => (
+                  <TableRow key={c.key}>
+                    <TableCell className="font-medium">{c.vendor_name}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatBillPeriod(c.period)}</TableCell>
+                    <TableCell className="text-right">{c.entries}</TableCell>
+                    <TableCell className="text-right">{c.totals.liters.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">
+                      {c.totals.avg_fat ?? "-"} / {c.totals.avg_snf ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right">₹{c.totals.gross.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={() => setClosing(c)}>
+                        Close Bill
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5 text-primary" />
+              Bills
+            </CardTitle>
+            <CardDescription>Select unpaid bills to pay them together</CardDescription>
+          </div>
+          <Button disabled={selectedBills.length === 0} onClick={() => setPayoutOpen(true)}>
+            <Wallet className="h-4 w-4 mr-2" />
+            Pay {selectedBills.length > 0 ? `${selectedBills.length} · ₹${selectedTotal.toLocaleString()}` : "Selected"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {data.bills.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No bills closed yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={unpaid.length > 0 && selectedBills.length === unpaid.length}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? new Set(unpaid.map((b) => b.id)) : new Set())
+                      }
+                    />
+                  </TableHead>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Litres</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Deductions</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.bills.map((b) => (
+                  <TableRow key={b.id}>
+                    <TableCell>
+                      {b.status === "locked" && (
+                        <Checkbox checked={selected.has(b.id)} onCheckedChange={(checked) => toggle(b.id, !!checked)} />
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{b.bill_number}</TableCell>
+                    <TableCell className="font-medium">{b.vendor_name}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatBillPeriod({ start: b.period_start, end: b.period_end })}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(b.total_liters).toFixed(1)}</TableCell>
+                    <TableCell className="text-right">₹{Number(b.gross_amount).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {Number(b.deductions_total) > 0 ? `₹${Number(b.deductions_total).toLocaleString()}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">₹{Number(b.net_payable).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {b.status === "paid" ? (
+                        <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          Paid {b.paid_at && format(parseISO(b.paid_at), "dd MMM")}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                          Unpaid
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Statement</DropdownMenuLabel>
+                          {(Object.keys(STATEMENT_LANGUAGE_LABELS) as StatementLanguage[]).map((lang) => (
+                            <DropdownMenuItem key={`pdf-${lang}`} onClick={() => handleStatement(b, lang, false)}>
+                              <FileText className="h-4 w-4 mr-2" />
+                              PDF · {STATEMENT_LANGUAGE_LABELS[lang]}
+                            </DropdownMenuItem>
+                          ))}
+                          {(Object.keys(STATEMENT_LANGUAGE_LABELS) as StatementLanguage[]).map((lang) => (
+                            <DropdownMenuItem key={`share-${lang}`} onClick={() => handleStatement(b, lang, true)}>
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share · {STATEMENT_LANGUAGE_LABELS[lang]}
+                            </DropdownMenuItem>
+                          ))}
+                          {b.status === "locked" && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem className="text-destructive" onClick={() => setReopening(b)}>
+                                <Undo2 className="h-4 w-4 mr-2" />
+                                Reopen
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CloseVendorBillDialog
+        open={!!closing}
+        onOpenChange={(o) => !o && setClosing(null)}
+        candidate={closing}
+        saving={closeBill.isPending}
+        onSave={(formData) =>
+          closing &&
+          closeBill.mutate(
+            { candidate: closing, formData },
+            {
+              onSuccess: () => {
+                setClosing(null);
+                onBillsChanged?.();
+              },
+            }
+          )
+        }
+      />
+
+      <BulkPayoutDialog
+        open={payoutOpen}
+        onOpenChange={setPayoutOpen}
+        billCount={selectedBills.length}
+        total={selectedTotal}
+        saving={payBills.isPending}
+        onSave={(formData) =>
+          payBills.mutate(
+            { billIds: selectedBills.map((b) => b.id), formData },
+            {
+              onSuccess: () => {
+                setPayoutOpen(false);
+                setSelected(new Set());
+                onBillsChanged?.();
+              },
+            }
+          )
+        }
+      />
+
+      <ConfirmDialog
+        open={!!reopening}
+        onOpenChange={(o) => !o && setReopening(null)}
+        title="Reopen Bill?"
+        description={`${reopening?.bill_number} will be deleted and its procurement unlocked so the cycle can be corrected and closed again.`}
+        confirmText="Reopen"
+        variant="destructive"
+        onConfirm={() =>
+          reopening &&
+          reopenBill.mutate(reopening.id, {
+            onSuccess: () => {
+              setReopening(null);
+              onBillsChanged?.();
+            },
+          })
+        }
+      />
+    </div>
+  );
+}
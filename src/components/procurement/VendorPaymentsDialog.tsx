@@ -24,6 +24,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useExpenseAutomation } from "@/hooks/useExpenseAutomation";
 import { useQueryClient } from "@tanstack/react-query";
 import { invalidateExpenseRelated, invalidateProcurementRelated } from "@/lib/query-invalidation";
+import { fetchActiveAdvances } from "@/hooks/useVendorAdvances";
+import { planAdvanceRecoveries, type AdvanceForRecovery } from "@/lib/vendor-advances";
 import { format } from "date-fns";
 import {
   IndianRupee,
@@ -93,6 +95,7 @@ export function VendorPaymentsDialog({
   const [showAddForm, setShowAddForm] = useState(false);
   const [paymentForm, setPaymentForm] = useState<PaymentFormData>(emptyPaymentForm);
   const [vendorBalance, setVendorBalance] = useState<number>(0);
+  const [advances, setAdvances] = useState<AdvanceForRecovery[]>([]);
   const { toast } = useToast();
   const { logVendorPaymentExpense } = useExpenseAutomation();
   const queryClient = useQueryClient();
@@ -101,6 +104,7 @@ export function VendorPaymentsDialog({
     if (open && vendor) {
       fetchPayments();
       fetchVendorBalance();
+      fetchActiveAdvances(vendor.id).then(setAdvances, () => setAdvances([]));
     }
   }, [open, vendor]);
 
@@ -141,6 +145,15 @@ export function VendorPaymentsDialog({
     setLoading(false);
   };
 
+  // Balance is net of advances, so adding them back gives the milk dues still unpaid
+  const enteredAmount = parseFloat(paymentForm.amount) || 0;
+  const outstandingAdvances = advances.reduce((sum, a) => sum + a.outstanding, 0);
+  const plannedRecovery = planAdvanceRecoveries(
+    advances,
+    enteredAmount,
+    vendorBalance - enteredAmount + outstandingAdvances
+  ).reduce((sum, r) => sum + r.amount, 0);
+
   const handleSavePayment = async () => {
     if (!vendor || !paymentForm.amount) {
       toast({
@@ -196,20 +209,35 @@ export function VendorPaymentsDialog({
         );
       }
 
+      // Take this payment's instalments for any advances the vendor is repaying
+      let recovered = 0;
+      if (data && advances.length > 0) {
+        const { data: amountRecovered, error: recoveryError } = await supabase.rpc("recover_vendor_advances", {
+          _payment_id: data.id,
+        });
+        if (recoveryError) {
+          toast({ title: "Advance not recovered", description: recoveryError.message, variant: "destructive" });
+        } else {
+          recovered = Number(amountRecovered) || 0;
+        }
+      }
+      const recoveryNote = recovered > 0 ? ` · ₹${recovered.toLocaleString()} recovered against advances` : "";
+
       // Invalidate expense + dashboard queries so data appears immediately
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["vendor-advances"] });
       invalidateExpenseRelated(queryClient);
       invalidateProcurementRelated(queryClient);
       
       if (expenseLogged) {
         toast({
           title: "Payment recorded & expense logged",
-          description: `₹${amount.toLocaleString()} paid to ${vendor.name} - auto-tracked in expenses`,
+          description: `₹${amount.toLocaleString()} paid to ${vendor.name} - auto-tracked in expenses${recoveryNote}`,
         });
       } else if (data) {
         toast({
           title: "Payment recorded",
-          description: `₹${amount.toLocaleString()} paid to ${vendor.name}`,
+          description: `₹${amount.toLocaleString()} paid to ${vendor.name}${recoveryNote}`,
         });
         toast({
           title: "⚠️ Expense not auto-logged",
@@ -221,6 +249,7 @@ export function VendorPaymentsDialog({
       setShowAddForm(false);
       fetchPayments();
       fetchVendorBalance();
+      fetchActiveAdvances(vendor.id).then(setAdvances, () => setAdvances([]));
       onPaymentSuccess();
     }
     setSaving(false);
@@ -302,6 +331,11 @@ export function VendorPaymentsDialog({
                       setPaymentForm({ ...paymentForm, amount: e.target.value })
                     }
                   />
+                  {plannedRecovery > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      ₹{plannedRecovery.toLocaleString()} will also be recovered against advances
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,127 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { ShieldCheck } from "lucide-react";
+import { buildQualityTrend, buildVendorScorecard, type QualityRecord } from "@/lib/collection-testing";
+
+interface VendorQualityScorecardProps {
+  records: QualityRecord[];
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** Rejection rates and tested quality per vendor, with the monthly trend */
+export function VendorQualityScorecard({ records }: VendorQualityScorecardProps) {
+  const scorecard = useMemo(() => buildVendorScorecard(records), [records]);
+  const trend = useMemo(
+    () =>
+      buildQualityTrend(records).map((point) => ({
+        ...point,
+        rejection_pct: Math.round(point.rejection_rate * 1000) / 10,
+        downgrade_pct: Math.round(point.downgrade_rate * 1000) / 10,
+      })),
+    [records]
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-primary" />
+            Vendor Quality Scorecard
+          </CardTitle>
+          <CardDescription>Highest rejection rate first; averages cover accepted milk only</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {scorecard.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No collections in this period</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead className="text-right">Offered (L)</TableHead>
+                  <TableHead className="text-right">Rejected (L)</TableHead>
+                  <TableHead className="text-right">Rejection Rate</TableHead>
+                  <TableHead className="text-right">Downgraded</TableHead>
+                  <TableHead className="text-right">Fat / SNF %</TableHead>
+                  <TableHead className="text-right">Added Water</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scorecard.map((v) => (
+                  <TableRow key={v.vendor_id}>
+                    <TableCell className="font-medium">{v.vendor_name}</TableCell>
+                    <TableCell className="text-right">{v.liters.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{v.rejected_liters > 0 ? v.rejected_liters.toFixed(1) : "-"}</TableCell>
+                    <TableCell className="text-right">
+                      {v.rejection_rate > 0 ? (
+                        <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                          {pct(v.rejection_rate)}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">0%</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {v.downgraded > 0 ? `${v.downgraded} of ${v.entries}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {v.avg_fat ?? "-"} / {v.avg_snf ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right">{v.avg_water !== null ? `${v.avg_water}%` : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Quality Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {trend.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No quality data recorded</div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="rate" tick={{ fontSize: 12 }} unit="%" />
+                <YAxis yAxisId="solids" orientation="right" domain={[0, "auto"]} tick={{ fontSize: 12 }} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--background))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                  }}
+                />
+                <Legend />
+                <Line yAxisId="rate" type="monotone" dataKey="rejection_pct" name="Rejected %" stroke="#ef4444" strokeWidth={2} />
+                <Line yAxisId="rate" type="monotone" dataKey="downgrade_pct" name="Downgraded %" stroke="#f59e0b" strokeWidth={2} />
+                <Line yAxisId="rate" type="monotone" dataKey="avg_water" name="Added water %" stroke="hsl(var(--chart-2))" strokeWidth={2} connectNulls />
+                <Line yAxisId="solids" type="monotone" dataKey="avg_fat" name="Fat %" stroke="hsl(var(--chart-4))" strokeWidth={2} connectNulls />
+                <Line yAxisId="solids" type="monotone" dataKey="avg_snf" name="SNF %" stroke="hsl(var(--chart-5))" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { splitMilk } from "@/lib/milk-withdrawal";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -35,6 +36,9 @@ interface DailyProduction {
   morning: number;
   evening: number;
   total: number;
+  /** Withheld during treatment withdrawal */
+  discarded: number;
+  saleable: number;
   cattleCount: number;
 }
 
@@ -100,7 +104,7 @@ export function DailyDataTable() {
       // Fetch production data
       const { data: production } = await supabase
         .from("milk_production")
-        .select("production_date, session, quantity_liters, cattle_id")
+        .select("production_date, session, quantity_liters, cattle_id, is_withheld")
         .gte("production_date", startStr)
         .lte("production_date", endStr);
 
@@ -110,11 +114,14 @@ export function DailyDataTable() {
         const morning = dayProd.filter(p => p.session === "morning").reduce((sum, p) => sum + Number(p.quantity_liters), 0);
         const evening = dayProd.filter(p => p.session === "evening").reduce((sum, p) => sum + Number(p.quantity_liters), 0);
         const uniqueCattle = new Set(dayProd.map(p => p.cattle_id)).size;
+        const { saleable, discarded } = splitMilk(dayProd);
         return {
           date: dateStr,
           morning,
           evening,
           total: morning + evening,
+          saleable,
+          discarded,
           cattleCount: uniqueCattle
         };
       });
@@ -144,7 +151,7 @@ export function DailyDataTable() {
       const [{ data: invoices }, { data: expenses }, { data: payments }] = await Promise.all([
         supabase.from("invoices").select("created_at, final_amount").gte("created_at", startStr).lte("created_at", endStr + "T23:59:59"),
         supabase.from("expenses").select("expense_date, amount").gte("expense_date", startStr).lte("expense_date", endStr),
-        supabase.from("payments").select("payment_date, amount").gte("payment_date", startStr).lte("payment_date", endStr)
+        supabase.from("payments").select("payment_date, amount").eq("status", "verified").gte("payment_date", startStr).lte("payment_date", endStr)
       ]);
 
       const finByDate = days.map(date => {
@@ -223,6 +230,8 @@ export function DailyDataTable() {
           { key: "morning", header: "Morning (L)", width: 12 },
           { key: "evening", header: "Evening (L)", width: 12 },
           { key: "total", header: "Total (L)", width: 12 },
+          { key: "saleable", header: "Saleable (L)", width: 12 },
+          { key: "discarded", header: "Discarded (L)", width: 12 },
           { key: "cattleCount", header: "Cattle", width: 10 }
         ];
         title = "Daily Production Report";
@@ -308,6 +317,8 @@ export function DailyDataTable() {
           <TableHead className="text-right">Morning (L)</TableHead>
           <TableHead className="text-right">Evening (L)</TableHead>
           <TableHead className="text-right">Total (L)</TableHead>
+          <TableHead className="text-right">Saleable (L)</TableHead>
+          <TableHead className="text-right">Discarded (L)</TableHead>
           <TableHead className="text-right">Cattle</TableHead>
         </TableRow>
       </TableHeader>
@@ -318,6 +329,8 @@ export function DailyDataTable() {
             <TableCell className="text-right">{row.morning.toFixed(1)}</TableCell>
             <TableCell className="text-right">{row.evening.toFixed(1)}</TableCell>
             <TableCell className="text-right font-semibold">{row.total.toFixed(1)}</TableCell>
+            <TableCell className="text-right">{row.saleable.toFixed(1)}</TableCell>
+            <TableCell className="text-right text-destructive">{row.discarded > 0 ? row.discarded.toFixed(1) : "-"}</TableCell>
             <TableCell className="text-right">{row.cattleCount}</TableCell>
           </TableRow>
         ))}
@@ -326,6 +339,8 @@ export function DailyDataTable() {
           <TableCell className="text-right">{productionData.reduce((sum, d) => sum + d.morning, 0).toFixed(1)}</TableCell>
           <TableCell className="text-right">{productionData.reduce((sum, d) => sum + d.evening, 0).toFixed(1)}</TableCell>
           <TableCell className="text-right">{productionData.reduce((sum, d) => sum + d.total, 0).toFixed(1)}</TableCell>
+          <TableCell className="text-right">{productionData.reduce((sum, d) => sum + d.saleable, 0).toFixed(1)}</TableCell>
+          <TableCell className="text-right text-destructive">{productionData.reduce((sum, d) => sum + d.discarded, 0).toFixed(1)}</TableCell>
           <TableCell className="text-right">-</TableCell>
         </TableRow>
       </TableBody>
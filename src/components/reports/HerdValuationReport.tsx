@@ -0,0 +1,125 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DataTable } from "@/components/common/DataTable";
+import { IndianRupee } from "lucide-react";
+import { useHerdValuation } from "@/hooks/useHerdValuation";
+import {
+  SALVAGE_RATIO,
+  USEFUL_LIFE_YEARS,
+  VALUATION_CLASS_LABELS,
+  type AnimalValuation,
+} from "@/lib/herd-valuation";
+
+type ValuationRow = AnimalValuation & { id: string; class_label: string };
+
+function formatAge(months: number | null): string {
+  if (months === null) return "-";
+  if (months < 24) return `${months} mo`;
+  return `${Math.floor(months / 12)} y ${months % 12} mo`;
+}
+
+/**
+ * Book value of every animal in the herd, by age and parity class and per
+ * animal, with purchase costs written down
+ */
+export function HerdValuationReport() {
+  const { data, isLoading } = useHerdValuation();
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const rows: ValuationRow[] = data.valuations.map((v) => ({
+    ...v,
+    id: v.cattle_id,
+    class_label: VALUATION_CLASS_LABELS[v.valuation_class],
+  }));
+
+  const columns = [
+    {
+      key: "tag_number",
+      header: "Tag #",
+      render: (item: ValuationRow) => (
+        <span className="font-medium">
+          {item.tag_number} {item.name && <span className="text-muted-foreground">({item.name})</span>}
+        </span>
+      ),
+    },
+    { key: "class_label", header: "Class" },
+    { key: "age_months", header: "Age", render: (item: ValuationRow) => formatAge(item.age_months) },
+    { key: "parity", header: "Parity" },
+    {
+      key: "cost",
+      header: "Cost",
+      render: (item: ValuationRow) =>
+        item.cost !== null ? `₹${item.cost.toLocaleString()}` : <Badge variant="outline">Market</Badge>,
+    },
+    {
+      key: "depreciation",
+      header: "Depreciation",
+      render: (item: ValuationRow) => (item.depreciation > 0 ? `₹${item.depreciation.toLocaleString()}` : "-"),
+    },
+    {
+      key: "book_value",
+      header: "Book Value",
+      render: (item: ValuationRow) => <span className="font-semibold">₹{item.book_value.toLocaleString()}</span>,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Herd Book Value</p>
+                <p className="text-2xl font-bold text-primary">₹{data.total.toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">{data.valuations.length} animals</p>
+              </div>
+              <IndianRupee className="h-8 w-8 text-primary/50" />
+            </div>
+          </CardContent>
+        </Card>
+        {data.summary.slice(0, 3).map((s) => (
+          <Card key={s.valuation_class}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{VALUATION_CLASS_LABELS[s.valuation_class]}</p>
+              <p className="text-xl font-bold">₹{s.total.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">{s.count} animals</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Age & Parity</CardTitle>
+          <CardDescription>
+            Purchase costs are written down over {USEFUL_LIFE_YEARS} years to {SALVAGE_RATIO * 100}% from first calving
+            age; home-bred animals are at market value for their class
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {data.summary.map((s) => (
+              <div key={s.valuation_class} className="flex items-center justify-between rounded-lg border p-3">
+                <span>{VALUATION_CLASS_LABELS[s.valuation_class]}</span>
+                <span className="text-sm text-muted-foreground">
+                  {s.count} × avg ₹{Math.round(s.total / s.count).toLocaleString()} ={" "}
+                  <span className="font-semibold text-foreground">₹{s.total.toLocaleString()}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <DataTable
+        data={rows}
+        columns={columns}
+        searchPlaceholder="Search by tag, name, class..."
+        emptyMessage="No animals in the herd"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/common/ConfirmDialog";
+import { MilkWastageDialog } from "@/components/reports/MilkWastageDialog";
+import {
+  useDeleteMilkWastage,
+  useMilkBalance,
+  useRecordMilkWastage,
+  type MilkWastageEntry,
+} from "@/hooks/useMilkBalance";
+import { WASTAGE_REASON_LABELS, type BalancePeriod, type MilkBalanceRow, type WastageReason } from "@/lib/milk-balance";
+import { AlertTriangle, Plus, Scale, Trash2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { cn } from "@/lib/utils";
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function ShrinkageCard({ title, row }: { title: string; row: MilkBalanceRow | undefined }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground">{title}</p>
+        {row ? (
+          <>
+            <p className={cn("text-2xl font-bold", row.shrinkage > 0 ? "text-destructive" : "text-success")}>
+              {row.shrinkage.toFixed(1)} L
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatPercent(row.shrinkage_rate)} of {row.inflow.toFixed(1)} L in
+            </p>
+          </>
+        ) : (
+          <p className="text-2xl font-bold text-muted-foreground">-</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Where each day's milk went: production and procurement against sales in
+ * milk-equivalent litres, withheld milk and wastage, with the shrinkage
+ * left unaccounted for
+ */
+export function MilkBalanceReport() {
+  const { data, isLoading } = useMilkBalance();
+  const recordWastage = useRecordMilkWastage();
+  const deleteWastage = useDeleteMilkWastage();
+  const [period, setPeriod] = useState<BalancePeriod>("day");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<MilkWastageEntry | null>(null);
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const rows = period === "day" ? data.daily : period === "week" ? data.weekly : data.monthly;
+  const chartData = data.daily.slice(0, 30).reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Record Wastage
+        </Button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+        <ShrinkageCard title="Shrinkage Today" row={data.daily.find((r) => r.date === today)} />
+        <ShrinkageCard title="This Week" row={data.weekly[0]} />
+        <ShrinkageCard title="This Month" row={data.monthly[0]} />
+      </div>
+
+      {data.unmapped.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-warning" />
+          <span>
+            No milk equivalent set for {data.unmapped.join(", ")}. Sales of these products are left out until one is
+            set on the Products page.
+          </span>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Daily Shrinkage (Last 30 Days)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No milk movement recorded</p>
+          ) : (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                  <YAxis tick={{ fontSize: 12 }} axisLine={false} tickLine={false} tickFormatter={(v) => `${v}L`} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                    formatter={(value: number) => [`${value} L`, ""]}
+                  />
+                  <Legend />
+                  <Bar dataKey="wasted" stackId="loss" fill="hsl(38, 92%, 50%)" name="Wastage" />
+                  <Bar dataKey="withheld" stackId="loss" fill="hsl(199, 89%, 48%)" name="Withheld" />
+                  <Bar dataKey="shrinkage" stackId="loss" fill="hsl(0, 72%, 51%)" name="Shrinkage" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Milk Balance</CardTitle>
+            <CardDescription>
+              Products are converted to the litres of milk they were made from, or counted as processed on their batch date
+            </CardDescription>
+          </div>
+          <Select value={period} onValueChange={(v) => setPeriod(v as BalancePeriod)}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No milk movement recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Produced</TableHead>
+                  <TableHead className="text-right">Procured</TableHead>
+                  <TableHead className="text-right">Milk Sold</TableHead>
+                  <TableHead className="text-right">Products Sold</TableHead>
+                  <TableHead className="text-right">Processed</TableHead>
+                  <TableHead className="text-right">Withheld</TableHead>
+                  <TableHead className="text-right">Wastage</TableHead>
+                  <TableHead className="text-right">Shrinkage</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.date}>
+                    <TableCell className="whitespace-nowrap font-medium">{r.label}</TableCell>
+                    <TableCell className="text-right">{r.produced.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{r.procured.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{r.sold_milk.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{r.sold_products.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{r.processed > 0 ? r.processed.toFixed(1) : "-"}</TableCell>
+                    <TableCell className="text-right">{r.withheld > 0 ? r.withheld.toFixed(1) : "-"}</TableCell>
+                    <TableCell className="text-right">{r.wasted > 0 ? r.wasted.toFixed(1) : "-"}</TableCell>
+                    <TableCell className={cn("text-right font-semibold", r.shrinkage > 0 ? "text-destructive" : "text-success")}>
+                      {r.shrinkage.toFixed(1)} L
+                      <span className="block text-xs font-normal text-muted-foreground">{formatPercent(r.shrinkage_rate)}</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Wastage Log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.wastage.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No wastage recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Litres</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.wastage.map((w) => (
+                  <TableRow key={w.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(w.wastage_date), "dd MMM yyyy")}
+                      {w.session && <span className="block text-xs text-muted-foreground capitalize">{w.session}</span>}
+                    </TableCell>
+                    <TableCell>{WASTAGE_REASON_LABELS[w.reason as WastageReason] || w.reason}</TableCell>
+                    <TableCell className="text-right">{w.quantity_liters.toFixed(1)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{w.notes || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => setDeleting(w)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <MilkWastageDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        saving={recordWastage.isPending}
+        onSave={(formData) => recordWastage.mutate(formData, { onSuccess: () => setDialogOpen(false) })}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(o) => !o && setDeleting(null)}
+        title="Delete Wastage Entry?"
+        description={`${deleting?.quantity_liters.toFixed(1)} L logged on ${
+          deleting ? format(parseISO(deleting.wastage_date), "dd MMM yyyy") : ""
+        } will count as shrinkage again.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => deleting && deleteWastage.mutate(deleting.id, { onSuccess: () => setDeleting(null) })}
+      />
+    </div>
+  );
+}
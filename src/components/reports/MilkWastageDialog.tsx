@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogDescription,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+} from "@/components/ui/responsive-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { MilkWastageFormData } from "@/hooks/useMilkBalance";
+import { WASTAGE_REASONS, WASTAGE_REASON_LABELS, type WastageReason } from "@/lib/milk-balance";
+
+interface MilkWastageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saving: boolean;
+  onSave: (formData: MilkWastageFormData) => void;
+}
+
+function toFormData(): MilkWastageFormData {
+  return {
+    wastage_date: format(new Date(), "yyyy-MM-dd"),
+    session: "",
+    reason: "spillage",
+    quantity_liters: "",
+    notes: "",
+  };
+}
+
+/** Log milk lost at the dairy so it is accounted for in the balance */
+export function MilkWastageDialog({ open, onOpenChange, saving, onSave }: MilkWastageDialogProps) {
+  const [formData, setFormData] = useState<MilkWastageFormData>(toFormData());
+
+  useEffect(() => {
+    if (open) setFormData(toFormData());
+  }, [open]);
+
+  const set = (patch: Partial<MilkWastageFormData>) => setFormData({ ...formData, ...patch });
+  const canSave = formData.wastage_date && parseFloat(formData.quantity_liters) > 0;
+
+  return (
+    <ResponsiveDialog open={open} onOpenChange={onOpenChange}>
+      <ResponsiveDialogContent className="max-w-md">
+        <ResponsiveDialogHeader>
+          <ResponsiveDialogTitle>Record Wastage</ResponsiveDialogTitle>
+          <ResponsiveDialogDescription>Milk spilt, spoiled or used up in testing</ResponsiveDialogDescription>
+        </ResponsiveDialogHeader>
+
+        <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={formData.wastage_date} onChange={(e) => set({ wastage_date: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Session</Label>
+              <Select value={formData.session || "any"} onValueChange={(v) => set({ session: v === "any" ? "" : v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Whole day</SelectItem>
+                  <SelectItem value="morning">Morning</SelectItem>
+                  <SelectItem value="evening">Evening</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={formData.reason} onValueChange={(v) => set({ reason: v as WastageReason })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {WASTAGE_REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>{WASTAGE_REASON_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quantity (L) *</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.quantity_liters}
+                onChange={(e) => set({ quantity_liters: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={formData.notes} onChange={(e) => set({ notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(formData)} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </div>
+      </ResponsiveDialogContent>
+    </ResponsiveDialog>
+  );
+}
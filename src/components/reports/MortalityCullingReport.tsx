@@ -0,0 +1,166 @@
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skull, ArrowRightLeft } from "lucide-react";
+import { DISPOSAL_ANALYSIS_MONTHS, useHerdValuation } from "@/hooks/useHerdValuation";
+import { CARCASS_DISPOSAL_LABELS, LIFECYCLE_EVENT_LABELS, getCauseLabel, type LifecycleEventType } from "@/lib/herd-valuation";
+import { cn } from "@/lib/utils";
+
+const eventStyles: Record<LifecycleEventType, string> = {
+  purchase: "bg-info/10 text-info border-info/20",
+  sale: "bg-success/10 text-success border-success/20",
+  cull: "bg-warning/10 text-warning border-warning/20",
+  death: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Deaths and culls by cause over the past year, sale results, and the log
+ * of every purchase, sale and loss
+ */
+export function MortalityCullingReport() {
+  const { data, isLoading } = useHerdValuation();
+
+  if (isLoading || !data) return <Skeleton className="h-64 w-full" />;
+
+  const { analysis, events } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Deaths</p>
+            <p className="text-2xl font-bold text-destructive">{analysis.deaths}</p>
+            <p className="text-xs text-muted-foreground">Mortality {formatPercent(analysis.mortality_rate)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Culls</p>
+            <p className="text-2xl font-bold text-warning">{analysis.culls}</p>
+            <p className="text-xs text-muted-foreground">Cull rate {formatPercent(analysis.cull_rate)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Sale Proceeds</p>
+            <p className="text-2xl font-bold text-success">₹{analysis.sale_proceeds.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Gain on Sales</p>
+            <p className={cn("text-2xl font-bold", analysis.sale_gain < 0 ? "text-destructive" : "text-success")}>
+              ₹{analysis.sale_gain.toLocaleString()}
+            </p>
+            <p className="text-xs text-muted-foreground">Against book value</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Skull className="h-5 w-5 text-destructive" />
+            Mortality & Culling by Cause
+          </CardTitle>
+          <CardDescription>Last {DISPOSAL_ANALYSIS_MONTHS} months</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {analysis.by_cause.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No deaths or culls recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cause</TableHead>
+                  <TableHead className="text-right">Deaths</TableHead>
+                  <TableHead className="text-right">Culls</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Avg Age</TableHead>
+                  <TableHead className="text-right">Book Value Lost</TableHead>
+                  <TableHead className="text-right">Recovered</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.by_cause.map((c) => (
+                  <TableRow key={c.cause ?? "none"}>
+                    <TableCell className="font-medium">{c.label}</TableCell>
+                    <TableCell className="text-right">{c.deaths}</TableCell>
+                    <TableCell className="text-right">{c.culls}</TableCell>
+                    <TableCell className="text-right">{formatPercent(c.share)}</TableCell>
+                    <TableCell className="text-right">
+                      {c.avg_age_months !== null ? `${(c.avg_age_months / 12).toFixed(1)} y` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">₹{c.book_value_lost.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₹{c.recovered.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5 text-primary" />
+            Purchases, Sales & Losses
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No events recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Animal</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((e) => (
+                  <TableRow key={e.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(e.event_date), "dd MMM yyyy")}</TableCell>
+                    <TableCell>
+                      {e.tag_number} {e.name && <span className="text-muted-foreground">({e.name})</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={eventStyles[e.event_type]}>
+                        {LIFECYCLE_EVENT_LABELS[e.event_type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[
+                        e.counterparty,
+                        e.cause && getCauseLabel(e.cause),
+                        e.carcass_disposal && CARCASS_DISPOSAL_LABELS[e.carcass_disposal],
+                        e.insurance_claim_amount && `Claim ₹${Number(e.insurance_claim_amount).toLocaleString()}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {e.amount !== null ? `₹${Number(e.amount).toLocaleString()}` : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
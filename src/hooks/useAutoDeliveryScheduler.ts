@@ -1,14 +1,7 @@
 import { useCallback } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
-import { format, addDays, getDay } from "date-fns";
-
-interface CustomerSubscription {
-  customer_id: string;
-  product_id: string;
-  quantity: number;
-  custom_price: number | null;
-  is_active: boolean;
-}
+import { getDueSubscriptions, type DeliveryScheduleRule } from "@/lib/delivery-schedule";
+import { format, addDays } from "date-fns";
 
 interface ScheduleResult {
   scheduled: number;
@@ -17,104 +10,13 @@ interface ScheduleResult {
   errors: string[];
 }
 
-interface CustomerWithSubscription {
-  id: string;
-  name: string;
-  subscription_type: string;
-  notes: string | null;
-  is_active: boolean;
-}
-
-interface DeliverySchedule {
-  delivery_days: {
-    monday: boolean;
-    tuesday: boolean;
-    wednesday: boolean;
-    thursday: boolean;
-    friday: boolean;
-    saturday: boolean;
-    sunday: boolean;
-  };
-  auto_deliver: boolean;
-}
-
-// Map day of week (0 = Sunday, 1 = Monday, etc.) to delivery_days key
-const dayOfWeekMap: Record<number, keyof DeliverySchedule["delivery_days"]> = {
-  0: "sunday",
-  1: "monday",
-  2: "tuesday",
-  3: "wednesday",
-  4: "thursday",
-  5: "friday",
-  6: "saturday",
-};
-
-/**
- * Parse schedule metadata from customer notes
- */
-function parseScheduleFromNotes(notes: string | null): DeliverySchedule | null {
-  if (!notes) return null;
-  
-  try {
-    const scheduleIdx = notes.indexOf("Schedule:");
-    if (scheduleIdx !== -1) {
-      const jsonStr = notes.substring(scheduleIdx + "Schedule:".length).trim();
-      return JSON.parse(jsonStr);
-    }
-  } catch (e) {
-    console.error("Failed to parse schedule from notes:", e);
-  }
-  
-  return null;
-}
-
-/**
- * Check if a customer should receive delivery on a given date based on subscription type
- */
-function shouldDeliverOnDate(
-  customer: CustomerWithSubscription,
-  targetDate: Date,
-  schedule: DeliverySchedule | null
-): boolean {
-  const dayOfWeek = getDay(targetDate);
-  const dayKey = dayOfWeekMap[dayOfWeek];
-
-  // If we have a custom schedule, use it
-  if (schedule?.delivery_days) {
-    return schedule.delivery_days[dayKey];
-  }
-
-  // Fallback to subscription_type logic
-  switch (customer.subscription_type) {
-    case "daily":
-      return true;
-    
-    case "alternate": {
-      // Calculate days since a reference point (e.g., Jan 1, 2024)
-      const refDate = new Date(2024, 0, 1);
-      const daysSinceRef = Math.floor((targetDate.getTime() - refDate.getTime()) / (1000 * 60 * 60 * 24));
-      return daysSinceRef % 2 === 0;
-    }
-    
-    case "weekly":
-      // Default to Sunday for weekly
-      return dayOfWeek === 0;
-    
-    case "custom":
-      // Custom requires schedule in notes, if not found deliver daily
-      return true;
-    
-    default:
-      return true;
-  }
-}
-
 /**
  * Auto-scheduler for deliveries based on customer subscriptions
  * Algorithm:
+ * 0. Apply approved subscription change requests due by the target date
  * 1. Fetch all active customers with active subscriptions
- * 2. Check subscription frequency and delivery days
- * 3. Check vacation status for target date
+ * 2. Evaluate each subscription's delivery_schedules row (shared evaluator)
+ * 3. Check vacation status and prepaid wallet pause for target date
  * 4. Check if delivery already exists for that date
  * 5. Create deliveries with items for eligible customers
  * 6. Auto-mark as delivered if auto_deliver is enabled
@@ -128,13 +30,19 @@ export function useAutoDeliveryScheduler() {
     autoMarkDelivered: boolean = false
   ): Promise<ScheduleResult> => {
     const result: ScheduleResult = { scheduled: 0, skipped: 0, autoDelivered: 0, errors: [] };
-    const targetDateObj = new Date(targetDate);
 
     try {
+      // 0. Apply approved subscription changes that take effect by this date
+      const { error: changeError } = await supabase.rpc("apply_subscription_changes", { _as_of: targetDate });
+      if (changeError) {
+        result.errors.push(`Failed to apply subscription changes: ${changeError.message}`);
+      }
+
       // 1. Fetch active customers with active subscriptions
       const { data: subscriptions, error: subError } = await supabase
         .from("customer_products")
         .select(`
+          id,
           customer_id,
           product_id,
           quantity,
@@ -159,7 +67,7 @@ export function useAutoDeliveryScheduler() {
       // 2. Fetch customer details for frequency checking
       const { data: customers, error: custError } = await supabase
         .from("customers")
-        .select("id, name, subscription_type, notes, is_active")
+        .select("id, name, subscription_type, is_active, wallet_paused_at")
         .in("id", customerIds)
         .eq("is_active", true);
 
@@ -170,6 +78,19 @@ export function useAutoDeliveryScheduler() {
 
       const customerMap = new Map(customers?.map(c => [c.id, c]) || []);
 
+      const { data: schedules, error: schedError } = await supabase
+        .from("delivery_schedules")
+        .select("*")
+        .in("customer_id", customerIds)
+        .eq("is_active", true);
+
+      if (schedError) {
+        result.errors.push(`Failed to fetch delivery schedules: ${schedError.message}`);
+        return result;
+      }
+
+      const scheduleRules: DeliveryScheduleRule[] = schedules || [];
+
       // 3. Check which customers are on vacation
       const { data: vacations } = await supabase
         .from("customer_vacations")
@@ -189,7 +110,11 @@ export function useAutoDeliveryScheduler() {
       const existingCustomerIds = new Set(existingDeliveries?.map(d => d.customer_id) || []);
 
       // 5. Filter eligible customers based on all criteria
-      const eligibleCustomers: { customerId: string; autoDeliver: boolean }[] = [];
+      const eligibleCustomers: {
+        customerId: string;
+        autoDeliver: boolean;
+        dueSubs: NonNullable<typeof subscriptions>;
+      }[] = [];
 
       customerIds.forEach(customerId => {
         const customer = customerMap.get(customerId);
@@ -204,24 +129,35 @@ export function useAutoDeliveryScheduler() {
           return;
         }
 
+        // Skip prepaid customers whose wallet has run out (past any grace)
+        if (customer.wallet_paused_at) {
+          result.skipped++;
+          return;
+        }
+
         // Skip if delivery already exists
         if (existingCustomerIds.has(customerId)) {
           result.skipped++;
           return;
         }
 
-        // Parse schedule from notes
-        const schedule = parseScheduleFromNotes(customer.notes);
+        // Keep only the subscriptions whose schedule falls on this date
+        const { due, autoDeliver } = getDueSubscriptions(
+          subscriptions || [],
+          scheduleRules,
+          customer,
+          targetDate
+        );
 
-        // Check if should deliver on this date based on frequency
-        if (!shouldDeliverOnDate(customer, targetDateObj, schedule)) {
+        if (due.length === 0) {
           result.skipped++;
           return;
         }
 
         eligibleCustomers.push({
           customerId,
-          autoDeliver: autoMarkDelivered || (schedule?.auto_deliver ?? false),
+          autoDeliver: autoMarkDelivered || autoDeliver,
+          dueSubs: due,
         });
       });
 
@@ -230,7 +166,7 @@ export function useAutoDeliveryScheduler() {
       }
 
       // 6. Create deliveries with items
-      for (const { customerId, autoDeliver } of eligibleCustomers) {
+      for (const { customerId, autoDeliver, dueSubs } of eligibleCustomers) {
         try {
           // Create delivery
           const deliveryStatus = autoDeliver ? "delivered" : "pending";
@@ -250,14 +186,9 @@ export function useAutoDeliveryScheduler() {
             continue;
           }
 
-          // Get customer's active subscriptions
-          const customerSubs = subscriptions?.filter(
-            s => s.customer_id === customerId && s.is_active
-          ) || [];
-
-          // Create delivery items
-          if (customerSubs.length > 0 && delivery) {
-            const deliveryItems = customerSubs.map(sub => {
+          // Create delivery items for the subscriptions due today
+          if (dueSubs.length > 0 && delivery) {
+            const deliveryItems = dueSubs.map(sub => {
               const product = sub.products as any;
               const unitPrice = sub.custom_price ?? product?.base_price ?? 0;
               return {
@@ -1,6 +1,14 @@
 import { useCallback } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { format, endOfMonth, addDays } from "date-fns";
+import {
+  calculateGstLine,
+  buildInvoiceTaxFields,
+  resolvePlaceOfSupply,
+  isInterState,
+  type GstLine,
+} from "@/lib/gst";
+import { PREPAID_BILLING_CYCLE } from "@/lib/prepaid-wallet";
 
 interface DeliveryItem {
   product_id: string;
@@ -36,7 +44,7 @@ interface InvoiceGenerationResult {
  * 
  * Algorithm:
  * 1. Aggregate delivered items for each customer in billing period (batch fetch)
- * 2. Calculate totals with customer-specific pricing
+ * 2. Calculate totals with customer-specific pricing and per-line GST
  * 3. Generate invoice numbers in sequence
  * 4. Bulk insert invoices
  */
@@ -155,20 +163,31 @@ export function useAutoInvoiceGenerator() {
     };
 
     try {
-      // BATCH FETCH 1: Get current UPI handle from dairy settings
+      // BATCH FETCH 1: Get current UPI handle and GST registration from dairy settings
       const { data: dairySettings } = await supabase
         .from("dairy_settings")
-        .select("upi_handle")
+        .select("upi_handle, gstin, state_code")
         .limit(1)
         .single();
       
       const currentUpiHandle = dairySettings?.upi_handle || null;
-
-      // BATCH FETCH 2: Get all active customers
-      const { data: customers, error: custError } = await supabase
-        .from("customers")
-        .select("id, name")
-        .eq("is_active", true);
+      const supplier = {
+        gstin: dairySettings?.gstin || null,
+        state_code: dairySettings?.state_code || null,
+      };
+
+      // BATCH FETCH 2: Get all active customers and product tax settings
+      const [{ data: customers, error: custError }, { data: products }] = await Promise.all([
+        supabase
+          .from("customers")
+          .select("id, name, gstin, state_code")
+          .eq("is_active", true)
+          // Prepaid customers pay per delivery from their wallet
+          .or(`billing_cycle.is.null,billing_cycle.neq.${PREPAID_BILLING_CYCLE}`),
+        supabase
+          .from("products")
+          .select("id, name, unit, hsn_code, tax_class, tax_percentage"),
+      ]);
 
       if (custError) {
         result.errors.push(`Failed to fetch customers: ${custError.message}`);
@@ -180,7 +199,8 @@ export function useAutoInvoiceGenerator() {
       }
 
       const customerIds = customers.map(c => c.id);
-      const customerMap = new Map(customers.map(c => [c.id, c.name]));
+      const customerMap = new Map(customers.map(c => [c.id, c]));
+      const productMap = new Map((products || []).map(p => [p.id, p]));
 
       // BATCH FETCH 3: Get all existing invoices for this period in one query
       const { data: existingInvoices } = await supabase
@@ -238,6 +258,7 @@ export function useAutoInvoiceGenerator() {
         customer_id: string;
         customer_name: string;
         total_amount: number;
+        tax_fields: ReturnType<typeof buildInvoiceTaxFields>;
       }> = [];
 
       for (const customerId of customersToInvoice) {
@@ -248,14 +269,41 @@ export function useAutoInvoiceGenerator() {
           continue;
         }
 
-        // Calculate total from delivery items
-        let totalAmount = 0;
+        // Aggregate delivery items per product and rate
+        const grouped = new Map<string, DeliveryItem>();
         customerDeliveries.forEach(delivery => {
           (delivery.delivery_items || []).forEach((item: DeliveryItem) => {
-            totalAmount += item.total_amount;
+            const key = `${item.product_id}_${item.unit_price}`;
+            const existing = grouped.get(key);
+            if (existing) {
+              existing.quantity += Number(item.quantity);
+            } else {
+              grouped.set(key, { ...item, quantity: Number(item.quantity) });
+            }
           });
         });
 
+        const customer = customerMap.get(customerId);
+        const placeOfSupply = resolvePlaceOfSupply(customer || {}, supplier.state_code);
+        const interState = isInterState(supplier.state_code, placeOfSupply);
+
+        const lines: GstLine[] = Array.from(grouped.values()).map(item => {
+          const product = productMap.get(item.product_id);
+          return calculateGstLine({
+            product_id: item.product_id,
+            description: product?.name || "Product",
+            hsn_code: product?.hsn_code || null,
+            tax_class: product?.tax_class || null,
+            gst_rate: product?.tax_percentage ?? 0,
+            unit: product?.unit || "unit",
+            quantity: item.quantity,
+            rate: Number(item.unit_price),
+          }, interState);
+        });
+
+        const taxFields = buildInvoiceTaxFields(lines, supplier, customer?.gstin || null, placeOfSupply);
+        const totalAmount = taxFields.total_amount + taxFields.tax_amount;
+
         if (totalAmount === 0) {
           result.skipped++;
           continue;
@@ -263,8 +311,9 @@ export function useAutoInvoiceGenerator() {
 
         invoiceDataList.push({
           customer_id: customerId,
-          customer_name: customerMap.get(customerId) || "Unknown",
+          customer_name: customer?.name || "Unknown",
           total_amount: totalAmount,
+          tax_fields: taxFields,
         });
       }
 
@@ -281,8 +330,7 @@ export function useAutoInvoiceGenerator() {
         customer_id: data.customer_id,
         billing_period_start: periodStart,
         billing_period_end: periodEnd,
-        total_amount: data.total_amount,
-        tax_amount: 0,
+        ...data.tax_fields,
         discount_amount: 0,
         final_amount: data.total_amount,
         paid_amount: 0,
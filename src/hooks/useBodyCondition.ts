@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateCattleRelated } from "@/lib/query-invalidation";
+import type { BodyConditionRecord, WeightSample } from "@/lib/body-condition";
+
+export interface BodyConditionFormData {
+  cattle_id: string;
+  record_date: string;
+  weight_kg: string;
+  body_condition_score: string;
+  notes: string;
+}
+
+/**
+ * Weight and condition history for one animal. Calf-rearing weigh-ins and
+ * the birth weight are merged into the weights so heifer growth charts start
+ * at birth.
+ */
+async function fetchBodyCondition(cattleId: string): Promise<{ records: BodyConditionRecord[]; weights: WeightSample[] }> {
+  const [recordsRes, calfRes, animalRes] = await Promise.all([
+    supabase
+      .from("body_condition_records")
+      .select("id, cattle_id, record_date, weight_kg, body_condition_score, notes")
+      .eq("cattle_id", cattleId)
+      .order("record_date", { ascending: false })
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("calf_rearing_events")
+      .select("event_date, weight_kg")
+      .eq("cattle_id", cattleId)
+      .not("weight_kg", "is", null),
+    supabase.from("cattle").select("date_of_birth, birth_weight").eq("id", cattleId).single(),
+  ]);
+  if (recordsRes.error) throw recordsRes.error;
+  if (calfRes.error) throw calfRes.error;
+  if (animalRes.error) throw animalRes.error;
+
+  const records = recordsRes.data || [];
+  const byDate = new Map<string, number>();
+  const { date_of_birth, birth_weight } = animalRes.data;
+  if (date_of_birth && birth_weight) byDate.set(date_of_birth, Number(birth_weight));
+  (calfRes.data || []).forEach((e) => byDate.set(e.event_date, Number(e.weight_kg)));
+  // Records are newest first, so walk them backwards to let the latest of a day win
+  [...records].reverse().forEach((r) => {
+    if (r.weight_kg !== null) byDate.set(r.record_date, Number(r.weight_kg));
+  });
+
+  const weights = [...byDate.entries()]
+    .map(([date, weight]) => ({ date, weight }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { records, weights };
+}
+
+export function useBodyCondition(cattleId: string | null) {
+  return useQuery({
+    queryKey: ["body-condition", cattleId],
+    queryFn: () => fetchBodyCondition(cattleId!),
+    enabled: !!cattleId,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useRecordBodyCondition() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: BodyConditionFormData) => {
+      const { error } = await supabase.from("body_condition_records").insert({
+        cattle_id: formData.cattle_id,
+        record_date: formData.record_date,
+        weight_kg: formData.weight_kg ? parseFloat(formData.weight_kg) : null,
+        body_condition_score: formData.body_condition_score ? parseFloat(formData.body_condition_score) : null,
+        notes: formData.notes || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cattle"] });
+      invalidateCattleRelated(queryClient);
+      toast({ title: "Body condition recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording body condition", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -1,5 +1,8 @@
 import { useMemo } from "react";
 import { addDays, differenceInDays, isAfter, isBefore, parseISO, format } from "date-fns";
+import { summarizeCompliance, type HealthTask } from "@/lib/health-protocols";
+import { formatBcs } from "@/lib/body-condition";
+import type { LactationAnalysis } from "@/lib/lactation-curve";
 
 interface BreedingRecord {
   id: string;
@@ -17,6 +20,7 @@ interface HealthRecord {
   record_type: string;
   title: string;
   next_due_date?: string | null;
+  protocol_id?: string | null;
 }
 
 interface Cattle {
@@ -30,7 +34,7 @@ interface Cattle {
 export interface BreedingAlert {
   id: string;
   type: "warning" | "error" | "info";
-  category: "heat_cycle" | "vaccination" | "calving" | "health_check" | "insemination" | "dry_off";
+  category: "heat_cycle" | "vaccination" | "calving" | "health_check" | "insemination" | "dry_off" | "health_protocol" | "body_condition";
   title: string;
   description: string;
   dueDate: Date;
@@ -44,11 +48,15 @@ export interface BreedingAlert {
 const HEAT_CYCLE_LENGTH = 21; // Days between heat cycles
 const GESTATION_PERIOD = 283; // Days for cow pregnancy
 const DRY_OFF_BEFORE_CALVING = 60; // Days before calving to dry off
+const NO_PROTOCOL_TASKS: HealthTask[] = [];
+const NO_LACTATIONS: LactationAnalysis[] = [];
 
 export function useBreedingAlerts(
   breedingRecords: BreedingRecord[],
   healthRecords: HealthRecord[],
-  cattle: Cattle[]
+  cattle: Cattle[],
+  protocolTasks: HealthTask[] = NO_PROTOCOL_TASKS,
+  lactations: LactationAnalysis[] = NO_LACTATIONS
 ): { alerts: BreedingAlert[]; criticalCount: number; warningCount: number; upcomingCount: number } {
   const cattleMap = useMemo(() => {
     const map = new Map<string, Cattle>();
@@ -152,8 +160,11 @@ export function useBreedingAlerts(
         }
       }
 
-      // Follow-up insemination check (for AI records without pregnancy confirmation)
-      if (record.record_type === "artificial_insemination" && record.pregnancy_confirmed === null) {
+      // Follow-up insemination check (for services without pregnancy confirmation)
+      if (
+        (record.record_type === "artificial_insemination" || record.record_type === "natural_service") &&
+        record.pregnancy_confirmed === null
+      ) {
         const inseminationDate = parseISO(record.record_date);
         const pregnancyCheckDate = addDays(inseminationDate, 21); // Check pregnancy ~21 days after AI
         const daysUntil = differenceInDays(pregnancyCheckDate, today);
@@ -180,7 +191,8 @@ export function useBreedingAlerts(
 
     // Process health records for vaccination and health check alerts
     healthRecords.forEach((record) => {
-      if (!record.next_due_date) return;
+      // Protocol records are followed up through protocol compliance below
+      if (!record.next_due_date || record.protocol_id) return;
 
       const cattleInfo = cattleMap.get(record.cattle_id);
       if (!cattleInfo || cattleInfo.status !== "active") return;
@@ -219,12 +231,71 @@ export function useBreedingAlerts(
       }
     });
 
+    // Herd-health protocol compliance, one alert per animal
+    summarizeCompliance(protocolTasks).forEach((compliance) => {
+      const cattleInfo = cattleMap.get(compliance.cattle_id);
+      if (!cattleInfo || cattleInfo.status !== "active") return;
+
+      const overdue = compliance.overdue.length > 0;
+      const tasks = overdue ? compliance.overdue : compliance.due;
+      const first = tasks[0];
+      const dueDate = parseISO(first.due_date);
+      const daysUntil = differenceInDays(dueDate, today);
+
+      alertsList.push({
+        id: `protocol-${compliance.cattle_id}`,
+        type: overdue ? "error" : "warning",
+        category: "health_protocol",
+        title: overdue
+          ? `${tasks.length} Protocol Task${tasks.length > 1 ? "s" : ""} Overdue`
+          : `${tasks.length} Protocol Task${tasks.length > 1 ? "s" : ""} Due`,
+        description: `${compliance.tag_number}${compliance.name ? ` (${compliance.name})` : ""}: ${tasks
+          .map((t) =>
+            t.days_until < 0
+              ? `${t.protocol_name} ${t.last_done ? `${-t.days_until} days overdue` : "never recorded"}`
+              : `${t.protocol_name} ${t.days_until === 0 ? "due today" : `due in ${t.days_until} days`}`
+          )
+          .join(", ")}`,
+        dueDate,
+        daysUntil,
+        cattleId: compliance.cattle_id,
+        cattleTag: compliance.tag_number,
+        cattleName: compliance.name || undefined,
+        priority: overdue ? 1 : 2,
+      });
+    });
+
+    // Rapid loss of body condition in early lactation
+    lactations.forEach((lactation) => {
+      const bcs = lactation.bcs;
+      if (!bcs?.rapid_loss || bcs.change === null || !bcs.scored_on) return;
+      const cattleInfo = cattleMap.get(lactation.cattle_id);
+      if (!cattleInfo || cattleInfo.status !== "active") return;
+
+      const scoredOn = parseISO(bcs.scored_on);
+      alertsList.push({
+        id: `bcs-loss-${lactation.cattle_id}`,
+        type: "warning",
+        category: "body_condition",
+        title: "Rapid Condition Loss",
+        description: `${lactation.tag_number}${lactation.name ? ` (${lactation.name})` : ""} dropped from BCS ${formatBcs(
+          bcs.calving_score!
+        )} to ${formatBcs(bcs.current_score!)} by day ${lactation.current_dim} in milk`,
+        dueDate: scoredOn,
+        daysUntil: differenceInDays(scoredOn, today),
+        cattleId: lactation.cattle_id,
+        cattleTag: lactation.tag_number,
+        cattleName: lactation.name || undefined,
+        priority: 2,
+      });
+    });
+
     // Sort by priority (lower first), then by days until (closer first)
     return alertsList.sort((a, b) => {
       if (a.priority !== b.priority) return a.priority - b.priority;
       return a.daysUntil - b.daysUntil;
     });
-  }, [breedingRecords, healthRecords, cattleMap]);
+  }, [breedingRecords, healthRecords, cattleMap, protocolTasks, lactations]);
 
   const criticalCount = alerts.filter((a) => a.type === "error").length;
   const warningCount = alerts.filter((a) => a.type === "warning").length;
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { useToast } from "@/hooks/use-toast";
 import { format, addDays } from "date-fns";
+import { invalidateCattleRelated } from "@/lib/query-invalidation";
 
 export interface Cattle {
   id: string;
@@ -19,6 +20,9 @@ export interface BreedingRecord {
   heat_cycle_day: number | null;
   insemination_bull: string | null;
   insemination_technician: string | null;
+  semen_bull_id: string | null;
+  semen_straw_id: string | null;
+  technician_id: string | null;
   pregnancy_confirmed: boolean | null;
   expected_calving_date: string | null;
   actual_calving_date: string | null;
@@ -74,13 +78,23 @@ export interface CreateBreedingRecordInput {
   heat_cycle_day?: number | null;
   insemination_bull?: string | null;
   insemination_technician?: string | null;
+  semen_bull_id?: string | null;
+  semen_straw_id?: string | null;
+  technician_id?: string | null;
   pregnancy_confirmed?: boolean | null;
   expected_calving_date?: string | null;
   actual_calving_date?: string | null;
-  calf_details?: { gender?: string; weight?: number | null } | null;
+  calves?: CalfInput[];
   notes?: string | null;
 }
 
+export interface CalfInput {
+  gender: string;
+  weight: number | null;
+  tag_number?: string;
+  name?: string;
+}
+
 export function useBreedingData() {
   return useQuery({
     queryKey: ["breeding-data"],
@@ -97,6 +111,18 @@ export function useCreateBreedingRecord() {
 
   return useMutation({
     mutationFn: async (input: CreateBreedingRecordInput) => {
+      // Calves join the herd and the dam starts her next lactation in one go
+      if (input.record_type === "calving") {
+        const { data, error } = await supabase.rpc("register_calving", {
+          _dam_id: input.cattle_id,
+          _calving_date: input.actual_calving_date || input.record_date,
+          _calves: (input.calves || []).map((c) => ({ ...c })),
+          _notes: input.notes || undefined,
+        });
+        if (error) throw error;
+        return data;
+      }
+
       const record = {
         cattle_id: input.cattle_id,
         record_type: input.record_type,
@@ -105,17 +131,24 @@ export function useCreateBreedingRecord() {
         heat_cycle_day: null as number | null,
         insemination_bull: null as string | null,
         insemination_technician: null as string | null,
+        semen_bull_id: null as string | null,
+        semen_straw_id: null as string | null,
+        technician_id: null as string | null,
         pregnancy_confirmed: null as boolean | null,
         expected_calving_date: null as string | null,
         actual_calving_date: null as string | null,
-        calf_details: null as { gender?: string; weight?: number | null } | null,
       };
 
       if (input.record_type === "heat_detection") {
         record.heat_cycle_day = input.heat_cycle_day ?? null;
-      } else if (input.record_type === "artificial_insemination") {
+      } else if (input.record_type === "artificial_insemination" || input.record_type === "natural_service") {
         record.insemination_bull = input.insemination_bull || null;
-        record.insemination_technician = input.insemination_technician || null;
+        record.semen_bull_id = input.semen_bull_id || null;
+        if (input.record_type === "artificial_insemination") {
+          record.insemination_technician = input.insemination_technician || null;
+          record.semen_straw_id = input.semen_straw_id || null;
+          record.technician_id = input.technician_id || null;
+        }
         record.expected_calving_date = format(
           addDays(new Date(input.record_date), 283),
           "yyyy-MM-dd"
@@ -125,9 +158,6 @@ export function useCreateBreedingRecord() {
         if (input.expected_calving_date) {
           record.expected_calving_date = input.expected_calving_date;
         }
-      } else if (input.record_type === "calving") {
-        record.actual_calving_date = input.actual_calving_date || input.record_date;
-        record.calf_details = input.calf_details || null;
       }
 
       const { data, error } = await supabase
@@ -139,8 +169,16 @@ export function useCreateBreedingRecord() {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (_data, input) => {
+      if (input.record_type === "calving") {
+        invalidateCattleRelated(queryClient);
+        queryClient.invalidateQueries({ queryKey: ["cattle"] });
+        queryClient.invalidateQueries({ queryKey: ["calf-rearing"] });
+      }
       queryClient.invalidateQueries({ queryKey: ["breeding-data"] });
+      queryClient.invalidateQueries({ queryKey: ["health-protocols"] });
+      queryClient.invalidateQueries({ queryKey: ["herd-genetics"] });
+      queryClient.invalidateQueries({ queryKey: ["semen-inventory"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
       toast({ title: "Success", description: "Breeding record added successfully" });
     },
@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CALF_AGE_DAYS,
+  summarizeCalf,
+  type CalfSummary,
+  type RearingCalf,
+  type RearingEvent,
+  type RearingEventType,
+} from "@/lib/calf-rearing";
+
+export interface RearingEventFormData {
+  cattle_id: string;
+  event_type: RearingEventType;
+  event_date: string;
+  weight_kg: string;
+  colostrum_litres: string;
+  hours_after_birth: string;
+  notes: string;
+}
+
+type RearingCalfRow = RearingCalf & { dam: { tag_number: string } | null };
+
+async function fetchCalfRearing(): Promise<{ calves: (CalfSummary & { dam_tag: string | null })[]; events: RearingEvent[] }> {
+  const { data: calves, error } = await supabase
+    .from("cattle")
+    .select("id, tag_number, name, gender, date_of_birth, birth_weight, dam_id, dam:cattle!cattle_dam_id_fkey (tag_number)")
+    .eq("status", "active")
+    .gte("date_of_birth", format(subDays(new Date(), CALF_AGE_DAYS), "yyyy-MM-dd"))
+    .order("date_of_birth", { ascending: false });
+  if (error) throw error;
+
+  const rows = (calves || []) as unknown as RearingCalfRow[];
+  if (rows.length === 0) return { calves: [], events: [] };
+
+  const { data: events, error: eventsError } = await supabase
+    .from("calf_rearing_events")
+    .select("id, cattle_id, event_type, event_date, weight_kg, colostrum_litres, hours_after_birth, notes")
+    .in("cattle_id", rows.map((c) => c.id))
+    .order("event_date");
+  if (eventsError) throw eventsError;
+
+  return {
+    calves: rows.map((c) => ({ ...summarizeCalf(c, events || []), dam_tag: c.dam?.tag_number || null })),
+    events: events || [],
+  };
+}
+
+const toNumber = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+export function useCalfRearing() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["calf-rearing"],
+    queryFn: fetchCalfRearing,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const addEventMutation = useMutation({
+    mutationFn: async (formData: RearingEventFormData) => {
+      const weight = formData.event_type === "colostrum" ? null : toNumber(formData.weight_kg);
+      const { error } = await supabase.from("calf_rearing_events").insert({
+        cattle_id: formData.cattle_id,
+        event_type: formData.event_type,
+        event_date: formData.event_date,
+        weight_kg: weight,
+        colostrum_litres: formData.event_type === "colostrum" ? toNumber(formData.colostrum_litres) : null,
+        hours_after_birth: formData.event_type === "colostrum" ? toNumber(formData.hours_after_birth) : null,
+        notes: formData.notes || null,
+      });
+      if (error) throw error;
+
+      // Keep the herd record on the calf's latest weight
+      if (weight !== null) {
+        const { error: weightError } = await supabase.from("cattle").update({ weight }).eq("id", formData.cattle_id);
+        if (weightError) throw weightError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["calf-rearing"] });
+      queryClient.invalidateQueries({ queryKey: ["cattle"] });
+      toast({ title: "Calf record saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving calf record", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    calves: query.data?.calves || [],
+    events: query.data?.events || [],
+    isLoading: query.isLoading,
+    addEvent: addEventMutation.mutate,
+    isSaving: addEventMutation.isPending,
+  };
+}
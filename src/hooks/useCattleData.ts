@@ -13,9 +13,14 @@ export interface Cattle {
   status: string;
   lactation_status: string;
   weight: number | null;
+  body_condition_score: number | null;
+  gender: string | null;
+  lactation_number: number | null;
+  last_calving_date: string | null;
   created_at: string;
   sire_id: string | null;
   dam_id: string | null;
+  sire_bull_id: string | null;
 }
 
 export interface CattleFormData {
@@ -30,6 +35,7 @@ export interface CattleFormData {
   notes: string;
   sire_id: string;
   dam_id: string;
+  sire_bull_id: string;
 }
 
 async function fetchCattle(): Promise<Cattle[]> {
@@ -55,10 +61,20 @@ async function createCattle(formData: CattleFormData) {
     notes: formData.notes || null,
     sire_id: formData.sire_id || null,
     dam_id: formData.dam_id || null,
+    // A herd sire takes precedence over an AI sire
+    sire_bull_id: formData.sire_id ? null : formData.sire_bull_id || null,
   };
 
-  const { error } = await supabase.from("cattle").insert(payload);
+  const { data, error } = await supabase.from("cattle").insert(payload).select("id").single();
   if (error) throw error;
+
+  // The first weight starts the animal's weight history
+  if (payload.weight) {
+    const { error: weightError } = await supabase
+      .from("body_condition_records")
+      .insert({ cattle_id: data.id, weight_kg: payload.weight });
+    if (weightError) throw weightError;
+  }
 }
 
 async function updateCattle(id: string, formData: CattleFormData) {
@@ -68,16 +84,24 @@ async function updateCattle(id: string, formData: CattleFormData) {
     breed: formData.breed,
     cattle_type: formData.cattle_type,
     date_of_birth: formData.date_of_birth || null,
-    weight: formData.weight ? parseFloat(formData.weight) : null,
     status: formData.status as "active" | "sold" | "deceased" | "dry",
     lactation_status: formData.lactation_status as "lactating" | "dry" | "pregnant" | "calving",
     notes: formData.notes || null,
     sire_id: formData.sire_id || null,
     dam_id: formData.dam_id || null,
+    // A herd sire takes precedence over an AI sire
+    sire_bull_id: formData.sire_id ? null : formData.sire_bull_id || null,
   };
 
-  const { error } = await supabase.from("cattle").update(payload).eq("id", id);
+  const { data: current, error } = await supabase.from("cattle").update(payload).eq("id", id).select("weight").single();
   if (error) throw error;
+
+  // A changed weight is a new weigh-in; the history keeps cattle.weight current
+  const weight = formData.weight ? parseFloat(formData.weight) : null;
+  if (weight && weight !== Number(current.weight)) {
+    const { error: weightError } = await supabase.from("body_condition_records").insert({ cattle_id: id, weight_kg: weight });
+    if (weightError) throw weightError;
+  }
 }
 
 async function deleteCattle(id: string) {
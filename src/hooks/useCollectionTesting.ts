@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { readMilkQualityThresholds } from "@/lib/collection-testing";
+
+/** Acceptance thresholds for milk tested at collection, from dairy settings */
+export function useMilkQualityThresholds() {
+  return useQuery({
+    queryKey: ["milk-quality-thresholds"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("dairy_settings").select("settings").limit(1).maybeSingle();
+      if (error) throw error;
+      return readMilkQualityThresholds(data?.settings);
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -28,6 +28,9 @@ interface CustomerData {
   advance_balance: number;
   subscription_type: string | null;
   billing_cycle: string | null;
+  wallet_low_balance_threshold: number;
+  wallet_grace_amount: number;
+  wallet_paused_at: string | null;
 }
 
 const CustomerAuthContext = createContext<CustomerAuthContext | undefined>(undefined);
@@ -91,6 +91,7 @@ async function fetchRevenueGrowth(): Promise<MonthlyRevenue[]> {
       supabase
         .from("payments")
         .select("amount")
+        .eq("status", "verified")
         .gte("payment_date", start)
         .lte("payment_date", end),
     ]);
@@ -40,6 +40,7 @@ interface HealthRecord {
   record_type: string;
   title: string;
   next_due_date: string | null;
+  protocol_id: string | null;
 }
 
 async function fetchDashboardData() {
@@ -90,7 +91,7 @@ async function fetchDashboardData() {
 
   const healthPromise = supabase
     .from("cattle_health")
-    .select("id, cattle_id, record_type, title, next_due_date");
+    .select("id, cattle_id, record_type, title, next_due_date, protocol_id");
 
   const [
     productionRes,
@@ -0,0 +1,338 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { DAIRY_SUPPLY_CATEGORY } from "@/lib/dairy-processing";
+import {
+  buildFeedCostReport,
+  getAnimalGroup,
+  kgToFeedUnit,
+  planHerdRations,
+  type AnimalGroup,
+  type AnimalRationPlan,
+  type FeedNutrients,
+  type HerdAnimal,
+} from "@/lib/feed-ration";
+
+const PAGE_SIZE = 1000;
+
+/** Days of milk records averaged for the yield the planner feeds for */
+const YIELD_WINDOW_DAYS = 7;
+
+export interface FeedRationItem {
+  id: string;
+  feed_id: string;
+  proportion: number;
+  fixed_quantity: number | null;
+}
+
+export interface FeedRation {
+  id: string;
+  name: string;
+  animal_group: string;
+  is_active: boolean;
+  notes: string | null;
+  items: FeedRationItem[];
+}
+
+export interface RationFormData {
+  name: string;
+  animal_group: AnimalGroup;
+  notes: string;
+  items: { feed_id: string; proportion: string; fixed_quantity: string }[];
+}
+
+export interface RationFeed extends FeedNutrients {
+  id: string;
+  name: string;
+  unit: string;
+  cost_per_unit: number | null;
+}
+
+interface RationPlannerData {
+  rations: FeedRation[];
+  feeds: RationFeed[];
+  plans: AnimalRationPlan[];
+}
+
+async function fetchAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function fetchRationPlanner(): Promise<RationPlannerData> {
+  const since = format(subDays(new Date(), YIELD_WINDOW_DAYS), "yyyy-MM-dd");
+
+  const [rationsRes, feedsRes, cattleRes, recentMilk] = await Promise.all([
+    supabase
+      .from("feed_rations")
+      .select("id, name, animal_group, is_active, notes, feed_ration_items (id, feed_id, proportion, fixed_quantity)")
+      .order("animal_group")
+      .order("name"),
+    supabase
+      .from("feed_inventory")
+      .select("id, name, category, unit, cost_per_unit, dry_matter_pct, crude_protein_pct, tdn_pct, calcium_pct, phosphorus_pct")
+      .neq("category", DAIRY_SUPPLY_CATEGORY)
+      .order("name"),
+    supabase
+      .from("cattle")
+      .select("id, tag_number, name, weight, body_condition_score, lactation_status, lactation_number, last_calving_date, date_of_birth")
+      .eq("status", "active"),
+    fetchAll((from, to) =>
+      supabase
+        .from("milk_production")
+        .select("cattle_id, production_date, quantity_liters, fat_percentage")
+        .gte("production_date", since)
+        .order("production_date")
+        .range(from, to)
+    ),
+  ]);
+
+  if (rationsRes.error) throw rationsRes.error;
+  if (feedsRes.error) throw feedsRes.error;
+  if (cattleRes.error) throw cattleRes.error;
+
+  const rations: FeedRation[] = (rationsRes.data || []).map(({ feed_ration_items, ...r }) => ({
+    ...r,
+    items: feed_ration_items || [],
+  }));
+
+  // Average daily yield and fat over the recent window
+  const milk = new Map<string, { total: number; days: Set<string>; fatSum: number; fatCount: number }>();
+  recentMilk.forEach((m) => {
+    const entry = milk.get(m.cattle_id) || { total: 0, days: new Set<string>(), fatSum: 0, fatCount: 0 };
+    entry.total += Number(m.quantity_liters);
+    entry.days.add(m.production_date);
+    if (m.fat_percentage) {
+      entry.fatSum += Number(m.fat_percentage);
+      entry.fatCount += 1;
+    }
+    milk.set(m.cattle_id, entry);
+  });
+
+  const animals: HerdAnimal[] = (cattleRes.data || []).map((c) => {
+    const m = milk.get(c.id);
+    return {
+      cattle_id: c.id,
+      label: c.name ? `${c.tag_number} (${c.name})` : c.tag_number,
+      group: getAnimalGroup(c),
+      weight: c.weight,
+      body_condition_score: c.body_condition_score,
+      daily_yield: m && m.days.size > 0 ? m.total / m.days.size : 0,
+      fat_percentage: m && m.fatCount > 0 ? m.fatSum / m.fatCount : null,
+    };
+  });
+
+  const feeds = feedsRes.data || [];
+  const plans = planHerdRations(animals, rations, new Map(feeds.map((f) => [f.id, f])));
+
+  return { rations, feeds, plans };
+}
+
+export function useFeedRations() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const plannerQuery = useQuery({
+    queryKey: ["feed-rations"],
+    queryFn: fetchRationPlanner,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveRationMutation = useMutation({
+    mutationFn: async ({ id, formData }: { id?: string; formData: RationFormData }) => {
+      const payload = {
+        name: formData.name,
+        animal_group: formData.animal_group,
+        notes: formData.notes || null,
+      };
+
+      let rationId = id;
+      if (rationId) {
+        const { error } = await supabase.from("feed_rations").update(payload).eq("id", rationId);
+        if (error) throw error;
+        const { error: deleteError } = await supabase.from("feed_ration_items").delete().eq("ration_id", rationId);
+        if (deleteError) throw deleteError;
+      } else {
+        // A new ration becomes the group's active one
+        const { error: deactivateError } = await supabase
+          .from("feed_rations")
+          .update({ is_active: false })
+          .eq("animal_group", formData.animal_group)
+          .eq("is_active", true);
+        if (deactivateError) throw deactivateError;
+        const { data, error } = await supabase.from("feed_rations").insert(payload).select("id").single();
+        if (error) throw error;
+        rationId = data.id;
+      }
+
+      const items = formData.items
+        .filter((i) => i.feed_id)
+        .map((i) => ({
+          ration_id: rationId!,
+          feed_id: i.feed_id,
+          proportion: parseFloat(i.proportion) > 0 ? parseFloat(i.proportion) : 1,
+          fixed_quantity: i.fixed_quantity ? parseFloat(i.fixed_quantity) : null,
+        }));
+      if (items.length > 0) {
+        const { error } = await supabase.from("feed_ration_items").insert(items);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feed-rations"] });
+      toast({ title: "Ration saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving ration", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activateRationMutation = useMutation({
+    mutationFn: async (ration: FeedRation) => {
+      const { error: deactivateError } = await supabase
+        .from("feed_rations")
+        .update({ is_active: false })
+        .eq("animal_group", ration.animal_group)
+        .eq("is_active", true);
+      if (deactivateError) throw deactivateError;
+      const { error } = await supabase.from("feed_rations").update({ is_active: true }).eq("id", ration.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feed-rations"] });
+      toast({ title: "Ration activated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error activating ration", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const recordConsumptionMutation = useMutation({
+    mutationFn: async (consumptionDate: string) => {
+      const data = plannerQuery.data;
+      if (!data) return { inserted: 0, skipped: 0 };
+      const feeds = new Map(data.feeds.map((f) => [f.id, f]));
+
+      const entries: { feed_id: string; cattle_id: string; ration_id: string; quantity: number }[] = [];
+      let skipped = 0;
+      for (const animal of data.plans) {
+        if (!animal.plan || !animal.ration_id) continue;
+        for (const line of animal.plan.lines) {
+          const feed = feeds.get(line.feed_id);
+          const quantity = feed ? kgToFeedUnit(line.as_fed_kg, feed.unit) : null;
+          if (quantity === null) {
+            skipped += 1;
+            continue;
+          }
+          entries.push({
+            feed_id: line.feed_id,
+            cattle_id: animal.cattle_id,
+            ration_id: animal.ration_id,
+            quantity: Math.round(quantity * 1000) / 1000,
+          });
+        }
+      }
+
+      const { data: inserted, error } = await supabase.rpc("record_ration_consumption", {
+        _consumption_date: consumptionDate,
+        _entries: entries,
+      });
+      if (error) throw error;
+      return { inserted: inserted ?? 0, skipped };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["feed-cost-report"] });
+      toast({
+        title: "Feed consumption recorded",
+        description:
+          `${result.inserted} entries posted` +
+          (result.skipped > 0 ? `; ${result.skipped} skipped for feeds stocked in pieces or bundles` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording consumption", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    rations: plannerQuery.data?.rations || [],
+    feeds: plannerQuery.data?.feeds || [],
+    plans: plannerQuery.data?.plans || [],
+    isLoading: plannerQuery.isLoading,
+    saveRation: saveRationMutation.mutate,
+    activateRation: activateRationMutation.mutate,
+    recordConsumption: recordConsumptionMutation.mutate,
+    isSaving: saveRationMutation.isPending,
+    isRecording: recordConsumptionMutation.isPending,
+  };
+}
+
+async function fetchFeedCostReport(days: number) {
+  const since = format(subDays(new Date(), days), "yyyy-MM-dd");
+
+  const [consumption, production, feedsRes, cattleRes] = await Promise.all([
+    fetchAll((from, to) =>
+      supabase
+        .from("feed_consumption")
+        .select("cattle_id, feed_id, quantity")
+        .gte("consumption_date", since)
+        .order("consumption_date")
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from("milk_production")
+        .select("cattle_id, quantity_liters")
+        .gte("production_date", since)
+        .order("production_date")
+        .range(from, to)
+    ),
+    supabase.from("feed_inventory").select("id, cost_per_unit"),
+    supabase
+      .from("cattle")
+      .select("id, tag_number, name, lactation_status, lactation_number, last_calving_date, date_of_birth"),
+  ]);
+
+  if (feedsRes.error) throw feedsRes.error;
+  if (cattleRes.error) throw cattleRes.error;
+
+  const milkByCattle = new Map<string, number>();
+  production.forEach((p) => {
+    milkByCattle.set(p.cattle_id, (milkByCattle.get(p.cattle_id) || 0) + Number(p.quantity_liters));
+  });
+
+  return buildFeedCostReport({
+    consumption,
+    feedCost: new Map((feedsRes.data || []).map((f) => [f.id, Number(f.cost_per_unit || 0)])),
+    milkByCattle,
+    animals: new Map(
+      (cattleRes.data || []).map((c) => [
+        c.id,
+        { label: c.name ? `${c.tag_number} (${c.name})` : c.tag_number, group: getAnimalGroup(c) },
+      ])
+    ),
+  });
+}
+
+/**
+ * Feed cost per litre for each animal and group over the last `days` days
+ */
+export function useFeedCostReport(days = 30) {
+  return useQuery({
+    queryKey: ["feed-cost-report", days],
+    queryFn: () => fetchFeedCostReport(days),
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -2,8 +2,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { useToast } from "@/hooks/use-toast";
 import { useExpenseAutomation } from "@/hooks/useExpenseAutomation";
-import { invalidateExpenseRelated } from "@/lib/query-invalidation";
+import { invalidateExpenseRelated, invalidateProductionRelated } from "@/lib/query-invalidation";
 import { DateRange, SortOrder, getDateFilterValue } from "@/components/common/DataFilters";
+import { getWithdrawalUntil } from "@/lib/milk-withdrawal";
 
 interface Cattle {
   id: string;
@@ -11,6 +12,12 @@ interface Cattle {
   name: string | null;
 }
 
+export interface Medicine {
+  id: string;
+  name: string;
+  milk_withdrawal_days: number | null;
+}
+
 export interface HealthRecordWithCattle {
   id: string;
   cattle_id: string;
@@ -21,6 +28,8 @@ export interface HealthRecordWithCattle {
   vet_name: string | null;
   cost: number | null;
   next_due_date: string | null;
+  medicine_id: string | null;
+  withdrawal_until: string | null;
   created_at: string;
   cattle?: Cattle;
 }
@@ -34,11 +43,17 @@ export interface HealthFormData {
   vet_name: string;
   cost: string;
   next_due_date: string;
+  medicine_id: string;
+  /** Days milk is withheld after this dose; prefilled from the medicine */
+  withdrawal_days: string;
+  /** Set when the record completes a herd-health protocol task */
+  protocol_id?: string;
 }
 
 interface HealthData {
   records: HealthRecordWithCattle[];
   cattle: Cattle[];
+  medicines: Medicine[];
 }
 
 interface UseHealthDataOptions {
@@ -60,21 +75,28 @@ async function fetchHealthData(options: UseHealthDataOptions): Promise<HealthDat
     recordsQuery = recordsQuery.gte("record_date", startDate);
   }
   
-  const [recordsRes, cattleRes] = await Promise.all([
+  const [recordsRes, cattleRes, medicinesRes] = await Promise.all([
     recordsQuery,
     supabase
       .from("cattle")
       .select("id, tag_number, name")
       .eq("status", "active")
       .order("tag_number"),
+    supabase
+      .from("feed_inventory")
+      .select("id, name, milk_withdrawal_days")
+      .eq("category", "medicine")
+      .order("name"),
   ]);
 
   if (recordsRes.error) throw recordsRes.error;
   if (cattleRes.error) throw cattleRes.error;
+  if (medicinesRes.error) throw medicinesRes.error;
 
   return {
     records: (recordsRes.data as HealthRecordWithCattle[]) || [],
     cattle: cattleRes.data || [],
+    medicines: medicinesRes.data || [],
   };
 }
 
@@ -105,6 +127,9 @@ export function useHealthData(options: UseHealthDataOptions = {}) {
           vet_name: formData.vet_name || null,
           cost: formData.cost ? parseFloat(formData.cost) : null,
           next_due_date: formData.next_due_date || null,
+          protocol_id: formData.protocol_id || null,
+          medicine_id: formData.medicine_id || null,
+          withdrawal_until: getWithdrawalUntil(formData.record_date, parseInt(formData.withdrawal_days, 10)),
         })
         .select()
         .single();
@@ -130,8 +155,13 @@ export function useHealthData(options: UseHealthDataOptions = {}) {
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["health-records"] });
+      queryClient.invalidateQueries({ queryKey: ["health-protocols"] });
+      queryClient.invalidateQueries({ queryKey: ["milk-withdrawals"] });
+      queryClient.invalidateQueries({ queryKey: ["mastitis-risk"] });
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
       invalidateExpenseRelated(queryClient);
+      // Withdrawal windows re-flag milk already recorded
+      if (result?.data?.withdrawal_until) invalidateProductionRelated(queryClient);
       const message = result?.expenseCreated ? "Health record added & expense recorded" : "Health record added";
       toast({ title: message });
     },
@@ -143,6 +173,7 @@ export function useHealthData(options: UseHealthDataOptions = {}) {
   return {
     records: healthQuery.data?.records || [],
     cattle: healthQuery.data?.cattle || [],
+    medicines: healthQuery.data?.medicines || [],
     isLoading: healthQuery.isLoading,
     isError: healthQuery.isError,
     error: healthQuery.error,
@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildHealthTasks,
+  type HealthProtocol,
+  type HealthTask,
+  type ProtocolSchedule,
+  type ScheduleAnimal,
+} from "@/lib/health-protocols";
+
+const PAGE_SIZE = 1000;
+
+export interface ProtocolFormData {
+  name: string;
+  record_type: string;
+  schedule_type: ProtocolSchedule;
+  offset_days: string;
+  interval_days: string;
+  season_month: string;
+  season_day: string;
+  min_age_days: string;
+  max_age_days: string;
+  cattle_type: string;
+  lead_days: string;
+  match_keyword: string;
+  notes: string;
+}
+
+interface HealthScheduleData {
+  protocols: HealthProtocol[];
+  animals: ScheduleAnimal[];
+  tasks: HealthTask[];
+}
+
+async function fetchHealthSchedule(): Promise<HealthScheduleData> {
+  const [protocolsRes, cattleRes, calvingsRes] = await Promise.all([
+    supabase.from("health_protocols").select("*").order("name"),
+    supabase
+      .from("cattle")
+      .select("id, tag_number, name, date_of_birth, cattle_type, last_calving_date")
+      .eq("status", "active")
+      .order("tag_number"),
+    supabase
+      .from("breeding_records")
+      .select("cattle_id, actual_calving_date")
+      .not("actual_calving_date", "is", null),
+  ]);
+
+  if (protocolsRes.error) throw protocolsRes.error;
+  if (cattleRes.error) throw cattleRes.error;
+  if (calvingsRes.error) throw calvingsRes.error;
+
+  const records: { cattle_id: string; record_date: string; title: string; protocol_id: string | null }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("cattle_health")
+      .select("cattle_id, record_date, title, protocol_id")
+      .order("record_date")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    records.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const calvings = new Map<string, string[]>();
+  (calvingsRes.data || []).forEach((b) => {
+    calvings.set(b.cattle_id, [...(calvings.get(b.cattle_id) || []), b.actual_calving_date!]);
+  });
+
+  const animals: ScheduleAnimal[] = (cattleRes.data || []).map((c) => ({
+    cattle_id: c.id,
+    tag_number: c.tag_number,
+    name: c.name,
+    date_of_birth: c.date_of_birth,
+    cattle_type: c.cattle_type,
+    // Animals bought in after calving have no breeding record for it
+    calving_dates: [...(calvings.get(c.id) || []), ...(c.last_calving_date ? [c.last_calving_date] : [])],
+  }));
+
+  const protocols = protocolsRes.data || [];
+  return { protocols, animals, tasks: buildHealthTasks(protocols, animals, records) };
+}
+
+function toNumber(value: string): number | null {
+  return value.trim() === "" ? null : parseInt(value, 10);
+}
+
+/**
+ * Protocol-generated health tasks for every active animal
+ */
+export function useHealthProtocolTasks(enabled = true) {
+  return useQuery({
+    queryKey: ["health-protocols"],
+    queryFn: fetchHealthSchedule,
+    enabled,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useHealthProtocols() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const scheduleQuery = useHealthProtocolTasks();
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, formData }: { id?: string; formData: ProtocolFormData }) => {
+      const payload = {
+        name: formData.name,
+        record_type: formData.record_type,
+        schedule_type: formData.schedule_type,
+        offset_days: toNumber(formData.offset_days),
+        interval_days: toNumber(formData.interval_days),
+        season_month: toNumber(formData.season_month),
+        season_day: toNumber(formData.season_day),
+        min_age_days: toNumber(formData.min_age_days),
+        max_age_days: toNumber(formData.max_age_days),
+        cattle_type: formData.cattle_type === "all" ? null : formData.cattle_type,
+        lead_days: toNumber(formData.lead_days) ?? 7,
+        match_keyword: formData.match_keyword.trim() || null,
+        notes: formData.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase.from("health_protocols").update(payload).eq("id", id)
+        : await supabase.from("health_protocols").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["health-protocols"] });
+      toast({ title: "Protocol saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving protocol", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("health_protocols").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["health-protocols"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating protocol", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    protocols: scheduleQuery.data?.protocols || [],
+    animals: scheduleQuery.data?.animals || [],
+    tasks: scheduleQuery.data?.tasks || [],
+    isLoading: scheduleQuery.isLoading,
+    saveProtocol: saveMutation.mutate,
+    toggleProtocol: toggleMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
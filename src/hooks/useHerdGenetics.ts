@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildPedigree,
+  createInbreedingCalculator,
+  type PedigreeAnimal,
+  type PedigreeBull,
+} from "@/lib/inbreeding";
+
+const PAGE_SIZE = 1000;
+
+export interface SemenBull extends PedigreeBull {
+  registration_number: string | null;
+  breed: string | null;
+  source: string;
+  is_active: boolean;
+  notes: string | null;
+}
+
+export interface SemenBullFormData {
+  name: string;
+  registration_number: string;
+  breed: string;
+  source: string;
+  cattle_id: string;
+  sire_bull_id: string;
+  maternal_grandsire_bull_id: string;
+  notes: string;
+}
+
+interface HerdGeneticsData {
+  animals: PedigreeAnimal[];
+  bulls: SemenBull[];
+}
+
+async function fetchHerdGenetics(): Promise<HerdGeneticsData> {
+  // Sold and deceased animals stay in, they are still ancestors
+  const animals: PedigreeAnimal[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("cattle")
+      .select("id, tag_number, name, sire_id, dam_id, sire_bull_id")
+      .order("tag_number")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    animals.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { data: bulls, error } = await supabase
+    .from("semen_bulls")
+    .select("id, name, registration_number, breed, source, cattle_id, sire_bull_id, maternal_grandsire_bull_id, is_active, notes")
+    .order("name");
+  if (error) throw error;
+
+  return { animals, bulls: bulls || [] };
+}
+
+/**
+ * The joined herd and sire pedigree, with a memoised inbreeding calculator
+ */
+export function useHerdGenetics(enabled = true) {
+  const query = useQuery({
+    queryKey: ["herd-genetics"],
+    queryFn: fetchHerdGenetics,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const genetics = useMemo(() => {
+    if (!query.data) return null;
+    const pedigree = buildPedigree(query.data.animals, query.data.bulls);
+    return { pedigree, calculator: createInbreedingCalculator(pedigree) };
+  }, [query.data]);
+
+  return {
+    animals: query.data?.animals || [],
+    bulls: query.data?.bulls || [],
+    pedigree: genetics?.pedigree || null,
+    calculator: genetics?.calculator || null,
+    isLoading: query.isLoading,
+  };
+}
+
+export function useSemenBulls() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["herd-genetics"] });
+    queryClient.invalidateQueries({ queryKey: ["breeding-data"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, formData }: { id?: string; formData: SemenBullFormData }) => {
+      const payload = {
+        name: formData.name.trim(),
+        registration_number: formData.registration_number.trim() || null,
+        breed: formData.breed.trim() || null,
+        source: formData.source,
+        cattle_id: formData.source === "natural" ? formData.cattle_id || null : null,
+        sire_bull_id: formData.sire_bull_id || null,
+        maternal_grandsire_bull_id: formData.maternal_grandsire_bull_id || null,
+        notes: formData.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase.from("semen_bulls").update(payload).eq("id", id)
+        : await supabase.from("semen_bulls").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Bull saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving bull", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("semen_bulls").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Error updating bull", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    saveBull: saveMutation.mutate,
+    toggleBull: toggleMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO, subMonths } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateCattleRelated, invalidateExpenseRelated } from "@/lib/query-invalidation";
+import {
+  analyzeDisposals,
+  summarizeValuation,
+  valueAnimal,
+  type AnimalValuation,
+  type DisposalAnalysis,
+  type LifecycleEvent,
+  type LifecycleEventType,
+  type ValuationClassSummary,
+} from "@/lib/herd-valuation";
+
+/** Deaths and culls are analysed over this many months */
+export const DISPOSAL_ANALYSIS_MONTHS = 12;
+
+export interface LifecycleEventFormData {
+  cattle_id: string;
+  event_type: LifecycleEventType;
+  event_date: string;
+  counterparty: string;
+  amount: string;
+  cause: string;
+  insurance_policy: string;
+  insurance_claim_amount: string;
+  carcass_disposal: string;
+  disposal_cost: string;
+  notes: string;
+}
+
+export interface HerdValuation {
+  /** Animals still in the herd, highest book value first */
+  valuations: AnimalValuation[];
+  summary: ValuationClassSummary[];
+  total: number;
+  /** Newest first */
+  events: LifecycleEvent[];
+  analysis: DisposalAnalysis;
+}
+
+const ANIMAL_COLUMNS = "id, tag_number, name, gender, date_of_birth, lactation_number, purchase_cost, purchase_date";
+
+async function fetchHerdValuation(): Promise<HerdValuation> {
+  const [cattleRes, eventsRes] = await Promise.all([
+    supabase.from("cattle").select(`${ANIMAL_COLUMNS}, status`).in("status", ["active", "dry"]).order("tag_number"),
+    supabase
+      .from("cattle_lifecycle_events")
+      .select("*, cattle (tag_number, name, date_of_birth)")
+      .order("event_date", { ascending: false })
+      .order("created_at", { ascending: false }),
+  ]);
+  if (cattleRes.error) throw cattleRes.error;
+  if (eventsRes.error) throw eventsRes.error;
+
+  const today = new Date();
+  const valuations = (cattleRes.data || []).map((c) => valueAnimal(c, today)).sort((a, b) => b.book_value - a.book_value);
+
+  const events: LifecycleEvent[] = (eventsRes.data || []).map(({ cattle, ...e }) => ({
+    ...e,
+    event_type: e.event_type as LifecycleEventType,
+    tag_number: cattle?.tag_number || "-",
+    name: cattle?.name || null,
+    date_of_birth: cattle?.date_of_birth || null,
+  }));
+
+  const since = format(subMonths(today, DISPOSAL_ANALYSIS_MONTHS), "yyyy-MM-dd");
+  const recent = events.filter((e) => e.event_date >= since);
+  const left = recent.filter((e) => e.event_type !== "purchase").length;
+
+  return {
+    valuations,
+    summary: summarizeValuation(valuations),
+    total: valuations.reduce((sum, v) => sum + v.book_value, 0),
+    events,
+    analysis: analyzeDisposals(recent, valuations.length + left),
+  };
+}
+
+export function useHerdValuation() {
+  return useQuery({
+    queryKey: ["herd-valuation"],
+    queryFn: fetchHerdValuation,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useRecordLifecycleEvent() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: LifecycleEventFormData) => {
+      // Book value on the day is kept so a sale's gain or loss can be reported
+      const { data: animal, error: animalError } = await supabase
+        .from("cattle")
+        .select(ANIMAL_COLUMNS)
+        .eq("id", formData.cattle_id)
+        .single();
+      if (animalError) throw animalError;
+      const bookValue =
+        formData.event_type === "purchase" ? undefined : valueAnimal(animal, parseISO(formData.event_date)).book_value;
+
+      const { error } = await supabase.rpc("record_cattle_lifecycle_event", {
+        _cattle_id: formData.cattle_id,
+        _event_type: formData.event_type,
+        _event_date: formData.event_date,
+        _counterparty: formData.counterparty || undefined,
+        _amount: formData.amount ? parseFloat(formData.amount) : undefined,
+        _cause: formData.cause || undefined,
+        _book_value: bookValue,
+        _insurance_policy: formData.insurance_policy || undefined,
+        _insurance_claim_amount: formData.insurance_claim_amount ? parseFloat(formData.insurance_claim_amount) : undefined,
+        _carcass_disposal: formData.carcass_disposal || undefined,
+        _disposal_cost: formData.disposal_cost ? parseFloat(formData.disposal_cost) : undefined,
+        _notes: formData.notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cattle"] });
+      queryClient.invalidateQueries({ queryKey: ["herd-valuation"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      invalidateCattleRelated(queryClient);
+      invalidateExpenseRelated(queryClient);
+      toast({ title: "Event recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording event", description: error.message, variant: "destructive" });
+    },
+  });
+}
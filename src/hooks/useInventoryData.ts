@@ -15,6 +15,12 @@ export interface FeedItem {
   min_stock_level: number;
   cost_per_unit: number | null;
   supplier: string | null;
+  dry_matter_pct: number | null;
+  crude_protein_pct: number | null;
+  tdn_pct: number | null;
+  calcium_pct: number | null;
+  phosphorus_pct: number | null;
+  milk_withdrawal_days: number | null;
 }
 
 export interface FeedConsumption {
@@ -34,6 +40,24 @@ export interface FeedFormData {
   min_stock_level: string;
   cost_per_unit: string;
   supplier: string;
+  dry_matter_pct: string;
+  crude_protein_pct: string;
+  tdn_pct: string;
+  calcium_pct: string;
+  phosphorus_pct: string;
+  milk_withdrawal_days: string;
+}
+
+const optionalNumber = (value: string) => (value ? parseFloat(value) : null);
+
+function nutrientPayload(formData: FeedFormData) {
+  return {
+    dry_matter_pct: optionalNumber(formData.dry_matter_pct),
+    crude_protein_pct: optionalNumber(formData.crude_protein_pct),
+    tdn_pct: optionalNumber(formData.tdn_pct),
+    calcium_pct: optionalNumber(formData.calcium_pct),
+    phosphorus_pct: optionalNumber(formData.phosphorus_pct),
+  };
 }
 
 interface InventoryData {
@@ -82,6 +106,9 @@ export function useInventoryData() {
         min_stock_level: parseFloat(formData.min_stock_level) || 0,
         cost_per_unit: formData.cost_per_unit ? parseFloat(formData.cost_per_unit) : null,
         supplier: formData.supplier || null,
+        ...nutrientPayload(formData),
+        milk_withdrawal_days:
+          formData.category === "medicine" && formData.milk_withdrawal_days ? parseInt(formData.milk_withdrawal_days, 10) : null,
       });
 
       if (error) throw error;
@@ -148,6 +175,9 @@ export function useInventoryData() {
           min_stock_level: parseFloat(formData.min_stock_level) || 0,
           cost_per_unit: formData.cost_per_unit ? parseFloat(formData.cost_per_unit) : null,
           supplier: formData.supplier || null,
+          ...nutrientPayload(formData),
+        milk_withdrawal_days:
+          formData.category === "medicine" && formData.milk_withdrawal_days ? parseInt(formData.milk_withdrawal_days, 10) : null,
         })
         .eq("id", id);
 
@@ -155,6 +185,7 @@ export function useInventoryData() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["feed-rations"] });
       toast({ title: "Item updated" });
     },
     onError: (error: Error) => {
@@ -0,0 +1,58 @@
+import { useState, useEffect } from "react";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { resolvePlaceOfSupply, isInterState } from "@/lib/gst";
+
+interface InvoiceGstContext {
+  supplier: { gstin: string | null; state_code: string | null };
+  customerGstin: string | null;
+  placeOfSupply: string | null;
+  interState: boolean;
+}
+
+const EMPTY_CONTEXT: InvoiceGstContext = {
+  supplier: { gstin: null, state_code: null },
+  customerGstin: null,
+  placeOfSupply: null,
+  interState: false,
+};
+
+/**
+ * Load the dairy's GST registration and the customer's GSTIN/state
+ * needed to split invoice tax into CGST + SGST or IGST
+ */
+export function useInvoiceGstContext(customerId: string | null | undefined): InvoiceGstContext {
+  const [context, setContext] = useState<InvoiceGstContext>(EMPTY_CONTEXT);
+
+  useEffect(() => {
+    if (!customerId) {
+      setContext(EMPTY_CONTEXT);
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all([
+      supabase.from("dairy_settings").select("gstin, state_code").limit(1).maybeSingle(),
+      supabase.from("customers").select("gstin, state_code").eq("id", customerId).maybeSingle(),
+    ]).then(([settingsRes, customerRes]) => {
+      if (cancelled) return;
+      const supplier = {
+        gstin: settingsRes.data?.gstin || null,
+        state_code: settingsRes.data?.state_code || null,
+      };
+      const placeOfSupply = resolvePlaceOfSupply(customerRes.data || {}, supplier.state_code);
+      setContext({
+        supplier,
+        customerGstin: customerRes.data?.gstin || null,
+        placeOfSupply,
+        interState: isInterState(supplier.state_code, placeOfSupply),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  return context;
+}
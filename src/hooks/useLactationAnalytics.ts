@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { PRE_CALVING_WINDOW_DAYS } from "@/lib/body-condition";
+import {
+  STANDARD_LACTATION_DAYS,
+  analyzeLactations,
+  type LactationInput,
+} from "@/lib/lactation-curve";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Fit lactation curves for every active animal that calved within the last
+ * 305 days. The herd curves need the whole herd, so this always loads
+ * everyone even when only one cow is shown.
+ */
+export async function fetchLactationAnalytics() {
+  const since = format(subDays(new Date(), STANDARD_LACTATION_DAYS), "yyyy-MM-dd");
+
+  const { data: cattle, error } = await supabase
+    .from("cattle")
+    .select("id, tag_number, name, lactation_number, last_calving_date")
+    .eq("status", "active")
+    .gte("last_calving_date", since);
+  if (error) throw error;
+  if (!cattle || cattle.length === 0) return analyzeLactations([]);
+
+  const firstCalving = cattle.reduce(
+    (min, c) => (c.last_calving_date! < min ? c.last_calving_date! : min),
+    cattle[0].last_calving_date!
+  );
+
+  // A lactating herd easily passes the 1000-row page limit
+  const production: { cattle_id: string; production_date: string; quantity_liters: number }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: prodError } = await supabase
+      .from("milk_production")
+      .select("cattle_id, production_date, quantity_liters")
+      .in("cattle_id", cattle.map((c) => c.id))
+      .gte("production_date", firstCalving)
+      .order("production_date", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (prodError) throw prodError;
+    production.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Condition scores from shortly before the earliest calving onwards
+  const { data: condition, error: conditionError } = await supabase
+    .from("body_condition_records")
+    .select("cattle_id, record_date, body_condition_score")
+    .in("cattle_id", cattle.map((c) => c.id))
+    .not("body_condition_score", "is", null)
+    .gte("record_date", format(subDays(new Date(firstCalving), PRE_CALVING_WINDOW_DAYS), "yyyy-MM-dd"))
+    .order("record_date");
+  if (conditionError) throw conditionError;
+
+  const conditionByCattle = new Map<string, { record_date: string; body_condition_score: number | null }[]>();
+  (condition || []).forEach((r) => {
+    conditionByCattle.set(r.cattle_id, [...(conditionByCattle.get(r.cattle_id) || []), r]);
+  });
+
+  // Morning and evening add up to one daily yield
+  const dailyByCattle = new Map<string, Map<string, number>>();
+  production.forEach((p) => {
+    const daily = dailyByCattle.get(p.cattle_id) || new Map<string, number>();
+    daily.set(p.production_date, (daily.get(p.production_date) || 0) + Number(p.quantity_liters));
+    dailyByCattle.set(p.cattle_id, daily);
+  });
+
+  const inputs: LactationInput[] = cattle.map((c) => ({
+    cattle_id: c.id,
+    tag_number: c.tag_number,
+    name: c.name,
+    lactation_number: c.lactation_number,
+    last_calving_date: c.last_calving_date!,
+    daily: dailyByCattle.get(c.id) || new Map(),
+    condition: conditionByCattle.get(c.id) || [],
+  }));
+
+  return analyzeLactations(inputs);
+}
+
+export function useLactationAnalytics(enabled = true) {
+  return useQuery({
+    queryKey: ["lactation-analytics"],
+    queryFn: fetchLactationAnalytics,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, startOfMonth, subMonths } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { buildMilkBalance, type MilkBalanceRow, type SaleRow, type WastageReason } from "@/lib/milk-balance";
+
+/** The balance covers the current month and this many before it */
+export const MILK_BALANCE_PAST_MONTHS = 2;
+
+const PAGE_SIZE = 1000;
+
+export interface MilkWastageFormData {
+  wastage_date: string;
+  session: string;
+  reason: WastageReason;
+  quantity_liters: string;
+  notes: string;
+}
+
+export interface MilkWastageEntry {
+  id: string;
+  wastage_date: string;
+  session: string | null;
+  reason: string;
+  quantity_liters: number;
+  notes: string | null;
+}
+
+export interface MilkBalance {
+  daily: MilkBalanceRow[];
+  weekly: MilkBalanceRow[];
+  monthly: MilkBalanceRow[];
+  /** Newest first */
+  wastage: MilkWastageEntry[];
+  /** Delivered products with no milk equivalent set, left out of the balance */
+  unmapped: string[];
+}
+
+async function fetchAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function fetchMilkBalance(): Promise<MilkBalance> {
+  const since = format(startOfMonth(subMonths(new Date(), MILK_BALANCE_PAST_MONTHS)), "yyyy-MM-dd");
+
+  // Months of herd, route and vendor records run well past one page
+  const [production, procurement, deliveries, processed, wastageRes] = await Promise.all([
+    fetchAll((from, to) =>
+      supabase
+        .from("milk_production")
+        .select("production_date, quantity_liters, is_withheld")
+        .gte("production_date", since)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from("milk_procurement")
+        .select("procurement_date, quantity_liters, quality_status")
+        .gte("procurement_date", since)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from("deliveries")
+        .select("delivery_date, delivery_items (quantity, stock_taken, products (name, category, milk_equivalent_liters))")
+        .eq("status", "delivered")
+        .gte("delivery_date", since)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from("processing_batches")
+        .select("batch_date, milk_liters")
+        .gte("batch_date", since)
+        .order("id")
+        .range(from, to)
+    ),
+    supabase
+      .from("milk_wastage")
+      .select("id, wastage_date, session, reason, quantity_liters, notes")
+      .gte("wastage_date", since)
+      .order("wastage_date", { ascending: false })
+      .order("created_at", { ascending: false }),
+  ]);
+  if (wastageRes.error) throw wastageRes.error;
+  if (wastageRes.error) throw wastageRes.error;
+
+  const unmapped = new Set<string>();
+  const sales: SaleRow[] = deliveries.flatMap((d) =>
+    (d.delivery_items || []).map((item) => {
+      // Items served from batch stock had their milk counted when the batch was made
+      const stockTracked = Number(item.stock_taken) > 0;
+      if (item.products && !stockTracked && item.products.milk_equivalent_liters === null) {
+        unmapped.add(item.products.name);
+      }
+      return {
+        delivery_date: d.delivery_date,
+        quantity: item.quantity,
+        category: item.products?.category || "other",
+        milk_equivalent_liters: item.products?.milk_equivalent_liters ?? null,
+        stock_tracked: stockTracked,
+      };
+    })
+  );
+
+  const wastage = (wastageRes.data || []).map((w) => ({ ...w, quantity_liters: Number(w.quantity_liters) }));
+  const data = {
+    production,
+    procurement,
+    sales,
+    processed,
+    wastage,
+  };
+
+  return {
+    daily: buildMilkBalance(data, "day"),
+    weekly: buildMilkBalance(data, "week"),
+    monthly: buildMilkBalance(data, "month"),
+    wastage,
+    unmapped: [...unmapped].sort(),
+  };
+}
+
+export function useMilkBalance() {
+  return useQuery({
+    queryKey: ["milk-balance"],
+    queryFn: fetchMilkBalance,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useRecordMilkWastage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: MilkWastageFormData) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from("milk_wastage").insert({
+        wastage_date: formData.wastage_date,
+        session: formData.session || null,
+        reason: formData.reason,
+        quantity_liters: parseFloat(formData.quantity_liters),
+        notes: formData.notes || null,
+        recorded_by: user?.id || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["milk-balance"] });
+      toast({ title: "Wastage recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording wastage", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteMilkWastage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("milk_wastage").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["milk-balance"] });
+      toast({ title: "Wastage entry deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting wastage", description: error.message, variant: "destructive" });
+    },
+  });
+}
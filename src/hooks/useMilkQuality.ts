@@ -0,0 +1,182 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DROP_BASELINE_DAYS,
+  DROP_WINDOW_DAYS,
+  TREATMENT_LOOKBACK_DAYS,
+  assessMastitisRisk,
+  type DailyYield,
+  type MastitisRisk,
+  type Quarter,
+  type QualityTest,
+} from "@/lib/mastitis-risk";
+
+const PAGE_SIZE = 1000;
+
+/** Quality tests older than this are not loaded */
+const TEST_HISTORY_DAYS = 180;
+
+export interface QuarterFormData {
+  cmt_score: string;
+  conductivity: string;
+  clots: boolean;
+}
+
+export interface QualityTestFormData {
+  cattle_id: string;
+  test_date: string;
+  session: string;
+  somatic_cell_count: string;
+  notes: string;
+  quarters: Record<Quarter, QuarterFormData>;
+}
+
+export interface CowMastitisRisk {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  risk: MastitisRisk;
+  /** Newest first */
+  tests: QualityTest[];
+}
+
+async function fetchMastitisRisk(): Promise<CowMastitisRisk[]> {
+  const { data: cattle, error } = await supabase
+    .from("cattle")
+    .select("id, tag_number, name")
+    .eq("status", "active")
+    .eq("lactation_status", "lactating")
+    .order("tag_number");
+  if (error) throw error;
+  if (!cattle || cattle.length === 0) return [];
+
+  const ids = cattle.map((c) => c.id);
+  const today = new Date();
+
+  const [testsRes, treatmentsRes] = await Promise.all([
+    supabase
+      .from("milk_quality_tests")
+      .select("id, cattle_id, test_date, session, somatic_cell_count, notes, milk_quality_quarters (quarter, cmt_score, conductivity, clots)")
+      .in("cattle_id", ids)
+      .gte("test_date", format(subDays(today, TEST_HISTORY_DAYS), "yyyy-MM-dd"))
+      .order("test_date", { ascending: false }),
+    supabase
+      .from("cattle_health")
+      .select("cattle_id, record_date")
+      .in("cattle_id", ids)
+      .in("record_type", ["treatment", "disease"])
+      .or("title.ilike.%mastitis%,description.ilike.%mastitis%")
+      .gte("record_date", format(subDays(today, TREATMENT_LOOKBACK_DAYS), "yyyy-MM-dd")),
+  ]);
+  if (testsRes.error) throw testsRes.error;
+  if (treatmentsRes.error) throw treatmentsRes.error;
+
+  // Enough days for the baseline week and the recent days compared with it
+  const production: { cattle_id: string; production_date: string; session: string; quantity_liters: number }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: prodError } = await supabase
+      .from("milk_production")
+      .select("cattle_id, production_date, session, quantity_liters")
+      .in("cattle_id", ids)
+      .gte("production_date", format(subDays(today, DROP_WINDOW_DAYS + DROP_BASELINE_DAYS + 1), "yyyy-MM-dd"))
+      .order("production_date")
+      .range(from, from + PAGE_SIZE - 1);
+    if (prodError) throw prodError;
+    production.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const dailyByCattle = new Map<string, Map<string, { liters: number; sessions: Set<string> }>>();
+  production.forEach((p) => {
+    const daily = dailyByCattle.get(p.cattle_id) || new Map();
+    const day = daily.get(p.production_date) || { liters: 0, sessions: new Set<string>() };
+    day.liters += Number(p.quantity_liters);
+    day.sessions.add(p.session);
+    daily.set(p.production_date, day);
+    dailyByCattle.set(p.cattle_id, daily);
+  });
+
+  const tests: QualityTest[] = (testsRes.data || []).map(({ milk_quality_quarters, ...t }) => ({
+    ...t,
+    quarters: milk_quality_quarters || [],
+  }));
+
+  return cattle
+    .map((c) => {
+      const own = tests.filter((t) => t.cattle_id === c.id);
+      const daily: DailyYield[] = [...(dailyByCattle.get(c.id)?.entries() || [])].map(([date, d]) => ({
+        date,
+        liters: d.liters,
+        sessions: d.sessions.size,
+      }));
+      return {
+        cattle_id: c.id,
+        tag_number: c.tag_number,
+        name: c.name,
+        tests: own,
+        risk: assessMastitisRisk({
+          tests: own,
+          daily,
+          treatmentDates: (treatmentsRes.data || []).filter((t) => t.cattle_id === c.id).map((t) => t.record_date),
+          asOf: today,
+        }),
+      };
+    })
+    .sort((a, b) => b.risk.score - a.risk.score);
+}
+
+export function useMastitisRisk(enabled = true) {
+  return useQuery({
+    queryKey: ["mastitis-risk"],
+    queryFn: fetchMastitisRisk,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSaveQualityTest() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: QualityTestFormData) => {
+      const { data, error } = await supabase
+        .from("milk_quality_tests")
+        .insert({
+          cattle_id: formData.cattle_id,
+          test_date: formData.test_date,
+          session: formData.session || null,
+          somatic_cell_count: formData.somatic_cell_count ? parseInt(formData.somatic_cell_count) : null,
+          notes: formData.notes || null,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      // Only quarters that were actually checked
+      const quarters = (Object.entries(formData.quarters) as [Quarter, QuarterFormData][])
+        .filter(([, q]) => q.cmt_score || q.conductivity || q.clots)
+        .map(([quarter, q]) => ({
+          test_id: data.id,
+          quarter,
+          cmt_score: q.cmt_score || null,
+          conductivity: q.conductivity ? parseFloat(q.conductivity) : null,
+          clots: q.clots,
+        }));
+      if (quarters.length > 0) {
+        const { error: quartersError } = await supabase.from("milk_quality_quarters").insert(quarters);
+        if (quartersError) throw quartersError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["mastitis-risk"] });
+      toast({ title: "Quality test saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving quality test", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,439 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { invalidateDeliveryRelated } from "@/lib/query-invalidation";
+import { logger } from "@/lib/logger";
+import {
+  OFFLINE_QUEUE_EVENT,
+  loadSnapshot,
+  saveSnapshot,
+  loadQueue,
+  enqueueAction,
+  removeAction,
+  updateAction,
+  applyQueueToSnapshot,
+  offlineActionTag,
+  isNetworkError,
+  type DeliveryRunSnapshot,
+  type OfflineDeliveryStatus,
+  type QueuedDeliveryAction,
+  type QueuedStatusChange,
+  type QueuedQuantityChange,
+  type QueuedBottleReturn,
+} from "@/lib/offline-delivery-queue";
+import { formatBottleLabel } from "@/lib/bottle-deposits";
+
+interface SyncResult {
+  synced: number;
+  conflicts: number;
+  offline: boolean;
+}
+
+type ActionOutcome = "synced" | "conflict";
+
+// Shared across hook instances so the navbar and the run page never sync twice
+let syncInFlight: Promise<SyncResult> | null = null;
+
+async function syncStatus(action: QueuedStatusChange): Promise<ActionOutcome> {
+  const { data, error } = await supabase
+    .from("deliveries")
+    .select("status")
+    .eq("id", action.delivery_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!data) {
+    updateAction(action.id, { state: "conflict", conflict_reason: "Delivery no longer exists" });
+    return "conflict";
+  }
+
+  const serverStatus = data.status || "pending";
+  if (serverStatus !== action.base_status && serverStatus !== action.status) {
+    updateAction(action.id, {
+      state: "conflict",
+      conflict_reason: `Marked ${serverStatus} by someone else`,
+      server_status: serverStatus,
+    });
+    return "conflict";
+  }
+
+  if (serverStatus !== action.status) {
+    const { error: updateError } = await supabase
+      .from("deliveries")
+      .update({
+        status: action.status,
+        // Keep the time the stop was actually made, not the time of sync
+        delivery_time: action.status === "delivered" ? action.queued_at : null,
+      })
+      .eq("id", action.delivery_id);
+    if (updateError) throw updateError;
+  }
+
+  removeAction(action.id);
+  return "synced";
+}
+
+async function syncQuantity(action: QueuedQuantityChange): Promise<ActionOutcome> {
+  const { data, error } = await supabase
+    .from("delivery_items")
+    .select("quantity, unit_price")
+    .eq("id", action.item_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!data) {
+    updateAction(action.id, { state: "conflict", conflict_reason: "Item was removed from the delivery" });
+    return "conflict";
+  }
+
+  const serverQuantity = Number(data.quantity);
+  if (serverQuantity !== action.base_quantity && serverQuantity !== action.quantity) {
+    updateAction(action.id, {
+      state: "conflict",
+      conflict_reason: `Quantity changed to ${serverQuantity} by someone else`,
+      server_quantity: serverQuantity,
+    });
+    return "conflict";
+  }
+
+  if (serverQuantity !== action.quantity) {
+    const { error: updateError } = await supabase
+      .from("delivery_items")
+      .update({
+        quantity: action.quantity,
+        total_amount: action.quantity * Number(data.unit_price),
+      })
+      .eq("id", action.item_id);
+    if (updateError) throw updateError;
+  }
+
+  removeAction(action.id);
+  return "synced";
+}
+
+async function syncBottleReturn(action: QueuedBottleReturn): Promise<ActionOutcome> {
+  const tag = offlineActionTag(action.id);
+
+  // Already posted on an earlier attempt that lost its connection mid-way
+  const { data: existing, error: existingError } = await supabase
+    .from("bottle_transactions")
+    .select("id")
+    .eq("notes", tag)
+    .limit(1)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    removeAction(action.id);
+    return "synced";
+  }
+
+  const { data: balance, error: balanceError } = await supabase
+    .from("customer_bottles")
+    .select("quantity_pending")
+    .eq("customer_id", action.customer_id)
+    .eq("bottle_id", action.bottle_id)
+    .maybeSingle();
+  if (balanceError) throw balanceError;
+
+  const serverPending = balance?.quantity_pending || 0;
+  if (serverPending !== action.base_pending && serverPending < action.quantity) {
+    updateAction(action.id, {
+      state: "conflict",
+      conflict_reason: `Only ${serverPending} bottles pending now`,
+      server_pending: serverPending,
+    });
+    return "conflict";
+  }
+
+  // The database updates customer_bottles, refunds the deposit and restocks the bottles
+  const { error: insertError } = await supabase.from("bottle_transactions").insert({
+    bottle_id: action.bottle_id,
+    customer_id: action.customer_id,
+    delivery_id: action.delivery_id,
+    transaction_type: "returned",
+    quantity: action.quantity,
+    transaction_date: action.queued_at.slice(0, 10),
+    notes: tag,
+  });
+  if (insertError) throw insertError;
+
+  removeAction(action.id);
+  return "synced";
+}
+
+async function runSync(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, offline: false };
+
+  for (const action of loadQueue()) {
+    if (action.state === "conflict") continue;
+
+    try {
+      const outcome =
+        action.kind === "status"
+          ? await syncStatus(action)
+          : action.kind === "item_quantity"
+            ? await syncQuantity(action)
+            : await syncBottleReturn(action);
+      if (outcome === "synced") result.synced++;
+      else result.conflicts++;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Keep the rest queued in order and try again when we're back online
+        result.offline = true;
+        break;
+      }
+      logger.error("OfflineDeliveries", "Sync rejected by server", error);
+      updateAction(action.id, {
+        state: "conflict",
+        conflict_reason: error instanceof Error ? error.message : "Rejected by server",
+      });
+      result.conflicts++;
+    }
+  }
+
+  return result;
+}
+
+async function fetchRunSnapshot(date: string): Promise<DeliveryRunSnapshot> {
+  const [deliveriesRes, vacationsRes] = await Promise.all([
+    supabase
+      .from("deliveries")
+      .select("id, customer_id, status, delivery_time, customer:customer_id (name, area, address, phone)")
+      .eq("delivery_date", date),
+    supabase
+      .from("customer_vacations")
+      .select("customer_id")
+      .eq("is_active", true)
+      .lte("start_date", date)
+      .gte("end_date", date),
+  ]);
+  if (deliveriesRes.error) throw deliveriesRes.error;
+
+  const deliveries = deliveriesRes.data || [];
+  const deliveryIds = deliveries.map((d) => d.id);
+  const customerIds = [...new Set(deliveries.map((d) => d.customer_id))];
+  const onVacation = new Set((vacationsRes.data || []).map((v) => v.customer_id));
+
+  const [itemsRes, stopsRes, bottlesRes] = await Promise.all([
+    deliveryIds.length
+      ? supabase
+          .from("delivery_items")
+          .select("id, delivery_id, product_id, quantity, unit_price, product:product_id (name, unit)")
+          .in("delivery_id", deliveryIds)
+      : Promise.resolve({ data: [], error: null }),
+    customerIds.length
+      ? supabase
+          .from("route_stops")
+          .select("customer_id, route_id, stop_order, route:route_id (name)")
+          .in("customer_id", customerIds)
+          .order("stop_order")
+      : Promise.resolve({ data: [], error: null }),
+    customerIds.length
+      ? supabase
+          .from("customer_bottles")
+          .select("customer_id, bottle_id, quantity_pending, bottle:bottle_id (bottle_type, size)")
+          .in("customer_id", customerIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  const failed = itemsRes.error || stopsRes.error || bottlesRes.error;
+  if (failed) throw failed;
+
+  return {
+    date,
+    loaded_at: new Date().toISOString(),
+    deliveries: deliveries.map((d) => {
+      const customer = d.customer as { name: string; area: string | null; address: string | null; phone: string | null } | null;
+      return {
+        id: d.id,
+        customer_id: d.customer_id,
+        customer_name: customer?.name || "Unknown",
+        area: customer?.area || null,
+        address: customer?.address || null,
+        phone: customer?.phone || null,
+        status: (d.status || "pending") as OfflineDeliveryStatus,
+        delivery_time: d.delivery_time,
+        on_vacation: onVacation.has(d.customer_id),
+      };
+    }),
+    items: (itemsRes.data || []).map((i) => {
+      const product = i.product as { name: string; unit: string } | null;
+      return {
+        id: i.id,
+        delivery_id: i.delivery_id,
+        product_id: i.product_id,
+        product_name: product?.name || "Product",
+        unit: product?.unit || null,
+        quantity: Number(i.quantity),
+        unit_price: Number(i.unit_price),
+      };
+    }),
+    route_stops: (stopsRes.data || []).map((s) => ({
+      customer_id: s.customer_id,
+      route_id: s.route_id,
+      route_name: (s.route as { name: string } | null)?.name || null,
+      stop_order: s.stop_order,
+    })),
+    bottles: (bottlesRes.data || []).map((b) => {
+      const bottle = b.bottle as { bottle_type: string; size: string } | null;
+      return {
+        customer_id: b.customer_id,
+        bottle_id: b.bottle_id,
+        bottle_label: formatBottleLabel(bottle),
+        quantity_pending: b.quantity_pending || 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Offline-first delivery run.
+ * All edits go to the local queue first and are pushed to the server when
+ * online; conflicting server-side edits are held back for the user to resolve.
+ */
+export function useOfflineDeliveries() {
+  const [rawSnapshot, setRawSnapshot] = useState<DeliveryRunSnapshot | null>(() => loadSnapshot());
+  const [queue, setQueue] = useState<QueuedDeliveryAction[]>(() => loadQueue());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const queryClient = useQueryClient();
+
+  const preload = useCallback(async (date: string): Promise<boolean> => {
+    try {
+      saveSnapshot(await fetchRunSnapshot(date));
+      return true;
+    } catch (error) {
+      logger.error("OfflineDeliveries", "Failed to preload delivery run", error);
+      return false;
+    }
+  }, []);
+
+  const sync = useCallback(async (): Promise<SyncResult> => {
+    if (!syncInFlight) {
+      syncInFlight = runSync().finally(() => {
+        syncInFlight = null;
+      });
+    }
+
+    setSyncing(true);
+    const result = await syncInFlight;
+    setSyncing(false);
+
+    if (result.synced > 0) {
+      invalidateDeliveryRelated(queryClient);
+      // Refresh the baseline so later edits compare against current server values
+      const snapshot = loadSnapshot();
+      if (snapshot && !result.offline) await preload(snapshot.date);
+    }
+    return result;
+  }, [queryClient, preload]);
+
+  useEffect(() => {
+    const refresh = () => {
+      setRawSnapshot(loadSnapshot());
+      setQueue(loadQueue());
+    };
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener(OFFLINE_QUEUE_EVENT, refresh);
+    window.addEventListener("storage", refresh);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    if (navigator.onLine && loadQueue().some((a) => a.state === "queued")) {
+      sync();
+    }
+
+    return () => {
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [sync]);
+
+  const snapshot = useMemo(
+    () => (rawSnapshot ? applyQueueToSnapshot(rawSnapshot, queue) : null),
+    [rawSnapshot, queue]
+  );
+
+  const afterChange = useCallback(() => {
+    if (navigator.onLine) sync();
+  }, [sync]);
+
+  const setStatus = useCallback((deliveryId: string, status: OfflineDeliveryStatus) => {
+    const current = rawSnapshot?.deliveries.find((d) => d.id === deliveryId);
+    if (!current) return;
+    enqueueAction({ kind: "status", delivery_id: deliveryId, status, base_status: current.status });
+    afterChange();
+  }, [rawSnapshot, afterChange]);
+
+  const setItemQuantity = useCallback((itemId: string, quantity: number) => {
+    const item = rawSnapshot?.items.find((i) => i.id === itemId);
+    if (!item || quantity < 0) return;
+    enqueueAction({
+      kind: "item_quantity",
+      delivery_id: item.delivery_id,
+      item_id: itemId,
+      quantity,
+      unit_price: item.unit_price,
+      base_quantity: item.quantity,
+    });
+    afterChange();
+  }, [rawSnapshot, afterChange]);
+
+  const recordBottleReturn = useCallback((deliveryId: string, customerId: string, bottleId: string, quantity: number) => {
+    if (quantity <= 0) return;
+    // Base is what the staff member sees, i.e. including returns still queued
+    const balance = snapshot?.bottles.find((b) => b.customer_id === customerId && b.bottle_id === bottleId);
+    enqueueAction({
+      kind: "bottle_return",
+      delivery_id: deliveryId,
+      customer_id: customerId,
+      bottle_id: bottleId,
+      quantity,
+      base_pending: balance?.quantity_pending || 0,
+    });
+    afterChange();
+  }, [snapshot, afterChange]);
+
+  /**
+   * Resolve a conflict in favour of the local change: rebase it on the
+   * server value so the next sync applies it
+   */
+  const keepLocal = useCallback((actionId: string) => {
+    const action = loadQueue().find((a) => a.id === actionId);
+    if (!action) return;
+    const rebase =
+      action.kind === "status"
+        ? { base_status: (action.server_status || action.base_status) as OfflineDeliveryStatus }
+        : action.kind === "item_quantity"
+          ? { base_quantity: action.server_quantity ?? action.base_quantity }
+          : { base_pending: action.server_pending ?? action.base_pending };
+    updateAction(actionId, { ...rebase, state: "queued", conflict_reason: undefined });
+    afterChange();
+  }, [afterChange]);
+
+  const discardLocal = useCallback((actionId: string) => {
+    removeAction(actionId);
+  }, []);
+
+  return {
+    snapshot,
+    queue,
+    isOnline,
+    syncing,
+    pendingCount: queue.filter((a) => a.state === "queued").length,
+    conflictCount: queue.filter((a) => a.state === "conflict").length,
+    preload,
+    sync,
+    setStatus,
+    setItemQuantity,
+    recordBottleReturn,
+    keepLocal,
+    discardLocal,
+  };
+}
@@ -0,0 +1,190 @@
+import { useCallback } from "react";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { getInvoiceBalance } from "@/lib/invoice-helpers";
+
+export interface PayableInvoice {
+  id: string;
+  invoice_number: string;
+  final_amount: number;
+  paid_amount: number | null;
+  payment_status: string;
+  due_date: string | null;
+}
+
+/**
+ * Add a payment to an invoice's paid amount and status.
+ * The applied amount is capped at the invoice balance; any excess stays on
+ * the ledger as an advance.
+ *
+ * @param invoice - Invoice the payment is for
+ * @param amount - Amount received
+ * @param paymentDate - Date the money was received (yyyy-MM-dd)
+ * @returns Error message, or null on success
+ */
+async function applyPaymentToInvoice(
+  invoice: PayableInvoice,
+  amount: number,
+  paymentDate: string
+): Promise<string | null> {
+  const applied = Math.min(amount, Math.max(0, getInvoiceBalance(invoice)));
+  const newPaidAmount = Number(invoice.paid_amount || 0) + applied;
+  const remaining = Number(invoice.final_amount) - newPaidAmount;
+  const newStatus = remaining <= 0 ? "paid" : newPaidAmount > 0 ? "partial" : "pending";
+
+  const { error } = await supabase
+    .from("invoices")
+    .update({
+      paid_amount: newPaidAmount,
+      payment_status: newStatus,
+      ...(newStatus === "paid" ? { payment_date: paymentDate } : {}),
+    })
+    .eq("id", invoice.id);
+
+  return error?.message || null;
+}
+
+/**
+ * Credit the customer ledger for a received payment
+ */
+async function postPaymentLedgerCredit(params: {
+  customerId: string;
+  date: string;
+  description: string;
+  amount: number;
+  referenceId: string;
+}): Promise<string | null> {
+  const { error } = await supabase.rpc("insert_ledger_with_balance", {
+    _customer_id: params.customerId,
+    _transaction_date: params.date,
+    _transaction_type: "payment",
+    _description: params.description,
+    _debit_amount: 0,
+    _credit_amount: params.amount,
+    _reference_id: params.referenceId,
+  });
+  return error?.message || null;
+}
+
+export interface RecordPaymentParams {
+  customerId: string;
+  invoice: PayableInvoice | null;
+  amount: number;
+  paymentDate: string;
+  paymentMode: string;
+  reference: string | null;
+  notes?: string | null;
+  recordedBy?: string | null;
+}
+
+/**
+ * Insert a verified payment, apply it to the invoice (if any) and credit the
+ * ledger.
+ *
+ * @returns The new payment id, or an error message
+ */
+async function recordCustomerPayment(
+  params: RecordPaymentParams
+): Promise<{ paymentId: string | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("payments")
+    .insert({
+      customer_id: params.customerId,
+      invoice_id: params.invoice?.id || null,
+      amount: params.amount,
+      payment_mode: params.paymentMode,
+      payment_date: params.paymentDate,
+      reference_number: params.reference,
+      notes: params.notes || null,
+      recorded_by: params.recordedBy || null,
+      status: "verified",
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) return { paymentId: null, error: error?.message || "Payment was not saved" };
+
+  if (params.invoice) {
+    const invoiceError = await applyPaymentToInvoice(params.invoice, params.amount, params.paymentDate);
+    if (invoiceError) return { paymentId: data.id, error: invoiceError };
+  }
+
+  const ledgerError = await postPaymentLedgerCredit({
+    customerId: params.customerId,
+    date: params.paymentDate,
+    description: params.invoice
+      ? `Payment for ${params.invoice.invoice_number}${params.reference ? ` (Ref ${params.reference})` : ""}`
+      : `Payment received${params.reference ? ` (Ref ${params.reference})` : ""}`,
+    amount: params.amount,
+    referenceId: params.invoice?.id || data.id,
+  });
+
+  return { paymentId: data.id, error: ledgerError };
+}
+
+/**
+ * Post customer payments from portal UPI verification and bank statement
+ * reconciliation the same way the Billing page's "Record Payment" does
+ */
+export function usePaymentPosting() {
+  const recordPayment = useCallback(async (params: RecordPaymentParams) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    return recordCustomerPayment({ ...params, recordedBy: params.recordedBy ?? user?.id ?? null });
+  }, []);
+
+  /**
+   * Mark a customer-submitted pending payment as verified and apply it.
+   * The customer, invoice, amount and date passed in win over what the
+   * customer reported, so reconciliation can post the figures from the bank
+   * statement.
+   */
+  const verifyPendingPayment = useCallback(
+    async (payment: {
+      id: string;
+      customer_id: string;
+      amount: number;
+      payment_date: string;
+      reference_number: string | null;
+      invoice: PayableInvoice | null;
+    }): Promise<string | null> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const amount = Number(payment.amount);
+
+      // Guard on status so two accountants can't both apply the same submission
+      const { data: updated, error } = await supabase
+        .from("payments")
+        .update({
+          customer_id: payment.customer_id,
+          invoice_id: payment.invoice?.id || null,
+          amount,
+          payment_date: payment.payment_date,
+          status: "verified",
+          verified_by: user?.id || null,
+          verified_at: new Date().toISOString(),
+          recorded_by: user?.id || null,
+        })
+        .eq("id", payment.id)
+        .eq("status", "pending")
+        .select("id");
+      if (error) return error.message;
+      if (!updated || updated.length === 0) return "Payment was already processed";
+
+      if (payment.invoice) {
+        const invoiceError = await applyPaymentToInvoice(payment.invoice, amount, payment.payment_date);
+        if (invoiceError) return invoiceError;
+      }
+
+      return postPaymentLedgerCredit({
+        customerId: payment.customer_id,
+        date: payment.payment_date,
+        description: payment.invoice
+          ? `UPI payment for ${payment.invoice.invoice_number} (UTR ${payment.reference_number})`
+          : `UPI payment (UTR ${payment.reference_number})`,
+        amount,
+        referenceId: payment.invoice?.id || payment.id,
+      });
+    },
+    []
+  );
+
+  return { recordPayment, verifyPendingPayment };
+}
@@ -0,0 +1,217 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateProductionRelated } from "@/lib/query-invalidation";
+import { DAIRY_SUPPLY_CATEGORY } from "@/lib/dairy-processing";
+
+/** The suggested milk rate is the average paid for accepted milk over this many days */
+const MILK_RATE_DAYS = 30;
+
+export interface BatchInputFormData {
+  feed_id: string;
+  quantity: string;
+}
+
+export interface ProcessingBatchFormData {
+  batch_number: string;
+  product_id: string;
+  batch_date: string;
+  milk_liters: string;
+  milk_rate: string;
+  output_quantity: string;
+  manufactured_on: string;
+  expires_on: string;
+  other_cost: string;
+  inputs: BatchInputFormData[];
+  notes: string;
+}
+
+export interface ProcessedProduct {
+  id: string;
+  name: string;
+  category: string;
+  unit: string;
+  milk_equivalent_liters: number | null;
+  stock_quantity: number | null;
+}
+
+export interface DairySupply {
+  id: string;
+  name: string;
+  unit: string;
+  current_stock: number;
+  cost_per_unit: number;
+}
+
+export interface ProcessingBatch {
+  id: string;
+  batch_number: string;
+  product_id: string;
+  product_name: string;
+  product_category: string;
+  product_unit: string;
+  milk_equivalent_liters: number | null;
+  batch_date: string;
+  milk_liters: number;
+  milk_rate: number;
+  output_quantity: number;
+  manufactured_on: string;
+  expires_on: string | null;
+  milk_cost: number;
+  inputs_cost: number;
+  other_cost: number;
+  total_cost: number;
+  cost_per_unit: number;
+  notes: string | null;
+  inputs: { name: string; unit: string; quantity: number; total_cost: number }[];
+}
+
+export interface ProcessingData {
+  /** Newest first */
+  batches: ProcessingBatch[];
+  /** Products other than liquid milk, the ones a batch can make */
+  products: ProcessedProduct[];
+  supplies: DairySupply[];
+  /** Average rate paid per litre of accepted milk lately, 0 when none was bought */
+  milkRate: number;
+}
+
+async function fetchProcessingData(): Promise<ProcessingData> {
+  const [batchesRes, productsRes, suppliesRes, procurementRes] = await Promise.all([
+    supabase
+      .from("processing_batches")
+      .select(
+        "*, products (name, category, unit, milk_equivalent_liters), processing_batch_inputs (quantity, total_cost, feed_inventory (name, unit))"
+      )
+      .order("batch_date", { ascending: false })
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("products")
+      .select("id, name, category, unit, milk_equivalent_liters, stock_quantity")
+      .eq("is_active", true)
+      .neq("category", "milk")
+      .order("category")
+      .order("name"),
+    supabase
+      .from("feed_inventory")
+      .select("id, name, unit, current_stock, cost_per_unit")
+      .eq("category", DAIRY_SUPPLY_CATEGORY)
+      .order("name"),
+    supabase
+      .from("milk_procurement")
+      .select("quantity_liters, total_amount")
+      .neq("quality_status", "rejected")
+      .gte("procurement_date", format(subDays(new Date(), MILK_RATE_DAYS), "yyyy-MM-dd")),
+  ]);
+  if (batchesRes.error) throw batchesRes.error;
+  if (productsRes.error) throw productsRes.error;
+  if (suppliesRes.error) throw suppliesRes.error;
+  if (procurementRes.error) throw procurementRes.error;
+
+  const batches: ProcessingBatch[] = (batchesRes.data || []).map(({ products, processing_batch_inputs, ...b }) => ({
+    ...b,
+    product_name: products?.name || "Product",
+    product_category: products?.category || "other",
+    product_unit: products?.unit || "",
+    milk_equivalent_liters: products?.milk_equivalent_liters ?? null,
+    milk_liters: Number(b.milk_liters),
+    milk_rate: Number(b.milk_rate),
+    output_quantity: Number(b.output_quantity),
+    milk_cost: Number(b.milk_cost),
+    inputs_cost: Number(b.inputs_cost),
+    other_cost: Number(b.other_cost),
+    total_cost: Number(b.total_cost),
+    cost_per_unit: Number(b.cost_per_unit),
+    inputs: (processing_batch_inputs || []).map((i) => ({
+      name: i.feed_inventory?.name || "Supply",
+      unit: i.feed_inventory?.unit || "",
+      quantity: Number(i.quantity),
+      total_cost: Number(i.total_cost),
+    })),
+  }));
+
+  const procured = procurementRes.data || [];
+  const liters = procured.reduce((sum, p) => sum + Number(p.quantity_liters), 0);
+  const paid = procured.reduce((sum, p) => sum + Number(p.total_amount || 0), 0);
+
+  return {
+    batches,
+    products: productsRes.data || [],
+    supplies: (suppliesRes.data || []).map((s) => ({
+      ...s,
+      current_stock: Number(s.current_stock || 0),
+      cost_per_unit: Number(s.cost_per_unit || 0),
+    })),
+    milkRate: liters > 0 ? Math.round((paid / liters) * 100) / 100 : 0,
+  };
+}
+
+export function useProcessingBatches() {
+  return useQuery({
+    queryKey: ["processing-batches"],
+    queryFn: fetchProcessingData,
+    staleTime: 60 * 1000,
+  });
+}
+
+function useInvalidateProcessing() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["processing-batches"] });
+    queryClient.invalidateQueries({ queryKey: ["inventory"] });
+    invalidateProductionRelated(queryClient);
+  };
+}
+
+export function useRecordProcessingBatch() {
+  const invalidate = useInvalidateProcessing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: ProcessingBatchFormData) => {
+      const { error } = await supabase.rpc("record_processing_batch", {
+        _batch_number: formData.batch_number.trim(),
+        _product_id: formData.product_id,
+        _batch_date: formData.batch_date,
+        _milk_liters: parseFloat(formData.milk_liters),
+        _milk_rate: parseFloat(formData.milk_rate) || 0,
+        _output_quantity: parseFloat(formData.output_quantity),
+        _manufactured_on: formData.manufactured_on,
+        _expires_on: formData.expires_on || undefined,
+        _other_cost: parseFloat(formData.other_cost) || 0,
+        _inputs: formData.inputs
+          .filter((i) => i.feed_id && parseFloat(i.quantity) > 0)
+          .map((i) => ({ feed_id: i.feed_id, quantity: parseFloat(i.quantity) })),
+        _notes: formData.notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Batch recorded", description: "Finished stock and supplies have been updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording batch", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteProcessingBatch() {
+  const invalidate = useInvalidateProcessing();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("processing_batches").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Batch deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting batch", description: error.message, variant: "destructive" });
+    },
+  });
+}
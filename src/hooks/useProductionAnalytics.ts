@@ -2,6 +2,8 @@ import { useState, useCallback } from "react";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { format, subDays } from "date-fns";
 import { getCattleTag, getCattleName } from "@/lib/supabase-helpers";
+import { fetchLactationAnalytics } from "@/hooks/useLactationAnalytics";
+import { DROP_BASELINE_DAYS, DROP_WINDOW_DAYS, detectYieldDrop, type DailyYield } from "@/lib/mastitis-risk";
 
 interface CattlePerformance {
   cattle_id: string;
@@ -41,6 +43,7 @@ interface ProductionTrend {
  * - Trend detection (7-day rolling average comparison)
  * - Session distribution analysis
  * - Anomaly detection
+ * - Lactation curves (Wood's model) with 305-day projections
  */
 export function useProductionAnalytics() {
   const [loading, setLoading] = useState(false);
@@ -256,7 +259,8 @@ export function useProductionAnalytics() {
   }, []);
 
   /**
-   * Detect production anomalies (deviation from average)
+   * Detect production anomalies: days far off the cow's 30-day average, and
+   * sudden drops against her own preceding week (an early mastitis sign)
    */
   const detectAnomalies = useCallback(async (
     threshold: number = 2 // Standard deviations
@@ -267,34 +271,41 @@ export function useProductionAnalytics() {
     expected: number;
     actual: number;
     deviation: number;
-    type: "high" | "low";
+    type: "high" | "low" | "sudden_drop";
   }>> => {
     const performances = await getCattlePerformance(30);
     const avgMap = new Map(performances.map(p => [p.cattle_id, p.average_daily]));
 
     const startDate = format(subDays(new Date(), 7), "yyyy-MM-dd");
+    // Sudden drops are judged against the week before the recent days
+    const dropStartDate = format(subDays(new Date(), DROP_WINDOW_DAYS + DROP_BASELINE_DAYS + 1), "yyyy-MM-dd");
     const { data: recentProduction } = await supabase
       .from("milk_production")
       .select(`
         cattle_id,
         quantity_liters,
         production_date,
+        session,
         cattle:cattle_id (tag_number)
       `)
-      .gte("production_date", startDate);
+      .gte("production_date", dropStartDate);
 
     if (!recentProduction) return [];
 
     // Group by cattle and date
     const dailyByCattle = new Map<string, Map<string, number>>();
+    const sessionsByCattle = new Map<string, Map<string, Set<string>>>();
     
     recentProduction.forEach(p => {
       if (!dailyByCattle.has(p.cattle_id)) {
         dailyByCattle.set(p.cattle_id, new Map());
+        sessionsByCattle.set(p.cattle_id, new Map());
       }
       const cattleDaily = dailyByCattle.get(p.cattle_id)!;
       const existing = cattleDaily.get(p.production_date) || 0;
       cattleDaily.set(p.production_date, existing + Number(p.quantity_liters));
+      const cattleSessions = sessionsByCattle.get(p.cattle_id)!;
+      cattleSessions.set(p.production_date, (cattleSessions.get(p.production_date) || new Set()).add(p.session));
     });
 
     const anomalies: Array<{
@@ -304,19 +315,39 @@ export function useProductionAnalytics() {
       expected: number;
       actual: number;
       deviation: number;
-      type: "high" | "low";
+      type: "high" | "low" | "sudden_drop";
     }> = [];
 
     dailyByCattle.forEach((dailyMap, cattleId) => {
+      const cattle = recentProduction.find(p => p.cattle_id === cattleId)?.cattle as any;
+
+      const daily: DailyYield[] = [...dailyMap.entries()].map(([date, liters]) => ({
+        date,
+        liters,
+        sessions: sessionsByCattle.get(cattleId)!.get(date)!.size,
+      }));
+      const drop = detectYieldDrop(daily);
+      if (drop) {
+        anomalies.push({
+          cattle_id: cattleId,
+          tag_number: cattle?.tag_number || "Unknown",
+          date: drop.date,
+          expected: drop.baseline,
+          actual: drop.actual,
+          deviation: -Math.round(drop.drop * 100),
+          type: "sudden_drop",
+        });
+      }
+
       const expected = avgMap.get(cattleId) || 0;
       if (expected === 0) return;
 
       dailyMap.forEach((actual, date) => {
+        if (date < startDate) return;
         const deviation = ((actual - expected) / expected) * 100;
         const thresholdPercent = threshold * 33; // ~66% deviation at 2 std
 
         if (Math.abs(deviation) > thresholdPercent) {
-          const cattle = recentProduction.find(p => p.cattle_id === cattleId)?.cattle as any;
           anomalies.push({
             cattle_id: cattleId,
             tag_number: cattle?.tag_number || "Unknown",
@@ -333,9 +364,24 @@ export function useProductionAnalytics() {
     return anomalies.sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation));
   }, [getCattlePerformance]);
 
+  /**
+   * Per-cow lactation curves compared with the parity-matched herd curve.
+   * Unlike the window-based ranking above, this accounts for where each
+   * cow is in her lactation.
+   */
+  const getLactationAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      return await fetchLactationAnalytics();
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   return {
     loading,
     getCattlePerformance,
+    getLactationAnalytics,
     getProductionSummary,
     getProductionTrends,
     detectAnomalies,
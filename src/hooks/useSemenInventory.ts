@@ -0,0 +1,153 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SemenStraw {
+  id: string;
+  semen_bull_id: string;
+  batch_number: string;
+  supplier: string | null;
+  received_date: string;
+  straws_received: number;
+  straws_on_hand: number;
+  cost_per_straw: number;
+  notes: string | null;
+  bull: { name: string; breed: string | null } | null;
+}
+
+export interface AiTechnician {
+  id: string;
+  name: string;
+  phone: string | null;
+  organisation: string | null;
+  is_active: boolean;
+  notes: string | null;
+}
+
+export interface SemenStrawFormData {
+  semen_bull_id: string;
+  batch_number: string;
+  supplier: string;
+  received_date: string;
+  straws_received: string;
+  straws_on_hand: string;
+  cost_per_straw: string;
+  notes: string;
+}
+
+export interface TechnicianFormData {
+  name: string;
+  phone: string;
+  organisation: string;
+  notes: string;
+}
+
+/** Batches at or below this many straws are shown as running low */
+export const LOW_STRAW_STOCK = 5;
+
+async function fetchSemenInventory() {
+  const [strawsRes, techniciansRes] = await Promise.all([
+    supabase
+      .from("semen_straws")
+      .select("*, bull:semen_bull_id (name, breed)")
+      .order("received_date", { ascending: false }),
+    supabase.from("ai_technicians").select("id, name, phone, organisation, is_active, notes").order("name"),
+  ]);
+
+  if (strawsRes.error) throw strawsRes.error;
+  if (techniciansRes.error) throw techniciansRes.error;
+
+  return {
+    straws: (strawsRes.data || []) as SemenStraw[],
+    technicians: (techniciansRes.data || []) as AiTechnician[],
+  };
+}
+
+export function useSemenInventory() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["semen-inventory"],
+    queryFn: fetchSemenInventory,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveStrawMutation = useMutation({
+    mutationFn: async ({ id, formData }: { id?: string; formData: SemenStrawFormData }) => {
+      const received = parseInt(formData.straws_received, 10);
+      const payload = {
+        semen_bull_id: formData.semen_bull_id,
+        batch_number: formData.batch_number.trim(),
+        supplier: formData.supplier.trim() || null,
+        received_date: formData.received_date,
+        straws_received: received,
+        // A new batch starts with everything it came with
+        straws_on_hand: id ? parseInt(formData.straws_on_hand, 10) : received,
+        cost_per_straw: parseFloat(formData.cost_per_straw) || 0,
+        notes: formData.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase.from("semen_straws").update(payload).eq("id", id)
+        : await supabase.from("semen_straws").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["semen-inventory"] });
+      toast({ title: "Semen batch saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveTechnicianMutation = useMutation({
+    mutationFn: async ({ id, formData }: { id?: string; formData: TechnicianFormData }) => {
+      const payload = {
+        name: formData.name.trim(),
+        phone: formData.phone.trim() || null,
+        organisation: formData.organisation.trim() || null,
+        notes: formData.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase.from("ai_technicians").update(payload).eq("id", id)
+        : await supabase.from("ai_technicians").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["semen-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["breeding-data"] });
+      toast({ title: "Technician saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving technician", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleTechnicianMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("ai_technicians").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["semen-inventory"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating technician", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    straws: query.data?.straws || [],
+    technicians: query.data?.technicians || [],
+    isLoading: query.isLoading,
+    saveStraw: saveStrawMutation.mutate,
+    saveTechnician: saveTechnicianMutation.mutate,
+    toggleTechnician: toggleTechnicianMutation.mutate,
+    isSavingStraw: saveStrawMutation.isPending,
+    isSavingTechnician: saveTechnicianMutation.isPending,
+  };
+}
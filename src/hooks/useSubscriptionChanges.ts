@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from "react";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import {
+  readSubscriptionChangeSettings,
+  nextEffectiveDate,
+  DEFAULT_SUBSCRIPTION_CUTOFF,
+  OPEN_CHANGE_STATUSES,
+  type SubscriptionChange,
+  type SubscriptionChangeSettings,
+  type SubscriptionChangeType,
+} from "@/lib/subscription-changes";
+
+export interface SubscriptionChangeWithProduct extends SubscriptionChange {
+  product: { name: string; unit: string } | null;
+}
+
+export interface ChangeRequestParams {
+  productId: string;
+  customerProductId: string | null;
+  changeType: SubscriptionChangeType;
+  oldQuantity: number | null;
+  newQuantity: number | null;
+}
+
+/**
+ * A customer's subscription change requests plus the dairy's cutoff rules,
+ * for the customer portal
+ */
+export function useSubscriptionChanges(customerId: string | null) {
+  const [changes, setChanges] = useState<SubscriptionChangeWithProduct[]>([]);
+  const [settings, setSettings] = useState<SubscriptionChangeSettings>({
+    cutoffTime: DEFAULT_SUBSCRIPTION_CUTOFF,
+    requireApproval: false,
+  });
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!customerId) return;
+    const [changesRes, settingsRes] = await Promise.all([
+      supabase
+        .from("subscription_change_requests")
+        .select("*, product:product_id (name, unit)")
+        .eq("customer_id", customerId)
+        .order("created_at", { ascending: false })
+        .limit(100),
+      supabase.from("dairy_settings").select("settings").limit(1).maybeSingle(),
+    ]);
+
+    setChanges((changesRes.data as SubscriptionChangeWithProduct[]) || []);
+    setSettings(readSubscriptionChangeSettings(settingsRes.data?.settings));
+    setLoading(false);
+  }, [customerId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * File a change. The database sets the final effective date and status,
+   * which are returned so the caller can tell the customer when it starts.
+   */
+  const requestChange = useCallback(
+    async (params: ChangeRequestParams): Promise<{ effectiveDate: string; status: string }> => {
+      if (!customerId) throw new Error("Not signed in");
+
+      const { data, error } = await supabase
+        .from("subscription_change_requests")
+        .insert({
+          customer_id: customerId,
+          customer_product_id: params.customerProductId,
+          product_id: params.productId,
+          change_type: params.changeType,
+          old_quantity: params.oldQuantity,
+          new_quantity: params.newQuantity,
+          effective_date: nextEffectiveDate(new Date(), settings.cutoffTime),
+          source: "customer",
+        })
+        .select("effective_date, status")
+        .single();
+
+      if (error) throw new Error(error.message);
+      await refresh();
+      return { effectiveDate: data.effective_date, status: data.status };
+    },
+    [customerId, settings.cutoffTime, refresh]
+  );
+
+  const cancelChange = useCallback(
+    async (changeId: string) => {
+      const { error } = await supabase
+        .from("subscription_change_requests")
+        .update({ status: "cancelled" })
+        .eq("id", changeId)
+        .in("status", OPEN_CHANGE_STATUSES);
+
+      if (error) throw new Error(error.message);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { changes, settings, loading, refresh, requestChange, cancelChange };
+}
@@ -75,6 +75,8 @@ export function useTelegramNotify() {
       session: string;
       quantity: number;
       cattle_count?: number;
+      /** Litres withheld for treatment withdrawal */
+      discarded?: number;
     }) => notify("production_recorded", data),
 
     notifyProcurementRecorded: (data: {
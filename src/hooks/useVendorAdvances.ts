@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateExpenseRelated, invalidateProcurementRelated } from "@/lib/query-invalidation";
+import { summarizeOutstanding, type AdvanceForRecovery, type AdvanceType, type RecoveryMode, type VendorOutstanding } from "@/lib/vendor-advances";
+
+export interface VendorAdvanceFormData {
+  vendor_id: string;
+  advance_type: AdvanceType;
+  amount: string;
+  issued_date: string;
+  recovery_mode: RecoveryMode;
+  recovery_value: string;
+  description: string;
+  notes: string;
+}
+
+export interface VendorAdvance {
+  id: string;
+  vendor_id: string;
+  vendor_name: string;
+  advance_type: string;
+  description: string | null;
+  amount: number;
+  issued_date: string;
+  recovery_mode: string;
+  recovery_value: number;
+  status: string;
+  notes: string | null;
+  recovered: number;
+  outstanding: number;
+  recoveries: number;
+  last_recovered: string | null;
+}
+
+async function fetchVendorAdvances(): Promise<{ advances: VendorAdvance[]; byVendor: VendorOutstanding[] }> {
+  const { data, error } = await supabase
+    .from("vendor_advances")
+    .select("*, milk_vendors (name), vendor_advance_recoveries (amount, recovered_on)")
+    .order("issued_date", { ascending: false });
+  if (error) throw error;
+
+  const advances: VendorAdvance[] = (data || []).map(({ milk_vendors, vendor_advance_recoveries, ...a }) => {
+    const recoveries = vendor_advance_recoveries || [];
+    const recovered = recoveries.reduce((sum, r) => sum + Number(r.amount), 0);
+    return {
+      ...a,
+      amount: Number(a.amount),
+      recovery_value: Number(a.recovery_value),
+      vendor_name: milk_vendors?.name || "Vendor",
+      recovered,
+      outstanding: Math.round((Number(a.amount) - recovered) * 100) / 100,
+      recoveries: recoveries.length,
+      last_recovered: recoveries.map((r) => r.recovered_on).sort().pop() || null,
+    };
+  });
+
+  return { advances, byVendor: summarizeOutstanding(advances) };
+}
+
+export function useVendorAdvances() {
+  return useQuery({
+    queryKey: ["vendor-advances"],
+    queryFn: fetchVendorAdvances,
+    staleTime: 60 * 1000,
+  });
+}
+
+/** A vendor's advances still being recovered, for previewing instalments */
+export async function fetchActiveAdvances(vendorId: string): Promise<AdvanceForRecovery[]> {
+  const { data, error } = await supabase
+    .from("vendor_advances")
+    .select("id, issued_date, recovery_mode, recovery_value, amount, vendor_advance_recoveries (amount)")
+    .eq("vendor_id", vendorId)
+    .eq("status", "active");
+  if (error) throw error;
+
+  return (data || []).map((a) => ({
+    id: a.id,
+    issued_date: a.issued_date,
+    recovery_mode: a.recovery_mode,
+    recovery_value: Number(a.recovery_value),
+    outstanding: Number(a.amount) - (a.vendor_advance_recoveries || []).reduce((sum, r) => sum + Number(r.amount), 0),
+  }));
+}
+
+function useInvalidateAdvances() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["vendor-advances"] });
+    queryClient.invalidateQueries({ queryKey: ["vendor-bills"] });
+    queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    invalidateProcurementRelated(queryClient);
+    invalidateExpenseRelated(queryClient);
+  };
+}
+
+export function useIssueVendorAdvance() {
+  const invalidate = useInvalidateAdvances();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (formData: VendorAdvanceFormData) => {
+      const { error } = await supabase.rpc("issue_vendor_advance", {
+        _vendor_id: formData.vendor_id,
+        _advance_type: formData.advance_type,
+        _amount: parseFloat(formData.amount),
+        _issued_date: formData.issued_date,
+        _recovery_mode: formData.recovery_mode,
+        _recovery_value: parseFloat(formData.recovery_value),
+        _description: formData.description || undefined,
+        _notes: formData.notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Advance recorded", description: "Instalments will be recovered from the vendor's bills" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording advance", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteVendorAdvance() {
+  const invalidate = useInvalidateAdvances();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("vendor_advances").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Advance deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting advance", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,271 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateExpenseRelated, invalidateProcurementRelated } from "@/lib/query-invalidation";
+import {
+  getBillPeriod,
+  isBillCycle,
+  summarizeBillLines,
+  type BillLine,
+  type BillPeriod,
+  type BillTotals,
+  type DeductionType,
+} from "@/lib/vendor-billing";
+import type { VendorBillStatement } from "@/lib/vendor-bill-pdf";
+import type { AdvanceForRecovery } from "@/lib/vendor-advances";
+
+const PAGE_SIZE = 1000;
+
+export interface DeductionFormData {
+  deduction_type: DeductionType;
+  description: string;
+  amount: string;
+}
+
+export interface CloseBillFormData {
+  deductions: DeductionFormData[];
+  notes: string;
+}
+
+export interface PayoutFormData {
+  payment_date: string;
+  payment_mode: string;
+  reference_number: string;
+}
+
+/** A vendor's unbilled procurement for one cycle */
+export interface BillCandidate {
+  key: string;
+  vendor_id: string;
+  vendor_name: string;
+  period: BillPeriod;
+  entries: number;
+  totals: BillTotals;
+  /** The cycle has ended and can be billed */
+  closable: boolean;
+  /** Advances the bill will recover instalments from */
+  advances: AdvanceForRecovery[];
+}
+
+export interface VendorBill {
+  id: string;
+  bill_number: string;
+  vendor_id: string;
+  vendor_name: string;
+  bill_cycle: string;
+  period_start: string;
+  period_end: string;
+  total_liters: number;
+  avg_fat: number | null;
+  avg_snf: number | null;
+  gross_amount: number;
+  deductions_total: number;
+  net_payable: number;
+  status: string;
+  paid_at: string | null;
+  notes: string | null;
+  deductions: {
+    id: string;
+    deduction_type: string;
+    description: string | null;
+    amount: number;
+    advance_id: string | null;
+  }[];
+}
+
+async function fetchVendorBilling(): Promise<{ candidates: BillCandidate[]; bills: VendorBill[] }> {
+  const [vendorsRes, billsRes, advancesRes] = await Promise.all([
+    supabase.from("milk_vendors").select("id, name, bill_cycle"),
+    supabase
+      .from("vendor_bills")
+      .select("*, milk_vendors (name), vendor_bill_deductions (id, deduction_type, description, amount, advance_id)")
+      .order("period_end", { ascending: false })
+      .order("bill_number"),
+    supabase
+      .from("vendor_advances")
+      .select("id, vendor_id, issued_date, recovery_mode, recovery_value, amount, vendor_advance_recoveries (amount)")
+      .eq("status", "active"),
+  ]);
+  if (vendorsRes.error) throw vendorsRes.error;
+  if (billsRes.error) throw billsRes.error;
+  if (advancesRes.error) throw advancesRes.error;
+
+  const unbilled: (BillLine & { vendor_id: string | null })[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("milk_procurement")
+      .select("vendor_id, procurement_date, session, quantity_liters, fat_percentage, snf_percentage, rate_per_liter, total_amount, quality_status")
+      .is("bill_id", null)
+      .not("vendor_id", "is", null)
+      .order("procurement_date")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    unbilled.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const vendors = new Map((vendorsRes.data || []).map((v) => [v.id, v]));
+  const today = format(new Date(), "yyyy-MM-dd");
+  const groups = new Map<string, { vendor_id: string; period: BillPeriod; lines: BillLine[] }>();
+  unbilled.forEach((line) => {
+    const vendor = vendors.get(line.vendor_id!);
+    if (!vendor) return;
+    const period = getBillPeriod(isBillCycle(vendor.bill_cycle) ? vendor.bill_cycle : "10_day", line.procurement_date);
+    const key = `${vendor.id}:${period.start}`;
+    const group = groups.get(key) || { vendor_id: vendor.id, period, lines: [] };
+    group.lines.push(line);
+    groups.set(key, group);
+  });
+
+  const advances = (advancesRes.data || []).map((a) => ({
+    id: a.id,
+    vendor_id: a.vendor_id,
+    issued_date: a.issued_date,
+    recovery_mode: a.recovery_mode,
+    recovery_value: Number(a.recovery_value),
+    outstanding: Number(a.amount) - (a.vendor_advance_recoveries || []).reduce((sum, r) => sum + Number(r.amount), 0),
+  }));
+
+  const candidates = [...groups.entries()]
+    .map(([key, g]) => ({
+      key,
+      vendor_id: g.vendor_id,
+      vendor_name: vendors.get(g.vendor_id)?.name || "Vendor",
+      period: g.period,
+      entries: g.lines.length,
+      totals: summarizeBillLines(g.lines),
+      closable: g.period.end < today,
+      advances: advances.filter((a) => a.vendor_id === g.vendor_id && a.issued_date <= g.period.end),
+    }))
+    .sort((a, b) => a.period.end.localeCompare(b.period.end) || a.vendor_name.localeCompare(b.vendor_name));
+
+  const bills: VendorBill[] = (billsRes.data || []).map(({ milk_vendors, vendor_bill_deductions, ...b }) => ({
+    ...b,
+    vendor_name: milk_vendors?.name || "Vendor",
+    deductions: vendor_bill_deductions || [],
+  }));
+
+  return { candidates, bills };
+}
+
+export function useVendorBills() {
+  return useQuery({
+    queryKey: ["vendor-bills"],
+    queryFn: fetchVendorBilling,
+    staleTime: 60 * 1000,
+  });
+}
+
+/** Everything the printed statement needs for one bill */
+export async function fetchVendorBillStatement(billId: string): Promise<VendorBillStatement> {
+  const [billRes, linesRes, deductionsRes, settingsRes] = await Promise.all([
+    supabase.from("vendor_bills").select("*, milk_vendors (name, phone, area)").eq("id", billId).single(),
+    supabase
+      .from("milk_procurement")
+      .select("procurement_date, session, quantity_liters, fat_percentage, snf_percentage, rate_per_liter, total_amount, quality_status")
+      .eq("bill_id", billId)
+      .order("procurement_date"),
+    supabase.from("vendor_bill_deductions").select("deduction_type, description, amount").eq("bill_id", billId).order("created_at"),
+    supabase.from("dairy_settings").select("dairy_name, address, phone").limit(1).maybeSingle(),
+  ]);
+  if (billRes.error) throw billRes.error;
+  if (linesRes.error) throw linesRes.error;
+  if (deductionsRes.error) throw deductionsRes.error;
+
+  const { milk_vendors, ...bill } = billRes.data;
+  return {
+    dairy: {
+      name: settingsRes.data?.dairy_name || "Awadh Dairy",
+      address: settingsRes.data?.address || null,
+      phone: settingsRes.data?.phone || null,
+    },
+    vendor: { name: milk_vendors?.name || "Vendor", phone: milk_vendors?.phone || null, area: milk_vendors?.area || null },
+    bill,
+    lines: linesRes.data || [],
+    deductions: deductionsRes.data || [],
+  };
+}
+
+function useInvalidateBilling() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["vendor-bills"] });
+    queryClient.invalidateQueries({ queryKey: ["vendor-advances"] });
+    queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    invalidateProcurementRelated(queryClient);
+    invalidateExpenseRelated(queryClient);
+  };
+}
+
+export function useCloseVendorBill() {
+  const invalidate = useInvalidateBilling();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ candidate, formData }: { candidate: BillCandidate; formData: CloseBillFormData }) => {
+      const { error } = await supabase.rpc("close_vendor_bill", {
+        _vendor_id: candidate.vendor_id,
+        _period_start: candidate.period.start,
+        _period_end: candidate.period.end,
+        _deductions: formData.deductions
+          .filter((d) => parseFloat(d.amount) > 0)
+          .map((d) => ({ deduction_type: d.deduction_type, description: d.description, amount: parseFloat(d.amount) })),
+        _notes: formData.notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Bill closed", description: "The cycle's procurement is now locked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error closing bill", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function usePayVendorBills() {
+  const invalidate = useInvalidateBilling();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ billIds, formData }: { billIds: string[]; formData: PayoutFormData }) => {
+      const { data, error } = await supabase.rpc("pay_vendor_bills", {
+        _bill_ids: billIds,
+        _payment_date: formData.payment_date,
+        _payment_mode: formData.payment_mode,
+        _reference_number: formData.reference_number || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (paid) => {
+      invalidate();
+      toast({ title: "Payout recorded", description: `${paid} bill${paid === 1 ? "" : "s"} marked paid` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error recording payout", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+/** Deletes an unpaid bill so its cycle can be corrected and closed again */
+export function useReopenVendorBill() {
+  const invalidate = useInvalidateBilling();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (billId: string) => {
+      const { error } = await supabase.from("vendor_bills").delete().eq("id", billId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Bill reopened" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error reopening bill", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, subDays } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import {
+  buildWalletStatement,
+  getWalletBalance,
+  type WalletCustomer,
+  type WalletStatementDay,
+} from "@/lib/prepaid-wallet";
+
+/**
+ * A prepaid customer's wallet balance and day-by-day statement for the last
+ * `days` days, read fresh from the ledger
+ */
+export function useWalletStatement(customerId: string | null, days = 30) {
+  const [wallet, setWallet] = useState<WalletCustomer | null>(null);
+  const [statement, setStatement] = useState<WalletStatementDay[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!customerId) return;
+    const since = format(subDays(new Date(), days - 1), "yyyy-MM-dd");
+
+    const [customerRes, ledgerRes] = await Promise.all([
+      supabase
+        .from("customers")
+        .select("credit_balance, wallet_low_balance_threshold, wallet_grace_amount, wallet_paused_at")
+        .eq("id", customerId)
+        .single(),
+      supabase
+        .from("customer_ledger")
+        .select("id, transaction_date, transaction_type, description, debit_amount, credit_amount, created_at")
+        .eq("customer_id", customerId)
+        .gte("transaction_date", since)
+        .order("transaction_date", { ascending: false })
+        .limit(1000),
+    ]);
+
+    if (customerRes.data) {
+      setWallet(customerRes.data);
+      setStatement(buildWalletStatement(ledgerRes.data || [], getWalletBalance(customerRes.data)));
+    }
+    setLoading(false);
+  }, [customerId, days]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { wallet, statement, loading, refresh };
+}
@@ -47,6 +47,39 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_technicians: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          organisation: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          organisation?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          organisation?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       attendance: {
         Row: {
           attendance_date: string
@@ -155,11 +188,188 @@ export type Database = {
         }
         Relationships: []
       }
+      bank_statement_imports: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          id: string
+          imported_by: string | null
+          source: string
+          statement_from: string | null
+          statement_to: string | null
+          total_credit: number
+          total_lines: number
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          id?: string
+          imported_by?: string | null
+          source?: string
+          statement_from?: string | null
+          statement_to?: string | null
+          total_credit?: number
+          total_lines?: number
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          id?: string
+          imported_by?: string | null
+          source?: string
+          statement_from?: string | null
+          statement_to?: string | null
+          total_credit?: number
+          total_lines?: number
+        }
+        Relationships: []
+      }
+      bank_statement_lines: {
+        Row: {
+          amount: number
+          created_at: string | null
+          customer_id: string | null
+          description: string | null
+          fingerprint: string
+          id: string
+          import_id: string
+          invoice_id: string | null
+          match_reasons: string[] | null
+          match_score: number | null
+          matched_at: string | null
+          matched_by: string | null
+          payment_id: string | null
+          reference: string | null
+          status: string
+          transaction_date: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          customer_id?: string | null
+          description?: string | null
+          fingerprint: string
+          id?: string
+          import_id: string
+          invoice_id?: string | null
+          match_reasons?: string[] | null
+          match_score?: number | null
+          matched_at?: string | null
+          matched_by?: string | null
+          payment_id?: string | null
+          reference?: string | null
+          status?: string
+          transaction_date: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          customer_id?: string | null
+          description?: string | null
+          fingerprint?: string
+          id?: string
+          import_id?: string
+          invoice_id?: string | null
+          match_reasons?: string[] | null
+          match_score?: number | null
+          matched_at?: string | null
+          matched_by?: string | null
+          payment_id?: string | null
+          reference?: string | null
+          status?: string
+          transaction_date?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_delivery_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      body_condition_records: {
+        Row: {
+          body_condition_score: number | null
+          cattle_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          record_date: string
+          recorded_by: string | null
+          updated_at: string
+          weight_kg: number | null
+        }
+        Insert: {
+          body_condition_score?: number | null
+          cattle_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          record_date?: string
+          recorded_by?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Update: {
+          body_condition_score?: number | null
+          cattle_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          record_date?: string
+          recorded_by?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "body_condition_records_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bottle_transactions: {
         Row: {
           bottle_id: string
           created_at: string | null
           customer_id: string | null
+          delivery_id: string | null
           id: string
           notes: string | null
           quantity: number
@@ -171,6 +381,7 @@ export type Database = {
           bottle_id: string
           created_at?: string | null
           customer_id?: string | null
+          delivery_id?: string | null
           id?: string
           notes?: string | null
           quantity: number
@@ -182,6 +393,7 @@ export type Database = {
           bottle_id?: string
           created_at?: string | null
           customer_id?: string | null
+          delivery_id?: string | null
           id?: string
           notes?: string | null
           quantity?: number
@@ -211,6 +423,13 @@ export type Database = {
             referencedRelation: "customers_delivery_view"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bottle_transactions_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
         ]
       }
       bottles: {
@@ -220,6 +439,7 @@ export type Database = {
           created_at: string | null
           deposit_amount: number | null
           id: string
+          lost_charge: number | null
           size: Database["public"]["Enums"]["bottle_size"]
           total_quantity: number
           updated_at: string | null
@@ -230,6 +450,7 @@ export type Database = {
           created_at?: string | null
           deposit_amount?: number | null
           id?: string
+          lost_charge?: number | null
           size: Database["public"]["Enums"]["bottle_size"]
           total_quantity?: number
           updated_at?: string | null
@@ -240,6 +461,7 @@ export type Database = {
           created_at?: string | null
           deposit_amount?: number | null
           id?: string
+          lost_charge?: number | null
           size?: Database["public"]["Enums"]["bottle_size"]
           total_quantity?: number
           updated_at?: string | null
@@ -262,6 +484,9 @@ export type Database = {
           record_date: string
           record_type: string
           recorded_by: string | null
+          semen_bull_id: string | null
+          semen_straw_id: string | null
+          technician_id: string | null
         }
         Insert: {
           actual_calving_date?: string | null
@@ -278,6 +503,9 @@ export type Database = {
           record_date: string
           record_type: string
           recorded_by?: string | null
+          semen_bull_id?: string | null
+          semen_straw_id?: string | null
+          technician_id?: string | null
         }
         Update: {
           actual_calving_date?: string | null
@@ -294,6 +522,9 @@ export type Database = {
           record_date?: string
           record_type?: string
           recorded_by?: string | null
+          semen_bull_id?: string | null
+          semen_straw_id?: string | null
+          technician_id?: string | null
         }
         Relationships: [
           {
@@ -303,17 +534,92 @@ export type Database = {
             referencedRelation: "cattle"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "breeding_records_semen_bull_id_fkey"
+            columns: ["semen_bull_id"]
+            isOneToOne: false
+            referencedRelation: "semen_bulls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_semen_straw_id_fkey"
+            columns: ["semen_straw_id"]
+            isOneToOne: false
+            referencedRelation: "semen_straws"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "ai_technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calf_rearing_events: {
+        Row: {
+          cattle_id: string
+          colostrum_litres: number | null
+          created_at: string
+          event_date: string
+          event_type: string
+          hours_after_birth: number | null
+          id: string
+          notes: string | null
+          recorded_by: string | null
+          updated_at: string
+          weight_kg: number | null
+        }
+        Insert: {
+          cattle_id: string
+          colostrum_litres?: number | null
+          created_at?: string
+          event_date?: string
+          event_type: string
+          hours_after_birth?: number | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Update: {
+          cattle_id?: string
+          colostrum_litres?: number | null
+          created_at?: string
+          event_date?: string
+          event_type?: string
+          hours_after_birth?: number | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calf_rearing_events_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
         ]
       }
       cattle: {
         Row: {
+          birth_weight: number | null
+          body_condition_score: number | null
           breed: string
+          calving_record_id: string | null
           cattle_type: string
           created_at: string | null
           created_by: string | null
           dam_id: string | null
           date_of_birth: string | null
           expected_calving_date: string | null
+          gender: string | null
           id: string
           image_url: string | null
           lactation_number: number | null
@@ -325,6 +631,7 @@ export type Database = {
           notes: string | null
           purchase_cost: number | null
           purchase_date: string | null
+          sire_bull_id: string | null
           sire_id: string | null
           status: Database["public"]["Enums"]["cattle_status"] | null
           tag_number: string
@@ -332,13 +639,17 @@ export type Database = {
           weight: number | null
         }
         Insert: {
+          birth_weight?: number | null
+          body_condition_score?: number | null
           breed: string
+          calving_record_id?: string | null
           cattle_type?: string
           created_at?: string | null
           created_by?: string | null
           dam_id?: string | null
           date_of_birth?: string | null
           expected_calving_date?: string | null
+          gender?: string | null
           id?: string
           image_url?: string | null
           lactation_number?: number | null
@@ -350,6 +661,7 @@ export type Database = {
           notes?: string | null
           purchase_cost?: number | null
           purchase_date?: string | null
+          sire_bull_id?: string | null
           sire_id?: string | null
           status?: Database["public"]["Enums"]["cattle_status"] | null
           tag_number: string
@@ -357,13 +669,17 @@ export type Database = {
           weight?: number | null
         }
         Update: {
+          birth_weight?: number | null
+          body_condition_score?: number | null
           breed?: string
+          calving_record_id?: string | null
           cattle_type?: string
           created_at?: string | null
           created_by?: string | null
           dam_id?: string | null
           date_of_birth?: string | null
           expected_calving_date?: string | null
+          gender?: string | null
           id?: string
           image_url?: string | null
           lactation_number?: number | null
@@ -375,6 +691,7 @@ export type Database = {
           notes?: string | null
           purchase_cost?: number | null
           purchase_date?: string | null
+          sire_bull_id?: string | null
           sire_id?: string | null
           status?: Database["public"]["Enums"]["cattle_status"] | null
           tag_number?: string
@@ -382,6 +699,13 @@ export type Database = {
           weight?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "cattle_calving_record_id_fkey"
+            columns: ["calving_record_id"]
+            isOneToOne: false
+            referencedRelation: "breeding_records"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "cattle_dam_id_fkey"
             columns: ["dam_id"]
@@ -389,6 +713,13 @@ export type Database = {
             referencedRelation: "cattle"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cattle_sire_bull_id_fkey"
+            columns: ["sire_bull_id"]
+            isOneToOne: false
+            referencedRelation: "semen_bulls"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "cattle_sire_id_fkey"
             columns: ["sire_id"]
@@ -405,12 +736,15 @@ export type Database = {
           created_at: string | null
           description: string | null
           id: string
+          medicine_id: string | null
           next_due_date: string | null
+          protocol_id: string | null
           record_date: string
           record_type: string
           recorded_by: string | null
           title: string
           vet_name: string | null
+          withdrawal_until: string | null
         }
         Insert: {
           cattle_id: string
@@ -418,12 +752,15 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          medicine_id?: string | null
           next_due_date?: string | null
+          protocol_id?: string | null
           record_date: string
           record_type: string
           recorded_by?: string | null
           title: string
           vet_name?: string | null
+          withdrawal_until?: string | null
         }
         Update: {
           cattle_id?: string
@@ -431,12 +768,15 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          medicine_id?: string | null
           next_due_date?: string | null
+          protocol_id?: string | null
           record_date?: string
           record_type?: string
           recorded_by?: string | null
           title?: string
           vet_name?: string | null
+          withdrawal_until?: string | null
         }
         Relationships: [
           {
@@ -446,6 +786,105 @@ export type Database = {
             referencedRelation: "cattle"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cattle_health_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "feed_inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cattle_health_protocol_id_fkey"
+            columns: ["protocol_id"]
+            isOneToOne: false
+            referencedRelation: "health_protocols"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cattle_lifecycle_events: {
+        Row: {
+          amount: number | null
+          book_value: number | null
+          carcass_disposal: string | null
+          cattle_id: string
+          cause: string | null
+          counterparty: string | null
+          created_at: string
+          disposal_cost: number | null
+          event_date: string
+          event_type: string
+          expense_id: string | null
+          id: string
+          income_id: string | null
+          insurance_claim_amount: number | null
+          insurance_policy: string | null
+          notes: string | null
+          recorded_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          book_value?: number | null
+          carcass_disposal?: string | null
+          cattle_id: string
+          cause?: string | null
+          counterparty?: string | null
+          created_at?: string
+          disposal_cost?: number | null
+          event_date?: string
+          event_type: string
+          expense_id?: string | null
+          id?: string
+          income_id?: string | null
+          insurance_claim_amount?: number | null
+          insurance_policy?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          book_value?: number | null
+          carcass_disposal?: string | null
+          cattle_id?: string
+          cause?: string | null
+          counterparty?: string | null
+          created_at?: string
+          disposal_cost?: number | null
+          event_date?: string
+          event_type?: string
+          expense_id?: string | null
+          id?: string
+          income_id?: string | null
+          insurance_claim_amount?: number | null
+          insurance_policy?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cattle_lifecycle_events_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cattle_lifecycle_events_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cattle_lifecycle_events_income_id_fkey"
+            columns: ["income_id"]
+            isOneToOne: false
+            referencedRelation: "farm_income"
+            referencedColumns: ["id"]
+          },
         ]
       }
       customer_accounts: {
@@ -537,6 +976,7 @@ export type Database = {
           bottle_id: string
           created_at: string | null
           customer_id: string
+          deposit_held: number
           id: string
           last_issued_date: string | null
           last_returned_date: string | null
@@ -547,6 +987,7 @@ export type Database = {
           bottle_id: string
           created_at?: string | null
           customer_id: string
+          deposit_held?: number
           id?: string
           last_issued_date?: string | null
           last_returned_date?: string | null
@@ -557,6 +998,7 @@ export type Database = {
           bottle_id?: string
           created_at?: string | null
           customer_id?: string
+          deposit_held?: number
           id?: string
           last_issued_date?: string | null
           last_returned_date?: string | null
@@ -753,14 +1195,21 @@ export type Database = {
           created_at: string | null
           credit_balance: number | null
           email: string | null
+          gstin: string | null
           id: string
           is_active: boolean | null
+          latitude: number | null
+          longitude: number | null
           name: string
           notes: string | null
           phone: string | null
           route_id: string | null
+          state_code: string | null
           subscription_type: string | null
           updated_at: string | null
+          wallet_grace_amount: number
+          wallet_low_balance_threshold: number
+          wallet_paused_at: string | null
         }
         Insert: {
           address?: string | null
@@ -770,14 +1219,21 @@ export type Database = {
           created_at?: string | null
           credit_balance?: number | null
           email?: string | null
+          gstin?: string | null
           id?: string
           is_active?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
           name: string
           notes?: string | null
           phone?: string | null
           route_id?: string | null
+          state_code?: string | null
           subscription_type?: string | null
           updated_at?: string | null
+          wallet_grace_amount?: number
+          wallet_low_balance_threshold?: number
+          wallet_paused_at?: string | null
         }
         Update: {
           address?: string | null
@@ -787,14 +1243,21 @@ export type Database = {
           created_at?: string | null
           credit_balance?: number | null
           email?: string | null
+          gstin?: string | null
           id?: string
           is_active?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
           name?: string
           notes?: string | null
           phone?: string | null
           route_id?: string | null
+          state_code?: string | null
           subscription_type?: string | null
           updated_at?: string | null
+          wallet_grace_amount?: number
+          wallet_low_balance_threshold?: number
+          wallet_paused_at?: string | null
         }
         Relationships: [
           {
@@ -814,11 +1277,13 @@ export type Database = {
           dairy_name: string
           email: string | null
           financial_year_start: number | null
+          gstin: string | null
           id: string
           invoice_prefix: string | null
           logo_url: string | null
           phone: string | null
           settings: Json | null
+          state_code: string | null
           updated_at: string | null
           upi_handle: string | null
         }
@@ -829,11 +1294,13 @@ export type Database = {
           dairy_name?: string
           email?: string | null
           financial_year_start?: number | null
+          gstin?: string | null
           id?: string
           invoice_prefix?: string | null
           logo_url?: string | null
           phone?: string | null
           settings?: Json | null
+          state_code?: string | null
           updated_at?: string | null
           upi_handle?: string | null
         }
@@ -844,11 +1311,13 @@ export type Database = {
           dairy_name?: string
           email?: string | null
           financial_year_start?: number | null
+          gstin?: string | null
           id?: string
           invoice_prefix?: string | null
           logo_url?: string | null
           phone?: string | null
           settings?: Json | null
+          state_code?: string | null
           updated_at?: string | null
           upi_handle?: string | null
         }
@@ -909,6 +1378,7 @@ export type Database = {
           id: string
           product_id: string
           quantity: number
+          stock_taken: number
           total_amount: number
           unit_price: number
         }
@@ -918,6 +1388,7 @@ export type Database = {
           id?: string
           product_id: string
           quantity: number
+          stock_taken?: number
           total_amount: number
           unit_price: number
         }
@@ -927,6 +1398,7 @@ export type Database = {
           id?: string
           product_id?: string
           quantity?: number
+          stock_taken?: number
           total_amount?: number
           unit_price?: number
         }
@@ -947,6 +1419,72 @@ export type Database = {
           },
         ]
       }
+      delivery_schedules: {
+        Row: {
+          anchor_date: string | null
+          auto_deliver: boolean | null
+          created_at: string | null
+          customer_id: string
+          customer_product_id: string | null
+          end_date: string | null
+          id: string
+          interval_days: number | null
+          is_active: boolean | null
+          month_days: number[] | null
+          pattern: string
+          start_date: string | null
+          updated_at: string | null
+          weekdays: number[] | null
+        }
+        Insert: {
+          anchor_date?: string | null
+          auto_deliver?: boolean | null
+          created_at?: string | null
+          customer_id: string
+          customer_product_id?: string | null
+          end_date?: string | null
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean | null
+          month_days?: number[] | null
+          pattern?: string
+          start_date?: string | null
+          updated_at?: string | null
+          weekdays?: number[] | null
+        }
+        Update: {
+          anchor_date?: string | null
+          auto_deliver?: boolean | null
+          created_at?: string | null
+          customer_id?: string
+          customer_product_id?: string | null
+          end_date?: string | null
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean | null
+          month_days?: number[] | null
+          pattern?: string
+          start_date?: string | null
+          updated_at?: string | null
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_schedules_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_schedules_customer_product_id_fkey"
+            columns: ["customer_product_id"]
+            isOneToOne: false
+            referencedRelation: "customer_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employee_shifts: {
         Row: {
           created_at: string | null
@@ -1133,7 +1671,54 @@ export type Database = {
           },
         ]
       }
-      feed_consumption: {
+      farm_income: {
+        Row: {
+          amount: number
+          category: string
+          cattle_id: string | null
+          created_at: string
+          id: string
+          income_date: string
+          notes: string | null
+          recorded_by: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          cattle_id?: string | null
+          created_at?: string
+          id?: string
+          income_date?: string
+          notes?: string | null
+          recorded_by?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          cattle_id?: string | null
+          created_at?: string
+          id?: string
+          income_date?: string
+          notes?: string | null
+          recorded_by?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_income_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feed_consumption: {
         Row: {
           cattle_id: string | null
           consumption_date: string
@@ -1141,6 +1726,7 @@ export type Database = {
           feed_id: string
           id: string
           quantity: number
+          ration_id: string | null
           recorded_by: string | null
         }
         Insert: {
@@ -1150,6 +1736,7 @@ export type Database = {
           feed_id: string
           id?: string
           quantity: number
+          ration_id?: string | null
           recorded_by?: string | null
         }
         Update: {
@@ -1159,6 +1746,7 @@ export type Database = {
           feed_id?: string
           id?: string
           quantity?: number
+          ration_id?: string | null
           recorded_by?: string | null
         }
         Relationships: [
@@ -1176,63 +1764,227 @@ export type Database = {
             referencedRelation: "feed_inventory"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "feed_consumption_ration_id_fkey"
+            columns: ["ration_id"]
+            isOneToOne: false
+            referencedRelation: "feed_rations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       feed_inventory: {
         Row: {
+          calcium_pct: number | null
           category: string
           cost_per_unit: number | null
           created_at: string | null
+          crude_protein_pct: number | null
           current_stock: number | null
+          dry_matter_pct: number | null
           id: string
+          milk_withdrawal_days: number | null
           min_stock_level: number | null
           name: string
+          phosphorus_pct: number | null
           supplier: string | null
+          tdn_pct: number | null
           unit: string
           updated_at: string | null
         }
         Insert: {
+          calcium_pct?: number | null
           category: string
           cost_per_unit?: number | null
           created_at?: string | null
+          crude_protein_pct?: number | null
           current_stock?: number | null
+          dry_matter_pct?: number | null
           id?: string
+          milk_withdrawal_days?: number | null
           min_stock_level?: number | null
           name: string
+          phosphorus_pct?: number | null
           supplier?: string | null
+          tdn_pct?: number | null
           unit?: string
           updated_at?: string | null
         }
         Update: {
+          calcium_pct?: number | null
           category?: string
           cost_per_unit?: number | null
           created_at?: string | null
+          crude_protein_pct?: number | null
           current_stock?: number | null
+          dry_matter_pct?: number | null
           id?: string
+          milk_withdrawal_days?: number | null
           min_stock_level?: number | null
           name?: string
+          phosphorus_pct?: number | null
           supplier?: string | null
+          tdn_pct?: number | null
           unit?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      feed_ration_items: {
+        Row: {
+          created_at: string
+          feed_id: string
+          fixed_quantity: number | null
+          id: string
+          proportion: number
+          ration_id: string
+        }
+        Insert: {
+          created_at?: string
+          feed_id: string
+          fixed_quantity?: number | null
+          id?: string
+          proportion?: number
+          ration_id: string
+        }
+        Update: {
+          created_at?: string
+          feed_id?: string
+          fixed_quantity?: number | null
+          id?: string
+          proportion?: number
+          ration_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_ration_items_feed_id_fkey"
+            columns: ["feed_id"]
+            isOneToOne: false
+            referencedRelation: "feed_inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_ration_items_ration_id_fkey"
+            columns: ["ration_id"]
+            isOneToOne: false
+            referencedRelation: "feed_rations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feed_rations: {
+        Row: {
+          animal_group: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          animal_group: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          animal_group?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      health_protocols: {
+        Row: {
+          cattle_type: string | null
+          created_at: string
+          id: string
+          interval_days: number | null
+          is_active: boolean
+          lead_days: number
+          match_keyword: string | null
+          max_age_days: number | null
+          min_age_days: number | null
+          name: string
+          notes: string | null
+          offset_days: number | null
+          record_type: string
+          schedule_type: string
+          season_day: number | null
+          season_month: number | null
+          updated_at: string
+        }
+        Insert: {
+          cattle_type?: string | null
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          lead_days?: number
+          match_keyword?: string | null
+          max_age_days?: number | null
+          min_age_days?: number | null
+          name: string
+          notes?: string | null
+          offset_days?: number | null
+          record_type?: string
+          schedule_type: string
+          season_day?: number | null
+          season_month?: number | null
+          updated_at?: string
+        }
+        Update: {
+          cattle_type?: string | null
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          lead_days?: number
+          match_keyword?: string | null
+          max_age_days?: number | null
+          min_age_days?: number | null
+          name?: string
+          notes?: string | null
+          offset_days?: number | null
+          record_type?: string
+          schedule_type?: string
+          season_day?: number | null
+          season_month?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       invoices: {
         Row: {
           billing_period_end: string
           billing_period_start: string
+          cgst_amount: number | null
           created_at: string | null
+          customer_gstin: string | null
           customer_id: string
           discount_amount: number | null
           due_date: string | null
           final_amount: number
           id: string
+          igst_amount: number | null
           invoice_number: string
           notes: string | null
           paid_amount: number | null
           payment_date: string | null
           payment_status: Database["public"]["Enums"]["payment_status"] | null
+          place_of_supply: string | null
+          sgst_amount: number | null
+          supplier_gstin: string | null
           tax_amount: number | null
+          tax_breakup: Json | null
           total_amount: number
           updated_at: string | null
           upi_handle: string | null
@@ -1240,18 +1992,25 @@ export type Database = {
         Insert: {
           billing_period_end: string
           billing_period_start: string
+          cgst_amount?: number | null
           created_at?: string | null
+          customer_gstin?: string | null
           customer_id: string
           discount_amount?: number | null
           due_date?: string | null
           final_amount: number
           id?: string
+          igst_amount?: number | null
           invoice_number: string
           notes?: string | null
           paid_amount?: number | null
           payment_date?: string | null
           payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          place_of_supply?: string | null
+          sgst_amount?: number | null
+          supplier_gstin?: string | null
           tax_amount?: number | null
+          tax_breakup?: Json | null
           total_amount: number
           updated_at?: string | null
           upi_handle?: string | null
@@ -1259,18 +2018,25 @@ export type Database = {
         Update: {
           billing_period_end?: string
           billing_period_start?: string
+          cgst_amount?: number | null
           created_at?: string | null
+          customer_gstin?: string | null
           customer_id?: string
           discount_amount?: number | null
           due_date?: string | null
           final_amount?: number
           id?: string
+          igst_amount?: number | null
           invoice_number?: string
           notes?: string | null
           paid_amount?: number | null
           payment_date?: string | null
           payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          place_of_supply?: string | null
+          sgst_amount?: number | null
+          supplier_gstin?: string | null
           tax_amount?: number | null
+          tax_breakup?: Json | null
           total_amount?: number
           updated_at?: string | null
           upi_handle?: string | null
@@ -1341,57 +2107,94 @@ export type Database = {
       }
       milk_procurement: {
         Row: {
+          alcohol_test: string | null
+          applied_price_rules: Json | null
+          base_rate: number | null
+          bill_id: string | null
+          clr: number | null
           created_at: string | null
           fat_percentage: number | null
           id: string
+          mbrt_hours: number | null
           notes: string | null
           payment_status: string | null
           procurement_date: string
+          quality_status: string
           quantity_liters: number
           rate_per_liter: number | null
           recorded_by: string | null
+          rejection_reason: string | null
           session: string
           snf_percentage: number | null
+          temperature_c: number | null
           total_amount: number | null
           updated_at: string | null
           vendor_id: string | null
           vendor_name: string | null
+          water_percentage: number | null
         }
         Insert: {
+          alcohol_test?: string | null
+          applied_price_rules?: Json | null
+          base_rate?: number | null
+          bill_id?: string | null
+          clr?: number | null
           created_at?: string | null
           fat_percentage?: number | null
           id?: string
+          mbrt_hours?: number | null
           notes?: string | null
           payment_status?: string | null
           procurement_date: string
+          quality_status?: string
           quantity_liters: number
           rate_per_liter?: number | null
           recorded_by?: string | null
+          rejection_reason?: string | null
           session: string
           snf_percentage?: number | null
+          temperature_c?: number | null
           total_amount?: number | null
           updated_at?: string | null
           vendor_id?: string | null
           vendor_name?: string | null
+          water_percentage?: number | null
         }
         Update: {
+          alcohol_test?: string | null
+          applied_price_rules?: Json | null
+          base_rate?: number | null
+          bill_id?: string | null
+          clr?: number | null
           created_at?: string | null
           fat_percentage?: number | null
           id?: string
+          mbrt_hours?: number | null
           notes?: string | null
           payment_status?: string | null
           procurement_date?: string
+          quality_status?: string
           quantity_liters?: number
           rate_per_liter?: number | null
           recorded_by?: string | null
+          rejection_reason?: string | null
           session?: string
           snf_percentage?: number | null
+          temperature_c?: number | null
           total_amount?: number | null
           updated_at?: string | null
           vendor_id?: string | null
           vendor_name?: string | null
+          water_percentage?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "milk_procurement_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_bills"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "milk_procurement_vendor_id_fkey"
             columns: ["vendor_id"]
@@ -1407,6 +2210,7 @@ export type Database = {
           created_at: string | null
           fat_percentage: number | null
           id: string
+          is_withheld: boolean
           production_date: string
           quality_notes: string | null
           quantity_liters: number
@@ -1419,6 +2223,7 @@ export type Database = {
           created_at?: string | null
           fat_percentage?: number | null
           id?: string
+          is_withheld?: boolean
           production_date: string
           quality_notes?: string | null
           quantity_liters: number
@@ -1431,6 +2236,7 @@ export type Database = {
           created_at?: string | null
           fat_percentage?: number | null
           id?: string
+          is_withheld?: boolean
           production_date?: string
           quality_notes?: string | null
           quantity_liters?: number
@@ -1448,10 +2254,94 @@ export type Database = {
           },
         ]
       }
+      milk_quality_quarters: {
+        Row: {
+          clots: boolean
+          cmt_score: string | null
+          conductivity: number | null
+          created_at: string
+          id: string
+          quarter: string
+          test_id: string
+        }
+        Insert: {
+          clots?: boolean
+          cmt_score?: string | null
+          conductivity?: number | null
+          created_at?: string
+          id?: string
+          quarter: string
+          test_id: string
+        }
+        Update: {
+          clots?: boolean
+          cmt_score?: string | null
+          conductivity?: number | null
+          created_at?: string
+          id?: string
+          quarter?: string
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milk_quality_quarters_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "milk_quality_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milk_quality_tests: {
+        Row: {
+          cattle_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          session: string | null
+          somatic_cell_count: number | null
+          test_date: string
+          tested_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          cattle_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          session?: string | null
+          somatic_cell_count?: number | null
+          test_date?: string
+          tested_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cattle_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          session?: string | null
+          somatic_cell_count?: number | null
+          test_date?: string
+          tested_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milk_quality_tests_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       milk_vendors: {
         Row: {
           address: string | null
           area: string | null
+          base_rate: number | null
+          bill_cycle: string
           created_at: string | null
           current_balance: number | null
           id: string
@@ -1464,6 +2354,8 @@ export type Database = {
         Insert: {
           address?: string | null
           area?: string | null
+          base_rate?: number | null
+          bill_cycle?: string
           created_at?: string | null
           current_balance?: number | null
           id?: string
@@ -1476,6 +2368,8 @@ export type Database = {
         Update: {
           address?: string | null
           area?: string | null
+          base_rate?: number | null
+          bill_cycle?: string
           created_at?: string | null
           current_balance?: number | null
           id?: string
@@ -1487,6 +2381,39 @@ export type Database = {
         }
         Relationships: []
       }
+      milk_wastage: {
+        Row: {
+          created_at: string
+          id: string
+          notes: string | null
+          quantity_liters: number
+          reason: string
+          recorded_by: string | null
+          session: string | null
+          wastage_date: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          quantity_liters: number
+          reason: string
+          recorded_by?: string | null
+          session?: string | null
+          wastage_date?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          quantity_liters?: number
+          reason?: string
+          recorded_by?: string | null
+          session?: string | null
+          wastage_date?: string
+        }
+        Relationships: []
+      }
       notification_logs: {
         Row: {
           body: string
@@ -1591,6 +2518,9 @@ export type Database = {
           payment_mode: string
           recorded_by: string | null
           reference_number: string | null
+          status: string
+          verified_at: string | null
+          verified_by: string | null
         }
         Insert: {
           amount: number
@@ -1603,6 +2533,9 @@ export type Database = {
           payment_mode: string
           recorded_by?: string | null
           reference_number?: string | null
+          status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Update: {
           amount?: number
@@ -1615,6 +2548,9 @@ export type Database = {
           payment_mode?: string
           recorded_by?: string | null
           reference_number?: string | null
+          status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Relationships: [
           {
@@ -1765,16 +2701,133 @@ export type Database = {
           },
         ]
       }
+      processing_batch_inputs: {
+        Row: {
+          batch_id: string
+          created_at: string
+          feed_id: string
+          id: string
+          quantity: number
+          total_cost: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          feed_id: string
+          id?: string
+          quantity: number
+          total_cost?: number
+          unit_cost?: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          feed_id?: string
+          id?: string
+          quantity?: number
+          total_cost?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_batch_inputs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "processing_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_batch_inputs_feed_id_fkey"
+            columns: ["feed_id"]
+            isOneToOne: false
+            referencedRelation: "feed_inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_batches: {
+        Row: {
+          batch_date: string
+          batch_number: string
+          cost_per_unit: number
+          created_at: string
+          created_by: string | null
+          expires_on: string | null
+          id: string
+          inputs_cost: number
+          manufactured_on: string
+          milk_cost: number
+          milk_liters: number
+          milk_rate: number
+          notes: string | null
+          other_cost: number
+          output_quantity: number
+          product_id: string
+          total_cost: number
+        }
+        Insert: {
+          batch_date?: string
+          batch_number: string
+          cost_per_unit?: number
+          created_at?: string
+          created_by?: string | null
+          expires_on?: string | null
+          id?: string
+          inputs_cost?: number
+          manufactured_on?: string
+          milk_cost?: number
+          milk_liters: number
+          milk_rate?: number
+          notes?: string | null
+          other_cost?: number
+          output_quantity: number
+          product_id: string
+          total_cost?: number
+        }
+        Update: {
+          batch_date?: string
+          batch_number?: string
+          cost_per_unit?: number
+          created_at?: string
+          created_by?: string | null
+          expires_on?: string | null
+          id?: string
+          inputs_cost?: number
+          manufactured_on?: string
+          milk_cost?: number
+          milk_liters?: number
+          milk_rate?: number
+          notes?: string | null
+          other_cost?: number
+          output_quantity?: number
+          product_id?: string
+          total_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_batches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           base_price: number
           category: string
           created_at: string | null
           description: string | null
+          hsn_code: string | null
           id: string
           image_url: string | null
           is_active: boolean | null
+          milk_equivalent_liters: number | null
           name: string
+          stock_quantity: number | null
+          tax_class: string
           tax_percentage: number | null
           unit: string
           updated_at: string | null
@@ -1784,10 +2837,14 @@ export type Database = {
           category: string
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          milk_equivalent_liters?: number | null
           name: string
+          stock_quantity?: number | null
+          tax_class?: string
           tax_percentage?: number | null
           unit?: string
           updated_at?: string | null
@@ -1797,10 +2854,14 @@ export type Database = {
           category?: string
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          milk_equivalent_liters?: number | null
           name?: string
+          stock_quantity?: number | null
+          tax_class?: string
           tax_percentage?: number | null
           unit?: string
           updated_at?: string | null
@@ -1899,32 +2960,164 @@ export type Database = {
         Row: {
           area: string | null
           assigned_staff: string | null
+          average_speed_kmph: number
           created_at: string | null
           id: string
           is_active: boolean | null
           name: string
           sequence_order: number | null
+          service_minutes: number
+          start_latitude: number | null
+          start_longitude: number | null
+          start_time: string
         }
         Insert: {
           area?: string | null
           assigned_staff?: string | null
+          average_speed_kmph?: number
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           name: string
           sequence_order?: number | null
+          service_minutes?: number
+          start_latitude?: number | null
+          start_longitude?: number | null
+          start_time?: string
         }
         Update: {
           area?: string | null
           assigned_staff?: string | null
+          average_speed_kmph?: number
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
           sequence_order?: number | null
+          service_minutes?: number
+          start_latitude?: number | null
+          start_longitude?: number | null
+          start_time?: string
         }
         Relationships: []
       }
+      semen_bulls: {
+        Row: {
+          breed: string | null
+          cattle_id: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          maternal_grandsire_bull_id: string | null
+          name: string
+          notes: string | null
+          registration_number: string | null
+          sire_bull_id: string | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          breed?: string | null
+          cattle_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          maternal_grandsire_bull_id?: string | null
+          name: string
+          notes?: string | null
+          registration_number?: string | null
+          sire_bull_id?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          breed?: string | null
+          cattle_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          maternal_grandsire_bull_id?: string | null
+          name?: string
+          notes?: string | null
+          registration_number?: string | null
+          sire_bull_id?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "semen_bulls_cattle_id_fkey"
+            columns: ["cattle_id"]
+            isOneToOne: false
+            referencedRelation: "cattle"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "semen_bulls_maternal_grandsire_bull_id_fkey"
+            columns: ["maternal_grandsire_bull_id"]
+            isOneToOne: false
+            referencedRelation: "semen_bulls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "semen_bulls_sire_bull_id_fkey"
+            columns: ["sire_bull_id"]
+            isOneToOne: false
+            referencedRelation: "semen_bulls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      semen_straws: {
+        Row: {
+          batch_number: string
+          cost_per_straw: number
+          created_at: string
+          id: string
+          notes: string | null
+          received_date: string
+          semen_bull_id: string
+          straws_on_hand: number
+          straws_received: number
+          supplier: string | null
+          updated_at: string
+        }
+        Insert: {
+          batch_number: string
+          cost_per_straw?: number
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_date?: string
+          semen_bull_id: string
+          straws_on_hand: number
+          straws_received: number
+          supplier?: string | null
+          updated_at?: string
+        }
+        Update: {
+          batch_number?: string
+          cost_per_straw?: number
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_date?: string
+          semen_bull_id?: string
+          straws_on_hand?: number
+          straws_received?: number
+          supplier?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "semen_straws_semen_bull_id_fkey"
+            columns: ["semen_bull_id"]
+            isOneToOne: false
+            referencedRelation: "semen_bulls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shifts: {
         Row: {
           created_at: string | null
@@ -1952,6 +3145,92 @@ export type Database = {
         }
         Relationships: []
       }
+      subscription_change_requests: {
+        Row: {
+          applied_at: string | null
+          change_type: string
+          created_at: string
+          customer_id: string
+          customer_product_id: string | null
+          effective_date: string
+          id: string
+          new_quantity: number | null
+          old_quantity: number | null
+          product_id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          applied_at?: string | null
+          change_type: string
+          created_at?: string
+          customer_id: string
+          customer_product_id?: string | null
+          effective_date: string
+          id?: string
+          new_quantity?: number | null
+          old_quantity?: number | null
+          product_id: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          applied_at?: string | null
+          change_type?: string
+          created_at?: string
+          customer_id?: string
+          customer_product_id?: string | null
+          effective_date?: string
+          id?: string
+          new_quantity?: number | null
+          old_quantity?: number | null
+          product_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_change_requests_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_change_requests_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_delivery_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_change_requests_customer_product_id_fkey"
+            columns: ["customer_product_id"]
+            isOneToOne: false
+            referencedRelation: "customer_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_change_requests_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       telegram_config: {
         Row: {
           chat_id: string
@@ -2024,6 +3303,250 @@ export type Database = {
         }
         Relationships: []
       }
+      vendor_advance_recoveries: {
+        Row: {
+          advance_id: string
+          amount: number
+          bill_id: string | null
+          created_at: string
+          id: string
+          payment_id: string | null
+          recovered_on: string
+        }
+        Insert: {
+          advance_id: string
+          amount: number
+          bill_id?: string | null
+          created_at?: string
+          id?: string
+          payment_id?: string | null
+          recovered_on?: string
+        }
+        Update: {
+          advance_id?: string
+          amount?: number
+          bill_id?: string | null
+          created_at?: string
+          id?: string
+          payment_id?: string | null
+          recovered_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_advance_recoveries_advance_id_fkey"
+            columns: ["advance_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_advances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_advance_recoveries_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_advance_recoveries_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_advances: {
+        Row: {
+          advance_type: string
+          amount: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          expense_id: string | null
+          id: string
+          issued_date: string
+          notes: string | null
+          recovery_mode: string
+          recovery_value: number
+          status: string
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          advance_type: string
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          expense_id?: string | null
+          id?: string
+          issued_date?: string
+          notes?: string | null
+          recovery_mode: string
+          recovery_value: number
+          status?: string
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          advance_type?: string
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          expense_id?: string | null
+          id?: string
+          issued_date?: string
+          notes?: string | null
+          recovery_mode?: string
+          recovery_value?: number
+          status?: string
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_advances_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_advances_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "milk_vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_bill_deductions: {
+        Row: {
+          advance_id: string | null
+          amount: number
+          bill_id: string
+          created_at: string
+          deduction_type: string
+          description: string | null
+          id: string
+        }
+        Insert: {
+          advance_id?: string | null
+          amount: number
+          bill_id: string
+          created_at?: string
+          deduction_type: string
+          description?: string | null
+          id?: string
+        }
+        Update: {
+          advance_id?: string | null
+          amount?: number
+          bill_id?: string
+          created_at?: string
+          deduction_type?: string
+          description?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_bill_deductions_advance_id_fkey"
+            columns: ["advance_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_advances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_bill_deductions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_bills: {
+        Row: {
+          avg_fat: number | null
+          avg_snf: number | null
+          bill_cycle: string
+          bill_number: string
+          created_at: string
+          created_by: string | null
+          deductions_total: number
+          gross_amount: number
+          id: string
+          net_payable: number
+          notes: string | null
+          paid_at: string | null
+          payment_id: string | null
+          period_end: string
+          period_start: string
+          status: string
+          total_liters: number
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          avg_fat?: number | null
+          avg_snf?: number | null
+          bill_cycle: string
+          bill_number: string
+          created_at?: string
+          created_by?: string | null
+          deductions_total?: number
+          gross_amount?: number
+          id?: string
+          net_payable?: number
+          notes?: string | null
+          paid_at?: string | null
+          payment_id?: string | null
+          period_end: string
+          period_start: string
+          status?: string
+          total_liters?: number
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          avg_fat?: number | null
+          avg_snf?: number | null
+          bill_cycle?: string
+          bill_number?: string
+          created_at?: string
+          created_by?: string | null
+          deductions_total?: number
+          gross_amount?: number
+          id?: string
+          net_payable?: number
+          notes?: string | null
+          paid_at?: string | null
+          payment_id?: string | null
+          period_end?: string
+          period_start?: string
+          status?: string
+          total_liters?: number
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_bills_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_bills_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "milk_vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vendor_payments: {
         Row: {
           amount: number
@@ -2230,6 +3753,10 @@ export type Database = {
       }
     }
     Functions: {
+      _jsonb_int_array: {
+        Args: { _value: Json }
+        Returns: number[]
+      }
       admin_create_staff: {
         Args: {
           _full_name: string
@@ -2277,7 +3804,26 @@ export type Database = {
         Args: { _is_active: boolean; _target_user_id: string }
         Returns: Json
       }
+      apply_advance_recoveries: {
+        Args: {
+          _base: number
+          _bill_id: string
+          _cap: number
+          _payment_id: string
+          _recovered_on: string
+          _vendor_id: string
+        }
+        Returns: number
+      }
+      apply_subscription_changes: {
+        Args: { _as_of: string }
+        Returns: number
+      }
       auto_create_daily_attendance: { Args: never; Returns: undefined }
+      bill_overdue_bottles: {
+        Args: { _as_of?: string }
+        Returns: number
+      }
       bootstrap_super_admin: {
         Args: { _phone: string; _pin: string }
         Returns: Json
@@ -2288,6 +3834,16 @@ export type Database = {
       }
       check_phone_availability: { Args: { _phone: string }; Returns: Json }
       cleanup_expired_sessions: { Args: never; Returns: undefined }
+      close_vendor_bill: {
+        Args: {
+          _deductions?: Json
+          _notes?: string
+          _period_end: string
+          _period_start: string
+          _vendor_id: string
+        }
+        Returns: string
+      }
       customer_change_pin: {
         Args: { _current_pin: string; _new_pin: string; _session_token: string }
         Returns: Json
@@ -2332,6 +3888,36 @@ export type Database = {
         Returns: boolean
       }
       is_manager_or_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_milk_withheld: {
+        Args: { _cattle_id: string; _date: string }
+        Returns: boolean
+      }
+      issue_vendor_advance: {
+        Args: {
+          _advance_type: string
+          _amount: number
+          _description?: string
+          _issued_date: string
+          _notes?: string
+          _recovery_mode: string
+          _recovery_value: number
+          _vendor_id: string
+        }
+        Returns: string
+      }
+      next_calf_tag_number: {
+        Args: { _birth_date: string }
+        Returns: string
+      }
+      pay_vendor_bills: {
+        Args: {
+          _bill_ids: string[]
+          _payment_date: string
+          _payment_mode?: string
+          _reference_number?: string
+        }
+        Returns: number
+      }
       recalculate_ledger_balances: {
         Args: { _customer_id: string }
         Returns: undefined
@@ -2340,14 +3926,72 @@ export type Database = {
         Args: { p_vendor_id: string }
         Returns: number
       }
+      record_cattle_lifecycle_event: {
+        Args: {
+          _amount?: number
+          _book_value?: number
+          _carcass_disposal?: string
+          _cattle_id: string
+          _cause?: string
+          _counterparty?: string
+          _disposal_cost?: number
+          _event_date: string
+          _event_type: string
+          _insurance_claim_amount?: number
+          _insurance_policy?: string
+          _notes?: string
+        }
+        Returns: string
+      }
+      record_processing_batch: {
+        Args: {
+          _batch_date: string
+          _batch_number: string
+          _expires_on?: string
+          _inputs?: Json
+          _manufactured_on: string
+          _milk_liters: number
+          _milk_rate: number
+          _notes?: string
+          _other_cost?: number
+          _output_quantity: number
+          _product_id: string
+        }
+        Returns: string
+      }
+      record_ration_consumption: {
+        Args: { _consumption_date: string; _entries: Json }
+        Returns: number
+      }
+      recover_vendor_advances: {
+        Args: { _payment_id: string }
+        Returns: number
+      }
+      register_calving: {
+        Args: {
+          _calves: Json
+          _calving_date: string
+          _dam_id: string
+          _notes?: string
+        }
+        Returns: string
+      }
       register_customer_account: {
         Args: { _phone: string; _pin: string }
         Returns: Json
       }
+      replace_delivery_schedules: {
+        Args: { _customer_id: string; _schedules: Json }
+        Returns: undefined
+      }
       run_auto_delivery: { Args: never; Returns: Json }
       setup_initial_admin: { Args: never; Returns: undefined }
       staff_login: { Args: { _phone: string; _pin: string }; Returns: Json }
       staff_logout: { Args: { _session_token: string }; Returns: Json }
+      subscription_change_effective_date: {
+        Args: { _at?: string }
+        Returns: string
+      }
       update_customer_pin: {
         Args: { _current_pin: string; _customer_id: string; _new_pin: string }
         Returns: Json
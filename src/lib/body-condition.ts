@@ -0,0 +1,231 @@
+/**
+ * Body weight and body condition.
+ *
+ * Body condition is scored 1 (emaciated) to 5 (obese) in quarter points.
+ * Cows are expected to lose some condition while milk yield climbs after
+ * calving, but a fast drop points to negative energy balance, which costs
+ * fertility and raises the risk of ketosis. The loss is measured from the
+ * best score around calving to the latest one.
+ *
+ * Heifers are weighed against a target growth curve expressed as a share
+ * of their breed's mature weight, aiming at ~55% at first service and ~85%
+ * at first calving.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export const BCS_MIN = 1;
+export const BCS_MAX = 5;
+export const BCS_STEP = 0.25;
+
+/** Every score on the scale, for pickers */
+export const BCS_SCORES = Array.from({ length: (BCS_MAX - BCS_MIN) / BCS_STEP + 1 }, (_, i) => BCS_MIN + i * BCS_STEP);
+
+/** Scores below this are thin, above FAT_BCS over-conditioned */
+export const THIN_BCS = 2.5;
+export const FAT_BCS = 4;
+
+/** Days after calving counted as early lactation */
+export const EARLY_LACTATION_DAYS = 100;
+
+/** Losing this many points of condition in early lactation is flagged */
+export const RAPID_BCS_LOSS = 0.75;
+
+/** Scores taken this many days before calving count as calving condition */
+export const PRE_CALVING_WINDOW_DAYS = 30;
+
+/** Heifers weighing less than this share of their target are behind */
+export const BELOW_TARGET_RATIO = 0.9;
+
+/** Heifer growth charts run to this age */
+export const HEIFER_CHART_DAYS = 730;
+
+/** Typical mature cow weight (kg) by breed */
+export const MATURE_WEIGHT_BY_BREED: Record<string, number> = {
+  holstein: 650,
+  hf: 600,
+  "hf cross": 500,
+  "jersey cross": 400,
+  jersey: 425,
+  "brown swiss": 600,
+  ayrshire: 550,
+  gir: 400,
+  sahiwal: 425,
+  "red sindhi": 350,
+  tharparkar: 400,
+  rathi: 350,
+  kankrej: 475,
+  hariana: 400,
+  ongole: 475,
+  murrah: 550,
+  "nili ravi": 550,
+  jaffarabadi: 600,
+  mehsana: 475,
+  surti: 425,
+  crossbred: 475,
+};
+
+/** Used when the breed is not in the table */
+export const DEFAULT_MATURE_WEIGHT = 450;
+
+/** Target weight as a share of mature weight, by age in days */
+const HEIFER_TARGET_CURVE: [number, number][] = [
+  [0, 0.07],
+  [90, 0.16],
+  [183, 0.28],
+  [365, 0.45],
+  [456, 0.55],
+  [730, 0.85],
+];
+
+export interface BodyConditionRecord {
+  id: string;
+  cattle_id: string;
+  record_date: string;
+  weight_kg: number | null;
+  body_condition_score: number | null;
+  notes: string | null;
+}
+
+export interface WeightSample {
+  date: string;
+  weight: number;
+}
+
+export type BcsBand = "thin" | "ideal" | "fat";
+
+export function getBcsBand(score: number): BcsBand {
+  if (score < THIN_BCS) return "thin";
+  if (score > FAT_BCS) return "fat";
+  return "ideal";
+}
+
+export const BCS_BAND_LABELS: Record<BcsBand, string> = {
+  thin: "Thin",
+  ideal: "Good condition",
+  fat: "Over-conditioned",
+};
+
+export function formatBcs(score: number): string {
+  return String(Number(score.toFixed(2)));
+}
+
+export function getMatureWeight(breed: string | null | undefined): number {
+  const name = ` ${(breed || "").toLowerCase().replace(/[^a-z]+/g, " ").replace(/cross ?bred/g, "cross").trim()} `;
+  // Longer names first so "hf cross" wins over "hf"
+  const match = Object.keys(MATURE_WEIGHT_BY_BREED)
+    .sort((a, b) => b.length - a.length)
+    .find((key) => name.includes(` ${key} `));
+  if (match) return MATURE_WEIGHT_BY_BREED[match];
+  return name.includes(" cross ") ? MATURE_WEIGHT_BY_BREED.crossbred : DEFAULT_MATURE_WEIGHT;
+}
+
+export function heiferTargetWeight(breed: string | null | undefined, ageDays: number): number {
+  const mature = getMatureWeight(breed);
+  const age = Math.max(0, Math.min(ageDays, HEIFER_CHART_DAYS));
+  const upper = HEIFER_TARGET_CURVE.findIndex(([day]) => day >= age);
+  if (upper <= 0) return Math.round(mature * HEIFER_TARGET_CURVE[0][1]);
+  const [d0, s0] = HEIFER_TARGET_CURVE[upper - 1];
+  const [d1, s1] = HEIFER_TARGET_CURVE[upper];
+  return Math.round(mature * (s0 + ((s1 - s0) * (age - d0)) / (d1 - d0)));
+}
+
+/** Young stock that has not calved yet */
+export function isHeifer(animal: {
+  date_of_birth: string | null;
+  lactation_number: number | null;
+  last_calving_date: string | null;
+  gender?: string | null;
+}): boolean {
+  if (!animal.date_of_birth || animal.gender === "male") return false;
+  return !(animal.lactation_number && animal.lactation_number > 0) && !animal.last_calving_date;
+}
+
+export interface GrowthChartPoint {
+  age_days: number;
+  date: string;
+  weight: number | null;
+  target: number | null;
+  bcs: number | null;
+}
+
+/**
+ * Recorded weights and scores by age, with the breed target at each record
+ * and at monthly steps so the target line is drawn through the whole chart
+ */
+export function buildGrowthChart(
+  animal: { date_of_birth: string; breed: string | null },
+  weights: WeightSample[],
+  scores: { date: string; score: number }[],
+  withTarget: boolean
+): GrowthChartPoint[] {
+  const birth = parseISO(animal.date_of_birth);
+  const points = new Map<number, GrowthChartPoint>();
+  const pointAt = (ageDays: number): GrowthChartPoint => {
+    const existing = points.get(ageDays);
+    if (existing) return existing;
+    const point: GrowthChartPoint = {
+      age_days: ageDays,
+      date: format(addDays(birth, ageDays), "yyyy-MM-dd"),
+      weight: null,
+      target: withTarget ? heiferTargetWeight(animal.breed, ageDays) : null,
+      bcs: null,
+    };
+    points.set(ageDays, point);
+    return point;
+  };
+
+  weights.forEach((w) => {
+    const age = differenceInCalendarDays(parseISO(w.date), birth);
+    if (age >= 0) pointAt(age).weight = w.weight;
+  });
+  scores.forEach((s) => {
+    const age = differenceInCalendarDays(parseISO(s.date), birth);
+    if (age >= 0) pointAt(age).bcs = s.score;
+  });
+  if (withTarget) {
+    for (let age = 0; age <= HEIFER_CHART_DAYS; age += 30) pointAt(age);
+  }
+
+  return [...points.values()].sort((a, b) => a.age_days - b.age_days);
+}
+
+export interface BcsChange {
+  /** Best score from shortly before calving onwards */
+  calving_score: number | null;
+  current_score: number | null;
+  scored_on: string | null;
+  /** Current minus calving score; negative is a loss */
+  change: number | null;
+  rapid_loss: boolean;
+}
+
+/**
+ * Condition change over the current lactation. Only flags a rapid loss
+ * while the cow is still in early lactation.
+ */
+export function assessBcsChange(
+  records: Pick<BodyConditionRecord, "record_date" | "body_condition_score">[],
+  calvingDate: string,
+  asOf: Date = new Date()
+): BcsChange {
+  const from = format(addDays(parseISO(calvingDate), -PRE_CALVING_WINDOW_DAYS), "yyyy-MM-dd");
+  const scores = records
+    .filter((r) => r.body_condition_score !== null && r.record_date >= from)
+    .sort((a, b) => a.record_date.localeCompare(b.record_date))
+    .map((r) => ({ date: r.record_date, score: Number(r.body_condition_score) }));
+
+  const latest = scores[scores.length - 1];
+  if (!latest) return { calving_score: null, current_score: null, scored_on: null, change: null, rapid_loss: false };
+
+  const reference = scores.length > 1 ? Math.max(...scores.slice(0, -1).map((s) => s.score)) : null;
+  const change = reference !== null ? latest.score - reference : null;
+  const dim = differenceInCalendarDays(asOf, parseISO(calvingDate));
+
+  return {
+    calving_score: reference,
+    current_score: latest.score,
+    scored_on: latest.date,
+    change,
+    rapid_loss: change !== null && -change >= RAPID_BCS_LOSS && dim >= 0 && dim <= EARLY_LACTATION_DAYS,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Bottle deposits.
+ *
+ * Inserting a bottle_transactions row for a customer is all the app does;
+ * the apply_bottle_transaction() trigger moves the bottle stock, updates
+ * customer_bottles and posts the deposit, refund and lost-bottle entries to
+ * the ledger. These helpers
+ * cover the settings and what the UI shows about bottles still out.
+ */
+import { differenceInCalendarDays } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+
+export const DEFAULT_BOTTLE_LOSS_DAYS = 30;
+
+export interface BottleDepositSettings {
+  /** Bottles out longer than this are billed as lost; 0 turns it off */
+  lossAfterDays: number;
+}
+
+export interface OutstandingBottle {
+  bottle_label: string;
+  quantity_pending: number;
+  deposit_held: number;
+  last_issued_date: string | null;
+}
+
+export function formatBottleLabel(bottle: { size: string; bottle_type: string } | null | undefined): string {
+  return bottle ? `${bottle.size} ${bottle.bottle_type}` : "Bottle";
+}
+
+/**
+ * Read the loss age from dairy_settings.settings
+ */
+export function readBottleDepositSettings(settings: Json | null | undefined): BottleDepositSettings {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  const days = Number(obj.bottle_loss_after_days);
+  return {
+    lossAfterDays: Number.isInteger(days) && days >= 0 ? days : DEFAULT_BOTTLE_LOSS_DAYS,
+  };
+}
+
+/**
+ * Write the loss age back into dairy_settings.settings, keeping any other
+ * keys stored there
+ */
+export function mergeBottleDepositSettings(settings: Json | null | undefined, value: BottleDepositSettings): Json {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  return { ...obj, bottle_loss_after_days: value.lossAfterDays };
+}
+
+/**
+ * Bottles a customer has held past the loss age, matching returns and
+ * write-offs against the oldest issues first. Mirrors
+ * public.bill_overdue_bottles().
+ */
+export function countOverdueBottles(
+  transactions: { transaction_type: string; quantity: number; transaction_date: string }[],
+  quantityPending: number,
+  asOf: Date,
+  lossAfterDays: number
+): number {
+  if (lossAfterDays <= 0 || quantityPending <= 0) return 0;
+  let issuedBeforeCutoff = 0;
+  let settled = 0;
+  for (const t of transactions) {
+    if (t.transaction_type === "issued") {
+      if (differenceInCalendarDays(asOf, new Date(t.transaction_date)) >= lossAfterDays) {
+        issuedBeforeCutoff += t.quantity;
+      }
+    } else if (["returned", "lost", "damaged"].includes(t.transaction_type)) {
+      settled += t.quantity;
+    }
+  }
+  return Math.max(0, Math.min(quantityPending, issuedBeforeCutoff - settled));
+}
@@ -0,0 +1,130 @@
+/**
+ * Calf rearing.
+ *
+ * A calf is followed from birth to weaning through colostrum feeding,
+ * monthly weigh-ins and the weaning itself. Growth is the average daily
+ * gain from birth weight to the latest weigh-in, checked against a target
+ * so slow growers stand out.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type RearingEventType = "colostrum" | "weigh_in" | "weaning";
+
+export const REARING_EVENT_LABELS: Record<RearingEventType, string> = {
+  colostrum: "Colostrum",
+  weigh_in: "Weigh-in",
+  weaning: "Weaning",
+};
+
+/** Animals younger than this are listed as calves */
+export const CALF_AGE_DAYS = 365;
+
+/** First colostrum later than this many hours after birth is flagged */
+export const COLOSTRUM_WITHIN_HOURS = 6;
+
+/** Weaning falls due at this age */
+export const WEANING_AGE_DAYS = 90;
+
+/** Days between growth weigh-ins */
+export const WEIGH_IN_INTERVAL_DAYS = 30;
+
+/** Average daily gain (kg/day) below this is slow */
+export const TARGET_DAILY_GAIN = 0.5;
+
+export interface RearingCalf {
+  id: string;
+  tag_number: string;
+  name: string | null;
+  gender: string | null;
+  date_of_birth: string;
+  birth_weight: number | null;
+  dam_id: string | null;
+}
+
+export interface RearingEvent {
+  id: string;
+  cattle_id: string;
+  event_type: string;
+  event_date: string;
+  weight_kg: number | null;
+  colostrum_litres: number | null;
+  hours_after_birth: number | null;
+  notes: string | null;
+}
+
+export interface WeightPoint {
+  date: string;
+  age_days: number;
+  weight: number;
+}
+
+export type RearingIssue = "no_colostrum" | "late_colostrum" | "weigh_in_due" | "weaning_due" | "slow_growth";
+
+export interface CalfSummary {
+  calf: RearingCalf;
+  age_days: number;
+  colostrum: RearingEvent | null;
+  weaned_on: string | null;
+  weights: WeightPoint[];
+  latest_weight: number | null;
+  daily_gain: number | null;
+  next_weigh_in: string | null;
+  issues: RearingIssue[];
+}
+
+export const ISSUE_LABELS: Record<RearingIssue, string> = {
+  no_colostrum: "No colostrum recorded",
+  late_colostrum: "Colostrum late",
+  weigh_in_due: "Weigh-in due",
+  weaning_due: "Weaning due",
+  slow_growth: "Slow growth",
+};
+
+export function summarizeCalf(calf: RearingCalf, events: RearingEvent[], today: Date = new Date()): CalfSummary {
+  const birth = parseISO(calf.date_of_birth);
+  const ageOn = (date: string) => differenceInCalendarDays(parseISO(date), birth);
+  const own = events
+    .filter((e) => e.cattle_id === calf.id)
+    .sort((a, b) => a.event_date.localeCompare(b.event_date));
+
+  const colostrum = own.find((e) => e.event_type === "colostrum") || null;
+  const weaning = own.find((e) => e.event_type === "weaning") || null;
+
+  const weights: WeightPoint[] = [
+    ...(calf.birth_weight ? [{ date: calf.date_of_birth, age_days: 0, weight: Number(calf.birth_weight) }] : []),
+    ...own
+      .filter((e) => e.weight_kg !== null)
+      .map((e) => ({ date: e.event_date, age_days: ageOn(e.event_date), weight: Number(e.weight_kg) })),
+  ];
+  const first = weights[0];
+  const last = weights[weights.length - 1];
+  const dailyGain = first && last && last.age_days > first.age_days
+    ? (last.weight - first.weight) / (last.age_days - first.age_days)
+    : null;
+
+  const ageDays = differenceInCalendarDays(today, birth);
+  const nextWeighIn = weaning ? null : format(addDays(parseISO(last?.date || calf.date_of_birth), WEIGH_IN_INTERVAL_DAYS), "yyyy-MM-dd");
+
+  const issues: RearingIssue[] = [];
+  if (!colostrum) {
+    // Past weaning age a missing colostrum record is no longer actionable
+    if (ageDays < WEANING_AGE_DAYS) issues.push("no_colostrum");
+  } else if ((colostrum.hours_after_birth ?? 0) > COLOSTRUM_WITHIN_HOURS) {
+    issues.push("late_colostrum");
+  }
+  if (nextWeighIn && nextWeighIn <= format(today, "yyyy-MM-dd")) issues.push("weigh_in_due");
+  if (!weaning && ageDays >= WEANING_AGE_DAYS) issues.push("weaning_due");
+  if (dailyGain !== null && dailyGain < TARGET_DAILY_GAIN) issues.push("slow_growth");
+
+  return {
+    calf,
+    age_days: ageDays,
+    colostrum,
+    weaned_on: weaning?.event_date || null,
+    weights,
+    latest_weight: last?.weight ?? null,
+    daily_gain: dailyGain,
+    next_weigh_in: nextWeighIn,
+    issues,
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Milk testing at the collection centre.
+ *
+ * Each procurement entry can carry a lactometer reading (CLR), temperature,
+ * an estimate of added water, MBRT (methylene blue reduction time) and the
+ * alcohol test. The entry is checked against the acceptance thresholds kept
+ * in dairy_settings.settings: a hard failure rejects the milk, which is
+ * then not paid for, and a soft failure downgrades it to a reduced rate.
+ * The vendor scorecard summarises the results per vendor and month.
+ */
+import { format, parseISO } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+
+export const QUALITY_STATUSES = ["accepted", "downgraded", "rejected"] as const;
+export type QualityStatus = (typeof QUALITY_STATUSES)[number];
+
+export const QUALITY_STATUS_LABELS: Record<QualityStatus, string> = {
+  accepted: "Accepted",
+  downgraded: "Downgraded",
+  rejected: "Rejected",
+};
+
+export interface MilkQualityThresholds {
+  minFat: number;
+  minSnf: number;
+  minClr: number;
+  maxClr: number;
+  /** Warmer milk at collection has not been cooled in time */
+  maxTemperature: number;
+  downgradeWaterPct: number;
+  rejectWaterPct: number;
+  downgradeMbrtHours: number;
+  rejectMbrtHours: number;
+  /** Milk that clots in the alcohol test will not stand heating */
+  rejectOnAlcohol: boolean;
+  /** Cut taken off the rate of downgraded milk */
+  downgradeRatePct: number;
+  /** SNF of unadulterated milk, the baseline for the added-water estimate */
+  standardSnf: number;
+}
+
+export const DEFAULT_MILK_QUALITY_THRESHOLDS: MilkQualityThresholds = {
+  minFat: 3.0,
+  minSnf: 8.0,
+  minClr: 26,
+  maxClr: 32,
+  maxTemperature: 15,
+  downgradeWaterPct: 3,
+  rejectWaterPct: 10,
+  downgradeMbrtHours: 3,
+  rejectMbrtHours: 1,
+  rejectOnAlcohol: true,
+  downgradeRatePct: 10,
+  standardSnf: 8.5,
+};
+
+export interface MilkTest {
+  fat: number | null;
+  snf: number | null;
+  clr: number | null;
+  temperature: number | null;
+  water: number | null;
+  mbrt: number | null;
+  alcohol: "pass" | "fail" | null;
+}
+
+export interface QualityResult {
+  status: QualityStatus;
+  reasons: string[];
+}
+
+export interface VendorQualityScore {
+  vendor_id: string;
+  vendor_name: string;
+  entries: number;
+  liters: number;
+  rejected_liters: number;
+  downgraded: number;
+  rejected: number;
+  /** Share of litres offered that were rejected */
+  rejection_rate: number;
+  avg_fat: number | null;
+  avg_snf: number | null;
+  avg_water: number | null;
+}
+
+export interface QualityTrendPoint {
+  month: string;
+  label: string;
+  rejection_rate: number;
+  downgrade_rate: number;
+  avg_fat: number | null;
+  avg_snf: number | null;
+  avg_water: number | null;
+}
+
+export interface QualityRecord {
+  vendor_id: string | null;
+  vendor_name: string | null;
+  procurement_date: string;
+  quantity_liters: number;
+  fat_percentage: number | null;
+  snf_percentage: number | null;
+  water_percentage: number | null;
+  quality_status: string | null;
+}
+
+/**
+ * Read the acceptance thresholds from dairy_settings.settings
+ */
+export function readMilkQualityThresholds(settings: Json | null | undefined): MilkQualityThresholds {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  const stored = obj.milk_quality && typeof obj.milk_quality === "object" && !Array.isArray(obj.milk_quality)
+    ? obj.milk_quality
+    : {};
+  const thresholds = { ...DEFAULT_MILK_QUALITY_THRESHOLDS };
+  (Object.keys(DEFAULT_MILK_QUALITY_THRESHOLDS) as (keyof MilkQualityThresholds)[]).forEach((key) => {
+    const value = stored[key];
+    if (key === "rejectOnAlcohol") {
+      if (typeof value === "boolean") thresholds.rejectOnAlcohol = value;
+    } else if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+      thresholds[key] = value;
+    }
+  });
+  return thresholds;
+}
+
+/**
+ * Write the thresholds back into dairy_settings.settings, keeping any other
+ * keys stored there
+ */
+export function mergeMilkQualityThresholds(settings: Json | null | undefined, value: MilkQualityThresholds): Json {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  return { ...obj, milk_quality: { ...value } };
+}
+
+/** SNF from the corrected lactometer reading and fat (ISI formula) */
+export function estimateSnfFromClr(clr: number, fat: number): number {
+  return Math.round((clr / 4 + 0.21 * fat + 0.36) * 100) / 100;
+}
+
+/**
+ * Added water as a share of the milk, from how far its SNF falls short of
+ * unadulterated milk. Uses the measured SNF when there is one.
+ */
+export function estimateWaterPercentage(
+  test: Pick<MilkTest, "fat" | "snf" | "clr">,
+  standardSnf: number
+): number | null {
+  const snf = test.snf ?? (test.clr !== null && test.fat !== null ? estimateSnfFromClr(test.clr, test.fat) : null);
+  if (snf === null || standardSnf <= 0) return null;
+  return Math.max(0, Math.round(((standardSnf - snf) / standardSnf) * 1000) / 10);
+}
+
+/** Checks the tests that were done; anything not measured is not held against the milk */
+export function evaluateMilkQuality(test: MilkTest, t: MilkQualityThresholds): QualityResult {
+  const rejects: string[] = [];
+  const downgrades: string[] = [];
+
+  if (test.alcohol === "fail" && t.rejectOnAlcohol) rejects.push("Alcohol test failed");
+  if (test.water !== null) {
+    if (test.water > t.rejectWaterPct) rejects.push(`Added water ${test.water}% over ${t.rejectWaterPct}%`);
+    else if (test.water > t.downgradeWaterPct) downgrades.push(`Added water ${test.water}% over ${t.downgradeWaterPct}%`);
+  }
+  if (test.mbrt !== null) {
+    if (test.mbrt < t.rejectMbrtHours) rejects.push(`MBRT ${test.mbrt} h under ${t.rejectMbrtHours} h`);
+    else if (test.mbrt < t.downgradeMbrtHours) downgrades.push(`MBRT ${test.mbrt} h under ${t.downgradeMbrtHours} h`);
+  }
+  if (test.alcohol === "fail" && !t.rejectOnAlcohol) downgrades.push("Alcohol test failed");
+  if (test.clr !== null && (test.clr < t.minClr || test.clr > t.maxClr)) {
+    downgrades.push(`CLR ${test.clr} outside ${t.minClr}-${t.maxClr}`);
+  }
+  if (test.temperature !== null && test.temperature > t.maxTemperature) {
+    downgrades.push(`Temperature ${test.temperature}°C over ${t.maxTemperature}°C`);
+  }
+  if (test.fat !== null && test.fat < t.minFat) downgrades.push(`Fat ${test.fat}% under ${t.minFat}%`);
+  if (test.snf !== null && test.snf < t.minSnf) downgrades.push(`SNF ${test.snf}% under ${t.minSnf}%`);
+
+  if (rejects.length > 0) return { status: "rejected", reasons: [...rejects, ...downgrades] };
+  if (downgrades.length > 0) return { status: "downgraded", reasons: downgrades };
+  return { status: "accepted", reasons: [] };
+}
+
+/** Rate paid for milk of the given status */
+export function applyQualityToRate(rate: number, status: QualityStatus, t: MilkQualityThresholds): number {
+  if (status === "rejected") return 0;
+  if (status === "downgraded") return Math.round(rate * (1 - t.downgradeRatePct / 100) * 100) / 100;
+  return rate;
+}
+
+function weightedAverage(records: QualityRecord[], key: "fat_percentage" | "snf_percentage" | "water_percentage") {
+  const tested = records.filter((r) => r[key] !== null);
+  const liters = tested.reduce((sum, r) => sum + Number(r.quantity_liters), 0);
+  if (liters === 0) return null;
+  return Math.round((tested.reduce((sum, r) => sum + Number(r[key]) * Number(r.quantity_liters), 0) / liters) * 100) / 100;
+}
+
+function litersShare(records: QualityRecord[], status: QualityStatus): number {
+  const liters = records.reduce((sum, r) => sum + Number(r.quantity_liters), 0);
+  if (liters === 0) return 0;
+  const matched = records.filter((r) => r.quality_status === status).reduce((sum, r) => sum + Number(r.quantity_liters), 0);
+  return matched / liters;
+}
+
+/** Per-vendor rejection rates and quality, worst rejection rate first */
+export function buildVendorScorecard(records: QualityRecord[]): VendorQualityScore[] {
+  const byVendor = new Map<string, QualityRecord[]>();
+  records.forEach((r) => {
+    const key = r.vendor_id || r.vendor_name || "unknown";
+    byVendor.set(key, [...(byVendor.get(key) || []), r]);
+  });
+
+  return [...byVendor.entries()]
+    .map(([vendorId, rows]) => {
+      const accepted = rows.filter((r) => r.quality_status !== "rejected");
+      return {
+        vendor_id: vendorId,
+        vendor_name: rows[0].vendor_name || "Unknown",
+        entries: rows.length,
+        liters: Math.round(rows.reduce((sum, r) => sum + Number(r.quantity_liters), 0) * 10) / 10,
+        rejected_liters:
+          Math.round(
+            rows.filter((r) => r.quality_status === "rejected").reduce((sum, r) => sum + Number(r.quantity_liters), 0) * 10
+          ) / 10,
+        downgraded: rows.filter((r) => r.quality_status === "downgraded").length,
+        rejected: rows.filter((r) => r.quality_status === "rejected").length,
+        rejection_rate: litersShare(rows, "rejected"),
+        avg_fat: weightedAverage(accepted, "fat_percentage"),
+        avg_snf: weightedAverage(accepted, "snf_percentage"),
+        avg_water: weightedAverage(rows, "water_percentage"),
+      };
+    })
+    .sort((a, b) => b.rejection_rate - a.rejection_rate || b.liters - a.liters);
+}
+
+/** Monthly rejection and downgrade rates with average quality */
+export function buildQualityTrend(records: QualityRecord[]): QualityTrendPoint[] {
+  const byMonth = new Map<string, QualityRecord[]>();
+  records.forEach((r) => {
+    const month = r.procurement_date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) || []), r]);
+  });
+
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, rows]) => {
+      const accepted = rows.filter((r) => r.quality_status !== "rejected");
+      return {
+        month,
+        label: format(parseISO(`${month}-01`), "MMM yy"),
+        rejection_rate: litersShare(rows, "rejected"),
+        downgrade_rate: litersShare(rows, "downgraded"),
+        avg_fat: weightedAverage(accepted, "fat_percentage"),
+        avg_snf: weightedAverage(accepted, "snf_percentage"),
+        avg_water: weightedAverage(rows, "water_percentage"),
+      };
+    });
+}
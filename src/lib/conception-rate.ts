@@ -0,0 +1,116 @@
+/**
+ * AI conception rates.
+ *
+ * Each insemination is matched to the cow's next pregnancy check before
+ * she is served again. A confirmed check counts the service as conceived,
+ * a negative one as failed. A cow served again with no check in between
+ * came back into heat, so that service failed too; services with neither
+ * are still pending and left out of the rate.
+ *
+ * Service number counts inseminations since the cow last calved, so the
+ * first service of each lactation is service 1.
+ */
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export interface ConceptionRecord {
+  id: string;
+  cattle_id: string;
+  record_type: string;
+  record_date: string;
+  pregnancy_confirmed: boolean | null;
+  actual_calving_date?: string | null;
+  semen_bull_id?: string | null;
+  technician_id?: string | null;
+  insemination_bull?: string | null;
+  insemination_technician?: string | null;
+}
+
+export type ServiceOutcome = "conceived" | "failed" | "pending";
+
+export interface ServiceResult {
+  record: ConceptionRecord;
+  service_number: number;
+  outcome: ServiceOutcome;
+  checked_on: string | null;
+}
+
+export interface ConceptionRate {
+  key: string;
+  label: string;
+  services: number;
+  conceived: number;
+  failed: number;
+  pending: number;
+  /** Conceived over services with a known outcome, null until there is one */
+  rate: number | null;
+}
+
+/** Services from this number on are reported together */
+export const MAX_SERVICE_GROUP = 3;
+
+/** A check sooner than this after service cannot confirm it */
+export const MIN_CHECK_DAYS = 18;
+
+const calvingDate = (r: ConceptionRecord) => r.actual_calving_date || r.record_date;
+
+export function resolveServices(records: ConceptionRecord[]): ServiceResult[] {
+  const byCow = new Map<string, ConceptionRecord[]>();
+  records.forEach((r) => byCow.set(r.cattle_id, [...(byCow.get(r.cattle_id) || []), r]));
+
+  const results: ServiceResult[] = [];
+  byCow.forEach((cowRecords) => {
+    const services = cowRecords
+      .filter((r) => r.record_type === "artificial_insemination")
+      .sort((a, b) => a.record_date.localeCompare(b.record_date));
+    const checks = cowRecords
+      .filter((r) => r.record_type === "pregnancy_check" && r.pregnancy_confirmed !== null)
+      .sort((a, b) => a.record_date.localeCompare(b.record_date));
+    const calvings = cowRecords.filter((r) => r.record_type === "calving").map(calvingDate).sort();
+
+    services.forEach((service, i) => {
+      const next = services[i + 1];
+      const lastCalving = [...calvings].reverse().find((d) => d <= service.record_date);
+      const serviceNumber = services
+        .slice(0, i + 1)
+        .filter((s) => !lastCalving || s.record_date >= lastCalving).length;
+
+      const check = checks.find(
+        (c) =>
+          differenceInCalendarDays(parseISO(c.record_date), parseISO(service.record_date)) >= MIN_CHECK_DAYS &&
+          (!next || c.record_date <= next.record_date)
+      );
+
+      let outcome: ServiceOutcome = "pending";
+      if (check) outcome = check.pregnancy_confirmed ? "conceived" : "failed";
+      else if (next) outcome = "failed";
+
+      results.push({ record: service, service_number: serviceNumber, outcome, checked_on: check?.record_date || null });
+    });
+  });
+
+  return results;
+}
+
+/** Conception rates grouped by key, largest groups first */
+export function groupConceptionRates(
+  results: ServiceResult[],
+  keyOf: (result: ServiceResult) => { key: string; label: string }
+): ConceptionRate[] {
+  const groups = new Map<string, ConceptionRate>();
+  results.forEach((result) => {
+    const { key, label } = keyOf(result);
+    const group = groups.get(key) || { key, label, services: 0, conceived: 0, failed: 0, pending: 0, rate: null };
+    group.services += 1;
+    group[result.outcome] += 1;
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map((g) => ({ ...g, rate: g.conceived + g.failed > 0 ? g.conceived / (g.conceived + g.failed) : null }))
+    .sort((a, b) => b.services - a.services || a.label.localeCompare(b.label));
+}
+
+export function serviceNumberLabel(serviceNumber: number) {
+  if (serviceNumber >= MAX_SERVICE_GROUP) return `Service ${MAX_SERVICE_GROUP}+`;
+  return `Service ${serviceNumber}`;
+}
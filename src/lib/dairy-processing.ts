@@ -0,0 +1,106 @@
+/**
+ * Dairy processing batches.
+ *
+ * A batch turns raw milk and supplies (culture, rennet, salt) into a
+ * finished product. Yield is output per litre of milk, compared against the
+ * yield implied by the product's milk_equivalent_liters. Cost rolls up the
+ * milk at the given rate, supplies at their stock cost and any other cost,
+ * and is spread over the output for a cost per unit.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+/** Supplies used in processing are kept in feed_inventory under this category */
+export const DAIRY_SUPPLY_CATEGORY = "dairy_supply";
+
+/** Days a product keeps under refrigeration, used to suggest the expiry date */
+export const SHELF_LIFE_DAYS_BY_CATEGORY: Record<string, number> = {
+  curd: 3,
+  paneer: 5,
+  butter: 60,
+  ghee: 270,
+};
+
+const BATCH_PREFIX_BY_CATEGORY: Record<string, string> = {
+  curd: "CRD",
+  paneer: "PNR",
+  butter: "BTR",
+  ghee: "GHE",
+};
+
+/** Batches expiring within this many days are flagged */
+export const EXPIRY_WARNING_DAYS = 2;
+
+export interface BatchInput {
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface BatchCost {
+  milk_cost: number;
+  inputs_cost: number;
+  total_cost: number;
+  cost_per_unit: number;
+}
+
+export type ExpiryStatus = "fresh" | "expiring" | "expired";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Next free batch number for the product's category on the date, e.g.
+ * PNR-261019-02 for the second paneer batch of the day
+ */
+export function nextBatchNumber(category: string, date: string, existing: string[]): string {
+  const stem = `${BATCH_PREFIX_BY_CATEGORY[category] || "BAT"}-${format(parseISO(date), "yyMMdd")}-`;
+  const taken = existing
+    .filter((n) => n.startsWith(stem))
+    .map((n) => parseInt(n.slice(stem.length), 10))
+    .filter((n) => Number.isFinite(n));
+  const next = (taken.length ? Math.max(...taken) : 0) + 1;
+  return `${stem}${String(next).padStart(2, "0")}`;
+}
+
+/** Suggested expiry for a batch made on `manufacturedOn`, or null for unknown categories */
+export function suggestExpiry(category: string, manufacturedOn: string): string | null {
+  const days = SHELF_LIFE_DAYS_BY_CATEGORY[category];
+  if (days === undefined || !manufacturedOn) return null;
+  return format(addDays(parseISO(manufacturedOn), days), "yyyy-MM-dd");
+}
+
+/** Output per 100 L of milk */
+export function yieldPercentage(outputQuantity: number, milkLiters: number): number | null {
+  if (!(milkLiters > 0) || !(outputQuantity > 0)) return null;
+  return round2((outputQuantity / milkLiters) * 100);
+}
+
+/** Yield implied by the product's milk equivalent: 5 L per kg means 20% */
+export function expectedYieldPercentage(milkEquivalent: number | null): number | null {
+  if (!milkEquivalent || milkEquivalent <= 0) return null;
+  return round2(100 / milkEquivalent);
+}
+
+export function rollupBatchCost(
+  milkLiters: number,
+  milkRate: number,
+  inputs: BatchInput[],
+  otherCost: number,
+  outputQuantity: number
+): BatchCost {
+  const milk_cost = round2(milkLiters * milkRate);
+  const inputs_cost = round2(inputs.reduce((sum, i) => sum + round2(i.quantity * i.unit_cost), 0));
+  const total_cost = round2(milk_cost + inputs_cost + otherCost);
+  return {
+    milk_cost,
+    inputs_cost,
+    total_cost,
+    cost_per_unit: outputQuantity > 0 ? round2(total_cost / outputQuantity) : 0,
+  };
+}
+
+export function getExpiryStatus(expiresOn: string | null, today: Date = new Date()): ExpiryStatus | null {
+  if (!expiresOn) return null;
+  const days = differenceInCalendarDays(parseISO(expiresOn), today);
+  if (days < 0) return "expired";
+  if (days <= EXPIRY_WARNING_DAYS) return "expiring";
+  return "fresh";
+}
@@ -0,0 +1,141 @@
+/**
+ * Delivery schedule helpers for the web app.
+ *
+ * The evaluator itself lives in supabase/functions/_shared so the
+ * auto-deliver-daily edge function runs the exact same logic; this module
+ * re-exports it and adds the mapping between the customer form and
+ * delivery_schedules rows.
+ */
+import { format } from "date-fns";
+import {
+  LEGACY_ALTERNATE_ANCHOR,
+  type DeliveryScheduleRule,
+} from "../../supabase/functions/_shared/delivery-schedule";
+
+export {
+  shouldDeliverOnDate,
+  resolveSchedule,
+  getDueSubscriptions,
+  scheduleFromSubscriptionType,
+  LEGACY_ALTERNATE_ANCHOR,
+} from "../../supabase/functions/_shared/delivery-schedule";
+export type { DeliveryScheduleRule, SchedulePattern } from "../../supabase/functions/_shared/delivery-schedule";
+
+export interface DeliveryDays {
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+}
+
+export type FrequencyType = "daily" | "alternate" | "weekly" | "custom" | "every_n_days" | "monthly";
+
+export interface ScheduleFormValue {
+  frequency: FrequencyType;
+  delivery_days: DeliveryDays;
+  interval_days: number;
+  anchor_date: string;
+  month_days: number[];
+}
+
+// Index matches Date.getDay(): 0 = Sunday
+const DAY_KEYS: (keyof DeliveryDays)[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export function deliveryDaysToWeekdays(days: DeliveryDays): number[] {
+  return DAY_KEYS.map((key, i) => (days[key] ? i : -1)).filter((i) => i >= 0);
+}
+
+export function weekdaysToDeliveryDays(weekdays: number[] | null): DeliveryDays {
+  const set = new Set(weekdays || []);
+  return DAY_KEYS.reduce((acc, key, i) => ({ ...acc, [key]: set.has(i) }), {} as DeliveryDays);
+}
+
+/**
+ * Convert the form's schedule fields into delivery_schedules columns
+ */
+export function scheduleFormToRow(
+  value: ScheduleFormValue
+): Pick<DeliveryScheduleRule, "pattern" | "weekdays" | "interval_days" | "anchor_date" | "month_days"> {
+  const empty = { weekdays: null, interval_days: null, anchor_date: null, month_days: null };
+
+  switch (value.frequency) {
+    case "daily":
+      return { ...empty, pattern: "daily" };
+    case "alternate":
+      return { ...empty, pattern: "alternate", anchor_date: value.anchor_date || format(new Date(), "yyyy-MM-dd") };
+    case "every_n_days":
+      return {
+        ...empty,
+        pattern: "every_n_days",
+        interval_days: Math.max(1, value.interval_days || 1),
+        anchor_date: value.anchor_date || format(new Date(), "yyyy-MM-dd"),
+      };
+    case "monthly":
+      return { ...empty, pattern: "monthly", month_days: [...value.month_days].sort((a, b) => a - b) };
+    default:
+      return { ...empty, pattern: "weekdays", weekdays: deliveryDaysToWeekdays(value.delivery_days) };
+  }
+}
+
+/**
+ * Convert a delivery_schedules row back into form fields
+ */
+export function scheduleRowToForm(row: DeliveryScheduleRule): ScheduleFormValue {
+  const base: ScheduleFormValue = {
+    frequency: "daily",
+    delivery_days: weekdaysToDeliveryDays([0, 1, 2, 3, 4, 5, 6]),
+    interval_days: 2,
+    anchor_date: row.anchor_date || LEGACY_ALTERNATE_ANCHOR,
+    month_days: row.month_days || [1],
+  };
+
+  switch (row.pattern) {
+    case "weekdays": {
+      const weekdays = row.weekdays || [];
+      return {
+        ...base,
+        frequency: weekdays.length === 1 ? "weekly" : "custom",
+        delivery_days: weekdaysToDeliveryDays(weekdays),
+      };
+    }
+    case "alternate":
+      return { ...base, frequency: "alternate" };
+    case "every_n_days":
+      return { ...base, frequency: "every_n_days", interval_days: row.interval_days || 2 };
+    case "monthly":
+      return { ...base, frequency: "monthly" };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Short human-readable description, e.g. "Every 3 days" or "Monthly: 1, 15"
+ */
+export function describeSchedule(value: ScheduleFormValue): string {
+  switch (value.frequency) {
+    case "daily":
+      return "Daily";
+    case "alternate":
+      return "Alternate Days";
+    case "every_n_days":
+      return `Every ${value.interval_days} days`;
+    case "monthly":
+      return `Monthly: ${value.month_days.join(", ")}`;
+    case "weekly":
+      return "Weekly";
+    default:
+      return "Custom";
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Feed ration planning.
+ *
+ * Requirements follow the usual feeding-standard rules of thumb: dry matter
+ * intake from body weight (plus fat-corrected milk for lactating animals),
+ * maintenance scaled on metabolic weight (W^0.75) and a fixed allowance per
+ * kg of 4% FCM, late-pregnancy or growth. They are starting points; adjust
+ * rations with your nutritionist.
+ *
+ * A ration recipe only says which feeds to use and in what proportion. The
+ * planner splits the animal's dry matter between roughage and concentrate so
+ * the energy (TDN) requirement is met, then converts dry matter to as-fed
+ * weights using each feed's DM%.
+ */
+import { differenceInMonths } from "date-fns";
+
+export const ANIMAL_GROUPS = ["lactating", "dry", "heifer", "calf"] as const;
+export type AnimalGroup = (typeof ANIMAL_GROUPS)[number];
+
+export const ANIMAL_GROUP_LABELS: Record<AnimalGroup, string> = {
+  lactating: "Lactating",
+  dry: "Dry",
+  heifer: "Heifer",
+  calf: "Calf",
+};
+
+/** Used when an animal has no recorded weight */
+export const DEFAULT_BODY_WEIGHT: Record<AnimalGroup, number> = {
+  lactating: 400,
+  dry: 400,
+  heifer: 250,
+  calf: 80,
+};
+
+/** Young stock under this age are fed as calves */
+const CALF_MAX_MONTHS = 6;
+
+/** Rumen health caps concentrate at this share of dry matter */
+export const MAX_CONCENTRATE_SHARE = 0.6;
+
+export interface FeedComposition {
+  dry_matter_pct: number;
+  crude_protein_pct: number;
+  tdn_pct: number;
+  calcium_pct: number;
+  phosphorus_pct: number;
+}
+
+/** Typical values by category, used for any figure not entered on the feed */
+export const DEFAULT_COMPOSITION: Record<string, FeedComposition> = {
+  green_fodder: { dry_matter_pct: 20, crude_protein_pct: 8, tdn_pct: 60, calcium_pct: 0.4, phosphorus_pct: 0.25 },
+  fodder: { dry_matter_pct: 20, crude_protein_pct: 8, tdn_pct: 60, calcium_pct: 0.4, phosphorus_pct: 0.25 },
+  dry_fodder: { dry_matter_pct: 90, crude_protein_pct: 4, tdn_pct: 45, calcium_pct: 0.3, phosphorus_pct: 0.1 },
+  concentrate: { dry_matter_pct: 90, crude_protein_pct: 20, tdn_pct: 70, calcium_pct: 0.5, phosphorus_pct: 0.6 },
+  byproduct: { dry_matter_pct: 90, crude_protein_pct: 15, tdn_pct: 65, calcium_pct: 0.3, phosphorus_pct: 0.5 },
+  supplement: { dry_matter_pct: 95, crude_protein_pct: 0, tdn_pct: 0, calcium_pct: 20, phosphorus_pct: 10 },
+  medicine: { dry_matter_pct: 100, crude_protein_pct: 0, tdn_pct: 0, calcium_pct: 0, phosphorus_pct: 0 },
+};
+
+export type FeedRole = "roughage" | "concentrate" | "supplement";
+
+export function getFeedRole(category: string): FeedRole {
+  if (["green_fodder", "dry_fodder", "fodder"].includes(category)) return "roughage";
+  if (["concentrate", "byproduct"].includes(category)) return "concentrate";
+  return "supplement";
+}
+
+export interface FeedNutrients {
+  category: string;
+  dry_matter_pct: number | null;
+  crude_protein_pct: number | null;
+  tdn_pct: number | null;
+  calcium_pct: number | null;
+  phosphorus_pct: number | null;
+}
+
+export function getComposition(feed: FeedNutrients): FeedComposition {
+  const defaults = DEFAULT_COMPOSITION[feed.category] ?? DEFAULT_COMPOSITION.concentrate;
+  return {
+    dry_matter_pct: feed.dry_matter_pct ?? defaults.dry_matter_pct,
+    crude_protein_pct: feed.crude_protein_pct ?? defaults.crude_protein_pct,
+    tdn_pct: feed.tdn_pct ?? defaults.tdn_pct,
+    calcium_pct: feed.calcium_pct ?? defaults.calcium_pct,
+    phosphorus_pct: feed.phosphorus_pct ?? defaults.phosphorus_pct,
+  };
+}
+
+/**
+ * Which ration an animal eats, from its lactation state and age
+ */
+export function getAnimalGroup(
+  animal: {
+    lactation_status: string | null;
+    lactation_number: number | null;
+    last_calving_date: string | null;
+    date_of_birth: string | null;
+  },
+  asOf: Date = new Date()
+): AnimalGroup {
+  if (animal.lactation_status === "lactating") return "lactating";
+  if ((animal.lactation_number || 0) > 0 || animal.last_calving_date) return "dry";
+  if (animal.date_of_birth && differenceInMonths(asOf, new Date(animal.date_of_birth)) < CALF_MAX_MONTHS) {
+    return "calf";
+  }
+  return "heifer";
+}
+
+/** Daily amounts: dry matter, protein and TDN in kg, minerals in g */
+export interface NutrientAmounts {
+  dm: number;
+  cp: number;
+  tdn: number;
+  ca: number;
+  p: number;
+}
+
+/** Added on top of maintenance for pregnancy (dry) or ~0.5 kg/day growth */
+const GROUP_ALLOWANCE: Record<Exclude<AnimalGroup, "lactating">, { factor: number; cp: number; tdn: number; ca: number; p: number }> = {
+  dry: { factor: 1.3, cp: 0, tdn: 0, ca: 0, p: 0 },
+  heifer: { factor: 1, cp: 0.26, tdn: 1.7, ca: 10, p: 5 },
+  calf: { factor: 1, cp: 0.2, tdn: 1, ca: 8, p: 4 },
+};
+
+/** Per kg of 4% fat-corrected milk */
+const PER_KG_FCM = { cp: 0.09, tdn: 0.322, ca: 3.2, p: 2 };
+
+export function calculateRequirements(animal: {
+  group: AnimalGroup;
+  weight: number;
+  dailyYield: number;
+  fatPercentage?: number | null;
+}): NutrientAmounts {
+  const { group, weight } = animal;
+  const metabolicWeight = Math.pow(weight, 0.75);
+  const maintenance = {
+    cp: 0.0046 * metabolicWeight,
+    tdn: 0.0355 * metabolicWeight,
+    ca: 0.04 * weight,
+    p: 0.03 * weight,
+  };
+
+  if (group === "lactating") {
+    const yieldKg = Math.max(0, animal.dailyYield);
+    const fcm = 0.4 * yieldKg + 15 * yieldKg * ((animal.fatPercentage ?? 4) / 100);
+    return {
+      dm: 0.0185 * weight + 0.305 * fcm,
+      cp: maintenance.cp + PER_KG_FCM.cp * fcm,
+      tdn: maintenance.tdn + PER_KG_FCM.tdn * fcm,
+      ca: maintenance.ca + PER_KG_FCM.ca * fcm,
+      p: maintenance.p + PER_KG_FCM.p * fcm,
+    };
+  }
+
+  const allowance = GROUP_ALLOWANCE[group];
+  const dmShare = group === "dry" ? 0.02 : group === "heifer" ? 0.025 : 0.03;
+  return {
+    dm: dmShare * weight,
+    cp: maintenance.cp * allowance.factor + allowance.cp,
+    tdn: maintenance.tdn * allowance.factor + allowance.tdn,
+    ca: maintenance.ca * allowance.factor + allowance.ca,
+    p: maintenance.p * allowance.factor + allowance.p,
+  };
+}
+
+export interface RationItemInput extends FeedNutrients {
+  feed_id: string;
+  proportion: number;
+  /** kg as fed per head per day, overriding the planner */
+  fixed_quantity: number | null;
+}
+
+export interface RationLine {
+  feed_id: string;
+  as_fed_kg: number;
+  dm_kg: number;
+}
+
+export interface RationPlan {
+  lines: RationLine[];
+  required: NutrientAmounts;
+  supplied: NutrientAmounts;
+  /** Share of the planned dry matter coming from concentrate */
+  concentrate_share: number;
+}
+
+function supply(composition: FeedComposition, dmKg: number): NutrientAmounts {
+  return {
+    dm: dmKg,
+    cp: (dmKg * composition.crude_protein_pct) / 100,
+    tdn: (dmKg * composition.tdn_pct) / 100,
+    ca: dmKg * composition.calcium_pct * 10,
+    p: dmKg * composition.phosphorus_pct * 10,
+  };
+}
+
+function addAmounts(a: NutrientAmounts, b: NutrientAmounts): NutrientAmounts {
+  return { dm: a.dm + b.dm, cp: a.cp + b.cp, tdn: a.tdn + b.tdn, ca: a.ca + b.ca, p: a.p + b.p };
+}
+
+const ZERO: NutrientAmounts = { dm: 0, cp: 0, tdn: 0, ca: 0, p: 0 };
+
+/** Weighted-average TDN% of a mix, by proportion */
+function mixTdn(items: RationItemInput[]): number {
+  const total = items.reduce((sum, i) => sum + i.proportion, 0);
+  if (total <= 0) return 0;
+  return items.reduce((sum, i) => sum + getComposition(i).tdn_pct * i.proportion, 0) / total;
+}
+
+/**
+ * Size a ration recipe for one animal's requirement
+ */
+export function planRation(items: RationItemInput[], required: NutrientAmounts): RationPlan {
+  const fixed = items.filter((i) => i.fixed_quantity !== null);
+  const roughage = items.filter((i) => i.fixed_quantity === null && getFeedRole(i.category) === "roughage");
+  const concentrate = items.filter((i) => i.fixed_quantity === null && getFeedRole(i.category) !== "roughage");
+
+  const lines: RationLine[] = [];
+  let supplied = ZERO;
+
+  for (const item of fixed) {
+    const composition = getComposition(item);
+    const asFed = item.fixed_quantity!;
+    const dm = (asFed * composition.dry_matter_pct) / 100;
+    lines.push({ feed_id: item.feed_id, as_fed_kg: asFed, dm_kg: dm });
+    supplied = addAmounts(supplied, supply(composition, dm));
+  }
+
+  const remainingDm = Math.max(0, required.dm - supplied.dm);
+  const remainingTdn = Math.max(0, required.tdn - supplied.tdn);
+
+  // Concentrate share x solves: remainingDm · (r + x·(c − r)) = remainingTdn
+  let share = 0;
+  if (concentrate.length > 0 && roughage.length === 0) {
+    share = 1;
+  } else if (concentrate.length > 0 && remainingDm > 0) {
+    const r = mixTdn(roughage);
+    const c = mixTdn(concentrate);
+    if (c > r) {
+      const needed = (remainingTdn * 100) / remainingDm;
+      share = Math.min(MAX_CONCENTRATE_SHARE, Math.max(0, (needed - r) / (c - r)));
+    }
+  }
+
+  const allocate = (group: RationItemInput[], dmKg: number) => {
+    const total = group.reduce((sum, i) => sum + i.proportion, 0);
+    for (const item of group) {
+      const composition = getComposition(item);
+      const dm = total > 0 ? (dmKg * item.proportion) / total : 0;
+      const asFed = composition.dry_matter_pct > 0 ? dm / (composition.dry_matter_pct / 100) : 0;
+      lines.push({ feed_id: item.feed_id, as_fed_kg: asFed, dm_kg: dm });
+      supplied = addAmounts(supplied, supply(composition, dm));
+    }
+  };
+  allocate(roughage, remainingDm * (1 - share));
+  allocate(concentrate, remainingDm * share);
+
+  return {
+    lines: lines.map((l) => ({
+      feed_id: l.feed_id,
+      as_fed_kg: Math.round(l.as_fed_kg * 100) / 100,
+      dm_kg: Math.round(l.dm_kg * 100) / 100,
+    })),
+    required,
+    supplied,
+    concentrate_share: share,
+  };
+}
+
+export interface RationRecipe {
+  id: string;
+  animal_group: string;
+  is_active: boolean;
+  items: { feed_id: string; proportion: number; fixed_quantity: number | null }[];
+}
+
+export interface HerdAnimal {
+  cattle_id: string;
+  label: string;
+  group: AnimalGroup;
+  weight: number | null;
+  body_condition_score: number | null;
+  daily_yield: number;
+  fat_percentage: number | null;
+}
+
+export interface AnimalRationPlan extends HerdAnimal {
+  /** Weight used for the plan; the group default when none is recorded */
+  planned_weight: number;
+  ration_id: string | null;
+  plan: RationPlan | null;
+}
+
+/**
+ * Plan every animal on the active ration for its group. Animals whose group
+ * has no active ration come back with a null plan.
+ */
+export function planHerdRations(
+  animals: HerdAnimal[],
+  rations: RationRecipe[],
+  feeds: Map<string, FeedNutrients>
+): AnimalRationPlan[] {
+  return animals.map((animal) => {
+    const plannedWeight = animal.weight && animal.weight > 0 ? animal.weight : DEFAULT_BODY_WEIGHT[animal.group];
+    const ration = rations.find((r) => r.is_active && r.animal_group === animal.group);
+    const items: RationItemInput[] = (ration?.items || []).flatMap((item) => {
+      const feed = feeds.get(item.feed_id);
+      return feed ? [{ ...feed, feed_id: item.feed_id, proportion: item.proportion, fixed_quantity: item.fixed_quantity }] : [];
+    });
+    const required = calculateRequirements({
+      group: animal.group,
+      weight: plannedWeight,
+      dailyYield: animal.daily_yield,
+      fatPercentage: animal.fat_percentage,
+    });
+    return {
+      ...animal,
+      planned_weight: plannedWeight,
+      ration_id: ration?.id ?? null,
+      plan: items.length > 0 ? planRation(items, required) : null,
+    };
+  });
+}
+
+/**
+ * Convert planned kilograms into the unit the feed is stocked in, or null
+ * for count-based units (pieces, bundles) the planner cannot size
+ */
+export function kgToFeedUnit(kg: number, unit: string): number | null {
+  switch (unit) {
+    case "kg":
+    case "liter":
+      return kg;
+    case "quintal":
+      return kg / 100;
+    default:
+      return null;
+  }
+}
+
+export interface FeedCostRow {
+  key: string;
+  label: string;
+  group: AnimalGroup | null;
+  feed_cost: number;
+  milk_litres: number;
+  /** null when the animal or group gave no milk in the period */
+  cost_per_litre: number | null;
+}
+
+/**
+ * Feed cost against milk for each animal and each group. Consumption logged
+ * without an animal (herd-level entries) only counts towards the herd total.
+ */
+export function buildFeedCostReport(input: {
+  consumption: { cattle_id: string | null; feed_id: string; quantity: number }[];
+  feedCost: Map<string, number>;
+  milkByCattle: Map<string, number>;
+  animals: Map<string, { label: string; group: AnimalGroup }>;
+}): { animals: FeedCostRow[]; groups: FeedCostRow[]; herd: FeedCostRow } {
+  const costByCattle = new Map<string, number>();
+  let unallocated = 0;
+  for (const c of input.consumption) {
+    const cost = Number(c.quantity) * (input.feedCost.get(c.feed_id) || 0);
+    if (c.cattle_id) costByCattle.set(c.cattle_id, (costByCattle.get(c.cattle_id) || 0) + cost);
+    else unallocated += cost;
+  }
+
+  const row = (key: string, label: string, group: AnimalGroup | null, cost: number, milk: number): FeedCostRow => ({
+    key,
+    label,
+    group,
+    feed_cost: Math.round(cost * 100) / 100,
+    milk_litres: Math.round(milk * 10) / 10,
+    cost_per_litre: milk > 0 ? Math.round((cost / milk) * 100) / 100 : null,
+  });
+
+  const animals: FeedCostRow[] = [];
+  const groupTotals = new Map<AnimalGroup, { cost: number; milk: number }>();
+  const ids = new Set([...costByCattle.keys(), ...input.milkByCattle.keys()]);
+  ids.forEach((id) => {
+    const animal = input.animals.get(id);
+    if (!animal) return;
+    const cost = costByCattle.get(id) || 0;
+    const milk = input.milkByCattle.get(id) || 0;
+    animals.push(row(id, animal.label, animal.group, cost, milk));
+    const totals = groupTotals.get(animal.group) || { cost: 0, milk: 0 };
+    groupTotals.set(animal.group, { cost: totals.cost + cost, milk: totals.milk + milk });
+  });
+
+  const groups = ANIMAL_GROUPS.filter((g) => groupTotals.has(g)).map((g) =>
+    row(g, ANIMAL_GROUP_LABELS[g], g, groupTotals.get(g)!.cost, groupTotals.get(g)!.milk)
+  );
+
+  const herdCost = [...costByCattle.values()].reduce((sum, c) => sum + c, 0) + unallocated;
+  const herdMilk = [...input.milkByCattle.values()].reduce((sum, m) => sum + m, 0);
+
+  return {
+    animals: animals.sort((a, b) => (b.cost_per_litre ?? -1) - (a.cost_per_litre ?? -1)),
+    groups,
+    herd: row("herd", "Whole herd", null, herdCost, herdMilk),
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * GST helpers for tax invoices.
+ * Splits each invoice line into CGST + SGST (intra-state) or IGST
+ * (inter-state) from the product's HSN, tax class and rate, and builds the
+ * HSN-wise summary printed on the invoice.
+ */
+
+export type TaxClass = "taxable" | "exempt" | "nil_rated" | "non_gst";
+
+export const TAX_CLASS_OPTIONS: { value: TaxClass; label: string }[] = [
+  { value: "taxable", label: "Taxable" },
+  { value: "exempt", label: "Exempt" },
+  { value: "nil_rated", label: "Nil rated" },
+  { value: "non_gst", label: "Non-GST" },
+];
+
+// Common dairy HSN headings, used to prefill the product form
+export const DEFAULT_HSN_BY_CATEGORY: Record<string, string> = {
+  milk: "0401",
+  curd: "0403",
+  buttermilk: "0403",
+  lassi: "0403",
+  paneer: "0406",
+  cheese: "0406",
+  ghee: "0405",
+  butter: "0405",
+};
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu & Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra & Nagar Haveli and Daman & Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman & Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Validate the format of a 15-character GSTIN (checksum is not verified)
+ */
+export function isValidGstin(gstin: string | null | undefined): boolean {
+  return !!gstin && GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * State code embedded in a GSTIN, or null if the GSTIN is invalid
+ */
+export function stateCodeFromGstin(gstin: string | null | undefined): string | null {
+  return isValidGstin(gstin) ? gstin!.trim().slice(0, 2) : null;
+}
+
+export function formatStateCode(code: string | null | undefined): string {
+  if (!code) return "-";
+  return GST_STATES[code] ? `${GST_STATES[code]} (${code})` : code;
+}
+
+/**
+ * Determine the place of supply for a customer.
+ * Explicit state wins, then the state in the customer's GSTIN; unregistered
+ * customers without a state are treated as local to the dairy.
+ *
+ * @param customer - Customer GSTIN and state code
+ * @param supplierState - Dairy's state code
+ * @returns State code of the place of supply (null if nothing is configured)
+ */
+export function resolvePlaceOfSupply(
+  customer: { gstin?: string | null; state_code?: string | null },
+  supplierState: string | null
+): string | null {
+  return customer.state_code || stateCodeFromGstin(customer.gstin) || supplierState;
+}
+
+export function isInterState(supplierState: string | null, placeOfSupply: string | null): boolean {
+  return !!supplierState && !!placeOfSupply && supplierState !== placeOfSupply;
+}
+
+export interface GstLineInput {
+  product_id: string;
+  description: string;
+  hsn_code: string | null;
+  tax_class: string | null;
+  gst_rate: number | null;
+  unit: string;
+  quantity: number;
+  rate: number;
+}
+
+/**
+ * One invoice line with its tax split.
+ * Stored in invoices.tax_breakup so the printed invoice doesn't change when
+ * product rates or HSN codes are edited later.
+ */
+export type GstLine = {
+  product_id: string;
+  description: string;
+  hsn_code: string | null;
+  tax_class: TaxClass;
+  unit: string;
+  quantity: number;
+  rate: number;
+  taxable_value: number;
+  gst_rate: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total: number;
+};
+
+export interface GstTotals {
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_tax: number;
+  total: number;
+}
+
+export interface HsnSummaryRow {
+  hsn_code: string;
+  gst_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function normalizeTaxClass(value: string | null): TaxClass {
+  return TAX_CLASS_OPTIONS.some((o) => o.value === value) ? (value as TaxClass) : "taxable";
+}
+
+/**
+ * Compute the tax split for a single line.
+ * Only "taxable" lines attract GST; intra-state tax is split equally into
+ * CGST and SGST, with any odd paisa going to SGST so the halves add up.
+ *
+ * @param input - Line quantity, rate and product tax settings
+ * @param interState - true when supplier and place of supply differ
+ * @returns Line with taxable value and CGST/SGST/IGST amounts
+ */
+export function calculateGstLine(input: GstLineInput, interState: boolean): GstLine {
+  const taxClass = normalizeTaxClass(input.tax_class);
+  const rate = taxClass === "taxable" ? Number(input.gst_rate) || 0 : 0;
+  const taxableValue = round2(input.quantity * input.rate);
+  const tax = round2((taxableValue * rate) / 100);
+  const cgst = interState ? 0 : round2(tax / 2);
+  const sgst = interState ? 0 : round2(tax - cgst);
+
+  return {
+    product_id: input.product_id,
+    description: input.description,
+    hsn_code: input.hsn_code || null,
+    tax_class: taxClass,
+    unit: input.unit,
+    quantity: input.quantity,
+    rate: input.rate,
+    taxable_value: taxableValue,
+    gst_rate: rate,
+    cgst_amount: cgst,
+    sgst_amount: sgst,
+    igst_amount: interState ? tax : 0,
+    total: round2(taxableValue + tax),
+  };
+}
+
+export function sumGstLines(lines: GstLine[]): GstTotals {
+  const totals = lines.reduce(
+    (acc, l) => ({
+      taxable_value: acc.taxable_value + l.taxable_value,
+      cgst_amount: acc.cgst_amount + l.cgst_amount,
+      sgst_amount: acc.sgst_amount + l.sgst_amount,
+      igst_amount: acc.igst_amount + l.igst_amount,
+    }),
+    { taxable_value: 0, cgst_amount: 0, sgst_amount: 0, igst_amount: 0 }
+  );
+  const totalTax = totals.cgst_amount + totals.sgst_amount + totals.igst_amount;
+
+  return {
+    taxable_value: round2(totals.taxable_value),
+    cgst_amount: round2(totals.cgst_amount),
+    sgst_amount: round2(totals.sgst_amount),
+    igst_amount: round2(totals.igst_amount),
+    total_tax: round2(totalTax),
+    total: round2(totals.taxable_value + totalTax),
+  };
+}
+
+/**
+ * Group lines by HSN code and rate for the invoice's HSN summary
+ */
+export function summarizeByHsn(lines: GstLine[]): HsnSummaryRow[] {
+  const groups = new Map<string, HsnSummaryRow>();
+  for (const line of lines) {
+    const hsn = line.hsn_code || "-";
+    const key = `${hsn}_${line.gst_rate}`;
+    const row = groups.get(key) || {
+      hsn_code: hsn,
+      gst_rate: line.gst_rate,
+      taxable_value: 0,
+      cgst_amount: 0,
+      sgst_amount: 0,
+      igst_amount: 0,
+    };
+    row.taxable_value = round2(row.taxable_value + line.taxable_value);
+    row.cgst_amount = round2(row.cgst_amount + line.cgst_amount);
+    row.sgst_amount = round2(row.sgst_amount + line.sgst_amount);
+    row.igst_amount = round2(row.igst_amount + line.igst_amount);
+    groups.set(key, row);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.hsn_code.localeCompare(b.hsn_code));
+}
+
+/**
+ * A registered supplier issues a tax invoice when any line is taxable and a
+ * bill of supply when everything on it is exempt or nil rated
+ */
+export function invoiceTitle(lines: GstLine[]): "TAX INVOICE" | "BILL OF SUPPLY" {
+  return lines.some((l) => l.gst_rate > 0) ? "TAX INVOICE" : "BILL OF SUPPLY";
+}
+
+/**
+ * Invoice columns derived from the computed lines
+ *
+ * @param lines - Lines from calculateGstLine
+ * @param supplier - Dairy GSTIN and state
+ * @param customerGstin - Customer GSTIN (null for unregistered customers)
+ * @param placeOfSupply - State code from resolvePlaceOfSupply
+ * @returns Fields to spread into an invoices insert/update
+ */
+export function buildInvoiceTaxFields(
+  lines: GstLine[],
+  supplier: { gstin: string | null; state_code: string | null },
+  customerGstin: string | null,
+  placeOfSupply: string | null
+) {
+  const totals = sumGstLines(lines);
+  return {
+    total_amount: totals.taxable_value,
+    tax_amount: totals.total_tax,
+    cgst_amount: totals.cgst_amount,
+    sgst_amount: totals.sgst_amount,
+    igst_amount: totals.igst_amount,
+    supplier_gstin: supplier.gstin,
+    customer_gstin: customerGstin,
+    place_of_supply: placeOfSupply,
+    tax_breakup: lines,
+  };
+}
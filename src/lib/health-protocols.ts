@@ -0,0 +1,268 @@
+/**
+ * Herd-health protocols.
+ *
+ * A protocol says when an animal falls due for a vaccination, deworming or
+ * checkup: once at an age, on a repeating interval within an age band, once
+ * a year before a season (pre-monsoon HS/BQ), or some days after calving.
+ * Due dates are worked out per animal from date of birth, calvings and the
+ * cattle_health records that satisfy the protocol — those tagged with it,
+ * plus any whose title matches its keyword so history from before
+ * protocols existed still counts.
+ */
+import { addDays, addYears, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type ProtocolSchedule = "age" | "interval" | "seasonal" | "calving";
+
+export const PROTOCOL_SCHEDULES: ProtocolSchedule[] = ["interval", "seasonal", "age", "calving"];
+
+export const SCHEDULE_LABELS: Record<ProtocolSchedule, string> = {
+  interval: "Repeat interval",
+  seasonal: "Yearly, by date",
+  age: "Once, at age",
+  calving: "After calving",
+};
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Tasks due further out than this are not listed */
+export const TASK_HORIZON_DAYS = 30;
+
+/** A seasonal dose given up to this many days before the season date counts for it */
+export const SEASON_WINDOW_DAYS = 90;
+
+/** Calvings older than this no longer raise a post-calving task */
+export const CALVING_LOOKBACK_DAYS = 365;
+
+export interface HealthProtocol {
+  id: string;
+  name: string;
+  record_type: string;
+  schedule_type: string;
+  offset_days: number | null;
+  interval_days: number | null;
+  season_month: number | null;
+  season_day: number | null;
+  min_age_days: number | null;
+  max_age_days: number | null;
+  cattle_type: string | null;
+  lead_days: number;
+  match_keyword: string | null;
+  is_active: boolean;
+  notes: string | null;
+}
+
+export interface ScheduleAnimal {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  date_of_birth: string | null;
+  cattle_type: string | null;
+  calving_dates: string[];
+}
+
+export interface ScheduleHealthRecord {
+  cattle_id: string;
+  record_date: string;
+  title: string;
+  protocol_id: string | null;
+}
+
+export type TaskStatus = "overdue" | "due" | "upcoming";
+
+export interface HealthTask {
+  key: string;
+  protocol_id: string;
+  protocol_name: string;
+  record_type: string;
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  due_date: string;
+  days_until: number;
+  status: TaskStatus;
+  /** Most recent record satisfying the protocol, if any */
+  last_done: string | null;
+}
+
+export interface AnimalCompliance {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  overdue: HealthTask[];
+  due: HealthTask[];
+}
+
+function keywordPattern(keyword: string): RegExp {
+  try {
+    return new RegExp(`\\b(?:${keyword})`, "i");
+  } catch {
+    return new RegExp(keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  }
+}
+
+/** Whether a health record counts as having done the protocol */
+export function recordMatchesProtocol(protocol: HealthProtocol, record: ScheduleHealthRecord): boolean {
+  if (record.protocol_id === protocol.id) return true;
+  return !!protocol.match_keyword && keywordPattern(protocol.match_keyword).test(record.title);
+}
+
+function appliesTo(protocol: HealthProtocol, animal: ScheduleAnimal): boolean {
+  return !protocol.cattle_type || protocol.cattle_type === animal.cattle_type;
+}
+
+function seasonDate(protocol: HealthProtocol, year: number): Date {
+  return new Date(year, (protocol.season_month || 1) - 1, protocol.season_day || 1);
+}
+
+function ageOn(animal: ScheduleAnimal, date: Date): number | null {
+  return animal.date_of_birth ? differenceInCalendarDays(date, parseISO(animal.date_of_birth)) : null;
+}
+
+/**
+ * The date the animal is next due for the protocol, or null when it does
+ * not apply (outside the age band, wrong species, already done for good).
+ * `doneDates` are the matching record dates, newest first.
+ */
+export function getDueDate(
+  protocol: HealthProtocol,
+  animal: ScheduleAnimal,
+  doneDates: string[],
+  asOf: Date
+): Date | null {
+  if (!appliesTo(protocol, animal)) return null;
+  const dob = animal.date_of_birth ? parseISO(animal.date_of_birth) : null;
+  const lastDone = doneDates[0] ? parseISO(doneDates[0]) : null;
+
+  switch (protocol.schedule_type as ProtocolSchedule) {
+    case "age": {
+      if (!dob || protocol.offset_days === null) return null;
+      if (doneDates.some((d) => parseISO(d) >= dob)) return null;
+      const age = ageOn(animal, asOf)!;
+      if (protocol.max_age_days !== null && age > protocol.max_age_days) return null;
+      return addDays(dob, protocol.offset_days);
+    }
+
+    case "interval": {
+      if (!protocol.interval_days) return null;
+      // Without a birth date the animal is taken to be an adult
+      const age = ageOn(animal, asOf);
+      if (protocol.max_age_days !== null && (age === null || age > protocol.max_age_days)) return null;
+      const firstDue = dob ? addDays(dob, protocol.min_age_days || 0) : asOf;
+      const due = lastDone ? addDays(lastDone, protocol.interval_days) : firstDue;
+      if (dob && due < firstDue) return firstDue;
+      if (dob && protocol.max_age_days !== null && due > addDays(dob, protocol.max_age_days)) return null;
+      return due;
+    }
+
+    case "seasonal": {
+      if (!protocol.season_month || !protocol.season_day) return null;
+      let season = seasonDate(protocol, asOf.getFullYear());
+      if (differenceInCalendarDays(season, asOf) > TASK_HORIZON_DAYS) {
+        season = seasonDate(protocol, asOf.getFullYear() - 1);
+      }
+      const covered = lastDone && differenceInCalendarDays(season, lastDone) <= SEASON_WINDOW_DAYS;
+      // Too young at this season's date, or already covered: next year's
+      const tooYoung = dob && protocol.min_age_days !== null && ageOn(animal, season)! < protocol.min_age_days;
+      if (covered || tooYoung) season = addYears(season, 1);
+      const age = ageOn(animal, season);
+      if (protocol.max_age_days !== null && (age === null || age > protocol.max_age_days)) return null;
+      return season;
+    }
+
+    case "calving": {
+      if (protocol.offset_days === null || animal.calving_dates.length === 0) return null;
+      const calving = parseISO([...animal.calving_dates].sort().reverse()[0]);
+      if (differenceInCalendarDays(asOf, calving) > CALVING_LOOKBACK_DAYS) return null;
+      if (doneDates.some((d) => parseISO(d) >= calving)) return null;
+      return addDays(calving, protocol.offset_days);
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The next due date to write on a record completing the protocol on
+ * `doneDate`, or null for one-off protocols
+ */
+export function getNextDueAfter(protocol: HealthProtocol, animal: ScheduleAnimal, doneDate: string): string | null {
+  const done = parseISO(doneDate);
+  const next = getDueDate(protocol, animal, [doneDate], done);
+  if (!next || next <= done) return null;
+  return format(next, "yyyy-MM-dd");
+}
+
+/**
+ * Every active protocol × animal due within the horizon, overdue first
+ */
+export function buildHealthTasks(
+  protocols: HealthProtocol[],
+  animals: ScheduleAnimal[],
+  records: ScheduleHealthRecord[],
+  asOf: Date = new Date(),
+  horizonDays: number = TASK_HORIZON_DAYS
+): HealthTask[] {
+  const recordsByCattle = new Map<string, ScheduleHealthRecord[]>();
+  records.forEach((r) => {
+    const list = recordsByCattle.get(r.cattle_id) || [];
+    list.push(r);
+    recordsByCattle.set(r.cattle_id, list);
+  });
+  recordsByCattle.forEach((list) => list.sort((a, b) => b.record_date.localeCompare(a.record_date)));
+
+  const tasks: HealthTask[] = [];
+  for (const protocol of protocols) {
+    if (!protocol.is_active) continue;
+    for (const animal of animals) {
+      const doneDates = (recordsByCattle.get(animal.cattle_id) || [])
+        .filter((r) => recordMatchesProtocol(protocol, r))
+        .map((r) => r.record_date);
+      const due = getDueDate(protocol, animal, doneDates, asOf);
+      if (!due) continue;
+
+      const daysUntil = differenceInCalendarDays(due, asOf);
+      if (daysUntil > horizonDays) continue;
+
+      tasks.push({
+        key: `${protocol.id}-${animal.cattle_id}`,
+        protocol_id: protocol.id,
+        protocol_name: protocol.name,
+        record_type: protocol.record_type,
+        cattle_id: animal.cattle_id,
+        tag_number: animal.tag_number,
+        name: animal.name,
+        due_date: format(due, "yyyy-MM-dd"),
+        days_until: daysUntil,
+        status: daysUntil < 0 ? "overdue" : daysUntil <= protocol.lead_days ? "due" : "upcoming",
+        last_done: doneDates[0] || null,
+      });
+    }
+  }
+
+  return tasks.sort((a, b) => a.days_until - b.days_until || a.tag_number.localeCompare(b.tag_number));
+}
+
+/**
+ * Animals with overdue or due tasks, most overdue first
+ */
+export function summarizeCompliance(tasks: HealthTask[]): AnimalCompliance[] {
+  const byCattle = new Map<string, AnimalCompliance>();
+  tasks.forEach((task) => {
+    if (task.status === "upcoming") return;
+    const entry = byCattle.get(task.cattle_id) || {
+      cattle_id: task.cattle_id,
+      tag_number: task.tag_number,
+      name: task.name,
+      overdue: [],
+      due: [],
+    };
+    (task.status === "overdue" ? entry.overdue : entry.due).push(task);
+    byCattle.set(task.cattle_id, entry);
+  });
+
+  const mostOverdue = (c: AnimalCompliance) => Math.min(0, ...c.overdue.map((t) => t.days_until));
+  return [...byCattle.values()].sort(
+    (a, b) => b.overdue.length - a.overdue.length || mostOverdue(a) - mostOverdue(b)
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Herd valuation and disposal analysis.
+ *
+ * Bought animals carry their purchase cost, written down straight-line over
+ * a productive life to a salvage value. Depreciation only starts once the
+ * animal is old enough to calve, since a growing heifer gains value rather
+ * than losing it. Home-bred animals have no cost to depreciate and are
+ * valued at a typical market price for their age and parity.
+ *
+ * Deaths and culls are grouped by cause with the book value lost and what
+ * was recovered through the sale of the carcass or an insurance claim.
+ */
+import { addMonths, differenceInCalendarDays, differenceInCalendarMonths, parseISO } from "date-fns";
+
+export type ValuationClass = "calf" | "heifer" | "first_lactation" | "prime" | "aged" | "bull";
+
+export const VALUATION_CLASS_LABELS: Record<ValuationClass, string> = {
+  calf: "Calves",
+  heifer: "Heifers",
+  first_lactation: "First lactation",
+  prime: "Lactation 2-4",
+  aged: "Lactation 5+",
+  bull: "Bulls",
+};
+
+/** Typical market value (₹) by class, used when there is no purchase cost */
+export const CLASS_VALUES: Record<ValuationClass, number> = {
+  calf: 8000,
+  heifer: 30000,
+  first_lactation: 55000,
+  prime: 60000,
+  aged: 30000,
+  bull: 35000,
+};
+
+/** Animals younger than this are calves */
+export const CALF_MONTHS = 6;
+
+/** Depreciation starts at this age, around first calving */
+export const PRODUCTIVE_AGE_MONTHS = 30;
+
+/** Purchase cost is written down over this many years */
+export const USEFUL_LIFE_YEARS = 5;
+
+/** Share of the purchase cost left at the end of the useful life */
+export const SALVAGE_RATIO = 0.3;
+
+export type LifecycleEventType = "purchase" | "sale" | "death" | "cull";
+
+export const LIFECYCLE_EVENT_LABELS: Record<LifecycleEventType, string> = {
+  purchase: "Purchase",
+  sale: "Sale",
+  death: "Death",
+  cull: "Cull",
+};
+
+export const DISPOSAL_CAUSES = [
+  { value: "mastitis", label: "Mastitis / udder" },
+  { value: "infertility", label: "Infertility" },
+  { value: "low_yield", label: "Low yield" },
+  { value: "lameness", label: "Lameness" },
+  { value: "calving", label: "Calving complications" },
+  { value: "disease", label: "Disease" },
+  { value: "injury", label: "Injury / accident" },
+  { value: "old_age", label: "Old age" },
+  { value: "surplus", label: "Surplus stock" },
+  { value: "unknown", label: "Unknown" },
+  { value: "other", label: "Other" },
+] as const;
+
+export const CARCASS_DISPOSAL_LABELS: Record<string, string> = {
+  burial: "Burial",
+  incineration: "Incineration",
+  rendering: "Rendering",
+  sold: "Sold",
+  other: "Other",
+};
+
+export function getCauseLabel(cause: string | null): string {
+  return DISPOSAL_CAUSES.find((c) => c.value === cause)?.label || "Not recorded";
+}
+
+export interface ValuationAnimal {
+  id: string;
+  tag_number: string;
+  name: string | null;
+  gender: string | null;
+  date_of_birth: string | null;
+  lactation_number: number | null;
+  purchase_cost: number | null;
+  purchase_date: string | null;
+}
+
+export interface AnimalValuation {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  valuation_class: ValuationClass;
+  age_months: number | null;
+  parity: number;
+  method: "cost" | "market";
+  cost: number | null;
+  depreciation: number;
+  book_value: number;
+}
+
+export interface ValuationClassSummary {
+  valuation_class: ValuationClass;
+  count: number;
+  total: number;
+}
+
+export interface LifecycleEvent {
+  id: string;
+  cattle_id: string;
+  event_type: LifecycleEventType;
+  event_date: string;
+  counterparty: string | null;
+  amount: number | null;
+  cause: string | null;
+  book_value: number | null;
+  insurance_policy: string | null;
+  insurance_claim_amount: number | null;
+  carcass_disposal: string | null;
+  disposal_cost: number | null;
+  notes: string | null;
+  tag_number: string;
+  name: string | null;
+  date_of_birth: string | null;
+}
+
+export interface CauseSummary {
+  cause: string | null;
+  label: string;
+  deaths: number;
+  culls: number;
+  /** Share of all removals, 0-1 */
+  share: number;
+  avg_age_months: number | null;
+  book_value_lost: number;
+  recovered: number;
+}
+
+export interface DisposalAnalysis {
+  deaths: number;
+  culls: number;
+  /** Deaths and culls as a share of the animals at risk, 0-1 */
+  mortality_rate: number;
+  cull_rate: number;
+  by_cause: CauseSummary[];
+  sale_proceeds: number;
+  /** Sale proceeds less book value of the animals sold */
+  sale_gain: number;
+}
+
+export function getValuationClass(animal: ValuationAnimal, asOf: Date = new Date()): ValuationClass {
+  const parity = animal.lactation_number || 0;
+  const ageMonths = animal.date_of_birth ? differenceInCalendarMonths(asOf, parseISO(animal.date_of_birth)) : null;
+  if (parity === 0 && ageMonths !== null && ageMonths < CALF_MONTHS) return "calf";
+  if (animal.gender === "male") return "bull";
+  if (parity === 0) return "heifer";
+  if (parity === 1) return "first_lactation";
+  if (parity <= 4) return "prime";
+  return "aged";
+}
+
+/**
+ * Straight-line depreciation of a purchase cost from the later of the
+ * purchase date and the animal reaching productive age
+ */
+export function depreciate(
+  cost: number,
+  purchaseDate: string,
+  dateOfBirth: string | null,
+  asOf: Date = new Date()
+): number {
+  let start = parseISO(purchaseDate);
+  if (dateOfBirth) {
+    const productive = addMonths(parseISO(dateOfBirth), PRODUCTIVE_AGE_MONTHS);
+    if (productive > start) start = productive;
+  }
+  const years = Math.max(0, differenceInCalendarDays(asOf, start)) / 365;
+  const perYear = (cost * (1 - SALVAGE_RATIO)) / USEFUL_LIFE_YEARS;
+  return Math.round(Math.min(cost * (1 - SALVAGE_RATIO), perYear * years));
+}
+
+export function valueAnimal(animal: ValuationAnimal, asOf: Date = new Date()): AnimalValuation {
+  const valuationClass = getValuationClass(animal, asOf);
+  const cost = animal.purchase_cost !== null && Number(animal.purchase_cost) > 0 ? Number(animal.purchase_cost) : null;
+  const depreciation =
+    cost !== null && animal.purchase_date ? depreciate(cost, animal.purchase_date, animal.date_of_birth, asOf) : 0;
+
+  return {
+    cattle_id: animal.id,
+    tag_number: animal.tag_number,
+    name: animal.name,
+    valuation_class: valuationClass,
+    age_months: animal.date_of_birth ? differenceInCalendarMonths(asOf, parseISO(animal.date_of_birth)) : null,
+    parity: animal.lactation_number || 0,
+    method: cost !== null ? "cost" : "market",
+    cost,
+    depreciation,
+    book_value: cost !== null ? cost - depreciation : CLASS_VALUES[valuationClass],
+  };
+}
+
+export function summarizeValuation(valuations: AnimalValuation[]): ValuationClassSummary[] {
+  return (Object.keys(VALUATION_CLASS_LABELS) as ValuationClass[])
+    .map((valuationClass) => {
+      const own = valuations.filter((v) => v.valuation_class === valuationClass);
+      return { valuation_class: valuationClass, count: own.length, total: own.reduce((sum, v) => sum + v.book_value, 0) };
+    })
+    .filter((s) => s.count > 0);
+}
+
+/**
+ * Deaths and culls by cause. `herdSize` is the number of animals at risk
+ * over the same period: those still in the herd plus those that left it.
+ */
+export function analyzeDisposals(events: LifecycleEvent[], herdSize: number): DisposalAnalysis {
+  const removals = events.filter((e) => e.event_type === "death" || e.event_type === "cull");
+  const sales = events.filter((e) => e.event_type === "sale");
+
+  const causes = new Map<string | null, LifecycleEvent[]>();
+  removals.forEach((e) => causes.set(e.cause, [...(causes.get(e.cause) || []), e]));
+
+  const byCause: CauseSummary[] = [...causes.entries()]
+    .map(([cause, own]) => {
+      const ages = own
+        .filter((e) => e.date_of_birth)
+        .map((e) => differenceInCalendarMonths(parseISO(e.event_date), parseISO(e.date_of_birth!)));
+      return {
+        cause,
+        label: getCauseLabel(cause),
+        deaths: own.filter((e) => e.event_type === "death").length,
+        culls: own.filter((e) => e.event_type === "cull").length,
+        share: own.length / removals.length,
+        avg_age_months: ages.length > 0 ? Math.round(ages.reduce((sum, a) => sum + a, 0) / ages.length) : null,
+        book_value_lost: own.reduce((sum, e) => sum + Number(e.book_value || 0), 0),
+        recovered: own.reduce((sum, e) => sum + Number(e.amount || 0) + Number(e.insurance_claim_amount || 0), 0),
+      };
+    })
+    .sort((a, b) => b.deaths + b.culls - (a.deaths + a.culls));
+
+  const deaths = removals.filter((e) => e.event_type === "death").length;
+  const culls = removals.length - deaths;
+  const saleProceeds = sales.reduce((sum, e) => sum + Number(e.amount || 0), 0);
+
+  return {
+    deaths,
+    culls,
+    mortality_rate: herdSize > 0 ? deaths / herdSize : 0,
+    cull_rate: herdSize > 0 ? culls / herdSize : 0,
+    by_cause: byCause,
+    sale_proceeds: saleProceeds,
+    sale_gain: saleProceeds - sales.reduce((sum, e) => sum + Number(e.book_value || 0), 0),
+  };
+}
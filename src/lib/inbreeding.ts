@@ -0,0 +1,193 @@
+/**
+ * Herd genetics: inbreeding coefficients and mating advice.
+ *
+ * The pedigree joins herd animals (sire_id/dam_id) with the semen bull
+ * registry, where an AI bull carries its catalogue sire and maternal
+ * grandsire. A bull's dam is rarely on record, so it stands in as an
+ * unknown cow whose only known parent is the maternal grandsire.
+ *
+ * Coefficients follow Wright's path method: for each ancestor common to
+ * the sire and dam, every pair of paths reaching it that meet nowhere
+ * else contributes (1/2)^(n1 + n2 + 1) * (1 + F_A), where n1 and n2 are
+ * the generations from sire and dam up to the ancestor.
+ */
+
+export interface PedigreeAnimal {
+  id: string;
+  tag_number: string;
+  name: string | null;
+  sire_id: string | null;
+  dam_id: string | null;
+  sire_bull_id: string | null;
+}
+
+export interface PedigreeBull {
+  id: string;
+  name: string;
+  cattle_id: string | null;
+  sire_bull_id: string | null;
+  maternal_grandsire_bull_id: string | null;
+}
+
+interface PedigreeParents {
+  sire: string | null;
+  dam: string | null;
+}
+
+export interface Pedigree {
+  parents: Map<string, PedigreeParents>;
+  labels: Map<string, string>;
+  bullNodes: Map<string, string>;
+}
+
+export interface CommonAncestor {
+  node: string;
+  label: string;
+  contribution: number;
+}
+
+export interface MatingInbreeding {
+  coefficient: number;
+  commonAncestors: CommonAncestor[];
+}
+
+export interface MatingOption<B extends PedigreeBull = PedigreeBull> extends MatingInbreeding {
+  bull: B;
+  exceedsThreshold: boolean;
+}
+
+export interface InbreedingCalculator {
+  coefficient: (node: string) => number;
+  mating: (sireNode: string, damNode: string) => MatingInbreeding;
+}
+
+/** Expected offspring inbreeding above this is flagged (first-cousin mating) */
+export const INBREEDING_THRESHOLD = 0.0625;
+
+/** Paths are traced this many generations back */
+export const MAX_GENERATIONS = 6;
+
+export const animalNode = (cattleId: string) => `c:${cattleId}`;
+
+/**
+ * Join herd animals and registered bulls into one pedigree. A bull linked
+ * to a herd animal shares that animal's node and pedigree.
+ */
+export function buildPedigree(animals: PedigreeAnimal[], bulls: PedigreeBull[]): Pedigree {
+  const parents = new Map<string, PedigreeParents>();
+  const labels = new Map<string, string>();
+  const bullNodes = new Map(bulls.map((b) => [b.id, b.cattle_id ? animalNode(b.cattle_id) : `b:${b.id}`]));
+  const bullNode = (id: string | null) => (id ? bullNodes.get(id) || null : null);
+
+  animals.forEach((a) => {
+    const node = animalNode(a.id);
+    labels.set(node, a.name ? `${a.tag_number} (${a.name})` : a.tag_number);
+    parents.set(node, {
+      sire: a.sire_id ? animalNode(a.sire_id) : bullNode(a.sire_bull_id),
+      dam: a.dam_id ? animalNode(a.dam_id) : null,
+    });
+  });
+
+  bulls.forEach((b) => {
+    if (b.cattle_id) return;
+    const node = `b:${b.id}`;
+    const damNode = `d:${b.id}`;
+    labels.set(node, b.name);
+    parents.set(node, {
+      sire: bullNode(b.sire_bull_id),
+      dam: b.maternal_grandsire_bull_id ? damNode : null,
+    });
+    if (b.maternal_grandsire_bull_id) {
+      labels.set(damNode, `Dam of ${b.name}`);
+      parents.set(damNode, { sire: bullNode(b.maternal_grandsire_bull_id), dam: null });
+    }
+  });
+
+  return { parents, labels, bullNodes };
+}
+
+/** Every upward path from the node, itself included, keyed by the ancestor it ends at */
+function ancestorPaths(pedigree: Pedigree, node: string, maxGenerations: number): Map<string, string[][]> {
+  const byAncestor = new Map<string, string[][]>();
+  const walk = (path: string[]) => {
+    const end = path[path.length - 1];
+    byAncestor.set(end, [...(byAncestor.get(end) || []), path]);
+    if (path.length > maxGenerations) return;
+    const p = pedigree.parents.get(end);
+    [p?.sire, p?.dam].forEach((parent) => {
+      // A node repeating in its own ancestry is bad data; stop the walk there
+      if (parent && !path.includes(parent)) walk([...path, parent]);
+    });
+  };
+  walk([node]);
+  return byAncestor;
+}
+
+export function createInbreedingCalculator(pedigree: Pedigree, maxGenerations = MAX_GENERATIONS): InbreedingCalculator {
+  const coefficients = new Map<string, number>();
+
+  const mating = (sireNode: string, damNode: string): MatingInbreeding => {
+    if (sireNode === damNode) return { coefficient: 0, commonAncestors: [] };
+    const sirePaths = ancestorPaths(pedigree, sireNode, maxGenerations);
+    const damPaths = ancestorPaths(pedigree, damNode, maxGenerations);
+    const commonAncestors: CommonAncestor[] = [];
+
+    sirePaths.forEach((fromSire, ancestor) => {
+      const fromDam = damPaths.get(ancestor);
+      if (!fromDam) return;
+      const weight = 1 + coefficient(ancestor);
+      let contribution = 0;
+      fromSire.forEach((p1) => {
+        const onSireSide = new Set(p1.slice(0, -1));
+        fromDam.forEach((p2) => {
+          if (p2.slice(0, -1).some((n) => onSireSide.has(n))) return;
+          contribution += Math.pow(0.5, p1.length - 1 + p2.length - 1 + 1) * weight;
+        });
+      });
+      if (contribution > 0) {
+        commonAncestors.push({ node: ancestor, label: pedigree.labels.get(ancestor) || "Unknown", contribution });
+      }
+    });
+
+    commonAncestors.sort((a, b) => b.contribution - a.contribution);
+    return { coefficient: commonAncestors.reduce((sum, a) => sum + a.contribution, 0), commonAncestors };
+  };
+
+  const coefficient = (node: string): number => {
+    const cached = coefficients.get(node);
+    if (cached !== undefined) return cached;
+    // Guards against loops in bad pedigree data while this one is worked out
+    coefficients.set(node, 0);
+    const p = pedigree.parents.get(node);
+    const value = p?.sire && p.dam ? mating(p.sire, p.dam).coefficient : 0;
+    coefficients.set(node, value);
+    return value;
+  };
+
+  return { coefficient, mating };
+}
+
+/**
+ * Candidate bulls for a cow, least related first. Bulls that are the cow
+ * herself are skipped.
+ */
+export function rankMatings<B extends PedigreeBull>(
+  calculator: InbreedingCalculator,
+  pedigree: Pedigree,
+  cattleId: string,
+  bulls: B[],
+  threshold = INBREEDING_THRESHOLD
+): MatingOption<B>[] {
+  const cow = animalNode(cattleId);
+  return bulls
+    .filter((bull) => pedigree.bullNodes.get(bull.id) !== cow)
+    .map((bull) => {
+      const result = calculator.mating(pedigree.bullNodes.get(bull.id) || `b:${bull.id}`, cow);
+      return { ...result, bull, exceedsThreshold: result.coefficient > threshold };
+    })
+    .sort((a, b) => a.coefficient - b.coefficient || a.bull.name.localeCompare(b.bull.name));
+}
+
+export function formatInbreeding(coefficient: number) {
+  return `${(coefficient * 100).toFixed(coefficient > 0 && coefficient < 0.01 ? 2 : 1)}%`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Lactation curves.
+ *
+ * Daily yields are fitted to Wood's model, y(t) = a · t^b · e^(−ct), where t
+ * is days in milk (DIM). Taking logs makes the model linear in its
+ * parameters (ln y = ln a + b·ln t − c·t), so an ordinary least-squares fit
+ * over the recorded days is enough. From the fitted curve we get the peak
+ * (day b/c) and a 305-day projection.
+ *
+ * Each cow is compared with a herd curve pooled from cows of the same
+ * parity, so a first-calver is not judged against mature cows.
+ */
+import { differenceInCalendarDays } from "date-fns";
+import { assessBcsChange, type BcsChange, type BodyConditionRecord } from "@/lib/body-condition";
+
+export const STANDARD_LACTATION_DAYS = 305;
+
+/** Fewer recorded days than this and the cow's own fit is not trusted */
+export const MIN_POINTS_FOR_FIT = 10;
+
+/** Projected 305-day yield below this share of the herd curve is flagged */
+export const UNDERPERFORMANCE_RATIO = 0.85;
+
+export interface LactationPoint {
+  /** Days in milk, 1 on the day after calving */
+  dim: number;
+  yield: number;
+}
+
+export interface WoodCurve {
+  a: number;
+  b: number;
+  c: number;
+}
+
+export type ParityGroup = "1" | "2" | "3+";
+
+export interface LactationInput {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  lactation_number: number | null;
+  last_calving_date: string;
+  /** Daily totals keyed by production date */
+  daily: Map<string, number>;
+  /** Body condition scores around and since calving */
+  condition?: Pick<BodyConditionRecord, "record_date" | "body_condition_score">[];
+}
+
+export interface LactationAnalysis {
+  cattle_id: string;
+  tag_number: string;
+  name: string | null;
+  parity: ParityGroup;
+  current_dim: number;
+  points: LactationPoint[];
+  /** The cow's own fit, or null when there is too little data or it is atypical */
+  curve: WoodCurve | null;
+  /** True when the projection comes from the herd curve scaled to the cow's records */
+  scaled_from_herd: boolean;
+  peak_yield: number | null;
+  peak_day: number | null;
+  projected_305: number | null;
+  herd_projected_305: number | null;
+  /** Projected 305-day yield relative to the parity-matched herd curve, in percent */
+  vs_herd_percentage: number | null;
+  underperforming: boolean;
+  /** Body condition change since calving, when scored */
+  bcs: BcsChange | null;
+}
+
+export function getParityGroup(lactationNumber: number | null | undefined): ParityGroup {
+  const n = Math.max(1, lactationNumber || 1);
+  if (n === 1) return "1";
+  if (n === 2) return "2";
+  return "3+";
+}
+
+export function predictYield(curve: WoodCurve, dim: number): number {
+  if (dim <= 0) return 0;
+  return curve.a * Math.pow(dim, curve.b) * Math.exp(-curve.c * dim);
+}
+
+/**
+ * A curve only describes a normal lactation when it rises to a peak and then
+ * falls, i.e. b and c are both positive and the peak lands inside the
+ * lactation
+ */
+export function isTypicalCurve(curve: WoodCurve): boolean {
+  if (!(curve.b > 0 && curve.c > 0) || !Number.isFinite(curve.a)) return false;
+  const peakDay = curve.b / curve.c;
+  return peakDay >= 1 && peakDay <= STANDARD_LACTATION_DAYS;
+}
+
+/**
+ * Least-squares fit of Wood's model on log yields. Days with no yield are
+ * skipped because ln 0 is undefined. Returns null when the system is
+ * singular (e.g. every point on the same day).
+ */
+export function fitWoodCurve(points: LactationPoint[]): WoodCurve | null {
+  const usable = points.filter((p) => p.dim > 0 && p.yield > 0);
+  if (usable.length < 3) return null;
+
+  // Normal equations XᵀX·β = Xᵀy for X = [1, ln t, t]
+  const m = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const v = [0, 0, 0];
+  for (const p of usable) {
+    const x = [1, Math.log(p.dim), p.dim];
+    const y = Math.log(p.yield);
+    for (let i = 0; i < 3; i++) {
+      v[i] += x[i] * y;
+      for (let j = 0; j < 3; j++) m[i][j] += x[i] * x[j];
+    }
+  }
+
+  const beta = solve3(m, v);
+  if (!beta) return null;
+  return { a: Math.exp(beta[0]), b: beta[1], c: -beta[2] };
+}
+
+function det3(m: number[][]): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
+
+/** Cramer's rule; fine for a 3×3 system */
+function solve3(m: number[][], v: number[]): number[] | null {
+  const d = det3(m);
+  if (!Number.isFinite(d) || Math.abs(d) < 1e-9) return null;
+  return [0, 1, 2].map((col) => {
+    const replaced = m.map((row, i) => row.map((cell, j) => (j === col ? v[i] : cell)));
+    return det3(replaced) / d;
+  });
+}
+
+export function getPeak(curve: WoodCurve): { day: number; yield: number } {
+  const day = Math.round(curve.b / curve.c);
+  return { day, yield: predictYield(curve, curve.b / curve.c) };
+}
+
+/**
+ * 305-day yield: recorded yields where we have them, the curve for the
+ * days we don't (missed recordings and the rest of the lactation)
+ */
+export function project305DayYield(curve: WoodCurve, points: LactationPoint[] = []): number {
+  const recorded = new Map(points.map((p) => [p.dim, p.yield]));
+  let total = 0;
+  for (let dim = 1; dim <= STANDARD_LACTATION_DAYS; dim++) {
+    total += recorded.get(dim) ?? predictYield(curve, dim);
+  }
+  return total;
+}
+
+/**
+ * Turn a cow's daily totals into days-in-milk points for the current
+ * lactation
+ */
+export function toLactationPoints(daily: Map<string, number>, calvingDate: string): LactationPoint[] {
+  const calving = new Date(calvingDate);
+  const points: LactationPoint[] = [];
+  daily.forEach((total, date) => {
+    const dim = differenceInCalendarDays(new Date(date), calving);
+    if (dim >= 1 && dim <= STANDARD_LACTATION_DAYS) points.push({ dim, yield: total });
+  });
+  return points.sort((a, b) => a.dim - b.dim);
+}
+
+/**
+ * Scale a herd curve so it passes through the cow's own records. Used when
+ * the cow has too few days, or too odd a shape, to fit on her own.
+ */
+function scaleCurve(herd: WoodCurve, points: LactationPoint[]): WoodCurve | null {
+  const expected = points.reduce((sum, p) => sum + predictYield(herd, p.dim), 0);
+  const actual = points.reduce((sum, p) => sum + p.yield, 0);
+  if (expected <= 0 || actual <= 0) return null;
+  return { ...herd, a: herd.a * (actual / expected) };
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Fit every cow and compare her with the herd curve for her parity. Parity
+ * groups that cannot be fitted fall back to a curve pooled over the whole
+ * herd.
+ */
+export function analyzeLactations(
+  inputs: LactationInput[],
+  asOf: Date = new Date()
+): { analyses: LactationAnalysis[]; herdCurves: Partial<Record<ParityGroup, WoodCurve>> } {
+  const withPoints = inputs.map((input) => ({
+    input,
+    parity: getParityGroup(input.lactation_number),
+    points: toLactationPoints(input.daily, input.last_calving_date),
+  }));
+
+  const overall = fitWoodCurve(withPoints.flatMap((c) => c.points));
+  const herdCurves: Partial<Record<ParityGroup, WoodCurve>> = {};
+  for (const parity of ["1", "2", "3+"] as ParityGroup[]) {
+    const pooled = withPoints.filter((c) => c.parity === parity).flatMap((c) => c.points);
+    const curve = fitWoodCurve(pooled);
+    if (curve && isTypicalCurve(curve)) herdCurves[parity] = curve;
+    else if (overall && isTypicalCurve(overall) && pooled.length > 0) herdCurves[parity] = overall;
+  }
+
+  const analyses = withPoints.map(({ input, parity, points }): LactationAnalysis => {
+    const herd = herdCurves[parity] ?? null;
+    const ownFit = points.length >= MIN_POINTS_FOR_FIT ? fitWoodCurve(points) : null;
+    const ownCurve = ownFit && isTypicalCurve(ownFit) ? ownFit : null;
+    const curve = ownCurve ?? (herd && points.length > 0 ? scaleCurve(herd, points) : null);
+
+    const peak = curve ? getPeak(curve) : null;
+    const projected = curve ? project305DayYield(curve, points) : null;
+    const herdProjected = herd ? project305DayYield(herd) : null;
+    const ratio = projected !== null && herdProjected ? projected / herdProjected : null;
+
+    return {
+      cattle_id: input.cattle_id,
+      tag_number: input.tag_number,
+      name: input.name,
+      parity,
+      current_dim: Math.max(0, differenceInCalendarDays(asOf, new Date(input.last_calving_date))),
+      points,
+      curve,
+      scaled_from_herd: !ownCurve && curve !== null,
+      peak_yield: peak ? round(peak.yield) : null,
+      peak_day: peak ? peak.day : null,
+      projected_305: projected !== null ? Math.round(projected) : null,
+      herd_projected_305: herdProjected !== null ? Math.round(herdProjected) : null,
+      vs_herd_percentage: ratio !== null ? round((ratio - 1) * 100) || 0 : null,
+      underperforming: ratio !== null && ratio < UNDERPERFORMANCE_RATIO,
+      bcs: input.condition?.length ? assessBcsChange(input.condition, input.last_calving_date, asOf) : null,
+    };
+  });
+
+  return { analyses, herdCurves };
+}
@@ -0,0 +1,244 @@
+/**
+ * Mastitis early warning.
+ *
+ * Each lactating cow gets a 0-100 risk score built from four signs that
+ * usually show before clinical mastitis:
+ * - somatic cell count, its level and whether it is climbing test on test
+ * - the latest quarter tests: CMT reaction, clots and a quarter whose
+ *   conductivity stands out from the cow's other quarters
+ * - a sudden drop in daily yield against the cow's own preceding week
+ * - mastitis treated in the past year, since cows that had it relapse
+ *
+ * The weights are rules of thumb meant to rank cows for checking, not a
+ * diagnosis.
+ */
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export const QUARTERS = ["LF", "RF", "LR", "RR"] as const;
+export type Quarter = (typeof QUARTERS)[number];
+
+export const QUARTER_LABELS: Record<Quarter, string> = {
+  LF: "Left fore",
+  RF: "Right fore",
+  LR: "Left rear",
+  RR: "Right rear",
+};
+
+export const CMT_SCORES = ["N", "T", "1", "2", "3"] as const;
+export type CmtScore = (typeof CMT_SCORES)[number];
+
+export const CMT_LABELS: Record<CmtScore, string> = {
+  N: "Negative",
+  T: "Trace",
+  "1": "Weak positive",
+  "2": "Distinct positive",
+  "3": "Strong positive",
+};
+
+/** Somatic cells per mL above which a cow likely has subclinical mastitis */
+export const SCC_SUBCLINICAL = 200_000;
+
+/** Somatic cells per mL treated as a clear infection */
+export const SCC_HIGH = 400_000;
+
+/** A quarter this much more conductive than the cow's lowest is suspect */
+export const CONDUCTIVITY_RATIO = 1.15;
+
+/** Days compared for a sudden yield drop, and the baseline before them */
+export const DROP_WINDOW_DAYS = 3;
+export const DROP_BASELINE_DAYS = 7;
+
+/** A day this far below the baseline counts as a sudden drop */
+export const SUDDEN_DROP_RATIO = 0.2;
+
+/** Mastitis treatments within this many days count towards the score */
+export const TREATMENT_LOOKBACK_DAYS = 365;
+
+export const HIGH_RISK_SCORE = 50;
+export const MODERATE_RISK_SCORE = 25;
+
+export type RiskLevel = "low" | "moderate" | "high";
+
+export interface QuarterResult {
+  quarter: string;
+  cmt_score: string | null;
+  conductivity: number | null;
+  clots: boolean;
+}
+
+export interface QualityTest {
+  id: string;
+  cattle_id: string;
+  test_date: string;
+  session: string | null;
+  somatic_cell_count: number | null;
+  notes: string | null;
+  quarters: QuarterResult[];
+}
+
+/** Daily yield with how many milking sessions were recorded that day */
+export interface DailyYield {
+  date: string;
+  liters: number;
+  sessions: number;
+}
+
+export interface YieldDrop {
+  date: string;
+  baseline: number;
+  actual: number;
+  /** Share of the baseline lost, 0-1 */
+  drop: number;
+}
+
+export interface RiskFactor {
+  label: string;
+  points: number;
+}
+
+export interface MastitisRisk {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+  latest_scc: number | null;
+  scc_rising: boolean;
+  /** Quarters with a positive CMT, clots or high conductivity on the latest test */
+  suspect_quarters: Quarter[];
+  yield_drop: YieldDrop | null;
+  treatments: number;
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK_SCORE) return "high";
+  if (score >= MODERATE_RISK_SCORE) return "moderate";
+  return "low";
+}
+
+export function formatScc(cells: number): string {
+  return `${Math.round(cells / 1000).toLocaleString()}k`;
+}
+
+const CMT_POINTS: Record<CmtScore, number> = { N: 0, T: 5, "1": 10, "2": 20, "3": 30 };
+
+function isCmtScore(value: string | null): value is CmtScore {
+  return value !== null && (CMT_SCORES as readonly string[]).includes(value);
+}
+
+/**
+ * Quarters that look infected on one test. Conductivity is judged against
+ * the cow's own least conductive quarter, since the normal level varies
+ * between cows and meters.
+ */
+export function findSuspectQuarters(quarters: QuarterResult[]): Quarter[] {
+  const readings = quarters.filter((q) => q.conductivity !== null).map((q) => Number(q.conductivity));
+  const lowest = readings.length > 1 ? Math.min(...readings) : null;
+
+  return QUARTERS.filter((quarter) => {
+    const result = quarters.find((q) => q.quarter === quarter);
+    if (!result) return false;
+    const cmt = isCmtScore(result.cmt_score) ? CMT_POINTS[result.cmt_score] : 0;
+    const conductive = lowest !== null && result.conductivity !== null && Number(result.conductivity) > lowest * CONDUCTIVITY_RATIO;
+    return cmt >= CMT_POINTS["1"] || result.clots || conductive;
+  });
+}
+
+/**
+ * The largest drop among the last few complete days against the average
+ * of the week before them. Days with fewer sessions than usual are skipped
+ * so a missed or not-yet-recorded milking does not look like a drop.
+ */
+export function detectYieldDrop(daily: DailyYield[]): YieldDrop | null {
+  const days = [...daily].sort((a, b) => a.date.localeCompare(b.date));
+  if (days.length <= DROP_WINDOW_DAYS) return null;
+
+  const usualSessions = Math.max(...days.map((d) => d.sessions));
+  const complete = days.filter((d) => d.sessions >= usualSessions);
+  const recent = complete.slice(-DROP_WINDOW_DAYS);
+  const baselineDays = complete.slice(-(DROP_WINDOW_DAYS + DROP_BASELINE_DAYS), -DROP_WINDOW_DAYS);
+  if (recent.length === 0 || baselineDays.length < 3) return null;
+
+  const baseline = baselineDays.reduce((sum, d) => sum + d.liters, 0) / baselineDays.length;
+  if (baseline <= 0) return null;
+
+  const worst = recent.reduce((min, d) => (d.liters < min.liters ? d : min));
+  const drop = (baseline - worst.liters) / baseline;
+  if (drop < SUDDEN_DROP_RATIO) return null;
+
+  return {
+    date: worst.date,
+    baseline: Math.round(baseline * 10) / 10,
+    actual: Math.round(worst.liters * 10) / 10,
+    drop: Math.round(drop * 100) / 100,
+  };
+}
+
+export function assessMastitisRisk(input: {
+  tests: QualityTest[];
+  daily: DailyYield[];
+  /** Dates of past mastitis treatments */
+  treatmentDates: string[];
+  asOf?: Date;
+}): MastitisRisk {
+  const asOf = input.asOf ?? new Date();
+  const factors: RiskFactor[] = [];
+  const tests = [...input.tests].sort((a, b) => a.test_date.localeCompare(b.test_date));
+
+  // Somatic cell count
+  const counts = tests.filter((t) => t.somatic_cell_count !== null).map((t) => Number(t.somatic_cell_count));
+  const latestScc = counts.length > 0 ? counts[counts.length - 1] : null;
+  const lastThree = counts.slice(-3);
+  const sccRising = lastThree.length >= 2 && lastThree.every((c, i) => i === 0 || c > lastThree[i - 1]) && latestScc! > SCC_SUBCLINICAL / 2;
+  if (latestScc !== null) {
+    if (latestScc >= SCC_HIGH) factors.push({ label: `SCC ${formatScc(latestScc)}`, points: 35 });
+    else if (latestScc >= SCC_SUBCLINICAL) factors.push({ label: `SCC ${formatScc(latestScc)}`, points: 25 });
+    else if (latestScc >= SCC_SUBCLINICAL / 2) factors.push({ label: `SCC ${formatScc(latestScc)}`, points: 10 });
+  }
+  if (sccRising) factors.push({ label: "SCC rising", points: 10 });
+
+  // Latest quarter tests
+  const latestQuarters = [...tests].reverse().find((t) => t.quarters.length > 0)?.quarters || [];
+  const suspect = findSuspectQuarters(latestQuarters);
+  const worstCmt = latestQuarters.reduce(
+    (max, q) => Math.max(max, isCmtScore(q.cmt_score) ? CMT_POINTS[q.cmt_score] : 0),
+    0
+  );
+  if (worstCmt > 0) {
+    const score = CMT_SCORES.find((s) => CMT_POINTS[s] === worstCmt)!;
+    factors.push({ label: `CMT ${score}`, points: worstCmt });
+  }
+  if (latestQuarters.some((q) => q.clots)) factors.push({ label: "Clots in milk", points: 15 });
+  const readings = latestQuarters.filter((q) => q.conductivity !== null).map((q) => Number(q.conductivity));
+  if (readings.length > 1 && Math.max(...readings) > Math.min(...readings) * CONDUCTIVITY_RATIO) {
+    factors.push({ label: "High quarter conductivity", points: 10 });
+  }
+
+  // Sudden yield drop
+  const yieldDrop = detectYieldDrop(input.daily);
+  if (yieldDrop) {
+    factors.push({ label: `Yield down ${Math.round(yieldDrop.drop * 100)}%`, points: yieldDrop.drop >= 0.35 ? 20 : 15 });
+  }
+
+  // Mastitis history
+  const ages = input.treatmentDates
+    .map((d) => differenceInCalendarDays(asOf, parseISO(d)))
+    .filter((days) => days >= 0 && days <= TREATMENT_LOOKBACK_DAYS);
+  if (ages.length > 0) {
+    const recent = ages.some((days) => days <= 60);
+    factors.push({
+      label: `${ages.length} mastitis treatment${ages.length > 1 ? "s" : ""} in the past year`,
+      points: (ages.length > 1 ? 10 : 5) + (recent ? 5 : 0),
+    });
+  }
+
+  const score = Math.min(100, factors.reduce((sum, f) => sum + f.points, 0));
+  return {
+    score,
+    level: getRiskLevel(score),
+    factors,
+    latest_scc: latestScc,
+    scc_rising: sccRising,
+    suspect_quarters: suspect,
+    yield_drop: yieldDrop,
+    treatments: ages.length,
+  };
+}
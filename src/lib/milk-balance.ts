@@ -0,0 +1,207 @@
+/**
+ * Daily milk balance.
+ *
+ * Milk in is herd production plus accepted procurement; rejected vendor
+ * milk was turned away and never counts. Milk out is every delivered item
+ * converted back to the raw milk it stands for through the product's
+ * milk_equivalent_liters, plus milk withheld during treatment withdrawal
+ * and wastage logged at the dairy. Milk made into products through
+ * processing batches counts out on the batch date instead, so items
+ * served from batch stock are left out rather than counted twice. The
+ * difference is shrinkage, the litres nobody can account for.
+ */
+import { format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+
+export const WASTAGE_REASONS = ["spillage", "spoilage", "sample", "other"] as const;
+export type WastageReason = (typeof WASTAGE_REASONS)[number];
+
+export const WASTAGE_REASON_LABELS: Record<WastageReason, string> = {
+  spillage: "Spillage",
+  spoilage: "Spoiled / curdled",
+  sample: "Testing samples",
+  other: "Other",
+};
+
+/** Litres of raw milk behind a litre or kg, from typical processing yields */
+export const DEFAULT_MILK_EQUIVALENT_BY_CATEGORY: Record<string, number> = {
+  milk: 1,
+  curd: 1,
+  paneer: 5,
+  butter: 20,
+  ghee: 25,
+};
+
+const UNIT_SIZES: Record<string, number> = {
+  liter: 1,
+  kg: 1,
+  "500ml": 0.5,
+  "250ml": 0.25,
+};
+
+/** Suggested milk equivalent for a product, or null when there is no usual yield */
+export function defaultMilkEquivalent(category: string, unit: string): number | null {
+  const perUnit = DEFAULT_MILK_EQUIVALENT_BY_CATEGORY[category];
+  const size = UNIT_SIZES[unit];
+  return perUnit !== undefined && size !== undefined ? perUnit * size : null;
+}
+
+export type BalancePeriod = "day" | "week" | "month";
+
+export interface ProductionRow {
+  production_date: string;
+  quantity_liters: number | string;
+  is_withheld?: boolean | null;
+}
+
+export interface ProcurementRow {
+  procurement_date: string;
+  quantity_liters: number | string;
+  quality_status?: string | null;
+}
+
+export interface SaleRow {
+  delivery_date: string;
+  quantity: number | string;
+  category: string;
+  milk_equivalent_liters: number | string | null;
+  /** Served from finished-goods stock, so already counted when its batch was made */
+  stock_tracked?: boolean;
+}
+
+export interface ProcessedRow {
+  batch_date: string;
+  milk_liters: number | string;
+}
+
+export interface WastageRow {
+  wastage_date: string;
+  quantity_liters: number | string;
+}
+
+export interface MilkBalanceRow {
+  /** First day of the period */
+  date: string;
+  label: string;
+  produced: number;
+  procured: number;
+  inflow: number;
+  /** Liquid milk delivered */
+  sold_milk: number;
+  /** Milk that went into curd, paneer, ghee and other delivered products */
+  sold_products: number;
+  /** Milk made into products by processing batches */
+  processed: number;
+  withheld: number;
+  wasted: number;
+  accounted: number;
+  /** Unaccounted litres; negative when more went out than came in */
+  shrinkage: number;
+  /** Shrinkage as a share of inflow */
+  shrinkage_rate: number;
+}
+
+/** Raw milk behind the given quantity of a product, or null when it is not milk-based */
+export function toMilkEquivalent(quantity: number, factor: number | string | null): number | null {
+  if (factor === null || factor === "") return null;
+  return quantity * Number(factor);
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function emptyRow(date: string, label: string): MilkBalanceRow {
+  return {
+    date,
+    label,
+    produced: 0,
+    procured: 0,
+    inflow: 0,
+    sold_milk: 0,
+    sold_products: 0,
+    processed: 0,
+    withheld: 0,
+    wasted: 0,
+    accounted: 0,
+    shrinkage: 0,
+    shrinkage_rate: 0,
+  };
+}
+
+function finish(row: MilkBalanceRow): MilkBalanceRow {
+  const inflow = row.produced + row.procured;
+  const accounted = row.sold_milk + row.sold_products + row.processed + row.withheld + row.wasted;
+  return {
+    ...row,
+    produced: round(row.produced),
+    procured: round(row.procured),
+    sold_milk: round(row.sold_milk),
+    sold_products: round(row.sold_products),
+    processed: round(row.processed),
+    withheld: round(row.withheld),
+    wasted: round(row.wasted),
+    inflow: round(inflow),
+    accounted: round(accounted),
+    shrinkage: round(inflow - accounted),
+    shrinkage_rate: inflow > 0 ? (inflow - accounted) / inflow : 0,
+  };
+}
+
+function periodStart(date: string, period: BalancePeriod): string {
+  if (period === "day") return date;
+  const d = parseISO(date);
+  return format(period === "week" ? startOfWeek(d, { weekStartsOn: 1 }) : startOfMonth(d), "yyyy-MM-dd");
+}
+
+function periodLabel(start: string, period: BalancePeriod): string {
+  const d = parseISO(start);
+  if (period === "month") return format(d, "MMM yyyy");
+  if (period === "week") return `Week of ${format(d, "dd MMM")}`;
+  return format(d, "dd MMM");
+}
+
+/**
+ * Balance per day, week or month for the given dates, newest first. Days
+ * with no movement at all are left out.
+ */
+export function buildMilkBalance(
+  data: {
+    production: ProductionRow[];
+    procurement: ProcurementRow[];
+    sales: SaleRow[];
+    processed: ProcessedRow[];
+    wastage: WastageRow[];
+  },
+  period: BalancePeriod = "day"
+): MilkBalanceRow[] {
+  const rows = new Map<string, MilkBalanceRow>();
+  const rowFor = (date: string) => {
+    const start = periodStart(date, period);
+    if (!rows.has(start)) rows.set(start, emptyRow(start, periodLabel(start, period)));
+    return rows.get(start)!;
+  };
+
+  data.production.forEach((p) => {
+    const row = rowFor(p.production_date);
+    row.produced += Number(p.quantity_liters);
+    if (p.is_withheld) row.withheld += Number(p.quantity_liters);
+  });
+  data.procurement.forEach((p) => {
+    if (p.quality_status === "rejected") return;
+    rowFor(p.procurement_date).procured += Number(p.quantity_liters);
+  });
+  data.sales.forEach((s) => {
+    if (s.stock_tracked) return;
+    const litres = toMilkEquivalent(Number(s.quantity), s.milk_equivalent_liters);
+    if (litres === null) return;
+    const row = rowFor(s.delivery_date);
+    if (s.category === "milk") row.sold_milk += litres;
+    else row.sold_products += litres;
+  });
+  data.processed.forEach((b) => {
+    rowFor(b.batch_date).processed += Number(b.milk_liters);
+  });
+  data.wastage.forEach((w) => {
+    rowFor(w.wastage_date).wasted += Number(w.quantity_liters);
+  });
+
+  return [...rows.values()].map(finish).sort((a, b) => b.date.localeCompare(a.date));
+}
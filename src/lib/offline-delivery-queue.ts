@@ -0,0 +1,273 @@
+/**
+ * Offline delivery run storage
+ *
+ * Delivery staff preload the day's route into a snapshot while they have
+ * signal. Every change made on the route is written to a local queue first and
+ * synced later, so lanes without network don't block the run.
+ *
+ * The snapshot always holds the server state as it was loaded; the queue is
+ * overlaid on top for display. Each queued action remembers the server value
+ * it was based on, which is what sync uses to detect conflicting edits.
+ */
+
+export type OfflineDeliveryStatus = "pending" | "delivered" | "missed" | "partial";
+
+export interface OfflineDelivery {
+  id: string;
+  customer_id: string;
+  customer_name: string;
+  area: string | null;
+  address: string | null;
+  phone: string | null;
+  status: OfflineDeliveryStatus;
+  delivery_time: string | null;
+  on_vacation: boolean;
+}
+
+export interface OfflineDeliveryItem {
+  id: string;
+  delivery_id: string;
+  product_id: string;
+  product_name: string;
+  unit: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface OfflineRouteStop {
+  customer_id: string;
+  route_id: string;
+  route_name: string | null;
+  stop_order: number;
+}
+
+export interface OfflineBottleBalance {
+  customer_id: string;
+  bottle_id: string;
+  bottle_label: string;
+  quantity_pending: number;
+}
+
+export interface DeliveryRunSnapshot {
+  date: string;
+  loaded_at: string;
+  deliveries: OfflineDelivery[];
+  items: OfflineDeliveryItem[];
+  route_stops: OfflineRouteStop[];
+  bottles: OfflineBottleBalance[];
+}
+
+interface QueuedActionBase {
+  id: string;
+  delivery_id: string;
+  queued_at: string;
+  state: "queued" | "conflict";
+  conflict_reason?: string;
+}
+
+export interface QueuedStatusChange extends QueuedActionBase {
+  kind: "status";
+  status: OfflineDeliveryStatus;
+  base_status: OfflineDeliveryStatus;
+  server_status?: string | null;
+}
+
+export interface QueuedQuantityChange extends QueuedActionBase {
+  kind: "item_quantity";
+  item_id: string;
+  quantity: number;
+  unit_price: number;
+  base_quantity: number;
+  server_quantity?: number;
+}
+
+export interface QueuedBottleReturn extends QueuedActionBase {
+  kind: "bottle_return";
+  customer_id: string;
+  bottle_id: string;
+  quantity: number;
+  base_pending: number;
+  server_pending?: number;
+}
+
+export type QueuedDeliveryAction = QueuedStatusChange | QueuedQuantityChange | QueuedBottleReturn;
+
+export type NewQueuedAction =
+  | Omit<QueuedStatusChange, "id" | "queued_at" | "state">
+  | Omit<QueuedQuantityChange, "id" | "queued_at" | "state">
+  | Omit<QueuedBottleReturn, "id" | "queued_at" | "state">;
+
+const SNAPSHOT_KEY = "offline_delivery_snapshot";
+const QUEUE_KEY = "offline_delivery_queue";
+
+// Fired on window whenever the snapshot or queue changes in this tab
+export const OFFLINE_QUEUE_EVENT = "offline-delivery-queue-changed";
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+}
+
+export function loadSnapshot(): DeliveryRunSnapshot | null {
+  return readJson<DeliveryRunSnapshot | null>(SNAPSHOT_KEY, null);
+}
+
+export function saveSnapshot(snapshot: DeliveryRunSnapshot) {
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+  notifyChange();
+}
+
+export function loadQueue(): QueuedDeliveryAction[] {
+  return readJson<QueuedDeliveryAction[]>(QUEUE_KEY, []);
+}
+
+function saveQueue(queue: QueuedDeliveryAction[]) {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  notifyChange();
+}
+
+/**
+ * Add a change to the queue.
+ * A newer status or quantity change for the same target replaces the older one
+ * but keeps the older base value, since that is what the server last showed us.
+ * Bottle returns are additive and always appended.
+ *
+ * @param action - Change to queue
+ * @returns The queued action
+ */
+export function enqueueAction(action: NewQueuedAction): QueuedDeliveryAction {
+  const queue = loadQueue();
+  const queued = {
+    ...action,
+    id: crypto.randomUUID(),
+    queued_at: new Date().toISOString(),
+    state: "queued",
+  } as QueuedDeliveryAction;
+
+  let next = queue;
+  if (queued.kind === "status") {
+    const previous = queue.find((a) => a.kind === "status" && a.delivery_id === queued.delivery_id);
+    if (previous?.kind === "status") queued.base_status = previous.base_status;
+    next = queue.filter((a) => a !== previous);
+  } else if (queued.kind === "item_quantity") {
+    const previous = queue.find((a) => a.kind === "item_quantity" && a.item_id === queued.item_id);
+    if (previous?.kind === "item_quantity") queued.base_quantity = previous.base_quantity;
+    next = queue.filter((a) => a !== previous);
+  }
+
+  saveQueue([...next, queued]);
+  return queued;
+}
+
+export function removeAction(id: string) {
+  saveQueue(loadQueue().filter((a) => a.id !== id));
+}
+
+export function updateAction(id: string, changes: Partial<QueuedDeliveryAction>) {
+  saveQueue(
+    loadQueue().map((a) => (a.id === id ? ({ ...a, ...changes } as QueuedDeliveryAction) : a))
+  );
+}
+
+/**
+ * Queue a delivery status change (used by bulk actions when the network drops)
+ */
+export function queueDeliveryStatus(
+  deliveryId: string,
+  status: OfflineDeliveryStatus,
+  baseStatus: OfflineDeliveryStatus
+) {
+  return enqueueAction({ kind: "status", delivery_id: deliveryId, status, base_status: baseStatus });
+}
+
+/**
+ * Overlay queued changes on the loaded snapshot so the run shows local edits
+ *
+ * @param snapshot - Server state as preloaded
+ * @param queue - Pending local changes
+ * @returns A new snapshot with statuses, quantities and bottle balances updated
+ */
+export function applyQueueToSnapshot(
+  snapshot: DeliveryRunSnapshot,
+  queue: QueuedDeliveryAction[]
+): DeliveryRunSnapshot {
+  const statuses = new Map<string, QueuedStatusChange>();
+  const quantities = new Map<string, number>();
+  const returns = new Map<string, number>();
+
+  for (const action of queue) {
+    if (action.kind === "status") statuses.set(action.delivery_id, action);
+    else if (action.kind === "item_quantity") quantities.set(action.item_id, action.quantity);
+    else {
+      const key = `${action.customer_id}:${action.bottle_id}`;
+      returns.set(key, (returns.get(key) || 0) + action.quantity);
+    }
+  }
+
+  return {
+    ...snapshot,
+    deliveries: snapshot.deliveries.map((d) => {
+      const change = statuses.get(d.id);
+      if (!change) return d;
+      return {
+        ...d,
+        status: change.status,
+        delivery_time: change.status === "delivered" ? change.queued_at : null,
+      };
+    }),
+    items: snapshot.items.map((i) =>
+      quantities.has(i.id) ? { ...i, quantity: quantities.get(i.id) as number } : i
+    ),
+    bottles: snapshot.bottles.map((b) => {
+      const returned = returns.get(`${b.customer_id}:${b.bottle_id}`);
+      return returned ? { ...b, quantity_pending: Math.max(0, b.quantity_pending - returned) } : b;
+    }),
+  };
+}
+
+/**
+ * Sort deliveries by their route stop order; customers without a stop go last
+ */
+export function orderByRoute(
+  deliveries: OfflineDelivery[],
+  stops: OfflineRouteStop[]
+): OfflineDelivery[] {
+  const order = new Map(stops.map((s) => [s.customer_id, s.stop_order]));
+  return [...deliveries].sort(
+    (a, b) =>
+      (order.get(a.customer_id) ?? Number.MAX_SAFE_INTEGER) -
+        (order.get(b.customer_id) ?? Number.MAX_SAFE_INTEGER) ||
+      a.customer_name.localeCompare(b.customer_name)
+  );
+}
+
+/**
+ * Tag written into bottle_transactions.notes so a return that was posted just
+ * before the connection dropped isn't posted twice on the next sync
+ */
+export function offlineActionTag(actionId: string): string {
+  return `[OFFLINE] ${actionId}`;
+}
+
+/**
+ * Check whether a failed request failed because there was no network,
+ * as opposed to being rejected by the database
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "object" && error !== null && "message" in error
+        ? String((error as { message: unknown }).message)
+        : String(error ?? "");
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
@@ -0,0 +1,98 @@
+/**
+ * Prepaid wallet.
+ *
+ * Customers on the "prepaid" billing cycle are charged per delivery rather
+ * than invoiced. The database posts a wallet_debit ledger entry when a
+ * delivery is marked delivered and payments credit the ledger as usual, so
+ * the wallet balance is simply the negated customers.credit_balance. The
+ * pause flag and low-balance messages are maintained by database triggers;
+ * the helpers here only present them.
+ */
+export const PREPAID_BILLING_CYCLE = "prepaid";
+
+/** Ledger entry types posted by charge_prepaid_delivery() */
+export const WALLET_LEDGER_TYPES = ["wallet_debit", "wallet_refund"];
+
+export type WalletStatus = "ok" | "low" | "paused";
+
+export interface WalletCustomer {
+  credit_balance: number | null;
+  wallet_low_balance_threshold: number;
+  wallet_grace_amount: number;
+  wallet_paused_at: string | null;
+}
+
+export function isPrepaidCustomer(customer: { billing_cycle: string | null } | null | undefined): boolean {
+  return customer?.billing_cycle === PREPAID_BILLING_CYCLE;
+}
+
+/** Money left in the wallet; negative while the customer is using grace */
+export function getWalletBalance(customer: Pick<WalletCustomer, "credit_balance">): number {
+  return Math.round(-Number(customer.credit_balance || 0) * 100) / 100;
+}
+
+export function getWalletStatus(customer: WalletCustomer): WalletStatus {
+  if (customer.wallet_paused_at) return "paused";
+  return getWalletBalance(customer) <= Number(customer.wallet_low_balance_threshold || 0) ? "low" : "ok";
+}
+
+export interface WalletLedgerEntry {
+  id: string;
+  transaction_date: string;
+  transaction_type: string;
+  description: string;
+  debit_amount: number | null;
+  credit_amount: number | null;
+  created_at: string | null;
+}
+
+export interface WalletStatementDay {
+  date: string;
+  opening: number;
+  topUps: number;
+  charges: number;
+  closing: number;
+  entries: WalletLedgerEntry[];
+}
+
+/**
+ * Group ledger entries into one row per day, newest first, with the wallet
+ * balance at the start and end of each day.
+ *
+ * Balances are worked backwards from the current wallet balance, so the
+ * entries must cover everything from the first day shown up to today.
+ */
+export function buildWalletStatement(entries: WalletLedgerEntry[], currentBalance: number): WalletStatementDay[] {
+  const byDate = new Map<string, WalletLedgerEntry[]>();
+  for (const entry of entries) {
+    const dayEntries = byDate.get(entry.transaction_date) || [];
+    dayEntries.push(entry);
+    byDate.set(entry.transaction_date, dayEntries);
+  }
+
+  const days: WalletStatementDay[] = [];
+  let closing = currentBalance;
+  const dates = [...byDate.keys()].sort((a, b) => b.localeCompare(a));
+  for (const date of dates) {
+    const dayEntries = byDate
+      .get(date)!
+      .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""));
+    const topUps = dayEntries.reduce((sum, e) => sum + Number(e.credit_amount || 0), 0);
+    const charges = dayEntries.reduce((sum, e) => sum + Number(e.debit_amount || 0), 0);
+    const opening = Math.round((closing - topUps + charges) * 100) / 100;
+    days.push({ date, opening, topUps, charges, closing, entries: dayEntries });
+    closing = opening;
+  }
+  return days;
+}
+
+/**
+ * Roughly how many more days the wallet covers at the recent daily spend,
+ * or null when there is nothing to go on
+ */
+export function estimateDaysRemaining(balance: number, days: WalletStatementDay[]): number | null {
+  const chargedDays = days.filter((d) => d.charges > 0);
+  if (chargedDays.length === 0 || balance <= 0) return null;
+  const average = chargedDays.reduce((sum, d) => sum + d.charges, 0) / chargedDays.length;
+  return Math.floor(balance / average);
+}
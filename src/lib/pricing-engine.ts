@@ -0,0 +1,130 @@
+/**
+ * Quality-based pricing engine shared by milk procurement entry and re-pricing.
+ * Computes the per-liter rate from a vendor base rate plus every active
+ * price rule whose fat/SNF band matches the tested sample.
+ */
+
+export interface PriceRuleBase {
+  id: string;
+  name: string;
+  product_id?: string | null;
+  min_fat_percentage: number | null;
+  max_fat_percentage: number | null;
+  min_snf_percentage: number | null;
+  max_snf_percentage: number | null;
+  price_adjustment: number;
+  adjustment_type: string | null;
+  is_active: boolean | null;
+}
+
+/**
+ * Snapshot of a rule as applied to one entry.
+ * Stored in milk_procurement.applied_price_rules so later rule edits
+ * don't change how a historical rate is explained.
+ */
+export type AppliedPriceRule = {
+  rule_id: string;
+  name: string;
+  adjustment_type: string;
+  price_adjustment: number;
+  amount_per_liter: number;
+};
+
+export interface PriceBreakdown {
+  baseRate: number;
+  adjustments: AppliedPriceRule[];
+  totalAdjustment: number;
+  finalRate: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function inRange(value: number | null, min: number | null, max: number | null): boolean {
+  if (min === null && max === null) return true;
+  // A banded rule can't match a sample that wasn't tested for that parameter
+  if (value === null) return false;
+  if (min !== null && value < Number(min)) return false;
+  if (max !== null && value > Number(max)) return false;
+  return true;
+}
+
+/**
+ * Check whether a rule's fat and SNF bands both contain the sample.
+ * Bounds are inclusive; a rule without any band matches every sample.
+ *
+ * @param rule - Price rule to test
+ * @param fat - Fat percentage of the sample (null if not tested)
+ * @param snf - SNF percentage of the sample (null if not tested)
+ * @returns true if the rule applies
+ */
+export function ruleMatchesQuality(
+  rule: PriceRuleBase,
+  fat: number | null,
+  snf: number | null
+): boolean {
+  return (
+    inRange(fat, rule.min_fat_percentage, rule.max_fat_percentage) &&
+    inRange(snf, rule.min_snf_percentage, rule.max_snf_percentage)
+  );
+}
+
+/**
+ * Procurement buys raw milk, so only rules not tied to a sale product apply.
+ *
+ * @param rules - All price rules
+ * @returns Active rules with no product_id
+ */
+export function getProcurementRules<T extends PriceRuleBase>(rules: T[]): T[] {
+  return rules.filter((r) => r.is_active !== false && !r.product_id);
+}
+
+/**
+ * Calculate the procurement rate for a sample.
+ * Percentage rules are taken on the base rate (not compounded), fixed rules
+ * add ₹/L. The final rate is rounded to paise and never goes below zero.
+ *
+ * @param baseRate - Vendor base rate per liter
+ * @param fat - Fat percentage (null if not tested)
+ * @param snf - SNF percentage (null if not tested)
+ * @param rules - Candidate rules (inactive ones are ignored)
+ * @returns Breakdown with each applied rule and the final rate
+ */
+export function calculateProcurementRate(
+  baseRate: number,
+  fat: number | null,
+  snf: number | null,
+  rules: PriceRuleBase[]
+): PriceBreakdown {
+  const adjustments: AppliedPriceRule[] = getProcurementRules(rules)
+    .filter((rule) => ruleMatchesQuality(rule, fat, snf))
+    .map((rule) => {
+      const type = rule.adjustment_type || "fixed";
+      const value = Number(rule.price_adjustment) || 0;
+      const amount = type === "percentage" ? (baseRate * value) / 100 : value;
+      return {
+        rule_id: rule.id,
+        name: rule.name,
+        adjustment_type: type,
+        price_adjustment: value,
+        amount_per_liter: round2(amount),
+      };
+    });
+
+  const totalAdjustment = round2(adjustments.reduce((sum, a) => sum + a.amount_per_liter, 0));
+
+  return {
+    baseRate: round2(baseRate),
+    adjustments,
+    totalAdjustment,
+    finalRate: Math.max(0, round2(baseRate + totalAdjustment)),
+  };
+}
+
+/**
+ * Format a rule's adjustment for display, e.g. "+5%" or "-₹1.50/L".
+ */
+export function formatAdjustment(type: string | null, value: number): string {
+  const sign = value >= 0 ? "+" : "-";
+  const abs = Math.abs(Number(value));
+  return type === "percentage" ? `${sign}${abs}%` : `${sign}₹${abs.toFixed(2)}/L`;
+}
@@ -4,11 +4,16 @@ export function invalidateProductionRelated(queryClient: QueryClient) {
   queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
   queryClient.invalidateQueries({ queryKey: ["procurement-vs-production-chart"] });
   queryClient.invalidateQueries({ queryKey: ["month-comparison-chart"] });
+  queryClient.invalidateQueries({ queryKey: ["lactation-analytics"] });
+  queryClient.invalidateQueries({ queryKey: ["production-insights"] });
+  queryClient.invalidateQueries({ queryKey: ["mastitis-risk"] });
+  queryClient.invalidateQueries({ queryKey: ["milk-balance"] });
 }
 
 export function invalidateDeliveryRelated(queryClient: QueryClient) {
   queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
   queryClient.invalidateQueries({ queryKey: ["delivery-performance-chart"] });
+  queryClient.invalidateQueries({ queryKey: ["milk-balance"] });
 }
 
 export function invalidateBillingRelated(queryClient: QueryClient) {
@@ -25,6 +30,11 @@ export function invalidateCustomerRelated(queryClient: QueryClient) {
 export function invalidateCattleRelated(queryClient: QueryClient) {
   queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
   queryClient.invalidateQueries({ queryKey: ["cattle-composition-chart"] });
+  queryClient.invalidateQueries({ queryKey: ["lactation-analytics"] });
+  queryClient.invalidateQueries({ queryKey: ["health-protocols"] });
+  queryClient.invalidateQueries({ queryKey: ["herd-genetics"] });
+  queryClient.invalidateQueries({ queryKey: ["body-condition"] });
+  queryClient.invalidateQueries({ queryKey: ["feed-rations"] });
 }
 
 export function invalidateExpenseRelated(queryClient: QueryClient) {
@@ -38,4 +48,5 @@ export function invalidateProcurementRelated(queryClient: QueryClient) {
   queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
   queryClient.invalidateQueries({ queryKey: ["procurement-vs-production-chart"] });
   queryClient.invalidateQueries({ queryKey: ["recent-activities"] });
+  queryClient.invalidateQueries({ queryKey: ["milk-balance"] });
 }
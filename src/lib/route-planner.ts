@@ -0,0 +1,207 @@
+/**
+ * Route sequencing and ETA helpers for delivery routes.
+ *
+ * Everything runs locally from customer coordinates — no map or routing
+ * service. Straight-line distances are scaled by ROAD_FACTOR to approximate
+ * road distance, which is close enough for ordering stops and rough ETAs.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteTiming {
+  /** Departure from the start point, HH:mm */
+  startTime: string;
+  /** Minutes spent at each stop handing over milk and collecting bottles */
+  serviceMinutes: number;
+  /** Average travel speed including traffic */
+  speedKmph: number;
+  /** Depot or first pickup point; null starts the clock at the first stop */
+  start: GeoPoint | null;
+}
+
+interface LocatedStop {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+/** Typical ratio of road distance to straight-line distance in towns */
+export const ROAD_FACTOR = 1.3;
+const MAX_TWO_OPT_PASSES = 50;
+
+export function isValidLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+export function isValidLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+/**
+ * Parse "26.8467, 80.9462" as copied from a maps app
+ */
+export function parseCoordinates(text: string): GeoPoint | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  return isValidLatitude(lat) && isValidLongitude(lng) ? { lat, lng } : null;
+}
+
+export function toGeoPoint(stop: LocatedStop): GeoPoint | null {
+  if (stop.latitude === null || stop.longitude === null) return null;
+  const lat = Number(stop.latitude);
+  const lng = Number(stop.longitude);
+  return isValidLatitude(lat) && isValidLongitude(lng) ? { lat, lng } : null;
+}
+
+/**
+ * Great-circle distance in km
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Estimated road distance in km
+ */
+export function roadDistanceKm(a: GeoPoint, b: GeoPoint): number {
+  return haversineKm(a, b) * ROAD_FACTOR;
+}
+
+/**
+ * Total road distance of a stop sequence, from the start point if given.
+ * Stops without coordinates are skipped.
+ */
+export function routeDistanceKm<T extends LocatedStop>(stops: T[], start: GeoPoint | null): number {
+  let previous = start;
+  let total = 0;
+  for (const stop of stops) {
+    const point = toGeoPoint(stop);
+    if (!point) continue;
+    if (previous) total += roadDistanceKm(previous, point);
+    previous = point;
+  }
+  return total;
+}
+
+function nearestNeighbourOrder(points: GeoPoint[], start: GeoPoint | null): number[] {
+  const remaining = new Set(points.map((_, i) => i));
+  const order: number[] = [];
+  let current = start;
+
+  if (!current) {
+    // No depot: begin at the first stop of the existing order
+    order.push(0);
+    remaining.delete(0);
+    current = points[0];
+  }
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (const i of remaining) {
+      const d = haversineKm(current, points[i]);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = i;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+    current = points[best];
+  }
+
+  return order;
+}
+
+/**
+ * Improve an open path with 2-opt: reverse any segment whose reversal
+ * shortens the path, until no reversal helps. The van does not return to
+ * the depot, so the last stop has no closing edge.
+ */
+function twoOpt(order: number[], points: GeoPoint[], start: GeoPoint | null): number[] {
+  const path = [...order];
+  const at = (pos: number): GeoPoint | null =>
+    pos < 0 ? start : pos >= path.length ? null : points[path[pos]];
+  const dist = (a: GeoPoint | null, b: GeoPoint | null) => (a && b ? haversineKm(a, b) : 0);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const before = dist(at(i - 1), at(i)) + dist(at(k), at(k + 1));
+        const after = dist(at(i - 1), at(k)) + dist(at(i), at(k + 1));
+        if (after < before - 1e-9) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return path;
+}
+
+/**
+ * Compute a short stop order: nearest-neighbour from the start point,
+ * then 2-opt. Stops without coordinates keep their relative order and go
+ * to the end so the driver can still place them by hand.
+ */
+export function optimiseStopOrder<T extends LocatedStop>(stops: T[], start: GeoPoint | null): T[] {
+  const located: { stop: T; point: GeoPoint }[] = [];
+  const unlocated: T[] = [];
+  for (const stop of stops) {
+    const point = toGeoPoint(stop);
+    if (point) located.push({ stop, point });
+    else unlocated.push(stop);
+  }
+
+  if (located.length < 2) return [...located.map((l) => l.stop), ...unlocated];
+
+  const points = located.map((l) => l.point);
+  const order = twoOpt(nearestNeighbourOrder(points, start), points, start);
+  return [...order.map((i) => located[i].stop), ...unlocated];
+}
+
+function parseTime(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+function formatTime(totalMinutes: number): string {
+  const minutes = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Arrival time (HH:mm) at each stop in the given order.
+ * Travel to or from a stop without coordinates is unknown and counted as
+ * zero, so those stops only add their service time.
+ */
+export function computeStopEtas<T extends LocatedStop>(stops: T[], timing: RouteTiming): string[] {
+  const speed = timing.speedKmph > 0 ? timing.speedKmph : 15;
+  let clock = parseTime(timing.startTime);
+  let previous = timing.start;
+
+  return stops.map((stop) => {
+    const point = toGeoPoint(stop);
+    if (point && previous) {
+      clock += (roadDistanceKm(previous, point) / speed) * 60;
+    }
+    const eta = formatTime(clock);
+    clock += timing.serviceMinutes;
+    if (point) previous = point;
+    return eta;
+  });
+}
@@ -0,0 +1,360 @@
+/**
+ * Bank / UPI statement parsing and payment matching.
+ * Turns the rows of an uploaded CSV/XLSX statement into credit lines and
+ * scores each one against customers, open invoices and UTRs customers have
+ * already submitted from the portal.
+ */
+
+import { format, isValid, parse } from "date-fns";
+import { getInvoiceBalance } from "@/lib/invoice-helpers";
+
+export interface StatementLine {
+  transaction_date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  fingerprint: string;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  /** Debit, zero or unreadable rows that were ignored */
+  skipped: number;
+  error: string | null;
+}
+
+export interface MatchCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+export interface MatchInvoice {
+  id: string;
+  invoice_number: string;
+  customer_id: string;
+  final_amount: number;
+  paid_amount: number | null;
+  payment_status: string;
+  due_date: string | null;
+}
+
+export interface MatchPendingPayment {
+  id: string;
+  customer_id: string;
+  invoice_id: string | null;
+  reference_number: string | null;
+  amount: number;
+}
+
+export interface MatchContext {
+  customers: MatchCustomer[];
+  openInvoices: MatchInvoice[];
+  pendingPayments: MatchPendingPayment[];
+}
+
+export interface MatchSuggestion {
+  customer_id: string;
+  invoice_id: string | null;
+  /** Customer-submitted pending payment carrying the same UTR */
+  pending_payment_id: string | null;
+  score: number;
+  reasons: string[];
+}
+
+/** Suggestions at or above this score are queued for review; below it the line is parked */
+export const SUGGESTION_THRESHOLD = 50;
+export const HIGH_CONFIDENCE_SCORE = 80;
+
+const HEADER_PATTERNS = {
+  date: /(^|\s)(txn|tran|transaction|value|posting)?\s*date/i,
+  description: /narration|description|particulars|remarks|details/i,
+  reference: /ref|utr|rrn|chq|cheque|transaction id|txn id/i,
+  credit: /credit|deposit|(^|\s)cr(\s|$|\.)/i,
+  debit: /debit|withdrawal|(^|\s)dr(\s|$|\.)/i,
+  amount: /amount|amt/i,
+  type: /cr\s*\/\s*dr|dr\s*\/\s*cr|^type$/i,
+};
+
+const DATE_FORMATS = [
+  "dd/MM/yyyy", "dd-MM-yyyy", "dd.MM.yyyy", "dd/MM/yy", "dd-MM-yy",
+  "dd-MMM-yyyy", "dd MMM yyyy", "dd-MMM-yy", "dd MMM yy", "yyyy-MM-dd",
+  "dd/MM/yyyy HH:mm:ss", "dd-MM-yyyy HH:mm:ss", "yyyy-MM-dd HH:mm:ss",
+];
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  return String(value).trim();
+}
+
+function parseStatementDate(value: unknown): string | null {
+  if (value instanceof Date) return isValid(value) ? format(value, "yyyy-MM-dd") : null;
+  if (typeof value === "number") {
+    // Excel serial date (days since 1899-12-30)
+    if (value < 20000 || value > 80000) return null;
+    const date = new Date(Math.round((value - 25569) * 86400 * 1000));
+    return format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), "yyyy-MM-dd");
+  }
+  const text = cellText(value);
+  if (!text) return null;
+  for (const fmt of DATE_FORMATS) {
+    const parsed = parse(text, fmt, new Date());
+    if (isValid(parsed) && parsed.getFullYear() > 2000) return format(parsed, "yyyy-MM-dd");
+  }
+  return null;
+}
+
+function parseStatementAmount(value: unknown): number {
+  if (typeof value === "number") return value;
+  const text = cellText(value).replace(/,|₹|rs\.?|inr/gi, "").trim();
+  if (!text) return 0;
+  const amount = parseFloat(text.replace(/\s*(cr|dr)$/i, ""));
+  if (isNaN(amount)) return 0;
+  return /dr$/i.test(text) ? -Math.abs(amount) : amount;
+}
+
+/** UPI narrations embed the 12-digit RRN, e.g. "UPI/CR/412345678901/RAMESH KUMAR/..." */
+export function extractReference(description: string): string | null {
+  const match = description.match(/(?:^|[^0-9])(\d{12})(?:[^0-9]|$)/);
+  return match ? match[1] : null;
+}
+
+function findColumn(header: string[], pattern: RegExp, exclude: number[] = []): number {
+  return header.findIndex((h, i) => !exclude.includes(i) && pattern.test(h));
+}
+
+/**
+ * Extract credit lines from statement rows (as returned by
+ * XLSX.utils.sheet_to_json with header: 1).
+ * The header row is located by looking for a date column plus an amount or
+ * credit column, since banks put a few lines of account details above it.
+ *
+ * @param rows - Raw sheet rows
+ * @returns Credit lines, count of skipped rows, and an error if no header was found
+ */
+export function parseStatementRows(rows: unknown[][]): ParsedStatement {
+  const headerIndex = rows.slice(0, 30).findIndex((row) => {
+    const cells = row.map(cellText);
+    return cells.some((c) => HEADER_PATTERNS.date.test(c)) &&
+      cells.some((c) => HEADER_PATTERNS.credit.test(c) || HEADER_PATTERNS.amount.test(c));
+  });
+
+  if (headerIndex === -1) {
+    return { lines: [], skipped: 0, error: "Could not find a header row with Date and Amount/Credit columns" };
+  }
+
+  const header = rows[headerIndex].map(cellText);
+  const dateCol = findColumn(header, HEADER_PATTERNS.date);
+  const descCol = findColumn(header, HEADER_PATTERNS.description);
+  const refCol = findColumn(header, HEADER_PATTERNS.reference, [dateCol, descCol]);
+  const creditCol = findColumn(header, HEADER_PATTERNS.credit, [dateCol, descCol, refCol]);
+  const debitCol = findColumn(header, HEADER_PATTERNS.debit, [dateCol, descCol, refCol, creditCol]);
+  const typeCol = findColumn(header, HEADER_PATTERNS.type, [dateCol, descCol, refCol]);
+  const amountCol = creditCol === -1
+    ? findColumn(header, HEADER_PATTERNS.amount, [dateCol, descCol, refCol, debitCol, typeCol])
+    : -1;
+
+  const lines: StatementLine[] = [];
+  const occurrences = new Map<string, number>();
+  let skipped = 0;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (!row || row.every((c) => cellText(c) === "")) continue;
+
+    const date = parseStatementDate(row[dateCol]);
+    let amount = 0;
+    if (creditCol !== -1) {
+      amount = parseStatementAmount(row[creditCol]);
+    } else if (amountCol !== -1) {
+      amount = parseStatementAmount(row[amountCol]);
+      const type = typeCol !== -1 ? cellText(row[typeCol]).toUpperCase() : "";
+      if (type.startsWith("D")) amount = -Math.abs(amount);
+    }
+
+    if (!date || !(amount > 0)) {
+      skipped++;
+      continue;
+    }
+
+    const description = descCol !== -1 ? cellText(row[descCol]) : "";
+    const reference = (refCol !== -1 ? cellText(row[refCol]) : "") || extractReference(description);
+    const rounded = Math.round(amount * 100) / 100;
+
+    // Identical lines (two ₹500 cash deposits on one day) are told apart by
+    // their order in the statement, so re-importing the file still dedupes
+    const key = [date, rounded.toFixed(2), reference || "", description.slice(0, 80).toUpperCase()].join("|");
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    lines.push({
+      transaction_date: date,
+      description,
+      reference: reference || null,
+      amount: rounded,
+      fingerprint: occurrence === 1 ? key : `${key}|#${occurrence}`,
+    });
+  }
+
+  return { lines, skipped, error: null };
+}
+
+// --- Matching ---
+
+function normalize(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function nameTokens(text: string): string[] {
+  return text.toUpperCase().split(/[^A-Z]+/).filter((t) => t.length >= 3);
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+}
+
+/** Dice coefficient on character bigrams (0-1) */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const ba = bigrams(a);
+  const bb = bigrams(b);
+  if (ba.length === 0 || bb.length === 0) return 0;
+  const counts = new Map<string, number>();
+  ba.forEach((g) => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  bb.forEach((g) => {
+    const n = counts.get(g) || 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  });
+  return (2 * overlap) / (ba.length + bb.length);
+}
+
+/**
+ * Share of the customer's name tokens found in the narration, allowing for
+ * truncation and spelling differences ("RAMESH KUMAR" vs "RAMESHKUMA")
+ */
+export function nameMatchRatio(customerName: string, narration: string): number {
+  const wanted = nameTokens(customerName);
+  const available = nameTokens(narration);
+  if (wanted.length === 0 || available.length === 0) return 0;
+  const joined = available.join("");
+  const found = wanted.filter(
+    (w) => joined.includes(w) || available.some((a) => similarity(w, a) >= 0.8)
+  ).length;
+  return found / wanted.length;
+}
+
+function sortByDue(a: MatchInvoice, b: MatchInvoice): number {
+  return (a.due_date || "").localeCompare(b.due_date || "");
+}
+
+/**
+ * Score one statement credit against every customer and return the best
+ * match.
+ * Signals: a UTR the customer already submitted (decisive), the invoice
+ * number in the narration, the customer's phone number, name similarity and
+ * an amount equal to an open invoice balance.
+ *
+ * @param line - Parsed statement credit
+ * @param context - Customers, open invoices and pending portal payments
+ * @returns Best suggestion, or null when nothing scored at all
+ */
+export function suggestMatch(line: StatementLine, context: MatchContext): MatchSuggestion | null {
+  const narration = `${line.description} ${line.reference || ""}`;
+  const narrationKey = normalize(narration);
+  const narrationDigits = narration.replace(/\D/g, "");
+
+  // A UTR submitted from the portal identifies the payment outright.
+  // Banks often zero-pad the RRN in the reference column, so look for it anywhere in the line.
+  const pending = context.pendingPayments.find(
+    (p) => p.reference_number && normalize(p.reference_number).length >= 12 &&
+      narrationKey.includes(normalize(p.reference_number))
+  );
+  if (pending) {
+    const reasons = ["UTR submitted by customer"];
+    if (Math.abs(Number(pending.amount) - line.amount) >= 0.01) {
+      reasons.push(`Customer reported Rs. ${Number(pending.amount).toFixed(2)}`);
+    }
+    return {
+      customer_id: pending.customer_id,
+      invoice_id: pending.invoice_id,
+      pending_payment_id: pending.id,
+      score: 100,
+      reasons,
+    };
+  }
+
+  const invoicesByCustomer = new Map<string, MatchInvoice[]>();
+  context.openInvoices.forEach((inv) => {
+    const list = invoicesByCustomer.get(inv.customer_id) || [];
+    list.push(inv);
+    invoicesByCustomer.set(inv.customer_id, list);
+  });
+
+  let best: MatchSuggestion | null = null;
+
+  for (const customer of context.customers) {
+    const invoices = (invoicesByCustomer.get(customer.id) || []).sort(sortByDue);
+    const reasons: string[] = [];
+    let score = 0;
+    let invoiceId: string | null = null;
+
+    const namedInvoice = invoices.find((inv) => narrationKey.includes(normalize(inv.invoice_number)));
+    if (namedInvoice) {
+      score += 60;
+      invoiceId = namedInvoice.id;
+      reasons.push(`Invoice ${namedInvoice.invoice_number} in narration`);
+    }
+
+    const phone = (customer.phone || "").replace(/\D/g, "").slice(-10);
+    if (phone.length === 10 && narrationDigits.includes(phone)) {
+      score += 50;
+      reasons.push("Phone number");
+    }
+
+    const nameRatio = nameMatchRatio(customer.name, line.description);
+    if (nameRatio >= 0.5) {
+      score += Math.round(40 * nameRatio);
+      reasons.push(`Name ${Math.round(nameRatio * 100)}%`);
+    }
+
+    const exactInvoice = invoices.find((inv) => Math.abs(getInvoiceBalance(inv) - line.amount) < 0.5);
+    if (exactInvoice) {
+      score += 30;
+      invoiceId = invoiceId || exactInvoice.id;
+      reasons.push(`Amount equals ${exactInvoice.invoice_number} balance`);
+    } else if (invoices.length > 1) {
+      const outstanding = invoices.reduce((sum, inv) => sum + getInvoiceBalance(inv), 0);
+      if (Math.abs(outstanding - line.amount) < 0.5) {
+        score += 20;
+        reasons.push("Amount equals total outstanding");
+      }
+    }
+
+    if (score === 0) continue;
+    if (!invoiceId && invoices.length > 0) invoiceId = invoices[0].id;
+
+    if (!best || score > best.score) {
+      best = {
+        customer_id: customer.id,
+        invoice_id: invoiceId,
+        pending_payment_id: null,
+        score: Math.min(score, 99),
+        reasons,
+      };
+    }
+  }
+
+  return best;
+}
+
+export function matchConfidence(score: number | null): "high" | "medium" | "low" {
+  if ((score || 0) >= HIGH_CONFIDENCE_SCORE) return "high";
+  if ((score || 0) >= SUGGESTION_THRESHOLD + 10) return "medium";
+  return "low";
+}
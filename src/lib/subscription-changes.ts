@@ -0,0 +1,183 @@
+/**
+ * Subscription change requests.
+ *
+ * Customers don't edit customer_products directly; they file a change that
+ * takes effect from a date decided by the dairy's daily cutoff. The database
+ * trigger on subscription_change_requests is authoritative — the helpers
+ * here only predict the same date for the UI and describe changes for the
+ * history.
+ */
+import { addDays, format } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+
+export type SubscriptionChangeType = "add" | "quantity" | "pause" | "resume" | "remove";
+export type SubscriptionChangeStatus = "pending" | "approved" | "applied" | "rejected" | "cancelled";
+
+export interface SubscriptionChangeSettings {
+  /** HH:mm; changes before this apply from tomorrow, later ones the day after */
+  cutoffTime: string;
+  requireApproval: boolean;
+}
+
+export interface SubscriptionChange {
+  id: string;
+  customer_id: string;
+  customer_product_id: string | null;
+  product_id: string;
+  change_type: string;
+  old_quantity: number | null;
+  new_quantity: number | null;
+  effective_date: string;
+  status: string;
+  source: string;
+  review_note: string | null;
+  created_at: string;
+  applied_at: string | null;
+}
+
+export const DEFAULT_SUBSCRIPTION_CUTOFF = "20:00";
+
+export const CHANGE_STATUS_LABELS: Record<SubscriptionChangeStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Scheduled",
+  applied: "Applied",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+/** Requests that can still be cancelled and haven't touched customer_products */
+export const OPEN_CHANGE_STATUSES: SubscriptionChangeStatus[] = ["pending", "approved"];
+
+export function isOpenChange(status: string): boolean {
+  return (OPEN_CHANGE_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Read the cutoff and approval switch from dairy_settings.settings
+ */
+export function readSubscriptionChangeSettings(settings: Json | null | undefined): SubscriptionChangeSettings {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  const cutoff = typeof obj.subscription_cutoff_time === "string" ? obj.subscription_cutoff_time : "";
+  return {
+    cutoffTime: /^\d{2}:\d{2}/.test(cutoff) ? cutoff.slice(0, 5) : DEFAULT_SUBSCRIPTION_CUTOFF,
+    requireApproval: obj.subscription_changes_require_approval === true,
+  };
+}
+
+/**
+ * Write the cutoff and approval switch back into dairy_settings.settings,
+ * keeping any other keys stored there
+ */
+export function mergeSubscriptionChangeSettings(
+  settings: Json | null | undefined,
+  value: SubscriptionChangeSettings
+): Json {
+  const obj = settings && typeof settings === "object" && !Array.isArray(settings) ? settings : {};
+  return {
+    ...obj,
+    subscription_cutoff_time: value.cutoffTime,
+    subscription_changes_require_approval: value.requireApproval,
+  };
+}
+
+/**
+ * First delivery date a change made at `now` can affect (yyyy-MM-dd).
+ * Mirrors public.subscription_change_effective_date(); assumes the device
+ * clock is on dairy (IST) time.
+ */
+export function nextEffectiveDate(now: Date, cutoffTime: string): string {
+  const current = format(now, "HH:mm");
+  return format(addDays(now, current < cutoffTime ? 1 : 2), "yyyy-MM-dd");
+}
+
+/**
+ * One-line description for the change history
+ */
+export function describeSubscriptionChange(
+  change: Pick<SubscriptionChange, "change_type" | "old_quantity" | "new_quantity">,
+  productName: string,
+  unit?: string | null
+): string {
+  const qty = (q: number | null) => `${q ?? 0}${unit ? ` ${unit}` : ""}`;
+  switch (change.change_type) {
+    case "add":
+      return `Add ${productName}, ${qty(change.new_quantity)}`;
+    case "quantity":
+      return `${productName}: ${qty(change.old_quantity)} → ${qty(change.new_quantity)}`;
+    case "pause":
+      return `Pause ${productName}`;
+    case "resume":
+      return `Resume ${productName}`;
+    case "remove":
+      return `Remove ${productName}`;
+    default:
+      return `${productName} changed`;
+  }
+}
+
+interface SubscriptionSnapshot {
+  id: string;
+  product_id: string;
+  quantity: number;
+  is_active: boolean | null;
+}
+
+export interface SubscriptionHistoryRow {
+  customer_id: string;
+  customer_product_id: string | null;
+  product_id: string;
+  change_type: SubscriptionChangeType;
+  old_quantity: number | null;
+  new_quantity: number | null;
+  effective_date: string;
+  status: SubscriptionChangeStatus;
+  source: "staff";
+  applied_at: string;
+}
+
+/**
+ * Compare a customer's subscription before and after a staff edit and
+ * return history rows for what actually changed, so edits made from the
+ * Customers page show up in the customer's change history too.
+ */
+export function diffSubscriptions(
+  customerId: string,
+  before: SubscriptionSnapshot[],
+  after: { product_id: string; quantity: number }[],
+  effectiveDate: string
+): SubscriptionHistoryRow[] {
+  const appliedAt = new Date().toISOString();
+  const row = (
+    prev: SubscriptionSnapshot | undefined,
+    productId: string,
+    changeType: SubscriptionChangeType,
+    newQuantity: number | null
+  ): SubscriptionHistoryRow => ({
+    customer_id: customerId,
+    customer_product_id: prev?.id || null,
+    product_id: productId,
+    change_type: changeType,
+    old_quantity: prev ? Number(prev.quantity) : null,
+    new_quantity: newQuantity,
+    effective_date: effectiveDate,
+    status: "applied",
+    source: "staff",
+    applied_at: appliedAt,
+  });
+
+  const rows: SubscriptionHistoryRow[] = [];
+  for (const next of after) {
+    const prev = before.find((b) => b.product_id === next.product_id);
+    if (!prev || !prev.is_active) {
+      rows.push(row(prev, next.product_id, prev ? "resume" : "add", next.quantity));
+    } else if (Number(prev.quantity) !== Number(next.quantity)) {
+      rows.push(row(prev, next.product_id, "quantity", next.quantity));
+    }
+  }
+  for (const prev of before) {
+    if (prev.is_active && !after.some((a) => a.product_id === prev.product_id)) {
+      rows.push(row(prev, prev.product_id, "pause", null));
+    }
+  }
+  return rows;
+}
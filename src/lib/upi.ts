@@ -0,0 +1,73 @@
+/**
+ * UPI payment link helpers.
+ * Builds the upi://pay intent printed as a QR on invoices and opened by the
+ * customer portal, and validates the UTR customers submit after paying.
+ */
+
+import { getInvoiceBalance, type InvoiceBase } from "@/lib/invoice-helpers";
+
+const UPI_HANDLE_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+// UPI transaction references are 12-digit RRNs; some PSP apps show a longer alphanumeric ID
+const UTR_PATTERN = /^[A-Za-z0-9]{12,22}$/;
+
+export function isValidUpiHandle(handle: string | null | undefined): boolean {
+  return !!handle && UPI_HANDLE_PATTERN.test(handle.trim());
+}
+
+export function normalizeUtr(value: string): string {
+  return value.replace(/\s/g, "").toUpperCase();
+}
+
+export function isValidUtr(value: string | null | undefined): boolean {
+  return !!value && UTR_PATTERN.test(normalizeUtr(value));
+}
+
+interface UpiPayParams {
+  upiHandle: string;
+  payeeName: string;
+  amount: number;
+  note: string;
+}
+
+/**
+ * Build a upi://pay deep link.
+ * Spaces are encoded as %20 since several UPI apps don't decode "+".
+ * The amount is omitted when nothing is due so the payer can enter it.
+ *
+ * @param params - Payee VPA and name, amount in rupees, transaction note
+ * @returns upi://pay URL understood by GPay, PhonePe, Paytm and BHIM
+ */
+export function buildUpiPayLink({ upiHandle, payeeName, amount, note }: UpiPayParams): string {
+  const params: [string, string][] = [
+    ["pa", upiHandle.trim()],
+    ["pn", payeeName],
+  ];
+  if (amount > 0) params.push(["am", amount.toFixed(2)]);
+  params.push(["cu", "INR"], ["tn", note.slice(0, 80)]);
+
+  return `upi://pay?${params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join("&")}`;
+}
+
+/**
+ * UPI link for the outstanding balance on an invoice.
+ * The invoice's own UPI handle wins over the dairy default so reprinted
+ * invoices keep pointing at the account they were issued with.
+ *
+ * @param invoice - Invoice with number, amounts and optional upi_handle
+ * @param settings - Dairy name and default UPI handle
+ * @returns upi://pay URL, or null if no valid UPI handle is configured
+ */
+export function buildInvoiceUpiLink(
+  invoice: InvoiceBase & { invoice_number: string; upi_handle?: string | null },
+  settings: { dairy_name: string; upi_handle: string | null }
+): string | null {
+  const upiHandle = invoice.upi_handle || settings.upi_handle;
+  if (!isValidUpiHandle(upiHandle)) return null;
+
+  return buildUpiPayLink({
+    upiHandle: upiHandle!,
+    payeeName: settings.dairy_name,
+    amount: Math.max(0, getInvoiceBalance(invoice)),
+    note: `Invoice ${invoice.invoice_number}`,
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Vendor advances and loans.
+ *
+ * Each advance is recovered in instalments, either a fixed amount or a
+ * percentage of each bill or payment, oldest advance first. The database
+ * takes the instalments when a bill is closed or a payment recorded; the
+ * plan here mirrors it so the amounts can be shown before saving.
+ */
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { DEDUCTION_LABELS, type DeductionType } from "@/lib/vendor-billing";
+
+export const ADVANCE_TYPES = ["cash_advance", "feed_advance", "loan"] as const satisfies readonly DeductionType[];
+export type AdvanceType = (typeof ADVANCE_TYPES)[number];
+
+export const ADVANCE_TYPE_LABELS: Record<AdvanceType, string> = {
+  cash_advance: DEDUCTION_LABELS.cash_advance,
+  feed_advance: DEDUCTION_LABELS.feed_advance,
+  loan: "Loan",
+};
+
+export const RECOVERY_MODES = ["fixed", "percentage"] as const;
+export type RecoveryMode = (typeof RECOVERY_MODES)[number];
+
+export const RECOVERY_MODE_LABELS: Record<RecoveryMode, string> = {
+  fixed: "Fixed amount per bill",
+  percentage: "Percentage of each bill",
+};
+
+/** Advances still being recovered that have been outstanding this long are flagged */
+export const OVERDUE_ADVANCE_DAYS = 90;
+
+export interface AdvanceForRecovery {
+  id: string;
+  issued_date: string;
+  recovery_mode: string;
+  recovery_value: number;
+  outstanding: number;
+}
+
+export interface PlannedRecovery {
+  advance_id: string;
+  amount: number;
+}
+
+export interface VendorOutstanding {
+  vendor_id: string;
+  vendor_name: string;
+  advances: number;
+  issued: number;
+  recovered: number;
+  outstanding: number;
+  oldest_issued: string | null;
+  last_recovered: string | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function describeRecovery(mode: string, value: number): string {
+  return mode === "percentage" ? `${value}% of each bill` : `₹${Number(value).toLocaleString()} per bill`;
+}
+
+/**
+ * The instalments due from one bill or payment. Percentage plans apply to
+ * `base`, and the total never exceeds `cap`.
+ */
+export function planAdvanceRecoveries(
+  advances: AdvanceForRecovery[],
+  base: number,
+  cap: number
+): PlannedRecovery[] {
+  let remaining = Math.max(cap, 0);
+  const plan: PlannedRecovery[] = [];
+
+  [...advances]
+    .filter((a) => a.outstanding > 0)
+    .sort((a, b) => a.issued_date.localeCompare(b.issued_date))
+    .forEach((a) => {
+      if (remaining <= 0) return;
+      const instalment = a.recovery_mode === "percentage" ? round2((base * Number(a.recovery_value)) / 100) : Number(a.recovery_value);
+      const amount = round2(Math.min(instalment, a.outstanding, remaining));
+      if (amount <= 0) return;
+      plan.push({ advance_id: a.id, amount });
+      remaining = round2(remaining - amount);
+    });
+
+  return plan;
+}
+
+export function isAdvanceOverdue(issuedDate: string, outstanding: number, today: Date = new Date()): boolean {
+  return outstanding > 0 && differenceInCalendarDays(today, parseISO(issuedDate)) > OVERDUE_ADVANCE_DAYS;
+}
+
+/** Outstanding advances per vendor, largest first */
+export function summarizeOutstanding(
+  advances: {
+    vendor_id: string;
+    vendor_name: string;
+    amount: number;
+    recovered: number;
+    issued_date: string;
+    last_recovered: string | null;
+  }[]
+): VendorOutstanding[] {
+  const byVendor = new Map<string, VendorOutstanding>();
+
+  advances.forEach((a) => {
+    const v = byVendor.get(a.vendor_id) || {
+      vendor_id: a.vendor_id,
+      vendor_name: a.vendor_name,
+      advances: 0,
+      issued: 0,
+      recovered: 0,
+      outstanding: 0,
+      oldest_issued: null,
+      last_recovered: null,
+    };
+    const outstanding = round2(Number(a.amount) - a.recovered);
+    v.advances += 1;
+    v.issued = round2(v.issued + Number(a.amount));
+    v.recovered = round2(v.recovered + a.recovered);
+    v.outstanding = round2(v.outstanding + outstanding);
+    if (outstanding > 0 && (!v.oldest_issued || a.issued_date < v.oldest_issued)) v.oldest_issued = a.issued_date;
+    if (a.last_recovered && (!v.last_recovered || a.last_recovered > v.last_recovered)) v.last_recovered = a.last_recovered;
+    byVendor.set(a.vendor_id, v);
+  });
+
+  return [...byVendor.values()].sort((a, b) => b.outstanding - a.outstanding);
+}
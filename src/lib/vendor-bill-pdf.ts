@@ -0,0 +1,290 @@
+/**
+ * Vendor bill statements as PDF, in English or Hindi.
+ *
+ * jsPDF's built-in fonts only cover Latin text and it cannot shape
+ * Devanagari, so any text outside plain ASCII is drawn onto a canvas by the
+ * browser (which shapes it with the system fonts) and placed as an image.
+ * Numbers stay as text so they remain selectable.
+ */
+import jsPDF from "jspdf";
+import autoTable, { type CellHookData } from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { formatBillPeriod, summarizeBillLines, type BillLine, type DeductionType } from "@/lib/vendor-billing";
+
+export type StatementLanguage = "en" | "hi";
+
+export const STATEMENT_LANGUAGE_LABELS: Record<StatementLanguage, string> = {
+  en: "English",
+  hi: "हिंदी",
+};
+
+const LABELS = {
+  en: {
+    title: "Milk Payment Statement",
+    billNo: "Bill No.",
+    period: "Period",
+    vendor: "Farmer",
+    phone: "Phone",
+    date: "Date",
+    session: "Session",
+    morning: "Morning",
+    evening: "Evening",
+    rejected: "Rejected",
+    liters: "Litres",
+    fat: "Fat %",
+    snf: "SNF %",
+    rate: "Rate (Rs./L)",
+    amount: "Amount (Rs.)",
+    total: "Total",
+    gross: "Milk amount",
+    deductions: "Deductions",
+    net: "Net payable",
+    paidOn: "Paid on",
+    pending: "Payment pending",
+    currency: "Rs.",
+    footer: "Computer generated statement",
+    cash_advance: "Cash advance",
+    feed_advance: "Cattle feed advance",
+    loan: "Loan instalment",
+    other: "Other",
+  },
+  hi: {
+    title: "दूध भुगतान विवरण",
+    billNo: "बिल नं.",
+    period: "अवधि",
+    vendor: "किसान",
+    phone: "फ़ोन",
+    date: "तारीख",
+    session: "पाली",
+    morning: "सुबह",
+    evening: "शाम",
+    rejected: "अस्वीकृत",
+    liters: "लीटर",
+    fat: "फैट %",
+    snf: "एसएनएफ %",
+    rate: "दर (रु./ली.)",
+    amount: "राशि (रु.)",
+    total: "कुल",
+    gross: "दूध की राशि",
+    deductions: "कटौती",
+    net: "देय शुद्ध राशि",
+    paidOn: "भुगतान तिथि",
+    pending: "भुगतान बाकी",
+    currency: "रु.",
+    footer: "कंप्यूटर द्वारा बनाया गया विवरण",
+    cash_advance: "नकद अग्रिम",
+    feed_advance: "पशु आहार अग्रिम",
+    loan: "ऋण किस्त",
+    other: "अन्य",
+  },
+} satisfies Record<StatementLanguage, Record<string, string>>;
+
+export interface VendorBillStatement {
+  dairy: { name: string; address: string | null; phone: string | null };
+  vendor: { name: string; phone: string | null; area: string | null };
+  bill: {
+    bill_number: string;
+    period_start: string;
+    period_end: string;
+    gross_amount: number;
+    deductions_total: number;
+    net_payable: number;
+    status: string;
+    paid_at: string | null;
+  };
+  lines: BillLine[];
+  deductions: { deduction_type: string; description: string | null; amount: number }[];
+}
+
+const PT_TO_MM = 25.4 / 72;
+/** Canvas pixels per point, high enough to stay sharp when printed */
+const RASTER_SCALE = 6;
+const DEVANAGARI_FONTS = "'Noto Sans Devanagari', 'Mangal', 'Nirmala UI', 'Kohinoor Devanagari', sans-serif";
+
+const primaryColor: [number, number, number] = [45, 80, 22];
+const darkText: [number, number, number] = [30, 30, 30];
+const grayText: [number, number, number] = [100, 100, 100];
+const borderColor: [number, number, number] = [220, 220, 220];
+
+function needsRaster(text: string): boolean {
+  return /[^\x20-\x7E]/.test(text);
+}
+
+function money(value: number): string {
+  return Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Draws text at a baseline like doc.text, rasterising it when jsPDF's
+ * fonts cannot render it
+ */
+function drawText(
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  opts: { size: number; bold?: boolean; color?: [number, number, number]; align?: "left" | "center" | "right" }
+) {
+  const color = opts.color || darkText;
+  if (!needsRaster(text)) {
+    doc.setFontSize(opts.size);
+    doc.setFont("helvetica", opts.bold ? "bold" : "normal");
+    doc.setTextColor(...color);
+    doc.text(text, x, y, { align: opts.align });
+    return;
+  }
+
+  const px = opts.size * RASTER_SCALE;
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d")!;
+  const font = `${opts.bold ? "bold " : ""}${px}px ${DEVANAGARI_FONTS}`;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 2;
+  canvas.height = Math.ceil(px * 1.5);
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.fillStyle = `rgb(${color.join(",")})`;
+  ctx.textBaseline = "alphabetic";
+  ctx.fillText(text, 1, px * 1.1);
+
+  const mmPerPx = (opts.size * PT_TO_MM) / px;
+  const width = canvas.width * mmPerPx;
+  const left = opts.align === "right" ? x - width : opts.align === "center" ? x - width / 2 : x;
+  doc.addImage(canvas.toDataURL("image/png"), "PNG", left, y - px * 1.1 * mmPerPx, width, canvas.height * mmPerPx);
+}
+
+/** autoTable hooks that rasterise any cell jsPDF cannot render */
+const rasterCells = {
+  didParseCell: (data: CellHookData) => {
+    if (needsRaster(data.cell.text.join(" "))) data.cell.text = [];
+  },
+  didDrawCell: (data: CellHookData) => {
+    const { cell } = data;
+    const text = String(cell.raw ?? "");
+    if (cell.text.length > 0 || !needsRaster(text)) return;
+    const align = cell.styles.halign === "right" ? "right" : cell.styles.halign === "center" ? "center" : "left";
+    const x =
+      align === "right"
+        ? cell.x + cell.width - cell.padding("right")
+        : align === "center"
+          ? cell.x + cell.width / 2
+          : cell.x + cell.padding("left");
+    const color = Array.isArray(cell.styles.textColor) ? (cell.styles.textColor as [number, number, number]) : darkText;
+    drawText(data.doc, text, x, cell.y + cell.height / 2 + cell.styles.fontSize * PT_TO_MM * 0.35, {
+      size: cell.styles.fontSize,
+      bold: cell.styles.fontStyle === "bold",
+      color,
+      align,
+    });
+  },
+};
+
+export function buildVendorBillPdf(statement: VendorBillStatement, language: StatementLanguage): jsPDF {
+  const t = LABELS[language];
+  const { bill, vendor, dairy } = statement;
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  const lastTableY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  // Header
+  doc.setFillColor(...primaryColor);
+  doc.rect(0, 0, pageWidth, 4, "F");
+  drawText(doc, dairy.name.toUpperCase(), margin, 18, { size: 18, bold: true, color: primaryColor });
+  const contact = [dairy.address, dairy.phone].filter(Boolean).join(" | ");
+  if (contact) drawText(doc, contact, margin, 24, { size: 8, color: grayText });
+  drawText(doc, t.title, pageWidth - margin, 18, { size: 13, bold: true, align: "right" });
+  drawText(doc, `${t.billNo} ${bill.bill_number}`, pageWidth - margin, 24, { size: 9, align: "right", color: grayText });
+
+  doc.setDrawColor(...borderColor);
+  doc.setLineWidth(0.5);
+  doc.line(margin, 29, pageWidth - margin, 29);
+
+  // Vendor and period
+  drawText(doc, `${t.vendor}:`, margin, 37, { size: 9, color: grayText });
+  drawText(doc, vendor.name, margin + 22, 37, { size: 11, bold: true });
+  const vendorMeta = [vendor.area, vendor.phone && `${t.phone}: ${vendor.phone}`].filter(Boolean).join(" | ");
+  if (vendorMeta) drawText(doc, vendorMeta, margin + 22, 43, { size: 8, color: grayText });
+  drawText(doc, `${t.period}:`, pageWidth - margin - 55, 37, { size: 9, color: grayText });
+  drawText(doc, formatBillPeriod({ start: bill.period_start, end: bill.period_end }), pageWidth - margin, 37, {
+    size: 10,
+    bold: true,
+    align: "right",
+  });
+
+  // Per-session lines
+  const lines = [...statement.lines].sort(
+    (a, b) => a.procurement_date.localeCompare(b.procurement_date) || b.session.localeCompare(a.session)
+  );
+  const totals = summarizeBillLines(lines);
+  const fixed = (v: number | null, digits = 1) => (v !== null ? Number(v).toFixed(digits) : "-");
+
+  autoTable(doc, {
+    startY: 50,
+    head: [[t.date, t.session, t.liters, t.fat, t.snf, t.rate, t.amount]],
+    body: lines.map((l) => [
+      format(parseISO(l.procurement_date), "dd/MM"),
+      [l.session === "morning" ? t.morning : l.session === "evening" ? t.evening : l.session, l.quality_status === "rejected" && t.rejected]
+        .filter(Boolean)
+        .join(" - "),
+      Number(l.quantity_liters).toFixed(1),
+      fixed(l.fat_percentage),
+      fixed(l.snf_percentage),
+      fixed(l.rate_per_liter, 2),
+      money(Number(l.total_amount || 0)),
+    ]),
+    foot: [[
+      t.total,
+      "",
+      totals.liters.toFixed(1),
+      fixed(totals.avg_fat, 2),
+      fixed(totals.avg_snf, 2),
+      totals.avg_rate.toFixed(2),
+      money(totals.gross),
+    ]],
+    margin: { left: margin, right: margin },
+    headStyles: { fillColor: primaryColor, textColor: [255, 255, 255], fontStyle: "bold", fontSize: 8, halign: "center" },
+    bodyStyles: { textColor: darkText, fontSize: 8, halign: "right" },
+    footStyles: { fillColor: [240, 240, 240], textColor: darkText, fontStyle: "bold", fontSize: 8, halign: "right" },
+    columnStyles: { 0: { halign: "left" }, 1: { halign: "left" } },
+    styles: { lineColor: borderColor, lineWidth: 0.2, cellPadding: 2 },
+    ...rasterCells,
+  });
+
+  // Settlement
+  let y = lastTableY() + 10;
+  const labelX = pageWidth - margin - 80;
+  const row = (label: string, value: string, bold = false) => {
+    drawText(doc, label, labelX, y, { size: 9, bold, color: bold ? darkText : grayText });
+    drawText(doc, value, pageWidth - margin, y, { size: bold ? 11 : 9, bold, align: "right" });
+    y += bold ? 8 : 6;
+  };
+
+  row(t.gross, `${t.currency} ${money(bill.gross_amount)}`);
+  statement.deductions.forEach((d) => {
+    const type = (t[d.deduction_type as DeductionType] as string | undefined) || d.deduction_type;
+    row(`- ${d.description || type}`, `${t.currency} ${money(d.amount)}`);
+  });
+  if (statement.deductions.length > 1) row(t.deductions, `${t.currency} ${money(bill.deductions_total)}`);
+  doc.setDrawColor(...borderColor);
+  doc.line(labelX, y - 3, pageWidth - margin, y - 3);
+  y += 2;
+  row(t.net, `${t.currency} ${money(bill.net_payable)}`, true);
+
+  drawText(
+    doc,
+    bill.status === "paid" && bill.paid_at ? `${t.paidOn}: ${format(parseISO(bill.paid_at), "dd/MM/yyyy")}` : t.pending,
+    margin,
+    lastTableY() + 10,
+    { size: 9, bold: true, color: bill.status === "paid" ? primaryColor : [180, 90, 20] }
+  );
+
+  const pageHeight = doc.internal.pageSize.getHeight();
+  drawText(doc, `${t.footer} | ${format(new Date(), "dd/MM/yyyy")}`, pageWidth / 2, pageHeight - 10, {
+    size: 7,
+    color: grayText,
+    align: "center",
+  });
+
+  return doc;
+}
@@ -0,0 +1,129 @@
+/**
+ * Vendor bill cycles.
+ *
+ * Milk vendors are paid per cycle rather than per delivery. A cycle is a
+ * fixed slice of the calendar: weeks run Monday to Sunday, 10-day cycles
+ * are the 1st-10th, 11th-20th and 21st to month end, fortnights split the
+ * month at the 15th. Procurement falls into the cycle containing its date,
+ * and a cycle can be billed once it has ended.
+ */
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+
+export const BILL_CYCLES = ["weekly", "10_day", "fortnightly", "monthly"] as const;
+export type BillCycle = (typeof BILL_CYCLES)[number];
+
+export const BILL_CYCLE_LABELS: Record<BillCycle, string> = {
+  weekly: "Weekly",
+  "10_day": "10 days",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+export const DEDUCTION_TYPES = ["cash_advance", "feed_advance", "loan", "other"] as const;
+export type DeductionType = (typeof DEDUCTION_TYPES)[number];
+
+export const DEDUCTION_LABELS: Record<DeductionType, string> = {
+  cash_advance: "Cash advance",
+  feed_advance: "Cattle feed advance",
+  loan: "Loan instalment",
+  other: "Other",
+};
+
+export interface BillPeriod {
+  start: string;
+  end: string;
+}
+
+export interface BillLine {
+  procurement_date: string;
+  session: string;
+  quantity_liters: number;
+  fat_percentage: number | null;
+  snf_percentage: number | null;
+  rate_per_liter: number | null;
+  total_amount: number | null;
+  quality_status?: string | null;
+}
+
+export interface BillTotals {
+  /** Accepted litres; rejected milk is not paid for */
+  liters: number;
+  rejected_liters: number;
+  /** Litre-weighted over the entries that were tested */
+  avg_fat: number | null;
+  avg_snf: number | null;
+  gross: number;
+  /** Gross divided by litres */
+  avg_rate: number;
+  sessions: { session: string; liters: number; amount: number }[];
+}
+
+export function isBillCycle(value: string | null | undefined): value is BillCycle {
+  return !!value && (BILL_CYCLES as readonly string[]).includes(value);
+}
+
+/** The cycle a date falls in */
+export function getBillPeriod(cycle: BillCycle, date: string | Date): BillPeriod {
+  const day = typeof date === "string" ? parseISO(date) : date;
+  const fmt = (d: Date) => format(d, "yyyy-MM-dd");
+  const monthStart = startOfMonth(day);
+  const onDay = (n: number) => new Date(monthStart.getFullYear(), monthStart.getMonth(), n);
+
+  switch (cycle) {
+    case "weekly":
+      return { start: fmt(startOfWeek(day, { weekStartsOn: 1 })), end: fmt(endOfWeek(day, { weekStartsOn: 1 })) };
+    case "10_day": {
+      const d = day.getDate();
+      if (d <= 10) return { start: fmt(onDay(1)), end: fmt(onDay(10)) };
+      if (d <= 20) return { start: fmt(onDay(11)), end: fmt(onDay(20)) };
+      return { start: fmt(onDay(21)), end: fmt(endOfMonth(day)) };
+    }
+    case "fortnightly":
+      return day.getDate() <= 15
+        ? { start: fmt(onDay(1)), end: fmt(onDay(15)) }
+        : { start: fmt(onDay(16)), end: fmt(endOfMonth(day)) };
+    case "monthly":
+      return { start: fmt(monthStart), end: fmt(endOfMonth(day)) };
+  }
+}
+
+export function formatBillPeriod(period: BillPeriod): string {
+  const start = parseISO(period.start);
+  const end = parseISO(period.end);
+  return start.getMonth() === end.getMonth()
+    ? `${format(start, "d")}-${format(end, "d MMM yyyy")}`
+    : `${format(start, "d MMM")} - ${format(end, "d MMM yyyy")}`;
+}
+
+export function summarizeBillLines(allLines: BillLine[]): BillTotals {
+  const lines = allLines.filter((l) => l.quality_status !== "rejected");
+  const liters = lines.reduce((sum, l) => sum + Number(l.quantity_liters), 0);
+  const rejected = allLines.reduce((sum, l) => sum + (l.quality_status === "rejected" ? Number(l.quantity_liters) : 0), 0);
+  const gross = lines.reduce((sum, l) => sum + Number(l.total_amount || 0), 0);
+
+  const weighted = (key: "fat_percentage" | "snf_percentage") => {
+    const tested = lines.filter((l) => l[key] !== null);
+    const testedLiters = tested.reduce((sum, l) => sum + Number(l.quantity_liters), 0);
+    if (testedLiters === 0) return null;
+    const value = tested.reduce((sum, l) => sum + Number(l[key]) * Number(l.quantity_liters), 0) / testedLiters;
+    return Math.round(value * 100) / 100;
+  };
+
+  const sessions = new Map<string, { liters: number; amount: number }>();
+  lines.forEach((l) => {
+    const s = sessions.get(l.session) || { liters: 0, amount: 0 };
+    s.liters += Number(l.quantity_liters);
+    s.amount += Number(l.total_amount || 0);
+    sessions.set(l.session, s);
+  });
+
+  return {
+    liters: Math.round(liters * 100) / 100,
+    rejected_liters: Math.round(rejected * 100) / 100,
+    avg_fat: weighted("fat_percentage"),
+    avg_snf: weighted("snf_percentage"),
+    gross: Math.round(gross * 100) / 100,
+    avg_rate: liters > 0 ? Math.round((gross / liters) * 100) / 100 : 0,
+    sessions: [...sessions.entries()].map(([session, s]) => ({ session, ...s })),
+  };
+}
@@ -34,6 +34,7 @@ import { format } from "date-fns";
 import { InvoicePDFGenerator } from "@/components/billing/InvoicePDFGenerator";
 import { EditInvoiceDialog } from "@/components/billing/EditInvoiceDialog";
 import { SmartInvoiceCreator } from "@/components/billing/SmartInvoiceCreator";
+import { PendingUpiPayments } from "@/components/billing/PendingUpiPayments";
 import { 
   getEffectivePaymentStatus, 
   getInvoiceBalance, 
@@ -42,6 +43,7 @@ import {
   calculateOverdueBalance,
   countOverdueInvoices
 } from "@/lib/invoice-helpers";
+import { PREPAID_BILLING_CYCLE } from "@/lib/prepaid-wallet";
 interface Customer {
   id: string;
   name: string;
@@ -53,6 +55,8 @@ interface Product {
   base_price: number;
   unit: string;
   tax_percentage: number;
+  hsn_code: string | null;
+  tax_class: string;
 }
 
 interface Invoice {
@@ -134,15 +138,18 @@ export default function BillingPage() {
       }
       
       const [customerRes, invoiceRes, productRes] = await Promise.all([
+        // Prepaid customers are charged per delivery from their wallet, so
+        // invoicing their deliveries would bill them twice
         supabase
           .from("customers")
           .select("id, name")
           .eq("is_active", true)
+          .or(`billing_cycle.is.null,billing_cycle.neq.${PREPAID_BILLING_CYCLE}`)
           .order("name"),
         invoiceQuery,
         supabase
           .from("products")
-          .select("id, name, base_price, unit, tax_percentage")
+          .select("id, name, base_price, unit, tax_percentage, hsn_code, tax_class")
           .eq("is_active", true)
           .order("name")
       ]);
@@ -495,6 +502,14 @@ export default function BillingPage() {
         </Card>
       </div>
 
+      {/* Customer-submitted UPI references */}
+      <PendingUpiPayments
+        onVerified={() => {
+          invalidateBillingRelated(queryClient);
+          fetchData();
+        }}
+      />
+
       {/* Data Filters */}
       <DataFilters
         dateRange={dateRange}
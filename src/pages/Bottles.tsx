@@ -27,6 +27,7 @@ import { Package, Plus, Loader2, ArrowUpCircle, ArrowDownCircle, AlertTriangle }
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { handleError } from "@/lib/errors";
+import { countOverdueBottles, formatBottleLabel, readBottleDepositSettings } from "@/lib/bottle-deposits";
 
 interface Bottle {
   id: string;
@@ -35,6 +36,7 @@ interface Bottle {
   total_quantity: number;
   available_quantity: number;
   deposit_amount: number;
+  lost_charge: number | null;
 }
 
 interface Customer {
@@ -42,6 +44,19 @@ interface Customer {
   name: string;
 }
 
+interface CustomerBottleBalance {
+  id: string;
+  customer_id: string;
+  bottle_id: string;
+  quantity_pending: number;
+  deposit_held: number;
+  last_issued_date: string | null;
+  last_returned_date: string | null;
+  customer_name: string;
+  bottle_label: string;
+  overdue: number;
+}
+
 interface BottleTransaction {
   id: string;
   bottle_id: string;
@@ -57,6 +72,9 @@ export default function BottlesPage() {
   const [bottles, setBottles] = useState<Bottle[]>([]);
   const [transactions, setTransactions] = useState<BottleTransaction[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [balances, setBalances] = useState<CustomerBottleBalance[]>([]);
+  const [lossAfterDays, setLossAfterDays] = useState(0);
+  const [billingOverdue, setBillingOverdue] = useState(false);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [transactionDialogOpen, setTransactionDialogOpen] = useState(false);
@@ -66,6 +84,7 @@ export default function BottlesPage() {
     size: "1L" as "500ml" | "1L" | "2L",
     total_quantity: "",
     deposit_amount: "",
+    lost_charge: "",
   });
   const [transactionForm, setTransactionForm] = useState({
     bottle_id: "",
@@ -83,19 +102,79 @@ export default function BottlesPage() {
   const fetchData = async () => {
     setLoading(true);
 
-    const [bottlesRes, transactionsRes, customersRes] = await Promise.all([
+    const [bottlesRes, transactionsRes, customersRes, balancesRes, settingsRes] = await Promise.all([
       supabase.from("bottles").select("*").order("bottle_type").order("size"),
       supabase.from("bottle_transactions").select("*").order("created_at", { ascending: false }).limit(50),
       supabase.from("customers").select("id, name").eq("is_active", true).order("name"),
+      supabase
+        .from("customer_bottles")
+        .select(`
+          id, customer_id, bottle_id, quantity_pending, deposit_held, last_issued_date, last_returned_date,
+          customer:customer_id (name),
+          bottle:bottle_id (size, bottle_type)
+        `)
+        .gt("quantity_pending", 0)
+        .order("last_issued_date", { ascending: true }),
+      supabase.from("dairy_settings").select("settings").limit(1).maybeSingle(),
     ]);
 
     if (bottlesRes.data) setBottles(bottlesRes.data);
     if (transactionsRes.data) setTransactions(transactionsRes.data);
     if (customersRes.data) setCustomers(customersRes.data);
 
+    const { lossAfterDays: days } = readBottleDepositSettings(settingsRes.data?.settings);
+    setLossAfterDays(days);
+
+    // Customer history is needed to tell which of the pending bottles are overdue
+    const pendingRows = balancesRes.data || [];
+    const { data: history } = pendingRows.length > 0
+      ? await supabase
+          .from("bottle_transactions")
+          .select("customer_id, bottle_id, transaction_type, quantity, transaction_date")
+          .in("customer_id", [...new Set(pendingRows.map((b) => b.customer_id))])
+          .limit(10000)
+      : { data: [] };
+
+    const today = new Date();
+    setBalances(pendingRows.map((b) => ({
+      id: b.id,
+      customer_id: b.customer_id,
+      bottle_id: b.bottle_id,
+      quantity_pending: b.quantity_pending || 0,
+      deposit_held: Number(b.deposit_held || 0),
+      last_issued_date: b.last_issued_date,
+      last_returned_date: b.last_returned_date,
+      customer_name: (b.customer as { name: string } | null)?.name || "Customer",
+      bottle_label: formatBottleLabel(b.bottle as { size: string; bottle_type: string } | null),
+      overdue: countOverdueBottles(
+        (history || []).filter((t) => t.customer_id === b.customer_id && t.bottle_id === b.bottle_id),
+        b.quantity_pending || 0,
+        today,
+        days
+      ),
+    })));
+
     setLoading(false);
   };
 
+  const handleBillOverdue = async () => {
+    setBillingOverdue(true);
+    const { data, error } = await supabase.rpc("bill_overdue_bottles", {});
+    setBillingOverdue(false);
+
+    if (error) {
+      toast({ title: "Error billing overdue bottles", description: handleError(error, "bottles"), variant: "destructive" });
+    } else {
+      toast({
+        title: data ? "Overdue bottles billed" : "Nothing to bill",
+        description: data
+          ? `${data} bottle${data === 1 ? "" : "s"} written off as lost and charged to customers`
+          : `No bottles have been out more than ${lossAfterDays} days`,
+      });
+      fetchData();
+    }
+  };
+
   const handleAddBottle = async () => {
     if (!bottleForm.total_quantity) {
       toast({ title: "Enter quantity", variant: "destructive" });
@@ -110,6 +189,7 @@ export default function BottlesPage() {
       total_quantity: qty,
       available_quantity: qty,
       deposit_amount: parseFloat(bottleForm.deposit_amount) || 0,
+      lost_charge: bottleForm.lost_charge === "" ? null : parseFloat(bottleForm.lost_charge) || 0,
     }, { onConflict: "bottle_type,size" });
 
     setSaving(false);
@@ -119,7 +199,7 @@ export default function BottlesPage() {
     } else {
       toast({ title: "Bottles added", description: `${qty} ${bottleForm.size} ${bottleForm.bottle_type} bottles added` });
       setDialogOpen(false);
-      setBottleForm({ bottle_type: "glass", size: "1L", total_quantity: "", deposit_amount: "" });
+      setBottleForm({ bottle_type: "glass", size: "1L", total_quantity: "", deposit_amount: "", lost_charge: "" });
       fetchData();
     }
   };
@@ -139,16 +219,6 @@ export default function BottlesPage() {
       return;
     }
 
-    // Update bottle quantity
-    let newAvailable = bottle.available_quantity;
-    if (transactionForm.transaction_type === "issued") {
-      newAvailable -= qty;
-    } else if (transactionForm.transaction_type === "returned") {
-      newAvailable += qty;
-    } else if (transactionForm.transaction_type === "damaged" || transactionForm.transaction_type === "lost") {
-      newAvailable -= qty;
-    }
-
     const { error: transError } = await supabase.from("bottle_transactions").insert({
       bottle_id: transactionForm.bottle_id,
       customer_id: transactionForm.customer_id || null,
@@ -158,10 +228,21 @@ export default function BottlesPage() {
       notes: transactionForm.notes || null,
     });
 
-    const { error: updateError } = await supabase
-      .from("bottles")
-      .update({ available_quantity: Math.max(0, newAvailable) })
-      .eq("id", transactionForm.bottle_id);
+    // apply_bottle_transaction() moves the stock for customer rows; only
+    // stock adjustments at the dairy are made here
+    let updateError = null;
+    if (!transError && !transactionForm.customer_id) {
+      let newAvailable = bottle.available_quantity;
+      if (transactionForm.transaction_type === "returned") {
+        newAvailable += qty;
+      } else {
+        newAvailable -= qty;
+      }
+      ({ error: updateError } = await supabase
+        .from("bottles")
+        .update({ available_quantity: Math.max(0, newAvailable) })
+        .eq("id", transactionForm.bottle_id));
+    }
 
     setSaving(false);
 
@@ -179,6 +260,52 @@ export default function BottlesPage() {
   const availableBottles = bottles.reduce((sum, b) => sum + b.available_quantity, 0);
   const issuedBottles = totalBottles - availableBottles;
 
+  const overdueBottles = balances.reduce((sum, b) => sum + b.overdue, 0);
+
+  const balanceColumns = [
+    {
+      key: "customer_name",
+      header: "Customer",
+      render: (item: CustomerBottleBalance) => <span className="font-medium">{item.customer_name}</span>,
+    },
+    {
+      key: "bottle_label",
+      header: "Bottle",
+      render: (item: CustomerBottleBalance) => <span className="capitalize">{item.bottle_label}</span>,
+    },
+    {
+      key: "quantity_pending",
+      header: "With Customer",
+      render: (item: CustomerBottleBalance) => (
+        <div className="flex items-center gap-2">
+          <span className="font-semibold">{item.quantity_pending}</span>
+          {item.overdue > 0 && (
+            <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+              {item.overdue} overdue
+            </Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "deposit_held",
+      header: "Deposit Held",
+      render: (item: CustomerBottleBalance) => `₹${item.deposit_held.toLocaleString("en-IN")}`,
+    },
+    {
+      key: "last_issued_date",
+      header: "Last Issued",
+      render: (item: CustomerBottleBalance) =>
+        item.last_issued_date ? format(new Date(item.last_issued_date), "dd MMM yyyy") : "-",
+    },
+    {
+      key: "last_returned_date",
+      header: "Last Returned",
+      render: (item: CustomerBottleBalance) =>
+        item.last_returned_date ? format(new Date(item.last_returned_date), "dd MMM yyyy") : "-",
+    },
+  ];
+
   const transactionColumns = [
     {
       key: "transaction_date",
@@ -273,6 +400,7 @@ export default function BottlesPage() {
       <Tabs defaultValue="inventory" className="space-y-4">
         <TabsList>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
+          <TabsTrigger value="customers">With Customers</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
         </TabsList>
 
@@ -308,6 +436,12 @@ export default function BottlesPage() {
                         <span className="font-medium">₹{bottle.deposit_amount}</span>
                       </div>
                     )}
+                    {bottle.lost_charge !== null && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Lost charge:</span>
+                        <span className="font-medium">₹{bottle.lost_charge}</span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -325,6 +459,34 @@ export default function BottlesPage() {
           </div>
         </TabsContent>
 
+        <TabsContent value="customers" className="space-y-4">
+          {lossAfterDays > 0 && (
+            <Card className={overdueBottles > 0 ? "border-destructive/30" : undefined}>
+              <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Bottles out more than {lossAfterDays} days are billed as lost: the deposit is kept and any lost-bottle charge is added to the customer's account.
+                </p>
+                <Button
+                  variant="outline"
+                  className="shrink-0"
+                  onClick={handleBillOverdue}
+                  disabled={billingOverdue || overdueBottles === 0}
+                >
+                  {billingOverdue && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Bill {overdueBottles} Overdue as Lost
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+          <DataTable
+            data={balances}
+            columns={balanceColumns}
+            loading={loading}
+            searchPlaceholder="Search customers..."
+            emptyMessage="No bottles with customers"
+          />
+        </TabsContent>
+
         <TabsContent value="transactions">
           <DataTable
             data={transactions}
@@ -377,6 +539,11 @@ export default function BottlesPage() {
                 <Input type="number" value={bottleForm.deposit_amount} onChange={(e) => setBottleForm({ ...bottleForm, deposit_amount: e.target.value })} placeholder="0" />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label>Lost Bottle Charge (₹)</Label>
+              <Input type="number" value={bottleForm.lost_charge} onChange={(e) => setBottleForm({ ...bottleForm, lost_charge: e.target.value })} placeholder="Same as deposit" />
+              <p className="text-xs text-muted-foreground">Charged per bottle a customer doesn't return, less their deposit</p>
+            </div>
           </div>
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
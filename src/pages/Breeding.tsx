@@ -10,27 +10,47 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Heart, Baby, Syringe, Calendar, AlertCircle, CalendarDays, List, Loader2 } from "lucide-react";
+import { Plus, Heart, Baby, Syringe, Calendar, AlertCircle, CalendarDays, List, Loader2, Dna, Trash2 } from "lucide-react";
 import { format, differenceInDays } from "date-fns";
 import { BreedingCalendar } from "@/components/breeding/BreedingCalendar";
 import { BreedingPageSkeleton } from "@/components/breeding/BreedingSkeleton";
+import { MatingAdvisorPanel } from "@/components/breeding/MatingAdvisorPanel";
+import { SemenBullsPanel } from "@/components/breeding/SemenBullsPanel";
+import { SemenInventoryPanel } from "@/components/breeding/SemenInventoryPanel";
+import { ConceptionRateReport } from "@/components/breeding/ConceptionRateReport";
+import { CalfRearingPanel } from "@/components/calves/CalfRearingPanel";
 import { useBreedingData, useCreateBreedingRecord, type BreedingRecord } from "@/hooks/useBreedingData";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import { useSemenInventory } from "@/hooks/useSemenInventory";
+import { animalNode, formatInbreeding, INBREEDING_THRESHOLD } from "@/lib/inbreeding";
 import type { LucideIcon } from "lucide-react";
 
 const recordTypeLabels: Record<string, { label: string; color: string; icon: LucideIcon }> = {
   heat_detection: { label: "Heat Detection", color: "bg-breeding-heat", icon: Heart },
   artificial_insemination: { label: "Artificial Insemination", color: "bg-breeding-insemination", icon: Syringe },
+  natural_service: { label: "Natural Service", color: "bg-breeding-insemination", icon: Heart },
   pregnancy_check: { label: "Pregnancy Check", color: "bg-breeding-pregnancy", icon: AlertCircle },
   calving: { label: "Calving", color: "bg-breeding-calving", icon: Baby },
 };
 
+interface CalfForm {
+  gender: string;
+  weight: string;
+  tag_number: string;
+  name: string;
+}
+
+const EMPTY_CALF: CalfForm = { gender: "", weight: "", tag_number: "", name: "" };
+
 export default function BreedingPage() {
   const { toast } = useToast();
   const { data, isLoading, error } = useBreedingData();
   const createRecord = useCreateBreedingRecord();
+  const { bulls, pedigree, calculator } = useHerdGenetics();
+  const { straws, technicians } = useSemenInventory();
   
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<"list" | "calendar">("calendar");
+  const [viewMode, setViewMode] = useState<"list" | "calendar" | "genetics" | "insemination" | "calves">("calendar");
   
   // Form states
   const [selectedCattle, setSelectedCattle] = useState("");
@@ -38,12 +58,14 @@ export default function BreedingPage() {
   const [recordDate, setRecordDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [heatCycleDay, setHeatCycleDay] = useState("");
   const [inseminationBull, setInseminationBull] = useState("");
+  const [semenBullId, setSemenBullId] = useState("");
+  const [semenStrawId, setSemenStrawId] = useState("");
+  const [technicianId, setTechnicianId] = useState("");
   const [inseminationTech, setInseminationTech] = useState("");
   const [pregnancyConfirmed, setPregnancyConfirmed] = useState<string>("");
   const [expectedCalving, setExpectedCalving] = useState("");
   const [actualCalving, setActualCalving] = useState("");
-  const [calfGender, setCalfGender] = useState("");
-  const [calfWeight, setCalfWeight] = useState("");
+  const [calves, setCalves] = useState<CalfForm[]>([{ ...EMPTY_CALF }]);
   const [notes, setNotes] = useState("");
 
   const handleCreateRecord = async () => {
@@ -51,6 +73,10 @@ export default function BreedingPage() {
       toast({ title: "Error", description: "Please fill required fields", variant: "destructive" });
       return;
     }
+    if (recordType === "calving" && calves.some(c => !c.gender)) {
+      toast({ title: "Error", description: "Select the gender of each calf", variant: "destructive" });
+      return;
+    }
 
     await createRecord.mutateAsync({
       cattle_id: selectedCattle,
@@ -58,11 +84,16 @@ export default function BreedingPage() {
       record_date: recordDate,
       heat_cycle_day: heatCycleDay ? parseInt(heatCycleDay) : null,
       insemination_bull: inseminationBull || null,
+      semen_bull_id: semenBullId || null,
+      semen_straw_id: semenStrawId || null,
+      technician_id: technicianId || null,
       insemination_technician: inseminationTech || null,
       pregnancy_confirmed: pregnancyConfirmed === "yes" ? true : pregnancyConfirmed === "no" ? false : null,
       expected_calving_date: expectedCalving || null,
       actual_calving_date: actualCalving || null,
-      calf_details: recordType === "calving" ? { gender: calfGender, weight: calfWeight ? parseFloat(calfWeight) : null } : null,
+      calves: recordType === "calving"
+        ? calves.map(c => ({ gender: c.gender, weight: c.weight ? parseFloat(c.weight) : null, tag_number: c.tag_number, name: c.name }))
+        : undefined,
       notes: notes || null,
     });
 
@@ -76,17 +107,19 @@ export default function BreedingPage() {
     setRecordDate(format(new Date(), "yyyy-MM-dd"));
     setHeatCycleDay("");
     setInseminationBull("");
+    setSemenBullId("");
+    setSemenStrawId("");
+    setTechnicianId("");
     setInseminationTech("");
     setPregnancyConfirmed("");
     setExpectedCalving("");
     setActualCalving("");
-    setCalfGender("");
-    setCalfWeight("");
+    setCalves([{ ...EMPTY_CALF }]);
     setNotes("");
   };
 
   if (isLoading) {
-    return <BreedingPageSkeleton viewMode={viewMode} />;
+    return <BreedingPageSkeleton viewMode={viewMode === "list" ? "list" : "calendar"} />;
   }
 
   if (error) {
@@ -102,6 +135,17 @@ export default function BreedingPage() {
 
   const { cattle, records, healthRecords } = data!;
 
+  const serviceBulls = bulls.filter(
+    b => (b.is_active && b.source === (recordType === "natural_service" ? "natural" : "ai")) || b.id === semenBullId
+  );
+  const updateCalf = (index: number, patch: Partial<CalfForm>) =>
+    setCalves(calves.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const selectedBullNode = semenBullId && pedigree?.bullNodes.get(semenBullId);
+  const matingInbreeding = selectedCattle && selectedBullNode && calculator
+    ? calculator.mating(selectedBullNode, animalNode(selectedCattle))
+    : null;
+
   const getCattleTag = (cattleId: string) => {
     const c = cattle.find(c => c.id === cattleId);
     return c ? `${c.tag_number}${c.name ? ` - ${c.name}` : ""}` : "Unknown";
@@ -194,6 +238,27 @@ export default function BreedingPage() {
             >
               <List className="mr-2 h-4 w-4" /> List
             </Button>
+            <Button 
+              variant={viewMode === "genetics" ? "default" : "ghost"} 
+              size="sm"
+              onClick={() => setViewMode("genetics")}
+            >
+              <Dna className="mr-2 h-4 w-4" /> Genetics
+            </Button>
+            <Button 
+              variant={viewMode === "insemination" ? "default" : "ghost"} 
+              size="sm"
+              onClick={() => setViewMode("insemination")}
+            >
+              <Syringe className="mr-2 h-4 w-4" /> AI & Semen
+            </Button>
+            <Button 
+              variant={viewMode === "calves" ? "default" : "ghost"} 
+              size="sm"
+              onClick={() => setViewMode("calves")}
+            >
+              <Baby className="mr-2 h-4 w-4" /> Calves
+            </Button>
           </div>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
@@ -225,6 +290,7 @@ export default function BreedingPage() {
                   <SelectContent>
                     <SelectItem value="heat_detection">Heat Detection</SelectItem>
                     <SelectItem value="artificial_insemination">Artificial Insemination</SelectItem>
+                    <SelectItem value="natural_service">Natural Service</SelectItem>
                     <SelectItem value="pregnancy_check">Pregnancy Check</SelectItem>
                     <SelectItem value="calving">Calving</SelectItem>
                   </SelectContent>
@@ -243,16 +309,79 @@ export default function BreedingPage() {
                 </div>
               )}
 
-              {recordType === "artificial_insemination" && (
+              {(recordType === "artificial_insemination" || recordType === "natural_service") && (
                 <>
-                  <div className="space-y-2">
-                    <Label>Bull/Semen ID</Label>
-                    <Input value={inseminationBull} onChange={e => setInseminationBull(e.target.value)} placeholder="Bull name or semen batch" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Technician</Label>
-                    <Input value={inseminationTech} onChange={e => setInseminationTech(e.target.value)} placeholder="AI technician name" />
-                  </div>
+                  {recordType === "artificial_insemination" && straws.some(s => s.straws_on_hand > 0) && (
+                    <div className="space-y-2">
+                      <Label>Semen Straw</Label>
+                      <Select
+                        value={semenStrawId || "none"}
+                        onValueChange={v => {
+                          const straw = straws.find(s => s.id === v);
+                          setSemenStrawId(straw ? straw.id : "");
+                          setSemenBullId(straw ? straw.semen_bull_id : "");
+                        }}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not from stock</SelectItem>
+                          {straws.filter(s => s.straws_on_hand > 0).map(s => (
+                            <SelectItem key={s.id} value={s.id}>
+                              {s.bull?.name} - Batch {s.batch_number} ({s.straws_on_hand} left)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {serviceBulls.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Bull</Label>
+                      <Select value={semenBullId || "other"} onValueChange={v => setSemenBullId(v === "other" ? "" : v)} disabled={!!semenStrawId}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {serviceBulls.map(b => (
+                            <SelectItem key={b.id} value={b.id}>
+                              {b.name} {b.breed && `- ${b.breed}`}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="other">Other (type below)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {matingInbreeding && (
+                        <p className={`text-sm ${matingInbreeding.coefficient > INBREEDING_THRESHOLD ? "text-destructive" : "text-muted-foreground"}`}>
+                          Expected calf inbreeding {formatInbreeding(matingInbreeding.coefficient)}
+                          {matingInbreeding.commonAncestors.length > 0 && ` through ${matingInbreeding.commonAncestors.map(a => a.label).join(", ")}`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {!semenBullId && (
+                    <div className="space-y-2">
+                      <Label>Bull/Semen ID</Label>
+                      <Input value={inseminationBull} onChange={e => setInseminationBull(e.target.value)} placeholder="Bull name or semen batch" />
+                    </div>
+                  )}
+                  {recordType === "artificial_insemination" && technicians.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Technician</Label>
+                      <Select value={technicianId || "other"} onValueChange={v => setTechnicianId(v === "other" ? "" : v)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {technicians.filter(t => t.is_active || t.id === technicianId).map(t => (
+                            <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                          ))}
+                          <SelectItem value="other">Other (type below)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {recordType === "artificial_insemination" && !technicianId && (
+                    <div className="space-y-2">
+                      <Label>{technicians.length > 0 ? "Technician Name" : "Technician"}</Label>
+                      <Input value={inseminationTech} onChange={e => setInseminationTech(e.target.value)} placeholder="AI technician name" />
+                    </div>
+                  )}
                   <p className="text-sm text-muted-foreground">Expected calving will be calculated automatically (283 days)</p>
                 </>
               )}
@@ -284,22 +413,48 @@ export default function BreedingPage() {
                     <Label>Actual Calving Date</Label>
                     <Input type="date" value={actualCalving} onChange={e => setActualCalving(e.target.value)} />
                   </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Calf Gender</Label>
-                      <Select value={calfGender} onValueChange={setCalfGender}>
-                        <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="male">Male</SelectItem>
-                          <SelectItem value="female">Female</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Calf Weight (kg)</Label>
-                      <Input type="number" value={calfWeight} onChange={e => setCalfWeight(e.target.value)} />
+                  {calves.map((calf, index) => (
+                    <div key={index} className="space-y-3 rounded-lg border p-3">
+                      <div className="flex items-center justify-between">
+                        <Label>{calves.length > 1 ? `Calf ${index + 1}` : "Calf"}</Label>
+                        {calves.length > 1 && (
+                          <Button variant="ghost" size="sm" onClick={() => setCalves(calves.filter((_, i) => i !== index))}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Gender *</Label>
+                          <Select value={calf.gender} onValueChange={v => updateCalf(index, { gender: v })}>
+                            <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="male">Male</SelectItem>
+                              <SelectItem value="female">Female</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Birth Weight (kg)</Label>
+                          <Input type="number" value={calf.weight} onChange={e => updateCalf(index, { weight: e.target.value })} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Tag Number</Label>
+                          <Input value={calf.tag_number} onChange={e => updateCalf(index, { tag_number: e.target.value })} placeholder="Auto" />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Name</Label>
+                          <Input value={calf.name} onChange={e => updateCalf(index, { name: e.target.value })} />
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={() => setCalves([...calves, { ...EMPTY_CALF }])}>
+                    <Plus className="mr-2 h-4 w-4" /> Add Twin
+                  </Button>
+                  <p className="text-sm text-muted-foreground">
+                    Each calf is added to the herd with its dam and the sire of the last service. Blank tags are numbered automatically.
+                  </p>
                 </>
               )}
 
@@ -324,6 +479,18 @@ export default function BreedingPage() {
           healthRecords={healthRecords} 
           cattle={cattle} 
         />
+      ) : viewMode === "genetics" ? (
+        <div className="space-y-6">
+          <MatingAdvisorPanel cattle={cattle} records={records} healthRecords={healthRecords} />
+          <SemenBullsPanel />
+        </div>
+      ) : viewMode === "insemination" ? (
+        <div className="space-y-6">
+          <ConceptionRateReport records={records} />
+          <SemenInventoryPanel />
+        </div>
+      ) : viewMode === "calves" ? (
+        <CalfRearingPanel />
       ) : (
         <>
           {/* Stats Cards */}
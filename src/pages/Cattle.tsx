@@ -9,6 +9,16 @@ import { ConfirmDialog } from "@/components/common/ConfirmDialog";
 import { MilkHistoryDialog } from "@/components/production/MilkHistoryDialog";
 import { CattlePedigreeDialog } from "@/components/cattle/CattlePedigreeDialog";
 import { CattleDetailDialog } from "@/components/cattle/CattleDetailDialog";
+import { BodyConditionDialog } from "@/components/cattle/BodyConditionDialog";
+import { LifecycleEventDialog } from "@/components/cattle/LifecycleEventDialog";
+import { HerdValuationReport } from "@/components/reports/HerdValuationReport";
+import { MortalityCullingReport } from "@/components/reports/MortalityCullingReport";
+import { MobileCattleCard } from "@/components/mobile/MobileCattleCard";
+import { useHerdGenetics } from "@/hooks/useHerdGenetics";
+import { useRecordBodyCondition } from "@/hooks/useBodyCondition";
+import { useRecordLifecycleEvent } from "@/hooks/useHerdValuation";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { formatBcs } from "@/lib/body-condition";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -28,7 +38,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { Beef, Edit, Trash2, Loader2, Droplets, GitBranch } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Beef, Edit, Trash2, Loader2, Droplets, GitBranch, Scale, ArrowRightLeft } from "lucide-react";
 
 const emptyFormData: CattleFormData = {
   tag_number: "",
@@ -42,11 +53,16 @@ const emptyFormData: CattleFormData = {
   notes: "",
   sire_id: "",
   dam_id: "",
+  sire_bull_id: "",
 };
 
 export default function CattlePage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { cattle, isLoading, createCattle, updateCattle, deleteCattle, isCreating, isUpdating } = useCattleData();
+  const { bulls } = useHerdGenetics();
+  const recordCondition = useRecordBodyCondition();
+  const recordLifecycle = useRecordLifecycleEvent();
+  const isMobile = useIsMobile();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedCattle, setSelectedCattle] = useState<Cattle | null>(null);
@@ -66,6 +82,15 @@ export default function CattlePage() {
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [detailCattle, setDetailCattle] = useState<Cattle | null>(null);
 
+  // Weight & condition dialog state
+  const [conditionDialogOpen, setConditionDialogOpen] = useState(false);
+  const [conditionCattle, setConditionCattle] = useState<Cattle | null>(null);
+  const [mobileSearch, setMobileSearch] = useState("");
+
+  // Purchase / sale / loss dialog
+  const [lifecycleDialogOpen, setLifecycleDialogOpen] = useState(false);
+  const [lifecycleCattle, setLifecycleCattle] = useState<Cattle | null>(null);
+
   useEffect(() => {
     if (searchParams.get("action") === "add") {
       setDialogOpen(true);
@@ -92,6 +117,7 @@ export default function CattlePage() {
         notes: "",
         sire_id: cattle.sire_id || "",
         dam_id: cattle.dam_id || "",
+        sire_bull_id: cattle.sire_bull_id || "",
       });
     } else {
       setSelectedCattle(null);
@@ -133,6 +159,16 @@ export default function CattlePage() {
   };
 
 
+  const handleOpenCondition = (cattle: Cattle) => {
+    setConditionCattle(cattle);
+    setConditionDialogOpen(true);
+  };
+
+  const handleOpenLifecycle = (cattle: Cattle) => {
+    setLifecycleCattle(cattle);
+    setLifecycleDialogOpen(true);
+  };
+
   const handleOpenMilkHistory = (cattle: Cattle) => {
     setHistoryCattleId(cattle.id);
     setHistoryCattleName(`${cattle.tag_number}${cattle.name ? ` (${cattle.name})` : ""}`);
@@ -193,7 +229,14 @@ export default function CattlePage() {
     {
       key: "weight",
       header: "Weight (kg)",
-      render: (item: Cattle) => item.weight ? `${item.weight} kg` : "-",
+      render: (item: Cattle) => (
+        <div className="flex flex-col">
+          <span>{item.weight ? `${item.weight} kg` : "-"}</span>
+          {item.body_condition_score && (
+            <span className="text-xs text-muted-foreground">BCS {formatBcs(Number(item.body_condition_score))}</span>
+          )}
+        </div>
+      ),
     },
     {
       key: "actions",
@@ -211,6 +254,28 @@ export default function CattlePage() {
           >
             <GitBranch className="h-4 w-4 text-primary" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOpenCondition(item);
+            }}
+            title="Record Weight & Condition"
+          >
+            <Scale className="h-4 w-4 text-success" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOpenLifecycle(item);
+            }}
+            title="Record Purchase, Sale or Loss"
+          >
+            <ArrowRightLeft className="h-4 w-4 text-warning" />
+          </Button>
           {canShowMilkHistory(item) && (
             <Button
               variant="ghost"
@@ -296,13 +361,62 @@ export default function CattlePage() {
         </Card>
       </div>
 
-      <DataTable
-        data={cattle}
-        columns={columns}
-        loading={isLoading}
-        searchPlaceholder="Search by tag, name, breed..."
-        emptyMessage="No cattle found. Add your first cattle to get started."
-      />
+      <Tabs defaultValue="herd" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="herd">Herd</TabsTrigger>
+          <TabsTrigger value="valuation">Valuation</TabsTrigger>
+          <TabsTrigger value="losses">Sales & Losses</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="herd">
+          {isMobile ? (
+            <div className="space-y-3">
+              <Input
+                value={mobileSearch}
+                onChange={(e) => setMobileSearch(e.target.value)}
+                placeholder="Search by tag, name, breed..."
+              />
+              {cattle
+                .filter((c) =>
+                  [c.tag_number, c.name, c.breed].some((v) => v?.toLowerCase().includes(mobileSearch.toLowerCase()))
+                )
+                .map((item) => (
+                  <MobileCattleCard
+                    key={item.id}
+                    tagNumber={item.tag_number}
+                    name={item.name || undefined}
+                    breed={item.breed}
+                    status={item.status}
+                    lactationStatus={item.lactation_status}
+                    weight={item.weight || undefined}
+                    bodyConditionScore={item.body_condition_score ? Number(item.body_condition_score) : undefined}
+                    onAddWeight={() => handleOpenCondition(item)}
+                    onViewDetails={() => {
+                      setDetailCattle(item);
+                      setDetailDialogOpen(true);
+                    }}
+                  />
+                ))}
+            </div>
+          ) : (
+            <DataTable
+              data={cattle}
+              columns={columns}
+              loading={isLoading}
+              searchPlaceholder="Search by tag, name, breed..."
+              emptyMessage="No cattle found. Add your first cattle to get started."
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="valuation">
+          <HerdValuationReport />
+        </TabsContent>
+
+        <TabsContent value="losses">
+          <MortalityCullingReport />
+        </TabsContent>
+      </Tabs>
 
       {/* Add/Edit Dialog */}
       <ResponsiveDialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -496,6 +610,29 @@ export default function CattlePage() {
                   </Select>
                 </div>
               </div>
+              {!formData.sire_id && bulls.length > 0 && (
+                <div className="space-y-2 mt-4">
+                  <Label htmlFor="sire_bull_id">AI Sire (semen bull)</Label>
+                  <Select
+                    value={formData.sire_bull_id || "none"}
+                    onValueChange={(v) =>
+                      setFormData({ ...formData, sire_bull_id: v === "none" ? "" : v })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select bull..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No AI sire recorded</SelectItem>
+                      {bulls.map((b) => (
+                        <SelectItem key={b.id} value={b.id}>
+                          {b.name} {b.breed ? `(${b.breed})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -558,6 +695,24 @@ export default function CattlePage() {
         cattle={detailCattle}
         allCattle={cattle}
       />
+
+      {/* Weight & Condition Dialog */}
+      <BodyConditionDialog
+        open={conditionDialogOpen}
+        onOpenChange={setConditionDialogOpen}
+        cattle={conditionCattle}
+        saving={recordCondition.isPending}
+        onSave={(formData) => recordCondition.mutate(formData, { onSuccess: () => setConditionDialogOpen(false) })}
+      />
+
+      {/* Purchase, Sale or Loss Dialog */}
+      <LifecycleEventDialog
+        open={lifecycleDialogOpen}
+        onOpenChange={setLifecycleDialogOpen}
+        cattle={lifecycleCattle}
+        saving={recordLifecycle.isPending}
+        onSave={(formData) => recordLifecycle.mutate(formData, { onSuccess: () => setLifecycleDialogOpen(false) })}
+      />
     </div>
   );
 }
@@ -4,6 +4,8 @@ import { useQueryClient } from "@tanstack/react-query";
 import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { invalidateCustomerRelated, invalidateBillingRelated } from "@/lib/query-invalidation";
 import { useTelegramNotify } from "@/hooks/useTelegramNotify";
+import { scheduleFormToRow, scheduleRowToForm } from "@/lib/delivery-schedule";
+import { diffSubscriptions } from "@/lib/subscription-changes";
 import { format } from "date-fns";
 import { PageHeader } from "@/components/common/PageHeader";
 import { DataTable } from "@/components/common/DataTable";
@@ -42,12 +44,19 @@ import { Badge } from "@/components/ui/badge";
 import { VacationManager } from "@/components/customers/VacationManager";
 import { CustomerLedger } from "@/components/customers/CustomerLedger";
 import { CustomerAccountApprovals } from "@/components/customers/CustomerAccountApprovals";
+import { SubscriptionChangeApprovals } from "@/components/customers/SubscriptionChangeApprovals";
 import { CustomerDetailDialog } from "@/components/customers/CustomerDetailDialog";
 import {
   CustomerSubscriptionSelector,
   CustomerSubscriptionData,
   defaultSubscriptionData,
 } from "@/components/customers/CustomerSubscriptionSelector";
+import { CustomerGstFields } from "@/components/customers/CustomerGstFields";
+import { CustomerLocationFields } from "@/components/customers/CustomerLocationFields";
+import { CustomerBillingFields } from "@/components/customers/CustomerBillingFields";
+import { isValidGstin } from "@/lib/gst";
+import { isValidLatitude, isValidLongitude } from "@/lib/route-planner";
+import { isPrepaidCustomer } from "@/lib/prepaid-wallet";
 
 interface Customer {
   id: string;
@@ -64,6 +73,13 @@ interface Customer {
   created_at: string;
   notes: string | null;
   route_id: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  wallet_low_balance_threshold: number;
+  wallet_grace_amount: number;
+  wallet_paused_at: string | null;
   routes?: { name: string; area: string | null } | null;
 }
 
@@ -81,8 +97,14 @@ const emptyFormData = {
   area: "",
   subscription_type: "daily",
   billing_cycle: "monthly",
+  wallet_low_balance_threshold: "100",
+  wallet_grace_amount: "0",
   notes: "",
   route_id: "",
+  gstin: "",
+  state_code: "",
+  latitude: "",
+  longitude: "",
 };
 
 interface CustomerProduct {
@@ -215,60 +237,81 @@ export default function CustomersPage() {
         area: customer.area || "",
         subscription_type: customer.subscription_type,
         billing_cycle: customer.billing_cycle,
-        notes: "",
+        wallet_low_balance_threshold: String(customer.wallet_low_balance_threshold ?? 100),
+        wallet_grace_amount: String(customer.wallet_grace_amount ?? 0),
+        notes: customer.notes || "",
         route_id: customer.route_id || "",
+        gstin: customer.gstin || "",
+        state_code: customer.state_code || "",
+        latitude: customer.latitude?.toString() || "",
+        longitude: customer.longitude?.toString() || "",
       });
       
-      // Load existing subscription products for this customer
-      const { data: existingProducts } = await supabase
-        .from("customer_products")
-        .select(`
-          product_id,
-          quantity,
-          custom_price,
-          is_active,
-          product:product_id (name, unit)
-        `)
-        .eq("customer_id", customer.id)
-        .eq("is_active", true);
+      // Load existing subscription products and delivery schedules for this customer
+      const [{ data: existingProducts }, { data: schedules }] = await Promise.all([
+        supabase
+          .from("customer_products")
+          .select(`
+            id,
+            product_id,
+            quantity,
+            custom_price,
+            is_active,
+            product:product_id (name, unit)
+          `)
+          .eq("customer_id", customer.id)
+          .eq("is_active", true),
+        supabase
+          .from("delivery_schedules")
+          .select("*")
+          .eq("customer_id", customer.id),
+      ]);
+
+      const defaultSchedule = schedules?.find((s) => !s.customer_product_id);
+      const globalSchedule = defaultSchedule
+        ? scheduleRowToForm(defaultSchedule)
+        : {
+            ...defaultSubscriptionData,
+            frequency: (customer.subscription_type || "daily") as CustomerSubscriptionData["frequency"],
+          };
+      const autoDeliver = defaultSchedule?.auto_deliver ?? defaultSubscriptionData.auto_deliver;
 
       if (existingProducts && existingProducts.length > 0) {
-        // Parse delivery days from notes if available
-        let globalDeliveryDays = defaultSubscriptionData.delivery_days;
-        let autoDeliver = true;
-        let productSchedules: Record<string, { frequency: string; delivery_days: any }> = {};
-        
-        // Try to parse schedule from notes (stored as JSON)
-        const notesMatch = customer.notes?.match(/Schedule:\s*(\{[\s\S]*\})/);
-        if (notesMatch) {
-          try {
-            const schedule = JSON.parse(notesMatch[1]);
-            if (schedule.delivery_days) globalDeliveryDays = schedule.delivery_days;
-            if (typeof schedule.auto_deliver === "boolean") autoDeliver = schedule.auto_deliver;
-            if (schedule.product_schedules) productSchedules = schedule.product_schedules;
-          } catch {}
-        }
-
-        const products = existingProducts.map((p: any) => ({
-          product_id: p.product_id,
-          product_name: p.product?.name || "Unknown",
-          quantity: p.quantity,
-          custom_price: p.custom_price,
-          unit: p.product?.unit || "unit",
-          frequency: (productSchedules[p.product_id]?.frequency || customer.subscription_type || "daily") as "daily" | "alternate" | "weekly" | "custom",
-          delivery_days: productSchedules[p.product_id]?.delivery_days || { ...globalDeliveryDays },
-        }));
+        const products = existingProducts.map((p: any) => {
+          const productSchedule = schedules?.find((s) => s.customer_product_id === p.id);
+          const schedule = productSchedule ? scheduleRowToForm(productSchedule) : globalSchedule;
+          return {
+            product_id: p.product_id,
+            product_name: p.product?.name || "Unknown",
+            quantity: p.quantity,
+            custom_price: p.custom_price,
+            unit: p.product?.unit || "unit",
+            frequency: schedule.frequency,
+            delivery_days: { ...schedule.delivery_days },
+            interval_days: schedule.interval_days,
+            anchor_date: schedule.anchor_date,
+            month_days: [...schedule.month_days],
+          };
+        });
 
         setSubscriptionData({
           products,
-          frequency: customer.subscription_type as any || "daily",
-          delivery_days: globalDeliveryDays,
+          frequency: globalSchedule.frequency,
+          delivery_days: globalSchedule.delivery_days,
+          interval_days: globalSchedule.interval_days,
+          anchor_date: globalSchedule.anchor_date,
+          month_days: globalSchedule.month_days,
           auto_deliver: autoDeliver,
         });
       } else {
         setSubscriptionData({
           ...defaultSubscriptionData,
-          frequency: customer.subscription_type as any || "daily",
+          frequency: globalSchedule.frequency,
+          delivery_days: globalSchedule.delivery_days,
+          interval_days: globalSchedule.interval_days,
+          anchor_date: globalSchedule.anchor_date,
+          month_days: globalSchedule.month_days,
+          auto_deliver: autoDeliver,
         });
       }
       
@@ -282,6 +325,58 @@ export default function CustomersPage() {
     setDialogOpen(true);
   };
 
+  /**
+   * Replace a customer's delivery_schedules with the form's default schedule
+   * plus one override per subscribed product
+   */
+  const saveDeliverySchedules = async (customerId: string) => {
+    const { data: activeProducts, error: productsError } = await supabase
+      .from("customer_products")
+      .select("id, product_id")
+      .eq("customer_id", customerId)
+      .eq("is_active", true);
+
+    const reportError = (message: string) =>
+      toast({
+        title: "Schedule not saved",
+        description: "Customer saved, but the delivery schedule could not be stored: " + message,
+        variant: "destructive",
+      });
+
+    if (productsError) {
+      reportError(productsError.message);
+      return;
+    }
+
+    const productIdMap = new Map((activeProducts || []).map((cp) => [cp.product_id, cp.id]));
+
+    const rows = [
+      {
+        customer_product_id: null,
+        auto_deliver: subscriptionData.auto_deliver,
+        ...scheduleFormToRow(subscriptionData),
+      },
+      ...subscriptionData.products
+        .filter((p) => productIdMap.has(p.product_id))
+        .map((p) => ({
+          customer_product_id: productIdMap.get(p.product_id)!,
+          auto_deliver: subscriptionData.auto_deliver,
+          ...scheduleFormToRow(p),
+        })),
+    ];
+
+    // Replaced in one transaction so a failure keeps the previous schedule
+    const { error } = await supabase.rpc("replace_delivery_schedules", {
+      _customer_id: customerId,
+      _schedules: rows,
+    });
+
+    if (error) {
+      console.error("Error saving delivery schedules:", error);
+      reportError(error.message);
+    }
+  };
+
   const handleSave = async () => {
     if (!formData.name) {
       toast({
@@ -292,36 +387,42 @@ export default function CustomersPage() {
       return;
     }
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast({
+        title: "Validation Error",
+        description: "GSTIN format is invalid",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const hasLatitude = formData.latitude !== "";
+    const hasLongitude = formData.longitude !== "";
+    if (
+      hasLatitude !== hasLongitude ||
+      (hasLatitude && (!isValidLatitude(Number(formData.latitude)) || !isValidLongitude(Number(formData.longitude))))
+    ) {
+      toast({
+        title: "Validation Error",
+        description: "Enter both latitude and longitude, or leave both empty",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     
     // Map UI frequency to database subscription_type
+    // (the full schedule lives in delivery_schedules)
     const subscriptionTypeMap: Record<string, string> = {
       daily: "daily",
       alternate: "alternate",
       weekly: "weekly",
       custom: "custom",
+      every_n_days: "custom",
+      monthly: "custom",
     };
 
-    // Build schedule metadata with per-product schedules
-    const productSchedules: Record<string, { frequency: string; delivery_days: any }> = {};
-    subscriptionData.products.forEach(p => {
-      productSchedules[p.product_id] = {
-        frequency: p.frequency,
-        delivery_days: p.delivery_days,
-      };
-    });
-
-    const scheduleMetadata = {
-      delivery_days: subscriptionData.delivery_days,
-      auto_deliver: subscriptionData.auto_deliver,
-      product_schedules: productSchedules,
-    };
-
-    // Combine user notes with schedule metadata
-    const notesWithSchedule = formData.notes 
-      ? `${formData.notes}\n\n---\nSchedule: ${JSON.stringify(scheduleMetadata)}`
-      : `Schedule: ${JSON.stringify(scheduleMetadata)}`;
-
     const payload = {
       name: formData.name,
       phone: formData.phone || null,
@@ -330,8 +431,14 @@ export default function CustomersPage() {
       area: formData.area || null,
       subscription_type: subscriptionTypeMap[subscriptionData.frequency] || formData.subscription_type,
       billing_cycle: formData.billing_cycle,
-      notes: notesWithSchedule,
+      wallet_low_balance_threshold: Math.max(0, Number(formData.wallet_low_balance_threshold) || 0),
+      wallet_grace_amount: Math.max(0, Number(formData.wallet_grace_amount) || 0),
+      notes: formData.notes || null,
       route_id: formData.route_id || null,
+      gstin: formData.gstin || null,
+      state_code: formData.state_code || null,
+      latitude: hasLatitude ? Number(formData.latitude) : null,
+      longitude: hasLongitude ? Number(formData.longitude) : null,
     };
 
     if (selectedCustomer) {
@@ -351,6 +458,13 @@ export default function CustomersPage() {
         return;
       }
 
+      // Snapshot the current subscription so the customer's change history
+      // records what this edit actually changed
+      const { data: previousProducts } = await supabase
+        .from("customer_products")
+        .select("id, product_id, quantity, is_active")
+        .eq("customer_id", selectedCustomer.id);
+
       // Update subscription products - delete existing and insert new
       // First, deactivate all existing subscriptions
       await supabase
@@ -392,6 +506,21 @@ export default function CustomersPage() {
         }
       }
 
+      const historyRows = diffSubscriptions(
+        selectedCustomer.id,
+        previousProducts || [],
+        subscriptionData.products,
+        format(new Date(), "yyyy-MM-dd")
+      );
+      if (historyRows.length > 0) {
+        const { error: historyError } = await supabase
+          .from("subscription_change_requests")
+          .insert(historyRows);
+        if (historyError) console.warn("Could not record subscription history:", historyError);
+      }
+
+      await saveDeliverySchedules(selectedCustomer.id);
+
       setSaving(false);
       toast({
         title: "Customer updated",
@@ -438,6 +567,8 @@ export default function CustomersPage() {
         }
       }
 
+      await saveDeliverySchedules(newCustomer.id);
+
       // Add customer to route_stops if route is assigned
       if (formData.route_id) {
         try {
@@ -706,9 +837,17 @@ export default function CustomersPage() {
     {
       key: "billing_cycle",
       header: "Billing",
-      render: (item: Customer) => (
-        <span className="capitalize text-sm">{item.billing_cycle}</span>
-      ),
+      render: (item: Customer) =>
+        isPrepaidCustomer(item) ? (
+          <div className="flex flex-col gap-1">
+            <span className="text-sm">Prepaid</span>
+            {item.wallet_paused_at && (
+              <Badge variant="destructive" className="w-fit text-xs">Paused</Badge>
+            )}
+          </div>
+        ) : (
+          <span className="capitalize text-sm">{item.billing_cycle}</span>
+        ),
     },
     {
       key: "credit_balance",
@@ -828,6 +967,7 @@ export default function CustomersPage() {
 
       {/* Pending Customer Approvals */}
       <CustomerAccountApprovals />
+      <SubscriptionChangeApprovals />
 
       {/* Stats Cards */}
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 stagger-animation">
@@ -992,24 +1132,24 @@ export default function CustomersPage() {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="billing_cycle">Billing Cycle</Label>
-                  <Select
-                    value={formData.billing_cycle}
-                    onValueChange={(v) =>
-                      setFormData({ ...formData, billing_cycle: v })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                <CustomerGstFields
+                  gstin={formData.gstin}
+                  stateCode={formData.state_code}
+                  onChange={(v) => setFormData({ ...formData, gstin: v.gstin, state_code: v.state_code })}
+                />
+
+                <CustomerLocationFields
+                  latitude={formData.latitude}
+                  longitude={formData.longitude}
+                  onChange={(v) => setFormData({ ...formData, latitude: v.latitude, longitude: v.longitude })}
+                />
+
+                <CustomerBillingFields
+                  billingCycle={formData.billing_cycle}
+                  lowBalanceThreshold={formData.wallet_low_balance_threshold}
+                  graceAmount={formData.wallet_grace_amount}
+                  onChange={(v) => setFormData({ ...formData, ...v })}
+                />
 
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
@@ -1168,24 +1308,24 @@ export default function CustomersPage() {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="billing_cycle">Billing Cycle</Label>
-                  <Select
-                    value={formData.billing_cycle}
-                    onValueChange={(v) =>
-                      setFormData({ ...formData, billing_cycle: v })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                <CustomerGstFields
+                  gstin={formData.gstin}
+                  stateCode={formData.state_code}
+                  onChange={(v) => setFormData({ ...formData, gstin: v.gstin, state_code: v.state_code })}
+                />
+
+                <CustomerLocationFields
+                  latitude={formData.latitude}
+                  longitude={formData.longitude}
+                  onChange={(v) => setFormData({ ...formData, latitude: v.latitude, longitude: v.longitude })}
+                />
+
+                <CustomerBillingFields
+                  billingCycle={formData.billing_cycle}
+                  lowBalanceThreshold={formData.wallet_low_balance_threshold}
+                  graceAmount={formData.wallet_grace_amount}
+                  onChange={(v) => setFormData({ ...formData, ...v })}
+                />
 
                 <div className="space-y-2">
                   <Label htmlFor="route_edit">Delivery Route</Label>
@@ -7,6 +7,7 @@ import { AccountantDashboard } from "@/components/dashboard/AccountantDashboard"
 import { VetDashboard } from "@/components/dashboard/VetDashboard";
 import { AuditorDashboard } from "@/components/dashboard/AuditorDashboard";
 import { CustomerAccountApprovals } from "@/components/customers/CustomerAccountApprovals";
+import { SubscriptionChangeApprovals } from "@/components/customers/SubscriptionChangeApprovals";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/common/LoadingSkeleton";
 import { motion } from "framer-motion";
@@ -94,9 +95,12 @@ export default function Dashboard() {
 
   return (
     <div className="space-y-6">
-      {/* Customer Account Approvals - Only for admins/managers */}
+      {/* Customer Account & Subscription Change Approvals - Only for admins/managers */}
       {isAdminOrManager && (
-        <CustomerAccountApprovals />
+        <>
+          <CustomerAccountApprovals />
+          <SubscriptionChangeApprovals />
+        </>
       )}
 
       {/* Header */}
@@ -31,6 +31,8 @@ import { Truck, CheckCircle, XCircle, Clock, Loader2, Calendar, Zap, Palmtree, P
 import { format } from "date-fns";
 import { BulkDeliveryActions } from "@/components/deliveries/BulkDeliveryActions";
 import { DeliveryItemsEditor } from "@/components/deliveries/DeliveryItemsEditor";
+import { OfflineDeliveryRun } from "@/components/deliveries/OfflineDeliveryRun";
+import { useIsMobile } from "@/hooks/use-mobile";
 import { Badge } from "@/components/ui/badge";
 
 interface Customer {
@@ -74,6 +76,7 @@ export default function DeliveriesPage() {
   const { toast } = useToast();
   const { notifyDeliveryCompleted } = useTelegramNotify();
   const queryClient = useQueryClient();
+  const isMobile = useIsMobile();
 
   useEffect(() => {
     fetchData();
@@ -347,51 +350,58 @@ export default function DeliveriesPage() {
         </div>
       </PageHeader>
 
-      {/* Stats Cards */}
-      <div className="grid gap-4 sm:grid-cols-4">
-        <Card className="cursor-pointer hover:border-primary/50 transition-colors" onClick={() => setStatusFilter("all")}>
-          <CardContent className="pt-6">
-            <div className="text-2xl font-bold">{stats.total}</div>
-            <p className="text-sm text-muted-foreground">Total</p>
-          </CardContent>
-        </Card>
-        <Card className="cursor-pointer hover:border-warning/50 transition-colors" onClick={() => setStatusFilter("pending")}>
-          <CardContent className="pt-6">
-            <div className="text-2xl font-bold text-warning">{stats.pending}</div>
-            <p className="text-sm text-muted-foreground">Pending</p>
-          </CardContent>
-        </Card>
-        <Card className="cursor-pointer hover:border-success/50 transition-colors" onClick={() => setStatusFilter("delivered")}>
-          <CardContent className="pt-6">
-            <div className="text-2xl font-bold text-success">{stats.delivered}</div>
-            <p className="text-sm text-muted-foreground">Delivered</p>
-          </CardContent>
-        </Card>
-        <Card className="cursor-pointer hover:border-destructive/50 transition-colors" onClick={() => setStatusFilter("missed")}>
-          <CardContent className="pt-6">
-            <div className="text-2xl font-bold text-destructive">{stats.missed}</div>
-            <p className="text-sm text-muted-foreground">Missed</p>
-          </CardContent>
-        </Card>
-      </div>
+      {/* On phones the route runs from the offline queue so it keeps working without signal */}
+      {isMobile ? (
+        <OfflineDeliveryRun date={selectedDate} />
+      ) : (
+        <>
+          {/* Stats Cards */}
+          <div className="grid gap-4 sm:grid-cols-4">
+            <Card className="cursor-pointer hover:border-primary/50 transition-colors" onClick={() => setStatusFilter("all")}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{stats.total}</div>
+                <p className="text-sm text-muted-foreground">Total</p>
+              </CardContent>
+            </Card>
+            <Card className="cursor-pointer hover:border-warning/50 transition-colors" onClick={() => setStatusFilter("pending")}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-warning">{stats.pending}</div>
+                <p className="text-sm text-muted-foreground">Pending</p>
+              </CardContent>
+            </Card>
+            <Card className="cursor-pointer hover:border-success/50 transition-colors" onClick={() => setStatusFilter("delivered")}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-success">{stats.delivered}</div>
+                <p className="text-sm text-muted-foreground">Delivered</p>
+              </CardContent>
+            </Card>
+            <Card className="cursor-pointer hover:border-destructive/50 transition-colors" onClick={() => setStatusFilter("missed")}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-destructive">{stats.missed}</div>
+                <p className="text-sm text-muted-foreground">Missed</p>
+              </CardContent>
+            </Card>
+          </div>
 
-      {/* Filter Tabs */}
-      <Tabs value={statusFilter} onValueChange={setStatusFilter}>
-        <TabsList>
-          <TabsTrigger value="all">All ({stats.total})</TabsTrigger>
-          <TabsTrigger value="pending">Pending ({stats.pending})</TabsTrigger>
-          <TabsTrigger value="delivered">Delivered ({stats.delivered})</TabsTrigger>
-          <TabsTrigger value="missed">Missed ({stats.missed})</TabsTrigger>
-        </TabsList>
-      </Tabs>
+          {/* Filter Tabs */}
+          <Tabs value={statusFilter} onValueChange={setStatusFilter}>
+            <TabsList>
+              <TabsTrigger value="all">All ({stats.total})</TabsTrigger>
+              <TabsTrigger value="pending">Pending ({stats.pending})</TabsTrigger>
+              <TabsTrigger value="delivered">Delivered ({stats.delivered})</TabsTrigger>
+              <TabsTrigger value="missed">Missed ({stats.missed})</TabsTrigger>
+            </TabsList>
+          </Tabs>
 
-      <DataTable
-        data={filteredDeliveries}
-        columns={columns}
-        loading={loading}
-        searchPlaceholder="Search by customer name..."
-        emptyMessage={`No ${statusFilter === "all" ? "" : statusFilter + " "}deliveries for ${format(new Date(selectedDate), "dd MMM yyyy")}`}
-      />
+          <DataTable
+            data={filteredDeliveries}
+            columns={columns}
+            loading={loading}
+            searchPlaceholder="Search by customer name..."
+            emptyMessage={`No ${statusFilter === "all" ? "" : statusFilter + " "}deliveries for ${format(new Date(selectedDate), "dd MMM yyyy")}`}
+          />
+        </>
+      )}
 
       {/* Add Delivery Dialog */}
       <ResponsiveDialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -50,6 +50,7 @@ const categoryColors: Record<string, string> = {
   transport: "bg-warning/10 text-warning border-warning/20",
   electricity: "bg-accent/10 text-accent border-accent/20",
   maintenance: "bg-muted text-muted-foreground border-border",
+  cattle_purchase: "bg-primary/10 text-primary border-primary/20",
   misc: "bg-secondary text-secondary-foreground border-border",
 };
 
@@ -61,6 +62,7 @@ const categoryLabels: Record<string, string> = {
   transport: "Transport",
   electricity: "Electricity & Water",
   maintenance: "Maintenance",
+  cattle_purchase: "Cattle Purchase",
   misc: "Miscellaneous",
 };
 
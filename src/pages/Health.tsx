@@ -25,16 +25,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Stethoscope, Loader2, Syringe, Pill, Activity, Calendar } from "lucide-react";
-import { format, addDays, isBefore } from "date-fns";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { HealthTasksPanel } from "@/components/health/HealthTasksPanel";
+import { HealthProtocolsPanel } from "@/components/health/HealthProtocolsPanel";
+import { MastitisRiskPanel } from "@/components/health/MastitisRiskPanel";
+import { Stethoscope, Loader2, Syringe, Pill, Activity, Calendar, Bug } from "lucide-react";
+import { format, addDays, isBefore, startOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
+import { getNextDueAfter, type HealthProtocol, type HealthTask, type ScheduleAnimal } from "@/lib/health-protocols";
 
 const recordTypeIcons: Record<string, React.ReactNode> = {
   vaccination: <Syringe className="h-4 w-4" />,
   treatment: <Pill className="h-4 w-4" />,
   checkup: <Activity className="h-4 w-4" />,
   disease: <Stethoscope className="h-4 w-4" />,
+  deworming: <Bug className="h-4 w-4" />,
 };
 
 const recordTypeColors: Record<string, string> = {
@@ -42,6 +47,7 @@ const recordTypeColors: Record<string, string> = {
   treatment: "bg-warning/10 text-warning border-warning/20",
   checkup: "bg-success/10 text-success border-success/20",
   disease: "bg-destructive/10 text-destructive border-destructive/20",
+  deworming: "bg-primary/10 text-primary border-primary/20",
 };
 
 const emptyFormData: HealthFormData = {
@@ -53,6 +59,8 @@ const emptyFormData: HealthFormData = {
   vet_name: "",
   cost: "",
   next_due_date: "",
+  medicine_id: "",
+  withdrawal_days: "",
 };
 
 const sortOptions = [
@@ -67,7 +75,7 @@ export default function HealthPage() {
   const [sortBy, setSortBy] = useState("record_date");
   const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
   
-  const { records, cattle, isLoading, createRecord, isCreating } = useHealthData({
+  const { records, cattle, medicines, isLoading, createRecord, isCreating } = useHealthData({
     dateRange,
     sortBy,
     sortOrder,
@@ -76,6 +84,7 @@ export default function HealthPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [typeFilter, setTypeFilter] = useState("all");
   const [formData, setFormData] = useState<HealthFormData>(emptyFormData);
+  const [completing, setCompleting] = useState<{ protocol: HealthProtocol; animal: ScheduleAnimal } | null>(null);
 
   if (isLoading) {
     return <HealthPageSkeleton />;
@@ -90,6 +99,7 @@ export default function HealthPage() {
       onSuccess: () => {
         setDialogOpen(false);
         setFormData(emptyFormData);
+        setCompleting(null);
         
         // Send health alert notification for disease or treatment records
         if (formData.record_type === "disease" || formData.record_type === "treatment") {
@@ -104,6 +114,44 @@ export default function HealthPage() {
     });
   };
 
+  const openNewRecord = () => {
+    if (completing) {
+      setCompleting(null);
+      setFormData(emptyFormData);
+    }
+    setDialogOpen(true);
+  };
+
+  // Completing a protocol task prefills the record and its next due date
+  const handleCompleteTask = (task: HealthTask, protocol: HealthProtocol, animal: ScheduleAnimal) => {
+    const recordDate = format(new Date(), "yyyy-MM-dd");
+    setCompleting({ protocol, animal });
+    setFormData({
+      ...emptyFormData,
+      cattle_id: task.cattle_id,
+      record_date: recordDate,
+      record_type: protocol.record_type,
+      title: protocol.name,
+      protocol_id: protocol.id,
+      next_due_date: getNextDueAfter(protocol, animal, recordDate) || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleRecordDateChange = (recordDate: string) => {
+    const nextDue = completing && recordDate ? getNextDueAfter(completing.protocol, completing.animal, recordDate) : null;
+    setFormData({ ...formData, record_date: recordDate, ...(completing && { next_due_date: nextDue || "" }) });
+  };
+
+  const handleMedicineChange = (medicineId: string) => {
+    const medicine = medicines.find((m) => m.id === medicineId);
+    setFormData({
+      ...formData,
+      medicine_id: medicine ? medicine.id : "",
+      withdrawal_days: medicine?.milk_withdrawal_days ? medicine.milk_withdrawal_days.toString() : formData.withdrawal_days,
+    });
+  };
+
   const upcomingReminders = records.filter(
     (r) => r.next_due_date && isBefore(new Date(r.next_due_date), addDays(new Date(), 7))
   );
@@ -137,7 +185,20 @@ export default function HealthPage() {
         </Badge>
       ),
     },
-    { key: "title", header: "Title", render: (item: HealthRecordWithCattle) => item.title },
+    {
+      key: "title",
+      header: "Title",
+      render: (item: HealthRecordWithCattle) => (
+        <div className="flex flex-col gap-1">
+          <span>{item.title}</span>
+          {item.withdrawal_until && !isBefore(new Date(item.withdrawal_until), startOfDay(new Date())) && (
+            <Badge variant="outline" className="w-fit text-destructive border-destructive/30">
+              Milk withheld until {format(new Date(item.withdrawal_until), "dd MMM")}
+            </Badge>
+          )}
+        </div>
+      ),
+    },
     { key: "vet_name", header: "Vet", render: (item: HealthRecordWithCattle) => item.vet_name || "-" },
     { key: "cost", header: "Cost", render: (item: HealthRecordWithCattle) => item.cost ? `₹${Number(item.cost).toLocaleString()}` : "-" },
     {
@@ -153,62 +214,78 @@ export default function HealthPage() {
 
   return (
     <div className="space-y-6">
-      <PageHeader title="Health Records" description="Track vaccinations, treatments, and health checkups" icon={Stethoscope} action={{ label: "Add Record", onClick: () => setDialogOpen(true) }} />
-
-      <div className="grid gap-4 sm:grid-cols-4">
-        <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{records.length}</div><p className="text-sm text-muted-foreground">Total Records</p></CardContent></Card>
-        <Card className="border-info/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-info">{records.filter(r => r.record_type === "vaccination").length}</div><p className="text-sm text-muted-foreground">Vaccinations</p></CardContent></Card>
-        <Card className="border-warning/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-warning">{records.filter(r => r.record_type === "treatment").length}</div><p className="text-sm text-muted-foreground">Treatments</p></CardContent></Card>
-        <Card className="border-destructive/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-destructive">{upcomingReminders.length}</div><p className="text-sm text-muted-foreground">Due This Week</p></CardContent></Card>
-      </div>
-
-      {upcomingReminders.length > 0 && (
-        <Card className="border-warning/30 bg-warning/5">
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-2 mb-3"><Calendar className="h-5 w-5 text-warning" /><h3 className="font-semibold">Upcoming Reminders</h3></div>
-            <div className="space-y-2">
-              {upcomingReminders.slice(0, 5).map((r) => (
-                <div key={r.id} className="flex items-center justify-between text-sm">
-                  <span><span className="font-medium">{r.cattle?.tag_number}</span> - {r.title}</span>
-                  <Badge variant="outline" className="text-warning border-warning/30">{format(new Date(r.next_due_date!), "dd MMM")}</Badge>
+      <PageHeader title="Health Records" description="Track vaccinations, treatments, and health checkups" icon={Stethoscope} action={{ label: "Add Record", onClick: openNewRecord }} />
+
+      <Tabs defaultValue="records" className="space-y-4">
+        <TabsList><TabsTrigger value="records">Records</TabsTrigger><TabsTrigger value="tasks">Due Tasks</TabsTrigger><TabsTrigger value="protocols">Protocols</TabsTrigger><TabsTrigger value="quality">Milk Quality</TabsTrigger></TabsList>
+
+        <TabsContent value="records" className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-4">
+            <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{records.length}</div><p className="text-sm text-muted-foreground">Total Records</p></CardContent></Card>
+            <Card className="border-info/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-info">{records.filter(r => r.record_type === "vaccination").length}</div><p className="text-sm text-muted-foreground">Vaccinations</p></CardContent></Card>
+            <Card className="border-warning/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-warning">{records.filter(r => r.record_type === "treatment").length}</div><p className="text-sm text-muted-foreground">Treatments</p></CardContent></Card>
+            <Card className="border-destructive/30"><CardContent className="pt-6"><div className="text-2xl font-bold text-destructive">{upcomingReminders.length}</div><p className="text-sm text-muted-foreground">Due This Week</p></CardContent></Card>
+          </div>
+
+          {upcomingReminders.length > 0 && (
+            <Card className="border-warning/30 bg-warning/5">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 mb-3"><Calendar className="h-5 w-5 text-warning" /><h3 className="font-semibold">Upcoming Reminders</h3></div>
+                <div className="space-y-2">
+                  {upcomingReminders.slice(0, 5).map((r) => (
+                    <div key={r.id} className="flex items-center justify-between text-sm">
+                      <span><span className="font-medium">{r.cattle?.tag_number}</span> - {r.title}</span>
+                      <Badge variant="outline" className="text-warning border-warning/30">{format(new Date(r.next_due_date!), "dd MMM")}</Badge>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Data Filters */}
-      <DataFilters
-        dateRange={dateRange}
-        onDateRangeChange={setDateRange}
-        sortBy={sortBy}
-        sortOptions={sortOptions}
-        onSortChange={setSortBy}
-        sortOrder={sortOrder}
-        onSortOrderChange={setSortOrder}
-      />
-
-      {/* Type Filter */}
-      <Tabs value={typeFilter} onValueChange={setTypeFilter}>
-        <TabsList><TabsTrigger value="all">All</TabsTrigger><TabsTrigger value="vaccination">Vaccinations</TabsTrigger><TabsTrigger value="treatment">Treatments</TabsTrigger><TabsTrigger value="checkup">Checkups</TabsTrigger><TabsTrigger value="disease">Diseases</TabsTrigger></TabsList>
-      </Tabs>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Data Filters */}
+          <DataFilters
+            dateRange={dateRange}
+            onDateRangeChange={setDateRange}
+            sortBy={sortBy}
+            sortOptions={sortOptions}
+            onSortChange={setSortBy}
+            sortOrder={sortOrder}
+            onSortOrderChange={setSortOrder}
+          />
 
-      <DataTable data={filteredRecords} columns={columns} loading={isLoading} searchPlaceholder="Search by cattle, title..." emptyMessage="No health records found" />
+          {/* Type Filter */}
+          <Tabs value={typeFilter} onValueChange={setTypeFilter}>
+            <TabsList><TabsTrigger value="all">All</TabsTrigger><TabsTrigger value="vaccination">Vaccinations</TabsTrigger><TabsTrigger value="treatment">Treatments</TabsTrigger><TabsTrigger value="checkup">Checkups</TabsTrigger><TabsTrigger value="disease">Diseases</TabsTrigger><TabsTrigger value="deworming">Deworming</TabsTrigger></TabsList>
+          </Tabs>
+
+          <DataTable data={filteredRecords} columns={columns} loading={isLoading} searchPlaceholder="Search by cattle, title..." emptyMessage="No health records found" />
+        </TabsContent>
+
+        <TabsContent value="tasks"><HealthTasksPanel onComplete={handleCompleteTask} /></TabsContent>
+        <TabsContent value="protocols"><HealthProtocolsPanel /></TabsContent>
+        <TabsContent value="quality"><MastitisRiskPanel /></TabsContent>
+      </Tabs>
 
       <ResponsiveDialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <ResponsiveDialogContent className="max-w-2xl">
-          <ResponsiveDialogHeader><ResponsiveDialogTitle>Add Health Record</ResponsiveDialogTitle><ResponsiveDialogDescription>Record vaccination, treatment, or health checkup</ResponsiveDialogDescription></ResponsiveDialogHeader>
+          <ResponsiveDialogHeader><ResponsiveDialogTitle>{completing ? `Complete ${completing.protocol.name}` : "Add Health Record"}</ResponsiveDialogTitle><ResponsiveDialogDescription>{completing ? "Recording this completes the protocol task; the next due date follows the protocol schedule" : "Record vaccination, treatment, or health checkup"}</ResponsiveDialogDescription></ResponsiveDialogHeader>
           <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh] sm:max-h-none">
           <div className="grid gap-4 py-4">
             <div className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-2"><Label>Cattle *</Label><Select value={formData.cattle_id} onValueChange={(v) => setFormData({ ...formData, cattle_id: v })}><SelectTrigger><SelectValue placeholder="Select cattle" /></SelectTrigger><SelectContent>{cattle.map((c) => (<SelectItem key={c.id} value={c.id}>{c.tag_number} {c.name && `(${c.name})`}</SelectItem>))}</SelectContent></Select></div>
-              <div className="space-y-2"><Label>Record Type</Label><Select value={formData.record_type} onValueChange={(v) => setFormData({ ...formData, record_type: v })}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="vaccination">Vaccination</SelectItem><SelectItem value="treatment">Treatment</SelectItem><SelectItem value="checkup">Checkup</SelectItem><SelectItem value="disease">Disease</SelectItem></SelectContent></Select></div>
+              <div className="space-y-2"><Label>Record Type</Label><Select value={formData.record_type} onValueChange={(v) => setFormData({ ...formData, record_type: v })}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="vaccination">Vaccination</SelectItem><SelectItem value="treatment">Treatment</SelectItem><SelectItem value="checkup">Checkup</SelectItem><SelectItem value="disease">Disease</SelectItem><SelectItem value="deworming">Deworming</SelectItem></SelectContent></Select></div>
             </div>
             <div className="grid gap-4 sm:grid-cols-2">
-              <div className="space-y-2"><Label>Date</Label><Input type="date" value={formData.record_date} onChange={(e) => setFormData({ ...formData, record_date: e.target.value })} /></div>
+              <div className="space-y-2"><Label>Date</Label><Input type="date" value={formData.record_date} onChange={(e) => handleRecordDateChange(e.target.value)} /></div>
               <div className="space-y-2"><Label>Title *</Label><Input value={formData.title} onChange={(e) => setFormData({ ...formData, title: e.target.value })} placeholder="e.g., FMD Vaccination" /></div>
             </div>
+            {(formData.record_type === "treatment" || formData.record_type === "deworming") && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2"><Label>Medicine</Label><Select value={formData.medicine_id || "none"} onValueChange={handleMedicineChange}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="none">Not from inventory</SelectItem>{medicines.map((m) => (<SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>))}</SelectContent></Select></div>
+                <div className="space-y-2"><Label>Milk Withdrawal (days)</Label><Input type="number" min="0" value={formData.withdrawal_days} onChange={(e) => setFormData({ ...formData, withdrawal_days: e.target.value })} placeholder="0" /></div>
+              </div>
+            )}
             <div className="space-y-2"><Label>Description</Label><Textarea value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} placeholder="Details..." rows={2} /></div>
             <div className="grid gap-4 sm:grid-cols-3">
               <div className="space-y-2"><Label>Vet Name</Label><Input value={formData.vet_name} onChange={(e) => setFormData({ ...formData, vet_name: e.target.value })} placeholder="Dr. Name" /></div>
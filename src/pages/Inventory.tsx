@@ -12,7 +12,9 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ResponsiveDialog, ResponsiveDialogContent, ResponsiveDialogDescription, ResponsiveDialogHeader, ResponsiveDialogTitle } from "@/components/ui/responsive-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RationPlanner } from "@/components/feed/RationPlanner";
+import { FeedCostReport } from "@/components/feed/FeedCostReport";
 import { Wheat, Loader2, AlertTriangle, ArrowDown, ArrowUp } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -24,10 +26,11 @@ const categoryColors: Record<string, string> = {
   concentrate: "bg-info/10 text-info border-info/20",
   supplement: "bg-primary/10 text-primary border-primary/20",
   medicine: "bg-destructive/10 text-destructive border-destructive/20",
+  dairy_supply: "bg-accent/10 text-accent border-accent/20",
   byproduct: "bg-muted text-muted-foreground border-muted-foreground/20", // Legacy support
 };
 
-const emptyFormData: FeedFormData = { name: "", category: "green_fodder", unit: "kg", current_stock: "", min_stock_level: "", cost_per_unit: "", supplier: "" };
+const emptyFormData: FeedFormData = { name: "", category: "green_fodder", unit: "kg", current_stock: "", min_stock_level: "", cost_per_unit: "", supplier: "", dry_matter_pct: "", crude_protein_pct: "", tdn_pct: "", calcium_pct: "", phosphorus_pct: "", milk_withdrawal_days: "" };
 
 export default function InventoryPage() {
   const { items, consumption, isLoading, createItem, updateItem, updateStock, isCreating, isUpdating, isUpdatingStock } = useInventoryData();
@@ -86,7 +89,7 @@ export default function InventoryPage() {
     { key: "current_stock", header: "Stock", render: (item: FeedItem) => { const isLow = item.current_stock <= item.min_stock_level; const pct = item.min_stock_level > 0 ? Math.min(100, (item.current_stock / (item.min_stock_level * 3)) * 100) : 100; return (<div className="w-32"><div className="flex items-center justify-between mb-1"><span className={cn("font-medium", isLow && "text-destructive")}>{item.current_stock} {item.unit}</span>{isLow && <AlertTriangle className="h-4 w-4 text-destructive" />}</div><Progress value={pct} className={cn("h-1.5", isLow && "[&>div]:bg-destructive")} /></div>); } },
     { key: "min_stock_level", header: "Min Level", render: (item: FeedItem) => `${item.min_stock_level} ${item.unit}` },
     { key: "cost_per_unit", header: "Unit Cost", render: (item: FeedItem) => item.cost_per_unit ? `₹${item.cost_per_unit}/${item.unit}` : "-" },
-    { key: "actions", header: "Actions", render: (item: FeedItem) => (<div className="flex gap-1"><Button variant="outline" size="sm" onClick={() => { setSelectedItem(item); setStockDialogOpen(true); }}>Update Stock</Button><Button variant="ghost" size="sm" onClick={() => { setSelectedItem(item); setFormData({ name: item.name, category: item.category, unit: item.unit, current_stock: item.current_stock.toString(), min_stock_level: item.min_stock_level.toString(), cost_per_unit: item.cost_per_unit?.toString() || "", supplier: item.supplier || "" }); setDialogOpen(true); }}>Edit</Button></div>) },
+    { key: "actions", header: "Actions", render: (item: FeedItem) => (<div className="flex gap-1"><Button variant="outline" size="sm" onClick={() => { setSelectedItem(item); setStockDialogOpen(true); }}>Update Stock</Button><Button variant="ghost" size="sm" onClick={() => { setSelectedItem(item); setFormData({ name: item.name, category: item.category, unit: item.unit, current_stock: item.current_stock.toString(), min_stock_level: item.min_stock_level.toString(), cost_per_unit: item.cost_per_unit?.toString() || "", supplier: item.supplier || "", dry_matter_pct: item.dry_matter_pct?.toString() || "", crude_protein_pct: item.crude_protein_pct?.toString() || "", tdn_pct: item.tdn_pct?.toString() || "", calcium_pct: item.calcium_pct?.toString() || "", phosphorus_pct: item.phosphorus_pct?.toString() || "", milk_withdrawal_days: item.milk_withdrawal_days?.toString() || "" }); setDialogOpen(true); }}>Edit</Button></div>) },
   ];
 
   return (
@@ -100,9 +103,18 @@ export default function InventoryPage() {
         <Card><CardContent className="pt-6"><div className="text-2xl font-bold">{consumption.filter(c => c.consumption_date === format(new Date(), "yyyy-MM-dd")).reduce((sum, c) => sum + c.quantity, 0)} kg</div><p className="text-sm text-muted-foreground">Today's Usage</p></CardContent></Card>
       </div>
 
-      {lowStockItems.length > 0 && (<Card className="border-destructive/30 bg-destructive/5"><CardContent className="pt-6"><div className="flex items-center gap-2 mb-3"><AlertTriangle className="h-5 w-5 text-destructive" /><h3 className="font-semibold">Low Stock Alert</h3></div><div className="flex flex-wrap gap-2">{lowStockItems.map((item) => (<Badge key={item.id} variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">{item.name}: {item.current_stock} {item.unit}</Badge>))}</div></CardContent></Card>)}
+      <Tabs defaultValue="stock" className="space-y-4">
+        <TabsList><TabsTrigger value="stock">Stock</TabsTrigger><TabsTrigger value="rations">Rations</TabsTrigger><TabsTrigger value="cost">Feed Cost</TabsTrigger></TabsList>
 
-      <DataTable data={items} columns={columns} loading={isLoading} searchPlaceholder="Search items..." emptyMessage="No inventory items. Add your first item." />
+        <TabsContent value="stock" className="space-y-6">
+          {lowStockItems.length > 0 && (<Card className="border-destructive/30 bg-destructive/5"><CardContent className="pt-6"><div className="flex items-center gap-2 mb-3"><AlertTriangle className="h-5 w-5 text-destructive" /><h3 className="font-semibold">Low Stock Alert</h3></div><div className="flex flex-wrap gap-2">{lowStockItems.map((item) => (<Badge key={item.id} variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">{item.name}: {item.current_stock} {item.unit}</Badge>))}</div></CardContent></Card>)}
+
+          <DataTable data={items} columns={columns} loading={isLoading} searchPlaceholder="Search items..." emptyMessage="No inventory items. Add your first item." />
+        </TabsContent>
+
+        <TabsContent value="rations"><RationPlanner /></TabsContent>
+        <TabsContent value="cost"><FeedCostReport /></TabsContent>
+      </Tabs>
 
       <ResponsiveDialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <ResponsiveDialogContent className="max-w-md">
@@ -110,7 +122,7 @@ export default function InventoryPage() {
           <div className="grid gap-4 py-4">
             <div className="space-y-2"><Label>Item Name *</Label><Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} placeholder="e.g., Green Grass" /></div>
             <div className="grid gap-4 grid-cols-2">
-              <div className="space-y-2"><Label>Category</Label><Select value={formData.category} onValueChange={(v) => setFormData({ ...formData, category: v })}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="green_fodder">Green Fodder</SelectItem><SelectItem value="dry_fodder">Dry Fodder</SelectItem><SelectItem value="concentrate">Concentrate</SelectItem><SelectItem value="supplement">Supplement</SelectItem><SelectItem value="medicine">Medicine</SelectItem></SelectContent></Select></div>
+              <div className="space-y-2"><Label>Category</Label><Select value={formData.category} onValueChange={(v) => setFormData({ ...formData, category: v })}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="green_fodder">Green Fodder</SelectItem><SelectItem value="dry_fodder">Dry Fodder</SelectItem><SelectItem value="concentrate">Concentrate</SelectItem><SelectItem value="supplement">Supplement</SelectItem><SelectItem value="medicine">Medicine</SelectItem><SelectItem value="dairy_supply">Dairy Supply</SelectItem></SelectContent></Select></div>
               <div className="space-y-2"><Label>Unit</Label><Select value={formData.unit} onValueChange={(v) => setFormData({ ...formData, unit: v })}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="kg">Kilogram</SelectItem><SelectItem value="quintal">Quintal</SelectItem><SelectItem value="liter">Liter</SelectItem><SelectItem value="piece">Piece</SelectItem><SelectItem value="bundle">Bundle</SelectItem></SelectContent></Select></div>
             </div>
             <div className="grid gap-4 grid-cols-2">
@@ -121,6 +133,27 @@ export default function InventoryPage() {
               <div className="space-y-2"><Label>Cost per Unit (₹)</Label><Input type="number" value={formData.cost_per_unit} onChange={(e) => setFormData({ ...formData, cost_per_unit: e.target.value })} placeholder="0" /></div>
               <div className="space-y-2"><Label>Supplier</Label><Input value={formData.supplier} onChange={(e) => setFormData({ ...formData, supplier: e.target.value })} placeholder="Supplier name" /></div>
             </div>
+            {formData.category === "medicine" ? (
+              <div className="space-y-2">
+                <Label>Milk Withdrawal (days)</Label>
+                <Input type="number" min="0" value={formData.milk_withdrawal_days} onChange={(e) => setFormData({ ...formData, milk_withdrawal_days: e.target.value })} placeholder="0" />
+                <p className="text-xs text-muted-foreground">Milk from a treated animal is withheld for this many days after the dose.</p>
+              </div>
+            ) : formData.category === "dairy_supply" ? (
+              <p className="text-xs text-muted-foreground">Culture, rennet, salt and other supplies used up in processing batches.</p>
+            ) : (
+              <div className="space-y-2">
+                <Label>Nutrients (%)</Label>
+                <div className="grid gap-2 grid-cols-5">
+                  <Input type="number" value={formData.dry_matter_pct} onChange={(e) => setFormData({ ...formData, dry_matter_pct: e.target.value })} placeholder="DM" aria-label="Dry matter %" />
+                  <Input type="number" value={formData.crude_protein_pct} onChange={(e) => setFormData({ ...formData, crude_protein_pct: e.target.value })} placeholder="CP" aria-label="Crude protein %" />
+                  <Input type="number" value={formData.tdn_pct} onChange={(e) => setFormData({ ...formData, tdn_pct: e.target.value })} placeholder="TDN" aria-label="TDN %" />
+                  <Input type="number" value={formData.calcium_pct} onChange={(e) => setFormData({ ...formData, calcium_pct: e.target.value })} placeholder="Ca" aria-label="Calcium %" />
+                  <Input type="number" value={formData.phosphorus_pct} onChange={(e) => setFormData({ ...formData, phosphorus_pct: e.target.value })} placeholder="P" aria-label="Phosphorus %" />
+                </div>
+                <p className="text-xs text-muted-foreground">DM as fed; CP, TDN, Ca and P on dry matter. Leave blank to use typical values for the category.</p>
+              </div>
+            )}
           </div>
           <div className="flex justify-end gap-2 pt-4 border-t"><Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button><Button onClick={handleSaveItem} disabled={isCreating || isUpdating}>{(isCreating || isUpdating) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {selectedItem ? "Update" : "Add"} Item</Button></div>
         </ResponsiveDialogContent>
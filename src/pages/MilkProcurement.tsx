@@ -4,6 +4,7 @@ import { externalSupabase as supabase } from "@/lib/external-supabase";
 import { invalidateProcurementRelated, invalidateExpenseRelated } from "@/lib/query-invalidation";
 import { useTelegramNotify } from "@/hooks/useTelegramNotify";
 import { useExpenseAutomation } from "@/hooks/useExpenseAutomation";
+import { calculateProcurementRate, formatAdjustment, type PriceRuleBase } from "@/lib/pricing-engine";
 import { PageHeader } from "@/components/common/PageHeader";
 import { DataTable } from "@/components/common/DataTable";
 import { DataFilters, DateRange, SortOrder, getDateFilterValue } from "@/components/common/DataFilters";
@@ -52,6 +53,19 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { VendorPaymentsDialog } from "@/components/procurement/VendorPaymentsDialog";
 import { ProcurementAnalytics } from "@/components/procurement/ProcurementAnalytics";
+import { VendorBillsPanel } from "@/components/procurement/VendorBillsPanel";
+import { VendorAdvancesPanel } from "@/components/procurement/VendorAdvancesPanel";
+import { BILL_CYCLES, BILL_CYCLE_LABELS } from "@/lib/vendor-billing";
+import { MilkTestFields } from "@/components/procurement/MilkTestFields";
+import { useMilkQualityThresholds } from "@/hooks/useCollectionTesting";
+import {
+  DEFAULT_MILK_QUALITY_THRESHOLDS,
+  QUALITY_STATUS_LABELS,
+  applyQualityToRate,
+  estimateWaterPercentage,
+  evaluateMilkQuality,
+  type QualityStatus,
+} from "@/lib/collection-testing";
 
 interface MilkVendor {
   id: string;
@@ -62,6 +76,8 @@ interface MilkVendor {
   is_active: boolean;
   notes: string | null;
   current_balance: number;
+  base_rate: number | null;
+  bill_cycle: string;
   created_at: string;
 }
 
@@ -81,7 +97,15 @@ interface MilkProcurement {
   quantity_liters: number;
   fat_percentage: number | null;
   snf_percentage: number | null;
+  clr: number | null;
+  temperature_c: number | null;
+  water_percentage: number | null;
+  mbrt_hours: number | null;
+  alcohol_test: string | null;
+  quality_status: string;
+  rejection_reason: string | null;
   rate_per_liter: number | null;
+  base_rate: number | null;
   total_amount: number | null;
   payment_status: string;
   notes: string | null;
@@ -94,6 +118,8 @@ interface VendorFormData {
   phone: string;
   address: string;
   area: string;
+  base_rate: string;
+  bill_cycle: string;
   notes: string;
 }
 
@@ -104,6 +130,11 @@ interface ProcurementFormData {
   quantity_liters: string;
   fat_percentage: string;
   snf_percentage: string;
+  clr: string;
+  temperature_c: string;
+  mbrt_hours: string;
+  alcohol_test: string;
+  base_rate: string;
   rate_per_liter: string;
   payment_status: string;
   payment_mode: string;
@@ -117,6 +148,8 @@ const emptyVendorForm: VendorFormData = {
   phone: "",
   address: "",
   area: "",
+  base_rate: "",
+  bill_cycle: "10_day",
   notes: "",
 };
 
@@ -127,6 +160,11 @@ const emptyProcurementForm: ProcurementFormData = {
   quantity_liters: "",
   fat_percentage: "",
   snf_percentage: "",
+  clr: "",
+  temperature_c: "",
+  mbrt_hours: "",
+  alcohol_test: "",
+  base_rate: "",
   rate_per_liter: "",
   payment_status: "pending",
   payment_mode: "cash",
@@ -142,9 +180,11 @@ const sortOptions = [
 ];
 
 export default function MilkProcurementPage() {
-  const [activeTab, setActiveTab] = useState<"records" | "vendors" | "analytics" | "payments">("records");
+  const [activeTab, setActiveTab] = useState<"records" | "vendors" | "analytics" | "payments" | "bills" | "advances">("records");
   const [vendors, setVendors] = useState<MilkVendor[]>([]);
   const [procurements, setProcurements] = useState<MilkProcurement[]>([]);
+  const [priceRules, setPriceRules] = useState<PriceRuleBase[]>([]);
+  const { data: qualityThresholds = DEFAULT_MILK_QUALITY_THRESHOLDS } = useMilkQualityThresholds();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -210,7 +250,7 @@ export default function MilkProcurementPage() {
 
   const fetchData = async () => {
     setLoading(true);
-    await Promise.all([fetchVendors(), fetchProcurements(), fetchRecentPayments(), fetchMonthlyPaidTotal()]);
+    await Promise.all([fetchVendors(), fetchProcurements(), fetchRecentPayments(), fetchMonthlyPaidTotal(), fetchPriceRules()]);
     setLoading(false);
   };
 
@@ -244,6 +284,17 @@ export default function MilkProcurementPage() {
     setPaymentsLoading(false);
   };
 
+  const fetchPriceRules = async () => {
+    const { data, error } = await supabase
+      .from("price_rules")
+      .select("*")
+      .eq("is_active", true);
+
+    if (!error) {
+      setPriceRules(data || []);
+    }
+  };
+
   const fetchVendors = async () => {
     const { data, error } = await supabase
       .from("milk_vendors")
@@ -295,9 +346,10 @@ export default function MilkProcurementPage() {
     } else {
       setProcurements(data || []);
 
-      // Calculate stats
-      const todayRecords = (data || []).filter((p) => p.procurement_date === today);
-      const monthRecords = (data || []).filter(
+      // Calculate stats; rejected milk was turned away and is not counted
+      const accepted = (data || []).filter((p) => p.quality_status !== "rejected");
+      const todayRecords = accepted.filter((p) => p.procurement_date === today);
+      const monthRecords = accepted.filter(
         (p) => p.procurement_date >= monthStart && p.procurement_date <= monthEnd
       );
       const todayTotal = todayRecords.reduce((sum, p) => sum + Number(p.quantity_liters), 0);
@@ -309,12 +361,12 @@ export default function MilkProcurementPage() {
         .filter(v => v.is_active && Number(v.current_balance) > 0)
         .reduce((sum, v) => sum + Number(v.current_balance), 0);
 
-      const fatRecords = (data || []).filter((p) => p.fat_percentage);
+      const fatRecords = accepted.filter((p) => p.fat_percentage);
       const avgFat = fatRecords.length
         ? fatRecords.reduce((sum, p) => sum + Number(p.fat_percentage), 0) / fatRecords.length
         : 0;
 
-      const rateRecords = (data || []).filter((p) => p.rate_per_liter);
+      const rateRecords = accepted.filter((p) => p.rate_per_liter);
       const avgRate = rateRecords.length
         ? rateRecords.reduce((sum, p) => sum + Number(p.rate_per_liter), 0) / rateRecords.length
         : 0;
@@ -340,6 +392,8 @@ export default function MilkProcurementPage() {
         phone: vendor.phone || "",
         address: vendor.address || "",
         area: vendor.area || "",
+        base_rate: vendor.base_rate ? String(vendor.base_rate) : "",
+        bill_cycle: vendor.bill_cycle,
         notes: vendor.notes || "",
       });
     } else {
@@ -365,6 +419,8 @@ export default function MilkProcurementPage() {
       phone: vendorForm.phone || null,
       address: vendorForm.address || null,
       area: vendorForm.area || null,
+      base_rate: vendorForm.base_rate ? parseFloat(vendorForm.base_rate) : null,
+      bill_cycle: vendorForm.bill_cycle,
       notes: vendorForm.notes || null,
     };
 
@@ -406,6 +462,11 @@ export default function MilkProcurementPage() {
         quantity_liters: String(procurement.quantity_liters),
         fat_percentage: procurement.fat_percentage ? String(procurement.fat_percentage) : "",
         snf_percentage: procurement.snf_percentage ? String(procurement.snf_percentage) : "",
+        clr: procurement.clr !== null ? String(procurement.clr) : "",
+        temperature_c: procurement.temperature_c !== null ? String(procurement.temperature_c) : "",
+        mbrt_hours: procurement.mbrt_hours !== null ? String(procurement.mbrt_hours) : "",
+        alcohol_test: procurement.alcohol_test || "",
+        base_rate: procurement.base_rate ? String(procurement.base_rate) : "",
         rate_per_liter: procurement.rate_per_liter ? String(procurement.rate_per_liter) : "",
         payment_status: procurement.payment_status,
         payment_mode: "cash",
@@ -420,6 +481,54 @@ export default function MilkProcurementPage() {
     setProcurementDialogOpen(true);
   };
 
+  // Rate is computed from the base rate + matching price rules whenever a base rate is set;
+  // otherwise the hand-typed rate is used as before
+  const priceBreakdown = useMemo(() => {
+    const baseRate = parseFloat(procurementForm.base_rate);
+    if (!baseRate || baseRate <= 0) return null;
+    const fat = procurementForm.fat_percentage ? parseFloat(procurementForm.fat_percentage) : null;
+    const snf = procurementForm.snf_percentage ? parseFloat(procurementForm.snf_percentage) : null;
+    return calculateProcurementRate(baseRate, fat, snf, priceRules);
+  }, [procurementForm.base_rate, procurementForm.fat_percentage, procurementForm.snf_percentage, priceRules]);
+
+  // Platform tests decide whether the milk is accepted, downgraded or rejected
+  const milkTest = useMemo(() => {
+    const num = (v: string) => (v ? parseFloat(v) : null);
+    const fat = num(procurementForm.fat_percentage);
+    const snf = num(procurementForm.snf_percentage);
+    const clr = num(procurementForm.clr);
+    const test = {
+      fat,
+      snf,
+      clr,
+      temperature: num(procurementForm.temperature_c),
+      water: estimateWaterPercentage({ fat, snf, clr }, qualityThresholds.standardSnf),
+      mbrt: num(procurementForm.mbrt_hours),
+      alcohol: (procurementForm.alcohol_test || null) as "pass" | "fail" | null,
+    };
+    return { test, result: evaluateMilkQuality(test, qualityThresholds) };
+  }, [procurementForm, qualityThresholds]);
+  const qualityStatus: QualityStatus = milkTest.result.status;
+
+  // A computed rate takes the downgrade cut automatically; a hand-typed one is
+  // expected to be the reduced rate already. Rejected milk is never paid for.
+  const effectiveRate = qualityStatus === "rejected"
+    ? 0
+    : priceBreakdown
+    ? applyQualityToRate(priceBreakdown.finalRate, qualityStatus, qualityThresholds)
+    : procurementForm.rate_per_liter
+    ? parseFloat(procurementForm.rate_per_liter)
+    : null;
+
+  const handleSelectProcurementVendor = (vendorId: string) => {
+    const vendor = vendors.find((v) => v.id === vendorId);
+    setProcurementForm({
+      ...procurementForm,
+      vendor_id: vendorId,
+      base_rate: vendor?.base_rate ? String(vendor.base_rate) : procurementForm.base_rate,
+    });
+  };
+
   const handleSaveProcurement = async () => {
     if (!procurementForm.vendor_id || !procurementForm.quantity_liters) {
       toast({
@@ -447,8 +556,8 @@ export default function MilkProcurementPage() {
 
     const vendor = vendors.find((v) => v.id === procurementForm.vendor_id);
     const quantity = parseFloat(procurementForm.quantity_liters);
-    const rate = procurementForm.rate_per_liter ? parseFloat(procurementForm.rate_per_liter) : null;
-    const totalAmount = rate ? quantity * rate : null;
+    const rate = effectiveRate;
+    const totalAmount = qualityStatus === "rejected" ? 0 : rate ? quantity * rate : null;
 
     const payload = {
       vendor_id: procurementForm.vendor_id,
@@ -462,7 +571,16 @@ export default function MilkProcurementPage() {
       snf_percentage: procurementForm.snf_percentage
         ? parseFloat(procurementForm.snf_percentage)
         : null,
+      clr: milkTest.test.clr,
+      temperature_c: milkTest.test.temperature,
+      water_percentage: milkTest.test.water,
+      mbrt_hours: milkTest.test.mbrt,
+      alcohol_test: milkTest.test.alcohol,
+      quality_status: qualityStatus,
+      rejection_reason: milkTest.result.reasons.length > 0 ? milkTest.result.reasons.join("; ") : null,
       rate_per_liter: rate,
+      base_rate: priceBreakdown ? priceBreakdown.baseRate : null,
+      applied_price_rules: priceBreakdown ? priceBreakdown.adjustments : [],
       total_amount: totalAmount,
       payment_status: procurementForm.payment_status,
       notes: procurementForm.notes || null,
@@ -775,6 +893,19 @@ export default function MilkProcurementPage() {
           ) : (
             <span className="text-muted-foreground">-</span>
           )}
+          {item.quality_status !== "accepted" && (
+            <Badge
+              variant="outline"
+              title={item.rejection_reason || undefined}
+              className={
+                item.quality_status === "rejected"
+                  ? "ml-2 bg-destructive/10 text-destructive border-destructive/20"
+                  : "ml-2 bg-warning/10 text-warning border-warning/20"
+              }
+            >
+              {QUALITY_STATUS_LABELS[item.quality_status as QualityStatus] || item.quality_status}
+            </Badge>
+          )}
         </div>
       ),
     },
@@ -937,11 +1068,13 @@ export default function MilkProcurementPage() {
       </div>
 
       {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "records" | "vendors" | "analytics" | "payments")}>
+      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "records" | "vendors" | "analytics" | "payments" | "bills" | "advances")}>
         <TabsList>
           <TabsTrigger value="records">Procurement Records</TabsTrigger>
           <TabsTrigger value="vendors">Vendors</TabsTrigger>
           <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="bills">Bills</TabsTrigger>
+          <TabsTrigger value="advances">Advances</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
 
@@ -1031,6 +1164,14 @@ export default function MilkProcurementPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="bills" className="mt-4">
+          <VendorBillsPanel onBillsChanged={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="advances" className="mt-4">
+          <VendorAdvancesPanel vendors={vendors.filter((v) => v.is_active)} onAdvancesChanged={fetchData} />
+        </TabsContent>
+
         <TabsContent value="analytics" className="mt-4">
           <ProcurementAnalytics />
         </TabsContent>
@@ -1079,6 +1220,37 @@ export default function MilkProcurementPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="vendor-base-rate">Base Rate (₹/L)</Label>
+              <Input
+                id="vendor-base-rate"
+                type="number"
+                step="0.01"
+                value={vendorForm.base_rate}
+                onChange={(e) => setVendorForm({ ...vendorForm, base_rate: e.target.value })}
+                placeholder="Before Fat/SNF adjustments"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Bill Cycle</Label>
+              <Select
+                value={vendorForm.bill_cycle}
+                onValueChange={(value) => setVendorForm({ ...vendorForm, bill_cycle: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BILL_CYCLES.map((cycle) => (
+                    <SelectItem key={cycle} value={cycle}>
+                      {BILL_CYCLE_LABELS[cycle]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="vendor-address">Address</Label>
               <Textarea
@@ -1134,7 +1306,7 @@ export default function MilkProcurementPage() {
                 <Label htmlFor="proc-vendor">Vendor *</Label>
                 <Select
                   value={procurementForm.vendor_id}
-                  onValueChange={(v) => setProcurementForm({ ...procurementForm, vendor_id: v })}
+                  onValueChange={handleSelectProcurementVendor}
                 >
                   <SelectTrigger id="proc-vendor">
                     <SelectValue placeholder="Select vendor" />
@@ -1247,21 +1419,83 @@ export default function MilkProcurementPage() {
               </div>
             </div>
 
+            <MilkTestFields
+              value={procurementForm}
+              onChange={(patch) => setProcurementForm({ ...procurementForm, ...patch })}
+              water={milkTest.test.water}
+              result={milkTest.result}
+              downgradeRatePct={priceBreakdown ? qualityThresholds.downgradeRatePct : null}
+            />
+
             <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="proc-base-rate">Base Rate (₹/L)</Label>
+                <Input
+                  id="proc-base-rate"
+                  type="number"
+                  step="0.01"
+                  value={procurementForm.base_rate}
+                  onChange={(e) =>
+                    setProcurementForm({ ...procurementForm, base_rate: e.target.value })
+                  }
+                  placeholder="Vendor base rate"
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="proc-rate">Rate per Liter (₹)</Label>
                 <Input
                   id="proc-rate"
                   type="number"
                   step="0.01"
-                  value={procurementForm.rate_per_liter}
+                  value={priceBreakdown ? (effectiveRate ?? 0).toFixed(2) : procurementForm.rate_per_liter}
                   onChange={(e) =>
                     setProcurementForm({ ...procurementForm, rate_per_liter: e.target.value })
                   }
+                  disabled={!!priceBreakdown}
                   placeholder="e.g. 45.00"
                 />
               </div>
+            </div>
 
+            {/* Price Rule Breakdown */}
+            {priceBreakdown && (
+              <div className="p-3 rounded-lg border border-border space-y-1.5">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Base Rate</span>
+                  <span>₹{priceBreakdown.baseRate.toFixed(2)}</span>
+                </div>
+                {priceBreakdown.adjustments.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No price rules match this Fat/SNF</p>
+                ) : (
+                  priceBreakdown.adjustments.map((adj) => (
+                    <div key={adj.rule_id} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {adj.name}{" "}
+                        <span className="text-xs">({formatAdjustment(adj.adjustment_type, adj.price_adjustment)})</span>
+                      </span>
+                      <span className={adj.amount_per_liter >= 0 ? "text-success" : "text-destructive"}>
+                        {adj.amount_per_liter >= 0 ? "+" : "-"}₹{Math.abs(adj.amount_per_liter).toFixed(2)}
+                      </span>
+                    </div>
+                  ))
+                )}
+                {qualityStatus !== "accepted" && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{QUALITY_STATUS_LABELS[qualityStatus]} milk</span>
+                    <span className="text-destructive">
+                      -₹{(priceBreakdown.finalRate - (effectiveRate ?? 0)).toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                <div className="border-t border-border pt-1.5 flex justify-between text-sm font-semibold">
+                  <span>Final Rate</span>
+                  <span>₹{(effectiveRate ?? 0).toFixed(2)}/L</span>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="proc-status">Payment Status</Label>
                 <Select
@@ -1343,10 +1577,10 @@ export default function MilkProcurementPage() {
             )}
 
             {/* Financial Summary Card */}
-            {procurementForm.quantity_liters && procurementForm.rate_per_liter && (
+            {procurementForm.quantity_liters && effectiveRate && (
               <div className="p-3 bg-muted rounded-lg space-y-2">
                 {(() => {
-                  const calcTotal = parseFloat(procurementForm.quantity_liters) * parseFloat(procurementForm.rate_per_liter);
+                  const calcTotal = parseFloat(procurementForm.quantity_liters) * effectiveRate;
                   const selectedVendorData = vendors.find((v) => v.id === procurementForm.vendor_id);
                   const currentDue = Number(selectedVendorData?.current_balance) || 0;
                   const paidAmount =
@@ -11,7 +11,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Percent, DollarSign, Droplets, Loader2 } from "lucide-react";
+import { Plus, Percent, DollarSign, Droplets, Loader2, RefreshCw } from "lucide-react";
+import { RepriceProcurementDialog } from "@/components/procurement/RepriceProcurementDialog";
 
 interface Product {
   id: string;
@@ -39,6 +40,7 @@ export default function PriceRulesPage() {
   const [rules, setRules] = useState<PriceRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [repriceOpen, setRepriceOpen] = useState(false);
   
   // Form states
   const [name, setName] = useState("");
@@ -204,6 +206,9 @@ export default function PriceRulesPage() {
         title="Quality-Based Pricing"
         description="Set price adjustments based on Fat and SNF percentages"
       >
+        <Button variant="outline" onClick={() => setRepriceOpen(true)}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Re-price Procurement
+        </Button>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
           <DialogTrigger asChild>
             <Button><Plus className="mr-2 h-4 w-4" /> Add Price Rule</Button>
@@ -229,6 +234,9 @@ export default function PriceRulesPage() {
                     ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground">
+                  Rules for all products also set milk procurement rates
+                </p>
               </div>
 
               <div className="rounded-lg border p-4 space-y-4">
@@ -340,7 +348,10 @@ export default function PriceRulesPage() {
       <Card>
         <CardHeader>
           <CardTitle>How Quality Pricing Works</CardTitle>
-          <CardDescription>Price adjustments are applied based on milk quality parameters</CardDescription>
+          <CardDescription>
+            Price adjustments are applied based on milk quality parameters. Procurement entries add every
+            matching all-product rule to the vendor&apos;s base rate.
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-3">
@@ -373,6 +384,8 @@ export default function PriceRulesPage() {
           <DataTable data={rules} columns={columns} searchable searchPlaceholder="Search rules..." />
         </CardContent>
       </Card>
+
+      <RepriceProcurementDialog open={repriceOpen} onOpenChange={setRepriceOpen} />
     </div>
   );
 }
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { format, parseISO, startOfMonth } from "date-fns";
+import { PageHeader } from "@/components/common/PageHeader";
+import { ConfirmDialog } from "@/components/common/ConfirmDialog";
+import { ProcessingBatchDialog } from "@/components/processing/ProcessingBatchDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  useDeleteProcessingBatch,
+  useProcessingBatches,
+  useRecordProcessingBatch,
+  type ProcessingBatch,
+} from "@/hooks/useProcessingBatches";
+import { expectedYieldPercentage, getExpiryStatus, yieldPercentage, type ExpiryStatus } from "@/lib/dairy-processing";
+import { Factory, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const expiryBadgeClasses: Record<ExpiryStatus, string> = {
+  fresh: "bg-success/10 text-success border-success/20",
+  expiring: "bg-warning/10 text-warning border-warning/20",
+  expired: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export default function ProcessingPage() {
+  const { data, isLoading } = useProcessingBatches();
+  const recordBatch = useRecordProcessingBatch();
+  const deleteBatch = useDeleteProcessingBatch();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<ProcessingBatch | null>(null);
+
+  const monthStart = format(startOfMonth(new Date()), "yyyy-MM-dd");
+  const monthBatches = data?.batches.filter((b) => b.batch_date >= monthStart) || [];
+  const expiring = data?.batches.filter((b) => getExpiryStatus(b.expires_on) === "expiring") || [];
+  const stocked = data?.products.filter((p) => p.stock_quantity !== null) || [];
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Dairy Processing"
+        description="Turn milk into curd, paneer, butter and ghee"
+        icon={Factory}
+        action={{
+          label: "New Batch",
+          onClick: () => setDialogOpen(true),
+        }}
+      />
+
+      {isLoading || !data ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+            <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Milk Processed This Month</p>
+                <p className="text-2xl font-bold text-primary">
+                  {monthBatches.reduce((sum, b) => sum + b.milk_liters, 0).toLocaleString()} L
+                </p>
+                <p className="text-xs text-muted-foreground">{monthBatches.length} batches</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Production Cost This Month</p>
+                <p className="text-2xl font-bold">
+                  ₹{monthBatches.reduce((sum, b) => sum + b.total_cost, 0).toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Expiring Soon</p>
+                <p className={cn("text-2xl font-bold", expiring.length > 0 && "text-warning")}>{expiring.length}</p>
+                <p className="text-xs text-muted-foreground">Batches</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Finished Stock</CardTitle>
+              <CardDescription>Added by batches and taken by deliveries and add-on orders</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stocked.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Stock is tracked for a product from its first batch
+                </p>
+              ) : (
+                <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+                  {stocked.map((p) => (
+                    <div key={p.id} className="rounded-lg border p-3">
+                      <p className="text-sm text-muted-foreground">{p.name}</p>
+                      <p className={cn("text-xl font-bold", (p.stock_quantity ?? 0) <= 0 && "text-destructive")}>
+                        {Number(p.stock_quantity)} <span className="text-sm font-normal">{p.unit}</span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Batches</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.batches.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No batches recorded</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Milk</TableHead>
+                      <TableHead className="text-right">Output</TableHead>
+                      <TableHead className="text-right">Yield</TableHead>
+                      <TableHead className="text-right">Cost / Unit</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.batches.map((b) => {
+                      const actual = yieldPercentage(b.output_quantity, b.milk_liters);
+                      const expected = expectedYieldPercentage(b.milk_equivalent_liters);
+                      const expiry = getExpiryStatus(b.expires_on);
+                      return (
+                        <TableRow key={b.id}>
+                          <TableCell className="whitespace-nowrap">
+                            <span className="font-medium">{b.batch_number}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {format(parseISO(b.batch_date), "dd MMM yyyy")}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {b.product_name}
+                            {b.inputs.length > 0 && (
+                              <span className="block text-xs text-muted-foreground">
+                                {b.inputs.map((i) => `${i.name} ${i.quantity} ${i.unit}`).join(", ")}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{b.milk_liters} L</TableCell>
+                          <TableCell className="text-right">
+                            {b.output_quantity} {b.product_unit}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <span className={cn(expected !== null && actual !== null && actual < expected * 0.9 && "text-warning")}>
+                              {actual ?? "-"}%
+                            </span>
+                            {expected !== null && (
+                              <span className="block text-xs text-muted-foreground">of {expected}%</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            ₹{b.cost_per_unit.toLocaleString()}
+                            <span className="block text-xs text-muted-foreground">₹{b.total_cost.toLocaleString()} total</span>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {b.expires_on && expiry ? (
+                              <Badge variant="outline" className={expiryBadgeClasses[expiry]}>
+                                {format(parseISO(b.expires_on), "dd MMM")}
+                              </Badge>
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => setDeleting(b)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <ProcessingBatchDialog
+            open={dialogOpen}
+            onOpenChange={setDialogOpen}
+            products={data.products}
+            supplies={data.supplies}
+            milkRate={data.milkRate}
+            batchNumbers={data.batches.map((b) => b.batch_number)}
+            saving={recordBatch.isPending}
+            onSave={(formData) => recordBatch.mutate(formData, { onSuccess: () => setDialogOpen(false) })}
+          />
+        </>
+      )}
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(o) => !o && setDeleting(null)}
+        title="Delete Batch?"
+        description={`${deleting?.batch_number} will be removed, its ${deleting?.output_quantity} ${deleting?.product_unit} taken back out of stock and its supplies returned to inventory.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => deleting && deleteBatch.mutate(deleting.id, { onSuccess: () => setDeleting(null) })}
+      />
+    </div>
+  );
+}
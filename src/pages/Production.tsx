@@ -21,8 +21,11 @@ import {
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { MilkHistoryDialog } from "@/components/production/MilkHistoryDialog";
-import { Droplets, Sun, Moon, Loader2, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Droplets, Sun, Moon, Loader2, History, AlertTriangle } from "lucide-react";
 import { format } from "date-fns";
+import { getActiveWithdrawal, splitMilk, type WithdrawalWindow } from "@/lib/milk-withdrawal";
+import { cn } from "@/lib/utils";
 
 interface Cattle {
   id: string;
@@ -39,6 +42,7 @@ interface MilkProduction {
   fat_percentage: number | null;
   snf_percentage: number | null;
   quality_notes: string | null;
+  is_withheld: boolean;
   cattle?: Cattle;
 }
 
@@ -62,6 +66,7 @@ export default function ProductionPage() {
   const [selectedDate, setSelectedDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [session, setSession] = useState<"morning" | "evening">("morning");
   const [entries, setEntries] = useState<Record<string, { quantity: string; fat: string; snf: string; notes: string }>>({});
+  const [withdrawals, setWithdrawals] = useState<WithdrawalWindow[]>([]);
   const { toast } = useToast();
   const { notifyProductionRecorded } = useTelegramNotify();
   const queryClient = useQueryClient();
@@ -86,6 +91,18 @@ export default function ProductionPage() {
     }
   }, [searchParams, dateRange, sortBy, sortOrder]);
 
+  // Treatment withdrawal windows covering the date being recorded
+  useEffect(() => {
+    if (!dialogOpen || !selectedDate) return;
+    supabase
+      .from("cattle_health")
+      .select("cattle_id, record_date, withdrawal_until, title")
+      .not("withdrawal_until", "is", null)
+      .lte("record_date", selectedDate)
+      .gte("withdrawal_until", selectedDate)
+      .then(({ data }) => setWithdrawals((data as WithdrawalWindow[]) || []));
+  }, [dialogOpen, selectedDate]);
+
   const fetchData = async () => {
     setLoading(true);
     
@@ -211,10 +228,14 @@ export default function ProductionPage() {
       
       // Send Telegram notification
       const totalQuantity = records.reduce((sum, r) => sum + r.quantity_liters, 0);
+      const discardedQuantity = records
+        .filter((r) => getActiveWithdrawal(withdrawals, r.cattle_id, selectedDate))
+        .reduce((sum, r) => sum + r.quantity_liters, 0);
       notifyProductionRecorded({
         session: session,
         quantity: totalQuantity,
         cattle_count: records.length,
+        discarded: discardedQuantity || undefined,
       });
       
       setDialogOpen(false);
@@ -238,9 +259,19 @@ export default function ProductionPage() {
     setHistoryDialogOpen(true);
   };
 
-  const todayTotal = productions
-    .filter((p) => p.production_date === format(new Date(), "yyyy-MM-dd"))
-    .reduce((sum, p) => sum + Number(p.quantity_liters), 0);
+  const todaySplit = splitMilk(productions.filter((p) => p.production_date === format(new Date(), "yyyy-MM-dd")));
+  const todayTotal = todaySplit.total;
+
+  const entryTotals = Object.entries(entries).reduce(
+    (totals, [cattleId, e]) => {
+      const litres = parseFloat(e.quantity) || 0;
+      totals.total += litres;
+      if (getActiveWithdrawal(withdrawals, cattleId, selectedDate)) totals.withheld += litres;
+      return totals;
+    },
+    { total: 0, withheld: 0 }
+  );
+  const withheldCattle = cattle.filter((c) => getActiveWithdrawal(withdrawals, c.id, selectedDate));
 
   const morningTotal = productions
     .filter((p) => p.production_date === format(new Date(), "yyyy-MM-dd") && p.session === "morning")
@@ -294,7 +325,14 @@ export default function ProductionPage() {
       key: "quantity_liters",
       header: "Quantity",
       render: (item: ProductionWithCattle) => (
-        <span className="font-semibold">{Number(item.quantity_liters).toFixed(2)} L</span>
+        <div className="flex items-center gap-2">
+          <span className={cn("font-semibold", item.is_withheld && "text-muted-foreground line-through")}>
+            {Number(item.quantity_liters).toFixed(2)} L
+          </span>
+          {item.is_withheld && (
+            <Badge variant="outline" className="text-destructive border-destructive/30">Discarded</Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -332,7 +370,11 @@ export default function ProductionPage() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Today's Total</p>
                 <p className="text-3xl font-bold text-info">{todayTotal.toFixed(2)} L</p>
-                <p className="text-xs text-muted-foreground mt-1">Click to view history</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {todaySplit.discarded > 0
+                    ? `${todaySplit.saleable.toFixed(2)} L saleable · ${todaySplit.discarded.toFixed(2)} L discarded`
+                    : "Click to view history"}
+                </p>
               </div>
               <div className="flex h-12 w-12 items-center justify-center rounded-full bg-info/20">
                 <Droplets className="h-6 w-6 text-info" />
@@ -430,6 +472,16 @@ export default function ProductionPage() {
               </div>
             </div>
 
+            {withheldCattle.length > 0 && (
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                <span>
+                  {withheldCattle.map((c) => c.tag_number).join(", ")} {withheldCattle.length === 1 ? "is" : "are"} under
+                  treatment withdrawal. Their milk is recorded as discarded and must not go into the sale tank.
+                </span>
+              </div>
+            )}
+
             {cattle.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 No lactating cattle found. Add cattle with lactating status first.
@@ -445,84 +497,92 @@ export default function ProductionPage() {
                   <div className="col-span-3">Notes</div>
                 </div>
                 {/* Mobile: Card layout, Desktop: Grid layout */}
-                {cattle.map((c) => (
-                  <div key={c.id} className="sm:grid sm:grid-cols-12 gap-2 items-center p-2 rounded-lg hover:bg-muted/50 space-y-2 sm:space-y-0 border sm:border-0 mb-2 sm:mb-0">
-                    <div className="sm:col-span-3 flex items-center justify-between sm:justify-start gap-2">
-                      <div>
-                        <span className="font-medium">{c.tag_number}</span>
-                        {c.name && <span className="text-muted-foreground ml-1">({c.name})</span>}
+                {cattle.map((c) => {
+                  const withdrawal = getActiveWithdrawal(withdrawals, c.id, selectedDate);
+                  return (
+                    <div key={c.id} className={cn("sm:grid sm:grid-cols-12 gap-2 items-center p-2 rounded-lg hover:bg-muted/50 space-y-2 sm:space-y-0 border sm:border-0 mb-2 sm:mb-0", withdrawal && "bg-destructive/5")}>
+                      <div className="sm:col-span-3 flex items-center justify-between sm:justify-start gap-2">
+                        <div>
+                          <span className="font-medium">{c.tag_number}</span>
+                          {c.name && <span className="text-muted-foreground ml-1">({c.name})</span>}
+                          {withdrawal && (
+                            <p className="text-xs text-destructive" title={withdrawal.title}>
+                              Withheld until {format(new Date(withdrawal.withdrawal_until), "dd MMM")}
+                            </p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => handleOpenCattleHistory(c.id, `${c.tag_number}${c.name ? ` (${c.name})` : ""}`)}
+                        >
+                          <History className="h-3 w-3" />
+                        </Button>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6"
-                        onClick={() => handleOpenCattleHistory(c.id, `${c.tag_number}${c.name ? ` (${c.name})` : ""}`)}
-                      >
-                        <History className="h-3 w-3" />
-                      </Button>
-                    </div>
-                    <div className="sm:col-span-2">
-                      <Label className="sm:hidden text-xs text-muted-foreground">Quantity (L)</Label>
-                      <Input
-                        type="number"
-                        step="0.1"
-                        placeholder="0.0"
-                        value={entries[c.id]?.quantity || ""}
-                        onChange={(e) =>
-                          setEntries({
-                            ...entries,
-                            [c.id]: { ...entries[c.id], quantity: e.target.value },
-                          })
-                        }
-                      />
-                    </div>
-                    <div className="grid grid-cols-2 gap-2 sm:contents">
                       <div className="sm:col-span-2">
-                        <Label className="sm:hidden text-xs text-muted-foreground">Fat %</Label>
+                        <Label className="sm:hidden text-xs text-muted-foreground">Quantity (L)</Label>
                         <Input
                           type="number"
                           step="0.1"
                           placeholder="0.0"
-                          value={entries[c.id]?.fat || ""}
+                          value={entries[c.id]?.quantity || ""}
                           onChange={(e) =>
                             setEntries({
                               ...entries,
-                              [c.id]: { ...entries[c.id], fat: e.target.value },
+                              [c.id]: { ...entries[c.id], quantity: e.target.value },
                             })
                           }
                         />
                       </div>
-                      <div className="sm:col-span-2">
-                        <Label className="sm:hidden text-xs text-muted-foreground">SNF %</Label>
+                      <div className="grid grid-cols-2 gap-2 sm:contents">
+                        <div className="sm:col-span-2">
+                          <Label className="sm:hidden text-xs text-muted-foreground">Fat %</Label>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder="0.0"
+                            value={entries[c.id]?.fat || ""}
+                            onChange={(e) =>
+                              setEntries({
+                                ...entries,
+                                [c.id]: { ...entries[c.id], fat: e.target.value },
+                              })
+                            }
+                          />
+                        </div>
+                        <div className="sm:col-span-2">
+                          <Label className="sm:hidden text-xs text-muted-foreground">SNF %</Label>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder="0.0"
+                            value={entries[c.id]?.snf || ""}
+                            onChange={(e) =>
+                              setEntries({
+                                ...entries,
+                                [c.id]: { ...entries[c.id], snf: e.target.value },
+                              })
+                            }
+                          />
+                        </div>
+                      </div>
+                      <div className="sm:col-span-3">
+                        <Label className="sm:hidden text-xs text-muted-foreground">Notes</Label>
                         <Input
-                          type="number"
-                          step="0.1"
-                          placeholder="0.0"
-                          value={entries[c.id]?.snf || ""}
+                          placeholder="Notes"
+                          value={entries[c.id]?.notes || ""}
                           onChange={(e) =>
                             setEntries({
                               ...entries,
-                              [c.id]: { ...entries[c.id], snf: e.target.value },
+                              [c.id]: { ...entries[c.id], notes: e.target.value },
                             })
                           }
                         />
                       </div>
                     </div>
-                    <div className="sm:col-span-3">
-                      <Label className="sm:hidden text-xs text-muted-foreground">Notes</Label>
-                      <Input
-                        placeholder="Notes"
-                        value={entries[c.id]?.notes || ""}
-                        onChange={(e) =>
-                          setEntries({
-                            ...entries,
-                            [c.id]: { ...entries[c.id], notes: e.target.value },
-                          })
-                        }
-                      />
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -531,11 +591,12 @@ export default function ProductionPage() {
             <p className="text-sm text-muted-foreground">
               Total:{" "}
               <span className="font-semibold text-foreground">
-                {Object.values(entries)
-                  .reduce((sum, e) => sum + (parseFloat(e.quantity) || 0), 0)
-                  .toFixed(1)}{" "}
+                {entryTotals.total.toFixed(1)}{" "}
                 L
               </span>
+              {entryTotals.withheld > 0 && (
+                <span className="text-destructive"> ({entryTotals.withheld.toFixed(1)} L discarded)</span>
+              )}
             </p>
             <div className="flex gap-2 w-full sm:w-auto">
               <Button variant="outline" onClick={() => setDialogOpen(false)} className="flex-1 sm:flex-none">
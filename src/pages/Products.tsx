@@ -25,6 +25,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Milk, Edit, Trash2, Plus, Loader2, IndianRupee, AlertTriangle, EyeOff } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { TAX_CLASS_OPTIONS, DEFAULT_HSN_BY_CATEGORY } from "@/lib/gst";
+import { defaultMilkEquivalent } from "@/lib/milk-balance";
 
 interface Product {
   id: string;
@@ -33,6 +35,10 @@ interface Product {
   unit: string;
   base_price: number;
   tax_percentage: number | null;
+  hsn_code: string | null;
+  tax_class: string;
+  milk_equivalent_liters: number | null;
+  stock_quantity: number | null;
   is_active: boolean;
   description: string | null;
   created_at: string;
@@ -51,6 +57,9 @@ const emptyFormData = {
   unit: "liter",
   base_price: "",
   tax_percentage: "",
+  hsn_code: DEFAULT_HSN_BY_CATEGORY.milk,
+  tax_class: "exempt",
+  milk_equivalent_liters: "1",
   description: "",
 };
 
@@ -139,6 +148,9 @@ export default function ProductsPage() {
         unit: product.unit,
         base_price: product.base_price.toString(),
         tax_percentage: product.tax_percentage?.toString() || "",
+        hsn_code: product.hsn_code || "",
+        tax_class: product.tax_class || "taxable",
+        milk_equivalent_liters: product.milk_equivalent_liters?.toString() ?? "",
         description: product.description || "",
       });
     } else {
@@ -148,6 +160,15 @@ export default function ProductsPage() {
     setDialogOpen(true);
   };
 
+  // Suggest the usual yield unless a different figure was typed in
+  const suggestMilkEquivalent = (category: string, unit: string) => {
+    const current = defaultMilkEquivalent(formData.category, formData.unit);
+    if (formData.milk_equivalent_liters && parseFloat(formData.milk_equivalent_liters) !== current) {
+      return formData.milk_equivalent_liters;
+    }
+    return defaultMilkEquivalent(category, unit)?.toString() ?? "";
+  };
+
   const handleSave = async () => {
     if (!formData.name || !formData.base_price) {
       toast({
@@ -164,7 +185,12 @@ export default function ProductsPage() {
       category: formData.category,
       unit: formData.unit,
       base_price: parseFloat(formData.base_price),
-      tax_percentage: formData.tax_percentage ? parseFloat(formData.tax_percentage) : null,
+      tax_percentage: formData.tax_class === "taxable" && formData.tax_percentage
+        ? parseFloat(formData.tax_percentage)
+        : null,
+      hsn_code: formData.hsn_code.trim() || null,
+      tax_class: formData.tax_class,
+      milk_equivalent_liters: formData.milk_equivalent_liters ? parseFloat(formData.milk_equivalent_liters) : null,
       description: formData.description || null,
     };
 
@@ -386,7 +412,24 @@ export default function ProductsPage() {
                       </div>
                       {product.tax_percentage && product.tax_percentage > 0 && (
                         <p className="text-xs text-muted-foreground mt-1">
-                          + {product.tax_percentage}% tax
+                          + {product.tax_percentage}% GST
+                        </p>
+                      )}
+                      {product.hsn_code && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          HSN {product.hsn_code}
+                          {product.tax_class !== "taxable" &&
+                            ` · ${TAX_CLASS_OPTIONS.find((o) => o.value === product.tax_class)?.label || product.tax_class}`}
+                        </p>
+                      )}
+                      {product.stock_quantity !== null && (
+                        <p
+                          className={cn(
+                            "text-xs mt-1",
+                            product.stock_quantity > 0 ? "text-muted-foreground" : "text-destructive"
+                          )}
+                        >
+                          {product.stock_quantity} {product.unit} in stock
                         </p>
                       )}
                       {product.description && (
@@ -441,7 +484,16 @@ export default function ProductsPage() {
                 <Select
                   value={formData.category}
                   onValueChange={(v) =>
-                    setFormData({ ...formData, category: v })
+                    setFormData({
+                      ...formData,
+                      category: v,
+                      milk_equivalent_liters: suggestMilkEquivalent(v, formData.unit),
+                      // Suggest the usual HSN heading unless one was typed in
+                      hsn_code:
+                        !formData.hsn_code || Object.values(DEFAULT_HSN_BY_CATEGORY).includes(formData.hsn_code)
+                          ? DEFAULT_HSN_BY_CATEGORY[v] || formData.hsn_code
+                          : formData.hsn_code,
+                    })
                   }
                 >
                   <SelectTrigger>
@@ -462,7 +514,7 @@ export default function ProductsPage() {
                 <Select
                   value={formData.unit}
                   onValueChange={(v) =>
-                    setFormData({ ...formData, unit: v })
+                    setFormData({ ...formData, unit: v, milk_equivalent_liters: suggestMilkEquivalent(formData.category, v) })
                   }
                 >
                   <SelectTrigger>
@@ -494,12 +546,13 @@ export default function ProductsPage() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="tax_percentage">Tax %</Label>
+                <Label htmlFor="tax_percentage">GST Rate %</Label>
                 <Input
                   id="tax_percentage"
                   type="number"
                   step="0.5"
-                  value={formData.tax_percentage}
+                  value={formData.tax_class === "taxable" ? formData.tax_percentage : ""}
+                  disabled={formData.tax_class !== "taxable"}
                   onChange={(e) =>
                     setFormData({ ...formData, tax_percentage: e.target.value })
                   }
@@ -508,6 +561,56 @@ export default function ProductsPage() {
               </div>
             </div>
 
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="hsn_code">HSN Code</Label>
+                <Input
+                  id="hsn_code"
+                  value={formData.hsn_code}
+                  onChange={(e) =>
+                    setFormData({ ...formData, hsn_code: e.target.value.replace(/\D/g, "").slice(0, 8) })
+                  }
+                  placeholder="e.g., 0401"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax_class">Tax Class</Label>
+                <Select
+                  value={formData.tax_class}
+                  onValueChange={(v) =>
+                    setFormData({ ...formData, tax_class: v })
+                  }
+                >
+                  <SelectTrigger id="tax_class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAX_CLASS_OPTIONS.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="milk_equivalent">Milk per {formData.unit} (L)</Label>
+              <Input
+                id="milk_equivalent"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.milk_equivalent_liters}
+                onChange={(e) =>
+                  setFormData({ ...formData, milk_equivalent_liters: e.target.value })
+                }
+                placeholder="Leave blank if not made from milk"
+              />
+              <p className="text-xs text-muted-foreground">
+                Raw milk used to make one {formData.unit}; sales are converted back to milk with this in the milk balance
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="description">Description</Label>
               <Textarea
@@ -0,0 +1,427 @@
+import { useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { externalSupabase as supabase } from "@/lib/external-supabase";
+import { invalidateBillingRelated } from "@/lib/query-invalidation";
+import { getInvoiceBalance } from "@/lib/invoice-helpers";
+import { HIGH_CONFIDENCE_SCORE, matchConfidence } from "@/lib/statement-reconciliation";
+import { useToast } from "@/hooks/use-toast";
+import { usePaymentPosting, type PayableInvoice } from "@/hooks/usePaymentPosting";
+import { PageHeader } from "@/components/common/PageHeader";
+import { DataTable } from "@/components/common/DataTable";
+import { StatementImportCard } from "@/components/billing/StatementImportCard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Landmark, Check, EyeOff, Loader2, CheckCheck } from "lucide-react";
+
+interface StatementLineRow {
+  id: string;
+  transaction_date: string;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+  status: string;
+  customer_id: string | null;
+  invoice_id: string | null;
+  payment_id: string | null;
+  match_score: number | null;
+  match_reasons: string[] | null;
+  statement: { source: string; file_name: string } | null;
+  customer: { name: string } | null;
+}
+
+interface CustomerOption {
+  id: string;
+  name: string;
+}
+
+interface InvoiceOption extends PayableInvoice {
+  customer_id: string;
+}
+
+interface Assignment {
+  customer_id: string | null;
+  invoice_id: string | null;
+}
+
+const NO_INVOICE = "__none__";
+
+const confidenceStyles = {
+  high: "bg-success/10 text-success border-success/30",
+  medium: "bg-warning/10 text-warning border-warning/30",
+  low: "bg-muted text-muted-foreground",
+};
+
+export default function ReconciliationPage() {
+  const [lines, setLines] = useState<StatementLineRow[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceOption[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, Assignment>>({});
+  const [tab, setTab] = useState("suggested");
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState<string | null>(null);
+  const [bulkConfirming, setBulkConfirming] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { recordPayment, verifyPendingPayment } = usePaymentPosting();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    const [linesRes, customersRes, invoicesRes] = await Promise.all([
+      supabase
+        .from("bank_statement_lines")
+        .select(`
+          id, transaction_date, description, reference, amount, status,
+          customer_id, invoice_id, payment_id, match_score, match_reasons,
+          statement:import_id (source, file_name),
+          customer:customer_id (name)
+        `)
+        .order("transaction_date", { ascending: false })
+        .limit(1000),
+      supabase.from("customers").select("id, name").eq("is_active", true).order("name"),
+      supabase
+        .from("invoices")
+        .select("id, invoice_number, customer_id, final_amount, paid_amount, payment_status, due_date")
+        .neq("payment_status", "paid")
+        .order("due_date"),
+    ]);
+
+    setLines((linesRes.data as StatementLineRow[]) || []);
+    setCustomers(customersRes.data || []);
+    setInvoices(invoicesRes.data || []);
+    setAssignments({});
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const assignmentFor = (line: StatementLineRow): Assignment =>
+    assignments[line.id] || { customer_id: line.customer_id, invoice_id: line.invoice_id };
+
+  const updateAssignment = (lineId: string, value: Assignment) =>
+    setAssignments((prev) => ({ ...prev, [lineId]: value }));
+
+  /**
+   * Post the payment for a line and mark it matched.
+   * Returns an error message instead of toasting so bulk confirm can summarise.
+   */
+  const confirmLine = async (line: StatementLineRow): Promise<string | null> => {
+    const { customer_id, invoice_id } = assignmentFor(line);
+    if (!customer_id) return "Choose a customer first";
+
+    const invoice = invoices.find((i) => i.id === invoice_id) || null;
+    let paymentId = line.payment_id;
+    let postingError: string | null = null;
+
+    // A UTR a customer already submitted is verified in place, moving it to
+    // the chosen customer if needed; posting a second payment would clash
+    // with it on the UPI reference
+    if (!paymentId && line.reference) {
+      const { data: pending, error } = await supabase
+        .from("payments")
+        .select("id")
+        .eq("payment_mode", "upi")
+        .eq("reference_number", line.reference)
+        .eq("status", "pending")
+        .maybeSingle();
+      if (error) return error.message;
+      paymentId = pending?.id || null;
+    }
+
+    if (paymentId) {
+      const error = await verifyPendingPayment({
+        id: paymentId,
+        customer_id,
+        amount: Number(line.amount),
+        payment_date: line.transaction_date,
+        reference_number: line.reference,
+        invoice,
+      });
+      if (error) return error;
+    } else {
+      const result = await recordPayment({
+        customerId: customer_id,
+        invoice,
+        amount: Number(line.amount),
+        paymentDate: line.transaction_date,
+        paymentMode: line.statement?.source === "upi" ? "upi" : "bank_transfer",
+        reference: line.reference,
+        notes: `Statement: ${line.description || ""}`.trim(),
+      });
+      if (!result.paymentId) return result.error;
+      paymentId = result.paymentId;
+      // The payment row exists even if the invoice/ledger step failed, so
+      // still mark the line matched to stop it being posted twice
+      postingError = result.error;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from("bank_statement_lines")
+      .update({
+        status: "matched",
+        customer_id,
+        invoice_id: invoice?.id || null,
+        payment_id: paymentId,
+        matched_by: user?.id || null,
+        matched_at: new Date().toISOString(),
+      })
+      .eq("id", line.id);
+
+    return postingError || error?.message || null;
+  };
+
+  const handleConfirm = async (line: StatementLineRow) => {
+    setProcessing(line.id);
+    const error = await confirmLine(line);
+    setProcessing(null);
+
+    if (error) {
+      toast({ title: "Could not post payment", description: error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Payment posted", description: `₹${Number(line.amount).toLocaleString("en-IN")} recorded` });
+    invalidateBillingRelated(queryClient);
+    fetchData();
+  };
+
+  const handleConfirmHighConfidence = async () => {
+    const candidates = lines.filter(
+      (l) => l.status === "suggested" && (l.match_score || 0) >= HIGH_CONFIDENCE_SCORE && !assignments[l.id]
+    );
+    if (candidates.length === 0) return;
+
+    setBulkConfirming(true);
+    let posted = 0;
+    const failures: string[] = [];
+    // Sequential: each payment reads the invoice balance the previous one left
+    for (const line of candidates) {
+      const error = await confirmLine(line);
+      if (error) failures.push(`${line.reference || line.transaction_date}: ${error}`);
+      else posted++;
+    }
+    setBulkConfirming(false);
+
+    toast({
+      title: `${posted} payments posted`,
+      description: failures.length > 0 ? `${failures.length} failed — ${failures[0]}` : undefined,
+      variant: failures.length > 0 ? "destructive" : undefined,
+    });
+    invalidateBillingRelated(queryClient);
+    fetchData();
+  };
+
+  const handleIgnore = async (line: StatementLineRow) => {
+    setProcessing(line.id);
+    const { error } = await supabase
+      .from("bank_statement_lines")
+      .update({ status: "ignored" })
+      .eq("id", line.id);
+    setProcessing(null);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      fetchData();
+    }
+  };
+
+  const counts = {
+    suggested: lines.filter((l) => l.status === "suggested").length,
+    unmatched: lines.filter((l) => l.status === "unmatched").length,
+    matched: lines.filter((l) => l.status === "matched").length,
+    ignored: lines.filter((l) => l.status === "ignored").length,
+  };
+  const highConfidenceCount = lines.filter(
+    (l) => l.status === "suggested" && (l.match_score || 0) >= HIGH_CONFIDENCE_SCORE
+  ).length;
+  const visibleLines = lines.filter((l) => l.status === tab);
+  const isOpen = tab === "suggested" || tab === "unmatched";
+
+  const columns = [
+    {
+      key: "transaction_date",
+      header: "Date",
+      render: (line: StatementLineRow) => (
+        <span className="text-sm whitespace-nowrap">{format(new Date(line.transaction_date), "dd MMM yyyy")}</span>
+      ),
+    },
+    {
+      key: "description",
+      header: "Narration",
+      render: (line: StatementLineRow) => (
+        <div className="max-w-xs">
+          <p className="text-sm truncate" title={line.description || ""}>{line.description || "-"}</p>
+          {line.reference && <p className="text-xs font-mono text-muted-foreground">{line.reference}</p>}
+        </div>
+      ),
+    },
+    {
+      key: "amount",
+      header: "Amount",
+      render: (line: StatementLineRow) => (
+        <span className="font-semibold whitespace-nowrap">₹{Number(line.amount).toLocaleString("en-IN")}</span>
+      ),
+    },
+    {
+      key: "customer",
+      header: "Customer / Invoice",
+      render: (line: StatementLineRow) => {
+        if (!isOpen) {
+          return <span className="text-sm">{line.customer?.name || "-"}</span>;
+        }
+        const assignment = assignmentFor(line);
+        const customerInvoices = invoices.filter((i) => i.customer_id === assignment.customer_id);
+        return (
+          <div className="flex flex-col gap-1 min-w-[200px]">
+            <Select
+              value={assignment.customer_id || ""}
+              onValueChange={(v) => {
+                const first = invoices.find((i) => i.customer_id === v);
+                updateAssignment(line.id, { customer_id: v, invoice_id: first?.id || null });
+              }}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Assign customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {assignment.customer_id && (
+              <Select
+                value={assignment.invoice_id || NO_INVOICE}
+                onValueChange={(v) =>
+                  updateAssignment(line.id, { ...assignment, invoice_id: v === NO_INVOICE ? null : v })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_INVOICE}>No invoice (advance)</SelectItem>
+                  {customerInvoices.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.invoice_number} · ₹{getInvoiceBalance(i).toLocaleString("en-IN")} due
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: "match_score",
+      header: "Match",
+      render: (line: StatementLineRow) => {
+        if (line.match_score === null) return <span className="text-xs text-muted-foreground">-</span>;
+        const confidence = matchConfidence(line.match_score);
+        return (
+          <div className="space-y-1">
+            <Badge variant="outline" className={confidenceStyles[confidence]}>
+              {line.match_score}% {confidence}
+            </Badge>
+            {line.match_reasons && (
+              <p className="text-xs text-muted-foreground max-w-[180px]">{line.match_reasons.join(", ")}</p>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (line: StatementLineRow) =>
+        isOpen ? (
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              className="gap-1"
+              onClick={() => handleConfirm(line)}
+              disabled={processing === line.id || bulkConfirming || !assignmentFor(line).customer_id}
+            >
+              {processing === line.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+              Post
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title="Ignore (not a customer payment)"
+              onClick={() => handleIgnore(line)}
+              disabled={processing === line.id || bulkConfirming}
+            >
+              <EyeOff className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : null,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Bank Reconciliation"
+        description="Import bank and UPI statements and match credits to customer invoices"
+        icon={Landmark}
+      />
+
+      <StatementImportCard onImported={fetchData} />
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{counts.suggested}</div>
+            <p className="text-sm text-muted-foreground">Matches to review</p>
+          </CardContent>
+        </Card>
+        <Card className="border-warning/30">
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold text-warning">{counts.unmatched}</div>
+            <p className="text-sm text-muted-foreground">Unmatched credits</p>
+          </CardContent>
+        </Card>
+        <Card className="border-success/30">
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold text-success">{counts.matched}</div>
+            <p className="text-sm text-muted-foreground">Posted</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="suggested">Review ({counts.suggested})</TabsTrigger>
+            <TabsTrigger value="unmatched">Unmatched ({counts.unmatched})</TabsTrigger>
+            <TabsTrigger value="matched">Posted</TabsTrigger>
+            <TabsTrigger value="ignored">Ignored ({counts.ignored})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {tab === "suggested" && highConfidenceCount > 0 && (
+          <Button variant="outline" className="gap-2" onClick={handleConfirmHighConfidence} disabled={bulkConfirming}>
+            {bulkConfirming ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCheck className="h-4 w-4" />}
+            Post {highConfidenceCount} high-confidence matches
+          </Button>
+        )}
+      </div>
+
+      <DataTable
+        data={visibleLines}
+        columns={columns}
+        loading={loading}
+        searchPlaceholder="Search narration, reference..."
+        emptyMessage={tab === "suggested" ? "No matches waiting for review" : "Nothing here"}
+      />
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DataBackupExport } from "@/components/reports/DataBackupExport";
 import { DailyDataTable } from "@/components/reports/DailyDataTable";
+import { HerdValuationReport } from "@/components/reports/HerdValuationReport";
+import { MortalityCullingReport } from "@/components/reports/MortalityCullingReport";
+import { MilkBalanceReport } from "@/components/reports/MilkBalanceReport";
 import { useUserRole } from "@/hooks/useUserRole";
 import { 
   BarChart3, 
@@ -34,6 +37,7 @@ import {
   AreaChart
 } from "recharts";
 import { format, subDays, startOfMonth, eachDayOfInterval } from "date-fns";
+import { splitMilk } from "@/lib/milk-withdrawal";
 
 const COLORS = ['hsl(152, 45%, 28%)', 'hsl(158, 50%, 45%)', 'hsl(38, 92%, 50%)', 'hsl(199, 89%, 48%)', 'hsl(0, 72%, 51%)'];
 
@@ -43,6 +47,7 @@ export default function ReportsPage() {
   const [productionData, setProductionData] = useState<any[]>([]);
   const [revenueData, setRevenueData] = useState<any[]>([]);
   const [expenseData, setExpenseData] = useState<any[]>([]);
+  const [otherIncome, setOtherIncome] = useState(0);
   const [cattleStats, setCattleStats] = useState<any>({});
   const [customerStats, setCustomerStats] = useState<any>({});
   const [procurementStats, setProcurementStats] = useState<any>({});
@@ -63,10 +68,10 @@ export default function ReportsPage() {
 
     try {
       // Fetch all data in parallel for faster loading
-      const [productionRes, invoicesRes, expensesRes, cattleRes, customersRes, procurementRes, vendorsRes, paymentsRes] = await Promise.all([
+      const [productionRes, invoicesRes, expensesRes, cattleRes, customersRes, procurementRes, vendorsRes, paymentsRes, incomeRes] = await Promise.all([
         supabase
           .from("milk_production")
-          .select("production_date, session, quantity_liters")
+          .select("production_date, session, quantity_liters, is_withheld")
           .gte("production_date", format(subDays(new Date(), 29), "yyyy-MM-dd")),
         supabase
           .from("invoices")
@@ -92,7 +97,13 @@ export default function ReportsPage() {
         supabase
           .from("payments")
           .select("amount, payment_date")
+          .eq("status", "verified")
           .gte("payment_date", format(startOfMonth(new Date()), "yyyy-MM-dd")),
+        // Income outside milk sales: cattle sales and insurance claims
+        supabase
+          .from("farm_income")
+          .select("amount")
+          .gte("income_date", format(startOfMonth(new Date()), "yyyy-MM-dd")),
       ]);
 
       // Process production data
@@ -102,11 +113,14 @@ export default function ReportsPage() {
         const dayProduction = production.filter(p => p.production_date === dateStr);
         const morning = dayProduction.filter(p => p.session === "morning").reduce((sum, p) => sum + Number(p.quantity_liters), 0);
         const evening = dayProduction.filter(p => p.session === "evening").reduce((sum, p) => sum + Number(p.quantity_liters), 0);
+        // Milk withheld during treatment withdrawal is produced but not sold
+        const { discarded } = splitMilk(dayProduction);
         return {
           date: format(date, "dd MMM"),
           morning,
           evening,
           total: morning + evening,
+          discarded,
         };
       });
       setProductionData(productionByDate);
@@ -122,6 +136,7 @@ export default function ReportsPage() {
         { name: "Collected", value: monthlyCollected },
         { name: "Pending", value: Math.max(0, monthlyRevenue - monthlyCollected) },
       ]);
+      setOtherIncome((incomeRes.data || []).reduce((sum, i) => sum + Number(i.amount), 0));
 
       // Process expense data
       const expenses = expensesRes.data || [];
@@ -178,6 +193,7 @@ export default function ReportsPage() {
 
   const totalProduction = productionData.reduce((sum, d) => sum + d.total, 0);
   const avgDailyProduction = totalProduction / 30;
+  const totalDiscarded = productionData.reduce((sum, d) => sum + d.discarded, 0);
   const totalExpenses = expenseData.reduce((sum, d) => sum + d.value, 0);
 
   if (loading) {
@@ -205,6 +221,11 @@ export default function ReportsPage() {
                 <p className="text-sm text-muted-foreground">30-Day Production</p>
                 <p className="text-2xl font-bold text-info">{totalProduction.toFixed(0)} L</p>
                 <p className="text-xs text-muted-foreground">Avg: {avgDailyProduction.toFixed(1)} L/day</p>
+                {totalDiscarded > 0 && (
+                  <p className="text-xs text-destructive">
+                    Saleable {(totalProduction - totalDiscarded).toFixed(0)} L · Discarded {totalDiscarded.toFixed(0)} L
+                  </p>
+                )}
               </div>
               <Droplets className="h-8 w-8 text-info/50" />
             </div>
@@ -217,6 +238,9 @@ export default function ReportsPage() {
                 <p className="text-sm text-muted-foreground">Monthly Revenue</p>
                 <p className="text-2xl font-bold text-success">₹{revenueData[0]?.value?.toLocaleString() || 0}</p>
                 <p className="text-xs text-muted-foreground">Collected: ₹{revenueData[1]?.value?.toLocaleString() || 0}</p>
+                {otherIncome > 0 && (
+                  <p className="text-xs text-muted-foreground">Cattle & other income: ₹{otherIncome.toLocaleString()}</p>
+                )}
               </div>
               <TrendingUp className="h-8 w-8 text-success/50" />
             </div>
@@ -239,9 +263,9 @@ export default function ReportsPage() {
               <div>
                 <p className="text-sm text-muted-foreground">Net Profit</p>
                 <p className="text-2xl font-bold text-primary">
-                  ₹{((revenueData[1]?.value || 0) - totalExpenses).toLocaleString()}
+                  ₹{((revenueData[1]?.value || 0) + otherIncome - totalExpenses).toLocaleString()}
                 </p>
-                <p className="text-xs text-muted-foreground/70">Cash basis: Collections − Expenses</p>
+                <p className="text-xs text-muted-foreground/70">Cash basis: Collections + Other income − Expenses</p>
               </div>
               <IndianRupee className="h-8 w-8 text-primary/50" />
             </div>
@@ -254,6 +278,7 @@ export default function ReportsPage() {
           <TabsTrigger value="daily">Daily Data</TabsTrigger>
           <TabsTrigger value="production">Production</TabsTrigger>
           <TabsTrigger value="procurement">Procurement</TabsTrigger>
+          <TabsTrigger value="balance">Milk Balance</TabsTrigger>
           <TabsTrigger value="financial">Financial</TabsTrigger>
           <TabsTrigger value="cattle">Cattle</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
@@ -304,6 +329,7 @@ export default function ReportsPage() {
                     />
                     <Area type="monotone" dataKey="morning" stroke="hsl(38, 92%, 50%)" fillOpacity={1} fill="url(#colorMorning)" name="Morning" />
                     <Area type="monotone" dataKey="evening" stroke="hsl(152, 45%, 28%)" fillOpacity={1} fill="url(#colorEvening)" name="Evening" />
+                    <Area type="monotone" dataKey="discarded" stroke="hsl(0, 72%, 51%)" fill="hsl(0, 72%, 51%)" fillOpacity={0.15} name="Discarded" />
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
@@ -362,6 +388,10 @@ export default function ReportsPage() {
           </div>
         </TabsContent>
 
+        <TabsContent value="balance">
+          <MilkBalanceReport />
+        </TabsContent>
+
         <TabsContent value="financial">
           <div className="grid gap-6 lg:grid-cols-2">
             <Card>
@@ -423,7 +453,7 @@ export default function ReportsPage() {
           </div>
         </TabsContent>
 
-        <TabsContent value="cattle">
+        <TabsContent value="cattle" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-2">
             <Card>
               <CardHeader>
@@ -487,6 +517,9 @@ export default function ReportsPage() {
               </CardContent>
             </Card>
           </div>
+
+          <HerdValuationReport />
+          <MortalityCullingReport />
         </TabsContent>
 
         <TabsContent value="customers">
@@ -11,7 +11,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
  import { DialogDescription } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, MapPin, Users, Truck, ArrowUp, ArrowDown, GripVertical, Loader2 } from "lucide-react";
+import { RouteStopSequencer } from "@/components/deliveries/RouteStopSequencer";
+import { Plus, MapPin, Users, Truck, Loader2 } from "lucide-react";
 
 interface Route {
   id: string;
@@ -20,6 +21,11 @@ interface Route {
   assigned_staff: string | null;
   sequence_order: number | null;
   is_active: boolean;
+  start_time: string;
+  service_minutes: number;
+  average_speed_kmph: number;
+  start_latitude: number | null;
+  start_longitude: number | null;
 }
 
 interface RouteStop {
@@ -38,6 +44,8 @@ interface Customer {
   address: string | null;
   area: string | null;
   phone: string | null;
+  latitude: number | null;
+  longitude: number | null;
 }
 
 interface Employee {
@@ -55,7 +63,7 @@ export default function RoutesPage() {
   const [loading, setLoading] = useState(true);
   const [routeDialogOpen, setRouteDialogOpen] = useState(false);
   const [stopDialogOpen, setStopDialogOpen] = useState(false);
-  const [selectedRoute, setSelectedRoute] = useState<Route | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
   
   // Route form
   const [routeName, setRouteName] = useState("");
@@ -67,7 +75,6 @@ export default function RoutesPage() {
   const [stopRouteId, setStopRouteId] = useState("");
   const [stopCustomerId, setStopCustomerId] = useState("");
   const [stopOrder, setStopOrder] = useState("");
-  const [estimatedTime, setEstimatedTime] = useState("");
 
   useEffect(() => {
     fetchData();
@@ -78,7 +85,7 @@ export default function RoutesPage() {
       const [routesRes, stopsRes, customersRes, employeesRes] = await Promise.all([
         supabase.from("routes").select("*").order("sequence_order"),
         supabase.from("route_stops").select("*").order("stop_order"),
-        supabase.from("customers").select("id, name, address, area, phone").eq("is_active", true),
+        supabase.from("customers").select("id, name, address, area, phone, latitude, longitude").eq("is_active", true),
         supabase.from("employees").select("id, name, user_id, role").eq("is_active", true),
       ]);
 
@@ -117,16 +124,18 @@ export default function RoutesPage() {
   };
 
   const handleCreateStop = async () => {
-    if (!stopRouteId || !stopCustomerId || !stopOrder) {
+    if (!stopRouteId || !stopCustomerId) {
       toast({ title: "Error", description: "Please fill required fields", variant: "destructive" });
       return;
     }
 
+    const nextStopOrder =
+      Math.max(0, ...routeStops.filter(s => s.route_id === stopRouteId).map(s => s.stop_order)) + 1;
+
     const { error } = await supabase.from("route_stops").insert({
       route_id: stopRouteId,
       customer_id: stopCustomerId,
-      stop_order: parseInt(stopOrder),
-      estimated_arrival_time: estimatedTime || null,
+      stop_order: stopOrder ? parseInt(stopOrder) : nextStopOrder,
     });
 
     if (error) {
@@ -139,29 +148,6 @@ export default function RoutesPage() {
     }
   };
 
-  const handleMoveStop = async (stopId: string, direction: "up" | "down") => {
-    const stop = routeStops.find(s => s.id === stopId);
-    if (!stop) return;
-
-    const routeStopsForRoute = routeStops
-      .filter(s => s.route_id === stop.route_id)
-      .sort((a, b) => a.stop_order - b.stop_order);
-    
-    const currentIndex = routeStopsForRoute.findIndex(s => s.id === stopId);
-    const swapIndex = direction === "up" ? currentIndex - 1 : currentIndex + 1;
-
-    if (swapIndex < 0 || swapIndex >= routeStopsForRoute.length) return;
-
-    const swapStop = routeStopsForRoute[swapIndex];
-
-    await Promise.all([
-      supabase.from("route_stops").update({ stop_order: swapStop.stop_order }).eq("id", stop.id),
-      supabase.from("route_stops").update({ stop_order: stop.stop_order }).eq("id", swapStop.id),
-    ]);
-
-    fetchData();
-  };
-
   const handleDeleteStop = async (stopId: string) => {
     const { error } = await supabase.from("route_stops").delete().eq("id", stopId);
     if (error) {
@@ -183,10 +169,9 @@ export default function RoutesPage() {
     setStopRouteId("");
     setStopCustomerId("");
     setStopOrder("");
-    setEstimatedTime("");
   };
 
-  const getCustomerName = (id: string) => customers.find(c => c.id === id)?.name || "Unknown";
+  const selectedRoute = routes.find(r => r.id === selectedRouteId) || null;
   const getEmployeeName = (id: string | null) => {
     if (!id) return "Unassigned";
     return employees.find(e => e.user_id === id)?.name || "Unknown";
@@ -224,7 +209,7 @@ export default function RoutesPage() {
       key: "id" as const,
       header: "Actions",
       render: (row: Route) => (
-        <Button variant="outline" size="sm" onClick={() => setSelectedRoute(row)}>
+        <Button variant="outline" size="sm" onClick={() => setSelectedRouteId(row.id)}>
           View Stops
         </Button>
       )
@@ -370,15 +355,10 @@ export default function RoutesPage() {
                   </SelectContent>
                 </Select>
               </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="stop-order">Stop Order *</Label>
-                  <Input id="stop-order" type="number" value={stopOrder} onChange={e => setStopOrder(e.target.value)} placeholder="1, 2, 3..." />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="estimated-time">Est. Arrival Time</Label>
-                  <Input id="estimated-time" type="time" value={estimatedTime} onChange={e => setEstimatedTime(e.target.value)} />
-                </div>
+              <div className="space-y-2">
+                <Label htmlFor="stop-order">Stop Order</Label>
+                <Input id="stop-order" type="number" value={stopOrder} onChange={e => setStopOrder(e.target.value)} placeholder="Defaults to the end of the route" />
+                <p className="text-xs text-muted-foreground">Arrival times are worked out from the route's start time when you save the stop order</p>
               </div>
               <Button className="w-full" onClick={handleCreateStop}>Add Stop</Button>
             </div>
@@ -411,52 +391,13 @@ export default function RoutesPage() {
           </CardHeader>
           <CardContent>
             {selectedRoute ? (
-              <div className="space-y-2">
-                {routeStops
-                  .filter(s => s.route_id === selectedRoute.id)
-                  .sort((a, b) => a.stop_order - b.stop_order)
-                  .map((stop, index, arr) => {
-                    const customer = customers.find(c => c.id === stop.customer_id);
-                    return (
-                      <div key={stop.id} className="flex items-center gap-3 rounded-lg border p-3">
-                        <div className="flex flex-col items-center gap-1">
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-6 w-6"
-                            disabled={index === 0}
-                            onClick={() => handleMoveStop(stop.id, "up")}
-                          >
-                            <ArrowUp className="h-3 w-3" />
-                          </Button>
-                          <span className="text-xs font-medium text-muted-foreground">{stop.stop_order}</span>
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-6 w-6"
-                            disabled={index === arr.length - 1}
-                            onClick={() => handleMoveStop(stop.id, "down")}
-                          >
-                            <ArrowDown className="h-3 w-3" />
-                          </Button>
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium">{customer?.name || "Unknown"}</p>
-                          <p className="text-sm text-muted-foreground">{customer?.address || customer?.area || "-"}</p>
-                          {stop.estimated_arrival_time && (
-                            <p className="text-xs text-muted-foreground">ETA: {stop.estimated_arrival_time}</p>
-                          )}
-                        </div>
-                        <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDeleteStop(stop.id)}>
-                          Remove
-                        </Button>
-                      </div>
-                    );
-                  })}
-                {routeStops.filter(s => s.route_id === selectedRoute.id).length === 0 && (
-                  <p className="text-sm text-muted-foreground text-center py-4">No stops added yet</p>
-                )}
-              </div>
+              <RouteStopSequencer
+                route={selectedRoute}
+                stops={routeStops.filter(s => s.route_id === selectedRoute.id)}
+                customers={customers}
+                onSaved={fetchData}
+                onRemoveStop={handleDeleteStop}
+              />
             ) : (
               <p className="text-sm text-muted-foreground text-center py-8">Select a route to view and manage its stops</p>
             )}
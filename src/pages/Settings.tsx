@@ -7,12 +7,26 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { useUserRole } from "@/hooks/useUserRole";
 import { DataArchiveManager } from "@/components/settings/DataArchiveManager";
 import { DataIntegrityManager } from "@/components/settings/DataIntegrityManager";
 import { FinancialIntegrityChecker } from "@/components/settings/FinancialIntegrityChecker";
 import { TelegramSettings } from "@/components/settings/TelegramSettings";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GST_STATES, isValidGstin, stateCodeFromGstin } from "@/lib/gst";
+import { isValidUpiHandle } from "@/lib/upi";
+import { mergeSubscriptionChangeSettings, readSubscriptionChangeSettings } from "@/lib/subscription-changes";
+import { mergeBottleDepositSettings, readBottleDepositSettings } from "@/lib/bottle-deposits";
+import { mergeMilkQualityThresholds, readMilkQualityThresholds, type MilkQualityThresholds } from "@/lib/collection-testing";
+import type { Json } from "@/integrations/supabase/types";
 import { Settings as SettingsIcon, Building2, User, Bell, Shield, Loader2, Save, KeyRound, Database, ShieldCheck } from "lucide-react";
 
 interface DairySettings {
@@ -24,6 +38,9 @@ interface DairySettings {
   invoice_prefix: string;
   financial_year_start: number;
   upi_handle: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  settings: Json | null;
 }
 
 interface Profile {
@@ -46,6 +63,9 @@ export default function SettingsPage() {
   const { role } = useUserRole();
   
   const isSuperAdmin = role === "super_admin";
+  const subscriptionSettings = readSubscriptionChangeSettings(dairySettings?.settings);
+  const bottleSettings = readBottleDepositSettings(dairySettings?.settings);
+  const qualityThresholds = readMilkQualityThresholds(dairySettings?.settings);
 
   useEffect(() => {
     fetchSettings();
@@ -110,6 +130,24 @@ export default function SettingsPage() {
   const handleSaveDairySettings = async () => {
     if (!dairySettings) return;
 
+    if (dairySettings.gstin && !isValidGstin(dairySettings.gstin)) {
+      toast({
+        title: "Invalid GSTIN",
+        description: "Enter the 15-character GSTIN printed on your registration certificate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (dairySettings.upi_handle && !isValidUpiHandle(dairySettings.upi_handle)) {
+      toast({
+        title: "Invalid UPI handle",
+        description: "Enter a UPI ID like yourname@okaxis",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     const { error } = await supabase
       .from("dairy_settings")
@@ -119,6 +157,16 @@ export default function SettingsPage() {
         phone: dairySettings.phone,
         email: dairySettings.email,
         invoice_prefix: dairySettings.invoice_prefix,
+        upi_handle: dairySettings.upi_handle?.trim() || null,
+        gstin: dairySettings.gstin || null,
+        state_code: dairySettings.state_code || stateCodeFromGstin(dairySettings.gstin),
+        settings: mergeMilkQualityThresholds(
+          mergeBottleDepositSettings(
+            mergeSubscriptionChangeSettings(dairySettings.settings, subscriptionSettings),
+            bottleSettings
+          ),
+          qualityThresholds
+        ),
       })
       .eq("id", dairySettings.id);
 
@@ -343,6 +391,46 @@ export default function SettingsPage() {
                     />
                   </div>
 
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="dairy_gstin">GSTIN</Label>
+                      <Input
+                        id="dairy_gstin"
+                        value={dairySettings.gstin || ""}
+                        onChange={(e) => {
+                          const gstin = e.target.value.toUpperCase().replace(/\s/g, "").slice(0, 15);
+                          setDairySettings({
+                            ...dairySettings,
+                            gstin,
+                            state_code: stateCodeFromGstin(gstin) || dairySettings.state_code,
+                          });
+                        }}
+                        placeholder="e.g., 09ABCDE1234F1Z5"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="dairy_state">State</Label>
+                      <Select
+                        value={dairySettings.state_code || ""}
+                        onValueChange={(v) => setDairySettings({ ...dairySettings, state_code: v })}
+                      >
+                        <SelectTrigger id="dairy_state">
+                          <SelectValue placeholder="Select state" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(GST_STATES).map(([code, name]) => (
+                            <SelectItem key={code} value={code}>
+                              {code} - {name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    Printed on invoices. Customers in another state are billed IGST instead of CGST + SGST.
+                  </p>
+
                   <div className="space-y-2">
                     <Label htmlFor="upi_handle">UPI Handle (for Payments)</Label>
                     <Input
@@ -358,6 +446,145 @@ export default function SettingsPage() {
                     </p>
                   </div>
 
+                  <div className="space-y-3 rounded-lg border p-4">
+                    <div>
+                      <p className="font-medium">Subscription Changes</p>
+                      <p className="text-xs text-muted-foreground">
+                        Changes customers make before the cutoff apply from the next day's delivery; later ones from the day after.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-2 sm:items-end">
+                      <div className="space-y-2">
+                        <Label htmlFor="subscription_cutoff">Daily Cutoff Time</Label>
+                        <Input
+                          id="subscription_cutoff"
+                          type="time"
+                          value={subscriptionSettings.cutoffTime}
+                          onChange={(e) =>
+                            setDairySettings({
+                              ...dairySettings,
+                              settings: mergeSubscriptionChangeSettings(dairySettings.settings, {
+                                ...subscriptionSettings,
+                                cutoffTime: e.target.value,
+                              }),
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                        <Label htmlFor="subscription_approval" className="font-normal">
+                          Staff must approve changes
+                        </Label>
+                        <Switch
+                          id="subscription_approval"
+                          checked={subscriptionSettings.requireApproval}
+                          onCheckedChange={(checked) =>
+                            setDairySettings({
+                              ...dairySettings,
+                              settings: mergeSubscriptionChangeSettings(dairySettings.settings, {
+                                ...subscriptionSettings,
+                                requireApproval: checked,
+                              }),
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3 rounded-lg border p-4">
+                    <div>
+                      <p className="font-medium">Bottle Deposits</p>
+                      <p className="text-xs text-muted-foreground">
+                        Deposits are charged when bottles are issued and refunded on return. Bottles not returned in time are billed as lost.
+                      </p>
+                    </div>
+                    <div className="space-y-2 sm:w-1/2">
+                      <Label htmlFor="bottle_loss_days">Bill as lost after (days)</Label>
+                      <Input
+                        id="bottle_loss_days"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={bottleSettings.lossAfterDays}
+                        onChange={(e) =>
+                          setDairySettings({
+                            ...dairySettings,
+                            settings: mergeBottleDepositSettings(dairySettings.settings, {
+                              lossAfterDays: Math.max(0, parseInt(e.target.value) || 0),
+                            }),
+                          })
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground">Set to 0 to never bill unreturned bottles automatically</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3 rounded-lg border p-4">
+                    <div>
+                      <p className="font-medium">Milk Acceptance</p>
+                      <p className="text-xs text-muted-foreground">
+                        Procurement tests are checked against these limits. Milk over a reject limit is not paid for; milk
+                        outside the other limits is downgraded to a reduced rate.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 grid-cols-2 sm:grid-cols-3">
+                      {(
+                        [
+                          ["minFat", "Min fat %", "0.1"],
+                          ["minSnf", "Min SNF %", "0.1"],
+                          ["minClr", "Min CLR", "0.5"],
+                          ["maxClr", "Max CLR", "0.5"],
+                          ["maxTemperature", "Max temperature (°C)", "0.5"],
+                          ["standardSnf", "Standard SNF % (no water)", "0.1"],
+                          ["downgradeWaterPct", "Downgrade above water %", "0.5"],
+                          ["rejectWaterPct", "Reject above water %", "0.5"],
+                          ["downgradeMbrtHours", "Downgrade below MBRT (h)", "0.5"],
+                          ["rejectMbrtHours", "Reject below MBRT (h)", "0.5"],
+                          ["downgradeRatePct", "Downgraded rate cut %", "1"],
+                        ] as [Exclude<keyof MilkQualityThresholds, "rejectOnAlcohol">, string, string][]
+                      ).map(([key, label, step]) => (
+                        <div key={key} className="space-y-2">
+                          <Label htmlFor={`quality_${key}`}>{label}</Label>
+                          <Input
+                            id={`quality_${key}`}
+                            type="number"
+                            min="0"
+                            step={step}
+                            value={qualityThresholds[key]}
+                            onChange={(e) =>
+                              setDairySettings({
+                                ...dairySettings,
+                                settings: mergeMilkQualityThresholds(dairySettings.settings, {
+                                  ...qualityThresholds,
+                                  [key]: Math.max(0, parseFloat(e.target.value) || 0),
+                                }),
+                              })
+                            }
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="quality_alcohol" className="font-normal">
+                        Reject milk that fails the alcohol test
+                      </Label>
+                      <Switch
+                        id="quality_alcohol"
+                        checked={qualityThresholds.rejectOnAlcohol}
+                        onCheckedChange={(checked) =>
+                          setDairySettings({
+                            ...dairySettings,
+                            settings: mergeMilkQualityThresholds(dairySettings.settings, {
+                              ...qualityThresholds,
+                              rejectOnAlcohol: checked,
+                            }),
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+
                   <Button onClick={handleSaveDairySettings} disabled={saving} className="gap-2">
                     {saving ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
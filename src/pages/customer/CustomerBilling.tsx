@@ -14,6 +14,12 @@ import { externalSupabase as supabase } from '@/lib/external-supabase';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { numberToIndianWords } from '@/lib/numberToWords';
+import { getInvoiceBalance } from '@/lib/invoice-helpers';
+import { buildInvoiceUpiLink } from '@/lib/upi';
+import { encodeQr, drawQrToPdf } from '@/lib/qr-code';
+import { UpiPaymentPanel } from '@/components/customer/UpiPaymentPanel';
+import { WalletStatement } from '@/components/customer/WalletStatement';
+import { isPrepaidCustomer } from '@/lib/prepaid-wallet';
 
 interface Invoice {
   id: string;
@@ -29,6 +35,12 @@ interface Invoice {
   due_date: string | null;
   created_at: string;
   notes: string | null;
+  upi_handle: string | null;
+}
+
+interface PaymentSettings {
+  dairy_name: string;
+  upi_handle: string | null;
 }
 
 interface LedgerEntry {
@@ -85,6 +97,7 @@ export default function CustomerBilling() {
   const [generatingPdf, setGeneratingPdf] = useState<string | null>(null);
   const [deliveryItems, setDeliveryItems] = useState<DeliveryItem[]>([]);
   const [loadingItems, setLoadingItems] = useState(false);
+  const [paymentSettings, setPaymentSettings] = useState<PaymentSettings>({ dairy_name: 'Awadh Dairy', upi_handle: null });
 
   useEffect(() => {
     const fetchBillingData = async () => {
@@ -94,7 +107,7 @@ export default function CustomerBilling() {
       }
 
       try {
-        const [invoiceRes, ledgerRes] = await Promise.all([
+        const [invoiceRes, ledgerRes, settingsRes] = await Promise.all([
           supabase
             .from('invoices')
             .select('*')
@@ -106,12 +119,17 @@ export default function CustomerBilling() {
             .select('*')
             .eq('customer_id', customerId)
             .order('transaction_date', { ascending: false })
-            .limit(50)
+            .limit(50),
+          supabase.from('dairy_settings').select('dairy_name, upi_handle').limit(1).maybeSingle(),
         ]);
 
         if (invoiceRes.error) throw invoiceRes.error;
         if (ledgerRes.error) throw ledgerRes.error;
 
+        if (settingsRes.data) {
+          setPaymentSettings(settingsRes.data);
+        }
+
         setInvoices((invoiceRes.data || []).map((inv) => ({
           ...inv,
           payment_status: (inv.payment_status || 'pending') as Invoice['payment_status'],
@@ -226,6 +244,7 @@ export default function CustomerBilling() {
         currency: 'INR',
         invoice_prefix: 'INV',
         logo_url: null,
+        upi_handle: null,
       };
 
       // Flatten delivery items
@@ -377,7 +396,7 @@ export default function CustomerBilling() {
       
       if (invoice.paid_amount > 0) {
         doc.text(`Paid: Rs. ${invoice.paid_amount.toLocaleString("en-IN", { minimumFractionDigits: 2 })}`, 14, yPos);
-        const balance = invoice.final_amount - invoice.paid_amount;
+        const balance = getInvoiceBalance(invoice);
         if (balance > 0) {
           yPos += 6;
           doc.setTextColor(255, 0, 0);
@@ -386,6 +405,23 @@ export default function CustomerBilling() {
         }
       }
 
+      // UPI QR for the outstanding balance
+      const upiLink = getInvoiceBalance(invoice) > 0 ? buildInvoiceUpiLink(invoice, settings) : null;
+      const upiQr = upiLink ? encodeQr(upiLink) : null;
+      if (upiLink && upiQr && yPos < doc.internal.pageSize.getHeight() - 65) {
+        yPos += 8;
+        drawQrToPdf(doc, upiQr, 14, yPos, 35);
+        doc.link(14, yPos, 35, 35, { url: upiLink });
+        doc.setTextColor(0, 0, 0);
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(10);
+        doc.text("Scan to pay via UPI", 55, yPos + 10);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        doc.text(invoice.upi_handle || settings.upi_handle || '', 55, yPos + 17);
+        doc.text(`Note: Invoice ${invoice.invoice_number}`, 55, yPos + 23);
+      }
+
       // Footer
       doc.setFontSize(8);
       doc.setFont("helvetica", "normal");
@@ -408,10 +444,11 @@ export default function CustomerBilling() {
     }
   };
 
-  // Calculate balances
-  const creditBalance = customerData?.credit_balance || 0;
+  // Calculate balances (credit_balance is the signed ledger balance)
+  const outstandingBalance = customerData?.credit_balance || 0;
+  const creditBalance = Math.max(0, outstandingBalance);
   const advanceBalance = customerData?.advance_balance || 0;
-  const outstandingBalance = creditBalance - advanceBalance;
+  const isPrepaid = isPrepaidCustomer(customerData);
   const unpaidInvoices = invoices.filter(i => i.payment_status !== 'paid');
 
   // Group delivery items by date for detail view
@@ -462,12 +499,19 @@ export default function CustomerBilling() {
       </Card>
 
       {/* Tabs */}
-      <Tabs defaultValue="invoices">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs defaultValue={isPrepaid ? 'wallet' : 'invoices'}>
+        <TabsList className={`grid w-full ${isPrepaid ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          {isPrepaid && <TabsTrigger value="wallet">Wallet</TabsTrigger>}
           <TabsTrigger value="invoices">Invoices</TabsTrigger>
           <TabsTrigger value="ledger">Transaction History</TabsTrigger>
         </TabsList>
 
+        {isPrepaid && customerId && (
+          <TabsContent value="wallet" className="mt-4">
+            <WalletStatement customerId={customerId} />
+          </TabsContent>
+        )}
+
         <TabsContent value="invoices" className="mt-4 space-y-3">
           {loading ? (
             Array(3).fill(0).map((_, i) => (
@@ -697,13 +741,28 @@ export default function CustomerBilling() {
                       {selectedInvoice.payment_status !== 'paid' && (
                         <div className="flex justify-between text-destructive font-semibold">
                           <span>Balance Due</span>
-                          <span>Rs. {(selectedInvoice.final_amount - selectedInvoice.paid_amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span>
+                          <span>Rs. {getInvoiceBalance(selectedInvoice).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span>
                         </div>
                       )}
                     </>
                   )}
                 </div>
 
+                {customerId && selectedInvoice.payment_status !== 'paid' && (
+                  <>
+                    <Separator />
+                    <div>
+                      <h4 className="font-semibold mb-3">Pay Now</h4>
+                      <UpiPaymentPanel
+                        key={selectedInvoice.id}
+                        customerId={customerId}
+                        invoice={selectedInvoice}
+                        settings={paymentSettings}
+                      />
+                    </div>
+                  </>
+                )}
+
                 {/* Download Button */}
                 <Button 
                   className="w-full mt-4" 
@@ -2,7 +2,7 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   Package, Calendar, Receipt, 
-  Pause, Play, ChevronRight, AlertCircle 
+  Pause, Play, ChevronRight, AlertCircle, Wallet 
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,6 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { externalSupabase as supabase } from '@/lib/external-supabase';
 import { getProductName } from '@/lib/supabase-helpers';
+import { getWalletBalance, getWalletStatus, isPrepaidCustomer } from '@/lib/prepaid-wallet';
 
 interface DeliverySummary {
   pending: number;
@@ -34,10 +35,13 @@ export default function CustomerDashboard() {
   const [isOnVacation, setIsOnVacation] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  // Get balance from customerData
-  const creditBalance = customerData?.credit_balance || 0;
+  // Get balance from customerData (credit_balance is the signed ledger balance)
+  const outstandingBalance = customerData?.credit_balance || 0;
+  const creditBalance = Math.max(0, outstandingBalance);
   const advanceBalance = customerData?.advance_balance || 0;
-  const outstandingBalance = creditBalance - advanceBalance;
+  const isPrepaid = isPrepaidCustomer(customerData);
+  const walletStatus = customerData && isPrepaid ? getWalletStatus(customerData) : null;
+  const walletBalance = customerData ? getWalletBalance(customerData) : 0;
 
   useEffect(() => {
     if (customerId) {
@@ -145,25 +149,46 @@ export default function CustomerDashboard() {
       )}
 
       {/* Balance Card */}
-      <Card className={outstandingBalance > 0 ? "border-destructive" : "border-green-500"}>
-        <CardHeader className="pb-2">
-          <CardDescription>Outstanding Balance</CardDescription>
-          <CardTitle className={`text-3xl ${outstandingBalance > 0 ? 'text-destructive' : 'text-green-600'}`}>
-            ₹{Math.abs(outstandingBalance).toFixed(2)}
-            {outstandingBalance < 0 && <span className="text-sm font-normal ml-2">(Credit)</span>}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex gap-4 text-sm text-muted-foreground">
-            <span>Due: ₹{creditBalance.toFixed(2)}</span>
-            <span>Advance: ₹{advanceBalance.toFixed(2)}</span>
-          </div>
-          <Button variant="outline" className="w-full mt-4" onClick={() => navigate('/customer/billing')}>
-            <Receipt className="mr-2 h-4 w-4" />
-            View Billing Details
-          </Button>
-        </CardContent>
-      </Card>
+      {isPrepaid ? (
+        <Card className={walletStatus === 'ok' ? "border-green-500" : walletStatus === 'low' ? "border-amber-500" : "border-destructive"}>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center justify-between">
+              Wallet Balance
+              {walletStatus === 'low' && <Badge variant="outline" className="border-amber-500 text-amber-600">Low</Badge>}
+              {walletStatus === 'paused' && <Badge variant="destructive">Deliveries paused</Badge>}
+            </CardDescription>
+            <CardTitle className={`text-3xl ${walletBalance > 0 ? 'text-green-600' : 'text-destructive'}`}>
+              {walletBalance < 0 && '-'}₹{Math.abs(walletBalance).toFixed(2)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full" onClick={() => navigate('/customer/billing')}>
+              <Wallet className="mr-2 h-4 w-4" />
+              View Wallet Statement
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className={outstandingBalance > 0 ? "border-destructive" : "border-green-500"}>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding Balance</CardDescription>
+            <CardTitle className={`text-3xl ${outstandingBalance > 0 ? 'text-destructive' : 'text-green-600'}`}>
+              ₹{Math.abs(outstandingBalance).toFixed(2)}
+              {outstandingBalance < 0 && <span className="text-sm font-normal ml-2">(Credit)</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-4 text-sm text-muted-foreground">
+              <span>Due: ₹{creditBalance.toFixed(2)}</span>
+              <span>Advance: ₹{advanceBalance.toFixed(2)}</span>
+            </div>
+            <Button variant="outline" className="w-full mt-4" onClick={() => navigate('/customer/billing')}>
+              <Receipt className="mr-2 h-4 w-4" />
+              View Billing Details
+            </Button>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Quick Stats */}
       <div className="grid grid-cols-2 gap-4">
@@ -8,6 +8,9 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { externalSupabase as supabase } from '@/lib/external-supabase';
+import { useSubscriptionChanges } from '@/hooks/useSubscriptionChanges';
+import { isOpenChange } from '@/lib/subscription-changes';
+import { format } from 'date-fns';
 
 interface Product {
   id: string;
@@ -21,6 +24,7 @@ interface Product {
 }
 
 interface SubscribedProduct {
+  id: string;
   product_id: string;
   quantity: number;
   custom_price: number | null;
@@ -37,6 +41,7 @@ export default function CustomerProducts() {
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [quantities, setQuantities] = useState<Record<string, number>>({});
   const [saving, setSaving] = useState<string | null>(null);
+  const { changes, requestChange } = useSubscriptionChanges(customerId);
 
   useEffect(() => {
     if (customerId) {
@@ -62,7 +67,7 @@ export default function CustomerProducts() {
       // Fetch customer's subscribed products
       const { data: subscribedData, error: subscribedError } = await supabase
         .from('customer_products')
-        .select('product_id, quantity, custom_price, is_active')
+        .select('id, product_id, quantity, custom_price, is_active')
         .eq('customer_id', customerId);
 
       if (subscribedError) throw subscribedError;
@@ -123,52 +128,20 @@ export default function CustomerProducts() {
     setSaving(product.id);
     try {
       const existingSubscription = getSubscribedProduct(product.id);
+      const isQuantityChange = !!existingSubscription?.is_active;
+
+      const result = await requestChange({
+        productId: product.id,
+        customerProductId: existingSubscription?.id || null,
+        changeType: isQuantityChange ? 'quantity' : 'add',
+        oldQuantity: existingSubscription?.quantity ?? null,
+        newQuantity: qty,
+      });
 
-      if (existingSubscription) {
-        // Update existing subscription
-        const { error } = await supabase
-          .from('customer_products')
-          .update({ quantity: qty, is_active: true })
-          .eq('customer_id', customerId)
-          .eq('product_id', product.id);
-
-        if (error) throw error;
-
-        setSubscribedProducts(prev => 
-          prev.map(sp => 
-            sp.product_id === product.id 
-              ? { ...sp, quantity: qty, is_active: true }
-              : sp
-          )
-        );
-
-        toast({
-          title: "Subscription Updated",
-          description: `${product.name} quantity updated to ${qty} ${product.unit}/day`,
-        });
-      } else {
-        // Add new subscription
-        const { error } = await supabase
-          .from('customer_products')
-          .insert({
-            customer_id: customerId,
-            product_id: product.id,
-            quantity: qty,
-            is_active: true,
-          });
-
-        if (error) throw error;
-
-        setSubscribedProducts(prev => [
-          ...prev,
-          { product_id: product.id, quantity: qty, custom_price: null, is_active: true }
-        ]);
-
-        toast({
-          title: "Added to Subscription",
-          description: `${qty} ${product.unit} of ${product.name} added to your daily subscription`,
-        });
-      }
+      toast({
+        title: result.status === 'pending' ? 'Sent for approval' : 'Subscription change scheduled',
+        description: `${qty} ${product.unit} of ${product.name} from ${format(new Date(result.effectiveDate), 'EEE, dd MMM')}`,
+      });
 
       // Clear the temporary quantity
       setQuantities(prev => {
@@ -176,10 +149,10 @@ export default function CustomerProducts() {
         delete newQty[product.id];
         return newQty;
       });
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: "Failed to update subscription",
-        description: error.message,
+        description: error instanceof Error ? error.message : undefined,
         variant: "destructive",
       });
     } finally {
@@ -190,19 +163,18 @@ export default function CustomerProducts() {
   const removeFromSubscription = async (product: Product) => {
     if (!customerId) return;
 
+    const subscribed = getSubscribedProduct(product.id);
+    if (!subscribed) return;
+
     setSaving(product.id);
     try {
-      const { error } = await supabase
-        .from('customer_products')
-        .delete()
-        .eq('customer_id', customerId)
-        .eq('product_id', product.id);
-
-      if (error) throw error;
-
-      setSubscribedProducts(prev => 
-        prev.filter(sp => sp.product_id !== product.id)
-      );
+      const result = await requestChange({
+        productId: product.id,
+        customerProductId: subscribed.id,
+        changeType: 'remove',
+        oldQuantity: subscribed.quantity,
+        newQuantity: null,
+      });
 
       setQuantities(prev => {
         const newQty = { ...prev };
@@ -211,13 +183,13 @@ export default function CustomerProducts() {
       });
 
       toast({
-        title: "Removed from Subscription",
-        description: `${product.name} removed from your subscription`,
+        title: result.status === 'pending' ? 'Sent for approval' : 'Removal scheduled',
+        description: `${product.name} stops from ${format(new Date(result.effectiveDate), 'EEE, dd MMM')}`,
       });
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: "Failed to remove",
-        description: error.message,
+        description: error instanceof Error ? error.message : undefined,
         variant: "destructive",
       });
     } finally {
@@ -287,6 +259,7 @@ export default function CustomerProducts() {
             const displayQty = getDisplayQuantity(product.id);
             const hasChanges = quantities[product.id] !== undefined && quantities[product.id] !== (subscribed?.quantity || 0);
             const isSaving = saving === product.id;
+            const openChange = changes.find(c => c.product_id === product.id && isOpenChange(c.status));
             
             return (
               <Card key={product.id} className="overflow-hidden">
@@ -306,11 +279,18 @@ export default function CustomerProducts() {
                             {product.description || `Fresh ${product.name.toLowerCase()}`}
                           </p>
                         </div>
-                        {subscribed && subscribed.is_active && (
-                          <Badge variant="secondary" className="flex-shrink-0">
-                            {subscribed.quantity} {product.unit}/day
-                          </Badge>
-                        )}
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                          {subscribed && subscribed.is_active && (
+                            <Badge variant="secondary">
+                              {subscribed.quantity} {product.unit}/day
+                            </Badge>
+                          )}
+                          {openChange && (
+                            <Badge variant="outline" className="text-xs">
+                              {openChange.change_type === 'remove' ? 'Stopping' : `${openChange.new_quantity ?? 0} ${product.unit}`} from {format(new Date(openChange.effective_date), 'dd MMM')}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                       
                       <div className="flex items-center justify-between mt-3">
@@ -327,7 +307,7 @@ export default function CustomerProducts() {
                             variant="outline" 
                             className="h-8 w-8"
                             onClick={() => updateQuantity(product.id, -1)}
-                            disabled={displayQty <= 0 || isSaving}
+                            disabled={displayQty <= 0 || isSaving || !!openChange}
                           >
                             <Minus className="h-4 w-4" />
                           </Button>
@@ -337,12 +317,12 @@ export default function CustomerProducts() {
                             variant="outline" 
                             className="h-8 w-8"
                             onClick={() => updateQuantity(product.id, 1)}
-                            disabled={isSaving}
+                            disabled={isSaving || !!openChange}
                           >
                             <Plus className="h-4 w-4" />
                           </Button>
                           
-                          {displayQty > 0 && (hasChanges || !subscribed) && (
+                          {displayQty > 0 && (hasChanges || !subscribed?.is_active) && !openChange && (
                             <Button 
                               size="sm"
                               onClick={() => addToSubscription(product)}
@@ -350,7 +330,7 @@ export default function CustomerProducts() {
                             >
                               {isSaving ? (
                                 <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : subscribed ? (
+                              ) : subscribed?.is_active ? (
                                 'Update'
                               ) : (
                                 'Add'
@@ -358,7 +338,7 @@ export default function CustomerProducts() {
                             </Button>
                           )}
                           
-                          {subscribed && displayQty === 0 && (
+                          {subscribed && displayQty === 0 && !openChange && (
                             <Button 
                               size="sm"
                               variant="destructive"
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { Plus, Minus, Pause, Package, Calendar, Trash2 } from 'lucide-react';
+import { Plus, Minus, Pause, Package, Trash2, CalendarClock, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -10,6 +10,9 @@ import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { externalSupabase as supabase } from '@/lib/external-supabase';
 import { format } from 'date-fns';
 import { getProductName, getProductPrice } from '@/lib/supabase-helpers';
+import { describeSubscriptionChange, isOpenChange, nextEffectiveDate, type SubscriptionChangeType } from '@/lib/subscription-changes';
+import { useSubscriptionChanges } from '@/hooks/useSubscriptionChanges';
+import { SubscriptionChangeHistory } from '@/components/customer/SubscriptionChangeHistory';
 
 interface SubscriptionProduct {
   id: string;
@@ -30,6 +33,9 @@ export default function CustomerSubscription() {
   const [vacationEnd, setVacationEnd] = useState('');
   const [savingVacation, setSavingVacation] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [draftQuantities, setDraftQuantities] = useState<Record<string, number>>({});
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const { changes, settings, requestChange, cancelChange } = useSubscriptionChanges(customerId);
 
   useEffect(() => {
     if (customerId) {
@@ -78,56 +84,63 @@ export default function CustomerSubscription() {
     }
   };
 
-  const updateQuantity = async (id: string, newQty: number) => {
-    if (newQty < 0.25) return;
-    
-    try {
-      const { error } = await supabase
-        .from('customer_products')
-        .update({ quantity: newQty })
-        .eq('id', id);
+  const getOpenChange = (productId: string) =>
+    changes.find(c => c.product_id === productId && isOpenChange(c.status));
 
-      if (error) throw error;
+  const submitChange = async (
+    product: SubscriptionProduct,
+    changeType: SubscriptionChangeType,
+    newQuantity: number | null
+  ) => {
+    setSubmitting(product.id);
+    try {
+      const result = await requestChange({
+        productId: product.product_id,
+        customerProductId: product.id,
+        changeType,
+        oldQuantity: product.quantity,
+        newQuantity,
+      });
 
-      setProducts(prev => prev.map(p => p.id === id ? { ...p, quantity: newQty } : p));
-      toast({ title: "Quantity updated" });
-    } catch (error) {
-      console.error('Error updating quantity:', error);
-      toast({ title: "Failed to update quantity", variant: "destructive" });
+      setDraftQuantities(prev => {
+        const next = { ...prev };
+        delete next[product.id];
+        return next;
+      });
+      toast({
+        title: result.status === 'pending' ? 'Change sent for approval' : 'Change scheduled',
+        description: `Starts ${format(new Date(result.effectiveDate), 'EEE, dd MMM')}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error requesting subscription change:', error);
+      toast({
+        title: 'Failed to request change',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(null);
     }
   };
 
-  const toggleActive = async (id: string, isActive: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('customer_products')
-        .update({ is_active: isActive })
-        .eq('id', id);
-
-      if (error) throw error;
-
-      setProducts(prev => prev.map(p => p.id === id ? { ...p, is_active: isActive } : p));
-      toast({ title: isActive ? "Product activated" : "Product paused" });
-    } catch (error) {
-      console.error('Error toggling product:', error);
-      toast({ title: "Failed to update product", variant: "destructive" });
-    }
+  const updateQuantity = (id: string, newQty: number) => {
+    if (newQty < 0.25) return;
+    setDraftQuantities(prev => ({ ...prev, [id]: newQty }));
   };
 
-  const removeProduct = async (id: string) => {
+  const handleCancelChange = async (changeId: string) => {
+    setSubmitting(changeId);
     try {
-      const { error } = await supabase
-        .from('customer_products')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
-      setProducts(prev => prev.filter(p => p.id !== id));
-      toast({ title: "Product removed from subscription" });
-    } catch (error) {
-      console.error('Error removing product:', error);
-      toast({ title: "Failed to remove product", variant: "destructive" });
+      await cancelChange(changeId);
+      toast({ title: 'Change cancelled' });
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to cancel change',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(null);
     }
   };
 
@@ -206,6 +219,17 @@ export default function CustomerSubscription() {
         </Dialog>
       </div>
 
+      <Card className="bg-muted/50">
+        <CardContent className="py-3 flex items-start gap-3 text-sm">
+          <CalendarClock className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          <p className="text-muted-foreground">
+            Changes made before {settings.cutoffTime} apply from the next day's delivery; later changes start the day after.
+            A change made now starts <span className="font-medium text-foreground">{format(new Date(nextEffectiveDate(new Date(), settings.cutoffTime)), 'EEE, dd MMM')}</span>
+            {settings.requireApproval && ' once the dairy approves it'}.
+          </p>
+        </CardContent>
+      </Card>
+
       {loading ? (
         <div className="space-y-3">
           {[1, 2, 3].map(i => (
@@ -224,54 +248,110 @@ export default function CustomerSubscription() {
         </Card>
       ) : (
         <div className="space-y-3">
-          {products.map(product => (
-            <Card key={product.id} className={!product.is_active ? 'opacity-60' : ''}>
-              <CardContent className="pt-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Switch 
-                      checked={product.is_active} 
-                      onCheckedChange={v => toggleActive(product.id, v)} 
-                    />
-                    <div>
-                      <p className="font-medium">{product.product_name}</p>
-                      <p className="text-sm text-muted-foreground">
-                        ₹{(product.custom_price || product.base_price).toFixed(2)}/unit
-                      </p>
+          {products.map(product => {
+            const openChange = getOpenChange(product.product_id);
+            const draftQty = draftQuantities[product.id];
+            const displayQty = draftQty ?? product.quantity;
+            const isBusy = submitting === product.id;
+
+            return (
+              <Card key={product.id} className={!product.is_active ? 'opacity-60' : ''}>
+                <CardContent className="pt-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Switch
+                        checked={product.is_active}
+                        onCheckedChange={v => submitChange(product, v ? 'resume' : 'pause', null)}
+                        disabled={!!openChange || isBusy}
+                      />
+                      <div>
+                        <p className="font-medium">{product.product_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          ₹{(product.custom_price || product.base_price).toFixed(2)}/unit
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        onClick={() => updateQuantity(product.id, displayQty - 0.5)}
+                        disabled={displayQty <= 0.5 || !!openChange || isBusy}
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                      <span className="w-12 text-center font-bold">{displayQty}</span>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        onClick={() => updateQuantity(product.id, displayQty + 0.5)}
+                        disabled={!!openChange || isBusy}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => submitChange(product, 'remove', null)}
+                        disabled={!!openChange || isBusy}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button 
-                      size="icon" 
-                      variant="outline" 
-                      onClick={() => updateQuantity(product.id, product.quantity - 0.5)}
-                      disabled={product.quantity <= 0.25}
-                    >
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    <span className="w-12 text-center font-bold">{product.quantity}</span>
-                    <Button 
-                      size="icon" 
-                      variant="outline" 
-                      onClick={() => updateQuantity(product.id, product.quantity + 0.5)}
-                    >
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      size="icon" 
-                      variant="ghost" 
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => removeProduct(product.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+
+                  {draftQty !== undefined && draftQty !== product.quantity && (
+                    <div className="flex items-center justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setDraftQuantities(prev => {
+                          const next = { ...prev };
+                          delete next[product.id];
+                          return next;
+                        })}
+                        disabled={isBusy}
+                      >
+                        Undo
+                      </Button>
+                      <Button size="sm" onClick={() => submitChange(product, 'quantity', draftQty)} disabled={isBusy}>
+                        {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Change to {draftQty}
+                      </Button>
+                    </div>
+                  )}
+
+                  {openChange && (
+                    <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2 text-xs">
+                      <span>
+                        {describeSubscriptionChange(openChange, product.product_name)} from{' '}
+                        {format(new Date(openChange.effective_date), 'EEE, dd MMM')}
+                        {openChange.status === 'pending' && ' (awaiting approval)'}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => handleCancelChange(openChange.id)}
+                        disabled={submitting === openChange.id}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
+
+      <SubscriptionChangeHistory
+        changes={changes}
+        onCancel={handleCancelChange}
+        cancellingId={submitting}
+      />
     </div>
   );
 }
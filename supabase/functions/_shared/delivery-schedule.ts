@@ -0,0 +1,145 @@
+/**
+ * Shared delivery schedule evaluator
+ *
+ * Used by both the web auto-scheduler (src/lib/delivery-schedule.ts re-exports it)
+ * and the auto-deliver-daily edge function, so both decide delivery days identically.
+ * Keep this file free of Deno/browser-specific APIs and imports.
+ *
+ * Dates are handled as "yyyy-MM-dd" strings and evaluated in UTC so the result
+ * doesn't shift with the runtime's timezone.
+ */
+
+export type SchedulePattern = "daily" | "weekdays" | "alternate" | "every_n_days" | "monthly";
+
+export interface DeliveryScheduleRule {
+  customer_id: string;
+  customer_product_id: string | null;
+  pattern: SchedulePattern | string;
+  weekdays: number[] | null; // 0 = Sunday ... 6 = Saturday
+  interval_days: number | null;
+  anchor_date: string | null;
+  month_days: number[] | null; // 1-31; days past month end fall on the last day
+  start_date?: string | null;
+  end_date?: string | null;
+  auto_deliver: boolean | null;
+  is_active: boolean | null;
+}
+
+// Reference date the old notes-based scheduler used for alternate-day parity
+export const LEGACY_ALTERNATE_ANCHOR = "2024-01-01";
+
+const DAY_MS = 86400000;
+
+function toUtcDate(date: string): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Check if a schedule calls for a delivery on the given date
+ */
+export function shouldDeliverOnDate(rule: DeliveryScheduleRule, date: string): boolean {
+  if (rule.is_active === false) return false;
+  if (rule.start_date && date < rule.start_date) return false;
+  if (rule.end_date && date > rule.end_date) return false;
+
+  const target = toUtcDate(date);
+
+  switch (rule.pattern) {
+    case "daily":
+      return true;
+
+    case "weekdays":
+      return (rule.weekdays || []).includes(target.getUTCDay());
+
+    case "alternate":
+    case "every_n_days": {
+      const interval = rule.pattern === "alternate" ? 2 : Math.max(1, rule.interval_days || 1);
+      const diff = daysBetween(rule.anchor_date || LEGACY_ALTERNATE_ANCHOR, date);
+      // Works for dates before the anchor too (JS % keeps the sign)
+      return ((diff % interval) + interval) % interval === 0;
+    }
+
+    case "monthly": {
+      const dayOfMonth = target.getUTCDate();
+      const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+      return (rule.month_days || []).some((d) => Math.min(d, lastDay) === dayOfMonth);
+    }
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Build the implicit schedule for a customer who has no schedule rows,
+ * based on customers.subscription_type
+ */
+export function scheduleFromSubscriptionType(
+  customerId: string,
+  subscriptionType: string | null
+): DeliveryScheduleRule {
+  const base: DeliveryScheduleRule = {
+    customer_id: customerId,
+    customer_product_id: null,
+    pattern: "daily",
+    weekdays: null,
+    interval_days: null,
+    anchor_date: null,
+    month_days: null,
+    auto_deliver: false,
+    is_active: true,
+  };
+
+  switch (subscriptionType) {
+    case "alternate":
+      return { ...base, pattern: "alternate", anchor_date: LEGACY_ALTERNATE_ANCHOR };
+    case "weekly":
+      return { ...base, pattern: "weekdays", weekdays: [0] };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Pick the schedule that governs a subscription: a product-specific row wins
+ * over the customer-level row, which wins over the subscription_type fallback
+ */
+export function resolveSchedule(
+  schedules: DeliveryScheduleRule[],
+  customerId: string,
+  customerProductId: string | null,
+  subscriptionType: string | null
+): DeliveryScheduleRule {
+  const forCustomer = schedules.filter((s) => s.customer_id === customerId);
+  return (
+    (customerProductId && forCustomer.find((s) => s.customer_product_id === customerProductId)) ||
+    forCustomer.find((s) => !s.customer_product_id) ||
+    scheduleFromSubscriptionType(customerId, subscriptionType)
+  );
+}
+
+/**
+ * Filter a customer's subscriptions down to those due on a date.
+ * Also reports whether any due schedule asks for auto-delivery.
+ */
+export function getDueSubscriptions<T extends { id: string; customer_id: string }>(
+  subscriptions: T[],
+  schedules: DeliveryScheduleRule[],
+  customer: { id: string; subscription_type: string | null },
+  date: string
+): { due: T[]; autoDeliver: boolean } {
+  let autoDeliver = false;
+  const due = subscriptions.filter((sub) => {
+    if (sub.customer_id !== customer.id) return false;
+    const rule = resolveSchedule(schedules, customer.id, sub.id, customer.subscription_type);
+    const isDue = shouldDeliverOnDate(rule, date);
+    if (isDue && rule.auto_deliver) autoDeliver = true;
+    return isDue;
+  });
+  return { due, autoDeliver };
+}
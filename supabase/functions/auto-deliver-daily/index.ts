@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCorsPrelight } from "../_shared/cors.ts";
+import { getDueSubscriptions, type DeliveryScheduleRule } from "../_shared/delivery-schedule.ts";
 
 interface AutoDeliverResult {
   date: string;
@@ -58,10 +59,36 @@ Deno.serve(async (req) => {
   };
 
   try {
+    // Step 0: Apply approved subscription changes effective by today so the
+    // quantities below are the ones customers asked for before the cutoff
+    if (mode !== "auto_deliver_pending") {
+      const { data: appliedChanges, error: changeError } = await supabase.rpc(
+        "apply_subscription_changes",
+        { _as_of: targetDate },
+      );
+      if (changeError) {
+        result.errors.push(`Failed to apply subscription changes: ${changeError.message}`);
+      } else {
+        console.log(`[AUTO-DELIVER] Applied ${appliedChanges ?? 0} subscription changes`);
+      }
+
+      // Bill bottles held past the configured age as lost
+      const { data: lostBottles, error: bottleError } = await supabase.rpc(
+        "bill_overdue_bottles",
+        { _as_of: targetDate },
+      );
+      if (bottleError) {
+        result.errors.push(`Failed to bill overdue bottles: ${bottleError.message}`);
+      } else if (lostBottles) {
+        console.log(`[AUTO-DELIVER] Billed ${lostBottles} overdue bottles as lost`);
+      }
+    }
+
     // Step 1: Fetch active subscriptions
     const { data: subscriptions, error: subError } = await supabase
       .from("customer_products")
       .select(`
+        id,
         customer_id,
         product_id,
         quantity,
@@ -87,7 +114,7 @@ Deno.serve(async (req) => {
     // Step 2: Fetch customer details
     const { data: customers, error: custError } = await supabase
       .from("customers")
-      .select("id, name, subscription_type, notes, is_active")
+      .select("id, name, subscription_type, is_active, wallet_paused_at")
       .in("id", customerIds)
       .eq("is_active", true);
 
@@ -97,6 +124,19 @@ Deno.serve(async (req) => {
 
     const customerMap = new Map(customers?.map((c: any) => [c.id, c]) || []);
 
+    // Step 2b: Fetch delivery schedules (evaluated with the shared evaluator)
+    const { data: schedules, error: schedError } = await supabase
+      .from("delivery_schedules")
+      .select("*")
+      .in("customer_id", customerIds)
+      .eq("is_active", true);
+
+    if (schedError) {
+      throw new Error(`Failed to fetch delivery schedules: ${schedError.message}`);
+    }
+
+    const scheduleRules: DeliveryScheduleRule[] = schedules || [];
+
     // Step 3: Check vacations
     const { data: vacations } = await supabase
       .from("customer_vacations")
@@ -134,14 +174,27 @@ Deno.serve(async (req) => {
         continue;
       }
 
-      // Check delivery frequency
-      if (!shouldDeliverToday(customer, targetDate)) {
+      // Skip prepaid customers whose wallet has run out (past any grace)
+      if (customer.wallet_paused_at && mode !== "auto_deliver_pending") {
+        console.log(`[AUTO-DELIVER] Skipping ${customer.name}: prepaid wallet paused`);
+        result.skipped++;
+        continue;
+      }
+
+      // Check delivery schedule — only subscriptions due today are delivered
+      const { due: customerSubs } = getDueSubscriptions(
+        subscriptions || [],
+        scheduleRules,
+        customer,
+        targetDate
+      );
+
+      if (customerSubs.length === 0) {
         result.skipped++;
         continue;
       }
 
       const existingDelivery = existingDeliveryMap.get(customerId);
-      const customerSubs = subscriptions?.filter((s: any) => s.customer_id === customerId) || [];
 
       if (mode === "auto_deliver_pending") {
         // ONLY mark existing pending deliveries as delivered
@@ -233,66 +286,6 @@ Deno.serve(async (req) => {
   }
 });
 
-/**
- * Check if customer should receive delivery today based on frequency
- */
-function shouldDeliverToday(customer: any, targetDate: string): boolean {
-  const targetDateObj = new Date(targetDate);
-  const dayOfWeek = targetDateObj.getDay();
-  const dayOfMonth = targetDateObj.getDate();
-
-  // Day-of-week number to named key mapping
-  const dayNameMap: Record<number, string> = {
-    0: "sunday", 1: "monday", 2: "tuesday", 3: "wednesday",
-    4: "thursday", 5: "friday", 6: "saturday",
-  };
-
-  let schedule: any = null;
-  if (customer.notes) {
-    try {
-      const scheduleIdx = customer.notes.indexOf("Schedule:");
-      if (scheduleIdx !== -1) {
-        const jsonStr = customer.notes.substring(scheduleIdx + "Schedule:".length).trim();
-        schedule = JSON.parse(jsonStr);
-      }
-    } catch (_e) {
-      // Ignore parse errors
-    }
-  }
-
-  // Priority 1: UI-written delivery_days format (named day keys)
-  if (schedule?.delivery_days && typeof schedule.delivery_days === "object") {
-    const dayKey = dayNameMap[dayOfWeek];
-    // If the key exists, use its boolean value; otherwise default to true
-    return schedule.delivery_days[dayKey] !== false;
-  }
-
-  // Priority 2: Legacy frequency/days/day fields
-  const frequency = schedule?.frequency || customer.subscription_type || "daily";
-
-  switch (frequency) {
-    case "daily":
-      return true;
-    case "alternate": {
-      const refDate = new Date(2024, 0, 1);
-      const daysSinceRef = Math.floor(
-        (targetDateObj.getTime() - refDate.getTime()) / 86400000
-      );
-      return daysSinceRef % 2 === 0;
-    }
-    case "weekly": {
-      const deliveryDay = schedule?.day ?? 0;
-      return dayOfWeek === deliveryDay;
-    }
-    case "custom": {
-      const customDays: number[] = schedule?.days || [0, 1, 2, 3, 4, 5, 6];
-      return customDays.includes(dayOfWeek);
-    }
-    default:
-      return true;
-  }
-}
-
 /**
  * Mark an existing pending delivery as delivered
  */
@@ -1,6 +1,133 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCorsPrelight } from "../_shared/cors.ts";
 
+interface Shrinkage {
+  inflow: number;
+  shrinkage: number;
+}
+
+/** Litres in and litres accounted for on one date */
+interface MilkMovement {
+  date: string;
+  inflow: number;
+  accounted: number;
+}
+
+const PAGE_SIZE = 1000;
+
+// PostgREST returns at most 1000 rows per request, so read a page at a time
+async function fetchAll<T>(
+  label: string,
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${label}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Milk in (production + accepted procurement) and milk accounted for
+// (sales in milk-equivalent litres, processing batches, withheld milk and
+// logged wastage) per date, matching the milk balance report
+async function getMilkMovements(
+  supabase: SupabaseClient,
+  from: string,
+  to: string
+): Promise<MilkMovement[]> {
+  const [production, procurement, deliveries, processing, wastage] = await Promise.all([
+    fetchAll("milk_production", (start, end) =>
+      supabase
+        .from("milk_production")
+        .select("production_date, quantity_liters, is_withheld")
+        .gte("production_date", from)
+        .lte("production_date", to)
+        .order("id")
+        .range(start, end)
+    ),
+    fetchAll("milk_procurement", (start, end) =>
+      supabase
+        .from("milk_procurement")
+        .select("procurement_date, quantity_liters")
+        .neq("quality_status", "rejected")
+        .gte("procurement_date", from)
+        .lte("procurement_date", to)
+        .order("id")
+        .range(start, end)
+    ),
+    fetchAll("deliveries", (start, end) =>
+      supabase
+        .from("deliveries")
+        .select("delivery_date, delivery_items (quantity, stock_taken, products (milk_equivalent_liters))")
+        .eq("status", "delivered")
+        .gte("delivery_date", from)
+        .lte("delivery_date", to)
+        .order("id")
+        .range(start, end)
+    ),
+    fetchAll("processing_batches", (start, end) =>
+      supabase
+        .from("processing_batches")
+        .select("batch_date, milk_liters")
+        .gte("batch_date", from)
+        .lte("batch_date", to)
+        .order("id")
+        .range(start, end)
+    ),
+    fetchAll("milk_wastage", (start, end) =>
+      supabase
+        .from("milk_wastage")
+        .select("wastage_date, quantity_liters")
+        .gte("wastage_date", from)
+        .lte("wastage_date", to)
+        .order("id")
+        .range(start, end)
+    ),
+  ]);
+
+  const movements: MilkMovement[] = [];
+  production.forEach((p) => {
+    const litres = Number(p.quantity_liters);
+    movements.push({ date: p.production_date, inflow: litres, accounted: p.is_withheld ? litres : 0 });
+  });
+  procurement.forEach((p) => {
+    movements.push({ date: p.procurement_date, inflow: Number(p.quantity_liters), accounted: 0 });
+  });
+  deliveries.forEach((d) => {
+    // Items served from batch stock were counted as processed milk when the batch was made
+    const sold = (d.delivery_items || []).reduce(
+      (items, item) =>
+        Number(item.stock_taken) > 0
+          ? items
+          : items + Number(item.quantity) * Number(item.products?.milk_equivalent_liters || 0),
+      0
+    );
+    movements.push({ date: d.delivery_date, inflow: 0, accounted: sold });
+  });
+  processing.forEach((b) => {
+    movements.push({ date: b.batch_date, inflow: 0, accounted: Number(b.milk_liters) });
+  });
+  wastage.forEach((w) => {
+    movements.push({ date: w.wastage_date, inflow: 0, accounted: Number(w.quantity_liters) });
+  });
+  return movements;
+}
+
+function shrinkageSince(movements: MilkMovement[], from: string): Shrinkage {
+  const inWindow = movements.filter((m) => m.date >= from);
+  const inflow = inWindow.reduce((total, m) => total + m.inflow, 0);
+  const accounted = inWindow.reduce((total, m) => total + m.accounted, 0);
+  return { inflow, shrinkage: inflow - accounted };
+}
+
+function formatShrinkage({ inflow, shrinkage }: Shrinkage): string {
+  const rate = inflow > 0 ? ` (${((shrinkage / inflow) * 100).toFixed(1)}%)` : "";
+  return `${shrinkage.toFixed(1)}L${rate}`;
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   const corsResponse = handleCorsPrelight(req);
@@ -50,12 +177,15 @@ Deno.serve(async (req) => {
     // Fetch production data
     const { data: production } = await supabase
       .from("milk_production")
-      .select("quantity_liters, session")
+      .select("quantity_liters, session, is_withheld")
       .eq("production_date", today);
 
     const morningProduction = production?.filter(p => p.session === "morning").reduce((sum, p) => sum + Number(p.quantity_liters), 0) || 0;
     const eveningProduction = production?.filter(p => p.session === "evening").reduce((sum, p) => sum + Number(p.quantity_liters), 0) || 0;
     const totalProduction = morningProduction + eveningProduction;
+    // Milk inside a treatment withdrawal window is logged but discarded
+    const discardedProduction = production?.filter(p => p.is_withheld).reduce((sum, p) => sum + Number(p.quantity_liters), 0) || 0;
+    const saleableProduction = totalProduction - discardedProduction;
 
     // Fetch procurement data
     const { data: procurement } = await supabase
@@ -77,14 +207,31 @@ Deno.serve(async (req) => {
     const pendingCount = deliveries?.filter(d => d.status === "pending").length || 0;
     const missedCount = deliveries?.filter(d => d.status === "missed").length || 0;
 
-    // Fetch payments data
+    // Fetch payments data (customer UTR submissions count once verified)
     const { data: payments } = await supabase
       .from("payments")
       .select("amount")
-      .eq("payment_date", today);
+      .eq("payment_date", today)
+      .eq("status", "verified");
 
     const todayRevenue = payments?.reduce((sum, p) => sum + Number(p.amount), 0) || 0;
 
+    // Milk balance: today, this week (from Monday) and this month
+    const todayDate = new Date(`${today}T00:00:00Z`);
+    const weekStart = new Date(todayDate.getTime() - ((todayDate.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split("T")[0];
+    const monthStart = `${today.slice(0, 7)}-01`;
+    // One read covers all three windows; the week can start in the previous month
+    let shrinkageLine = "unavailable";
+    try {
+      const movements = await getMilkMovements(supabase, weekStart < monthStart ? weekStart : monthStart, today);
+      shrinkageLine = `${formatShrinkage(shrinkageSince(movements, today))}
+   Week: ${formatShrinkage(shrinkageSince(movements, weekStart))} | Month: ${formatShrinkage(shrinkageSince(movements, monthStart))}`;
+    } catch (err) {
+      console.error("[DAILY-SUMMARY] Milk balance failed:", err.message);
+    }
+
     // Fetch pending invoices
     const { data: pendingInvoices } = await supabase
       .from("invoices")
@@ -141,10 +288,13 @@ Deno.serve(async (req) => {
 
 🥛 <b>Production:</b> ${totalProduction.toFixed(1)}L
    Morning: ${morningProduction.toFixed(1)}L | Evening: ${eveningProduction.toFixed(1)}L
+   Saleable: ${saleableProduction.toFixed(1)}L | Discarded: ${discardedProduction.toFixed(1)}L
 
 📦 <b>Procurement:</b> ${totalProcured.toFixed(1)}L from ${vendorCount} vendor${vendorCount !== 1 ? 's' : ''}
    Cost: ₹${procurementCost.toLocaleString("en-IN")}
 
+⚖️ <b>Milk Shrinkage:</b> ${shrinkageLine}
+
 🚚 <b>Deliveries:</b> ${deliveredCount} completed
    Pending: ${pendingCount} | Missed: ${missedCount}
 
@@ -50,7 +50,7 @@ ${data.reference ? `Ref: ${data.reference}` : ""}
       return `🥛 <b>PRODUCTION RECORDED</b>
 Session: ${data.session || "Unknown"}
 Quantity: ${data.quantity}L
-${data.cattle_count ? `From ${data.cattle_count} cattle` : ""}`;
+${data.discarded ? `Discarded (withdrawal): ${data.discarded}L\n` : ""}${data.cattle_count ? `From ${data.cattle_count} cattle` : ""}`;
 
     case "procurement_recorded":
       return `📦 <b>PROCUREMENT RECORDED</b>
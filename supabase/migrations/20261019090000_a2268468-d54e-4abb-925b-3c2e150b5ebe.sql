@@ -0,0 +1,15 @@
+-- Quality-based procurement pricing
+-- Vendors carry a base rate; each procurement entry keeps the base rate it was
+-- priced from and a snapshot of the price rules that adjusted it.
+ALTER TABLE public.milk_vendors
+ADD COLUMN IF NOT EXISTS base_rate NUMERIC;
+
+ALTER TABLE public.milk_procurement
+ADD COLUMN IF NOT EXISTS base_rate NUMERIC,
+ADD COLUMN IF NOT EXISTS applied_price_rules JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.milk_procurement.applied_price_rules IS
+  'Snapshot of price_rules applied to this entry: [{rule_id, name, adjustment_type, price_adjustment, amount_per_liter}]';
+
+-- Speeds up re-pricing a date range
+CREATE INDEX IF NOT EXISTS idx_milk_procurement_date ON public.milk_procurement(procurement_date);
@@ -0,0 +1,152 @@
+-- First-class delivery schedules
+-- Replaces the "Schedule:{...}" JSON blob that used to live in customers.notes.
+-- A row with customer_product_id NULL is the customer's default schedule;
+-- a row with customer_product_id set overrides it for that subscription.
+CREATE TABLE public.delivery_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  customer_product_id UUID REFERENCES public.customer_products(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL DEFAULT 'daily'
+    CHECK (pattern IN ('daily', 'weekdays', 'alternate', 'every_n_days', 'monthly')),
+  weekdays INTEGER[],         -- 0 = Sunday ... 6 = Saturday (pattern = weekdays)
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days >= 1),
+  anchor_date DATE,           -- first delivery day for alternate / every_n_days
+  month_days INTEGER[],       -- 1-31 (pattern = monthly)
+  start_date DATE,
+  end_date DATE,
+  auto_deliver BOOLEAN DEFAULT false,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- One default schedule per customer, one override per subscription
+CREATE UNIQUE INDEX idx_delivery_schedules_customer_default
+  ON public.delivery_schedules(customer_id) WHERE customer_product_id IS NULL;
+CREATE UNIQUE INDEX idx_delivery_schedules_customer_product
+  ON public.delivery_schedules(customer_product_id) WHERE customer_product_id IS NOT NULL;
+
+ALTER TABLE public.delivery_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to delivery_schedules"
+  ON public.delivery_schedules FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Delivery staff can read delivery_schedules"
+  ON public.delivery_schedules FOR SELECT
+  USING (has_role(auth.uid(), 'delivery_staff'::user_role));
+
+CREATE POLICY "Auditors can read delivery_schedules"
+  ON public.delivery_schedules FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Customers can view own delivery_schedules"
+  ON public.delivery_schedules FOR SELECT
+  USING (customer_id = public.get_customer_id_from_session());
+
+CREATE TRIGGER update_delivery_schedules_updated_at
+  BEFORE UPDATE ON public.delivery_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- Lift notes-embedded schedules into delivery_schedules
+-- ============================================================================
+-- Temporary helper: {"monday": true, ...} -> {1, ...}
+CREATE OR REPLACE FUNCTION public._delivery_days_to_weekdays(_days JSONB)
+RETURNS INTEGER[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg((d.n - 1)::INTEGER ORDER BY d.n), '{}')
+  FROM unnest(ARRAY['sunday','monday','tuesday','wednesday','thursday','friday','saturday'])
+    WITH ORDINALITY AS d(name, n)
+  WHERE COALESCE((_days ->> d.name)::BOOLEAN, false);
+$$;
+
+DO $$
+DECLARE
+  _cust RECORD;
+  _schedule JSONB;
+  _weekdays INTEGER[];
+  _frequency TEXT;
+  _product RECORD;
+BEGIN
+  FOR _cust IN
+    SELECT id, notes, subscription_type FROM public.customers WHERE notes LIKE '%Schedule:%'
+  LOOP
+    BEGIN
+      _schedule := trim(substring(_cust.notes FROM position('Schedule:' IN _cust.notes) + length('Schedule:')))::JSONB;
+    EXCEPTION WHEN others THEN
+      RAISE NOTICE 'Skipping customer %: schedule in notes is not valid JSON', _cust.id;
+      CONTINUE;
+    END;
+
+    -- Customer default: the UI-written delivery_days took priority in both old evaluators
+    IF jsonb_typeof(_schedule -> 'delivery_days') = 'object' THEN
+      _weekdays := public._delivery_days_to_weekdays(_schedule -> 'delivery_days');
+      INSERT INTO public.delivery_schedules (customer_id, pattern, weekdays, auto_deliver)
+      VALUES (
+        _cust.id,
+        CASE WHEN array_length(_weekdays, 1) = 7 THEN 'daily' ELSE 'weekdays' END,
+        CASE WHEN array_length(_weekdays, 1) = 7 THEN NULL ELSE _weekdays END,
+        COALESCE((_schedule ->> 'auto_deliver')::BOOLEAN, false)
+      )
+      ON CONFLICT DO NOTHING;
+    ELSE
+      -- Legacy frequency/days/day fields
+      _frequency := COALESCE(_schedule ->> 'frequency', _cust.subscription_type, 'daily');
+      INSERT INTO public.delivery_schedules (customer_id, pattern, weekdays, anchor_date, auto_deliver)
+      VALUES (
+        _cust.id,
+        CASE _frequency
+          WHEN 'alternate' THEN 'alternate'
+          WHEN 'weekly' THEN 'weekdays'
+          WHEN 'custom' THEN 'weekdays'
+          ELSE 'daily'
+        END,
+        CASE _frequency
+          WHEN 'weekly' THEN ARRAY[COALESCE((_schedule ->> 'day')::INTEGER, 0)]
+          WHEN 'custom' THEN CASE
+            WHEN jsonb_typeof(_schedule -> 'days') = 'array'
+              THEN ARRAY(SELECT jsonb_array_elements_text(_schedule -> 'days')::INTEGER)
+            ELSE ARRAY[0,1,2,3,4,5,6]
+          END
+          ELSE NULL
+        END,
+        CASE WHEN _frequency = 'alternate' THEN DATE '2024-01-01' ELSE NULL END,
+        COALESCE((_schedule ->> 'auto_deliver')::BOOLEAN, false)
+      )
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    -- Per-product overrides written by the subscription selector
+    IF jsonb_typeof(_schedule -> 'product_schedules') = 'object' THEN
+      FOR _product IN
+        SELECT cp.id AS customer_product_id, ps.value AS product_schedule
+        FROM jsonb_each(_schedule -> 'product_schedules') AS ps(key, value)
+        JOIN public.customer_products cp
+          ON cp.customer_id = _cust.id AND cp.product_id::TEXT = ps.key
+        WHERE jsonb_typeof(ps.value -> 'delivery_days') = 'object'
+      LOOP
+        _weekdays := public._delivery_days_to_weekdays(_product.product_schedule -> 'delivery_days');
+        INSERT INTO public.delivery_schedules (customer_id, customer_product_id, pattern, weekdays, auto_deliver)
+        VALUES (
+          _cust.id,
+          _product.customer_product_id,
+          CASE WHEN array_length(_weekdays, 1) = 7 THEN 'daily' ELSE 'weekdays' END,
+          CASE WHEN array_length(_weekdays, 1) = 7 THEN NULL ELSE _weekdays END,
+          COALESCE((_schedule ->> 'auto_deliver')::BOOLEAN, false)
+        )
+        ON CONFLICT DO NOTHING;
+      END LOOP;
+    END IF;
+
+    -- Strip the lifted blob (and the separator the UI added before it) from notes
+    UPDATE public.customers
+    SET notes = NULLIF(trim(regexp_replace(notes, '\s*(---\s*)?Schedule:\s*\{.*\}\s*$', '')), '')
+    WHERE id = _cust.id;
+  END LOOP;
+END;
+$$;
+
+DROP FUNCTION public._delivery_days_to_weekdays(JSONB);
@@ -0,0 +1,45 @@
+-- GST tax invoices
+-- Products carry an HSN code and tax class next to the existing tax_percentage
+-- (used as the GST rate); the dairy and customers get a GSTIN and state code
+-- so each invoice can record its place of supply and CGST/SGST/IGST split.
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'taxable'
+  CHECK (tax_class IN ('taxable', 'exempt', 'nil_rated', 'non_gst'));
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS gstin TEXT,
+ADD COLUMN IF NOT EXISTS state_code TEXT;
+
+ALTER TABLE public.dairy_settings
+ADD COLUMN IF NOT EXISTS gstin TEXT,
+ADD COLUMN IF NOT EXISTS state_code TEXT;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS supplier_gstin TEXT,
+ADD COLUMN IF NOT EXISTS customer_gstin TEXT,
+ADD COLUMN IF NOT EXISTS place_of_supply TEXT,
+ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS igst_amount NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tax_breakup JSONB;
+
+COMMENT ON COLUMN public.invoices.tax_breakup IS
+  'Per-line GST snapshot: [{product_id, description, hsn_code, tax_class, unit, quantity, rate, taxable_value, gst_rate, cgst_amount, sgst_amount, igst_amount, total}]';
+
+-- Existing products without a tax rate are fresh milk and similar exempt supplies
+UPDATE public.products
+SET tax_class = 'exempt'
+WHERE COALESCE(tax_percentage, 0) = 0;
+
+UPDATE public.products
+SET hsn_code = CASE category
+  WHEN 'milk' THEN '0401'
+  WHEN 'curd' THEN '0403'
+  WHEN 'buttermilk' THEN '0403'
+  WHEN 'lassi' THEN '0403'
+  WHEN 'paneer' THEN '0406'
+  WHEN 'ghee' THEN '0405'
+  WHEN 'butter' THEN '0405'
+END
+WHERE hsn_code IS NULL;
@@ -0,0 +1,41 @@
+-- Customer-submitted UPI payments
+-- Customers pay from the portal via the invoice's upi://pay QR and submit the
+-- UTR (UPI transaction reference). That creates a pending payment which an
+-- accountant verifies before it touches the invoice or the ledger.
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'verified'
+    CHECK (status IN ('pending', 'verified', 'rejected')),
+  ADD COLUMN IF NOT EXISTS verified_by UUID,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.payments.status IS
+  'pending = submitted by the customer and awaiting verification; only verified payments count as collections';
+
+-- A UTR can only be claimed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_upi_reference
+  ON public.payments(reference_number)
+  WHERE payment_mode = 'upi' AND reference_number IS NOT NULL AND status <> 'rejected';
+
+CREATE INDEX IF NOT EXISTS idx_payments_pending
+  ON public.payments(created_at)
+  WHERE status = 'pending';
+
+-- Customers may only submit pending UPI payments against their own invoices
+CREATE POLICY "Customers can submit own UPI payments"
+  ON public.payments FOR INSERT
+  WITH CHECK (
+    customer_id = public.get_customer_id_from_session()
+    AND status = 'pending'
+    AND payment_mode = 'upi'
+    AND reference_number IS NOT NULL
+    AND recorded_by IS NULL
+    AND verified_by IS NULL
+    AND (
+      invoice_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.invoices i
+        WHERE i.id = payments.invoice_id
+          AND i.customer_id = payments.customer_id
+      )
+    )
+  );
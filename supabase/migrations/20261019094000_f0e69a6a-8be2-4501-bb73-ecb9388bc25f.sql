@@ -0,0 +1,76 @@
+-- Bank / UPI statement reconciliation
+-- Statements are uploaded as CSV/XLSX; each credit line is stored once
+-- (fingerprint) and either matched to a customer/invoice, which posts a
+-- payment, or parked as unmatched until the accountant assigns it.
+CREATE TABLE public.bank_statement_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'bank' CHECK (source IN ('bank', 'upi')),
+  statement_from DATE,
+  statement_to DATE,
+  total_lines INTEGER NOT NULL DEFAULT 0,
+  total_credit NUMERIC NOT NULL DEFAULT 0,
+  imported_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.bank_statement_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_id UUID NOT NULL REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE,
+  transaction_date DATE NOT NULL,
+  description TEXT,
+  reference TEXT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  -- date|amount|reference|description, so re-uploading an overlapping statement skips known lines
+  fingerprint TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unmatched'
+    CHECK (status IN ('unmatched', 'suggested', 'matched', 'ignored')),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  match_score INTEGER,
+  match_reasons TEXT[],
+  matched_by UUID,
+  matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+COMMENT ON COLUMN public.bank_statement_lines.payment_id IS
+  'Payment posted for this line; while suggested, the customer-submitted pending payment with the same UTR';
+
+CREATE UNIQUE INDEX idx_bank_statement_lines_fingerprint
+  ON public.bank_statement_lines(fingerprint);
+CREATE INDEX idx_bank_statement_lines_status
+  ON public.bank_statement_lines(status, transaction_date);
+
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to bank_statement_imports"
+  ON public.bank_statement_imports FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage bank_statement_imports"
+  ON public.bank_statement_imports FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read bank_statement_imports"
+  ON public.bank_statement_imports FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to bank_statement_lines"
+  ON public.bank_statement_lines FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage bank_statement_lines"
+  ON public.bank_statement_lines FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read bank_statement_lines"
+  ON public.bank_statement_lines FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE TRIGGER update_bank_statement_lines_updated_at
+  BEFORE UPDATE ON public.bank_statement_lines
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
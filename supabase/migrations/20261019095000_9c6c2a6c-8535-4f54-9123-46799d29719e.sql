@@ -0,0 +1,26 @@
+-- Route optimisation
+-- Customers get map coordinates so stops can be sequenced locally, and each
+-- route carries the timing used to recompute stop ETAs after reordering.
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS latitude NUMERIC(9, 6),
+  ADD COLUMN IF NOT EXISTS longitude NUMERIC(9, 6);
+
+ALTER TABLE public.customers
+  ADD CONSTRAINT customers_coordinates_check CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+ALTER TABLE public.routes
+  ADD COLUMN IF NOT EXISTS start_time TIME NOT NULL DEFAULT '05:30',
+  ADD COLUMN IF NOT EXISTS service_minutes INTEGER NOT NULL DEFAULT 3
+    CHECK (service_minutes >= 0 AND service_minutes <= 60),
+  ADD COLUMN IF NOT EXISTS average_speed_kmph NUMERIC(5, 1) NOT NULL DEFAULT 15
+    CHECK (average_speed_kmph > 0),
+  ADD COLUMN IF NOT EXISTS start_latitude NUMERIC(9, 6),
+  ADD COLUMN IF NOT EXISTS start_longitude NUMERIC(9, 6);
+
+COMMENT ON COLUMN public.routes.start_latitude IS
+  'Depot or pickup point the van leaves from; ETAs start here';
+COMMENT ON COLUMN public.routes.service_minutes IS
+  'Minutes spent at each stop, added between ETAs';
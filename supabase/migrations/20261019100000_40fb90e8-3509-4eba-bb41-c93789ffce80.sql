@@ -0,0 +1,201 @@
+-- Subscription change requests
+-- Customers no longer edit customer_products directly. Each change is a
+-- request with an effective date set by the daily cutoff in
+-- dairy_settings.settings ("subscription_cutoff_time", default 20:00 IST):
+-- before the cutoff it applies from tomorrow, after it from the day after.
+-- With "subscription_changes_require_approval" on, requests wait for staff.
+-- Approved requests are applied by apply_subscription_changes() just before
+-- the scheduler creates deliveries for a date.
+CREATE TABLE public.subscription_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  customer_product_id UUID REFERENCES public.customer_products(id) ON DELETE SET NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL
+    CHECK (change_type IN ('add', 'quantity', 'pause', 'resume', 'remove')),
+  old_quantity NUMERIC,
+  new_quantity NUMERIC CHECK (new_quantity IS NULL OR new_quantity > 0),
+  effective_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (status IN ('pending', 'approved', 'applied', 'rejected', 'cancelled')),
+  source TEXT NOT NULL DEFAULT 'staff' CHECK (source IN ('customer', 'staff')),
+  review_note TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (change_type NOT IN ('add', 'quantity') OR new_quantity IS NOT NULL)
+);
+
+CREATE INDEX idx_subscription_changes_customer
+  ON public.subscription_change_requests(customer_id, created_at DESC);
+CREATE INDEX idx_subscription_changes_open
+  ON public.subscription_change_requests(effective_date)
+  WHERE status IN ('pending', 'approved');
+
+-- First date a change requested at _at can take effect
+CREATE OR REPLACE FUNCTION public.subscription_change_effective_date(_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cutoff TIME;
+  _local TIMESTAMP := _at AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  SELECT COALESCE(NULLIF(settings->>'subscription_cutoff_time', '')::TIME, '20:00'::TIME)
+    INTO _cutoff
+  FROM public.dairy_settings
+  LIMIT 1;
+
+  IF _local::TIME < COALESCE(_cutoff, '20:00'::TIME) THEN
+    RETURN _local::DATE + 1;
+  END IF;
+  RETURN _local::DATE + 2;
+END;
+$$;
+
+-- Customer requests can't beat the cutoff and may need staff approval
+CREATE OR REPLACE FUNCTION public.prepare_subscription_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requires_approval BOOLEAN;
+BEGIN
+  IF NEW.source = 'customer' THEN
+    NEW.effective_date := GREATEST(
+      COALESCE(NEW.effective_date, public.subscription_change_effective_date(now())),
+      public.subscription_change_effective_date(now())
+    );
+
+    SELECT COALESCE((settings->>'subscription_changes_require_approval')::BOOLEAN, false)
+      INTO _requires_approval
+    FROM public.dairy_settings
+    LIMIT 1;
+
+    NEW.status := CASE WHEN COALESCE(_requires_approval, false) THEN 'pending' ELSE 'approved' END;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.applied_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_subscription_change_request
+  BEFORE INSERT ON public.subscription_change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_subscription_change_request();
+
+CREATE TRIGGER update_subscription_change_requests_updated_at
+  BEFORE UPDATE ON public.subscription_change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Apply approved changes due on or before _as_of, oldest first.
+-- Called by the scheduler for the date it is about to create deliveries for.
+CREATE OR REPLACE FUNCTION public.apply_subscription_changes(_as_of DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _req RECORD;
+  _cp_id UUID;
+  _applied INTEGER := 0;
+BEGIN
+  -- Service-role calls (edge function) have no auth.uid()
+  IF auth.uid() IS NOT NULL
+     AND NOT (public.is_manager_or_admin(auth.uid()) OR public.has_role(auth.uid(), 'delivery_staff'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to apply subscription changes';
+  END IF;
+
+  FOR _req IN
+    SELECT * FROM public.subscription_change_requests
+    WHERE status = 'approved' AND effective_date <= _as_of
+    ORDER BY effective_date, created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    _cp_id := _req.customer_product_id;
+    IF _cp_id IS NULL THEN
+      SELECT id INTO _cp_id FROM public.customer_products
+      WHERE customer_id = _req.customer_id AND product_id = _req.product_id
+      LIMIT 1;
+    END IF;
+
+    IF _req.change_type = 'add' THEN
+      IF _cp_id IS NULL THEN
+        INSERT INTO public.customer_products (customer_id, product_id, quantity, is_active)
+        VALUES (_req.customer_id, _req.product_id, _req.new_quantity, true)
+        RETURNING id INTO _cp_id;
+      ELSE
+        UPDATE public.customer_products
+        SET quantity = _req.new_quantity, is_active = true
+        WHERE id = _cp_id;
+      END IF;
+    ELSIF _cp_id IS NOT NULL THEN
+      IF _req.change_type = 'quantity' THEN
+        UPDATE public.customer_products SET quantity = _req.new_quantity WHERE id = _cp_id;
+      ELSIF _req.change_type = 'pause' THEN
+        UPDATE public.customer_products SET is_active = false WHERE id = _cp_id;
+      ELSIF _req.change_type = 'resume' THEN
+        UPDATE public.customer_products SET is_active = true WHERE id = _cp_id;
+      ELSIF _req.change_type = 'remove' THEN
+        DELETE FROM public.customer_products WHERE id = _cp_id;
+        _cp_id := NULL;
+      END IF;
+    END IF;
+
+    UPDATE public.subscription_change_requests
+    SET status = 'applied', applied_at = now(), customer_product_id = _cp_id
+    WHERE id = _req.id;
+    _applied := _applied + 1;
+  END LOOP;
+
+  RETURN _applied;
+END;
+$$;
+
+ALTER TABLE public.subscription_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to subscription_change_requests"
+  ON public.subscription_change_requests FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Delivery staff can read subscription_change_requests"
+  ON public.subscription_change_requests FOR SELECT
+  USING (has_role(auth.uid(), 'delivery_staff'::user_role));
+
+CREATE POLICY "Customers can view own subscription changes"
+  ON public.subscription_change_requests FOR SELECT
+  USING (customer_id = public.get_customer_id_from_session());
+
+CREATE POLICY "Customers can request subscription changes"
+  ON public.subscription_change_requests FOR INSERT
+  WITH CHECK (
+    customer_id = public.get_customer_id_from_session()
+    AND source = 'customer'
+  );
+
+-- Customers may withdraw a change that hasn't been applied yet
+CREATE POLICY "Customers can cancel own open subscription changes"
+  ON public.subscription_change_requests FOR UPDATE
+  USING (
+    customer_id = public.get_customer_id_from_session()
+    AND status IN ('pending', 'approved')
+  )
+  WITH CHECK (
+    customer_id = public.get_customer_id_from_session()
+    AND status = 'cancelled'
+  );
+
+-- Subscriptions now change only through requests; customers keep read
+-- access and staff keep the existing full-access policy
+DROP POLICY IF EXISTS "Customers can add own products" ON public.customer_products;
+DROP POLICY IF EXISTS "Customers can update own products" ON public.customer_products;
+DROP POLICY IF EXISTS "Customers can delete own products" ON public.customer_products;
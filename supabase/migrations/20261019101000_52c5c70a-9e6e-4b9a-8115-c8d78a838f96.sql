@@ -0,0 +1,268 @@
+-- Prepaid wallet
+-- Customers on the 'prepaid' billing cycle pay in advance. Every delivered
+-- delivery debits their ledger the day it is delivered (instead of being
+-- collected on a monthly invoice) and payments top the wallet up through
+-- the usual ledger credit. Wallet balance = -credit_balance, so it can dip
+-- below zero by up to the customer's grace amount; past that the customer
+-- is paused and the scheduler skips them until they top up.
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS wallet_low_balance_threshold NUMERIC(10,2) NOT NULL DEFAULT 100
+    CHECK (wallet_low_balance_threshold >= 0),
+  ADD COLUMN IF NOT EXISTS wallet_grace_amount NUMERIC(10,2) NOT NULL DEFAULT 0
+    CHECK (wallet_grace_amount >= 0),
+  ADD COLUMN IF NOT EXISTS wallet_paused_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.customers.wallet_grace_amount IS
+  'How far below zero a prepaid wallet may go before deliveries are paused';
+COMMENT ON COLUMN public.customers.wallet_paused_at IS
+  'Set while a prepaid customer is out of balance; cleared by a top-up';
+
+INSERT INTO public.notification_templates (name, template_type, channel, subject, body, variables) VALUES
+  ('Low Wallet Balance', 'wallet_low_balance', 'whatsapp', NULL,
+   'Dear {{customer_name}}, your milk wallet balance is ₹{{balance}}. Please top up to keep deliveries running.',
+   '["customer_name", "balance"]'),
+  ('Wallet Deliveries Paused', 'wallet_paused', 'whatsapp', NULL,
+   'Dear {{customer_name}}, your milk wallet balance is ₹{{balance}} and deliveries are paused. Top up to resume from the next delivery.',
+   '["customer_name", "balance"]');
+
+-- advance_balance now follows the ledger too: it is whatever the customer
+-- has paid beyond their charges, so wallet debits draw it down
+CREATE OR REPLACE FUNCTION public.update_customer_balance_from_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _total_debit NUMERIC;
+  _total_credit NUMERIC;
+  _balance NUMERIC;
+  _target_customer_id UUID;
+BEGIN
+  -- Get the customer_id from either NEW or OLD record
+  _target_customer_id := COALESCE(NEW.customer_id, OLD.customer_id);
+  
+  -- Calculate totals from ledger
+  SELECT 
+    COALESCE(SUM(debit_amount), 0),
+    COALESCE(SUM(credit_amount), 0)
+  INTO _total_debit, _total_credit
+  FROM customer_ledger
+  WHERE customer_id = _target_customer_id;
+  
+  -- Balance = debit (charges) - credit (payments)
+  -- Positive = customer owes money, Negative = customer has credit
+  _balance := _total_debit - _total_credit;
+  
+  UPDATE customers
+  SET credit_balance = _balance,
+      advance_balance = GREATEST(-_balance, 0),
+      updated_at = NOW()
+  WHERE id = _target_customer_id;
+  
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+UPDATE public.customers
+SET advance_balance = GREATEST(-COALESCE(credit_balance, 0), 0);
+
+-- Queue a WhatsApp message to the customer from a notification template
+CREATE OR REPLACE FUNCTION public.queue_wallet_notification(_customer public.customers, _template_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template RECORD;
+  _balance TEXT := to_char(-COALESCE(_customer.credit_balance, 0), 'FM9999990.00');
+BEGIN
+  SELECT id, channel, subject, body INTO _template
+  FROM public.notification_templates
+  WHERE template_type = _template_type AND COALESCE(is_active, true)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF _template.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notification_logs (
+    template_id, recipient_type, recipient_id, recipient_contact,
+    channel, subject, body, status
+  ) VALUES (
+    _template.id, 'customer', _customer.id, _customer.phone,
+    _template.channel, _template.subject,
+    replace(replace(_template.body, '{{customer_name}}', _customer.name), '{{balance}}', _balance),
+    'pending'
+  );
+END;
+$$;
+
+-- Keep the pause flag in step with the wallet and queue the low-balance /
+-- paused messages when a balance change crosses either line
+CREATE OR REPLACE FUNCTION public.sync_prepaid_wallet_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet NUMERIC := -COALESCE(NEW.credit_balance, 0);
+  _old_wallet NUMERIC := -COALESCE(OLD.credit_balance, 0);
+BEGIN
+  IF NEW.billing_cycle IS DISTINCT FROM 'prepaid' THEN
+    NEW.wallet_paused_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF _wallet <= -NEW.wallet_grace_amount THEN
+    IF NEW.wallet_paused_at IS NULL THEN
+      NEW.wallet_paused_at := now();
+      PERFORM public.queue_wallet_notification(NEW, 'wallet_paused');
+    END IF;
+  ELSE
+    NEW.wallet_paused_at := NULL;
+    IF _wallet <= NEW.wallet_low_balance_threshold
+       AND _old_wallet > NEW.wallet_low_balance_threshold
+       AND OLD.billing_cycle = 'prepaid' THEN
+      PERFORM public.queue_wallet_notification(NEW, 'wallet_low_balance');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_prepaid_wallet_state
+  BEFORE UPDATE OF credit_balance, billing_cycle, wallet_grace_amount, wallet_low_balance_threshold
+  ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.sync_prepaid_wallet_state();
+
+-- Bring a delivery's wallet debit in line with its items and status.
+-- Safe to call repeatedly: it posts only the difference from what is
+-- already on the ledger for the delivery, refunding if it is no longer
+-- delivered or items were removed.
+CREATE OR REPLACE FUNCTION public.charge_prepaid_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery RECORD;
+  _target NUMERIC := 0;
+  _charged NUMERIC;
+  _diff NUMERIC;
+BEGIN
+  SELECT d.id, d.customer_id, d.delivery_date, d.status, c.billing_cycle
+    INTO _delivery
+  FROM public.deliveries d
+  JOIN public.customers c ON c.id = d.customer_id
+  WHERE d.id = _delivery_id;
+
+  IF _delivery.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(debit_amount, 0) - COALESCE(credit_amount, 0)), 0)
+    INTO _charged
+  FROM public.customer_ledger
+  WHERE reference_id = _delivery_id
+    AND transaction_type IN ('wallet_debit', 'wallet_refund');
+
+  -- Customers who move off prepaid keep what was already charged
+  IF _delivery.billing_cycle IS DISTINCT FROM 'prepaid' AND _charged = 0 THEN
+    RETURN;
+  END IF;
+
+  IF _delivery.status = 'delivered' AND _delivery.billing_cycle = 'prepaid' THEN
+    SELECT COALESCE(SUM(total_amount), 0) INTO _target
+    FROM public.delivery_items
+    WHERE delivery_id = _delivery_id;
+  ELSIF _delivery.status = 'delivered' THEN
+    _target := _charged;
+  END IF;
+
+  _diff := round(_target - _charged, 2);
+  IF _diff = 0 THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.insert_ledger_with_balance(
+    _delivery.customer_id,
+    _delivery.delivery_date,
+    CASE WHEN _diff > 0 THEN 'wallet_debit' ELSE 'wallet_refund' END,
+    CASE WHEN _diff > 0
+      THEN 'Delivery ' || to_char(_delivery.delivery_date, 'DD Mon YYYY')
+      ELSE 'Delivery adjustment ' || to_char(_delivery.delivery_date, 'DD Mon YYYY')
+    END,
+    GREATEST(_diff, 0),
+    GREATEST(-_diff, 0),
+    _delivery_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.charge_prepaid_delivery_on_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.charge_prepaid_delivery(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER charge_prepaid_delivery_on_status
+  AFTER INSERT OR UPDATE OF status ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.charge_prepaid_delivery_on_status();
+
+-- Items are usually written after the delivery row, often in one batch, so
+-- these run once per statement and charge each touched delivery once
+CREATE OR REPLACE FUNCTION public.charge_prepaid_delivery_on_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    FOR _delivery_id IN SELECT DISTINCT delivery_id FROM old_items LOOP
+      PERFORM public.charge_prepaid_delivery(_delivery_id);
+    END LOOP;
+  ELSE
+    FOR _delivery_id IN SELECT DISTINCT delivery_id FROM new_items LOOP
+      PERFORM public.charge_prepaid_delivery(_delivery_id);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER charge_prepaid_delivery_on_items_insert
+  AFTER INSERT ON public.delivery_items
+  REFERENCING NEW TABLE AS new_items
+  FOR EACH STATEMENT EXECUTE FUNCTION public.charge_prepaid_delivery_on_items();
+
+CREATE TRIGGER charge_prepaid_delivery_on_items_update
+  AFTER UPDATE ON public.delivery_items
+  REFERENCING NEW TABLE AS new_items
+  FOR EACH STATEMENT EXECUTE FUNCTION public.charge_prepaid_delivery_on_items();
+
+CREATE TRIGGER charge_prepaid_delivery_on_items_delete
+  AFTER DELETE ON public.delivery_items
+  REFERENCING OLD TABLE AS old_items
+  FOR EACH STATEMENT EXECUTE FUNCTION public.charge_prepaid_delivery_on_items();
+
+CREATE INDEX IF NOT EXISTS idx_customer_ledger_reference
+  ON public.customer_ledger(reference_id)
+  WHERE reference_id IS NOT NULL;
@@ -0,0 +1,201 @@
+-- Bottle deposit accounting
+-- Every customer bottle movement recorded in bottle_transactions now keeps
+-- customer_bottles, bottles.available_quantity and the customer ledger in
+-- step:
+--   issued             -> pending += qty, deposit debited (bottle_deposit),
+--                         bottles taken out of available stock
+--   returned           -> pending -= qty, deposit refunded (bottle_deposit_refund),
+--                         bottles back into available stock
+--   lost / damaged     -> pending -= qty, deposit refunded and the lost
+--                         charge debited (bottle_lost); with no lost charge
+--                         set the deposit is simply kept
+-- Refunds come out of the deposit actually held for the customer, so a
+-- change to bottles.deposit_amount only affects bottles issued afterwards.
+-- Bottles still out after dairy_settings.settings->>'bottle_loss_after_days'
+-- (default 30) are written off as lost by bill_overdue_bottles().
+
+ALTER TABLE public.bottles
+  ADD COLUMN IF NOT EXISTS lost_charge NUMERIC(10,2) CHECK (lost_charge IS NULL OR lost_charge >= 0);
+
+COMMENT ON COLUMN public.bottles.lost_charge IS
+  'Charged per bottle not returned; NULL means the deposit is kept instead';
+
+ALTER TABLE public.customer_bottles
+  ADD COLUMN IF NOT EXISTS deposit_held NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.bottle_transactions
+  ADD COLUMN IF NOT EXISTS delivery_id UUID REFERENCES public.deliveries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bottle_transactions_customer
+  ON public.bottle_transactions(customer_id, bottle_id, transaction_date)
+  WHERE customer_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.apply_bottle_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bottle RECORD;
+  _balance RECORD;
+  _label TEXT;
+  _qty INTEGER;
+  _refund NUMERIC := 0;
+  _lost_charge NUMERIC := 0;
+BEGIN
+  IF NEW.customer_id IS NULL OR NEW.quantity <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT size::TEXT, bottle_type::TEXT, COALESCE(deposit_amount, 0) AS deposit_amount, lost_charge
+    INTO _bottle
+  FROM public.bottles
+  WHERE id = NEW.bottle_id;
+  _label := _bottle.size || ' ' || _bottle.bottle_type;
+
+  INSERT INTO public.customer_bottles (customer_id, bottle_id, quantity_pending)
+  VALUES (NEW.customer_id, NEW.bottle_id, 0)
+  ON CONFLICT (customer_id, bottle_id) DO NOTHING;
+
+  SELECT id, COALESCE(quantity_pending, 0) AS pending, deposit_held
+    INTO _balance
+  FROM public.customer_bottles
+  WHERE customer_id = NEW.customer_id AND bottle_id = NEW.bottle_id
+  FOR UPDATE;
+
+  IF NEW.transaction_type = 'issued' THEN
+    UPDATE public.customer_bottles
+    SET quantity_pending = _balance.pending + NEW.quantity,
+        deposit_held = deposit_held + NEW.quantity * _bottle.deposit_amount,
+        last_issued_date = GREATEST(COALESCE(last_issued_date, NEW.transaction_date), NEW.transaction_date)
+    WHERE id = _balance.id;
+
+    UPDATE public.bottles
+    SET available_quantity = GREATEST(available_quantity - NEW.quantity, 0)
+    WHERE id = NEW.bottle_id;
+
+    IF _bottle.deposit_amount > 0 THEN
+      PERFORM public.insert_ledger_with_balance(
+        NEW.customer_id, NEW.transaction_date, 'bottle_deposit',
+        'Deposit for ' || NEW.quantity || ' x ' || _label || ' bottle' || CASE WHEN NEW.quantity > 1 THEN 's' ELSE '' END,
+        NEW.quantity * _bottle.deposit_amount, 0, NEW.id
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.transaction_type NOT IN ('returned', 'lost', 'damaged') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only bottles the customer actually has count towards refunds
+  _qty := LEAST(NEW.quantity, _balance.pending);
+  IF _qty > 0 THEN
+    _refund := round(_balance.deposit_held * _qty / _balance.pending, 2);
+  END IF;
+
+  UPDATE public.customer_bottles
+  SET quantity_pending = _balance.pending - _qty,
+      deposit_held = deposit_held - _refund,
+      last_returned_date = CASE
+        WHEN NEW.transaction_type = 'returned' THEN NEW.transaction_date
+        ELSE last_returned_date
+      END
+  WHERE id = _balance.id;
+
+  IF NEW.transaction_type = 'returned' THEN
+    UPDATE public.bottles
+    SET available_quantity = LEAST(available_quantity + NEW.quantity, total_quantity)
+    WHERE id = NEW.bottle_id;
+
+    IF _refund > 0 THEN
+      PERFORM public.insert_ledger_with_balance(
+        NEW.customer_id, NEW.transaction_date, 'bottle_deposit_refund',
+        'Deposit refund for ' || _qty || ' x ' || _label || ' bottle' || CASE WHEN _qty > 1 THEN 's' ELSE '' END,
+        0, _refund, NEW.id
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Lost or damaged: the deposit goes towards the lost charge
+  _lost_charge := COALESCE(_bottle.lost_charge * _qty, _refund);
+  IF _lost_charge <> _refund THEN
+    PERFORM public.insert_ledger_with_balance(
+      NEW.customer_id, NEW.transaction_date, 'bottle_lost',
+      initcap(NEW.transaction_type) || ' ' || _qty || ' x ' || _label || ' bottle' || CASE WHEN _qty > 1 THEN 's' ELSE '' END
+        || CASE WHEN _refund > 0 THEN ' (less deposit ₹' || _refund || ')' ELSE '' END,
+      GREATEST(_lost_charge - _refund, 0), GREATEST(_refund - _lost_charge, 0), NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_bottle_transaction
+  AFTER INSERT ON public.bottle_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_bottle_transaction();
+
+-- Write off bottles issued more than the configured number of days before
+-- _as_of that haven't come back. Returns and earlier write-offs are matched
+-- against the oldest issues first.
+CREATE OR REPLACE FUNCTION public.bill_overdue_bottles(_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+  _row RECORD;
+  _billed INTEGER := 0;
+BEGIN
+  -- Service-role calls (edge function) have no auth.uid()
+  IF auth.uid() IS NOT NULL
+     AND NOT (public.is_manager_or_admin(auth.uid()) OR public.has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to bill overdue bottles';
+  END IF;
+
+  SELECT COALESCE(NULLIF(settings->>'bottle_loss_after_days', '')::INTEGER, 30)
+    INTO _days
+  FROM public.dairy_settings
+  LIMIT 1;
+  _days := COALESCE(_days, 30);
+
+  IF _days <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR _row IN
+    SELECT cb.customer_id, cb.bottle_id,
+      LEAST(
+        COALESCE(cb.quantity_pending, 0),
+        COALESCE(SUM(bt.quantity) FILTER (
+          WHERE bt.transaction_type = 'issued' AND bt.transaction_date <= _as_of - _days
+        ), 0)
+        - COALESCE(SUM(bt.quantity) FILTER (
+          WHERE bt.transaction_type IN ('returned', 'lost', 'damaged')
+        ), 0)
+      ) AS overdue
+    FROM public.customer_bottles cb
+    JOIN public.bottle_transactions bt
+      ON bt.customer_id = cb.customer_id AND bt.bottle_id = cb.bottle_id
+    WHERE COALESCE(cb.quantity_pending, 0) > 0
+    GROUP BY cb.customer_id, cb.bottle_id, cb.quantity_pending
+  LOOP
+    IF _row.overdue > 0 THEN
+      INSERT INTO public.bottle_transactions (
+        bottle_id, customer_id, transaction_type, quantity, transaction_date, notes
+      ) VALUES (
+        _row.bottle_id, _row.customer_id, 'lost', _row.overdue, _as_of,
+        'Not returned within ' || _days || ' days'
+      );
+      _billed := _billed + _row.overdue;
+    END IF;
+  END LOOP;
+
+  RETURN _billed;
+END;
+$$;
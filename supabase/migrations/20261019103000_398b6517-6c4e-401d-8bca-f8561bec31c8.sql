@@ -0,0 +1,135 @@
+-- Feed ration planner
+-- Feed items carry their nutrient composition, and each animal group
+-- (lactating, dry, heifer, calf) can have one active ration recipe. The app
+-- sizes the recipe for each animal from body weight and recent yield and
+-- posts the result as feed_consumption rows through
+-- record_ration_consumption(), which keeps feed_inventory stock in step.
+
+ALTER TABLE public.feed_inventory
+  ADD COLUMN IF NOT EXISTS dry_matter_pct NUMERIC(5,2) CHECK (dry_matter_pct IS NULL OR dry_matter_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS crude_protein_pct NUMERIC(5,2) CHECK (crude_protein_pct IS NULL OR crude_protein_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS tdn_pct NUMERIC(5,2) CHECK (tdn_pct IS NULL OR tdn_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS calcium_pct NUMERIC(5,2) CHECK (calcium_pct IS NULL OR calcium_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS phosphorus_pct NUMERIC(5,2) CHECK (phosphorus_pct IS NULL OR phosphorus_pct BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.feed_inventory.dry_matter_pct IS 'Dry matter as a share of the as-fed weight';
+COMMENT ON COLUMN public.feed_inventory.crude_protein_pct IS 'Crude protein, % of dry matter';
+COMMENT ON COLUMN public.feed_inventory.tdn_pct IS 'Total digestible nutrients, % of dry matter';
+
+CREATE TABLE public.feed_rations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  animal_group TEXT NOT NULL CHECK (animal_group IN ('lactating', 'dry', 'heifer', 'calf')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One ration in use per group at a time
+CREATE UNIQUE INDEX idx_feed_rations_active_group
+  ON public.feed_rations(animal_group)
+  WHERE is_active;
+
+-- proportion is the item's relative share of the roughage or concentrate
+-- dry matter (by the feed's category); fixed_quantity pins a per-head
+-- amount in kg as fed, used for supplements such as mineral mixture
+CREATE TABLE public.feed_ration_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ration_id UUID NOT NULL REFERENCES public.feed_rations(id) ON DELETE CASCADE,
+  feed_id UUID NOT NULL REFERENCES public.feed_inventory(id) ON DELETE CASCADE,
+  proportion NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (proportion > 0),
+  fixed_quantity NUMERIC(8,3) CHECK (fixed_quantity IS NULL OR fixed_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (ration_id, feed_id)
+);
+
+ALTER TABLE public.feed_consumption
+  ADD COLUMN IF NOT EXISTS ration_id UUID REFERENCES public.feed_rations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feed_consumption_date_cattle
+  ON public.feed_consumption(consumption_date, cattle_id);
+
+CREATE TRIGGER update_feed_rations_updated_at
+  BEFORE UPDATE ON public.feed_rations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replace the ration-generated consumption for one day with _entries
+-- ([{feed_id, cattle_id, ration_id, quantity}], quantity in the feed's unit)
+-- and move stock by the difference, so running it twice for a day is safe.
+-- Manually logged consumption (ration_id NULL) is left alone.
+CREATE OR REPLACE FUNCTION public.record_ration_consumption(_consumption_date DATE, _entries JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'farm_worker'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to record feed consumption';
+  END IF;
+
+  CREATE TEMP TABLE _previous ON COMMIT DROP AS
+    SELECT feed_id, SUM(quantity) AS quantity
+    FROM public.feed_consumption
+    WHERE consumption_date = _consumption_date AND ration_id IS NOT NULL
+    GROUP BY feed_id;
+
+  DELETE FROM public.feed_consumption
+  WHERE consumption_date = _consumption_date AND ration_id IS NOT NULL;
+
+  INSERT INTO public.feed_consumption (feed_id, cattle_id, ration_id, consumption_date, quantity, recorded_by)
+  SELECT e.feed_id, e.cattle_id, e.ration_id, _consumption_date, e.quantity, auth.uid()
+  FROM jsonb_to_recordset(COALESCE(_entries, '[]'::jsonb))
+    AS e(feed_id UUID, cattle_id UUID, ration_id UUID, quantity NUMERIC)
+  WHERE e.quantity > 0;
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  UPDATE public.feed_inventory fi
+  SET current_stock = GREATEST(0, COALESCE(fi.current_stock, 0) - d.change),
+      updated_at = now()
+  FROM (
+    SELECT feed_id, SUM(quantity) AS change
+    FROM (
+      SELECT feed_id, quantity
+      FROM public.feed_consumption
+      WHERE consumption_date = _consumption_date AND ration_id IS NOT NULL
+      UNION ALL
+      SELECT feed_id, -quantity FROM _previous
+    ) moves
+    GROUP BY feed_id
+  ) d
+  WHERE fi.id = d.feed_id AND d.change <> 0;
+
+  RETURN _inserted;
+END;
+$$;
+
+ALTER TABLE public.feed_rations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feed_ration_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to feed_rations"
+  ON public.feed_rations FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can read feed_rations"
+  ON public.feed_rations FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read feed_rations"
+  ON public.feed_rations FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to feed_ration_items"
+  ON public.feed_ration_items FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can read feed_ration_items"
+  ON public.feed_ration_items FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read feed_ration_items"
+  ON public.feed_ration_items FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
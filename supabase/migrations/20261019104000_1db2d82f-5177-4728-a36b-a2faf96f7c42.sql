@@ -0,0 +1,78 @@
+-- Herd-health protocols
+-- A protocol describes a recurring or one-off health task (vaccination,
+-- deworming, checkup) and when each animal falls due for it. The app works
+-- out due tasks per animal from date of birth, calvings and prior
+-- cattle_health records; completing a task writes a cattle_health row
+-- tagged with the protocol so the next due date follows from it.
+--
+-- schedule_type:
+--   age       one-off at offset_days after birth (calf vaccines)
+--   interval  every interval_days while the animal is within the age band
+--   seasonal  once a year by season_month/season_day (pre-monsoon HS/BQ)
+--   calving   offset_days after each calving
+
+CREATE TABLE public.health_protocols (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  record_type TEXT NOT NULL DEFAULT 'vaccination',
+  schedule_type TEXT NOT NULL CHECK (schedule_type IN ('age', 'interval', 'seasonal', 'calving')),
+  offset_days INTEGER CHECK (offset_days IS NULL OR offset_days >= 0),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  season_month INTEGER CHECK (season_month IS NULL OR season_month BETWEEN 1 AND 12),
+  season_day INTEGER CHECK (season_day IS NULL OR season_day BETWEEN 1 AND 31),
+  min_age_days INTEGER CHECK (min_age_days IS NULL OR min_age_days >= 0),
+  max_age_days INTEGER CHECK (max_age_days IS NULL OR max_age_days >= 0),
+  cattle_type TEXT,
+  lead_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_days >= 0),
+  match_keyword TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (schedule_type <> 'interval' OR interval_days IS NOT NULL),
+  CHECK (schedule_type <> 'seasonal' OR (season_month IS NOT NULL AND season_day IS NOT NULL)),
+  CHECK (schedule_type NOT IN ('age', 'calving') OR offset_days IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.health_protocols.match_keyword IS
+  'Regex alternatives matched against titles of untagged cattle_health records, so history from before protocols counts';
+
+ALTER TABLE public.cattle_health
+  ADD COLUMN IF NOT EXISTS protocol_id UUID REFERENCES public.health_protocols(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cattle_health_cattle_date
+  ON public.cattle_health(cattle_id, record_date);
+
+CREATE TRIGGER update_health_protocols_updated_at
+  BEFORE UPDATE ON public.health_protocols
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.health_protocols ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to health_protocols"
+  ON public.health_protocols FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage health_protocols"
+  ON public.health_protocols FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can read health_protocols"
+  ON public.health_protocols FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read health_protocols"
+  ON public.health_protocols FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Starter schedule, editable from the Health page
+INSERT INTO public.health_protocols
+  (name, record_type, schedule_type, offset_days, interval_days, season_month, season_day, min_age_days, max_age_days, lead_days, match_keyword, notes)
+VALUES
+  ('FMD Vaccination', 'vaccination', 'interval', NULL, 180, NULL, NULL, 120, NULL, 14, 'FMD|foot and mouth', 'Foot-and-mouth disease, every 6 months from 4 months of age'),
+  ('HS Vaccination', 'vaccination', 'seasonal', NULL, NULL, 5, 15, 180, NULL, 21, 'HS|haemorrhagic|hemorrhagic', 'Haemorrhagic septicaemia, yearly before the monsoon'),
+  ('BQ Vaccination', 'vaccination', 'seasonal', NULL, NULL, 5, 15, 180, NULL, 21, 'BQ|black quarter', 'Black quarter, yearly before the monsoon'),
+  ('Calf Deworming', 'deworming', 'interval', NULL, 30, NULL, NULL, 10, 180, 3, 'deworm', 'Monthly until 6 months of age'),
+  ('Adult Deworming', 'deworming', 'interval', NULL, 120, NULL, NULL, 181, NULL, 7, 'deworm', 'Every 4 months from 6 months of age'),
+  ('Brucella Vaccination', 'vaccination', 'age', 120, NULL, NULL, NULL, NULL, 240, 14, 'brucell', 'Female calves, once at 4 to 8 months of age'),
+  ('Post-calving Deworming', 'deworming', 'calving', 10, NULL, NULL, NULL, NULL, NULL, 3, 'deworm', 'Deworm the dam about 10 days after calving');
@@ -0,0 +1,115 @@
+-- Milk withdrawal after treatment
+-- Medicines (feed_inventory rows with category 'medicine') carry a milk
+-- withdrawal period. A health record given with a medicine stores the last
+-- day of its withdrawal window, and milk recorded for the animal inside that
+-- window is flagged is_withheld: it is still logged for yield tracking but
+-- is discarded rather than sold.
+
+ALTER TABLE public.feed_inventory
+  ADD COLUMN IF NOT EXISTS milk_withdrawal_days INTEGER CHECK (milk_withdrawal_days IS NULL OR milk_withdrawal_days >= 0);
+
+COMMENT ON COLUMN public.feed_inventory.milk_withdrawal_days IS 'Days milk must be discarded after the last dose, for medicines';
+
+ALTER TABLE public.cattle_health
+  ADD COLUMN IF NOT EXISTS medicine_id UUID REFERENCES public.feed_inventory(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS withdrawal_until DATE;
+
+COMMENT ON COLUMN public.cattle_health.withdrawal_until IS 'Last day milk from the animal is withheld, inclusive';
+
+ALTER TABLE public.milk_production
+  ADD COLUMN IF NOT EXISTS is_withheld BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_cattle_health_withdrawal
+  ON public.cattle_health(cattle_id, withdrawal_until)
+  WHERE withdrawal_until IS NOT NULL;
+
+-- Whether milk from the animal on the date falls in a withdrawal window
+CREATE OR REPLACE FUNCTION public.is_milk_withheld(_cattle_id UUID, _date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.cattle_health
+    WHERE cattle_id = _cattle_id
+      AND withdrawal_until IS NOT NULL
+      AND _date BETWEEN record_date AND withdrawal_until
+  );
+$$;
+
+-- Fill the window from the medicine when the app has not set it
+CREATE OR REPLACE FUNCTION public.set_health_withdrawal_until()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+BEGIN
+  IF NEW.medicine_id IS NOT NULL AND NEW.withdrawal_until IS NULL THEN
+    SELECT milk_withdrawal_days INTO _days FROM public.feed_inventory WHERE id = NEW.medicine_id;
+    IF _days > 0 THEN
+      NEW.withdrawal_until := NEW.record_date + _days;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_cattle_health_withdrawal_until
+  BEFORE INSERT OR UPDATE ON public.cattle_health
+  FOR EACH ROW EXECUTE FUNCTION public.set_health_withdrawal_until();
+
+CREATE OR REPLACE FUNCTION public.flag_withheld_milk()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_withheld := public.is_milk_withheld(NEW.cattle_id, NEW.production_date);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_milk_production_withheld
+  BEFORE INSERT OR UPDATE ON public.milk_production
+  FOR EACH ROW EXECUTE FUNCTION public.flag_withheld_milk();
+
+-- Re-flag milk already recorded when a treatment is entered late, edited
+-- or removed
+CREATE OR REPLACE FUNCTION public.reflag_withheld_milk()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.withdrawal_until IS NOT NULL THEN
+    UPDATE public.milk_production
+    SET is_withheld = public.is_milk_withheld(cattle_id, production_date)
+    WHERE cattle_id = OLD.cattle_id
+      AND production_date BETWEEN OLD.record_date AND OLD.withdrawal_until;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.withdrawal_until IS NOT NULL THEN
+    UPDATE public.milk_production
+    SET is_withheld = true
+    WHERE cattle_id = NEW.cattle_id
+      AND production_date BETWEEN NEW.record_date AND NEW.withdrawal_until
+      AND NOT is_withheld;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reflag_milk_on_cattle_health_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.cattle_health
+  FOR EACH ROW EXECUTE FUNCTION public.reflag_withheld_milk();
+
+-- Milk already recorded inside existing windows
+UPDATE public.milk_production
+SET is_withheld = true
+WHERE public.is_milk_withheld(cattle_id, production_date);
@@ -0,0 +1,127 @@
+-- Sire registry for herd genetics
+-- AI bulls never enter the cattle table, so inseminations only named them
+-- in breeding_records.insemination_bull. semen_bulls registers each sire
+-- with the pedigree catalogues publish for it (sire and maternal grandsire)
+-- so inbreeding can be traced through AI matings. A herd bull used for
+-- natural service links to its cattle row and keeps its herd pedigree.
+
+CREATE TABLE public.semen_bulls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  registration_number TEXT,
+  breed TEXT,
+  source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'natural')),
+  cattle_id UUID REFERENCES public.cattle(id) ON DELETE SET NULL,
+  sire_bull_id UUID REFERENCES public.semen_bulls(id) ON DELETE SET NULL,
+  maternal_grandsire_bull_id UUID REFERENCES public.semen_bulls(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (sire_bull_id IS NULL OR sire_bull_id <> id),
+  CHECK (maternal_grandsire_bull_id IS NULL OR maternal_grandsire_bull_id <> id)
+);
+
+CREATE UNIQUE INDEX idx_semen_bulls_name ON public.semen_bulls (lower(name));
+
+ALTER TABLE public.breeding_records
+  ADD COLUMN IF NOT EXISTS semen_bull_id UUID REFERENCES public.semen_bulls(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cattle
+  ADD COLUMN IF NOT EXISTS sire_bull_id UUID REFERENCES public.semen_bulls(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.cattle.sire_bull_id IS
+  'AI sire from the semen registry, for animals whose sire is not in the herd (sire_id)';
+
+CREATE INDEX IF NOT EXISTS idx_breeding_records_semen_bull
+  ON public.breeding_records(semen_bull_id);
+
+CREATE TRIGGER update_semen_bulls_updated_at
+  BEFORE UPDATE ON public.semen_bulls
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.semen_bulls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to semen_bulls"
+  ON public.semen_bulls FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage semen_bulls"
+  ON public.semen_bulls FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can read semen_bulls"
+  ON public.semen_bulls FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read semen_bulls"
+  ON public.semen_bulls FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Keep the free-text bull name and the registry link in step: a typed name
+-- registers (or reuses) a bull, a picked bull fills in the name
+CREATE OR REPLACE FUNCTION public.link_breeding_semen_bull()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name TEXT := NULLIF(trim(NEW.insemination_bull), '');
+BEGIN
+  IF NEW.semen_bull_id IS NOT NULL THEN
+    IF _name IS NULL THEN
+      SELECT name INTO NEW.insemination_bull FROM public.semen_bulls WHERE id = NEW.semen_bull_id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF _name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.semen_bull_id FROM public.semen_bulls WHERE lower(name) = lower(_name);
+  IF NEW.semen_bull_id IS NULL THEN
+    INSERT INTO public.semen_bulls (name, source)
+    VALUES (_name, CASE WHEN NEW.record_type = 'artificial_insemination' THEN 'ai' ELSE 'natural' END)
+    RETURNING id INTO NEW.semen_bull_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_breeding_records_semen_bull
+  BEFORE INSERT OR UPDATE OF insemination_bull, semen_bull_id ON public.breeding_records
+  FOR EACH ROW EXECUTE FUNCTION public.link_breeding_semen_bull();
+
+-- Register the bulls already named on inseminations
+INSERT INTO public.semen_bulls (name, source)
+SELECT DISTINCT ON (lower(trim(insemination_bull))) trim(insemination_bull), 'ai'
+FROM public.breeding_records
+WHERE NULLIF(trim(insemination_bull), '') IS NOT NULL
+ORDER BY lower(trim(insemination_bull)), created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE public.breeding_records br
+SET semen_bull_id = sb.id
+FROM public.semen_bulls sb
+WHERE br.semen_bull_id IS NULL
+  AND lower(sb.name) = lower(trim(br.insemination_bull));
+
+-- Best-effort AI sire for calves already in the herd: the dam's last
+-- insemination a gestation length before the calf was born
+UPDATE public.cattle c
+SET sire_bull_id = (
+  SELECT br.semen_bull_id
+  FROM public.breeding_records br
+  WHERE br.cattle_id = c.dam_id
+    AND br.semen_bull_id IS NOT NULL
+    AND br.record_type = 'artificial_insemination'
+    AND br.record_date BETWEEN c.date_of_birth - 310 AND c.date_of_birth - 260
+  ORDER BY br.record_date DESC
+  LIMIT 1
+)
+WHERE c.sire_id IS NULL
+  AND c.sire_bull_id IS NULL
+  AND c.dam_id IS NOT NULL
+  AND c.date_of_birth IS NOT NULL;
@@ -0,0 +1,181 @@
+-- Semen straw inventory and AI technicians
+-- Each delivery of semen is a batch of straws for one registered bull.
+-- Saving an insemination against a batch takes a straw out of stock (and
+-- puts it back if the record is deleted or moved to another batch).
+-- Technicians become records of their own; the free-text
+-- insemination_technician is kept in step the way insemination_bull is.
+
+CREATE TABLE public.semen_straws (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  semen_bull_id UUID NOT NULL REFERENCES public.semen_bulls(id) ON DELETE RESTRICT,
+  batch_number TEXT NOT NULL,
+  supplier TEXT,
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  straws_received INTEGER NOT NULL CHECK (straws_received >= 0),
+  straws_on_hand INTEGER NOT NULL CHECK (straws_on_hand >= 0),
+  cost_per_straw NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (cost_per_straw >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (semen_bull_id, batch_number)
+);
+
+CREATE TABLE public.ai_technicians (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  organisation TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ai_technicians_name ON public.ai_technicians (lower(name));
+
+ALTER TABLE public.breeding_records
+  ADD COLUMN IF NOT EXISTS semen_straw_id UUID REFERENCES public.semen_straws(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS technician_id UUID REFERENCES public.ai_technicians(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_breeding_records_technician
+  ON public.breeding_records(technician_id);
+
+CREATE TRIGGER update_semen_straws_updated_at
+  BEFORE UPDATE ON public.semen_straws
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_ai_technicians_updated_at
+  BEFORE UPDATE ON public.ai_technicians
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.semen_straws ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_technicians ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to semen_straws"
+  ON public.semen_straws FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage semen_straws"
+  ON public.semen_straws FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can read semen_straws"
+  ON public.semen_straws FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read semen_straws"
+  ON public.semen_straws FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to ai_technicians"
+  ON public.ai_technicians FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage ai_technicians"
+  ON public.ai_technicians FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can read ai_technicians"
+  ON public.ai_technicians FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read ai_technicians"
+  ON public.ai_technicians FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- A straw names its bull, so the record follows it. Fires before
+-- link_breeding_records_semen_bull (triggers run in name order).
+CREATE OR REPLACE FUNCTION public.apply_breeding_semen_straw()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.semen_straw_id IS NOT NULL THEN
+    SELECT semen_bull_id INTO NEW.semen_bull_id FROM public.semen_straws WHERE id = NEW.semen_straw_id;
+    IF TG_OP = 'UPDATE' AND NEW.semen_bull_id IS DISTINCT FROM OLD.semen_bull_id THEN
+      NEW.insemination_bull := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_breeding_records_semen_straw
+  BEFORE INSERT OR UPDATE OF semen_straw_id ON public.breeding_records
+  FOR EACH ROW EXECUTE FUNCTION public.apply_breeding_semen_straw();
+
+CREATE OR REPLACE FUNCTION public.link_breeding_technician()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name TEXT := NULLIF(trim(NEW.insemination_technician), '');
+BEGIN
+  IF NEW.technician_id IS NOT NULL THEN
+    IF _name IS NULL THEN
+      SELECT name INTO NEW.insemination_technician FROM public.ai_technicians WHERE id = NEW.technician_id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF _name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.technician_id FROM public.ai_technicians WHERE lower(name) = lower(_name);
+  IF NEW.technician_id IS NULL THEN
+    INSERT INTO public.ai_technicians (name) VALUES (_name) RETURNING id INTO NEW.technician_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_breeding_records_technician
+  BEFORE INSERT OR UPDATE OF insemination_technician, technician_id ON public.breeding_records
+  FOR EACH ROW EXECUTE FUNCTION public.link_breeding_technician();
+
+-- Take a straw out of stock for each insemination against a batch
+CREATE OR REPLACE FUNCTION public.move_semen_straw_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.semen_straw_id IS NOT NULL THEN
+    UPDATE public.semen_straws SET straws_on_hand = straws_on_hand + 1 WHERE id = OLD.semen_straw_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.semen_straw_id IS NOT NULL THEN
+    UPDATE public.semen_straws SET straws_on_hand = straws_on_hand - 1
+    WHERE id = NEW.semen_straw_id AND straws_on_hand > 0;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No straws left in this semen batch';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER move_breeding_records_semen_straw_stock
+  AFTER INSERT OR DELETE OR UPDATE OF semen_straw_id ON public.breeding_records
+  FOR EACH ROW EXECUTE FUNCTION public.move_semen_straw_stock();
+
+-- Register the technicians already named on inseminations
+INSERT INTO public.ai_technicians (name)
+SELECT DISTINCT ON (lower(trim(insemination_technician))) trim(insemination_technician)
+FROM public.breeding_records
+WHERE NULLIF(trim(insemination_technician), '') IS NOT NULL
+ORDER BY lower(trim(insemination_technician)), created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE public.breeding_records br
+SET technician_id = t.id
+FROM public.ai_technicians t
+WHERE br.technician_id IS NULL
+  AND lower(t.name) = lower(trim(br.insemination_technician));
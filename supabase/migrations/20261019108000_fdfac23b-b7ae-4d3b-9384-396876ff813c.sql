@@ -0,0 +1,155 @@
+-- Calf registration and rearing
+-- A calving is registered through register_calving, which in one
+-- transaction writes the calving record, adds each calf to the herd with
+-- its dam and the sire of the service that got her in calf, and moves the
+-- dam into her next lactation. Calves are then followed through rearing
+-- events: colostrum feeding, growth weigh-ins and weaning.
+
+ALTER TABLE public.cattle
+  ADD COLUMN IF NOT EXISTS gender TEXT CHECK (gender IS NULL OR gender IN ('male', 'female')),
+  ADD COLUMN IF NOT EXISTS birth_weight NUMERIC(6,2) CHECK (birth_weight IS NULL OR birth_weight > 0),
+  ADD COLUMN IF NOT EXISTS calving_record_id UUID REFERENCES public.breeding_records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cattle_dam ON public.cattle(dam_id);
+
+CREATE TABLE public.calf_rearing_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cattle_id UUID NOT NULL REFERENCES public.cattle(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('colostrum', 'weigh_in', 'weaning')),
+  event_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg NUMERIC(6,2) CHECK (weight_kg IS NULL OR weight_kg > 0),
+  colostrum_litres NUMERIC(4,2) CHECK (colostrum_litres IS NULL OR colostrum_litres > 0),
+  hours_after_birth NUMERIC(5,1) CHECK (hours_after_birth IS NULL OR hours_after_birth >= 0),
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_calf_rearing_events_cattle_date
+  ON public.calf_rearing_events(cattle_id, event_date);
+
+CREATE TRIGGER update_calf_rearing_events_updated_at
+  BEFORE UPDATE ON public.calf_rearing_events
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.calf_rearing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to calf_rearing_events"
+  ON public.calf_rearing_events FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can manage calf_rearing_events"
+  ON public.calf_rearing_events FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Vet staff can manage calf_rearing_events"
+  ON public.calf_rearing_events FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Auditors can read calf_rearing_events"
+  ON public.calf_rearing_events FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Calf tags run C<yy>-001, C<yy>-002, ... by year of birth
+CREATE OR REPLACE FUNCTION public.next_calf_tag_number(_birth_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _prefix || lpad((COALESCE(MAX(substring(tag_number FROM length(_prefix) + 1)::INTEGER), 0) + 1)::TEXT, 3, '0')
+  FROM (SELECT 'C' || to_char(_birth_date, 'YY') || '-' AS _prefix) p
+  LEFT JOIN public.cattle ON tag_number ~ ('^' || _prefix || '[0-9]+$')
+  GROUP BY _prefix;
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_calving(
+  _dam_id UUID,
+  _calving_date DATE,
+  _calves JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dam public.cattle%ROWTYPE;
+  _sire_bull_id UUID;
+  _sire_cattle_id UUID;
+  _record_id UUID;
+  _calf JSONB;
+  _calf_id UUID;
+  _tag TEXT;
+  _weight NUMERIC;
+  _registered JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid())
+          OR has_role(auth.uid(), 'farm_worker'::user_role)
+          OR has_role(auth.uid(), 'vet_staff'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to register calvings';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_calves, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A calving needs at least one calf';
+  END IF;
+
+  SELECT * INTO _dam FROM public.cattle WHERE id = _dam_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dam not found';
+  END IF;
+
+  -- The last service a gestation length before calving (cows ~283 days,
+  -- buffaloes ~310) is taken as the one that got her in calf
+  SELECT br.semen_bull_id, sb.cattle_id INTO _sire_bull_id, _sire_cattle_id
+  FROM public.breeding_records br
+  LEFT JOIN public.semen_bulls sb ON sb.id = br.semen_bull_id
+  WHERE br.cattle_id = _dam_id
+    AND br.record_type IN ('artificial_insemination', 'natural_service')
+    AND br.record_date BETWEEN _calving_date - 330 AND _calving_date - 240
+  ORDER BY br.record_date DESC
+  LIMIT 1;
+
+  INSERT INTO public.breeding_records (cattle_id, record_type, record_date, actual_calving_date, notes, recorded_by)
+  VALUES (_dam_id, 'calving', _calving_date, _calving_date, _notes, auth.uid())
+  RETURNING id INTO _record_id;
+
+  FOR _calf IN SELECT * FROM jsonb_array_elements(_calves) LOOP
+    _tag := COALESCE(NULLIF(trim(_calf->>'tag_number'), ''), public.next_calf_tag_number(_calving_date));
+    _weight := NULLIF(_calf->>'weight', '')::NUMERIC;
+
+    INSERT INTO public.cattle (
+      tag_number, name, breed, cattle_type, gender, date_of_birth, birth_weight, weight,
+      status, lactation_status, dam_id, sire_id, sire_bull_id, calving_record_id, created_by
+    )
+    VALUES (
+      _tag, NULLIF(trim(_calf->>'name'), ''), _dam.breed, _dam.cattle_type, NULLIF(_calf->>'gender', ''),
+      _calving_date, _weight, _weight, 'active', 'dry', _dam_id, _sire_cattle_id,
+      CASE WHEN _sire_cattle_id IS NULL THEN _sire_bull_id END, _record_id, auth.uid()
+    )
+    RETURNING id INTO _calf_id;
+
+    _registered := _registered || jsonb_build_object(
+      'cattle_id', _calf_id,
+      'tag_number', _tag,
+      'gender', NULLIF(_calf->>'gender', ''),
+      'weight', _weight
+    );
+  END LOOP;
+
+  UPDATE public.breeding_records
+  SET calf_details = jsonb_build_object('calves', _registered)
+  WHERE id = _record_id;
+
+  UPDATE public.cattle
+  SET lactation_number = COALESCE(lactation_number, 0) + 1,
+      last_calving_date = GREATEST(COALESCE(last_calving_date, _calving_date), _calving_date),
+      lactation_status = 'lactating',
+      expected_calving_date = NULL
+  WHERE id = _dam_id;
+
+  RETURN _record_id;
+END;
+$$;
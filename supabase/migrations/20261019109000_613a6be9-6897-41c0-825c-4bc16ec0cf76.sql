@@ -0,0 +1,97 @@
+-- Body weight and body condition score history
+-- Every weigh-in and 1-5 body condition score is kept as a dated record
+-- instead of overwriting cattle.weight. cattle.weight and the new
+-- cattle.body_condition_score follow the latest record so existing
+-- screens (feed planning, the herd list) keep reading current values.
+
+ALTER TABLE public.cattle
+  ADD COLUMN IF NOT EXISTS body_condition_score NUMERIC(3,2)
+    CHECK (body_condition_score IS NULL OR body_condition_score BETWEEN 1 AND 5);
+
+CREATE TABLE public.body_condition_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cattle_id UUID NOT NULL REFERENCES public.cattle(id) ON DELETE CASCADE,
+  record_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg NUMERIC(6,2) CHECK (weight_kg IS NULL OR weight_kg > 0),
+  body_condition_score NUMERIC(3,2) CHECK (
+    body_condition_score IS NULL
+    OR (body_condition_score BETWEEN 1 AND 5 AND body_condition_score * 4 = floor(body_condition_score * 4))
+  ),
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (weight_kg IS NOT NULL OR body_condition_score IS NOT NULL)
+);
+
+CREATE INDEX idx_body_condition_records_cattle_date
+  ON public.body_condition_records(cattle_id, record_date);
+
+CREATE TRIGGER update_body_condition_records_updated_at
+  BEFORE UPDATE ON public.body_condition_records
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.body_condition_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to body_condition_records"
+  ON public.body_condition_records FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can manage body_condition_records"
+  ON public.body_condition_records FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Vet staff can manage body_condition_records"
+  ON public.body_condition_records FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Auditors can read body_condition_records"
+  ON public.body_condition_records FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Weights entered before this history existed become its first record
+INSERT INTO public.body_condition_records (cattle_id, record_date, weight_kg, notes)
+SELECT id, updated_at::date, weight, 'Weight on record before history was kept'
+FROM public.cattle
+WHERE weight IS NOT NULL AND weight > 0;
+
+-- Keep the animal's current weight and score on the latest record
+CREATE OR REPLACE FUNCTION public.sync_cattle_body_condition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cattle_id UUID := COALESCE(NEW.cattle_id, OLD.cattle_id);
+BEGIN
+  UPDATE public.cattle c
+  SET weight = COALESCE((
+        SELECT r.weight_kg FROM public.body_condition_records r
+        WHERE r.cattle_id = _cattle_id AND r.weight_kg IS NOT NULL
+        ORDER BY r.record_date DESC, r.created_at DESC LIMIT 1
+      ), c.weight),
+      body_condition_score = (
+        SELECT r.body_condition_score FROM public.body_condition_records r
+        WHERE r.cattle_id = _cattle_id AND r.body_condition_score IS NOT NULL
+        ORDER BY r.record_date DESC, r.created_at DESC LIMIT 1
+      )
+  WHERE c.id = _cattle_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.cattle_id <> NEW.cattle_id THEN
+    UPDATE public.cattle c
+    SET body_condition_score = (
+          SELECT r.body_condition_score FROM public.body_condition_records r
+          WHERE r.cattle_id = OLD.cattle_id AND r.body_condition_score IS NOT NULL
+          ORDER BY r.record_date DESC, r.created_at DESC LIMIT 1
+        )
+    WHERE c.id = OLD.cattle_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_body_condition_records_cattle
+  AFTER INSERT OR UPDATE OR DELETE ON public.body_condition_records
+  FOR EACH ROW EXECUTE FUNCTION public.sync_cattle_body_condition();
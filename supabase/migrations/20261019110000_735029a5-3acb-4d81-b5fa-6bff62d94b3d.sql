@@ -0,0 +1,70 @@
+-- Individual cow milk quality tests
+-- A test is taken from one cow on one day. The cow-level somatic cell count
+-- comes from the lab or an on-farm counter; the California Mastitis Test
+-- score, electrical conductivity and clots are recorded per quarter so
+-- a vet can see which quarter is affected and how it has developed.
+
+CREATE TABLE public.milk_quality_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cattle_id UUID NOT NULL REFERENCES public.cattle(id) ON DELETE CASCADE,
+  test_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  session TEXT CHECK (session IS NULL OR session IN ('morning', 'evening')),
+  somatic_cell_count INTEGER CHECK (somatic_cell_count IS NULL OR somatic_cell_count >= 0),
+  notes TEXT,
+  tested_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_milk_quality_tests_cattle_date
+  ON public.milk_quality_tests(cattle_id, test_date);
+
+CREATE TABLE public.milk_quality_quarters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES public.milk_quality_tests(id) ON DELETE CASCADE,
+  quarter TEXT NOT NULL CHECK (quarter IN ('LF', 'RF', 'LR', 'RR')),
+  cmt_score TEXT CHECK (cmt_score IS NULL OR cmt_score IN ('N', 'T', '1', '2', '3')),
+  conductivity NUMERIC(4,2) CHECK (conductivity IS NULL OR conductivity > 0),
+  clots BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (test_id, quarter)
+);
+
+CREATE TRIGGER update_milk_quality_tests_updated_at
+  BEFORE UPDATE ON public.milk_quality_tests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.milk_quality_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.milk_quality_quarters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to milk_quality_tests"
+  ON public.milk_quality_tests FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage milk_quality_tests"
+  ON public.milk_quality_tests FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can manage milk_quality_tests"
+  ON public.milk_quality_tests FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read milk_quality_tests"
+  ON public.milk_quality_tests FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to milk_quality_quarters"
+  ON public.milk_quality_quarters FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Vet staff can manage milk_quality_quarters"
+  ON public.milk_quality_quarters FOR ALL
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Farm workers can manage milk_quality_quarters"
+  ON public.milk_quality_quarters FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read milk_quality_quarters"
+  ON public.milk_quality_quarters FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
@@ -0,0 +1,204 @@
+-- Cattle acquisition and disposal
+-- Purchases, sales, deaths and culls are recorded as lifecycle events with
+-- the counterparty and amount. record_cattle_lifecycle_event writes the
+-- event, moves the animal's status and posts the money in one transaction:
+-- purchases and disposal costs go to expenses, sale proceeds and insurance
+-- claims to farm_income. The book value at disposal is kept on the event so
+-- gains and losses can be reported later.
+
+CREATE TABLE public.farm_income (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT NOT NULL CHECK (category IN ('cattle_sale', 'insurance_claim', 'misc')),
+  title TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  income_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  cattle_id UUID REFERENCES public.cattle(id) ON DELETE SET NULL,
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_farm_income_date ON public.farm_income(income_date);
+
+CREATE TRIGGER update_farm_income_updated_at
+  BEFORE UPDATE ON public.farm_income
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.farm_income ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to farm_income"
+  ON public.farm_income FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage farm_income"
+  ON public.farm_income FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read farm_income"
+  ON public.farm_income FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE TABLE public.cattle_lifecycle_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cattle_id UUID NOT NULL REFERENCES public.cattle(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('purchase', 'sale', 'death', 'cull')),
+  event_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  counterparty TEXT,
+  amount NUMERIC(12,2) CHECK (amount IS NULL OR amount >= 0),
+  cause TEXT,
+  book_value NUMERIC(12,2),
+  insurance_policy TEXT,
+  insurance_claim_amount NUMERIC(12,2) CHECK (insurance_claim_amount IS NULL OR insurance_claim_amount >= 0),
+  carcass_disposal TEXT CHECK (carcass_disposal IS NULL OR carcass_disposal IN ('burial', 'incineration', 'rendering', 'sold', 'other')),
+  disposal_cost NUMERIC(12,2) CHECK (disposal_cost IS NULL OR disposal_cost >= 0),
+  expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+  income_id UUID REFERENCES public.farm_income(id) ON DELETE SET NULL,
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (event_type IN ('death', 'cull') OR cause IS NULL),
+  CHECK (event_type = 'death' OR (insurance_claim_amount IS NULL AND carcass_disposal IS NULL AND disposal_cost IS NULL))
+);
+
+CREATE INDEX idx_cattle_lifecycle_events_cattle ON public.cattle_lifecycle_events(cattle_id);
+CREATE INDEX idx_cattle_lifecycle_events_type_date ON public.cattle_lifecycle_events(event_type, event_date);
+
+CREATE TRIGGER update_cattle_lifecycle_events_updated_at
+  BEFORE UPDATE ON public.cattle_lifecycle_events
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cattle_lifecycle_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to cattle_lifecycle_events"
+  ON public.cattle_lifecycle_events FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage cattle_lifecycle_events"
+  ON public.cattle_lifecycle_events FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Farm workers can read cattle_lifecycle_events"
+  ON public.cattle_lifecycle_events FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Vet staff can read cattle_lifecycle_events"
+  ON public.cattle_lifecycle_events FOR SELECT
+  USING (has_role(auth.uid(), 'vet_staff'::user_role));
+
+CREATE POLICY "Auditors can read cattle_lifecycle_events"
+  ON public.cattle_lifecycle_events FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Deaths can be recorded by anyone looking after the herd; anything that
+-- moves money needs a manager or accountant
+CREATE OR REPLACE FUNCTION public.record_cattle_lifecycle_event(
+  _cattle_id UUID,
+  _event_type TEXT,
+  _event_date DATE,
+  _counterparty TEXT DEFAULT NULL,
+  _amount NUMERIC DEFAULT NULL,
+  _cause TEXT DEFAULT NULL,
+  _book_value NUMERIC DEFAULT NULL,
+  _insurance_policy TEXT DEFAULT NULL,
+  _insurance_claim_amount NUMERIC DEFAULT NULL,
+  _carcass_disposal TEXT DEFAULT NULL,
+  _disposal_cost NUMERIC DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _animal public.cattle%ROWTYPE;
+  _label TEXT;
+  _event_id UUID;
+  _expense_id UUID;
+  _income_id UUID;
+  _finance BOOLEAN := is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role);
+BEGIN
+  IF NOT (_finance
+          OR (_event_type = 'death'
+              AND (has_role(auth.uid(), 'farm_worker'::user_role) OR has_role(auth.uid(), 'vet_staff'::user_role)))) THEN
+    RAISE EXCEPTION 'Not allowed to record this event';
+  END IF;
+
+  IF NOT _finance AND (COALESCE(_insurance_claim_amount, 0) > 0 OR COALESCE(_disposal_cost, 0) > 0) THEN
+    RAISE EXCEPTION 'Only managers and accountants can record amounts';
+  END IF;
+
+  SELECT * INTO _animal FROM public.cattle WHERE id = _cattle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Animal not found';
+  END IF;
+
+  IF _event_type <> 'purchase' AND _animal.status IN ('sold', 'deceased') THEN
+    RAISE EXCEPTION 'Animal % has already left the herd', _animal.tag_number;
+  END IF;
+
+  _label := _animal.tag_number || COALESCE(' (' || _animal.name || ')', '');
+
+  INSERT INTO public.cattle_lifecycle_events (
+    cattle_id, event_type, event_date, counterparty, amount, cause, book_value,
+    insurance_policy, insurance_claim_amount, carcass_disposal, disposal_cost, notes, recorded_by
+  )
+  VALUES (
+    _cattle_id, _event_type, _event_date, NULLIF(trim(_counterparty), ''), _amount,
+    CASE WHEN _event_type IN ('death', 'cull') THEN NULLIF(_cause, '') END, _book_value,
+    CASE WHEN _event_type = 'death' THEN NULLIF(trim(_insurance_policy), '') END,
+    CASE WHEN _event_type = 'death' THEN _insurance_claim_amount END,
+    CASE WHEN _event_type = 'death' THEN NULLIF(_carcass_disposal, '') END,
+    CASE WHEN _event_type = 'death' THEN _disposal_cost END,
+    _notes, auth.uid()
+  )
+  RETURNING id INTO _event_id;
+
+  IF _event_type = 'purchase' THEN
+    UPDATE public.cattle
+    SET purchase_cost = _amount, purchase_date = _event_date
+    WHERE id = _cattle_id;
+
+    IF COALESCE(_amount, 0) > 0 THEN
+      INSERT INTO public.expenses (category, title, amount, expense_date, cattle_id, notes, recorded_by)
+      VALUES ('cattle_purchase', 'Purchase - ' || _label, _amount, _event_date, _cattle_id,
+              '[AUTO] cattle_purchase:' || _event_id || COALESCE(' | ' || NULLIF(trim(_counterparty), ''), ''), auth.uid())
+      RETURNING id INTO _expense_id;
+    END IF;
+  ELSE
+    UPDATE public.cattle
+    SET status = CASE WHEN _event_type = 'death' THEN 'deceased' ELSE 'sold' END::cattle_status
+    WHERE id = _cattle_id;
+
+    -- A culled animal sold for slaughter brings in money like a sale
+    IF COALESCE(_amount, 0) > 0 AND _event_type IN ('sale', 'cull') THEN
+      INSERT INTO public.farm_income (category, title, amount, income_date, cattle_id, notes, recorded_by)
+      VALUES ('cattle_sale', 'Sale - ' || _label, _amount, _event_date, _cattle_id,
+              COALESCE(NULLIF(trim(_counterparty), ''), _notes), auth.uid())
+      RETURNING id INTO _income_id;
+    END IF;
+
+    IF _event_type = 'death' AND COALESCE(_insurance_claim_amount, 0) > 0 THEN
+      INSERT INTO public.farm_income (category, title, amount, income_date, cattle_id, notes, recorded_by)
+      VALUES ('insurance_claim', 'Insurance claim - ' || _label, _insurance_claim_amount, _event_date, _cattle_id,
+              NULLIF(trim(_insurance_policy), ''), auth.uid())
+      RETURNING id INTO _income_id;
+    END IF;
+
+    IF _event_type = 'death' AND COALESCE(_disposal_cost, 0) > 0 THEN
+      INSERT INTO public.expenses (category, title, amount, expense_date, cattle_id, notes, recorded_by)
+      VALUES ('misc', 'Carcass disposal - ' || _label, _disposal_cost, _event_date, _cattle_id,
+              '[AUTO] carcass_disposal:' || _event_id, auth.uid())
+      RETURNING id INTO _expense_id;
+    END IF;
+  END IF;
+
+  UPDATE public.cattle_lifecycle_events
+  SET expense_id = _expense_id, income_id = _income_id
+  WHERE id = _event_id;
+
+  RETURN _event_id;
+END;
+$$;
@@ -0,0 +1,353 @@
+-- Vendor bill cycles
+-- Farmers are paid per cycle (10-day by default) rather than per delivery.
+-- close_vendor_bill gathers a vendor's unbilled procurement for one cycle
+-- into a vendor bill with deductions such as feed advances and loan
+-- instalments, and locks those procurement rows so the bill cannot drift
+-- from what was paid. pay_vendor_bills pays out many bills at once, one
+-- vendor payment per bill. Deductions settle part of what is owed, so they
+-- now count against the vendor's balance alongside payments.
+
+ALTER TABLE public.milk_vendors
+  ADD COLUMN IF NOT EXISTS bill_cycle TEXT NOT NULL DEFAULT '10_day'
+    CHECK (bill_cycle IN ('weekly', '10_day', 'fortnightly', 'monthly'));
+
+CREATE TABLE public.vendor_bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_number TEXT NOT NULL UNIQUE,
+  -- Bills are financial records; a billed vendor can be deactivated but not deleted
+  vendor_id UUID NOT NULL REFERENCES public.milk_vendors(id) ON DELETE RESTRICT,
+  bill_cycle TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  total_liters NUMERIC(10,2) NOT NULL DEFAULT 0,
+  avg_fat NUMERIC(4,2),
+  avg_snf NUMERIC(4,2),
+  gross_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  deductions_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_payable NUMERIC(12,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'locked' CHECK (status IN ('locked', 'paid')),
+  payment_id UUID REFERENCES public.vendor_payments(id) ON DELETE SET NULL,
+  paid_at DATE,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (vendor_id, period_start, period_end),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX idx_vendor_bills_vendor ON public.vendor_bills(vendor_id, period_end DESC);
+CREATE INDEX idx_vendor_bills_status ON public.vendor_bills(status);
+
+CREATE TRIGGER update_vendor_bills_updated_at
+  BEFORE UPDATE ON public.vendor_bills
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.vendor_bill_deductions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id UUID NOT NULL REFERENCES public.vendor_bills(id) ON DELETE CASCADE,
+  deduction_type TEXT NOT NULL CHECK (deduction_type IN ('feed_advance', 'loan', 'other')),
+  description TEXT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vendor_bill_deductions_bill ON public.vendor_bill_deductions(bill_id);
+
+ALTER TABLE public.milk_procurement
+  ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES public.vendor_bills(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_milk_procurement_bill ON public.milk_procurement(bill_id);
+
+ALTER TABLE public.vendor_bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendor_bill_deductions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to vendor_bills"
+  ON public.vendor_bills FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage vendor_bills"
+  ON public.vendor_bills FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Farm workers can read vendor_bills"
+  ON public.vendor_bills FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read vendor_bills"
+  ON public.vendor_bills FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to vendor_bill_deductions"
+  ON public.vendor_bill_deductions FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage vendor_bill_deductions"
+  ON public.vendor_bill_deductions FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Farm workers can read vendor_bill_deductions"
+  ON public.vendor_bill_deductions FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read vendor_bill_deductions"
+  ON public.vendor_bill_deductions FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Balance = procurement dues - payments - deductions settled on bills
+CREATE OR REPLACE FUNCTION public.recalculate_vendor_balance(p_vendor_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_total_dues NUMERIC;
+  v_total_paid NUMERIC;
+  v_total_deducted NUMERIC;
+  v_balance NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_total_dues
+  FROM public.milk_procurement
+  WHERE vendor_id = p_vendor_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total_paid
+  FROM public.vendor_payments
+  WHERE vendor_id = p_vendor_id;
+
+  SELECT COALESCE(SUM(deductions_total), 0) INTO v_total_deducted
+  FROM public.vendor_bills
+  WHERE vendor_id = p_vendor_id;
+
+  v_balance := v_total_dues - v_total_paid - v_total_deducted;
+
+  UPDATE public.milk_vendors
+  SET current_balance = v_balance
+  WHERE id = p_vendor_id;
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_vendor_balance_on_bill()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM recalculate_vendor_balance(OLD.vendor_id);
+    RETURN OLD;
+  ELSE
+    PERFORM recalculate_vendor_balance(NEW.vendor_id);
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_update_vendor_balance_bill
+AFTER INSERT OR UPDATE OF deductions_total OR DELETE ON public.vendor_bills
+FOR EACH ROW
+EXECUTE FUNCTION public.update_vendor_balance_on_bill();
+
+-- A paid bill is final; an unpaid one can be deleted to reopen its cycle
+CREATE OR REPLACE FUNCTION public.prevent_paid_vendor_bill_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'paid' THEN
+    RAISE EXCEPTION 'Bill % has been paid and cannot be deleted', OLD.bill_number;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_paid_vendor_bill_delete
+BEFORE DELETE ON public.vendor_bills
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_paid_vendor_bill_delete();
+
+-- Procurement on a bill is locked, and no new procurement can be added to
+-- a cycle that has already been billed for that vendor
+CREATE OR REPLACE FUNCTION public.lock_billed_procurement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.bill_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This entry is on a vendor bill and cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.bill_id IS NOT NULL THEN
+    IF (NEW.vendor_id, NEW.procurement_date, NEW.session, NEW.quantity_liters, NEW.fat_percentage,
+        NEW.snf_percentage, NEW.rate_per_liter, NEW.total_amount)
+       IS DISTINCT FROM
+       (OLD.vendor_id, OLD.procurement_date, OLD.session, OLD.quantity_liters, OLD.fat_percentage,
+        OLD.snf_percentage, OLD.rate_per_liter, OLD.total_amount) THEN
+      RAISE EXCEPTION 'This entry is on a vendor bill and cannot be changed';
+    END IF;
+    IF NEW.bill_id IS NOT NULL AND NEW.bill_id <> OLD.bill_id THEN
+      RAISE EXCEPTION 'This entry is already on a vendor bill';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.bill_id IS NULL AND NEW.vendor_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.vendor_bills
+    WHERE vendor_id = NEW.vendor_id
+      AND NEW.procurement_date BETWEEN period_start AND period_end
+  ) THEN
+    RAISE EXCEPTION 'The bill for % has already been closed for this cycle', NEW.procurement_date;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER lock_billed_procurement
+BEFORE INSERT OR UPDATE OR DELETE ON public.milk_procurement
+FOR EACH ROW
+EXECUTE FUNCTION public.lock_billed_procurement();
+
+CREATE OR REPLACE FUNCTION public.close_vendor_bill(
+  _vendor_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cycle TEXT;
+  _entries INTEGER;
+  _liters NUMERIC;
+  _fat NUMERIC;
+  _snf NUMERIC;
+  _gross NUMERIC;
+  _deducted NUMERIC;
+  _number TEXT;
+  _bill_id UUID;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to close vendor bills';
+  END IF;
+
+  IF _period_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'This cycle runs until %; close it once it has ended', _period_end;
+  END IF;
+
+  SELECT bill_cycle INTO _cycle FROM public.milk_vendors WHERE id = _vendor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Fat and SNF are averaged by litres over the entries that were tested
+  SELECT COUNT(*),
+         COALESCE(SUM(quantity_liters), 0),
+         SUM(fat_percentage * quantity_liters) / NULLIF(SUM(quantity_liters) FILTER (WHERE fat_percentage IS NOT NULL), 0),
+         SUM(snf_percentage * quantity_liters) / NULLIF(SUM(quantity_liters) FILTER (WHERE snf_percentage IS NOT NULL), 0),
+         COALESCE(SUM(total_amount), 0)
+  INTO _entries, _liters, _fat, _snf, _gross
+  FROM public.milk_procurement
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  IF _entries = 0 THEN
+    RAISE EXCEPTION 'No unbilled procurement for this vendor between % and %', _period_start, _period_end;
+  END IF;
+
+  SELECT COALESCE(SUM((d->>'amount')::NUMERIC), 0) INTO _deducted
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  IF _deducted > _gross THEN
+    RAISE EXCEPTION 'Deductions (%) exceed the bill amount (%)', _deducted, _gross;
+  END IF;
+
+  -- VB-<period end yymmdd>-001, -002, ... for the vendors billed that cycle
+  -- numbered past the highest so the gap left by a reopened bill is never reused
+  SELECT 'VB-' || to_char(_period_end, 'YYMMDD') || '-' ||
+    lpad((COALESCE(MAX(split_part(bill_number, '-', 3)::INT), 0) + 1)::TEXT, 3, '0')
+  INTO _number
+  FROM public.vendor_bills
+  WHERE bill_number ~ ('^VB-' || to_char(_period_end, 'YYMMDD') || '-[0-9]+$');
+
+  INSERT INTO public.vendor_bills (
+    bill_number, vendor_id, bill_cycle, period_start, period_end, total_liters, avg_fat, avg_snf,
+    gross_amount, deductions_total, net_payable, notes, created_by
+  )
+  VALUES (
+    _number, _vendor_id, _cycle, _period_start, _period_end, _liters, round(_fat, 2), round(_snf, 2),
+    _gross, _deducted, _gross - _deducted, _notes, auth.uid()
+  )
+  RETURNING id INTO _bill_id;
+
+  INSERT INTO public.vendor_bill_deductions (bill_id, deduction_type, description, amount)
+  SELECT _bill_id, COALESCE(NULLIF(d->>'deduction_type', ''), 'other'), NULLIF(trim(d->>'description'), ''), (d->>'amount')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  UPDATE public.milk_procurement
+  SET bill_id = _bill_id
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  RETURN _bill_id;
+END;
+$$;
+
+-- Pays each bill's net amount as its own vendor payment and logs the
+-- matching expense the way the payments dialog does
+CREATE OR REPLACE FUNCTION public.pay_vendor_bills(
+  _bill_ids UUID[],
+  _payment_date DATE,
+  _payment_mode TEXT DEFAULT 'cash',
+  _reference_number TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill RECORD;
+  _payment_id UUID;
+  _paid INTEGER := 0;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to pay vendor bills';
+  END IF;
+
+  FOR _bill IN
+    SELECT b.*, v.name AS vendor_name
+    FROM public.vendor_bills b
+    JOIN public.milk_vendors v ON v.id = b.vendor_id
+    WHERE b.id = ANY(_bill_ids) AND b.status = 'locked'
+    ORDER BY b.bill_number
+    FOR UPDATE OF b
+  LOOP
+    _payment_id := NULL;
+
+    IF _bill.net_payable > 0 THEN
+      INSERT INTO public.vendor_payments (vendor_id, payment_date, amount, payment_mode, reference_number, notes, recorded_by)
+      VALUES (_bill.vendor_id, _payment_date, _bill.net_payable, _payment_mode, NULLIF(trim(_reference_number), ''),
+              'Bill ' || _bill.bill_number, auth.uid())
+      RETURNING id INTO _payment_id;
+
+      INSERT INTO public.expenses (category, title, amount, expense_date, notes, recorded_by)
+      VALUES ('vendor_payment', 'Vendor Payment - ' || _bill.vendor_name, _bill.net_payable, _payment_date,
+              '[AUTO] vendor_payment:' || _payment_id || ' | Bill ' || _bill.bill_number, auth.uid());
+    END IF;
+
+    UPDATE public.vendor_bills
+    SET status = 'paid', payment_id = _payment_id, paid_at = _payment_date
+    WHERE id = _bill.id;
+
+    UPDATE public.milk_procurement
+    SET payment_status = 'paid'
+    WHERE bill_id = _bill.id;
+
+    _paid := _paid + 1;
+  END LOOP;
+
+  RETURN _paid;
+END;
+$$;
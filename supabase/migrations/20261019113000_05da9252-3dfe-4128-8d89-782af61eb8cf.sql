@@ -0,0 +1,458 @@
+-- Vendor advances and loans
+-- Cash advances, cattle feed given on credit and loans are kept per vendor
+-- with an instalment plan: a fixed amount or a percentage of each bill or
+-- payment. close_vendor_bill now takes the instalments off the bill as
+-- deductions, and recover_vendor_advances does the same when a payment is
+-- recorded outside a bill. Each recovery is logged against its advance so
+-- the outstanding amount is always the principal less what was recovered.
+--
+-- The vendor balance becomes the net position: milk dues less payments,
+-- less deductions not tied to an advance, less every advance issued. A
+-- recovery only moves an amount from milk dues to the advance, so it does
+-- not change the balance. Cash advances and loans are money paid out and
+-- are logged as vendor payment expenses; feed comes from stock already
+-- expensed when it was bought.
+
+CREATE TABLE public.vendor_advances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES public.milk_vendors(id) ON DELETE RESTRICT,
+  advance_type TEXT NOT NULL CHECK (advance_type IN ('cash_advance', 'feed_advance', 'loan')),
+  description TEXT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  issued_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  recovery_mode TEXT NOT NULL CHECK (recovery_mode IN ('fixed', 'percentage')),
+  recovery_value NUMERIC(12,2) NOT NULL CHECK (recovery_value > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'settled')),
+  expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (recovery_mode <> 'percentage' OR recovery_value <= 100)
+);
+
+CREATE INDEX idx_vendor_advances_vendor ON public.vendor_advances(vendor_id, issued_date);
+CREATE INDEX idx_vendor_advances_status ON public.vendor_advances(status);
+
+CREATE TRIGGER update_vendor_advances_updated_at
+  BEFORE UPDATE ON public.vendor_advances
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.vendor_advance_recoveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  advance_id UUID NOT NULL REFERENCES public.vendor_advances(id) ON DELETE CASCADE,
+  -- Reopening a bill or deleting a payment undoes its recoveries
+  bill_id UUID REFERENCES public.vendor_bills(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES public.vendor_payments(id) ON DELETE CASCADE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  recovered_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (bill_id IS NOT NULL OR payment_id IS NOT NULL)
+);
+
+CREATE INDEX idx_vendor_advance_recoveries_advance ON public.vendor_advance_recoveries(advance_id);
+
+ALTER TABLE public.vendor_bill_deductions
+  DROP CONSTRAINT IF EXISTS vendor_bill_deductions_deduction_type_check;
+ALTER TABLE public.vendor_bill_deductions
+  ADD CONSTRAINT vendor_bill_deductions_deduction_type_check
+    CHECK (deduction_type IN ('cash_advance', 'feed_advance', 'loan', 'other'));
+ALTER TABLE public.vendor_bill_deductions
+  ADD COLUMN IF NOT EXISTS advance_id UUID REFERENCES public.vendor_advances(id);
+
+ALTER TABLE public.vendor_advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendor_advance_recoveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to vendor_advances"
+  ON public.vendor_advances FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage vendor_advances"
+  ON public.vendor_advances FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Farm workers can read vendor_advances"
+  ON public.vendor_advances FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read vendor_advances"
+  ON public.vendor_advances FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to vendor_advance_recoveries"
+  ON public.vendor_advance_recoveries FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Accountants can manage vendor_advance_recoveries"
+  ON public.vendor_advance_recoveries FOR ALL
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Farm workers can read vendor_advance_recoveries"
+  ON public.vendor_advance_recoveries FOR SELECT
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Auditors can read vendor_advance_recoveries"
+  ON public.vendor_advance_recoveries FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Balance = procurement dues - payments - other bill deductions - advances issued
+CREATE OR REPLACE FUNCTION public.recalculate_vendor_balance(p_vendor_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_total_dues NUMERIC;
+  v_total_paid NUMERIC;
+  v_total_deducted NUMERIC;
+  v_total_advanced NUMERIC;
+  v_balance NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_total_dues
+  FROM public.milk_procurement
+  WHERE vendor_id = p_vendor_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total_paid
+  FROM public.vendor_payments
+  WHERE vendor_id = p_vendor_id;
+
+  SELECT COALESCE(SUM(d.amount), 0) INTO v_total_deducted
+  FROM public.vendor_bill_deductions d
+  JOIN public.vendor_bills b ON b.id = d.bill_id
+  WHERE b.vendor_id = p_vendor_id
+    AND d.advance_id IS NULL;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total_advanced
+  FROM public.vendor_advances
+  WHERE vendor_id = p_vendor_id;
+
+  v_balance := v_total_dues - v_total_paid - v_total_deducted - v_total_advanced;
+
+  UPDATE public.milk_vendors
+  SET current_balance = v_balance
+  WHERE id = p_vendor_id;
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_vendor_balance_on_advance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM recalculate_vendor_balance(OLD.vendor_id);
+    -- The cash paid out with the advance is no longer an expense
+    IF OLD.expense_id IS NOT NULL THEN
+      DELETE FROM public.expenses WHERE id = OLD.expense_id;
+    END IF;
+    RETURN OLD;
+  ELSE
+    PERFORM recalculate_vendor_balance(NEW.vendor_id);
+    IF TG_OP = 'UPDATE' AND OLD.vendor_id <> NEW.vendor_id THEN
+      PERFORM recalculate_vendor_balance(OLD.vendor_id);
+    END IF;
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_update_vendor_balance_advance
+AFTER INSERT OR UPDATE OF amount, vendor_id OR DELETE ON public.vendor_advances
+FOR EACH ROW
+EXECUTE FUNCTION public.update_vendor_balance_on_advance();
+
+-- An advance with recoveries is part of settled bills and payments
+CREATE OR REPLACE FUNCTION public.prevent_recovered_advance_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.vendor_advance_recoveries WHERE advance_id = OLD.id) THEN
+    RAISE EXCEPTION 'This advance has recoveries and cannot be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_recovered_advance_delete
+BEFORE DELETE ON public.vendor_advances
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_recovered_advance_delete();
+
+-- Advances are settled once recoveries cover the principal, and active
+-- again if a recovery is undone
+CREATE OR REPLACE FUNCTION public.update_advance_status_on_recovery()
+RETURNS TRIGGER AS $$
+DECLARE
+  _advance_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.advance_id ELSE NEW.advance_id END;
+BEGIN
+  UPDATE public.vendor_advances a
+  SET status = CASE
+    WHEN (SELECT COALESCE(SUM(amount), 0) FROM public.vendor_advance_recoveries WHERE advance_id = a.id) >= a.amount
+      THEN 'settled'
+    ELSE 'active'
+  END
+  WHERE a.id = _advance_id;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_advance_status_on_recovery
+AFTER INSERT OR DELETE ON public.vendor_advance_recoveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_advance_status_on_recovery();
+
+-- Takes this cycle's instalments for a vendor's active advances, oldest
+-- first. Percentage plans apply to _base; the total never exceeds _cap.
+-- Bill recoveries are also written as bill deductions so they show on the
+-- statement. Returns the amount recovered.
+CREATE OR REPLACE FUNCTION public.apply_advance_recoveries(
+  _vendor_id UUID,
+  _base NUMERIC,
+  _cap NUMERIC,
+  _bill_id UUID,
+  _payment_id UUID,
+  _recovered_on DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _advance RECORD;
+  _instalment NUMERIC;
+  _remaining NUMERIC := GREATEST(COALESCE(_cap, 0), 0);
+BEGIN
+  FOR _advance IN
+    SELECT a.*,
+           a.amount - COALESCE((SELECT SUM(r.amount) FROM public.vendor_advance_recoveries r WHERE r.advance_id = a.id), 0)
+             AS outstanding
+    FROM public.vendor_advances a
+    WHERE a.vendor_id = _vendor_id
+      AND a.status = 'active'
+      AND a.issued_date <= _recovered_on
+    ORDER BY a.issued_date, a.created_at
+    FOR UPDATE OF a
+  LOOP
+    EXIT WHEN _remaining <= 0;
+
+    _instalment := CASE _advance.recovery_mode
+      WHEN 'percentage' THEN round(_base * _advance.recovery_value / 100, 2)
+      ELSE _advance.recovery_value
+    END;
+    _instalment := LEAST(_instalment, _advance.outstanding, _remaining);
+    CONTINUE WHEN _instalment <= 0;
+
+    INSERT INTO public.vendor_advance_recoveries (advance_id, bill_id, payment_id, amount, recovered_on)
+    VALUES (_advance.id, _bill_id, _payment_id, _instalment, _recovered_on);
+
+    IF _bill_id IS NOT NULL THEN
+      INSERT INTO public.vendor_bill_deductions (bill_id, deduction_type, description, amount, advance_id)
+      VALUES (_bill_id, _advance.advance_type, _advance.description, _instalment, _advance.id);
+    END IF;
+
+    _remaining := _remaining - _instalment;
+  END LOOP;
+
+  RETURN GREATEST(COALESCE(_cap, 0), 0) - _remaining;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_vendor_advance(
+  _vendor_id UUID,
+  _advance_type TEXT,
+  _amount NUMERIC,
+  _issued_date DATE,
+  _recovery_mode TEXT,
+  _recovery_value NUMERIC,
+  _description TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _vendor_name TEXT;
+  _advance_id UUID;
+  _expense_id UUID;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to issue vendor advances';
+  END IF;
+
+  SELECT name INTO _vendor_name FROM public.milk_vendors WHERE id = _vendor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  INSERT INTO public.vendor_advances (
+    vendor_id, advance_type, description, amount, issued_date, recovery_mode, recovery_value, notes, created_by
+  )
+  VALUES (
+    _vendor_id, _advance_type, NULLIF(trim(_description), ''), _amount, _issued_date, _recovery_mode,
+    _recovery_value, NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO _advance_id;
+
+  IF _advance_type IN ('cash_advance', 'loan') THEN
+    INSERT INTO public.expenses (category, title, amount, expense_date, notes, recorded_by)
+    VALUES ('vendor_payment', 'Vendor Advance - ' || _vendor_name, _amount, _issued_date,
+            '[AUTO] vendor_advance:' || _advance_id || ' | ' || replace(_advance_type, '_', ' '), auth.uid())
+    RETURNING id INTO _expense_id;
+
+    UPDATE public.vendor_advances SET expense_id = _expense_id WHERE id = _advance_id;
+  END IF;
+
+  RETURN _advance_id;
+END;
+$$;
+
+-- Instalments for a payment recorded outside a bill. Percentage plans
+-- apply to the amount paid, and recoveries stop at the milk dues still
+-- unpaid so an advance is never recovered from money not yet earned.
+CREATE OR REPLACE FUNCTION public.recover_vendor_advances(_payment_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment RECORD;
+  _balance NUMERIC;
+  _outstanding NUMERIC;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to recover vendor advances';
+  END IF;
+
+  SELECT * INTO _payment FROM public.vendor_payments WHERE id = _payment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.vendor_advance_recoveries WHERE payment_id = _payment_id) THEN
+    RAISE EXCEPTION 'Advances have already been recovered from this payment';
+  END IF;
+
+  _balance := recalculate_vendor_balance(_payment.vendor_id);
+
+  SELECT COALESCE(SUM(a.amount), 0) - COALESCE(SUM(r.recovered), 0) INTO _outstanding
+  FROM public.vendor_advances a
+  LEFT JOIN (
+    SELECT advance_id, SUM(amount) AS recovered FROM public.vendor_advance_recoveries GROUP BY advance_id
+  ) r ON r.advance_id = a.id
+  WHERE a.vendor_id = _payment.vendor_id;
+
+  -- Balance + outstanding advances = milk dues not yet paid or recovered
+  RETURN apply_advance_recoveries(
+    _payment.vendor_id, _payment.amount, _balance + _outstanding, NULL, _payment_id, _payment.payment_date
+  );
+END;
+$$;
+
+-- Same as before, with advance instalments taken after the manual deductions
+CREATE OR REPLACE FUNCTION public.close_vendor_bill(
+  _vendor_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cycle TEXT;
+  _entries INTEGER;
+  _liters NUMERIC;
+  _fat NUMERIC;
+  _snf NUMERIC;
+  _gross NUMERIC;
+  _deducted NUMERIC;
+  _recovered NUMERIC;
+  _number TEXT;
+  _bill_id UUID;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to close vendor bills';
+  END IF;
+
+  IF _period_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'This cycle runs until %; close it once it has ended', _period_end;
+  END IF;
+
+  SELECT bill_cycle INTO _cycle FROM public.milk_vendors WHERE id = _vendor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Fat and SNF are averaged by litres over the entries that were tested
+  SELECT COUNT(*),
+         COALESCE(SUM(quantity_liters), 0),
+         SUM(fat_percentage * quantity_liters) / NULLIF(SUM(quantity_liters) FILTER (WHERE fat_percentage IS NOT NULL), 0),
+         SUM(snf_percentage * quantity_liters) / NULLIF(SUM(quantity_liters) FILTER (WHERE snf_percentage IS NOT NULL), 0),
+         COALESCE(SUM(total_amount), 0)
+  INTO _entries, _liters, _fat, _snf, _gross
+  FROM public.milk_procurement
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  IF _entries = 0 THEN
+    RAISE EXCEPTION 'No unbilled procurement for this vendor between % and %', _period_start, _period_end;
+  END IF;
+
+  SELECT COALESCE(SUM((d->>'amount')::NUMERIC), 0) INTO _deducted
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  IF _deducted > _gross THEN
+    RAISE EXCEPTION 'Deductions (%) exceed the bill amount (%)', _deducted, _gross;
+  END IF;
+
+  -- VB-<period end yymmdd>-001, -002, ... for the vendors billed that cycle
+  -- numbered past the highest so the gap left by a reopened bill is never reused
+  SELECT 'VB-' || to_char(_period_end, 'YYMMDD') || '-' ||
+    lpad((COALESCE(MAX(split_part(bill_number, '-', 3)::INT), 0) + 1)::TEXT, 3, '0')
+  INTO _number
+  FROM public.vendor_bills
+  WHERE bill_number ~ ('^VB-' || to_char(_period_end, 'YYMMDD') || '-[0-9]+$');
+
+  INSERT INTO public.vendor_bills (
+    bill_number, vendor_id, bill_cycle, period_start, period_end, total_liters, avg_fat, avg_snf,
+    gross_amount, deductions_total, net_payable, notes, created_by
+  )
+  VALUES (
+    _number, _vendor_id, _cycle, _period_start, _period_end, _liters, round(_fat, 2), round(_snf, 2),
+    _gross, _deducted, _gross - _deducted, _notes, auth.uid()
+  )
+  RETURNING id INTO _bill_id;
+
+  INSERT INTO public.vendor_bill_deductions (bill_id, deduction_type, description, amount)
+  SELECT _bill_id, COALESCE(NULLIF(d->>'deduction_type', ''), 'other'), NULLIF(trim(d->>'description'), ''), (d->>'amount')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  _recovered := apply_advance_recoveries(_vendor_id, _gross, _gross - _deducted, _bill_id, NULL, _period_end);
+
+  -- Also brings the vendor balance up to date now that the deductions exist
+  UPDATE public.vendor_bills
+  SET deductions_total = _deducted + _recovered,
+      net_payable = _gross - _deducted - _recovered
+  WHERE id = _bill_id;
+
+  UPDATE public.milk_procurement
+  SET bill_id = _bill_id
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  RETURN _bill_id;
+END;
+$$;
+
+-- Bring existing balances onto the new basis
+SELECT public.recalculate_vendor_balance(id) FROM public.milk_vendors;
@@ -0,0 +1,145 @@
+-- Collection-centre milk testing
+-- Procurement entries now record the lactometer reading (CLR), milk
+-- temperature, the estimated added water, MBRT and the alcohol test. The
+-- app checks them against the acceptance thresholds kept in
+-- dairy_settings.settings and stores the outcome: accepted, downgraded to a
+-- reduced rate, or rejected, with the reason. Rejected milk is not paid
+-- for, so its amount is held at zero here and its litres are left out of
+-- vendor bills.
+
+ALTER TABLE public.milk_procurement
+  ADD COLUMN IF NOT EXISTS clr NUMERIC(4,1),
+  ADD COLUMN IF NOT EXISTS temperature_c NUMERIC(4,1),
+  ADD COLUMN IF NOT EXISTS water_percentage NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS mbrt_hours NUMERIC(4,1),
+  ADD COLUMN IF NOT EXISTS alcohol_test TEXT CHECK (alcohol_test IN ('pass', 'fail')),
+  ADD COLUMN IF NOT EXISTS quality_status TEXT NOT NULL DEFAULT 'accepted'
+    CHECK (quality_status IN ('accepted', 'downgraded', 'rejected')),
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+ALTER TABLE public.milk_procurement
+  ADD CONSTRAINT milk_procurement_quality_reason_check
+    CHECK (quality_status = 'accepted' OR rejection_reason IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_milk_procurement_quality ON public.milk_procurement(quality_status)
+  WHERE quality_status <> 'accepted';
+
+CREATE OR REPLACE FUNCTION public.zero_rejected_procurement_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quality_status = 'rejected' THEN
+    NEW.total_amount := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER zero_rejected_procurement_amount
+BEFORE INSERT OR UPDATE ON public.milk_procurement
+FOR EACH ROW
+EXECUTE FUNCTION public.zero_rejected_procurement_amount();
+
+-- Same as before, with rejected milk left out of the litres and averages
+CREATE OR REPLACE FUNCTION public.close_vendor_bill(
+  _vendor_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cycle TEXT;
+  _entries INTEGER;
+  _liters NUMERIC;
+  _fat NUMERIC;
+  _snf NUMERIC;
+  _gross NUMERIC;
+  _deducted NUMERIC;
+  _recovered NUMERIC;
+  _number TEXT;
+  _bill_id UUID;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'accountant'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to close vendor bills';
+  END IF;
+
+  IF _period_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'This cycle runs until %; close it once it has ended', _period_end;
+  END IF;
+
+  SELECT bill_cycle INTO _cycle FROM public.milk_vendors WHERE id = _vendor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Fat and SNF are averaged by litres over the accepted entries that were tested
+  SELECT COUNT(*),
+         COALESCE(SUM(quantity_liters) FILTER (WHERE quality_status <> 'rejected'), 0),
+         SUM(fat_percentage * quantity_liters) FILTER (WHERE quality_status <> 'rejected')
+           / NULLIF(SUM(quantity_liters) FILTER (WHERE fat_percentage IS NOT NULL AND quality_status <> 'rejected'), 0),
+         SUM(snf_percentage * quantity_liters) FILTER (WHERE quality_status <> 'rejected')
+           / NULLIF(SUM(quantity_liters) FILTER (WHERE snf_percentage IS NOT NULL AND quality_status <> 'rejected'), 0),
+         COALESCE(SUM(total_amount), 0)
+  INTO _entries, _liters, _fat, _snf, _gross
+  FROM public.milk_procurement
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  IF _entries = 0 THEN
+    RAISE EXCEPTION 'No unbilled procurement for this vendor between % and %', _period_start, _period_end;
+  END IF;
+
+  SELECT COALESCE(SUM((d->>'amount')::NUMERIC), 0) INTO _deducted
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  IF _deducted > _gross THEN
+    RAISE EXCEPTION 'Deductions (%) exceed the bill amount (%)', _deducted, _gross;
+  END IF;
+
+  -- VB-<period end yymmdd>-001, -002, ... for the vendors billed that cycle
+  -- numbered past the highest so the gap left by a reopened bill is never reused
+  SELECT 'VB-' || to_char(_period_end, 'YYMMDD') || '-' ||
+    lpad((COALESCE(MAX(split_part(bill_number, '-', 3)::INT), 0) + 1)::TEXT, 3, '0')
+  INTO _number
+  FROM public.vendor_bills
+  WHERE bill_number ~ ('^VB-' || to_char(_period_end, 'YYMMDD') || '-[0-9]+$');
+
+  INSERT INTO public.vendor_bills (
+    bill_number, vendor_id, bill_cycle, period_start, period_end, total_liters, avg_fat, avg_snf,
+    gross_amount, deductions_total, net_payable, notes, created_by
+  )
+  VALUES (
+    _number, _vendor_id, _cycle, _period_start, _period_end, _liters, round(_fat, 2), round(_snf, 2),
+    _gross, _deducted, _gross - _deducted, _notes, auth.uid()
+  )
+  RETURNING id INTO _bill_id;
+
+  INSERT INTO public.vendor_bill_deductions (bill_id, deduction_type, description, amount)
+  SELECT _bill_id, COALESCE(NULLIF(d->>'deduction_type', ''), 'other'), NULLIF(trim(d->>'description'), ''), (d->>'amount')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(_deductions, '[]'::jsonb)) d
+  WHERE COALESCE((d->>'amount')::NUMERIC, 0) > 0;
+
+  _recovered := apply_advance_recoveries(_vendor_id, _gross, _gross - _deducted, _bill_id, NULL, _period_end);
+
+  -- Also brings the vendor balance up to date now that the deductions exist
+  UPDATE public.vendor_bills
+  SET deductions_total = _deducted + _recovered,
+      net_payable = _gross - _deducted - _recovered
+  WHERE id = _bill_id;
+
+  UPDATE public.milk_procurement
+  SET bill_id = _bill_id
+  WHERE vendor_id = _vendor_id
+    AND procurement_date BETWEEN _period_start AND _period_end
+    AND bill_id IS NULL;
+
+  RETURN _bill_id;
+END;
+$$;
@@ -0,0 +1,62 @@
+-- Milk balance
+-- The milk coming in each day (herd production and accepted procurement)
+-- is reconciled against what went out: product sales converted back to
+-- the litres of milk they were made from, milk withheld during treatment
+-- withdrawal, and wastage logged at the dairy. Whatever is left over is
+-- shrinkage.
+--
+-- products.milk_equivalent_liters is the raw milk behind one unit of the
+-- product, so it carries the processing yield: about 5 L per kg of paneer
+-- and 25 L per kg of ghee. Products left NULL are not made from milk and
+-- stay out of the balance.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS milk_equivalent_liters NUMERIC(8,3)
+    CHECK (milk_equivalent_liters IS NULL OR milk_equivalent_liters >= 0);
+
+UPDATE public.products
+SET milk_equivalent_liters = CASE category
+  WHEN 'milk' THEN 1
+  WHEN 'curd' THEN 1
+  WHEN 'paneer' THEN 5
+  WHEN 'butter' THEN 20
+  WHEN 'ghee' THEN 25
+END * CASE unit
+  WHEN '500ml' THEN 0.5
+  WHEN '250ml' THEN 0.25
+  ELSE 1
+END
+WHERE milk_equivalent_liters IS NULL
+  AND category IN ('milk', 'curd', 'paneer', 'butter', 'ghee')
+  AND unit IN ('liter', 'kg', '500ml', '250ml');
+
+CREATE TABLE public.milk_wastage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wastage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  session TEXT CHECK (session IN ('morning', 'evening')),
+  reason TEXT NOT NULL CHECK (reason IN ('spillage', 'spoilage', 'sample', 'other')),
+  quantity_liters NUMERIC(10,2) NOT NULL CHECK (quantity_liters > 0),
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_milk_wastage_date ON public.milk_wastage(wastage_date);
+
+ALTER TABLE public.milk_wastage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to milk_wastage"
+  ON public.milk_wastage FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can manage milk_wastage"
+  ON public.milk_wastage FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Accountants can read milk_wastage"
+  ON public.milk_wastage FOR SELECT
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read milk_wastage"
+  ON public.milk_wastage FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
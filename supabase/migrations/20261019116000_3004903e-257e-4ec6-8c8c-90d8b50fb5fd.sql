@@ -0,0 +1,342 @@
+-- Dairy processing batches
+-- A batch turns raw milk, plus supplies such as culture, rennet or salt
+-- kept in feed_inventory under the 'dairy_supply' category, into a
+-- finished product: 40 L of milk into 8 kg of paneer. Each batch has a
+-- number, manufacture and expiry dates, and its cost rolled up from the
+-- milk, the supplies at their stock cost and any other cost (fuel,
+-- labour).
+--
+-- products.stock_quantity holds finished-goods stock. It stays NULL for
+-- products that are not made in batches (fresh milk) and starts counting
+-- with the product's first batch. Batches add to it, delivery items take
+-- from it when they are added, and a delivery marked missed puts its
+-- items back.
+--
+-- delivery_items.stock_taken records how much of an item came out of
+-- stock, so only that goes back when the item is removed. It is 0 for
+-- untracked products, for items added before the product's first batch
+-- and for items on a missed delivery.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS stock_quantity NUMERIC(12,3);
+
+ALTER TABLE public.delivery_items
+  ADD COLUMN IF NOT EXISTS stock_taken NUMERIC(12,3) NOT NULL DEFAULT 0;
+
+CREATE TABLE public.processing_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_number TEXT NOT NULL UNIQUE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  batch_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  milk_liters NUMERIC(10,2) NOT NULL CHECK (milk_liters > 0),
+  milk_rate NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (milk_rate >= 0),
+  output_quantity NUMERIC(10,3) NOT NULL CHECK (output_quantity > 0),
+  manufactured_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  expires_on DATE,
+  milk_cost NUMERIC(12,2) NOT NULL DEFAULT 0,
+  inputs_cost NUMERIC(12,2) NOT NULL DEFAULT 0,
+  other_cost NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (other_cost >= 0),
+  total_cost NUMERIC(12,2) NOT NULL DEFAULT 0,
+  cost_per_unit NUMERIC(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (expires_on IS NULL OR expires_on >= manufactured_on)
+);
+
+CREATE INDEX idx_processing_batches_product ON public.processing_batches(product_id, batch_date);
+CREATE INDEX idx_processing_batches_date ON public.processing_batches(batch_date);
+
+CREATE TABLE public.processing_batch_inputs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.processing_batches(id) ON DELETE CASCADE,
+  feed_id UUID NOT NULL REFERENCES public.feed_inventory(id) ON DELETE RESTRICT,
+  quantity NUMERIC(10,3) NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total_cost NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_processing_batch_inputs_batch ON public.processing_batch_inputs(batch_id);
+
+ALTER TABLE public.processing_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.processing_batch_inputs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins have full access to processing_batches"
+  ON public.processing_batches FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can manage processing_batches"
+  ON public.processing_batches FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Accountants can read processing_batches"
+  ON public.processing_batches FOR SELECT
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read processing_batches"
+  ON public.processing_batches FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+CREATE POLICY "Managers and admins have full access to processing_batch_inputs"
+  ON public.processing_batch_inputs FOR ALL
+  USING (is_manager_or_admin(auth.uid()));
+
+CREATE POLICY "Farm workers can manage processing_batch_inputs"
+  ON public.processing_batch_inputs FOR ALL
+  USING (has_role(auth.uid(), 'farm_worker'::user_role));
+
+CREATE POLICY "Accountants can read processing_batch_inputs"
+  ON public.processing_batch_inputs FOR SELECT
+  USING (has_role(auth.uid(), 'accountant'::user_role));
+
+CREATE POLICY "Auditors can read processing_batch_inputs"
+  ON public.processing_batch_inputs FOR SELECT
+  USING (has_role(auth.uid(), 'auditor'::user_role));
+
+-- Record a batch with its supplies (_inputs: [{feed_id, quantity}]),
+-- costing supplies at their current cost_per_unit, taking them out of
+-- feed_inventory and adding the output to the product's stock
+CREATE OR REPLACE FUNCTION public.record_processing_batch(
+  _batch_number TEXT,
+  _product_id UUID,
+  _batch_date DATE,
+  _milk_liters NUMERIC,
+  _milk_rate NUMERIC,
+  _output_quantity NUMERIC,
+  _manufactured_on DATE,
+  _expires_on DATE DEFAULT NULL,
+  _other_cost NUMERIC DEFAULT 0,
+  _inputs JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id UUID;
+  _milk_cost NUMERIC;
+  _inputs_cost NUMERIC;
+  _total_cost NUMERIC;
+BEGIN
+  IF NOT (is_manager_or_admin(auth.uid()) OR has_role(auth.uid(), 'farm_worker'::user_role)) THEN
+    RAISE EXCEPTION 'Not allowed to record processing batches';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_inputs) AS i(feed_id UUID, quantity NUMERIC)
+    LEFT JOIN public.feed_inventory f ON f.id = i.feed_id
+    WHERE f.id IS NULL OR i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every input needs a stock item and a quantity';
+  END IF;
+
+  _milk_cost := ROUND(_milk_liters * COALESCE(_milk_rate, 0), 2);
+
+  SELECT COALESCE(SUM(ROUND(i.quantity * COALESCE(f.cost_per_unit, 0), 2)), 0)
+  INTO _inputs_cost
+  FROM jsonb_to_recordset(_inputs) AS i(feed_id UUID, quantity NUMERIC)
+  JOIN public.feed_inventory f ON f.id = i.feed_id;
+
+  _total_cost := _milk_cost + _inputs_cost + COALESCE(_other_cost, 0);
+
+  INSERT INTO public.processing_batches (
+    batch_number, product_id, batch_date, milk_liters, milk_rate, output_quantity,
+    manufactured_on, expires_on, milk_cost, inputs_cost, other_cost, total_cost,
+    cost_per_unit, notes, created_by
+  ) VALUES (
+    _batch_number, _product_id, _batch_date, _milk_liters, COALESCE(_milk_rate, 0), _output_quantity,
+    _manufactured_on, _expires_on, _milk_cost, _inputs_cost, COALESCE(_other_cost, 0), _total_cost,
+    ROUND(_total_cost / _output_quantity, 2), _notes, auth.uid()
+  )
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.processing_batch_inputs (batch_id, feed_id, quantity, unit_cost, total_cost)
+  SELECT _batch_id, i.feed_id, i.quantity, COALESCE(f.cost_per_unit, 0), ROUND(i.quantity * COALESCE(f.cost_per_unit, 0), 2)
+  FROM jsonb_to_recordset(_inputs) AS i(feed_id UUID, quantity NUMERIC)
+  JOIN public.feed_inventory f ON f.id = i.feed_id;
+
+  UPDATE public.feed_inventory f
+  SET current_stock = COALESCE(f.current_stock, 0) - used.quantity
+  FROM (
+    SELECT feed_id, SUM(quantity) AS quantity
+    FROM jsonb_to_recordset(_inputs) AS i(feed_id UUID, quantity NUMERIC)
+    GROUP BY feed_id
+  ) used
+  WHERE f.id = used.feed_id;
+
+  UPDATE public.products
+  SET stock_quantity = COALESCE(stock_quantity, 0) + _output_quantity
+  WHERE id = _product_id;
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- Deleting a batch returns its supplies and takes its output back out of
+-- stock; this runs before the inputs cascade away
+CREATE OR REPLACE FUNCTION public.reverse_processing_batch_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.feed_inventory f
+  SET current_stock = COALESCE(f.current_stock, 0) + used.quantity
+  FROM (
+    SELECT feed_id, SUM(quantity) AS quantity
+    FROM public.processing_batch_inputs
+    WHERE batch_id = OLD.id
+    GROUP BY feed_id
+  ) used
+  WHERE f.id = used.feed_id;
+
+  UPDATE public.products
+  SET stock_quantity = COALESCE(stock_quantity, 0) - OLD.output_quantity
+  WHERE id = OLD.product_id;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER reverse_processing_batch_stock
+  BEFORE DELETE ON public.processing_batches
+  FOR EACH ROW EXECUTE FUNCTION public.reverse_processing_batch_stock();
+
+-- Delivery items draw on finished-goods stock for products that track it.
+-- Items on a missed delivery are not taken from stock.
+CREATE OR REPLACE FUNCTION public.take_delivery_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.stock_taken > 0 THEN
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + OLD.stock_taken
+    WHERE id = OLD.product_id AND stock_quantity IS NOT NULL;
+  END IF;
+
+  NEW.stock_taken := 0;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.deliveries WHERE id = NEW.delivery_id AND status = 'missed'
+  ) THEN
+    UPDATE public.products
+    SET stock_quantity = stock_quantity - NEW.quantity
+    WHERE id = NEW.product_id AND stock_quantity IS NOT NULL;
+    IF FOUND THEN
+      NEW.stock_taken := NEW.quantity;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER take_delivery_item_stock
+  BEFORE INSERT OR UPDATE OF product_id, quantity ON public.delivery_items
+  FOR EACH ROW EXECUTE FUNCTION public.take_delivery_item_stock();
+
+-- A removed item gives back what it took, but only while its delivery
+-- still exists. Items deleted along with their delivery (or customer) are
+-- handled by return_pending_delivery_stock, since a delivered order's
+-- goods are gone.
+CREATE OR REPLACE FUNCTION public.return_delivery_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.stock_taken > 0 AND EXISTS (
+    SELECT 1 FROM public.deliveries WHERE id = OLD.delivery_id
+  ) THEN
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + OLD.stock_taken
+    WHERE id = OLD.product_id AND stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER return_delivery_item_stock
+  AFTER DELETE ON public.delivery_items
+  FOR EACH ROW EXECUTE FUNCTION public.return_delivery_item_stock();
+
+CREATE OR REPLACE FUNCTION public.return_pending_delivery_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'pending' THEN
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+      SELECT product_id, SUM(stock_taken) AS quantity
+      FROM public.delivery_items
+      WHERE delivery_id = OLD.id AND stock_taken > 0
+      GROUP BY product_id
+    ) items
+    WHERE p.id = items.product_id AND p.stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER return_pending_delivery_stock
+  BEFORE DELETE ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.return_pending_delivery_stock();
+
+CREATE OR REPLACE FUNCTION public.update_product_stock_on_missed_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'missed' AND OLD.status IS DISTINCT FROM 'missed' THEN
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+      SELECT product_id, SUM(stock_taken) AS quantity
+      FROM public.delivery_items
+      WHERE delivery_id = NEW.id AND stock_taken > 0
+      GROUP BY product_id
+    ) items
+    WHERE p.id = items.product_id AND p.stock_quantity IS NOT NULL;
+
+    UPDATE public.delivery_items
+    SET stock_taken = 0
+    WHERE delivery_id = NEW.id AND stock_taken > 0;
+  ELSIF OLD.status = 'missed' AND NEW.status IS DISTINCT FROM 'missed' THEN
+    UPDATE public.delivery_items i
+    SET stock_taken = i.quantity
+    FROM public.products p
+    WHERE i.delivery_id = NEW.id AND p.id = i.product_id AND p.stock_quantity IS NOT NULL;
+
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - items.quantity
+    FROM (
+      SELECT product_id, SUM(stock_taken) AS quantity
+      FROM public.delivery_items
+      WHERE delivery_id = NEW.id AND stock_taken > 0
+      GROUP BY product_id
+    ) items
+    WHERE p.id = items.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_product_stock_on_missed_delivery
+  AFTER UPDATE OF status ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.update_product_stock_on_missed_delivery();
@@ -0,0 +1,50 @@
+-- Replace a customer's delivery schedules atomically
+-- Saving the customer form deleted the customer's delivery_schedules rows
+-- and inserted the new set in two requests, so a failed insert left the
+-- customer with no schedule at all. Doing both in one function call keeps
+-- the old rows unless the new ones are stored.
+
+-- Helper: JSON array of integers -> INTEGER[], NULL otherwise
+CREATE OR REPLACE FUNCTION public._jsonb_int_array(_value JSONB)
+RETURNS INTEGER[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(_value) = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(_value)::INTEGER)
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.replace_delivery_schedules(
+  _customer_id UUID,
+  _schedules JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_manager_or_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to change delivery schedules';
+  END IF;
+
+  DELETE FROM public.delivery_schedules WHERE customer_id = _customer_id;
+
+  INSERT INTO public.delivery_schedules (
+    customer_id, customer_product_id, pattern, weekdays, interval_days, anchor_date, month_days, auto_deliver
+  )
+  SELECT
+    _customer_id,
+    NULLIF(s->>'customer_product_id', '')::UUID,
+    COALESCE(s->>'pattern', 'daily'),
+    public._jsonb_int_array(s->'weekdays'),
+    (s->>'interval_days')::INTEGER,
+    (s->>'anchor_date')::DATE,
+    public._jsonb_int_array(s->'month_days'),
+    COALESCE((s->>'auto_deliver')::BOOLEAN, false)
+  FROM jsonb_array_elements(COALESCE(_schedules, '[]'::jsonb)) s;
+END;
+$$;